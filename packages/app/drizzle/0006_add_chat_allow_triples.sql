@@ -0,0 +1 @@
+ALTER TABLE "chats" ADD COLUMN "allow_triples" boolean DEFAULT false NOT NULL;
@@ -0,0 +1,7 @@
+ALTER TABLE "pair_history" ADD COLUMN "met_on" text;--> statement-breakpoint
+ALTER TABLE "pair_history" DROP CONSTRAINT "pair_history_chat_id_pair_key_pk";--> statement-breakpoint
+INSERT INTO "pair_history" ("chat_id", "pair_key", "count", "met_on") SELECT "pair_history"."chat_id", "pair_history"."pair_key", 1, to_char(COALESCE((SELECT "last_summary_at" FROM "chats" WHERE "chats"."chat_id" = "pair_history"."chat_id")::date, CURRENT_DATE) - 7 * "meeting"."index", 'YYYY-MM-DD') FROM "pair_history" CROSS JOIN LATERAL generate_series(0, "pair_history"."count" - 1) AS "meeting"("index");--> statement-breakpoint
+DELETE FROM "pair_history" WHERE "met_on" IS NULL;--> statement-breakpoint
+ALTER TABLE "pair_history" ALTER COLUMN "met_on" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "pair_history" ADD CONSTRAINT "pair_history_chat_id_pair_key_met_on_pk" PRIMARY KEY("chat_id","pair_key","met_on");--> statement-breakpoint
+ALTER TABLE "chats" ADD COLUMN "history_half_life_weeks" integer;
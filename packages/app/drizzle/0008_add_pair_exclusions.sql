@@ -0,0 +1,11 @@
+CREATE TABLE "pair_exclusions" (
+	"chat_id" text NOT NULL,
+	"requester_id" bigint NOT NULL,
+	"excluded_id" bigint NOT NULL,
+	"excluded_first_name" text NOT NULL,
+	"excluded_last_name" text,
+	"excluded_username" text,
+	CONSTRAINT "pair_exclusions_chat_id_requester_id_excluded_id_pk" PRIMARY KEY("chat_id","requester_id","excluded_id")
+);
+--> statement-breakpoint
+ALTER TABLE "pair_exclusions" ADD CONSTRAINT "pair_exclusions_chat_id_chats_chat_id_fk" FOREIGN KEY ("chat_id") REFERENCES "public"."chats"("chat_id") ON DELETE no action ON UPDATE no action;
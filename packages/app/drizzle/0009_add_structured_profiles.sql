@@ -0,0 +1,8 @@
+ALTER TABLE "profiles" RENAME COLUMN "text" TO "about";--> statement-breakpoint
+ALTER TABLE "profiles" ALTER COLUMN "about" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "profiles" ADD COLUMN "occupation" text;--> statement-breakpoint
+ALTER TABLE "profiles" ADD COLUMN "interests" text;--> statement-breakpoint
+ALTER TABLE "profiles" ADD COLUMN "hooks" text;--> statement-breakpoint
+ALTER TABLE "profiles" ADD COLUMN "city" text;--> statement-breakpoint
+ALTER TABLE "profiles" ADD COLUMN "languages" text;--> statement-breakpoint
+ALTER TABLE "profiles" ADD COLUMN "meeting_format" text;
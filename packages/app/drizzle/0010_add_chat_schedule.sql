@@ -0,0 +1,2 @@
+ALTER TABLE "chats" ADD COLUMN "poll_day" text DEFAULT 'Fri' NOT NULL;--> statement-breakpoint
+ALTER TABLE "chats" ADD COLUMN "summary_day" text DEFAULT 'Mon' NOT NULL;
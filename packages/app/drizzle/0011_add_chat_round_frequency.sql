@@ -0,0 +1 @@
+ALTER TABLE "chats" ADD COLUMN "round_frequency" text DEFAULT 'weekly' NOT NULL;
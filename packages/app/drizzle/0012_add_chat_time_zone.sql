@@ -0,0 +1 @@
+ALTER TABLE "chats" ADD COLUMN "time_zone" text;
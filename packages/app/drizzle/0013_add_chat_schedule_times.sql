@@ -0,0 +1,2 @@
+ALTER TABLE "chats" ADD COLUMN "poll_time" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "chats" ADD COLUMN "summary_time" integer DEFAULT 0 NOT NULL;
@@ -0,0 +1,6 @@
+CREATE TABLE "events" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"recorded_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"kind" text NOT NULL,
+	"payload" jsonb NOT NULL
+);
@@ -0,0 +1,22 @@
+CREATE TABLE "rounds" (
+	"chat_id" text NOT NULL,
+	"round_index" integer NOT NULL,
+	"summary_date" text NOT NULL,
+	CONSTRAINT "rounds_chat_id_round_index_pk" PRIMARY KEY("chat_id","round_index")
+);
+--> statement-breakpoint
+CREATE TABLE "round_members" (
+	"chat_id" text NOT NULL,
+	"round_index" integer NOT NULL,
+	"user_id" bigint NOT NULL,
+	"position" integer NOT NULL,
+	"group_index" integer,
+	"role" text NOT NULL,
+	"first_name" text NOT NULL,
+	"last_name" text,
+	"username" text,
+	CONSTRAINT "round_members_chat_id_round_index_user_id_pk" PRIMARY KEY("chat_id","round_index","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "rounds" ADD CONSTRAINT "rounds_chat_id_chats_chat_id_fk" FOREIGN KEY ("chat_id") REFERENCES "public"."chats"("chat_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "round_members" ADD CONSTRAINT "round_members_chat_id_round_index_rounds_chat_id_round_index_fk" FOREIGN KEY ("chat_id","round_index") REFERENCES "public"."rounds"("chat_id","round_index") ON DELETE no action ON UPDATE no action;
@@ -0,0 +1,12 @@
+ALTER TABLE "rounds" ADD COLUMN "feedback_requested" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+CREATE TABLE "round_feedback" (
+	"chat_id" text NOT NULL,
+	"round_index" integer NOT NULL,
+	"user_id" bigint NOT NULL,
+	"met" boolean NOT NULL,
+	"rating" text,
+	"comment" text,
+	CONSTRAINT "round_feedback_chat_id_round_index_user_id_pk" PRIMARY KEY("chat_id","round_index","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "round_feedback" ADD CONSTRAINT "round_feedback_chat_id_round_index_user_id_round_members_chat_id_round_index_user_id_fk" FOREIGN KEY ("chat_id","round_index","user_id") REFERENCES "public"."round_members"("chat_id","round_index","user_id") ON DELETE no action ON UPDATE no action;
@@ -0,0 +1,3 @@
+ALTER TABLE "chats" ADD COLUMN "reminder_day" text;--> statement-breakpoint
+ALTER TABLE "rounds" ADD COLUMN "reminder_sent" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "round_members" ADD COLUMN "arranged" boolean DEFAULT false NOT NULL;
@@ -0,0 +1,5 @@
+ALTER TABLE "chats" ADD COLUMN "language" text;--> statement-breakpoint
+CREATE TABLE "user_languages" (
+	"user_id" bigint PRIMARY KEY NOT NULL,
+	"language" text NOT NULL
+);
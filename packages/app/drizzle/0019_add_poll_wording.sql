@@ -0,0 +1,4 @@
+ALTER TABLE "chats" ADD COLUMN "poll_question" text;--> statement-breakpoint
+ALTER TABLE "chats" ADD COLUMN "poll_options" text;--> statement-breakpoint
+ALTER TABLE "chats" ADD COLUMN "poll_join_option" integer;--> statement-breakpoint
+ALTER TABLE "polls" ADD COLUMN "join_option" integer DEFAULT 0 NOT NULL;
@@ -0,0 +1,3 @@
+ALTER TABLE "polls" ADD COLUMN "meeting_formats" text DEFAULT 'any' NOT NULL;--> statement-breakpoint
+ALTER TABLE "participants" ADD COLUMN "meeting_format" text;--> statement-breakpoint
+ALTER TABLE "round_members" ADD COLUMN "meeting_format" text;
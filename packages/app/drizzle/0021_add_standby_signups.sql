@@ -0,0 +1,2 @@
+ALTER TABLE "polls" ADD COLUMN "standby_option" integer;--> statement-breakpoint
+ALTER TABLE "participants" ADD COLUMN "standby" boolean DEFAULT false NOT NULL;
@@ -0,0 +1,12 @@
+ALTER TABLE "chats" ADD COLUMN "mode" text DEFAULT 'poll' NOT NULL;--> statement-breakpoint
+CREATE TABLE "subscriptions" (
+	"chat_id" text NOT NULL,
+	"user_id" bigint NOT NULL,
+	"first_name" text NOT NULL,
+	"last_name" text,
+	"username" text,
+	"skipped_dates" text DEFAULT '' NOT NULL,
+	CONSTRAINT "subscriptions_chat_id_user_id_pk" PRIMARY KEY("chat_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "subscriptions" ADD CONSTRAINT "subscriptions_chat_id_chats_chat_id_fk" FOREIGN KEY ("chat_id") REFERENCES "public"."chats"("chat_id") ON DELETE no action ON UPDATE no action;
@@ -1,32 +1,47 @@
 import { Effect, Match, pipe } from "effect"
 
-import { ChatId, type LocalDateString, type MessageId } from "../core/brand.js"
-import type { BotState, ChatState } from "../core/domain.js"
+import { ChatId, type LocalDateString, type MessageId, type RngSeed, type UserId } from "../core/brand.js"
+import type {
+  BotState,
+  ChatState,
+  Language,
+  RoundRecord,
+  RoundTarget,
+  UserLanguages,
+  UserProfiles
+} from "../core/domain.js"
+import { groupLanguage, privateLanguage } from "../core/language.js"
+import { formatTelegramMessageLink } from "../core/links.js"
+import { agreedMeetingFormat } from "../core/meeting-format.js"
 import {
   assignOrganizers,
   assignSoloParticipants,
-  pairParticipants,
-  type PairingAssignment
+  type PairingAssignment,
+  pairingOptionsForChat
 } from "../core/pairing.js"
-import { listParticipants } from "../core/participants.js"
+import { chatPollFormats, chatPollStandbyOption, chatPollWording } from "../core/poll-wording.js"
+import { encodeRematchAction } from "../core/rematch.js"
+import { buildRoundRecord } from "../core/rounds.js"
+import { pairWithStandby, splitStandby, type StandbyPairing } from "../core/standby.js"
 import { applySummary, finishPoll, startPoll } from "../core/state.js"
+import { roundParticipants } from "../core/subscriptions.js"
 import {
-  formatDirectPairingMessage,
-  formatPollClosedNoResults,
-  formatPollQuestion,
-  formatSummary,
   logDirectMessageFailed,
   logPollAlreadyClosed,
   logPollCreated,
   logPollPinFailed,
-  logSummaryPinFailed,
   logSummaryPairsSent,
-  pollOptions,
+  logSummaryPinFailed
+} from "../core/text-log.js"
+import { rematchButtonLabel } from "../core/text-rematch.js"
+import {
+  formatDirectPairingMessage,
+  formatPollClosedNoResults,
+  formatSummary,
   stopPollClosedMessageFragments
 } from "../core/text.js"
-import { formatTelegramMessageLink } from "../core/links.js"
 import type { StateStoreError, StateStoreShape } from "../shell/state-store.js"
-import type { TelegramError, TelegramServiceShape } from "../shell/telegram.js"
+import type { InlineKeyboard, TelegramError, TelegramServiceShape } from "../shell/telegram.js"
 
 type CreatePollContext = {
   readonly state: BotState
@@ -99,15 +114,9 @@ const buildStopPollEffect = (
 
 const buildSummaryState = (
   context: SummarizeContext,
-  pairing: ReturnType<typeof pairParticipants>
-): BotState =>
-  applySummary(
-    context.state,
-    context.chatId,
-    pairing.pairs,
-    pairing.seed,
-    context.summaryDate
-  )
+  round: RoundRecord,
+  seed: RngSeed
+): BotState => applySummary(context.state, context.chatId, round, seed)
 
 const buildClosedState = (context: SummarizeContext): BotState => finishPoll(context.state, context.chatId)
 
@@ -119,7 +128,7 @@ const sendClosedNotice = (
   pipe(
     context.telegram.sendMessage(
       context.chatId,
-      formatPollClosedNoResults(),
+      formatPollClosedNoResults(groupLanguage(context.chat)),
       threadId ?? undefined
     ),
     Effect.flatMap(() => context.stateStore.set(closedState)),
@@ -130,14 +139,14 @@ const sendClosedNotice = (
 const buildSummaryMessage = (
   context: SummarizeContext,
   threadId: number | null | undefined,
-  pairing: ReturnType<typeof pairParticipants>,
+  pairing: StandbyPairing,
   assignments: ReadonlyArray<PairingAssignment>,
   nextState: BotState
 ): Effect.Effect<BotState, TelegramError | StateStoreError> =>
   pipe(
     context.telegram.sendMessage(
       context.chatId,
-      formatSummary(context.chat.title, pairing.pairs, pairing.leftovers),
+      formatSummary(groupLanguage(context.chat), context.chat.title, pairing.pairs, pairing.leftovers),
       threadId ?? undefined
     ),
     Effect.flatMap((messageId) =>
@@ -147,17 +156,21 @@ const buildSummaryMessage = (
           pinSummaryMessageBestEffort(context.telegram, context.chatId, messageId)
         ),
         Effect.zipRight(
-          sendDirectPairingMessages(
-            context.telegram,
-            assignments,
-            context.chat.title,
-            context.chat.inviteLink,
-            formatTelegramMessageLink(
+          sendDirectPairingMessages(assignments, {
+            telegram: context.telegram,
+            profiles: context.state.profiles,
+            userLanguages: context.state.userLanguages,
+            chatLanguage: context.chat.language,
+            chatTitle: context.chat.title,
+            chatInviteLink: context.chat.inviteLink,
+            round: { chatId: context.chatId, roundIndex: context.chat.rounds.length },
+            calledIn: pairing.calledIn?.id ?? null,
+            summaryLink: formatTelegramMessageLink(
               context.chatId,
               messageId,
               threadId ?? null
             )
-          )
+          })
         ),
         Effect.as(nextState)
       )
@@ -207,78 +220,105 @@ const pinSummaryMessageBestEffort = (
     Effect.catchAll(() => Effect.void)
   )
 
+export type DirectMessageContext = {
+  readonly telegram: TelegramServiceShape
+  readonly profiles: UserProfiles
+  readonly userLanguages: UserLanguages
+  readonly chatLanguage: Language | null
+  readonly chatTitle: string | null
+  readonly chatInviteLink: string | null
+  readonly round: RoundTarget
+  readonly summaryLink: string | null
+  // Standby member called in for this round, told why they got a partner.
+  readonly calledIn: UserId | null
+}
+
+const rematchKeyboard = (language: Language, round: RoundTarget): InlineKeyboard => ({
+  inline_keyboard: [[{ text: rematchButtonLabel(language), callback_data: encodeRematchAction(round) }]]
+})
+
 // CHANGE: send a direct pairing message to a participant
 // WHY: notify participants in private chat when a pair is formed
 // QUOTE(TZ): "если у бота есть чат с человеком"
-// REF: user-2026-01-20-direct-dm
+// REF: user-2026-01-20-direct-dm, user-020-rematch-cancelled, user-023-meeting-format-poll, user-024-standby-signups
 // SOURCE: n/a
 // FORMAT THEOREM: forall a: dm(a) -> sent(a) | logged(a)
 // PURITY: SHELL
 // EFFECT: Effect<void, never, never>
-// INVARIANT: a DM attempt is made exactly once per assignment
+// INVARIANT: a DM attempt is made exactly once per assignment; pair DMs carry the re-match button
 // COMPLEXITY: O(1)/O(1)
 const sendDirectMessageBestEffort = (
-  telegram: TelegramServiceShape,
   assignment: PairingAssignment,
-  chatTitle: string | null,
-  chatInviteLink: string | null,
-  summaryLink: string | null
+  context: DirectMessageContext
 ): Effect.Effect<void> => {
   const chatId = ChatId(`${assignment.participant.id}`)
+  const language = privateLanguage(context.userLanguages, assignment.participant.id, context.chatLanguage)
+  const text = formatDirectPairingMessage({
+    language,
+    recipientId: assignment.participant.id,
+    profiles: context.profiles,
+    counterparts: assignment.counterparts,
+    isOrganizer: assignment.isOrganizer,
+    chatTitle: context.chatTitle,
+    chatInviteLink: context.chatInviteLink,
+    summaryLink: context.summaryLink,
+    meetingFormat: agreedMeetingFormat([assignment.participant, ...assignment.counterparts]),
+    calledIn: assignment.participant.id === context.calledIn
+  })
+  // Only pairs fall apart when one member cancels; a triple still meets.
   return pipe(
-    telegram.sendMessage(
-      chatId,
-      formatDirectPairingMessage({
-        counterparts: assignment.counterparts,
-        isOrganizer: assignment.isOrganizer,
-        chatTitle,
-        chatInviteLink,
-        summaryLink
-      })
-    ),
+    assignment.counterparts.length === 1
+      ? context.telegram.sendMessageWithKeyboard(chatId, text, rematchKeyboard(language, context.round))
+      : context.telegram.sendMessage(chatId, text),
     Effect.tapError(() => Effect.logWarning(logDirectMessageFailed(chatId))),
     Effect.catchAll(() => Effect.void)
   )
 }
 
-const sendDirectPairingMessages = (
-  telegram: TelegramServiceShape,
+// CHANGE: send the pairing DM to every assignment of a round
+// WHY: summaries and re-matches introduce partners with the same message
+// QUOTE(TZ): "We want a \"my partner cancelled\" button in the pairing DM."
+// REF: user-2026-01-20-direct-dm, user-020-rematch-cancelled
+// SOURCE: n/a
+// FORMAT THEOREM: forall as: |attempts| = |as|
+// PURITY: SHELL
+// EFFECT: Effect<void, never, never>
+// INVARIANT: a failed DM never stops the others
+// COMPLEXITY: O(n)/O(1)
+export const sendDirectPairingMessages = (
   assignments: ReadonlyArray<PairingAssignment>,
-  chatTitle: string | null,
-  chatInviteLink: string | null,
-  summaryLink: string | null
+  context: DirectMessageContext
 ): Effect.Effect<void> =>
-  Effect.forEach(assignments, (assignment) =>
-    sendDirectMessageBestEffort(telegram, assignment, chatTitle, chatInviteLink, summaryLink), { discard: true }
-  )
+  Effect.forEach(assignments, (assignment) => sendDirectMessageBestEffort(assignment, context), { discard: true })
 
 // CHANGE: send a poll and persist state for a chat
 // WHY: reuse identical polling logic for schedule and manual commands
 // QUOTE(TZ): "Сделать моментальный опросник"
-// REF: user-2026-01-09-commands
+// REF: user-2026-01-09-commands, user-022-custom-poll-wording, user-023-meeting-format-poll, user-024-standby-signups
 // SOURCE: n/a
 // FORMAT THEOREM: forall s: createPoll(s) -> poll exists in state
 // PURITY: SHELL
 // EFFECT: Effect<BotState, TelegramError | StateStoreError, never>
-// INVARIANT: poll participants are cleared on creation
+// INVARIANT: poll participants are cleared on creation; the poll keeps the join, format and standby options of its wording
 // COMPLEXITY: O(1)/O(1)
 export const createPoll = (
   context: CreatePollContext
-): Effect.Effect<BotState, TelegramError | StateStoreError> =>
-  pipe(
-    context.telegram.sendPoll(
-      context.chatId,
-      formatPollQuestion(),
-      pollOptions,
-      context.chat.threadId ?? undefined
-    ),
+): Effect.Effect<BotState, TelegramError | StateStoreError> => {
+  const wording = chatPollWording(context.chat)
+  const formats = chatPollFormats(context.chat)
+  const standbyOption = chatPollStandbyOption(context.chat)
+  return pipe(
+    context.telegram.sendPoll(context.chatId, wording.question, wording.options, context.chat.threadId ?? undefined),
     Effect.flatMap((result) => {
       const nextState = startPoll(context.state, context.chatId, {
         pollId: result.pollId,
         messageId: result.messageId,
         chatId: context.chatId,
         summaryDate: context.summaryDate,
-        threadId: context.chat.threadId
+        threadId: context.chat.threadId,
+        joinOption: wording.joinOption,
+        formats,
+        standbyOption
       })
       return pipe(
         context.stateStore.set(nextState),
@@ -290,25 +330,29 @@ export const createPoll = (
     }),
     Effect.tap(() => Effect.logInfo(logPollCreated(context.chatId, context.summaryDate)))
   )
+}
 
 // CHANGE: send the pairing summary and persist updated history
 // WHY: reuse identical summary logic for schedule and manual commands
 // QUOTE(TZ): "Подвести итоги опросника"
-// REF: user-2026-01-09-commands
+// REF: user-2026-01-09-commands, user-015-round-archive, user-024-standby-signups, user-025-subscription-mode
 // SOURCE: n/a
 // FORMAT THEOREM: forall s: summarize(s) -> poll_cleared(s)
 // PURITY: SHELL
 // EFFECT: Effect<BotState, TelegramError | StateStoreError, never>
-// INVARIANT: history is updated only when summary is sent
+// INVARIANT: history and the round archive are updated only when summary is sent; standby members who are not
+// called in stay out of the summary; subscription chats pair their roster minus members skipping the date
 // COMPLEXITY: O(n)/O(n)
 export const summarize = (
   context: SummarizeContext
 ): Effect.Effect<BotState, TelegramError | StateStoreError> => {
-  const participants = listParticipants(context.chat.participants)
-  const pairing = pairParticipants(
-    participants,
+  const { confirmed, standby } = splitStandby(roundParticipants(context.chat, context.summaryDate))
+  const pairing = pairWithStandby(
+    confirmed,
+    standby,
     context.chat.history,
-    context.chat.seed
+    context.chat.seed,
+    pairingOptionsForChat(context.chat, context.summaryDate)
   )
   const organizerAssignments = assignOrganizers(pairing.pairs, pairing.seed)
   const soloAssignments = assignSoloParticipants(pairing.leftovers)
@@ -316,13 +360,15 @@ export const summarize = (
     ...organizerAssignments.assignments,
     ...soloAssignments
   ]
-  const pairingWithOrganizerSeed = {
-    ...pairing,
-    seed: organizerAssignments.seed
-  }
+  const round = buildRoundRecord(
+    context.summaryDate,
+    pairing.pairs,
+    organizerAssignments.assignments,
+    pairing.leftovers
+  )
   const threadId = context.chat.poll?.threadId ?? context.chat.threadId
   const stopPollEffect = buildStopPollEffect(context)
-  const nextState = buildSummaryState(context, pairingWithOrganizerSeed)
+  const nextState = buildSummaryState(context, round, organizerAssignments.seed)
   const closedState = buildClosedState(context)
   const sendClosedMessage = sendClosedNotice(context, threadId, closedState)
   const sendSummaryMessage = buildSummaryMessage(
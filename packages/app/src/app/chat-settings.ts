@@ -0,0 +1,360 @@
+import { Effect, pipe } from "effect"
+
+import type { ChatId } from "../core/brand.js"
+import type { BotState, Language } from "../core/domain.js"
+import { groupLanguage, setChatLanguage } from "../core/language.js"
+import { chatPollWording, setPollWording } from "../core/poll-wording.js"
+import { setReminderDay } from "../core/reminders.js"
+import { parseRoundFrequency } from "../core/schedule.js"
+import {
+  setAllowTriples,
+  setChatTimeZone,
+  setHistoryHalfLife,
+  setRoundFrequency,
+  setScheduleTimes,
+  setWeeklySchedule
+} from "../core/state.js"
+import { parseChatMode, setChatMode } from "../core/subscriptions.js"
+import {
+  commandArgument,
+  commandArguments,
+  parseHalfLifeArgument,
+  parseLanguageArgument,
+  parsePollWordingArgument,
+  parseReminderDayArgument,
+  parseScheduleArgument,
+  parseScheduleTimesArgument,
+  parseSwitchArgument
+} from "../core/telegram-commands.js"
+import {
+  replyChatLanguageSaved,
+  replyChatLanguageUsage,
+  replyDecaySaved,
+  replyDecayUsage,
+  replyFrequencySaved,
+  replyFrequencyUsage,
+  replyPollWordingSaved,
+  replyPollWordingUsage,
+  replyReminderSaved,
+  replyReminderUsage,
+  replyScheduleSaved,
+  replyScheduleTimesSaved,
+  replyScheduleTimesUsage,
+  replyScheduleUsage,
+  replyTimeZoneSaved,
+  replyTimeZoneUsage,
+  replyTriplesSaved,
+  replyTriplesUsage
+} from "../core/text-settings.js"
+import { replyModeSaved, replyModeUsage } from "../core/text-subscriptions.js"
+import type { StateStoreError, StateStoreShape } from "../shell/state-store.js"
+import type { TelegramError, TelegramServiceShape } from "../shell/telegram.js"
+import { resolveTimeZone } from "../shell/time.js"
+
+export type ChatSettingContext = {
+  readonly state: BotState
+  readonly chatId: ChatId
+  readonly chat: BotState["chats"][string]
+  readonly commandText: string
+  readonly telegram: TelegramServiceShape
+  readonly stateStore: StateStoreShape
+  readonly replyThreadId?: number | undefined
+}
+
+type ChatSetting<A> = {
+  readonly argument?: (commandText: string) => string | null
+  readonly parse: (arg: string | null) => A | null
+  readonly apply: (state: BotState, chatId: ChatId, value: A) => BotState
+  readonly saved: (language: Language, value: A) => string
+  readonly usage: (language: Language) => string
+}
+
+const replyToChat = (
+  context: ChatSettingContext,
+  text: string
+): Effect.Effect<void, TelegramError> =>
+  pipe(
+    context.telegram.sendMessage(
+      context.chatId,
+      text,
+      context.replyThreadId ?? context.chat.threadId ?? undefined
+    ),
+    Effect.asVoid
+  )
+
+// CHANGE: apply a parsed chat setting and confirm it in the chat
+// WHY: share the parse → persist → reply flow across admin setting commands
+// QUOTE(TZ): "We want an opt-in per-chat mode"
+// REF: user-001-triple-pairing
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: parse(arg(c)) = null -> state' = state
+// PURITY: SHELL
+// EFFECT: Effect<BotState, TelegramError | StateStoreError, never>
+// INVARIANT: invalid arguments reply with usage and do not mutate state
+// COMPLEXITY: O(1)/O(1)
+export const applyChatSetting = <A>(
+  context: ChatSettingContext,
+  setting: ChatSetting<A>
+): Effect.Effect<BotState, TelegramError | StateStoreError> => {
+  const value = setting.parse((setting.argument ?? commandArgument)(context.commandText))
+  if (value === null) {
+    return pipe(replyToChat(context, setting.usage(groupLanguage(context.chat))), Effect.as(context.state))
+  }
+  const nextState = setting.apply(context.state, context.chatId, value)
+  // The confirmation already follows the new setting, so /language answers in the language it just picked.
+  const language = groupLanguage(nextState.chats[context.chatId])
+  return pipe(
+    context.stateStore.set(nextState),
+    Effect.zipRight(replyToChat(context, setting.saved(language, value))),
+    Effect.as(nextState)
+  )
+}
+
+// CHANGE: toggle triple pairings from a chat command
+// WHY: let admins opt in so the odd participant joins a group of three
+// QUOTE(TZ): "We want an opt-in per-chat mode where an odd participant is folded into the group"
+// REF: user-001-triple-pairing
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: /triples on -> allowTriples = true
+// PURITY: SHELL
+// EFFECT: Effect<BotState, TelegramError | StateStoreError, never>
+// INVARIANT: usage reply shows the current mode
+// COMPLEXITY: O(1)/O(1)
+export const handleSetTriples = (
+  context: ChatSettingContext
+): Effect.Effect<BotState, TelegramError | StateStoreError> =>
+  applyChatSetting(context, {
+    parse: parseSwitchArgument,
+    apply: setAllowTriples,
+    saved: replyTriplesSaved,
+    usage: (language) => replyTriplesUsage(language, context.chat.allowTriples)
+  })
+
+// CHANGE: configure the pair history decay from a chat command
+// WHY: let admins decide how fast old meetings stop counting as repeats
+// QUOTE(TZ): "a configurable decay so recent repeats are penalized more than old ones"
+// REF: user-003-recency-history
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: /decay off -> historyHalfLifeWeeks = null
+// PURITY: SHELL
+// EFFECT: Effect<BotState, TelegramError | StateStoreError, never>
+// INVARIANT: usage reply shows the current half-life
+// COMPLEXITY: O(1)/O(1)
+export const handleSetDecay = (
+  context: ChatSettingContext
+): Effect.Effect<BotState, TelegramError | StateStoreError> =>
+  applyChatSetting(context, {
+    parse: parseHalfLifeArgument,
+    apply: (state, chatId, value) => setHistoryHalfLife(state, chatId, value.halfLifeWeeks),
+    saved: (language, value) => replyDecaySaved(language, value.halfLifeWeeks),
+    usage: (language) => replyDecayUsage(language, context.chat.historyHalfLifeWeeks)
+  })
+
+// CHANGE: configure the weekly poll and summary days from a chat command
+// WHY: chats want cadences other than Friday polls and Monday summaries
+// QUOTE(TZ): "It should be set by a new admin command"
+// REF: user-007-weekly-schedule
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: /schedule wed thu -> schedule = { pollDay: Wed, summaryDay: Thu }
+// PURITY: SHELL
+// EFFECT: Effect<BotState, TelegramError | StateStoreError, never>
+// INVARIANT: usage reply shows the current schedule
+// COMPLEXITY: O(1)/O(1)
+export const handleSetSchedule = (
+  context: ChatSettingContext
+): Effect.Effect<BotState, TelegramError | StateStoreError> =>
+  applyChatSetting(context, {
+    argument: commandArguments,
+    parse: parseScheduleArgument,
+    apply: setWeeklySchedule,
+    saved: replyScheduleSaved,
+    usage: (language) => replyScheduleUsage(language, context.chat.schedule)
+  })
+
+// CHANGE: configure how often the chat runs a round from a chat command
+// WHY: some communities want a round every two weeks or once a month
+// QUOTE(TZ): "We want a round-frequency setting per chat"
+// REF: user-008-round-frequency
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: /frequency biweekly -> roundFrequency = biweekly
+// PURITY: SHELL
+// EFFECT: Effect<BotState, TelegramError | StateStoreError, never>
+// INVARIANT: usage reply shows the current frequency
+// COMPLEXITY: O(1)/O(1)
+export const handleSetFrequency = (
+  context: ChatSettingContext
+): Effect.Effect<BotState, TelegramError | StateStoreError> =>
+  applyChatSetting(context, {
+    parse: (arg) => parseRoundFrequency(arg?.toLowerCase() ?? null),
+    apply: setRoundFrequency,
+    saved: replyFrequencySaved,
+    usage: (language) => replyFrequencyUsage(language, context.chat.roundFrequency)
+  })
+
+// CHANGE: configure the poll and summary times from a chat command
+// WHY: polls and summaries should not fire right after midnight
+// QUOTE(TZ): "We want a configurable local time per chat for poll creation and for the summary."
+// REF: user-010-time-of-day
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: /time 10:00 18:00 -> scheduleTimes = { pollTime: 600, summaryTime: 1080 }
+// PURITY: SHELL
+// EFFECT: Effect<BotState, TelegramError | StateStoreError, never>
+// INVARIANT: usage reply shows the current times
+// COMPLEXITY: O(1)/O(1)
+export const handleSetScheduleTimes = (
+  context: ChatSettingContext
+): Effect.Effect<BotState, TelegramError | StateStoreError> =>
+  applyChatSetting(context, {
+    argument: commandArguments,
+    parse: parseScheduleTimesArgument,
+    apply: setScheduleTimes,
+    saved: replyScheduleTimesSaved,
+    usage: (language) => replyScheduleTimesUsage(language, context.chat.scheduleTimes)
+  })
+
+type TimeZoneArgument = {
+  readonly timeZone: string | null
+}
+
+const parseTimeZoneArgument = (value: string | null): TimeZoneArgument | null => {
+  if (value === null) {
+    return null
+  }
+  if (value.toLowerCase() === "default") {
+    return { timeZone: null }
+  }
+  const timeZone = resolveTimeZone(value)
+  return timeZone === null ? null : { timeZone }
+}
+
+// CHANGE: configure the time zone of the chat from a chat command
+// WHY: poll and summary days should follow the local calendar of the community
+// QUOTE(TZ): "each `ChatState` to carry its own IANA time zone, set via an admin command and validated with `shell/time.ts`"
+// REF: user-009-chat-time-zones
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: /timezone default -> timeZone = null
+// PURITY: SHELL
+// EFFECT: Effect<BotState, TelegramError | StateStoreError, never>
+// INVARIANT: unknown zone names reply with usage and keep the current zone
+// COMPLEXITY: O(1)/O(1)
+export const handleSetTimeZone = (
+  context: ChatSettingContext
+): Effect.Effect<BotState, TelegramError | StateStoreError> =>
+  applyChatSetting(context, {
+    parse: parseTimeZoneArgument,
+    apply: (state, chatId, value) => setChatTimeZone(state, chatId, value.timeZone),
+    saved: (language, value) => replyTimeZoneSaved(language, value.timeZone),
+    usage: (language) => replyTimeZoneUsage(language, context.chat.timeZone)
+  })
+
+// CHANGE: configure the organizer reminder day from a chat command
+// WHY: communities meet at different paces, so the reminder day is up to the admins
+// QUOTE(TZ): "We want a configurable reminder a few days later, for example on Wednesday."
+// REF: user-019-organizer-reminders
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: /reminder off -> reminderDay = null
+// PURITY: SHELL
+// EFFECT: Effect<BotState, TelegramError | StateStoreError, never>
+// INVARIANT: usage reply shows the current reminder day
+// COMPLEXITY: O(1)/O(1)
+export const handleSetReminder = (
+  context: ChatSettingContext
+): Effect.Effect<BotState, TelegramError | StateStoreError> =>
+  applyChatSetting(context, {
+    parse: parseReminderDayArgument,
+    apply: (state, chatId, value) => setReminderDay(state, chatId, value.reminderDay),
+    saved: (language, value) => replyReminderSaved(language, value.reminderDay),
+    usage: (language) => replyReminderUsage(language, context.chat.reminderDay)
+  })
+
+// CHANGE: configure the language of the chat from a chat command
+// WHY: polls, summaries and replies should speak the language of the community
+// QUOTE(TZ): "a per-chat language setting"
+// REF: user-021-localization
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: /language ru -> language = ru
+// PURITY: SHELL
+// EFFECT: Effect<BotState, TelegramError | StateStoreError, never>
+// INVARIANT: usage reply shows the current language
+// COMPLEXITY: O(1)/O(1)
+export const handleSetLanguage = (
+  context: ChatSettingContext
+): Effect.Effect<BotState, TelegramError | StateStoreError> =>
+  applyChatSetting(context, {
+    parse: parseLanguageArgument,
+    apply: (state, chatId, value) => setChatLanguage(state, chatId, value.language),
+    saved: (language, value) => replyChatLanguageSaved(language, value.language),
+    usage: (language) => replyChatLanguageUsage(language, context.chat.language)
+  })
+
+// CHANGE: configure the poll question and options from a chat command
+// WHY: communities want their own wording and decide which answer signs members up
+// QUOTE(TZ): "We want admins to set the question and option labels per chat."
+// REF: user-022-custom-poll-wording
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: /pollwording default -> pollWording = null
+// PURITY: SHELL
+// EFFECT: Effect<BotState, TelegramError | StateStoreError, never>
+// INVARIANT: usage reply shows the current wording; a running poll keeps its join option
+// COMPLEXITY: O(n)/O(n)
+export const handleSetPollWording = (
+  context: ChatSettingContext
+): Effect.Effect<BotState, TelegramError | StateStoreError> =>
+  applyChatSetting(context, {
+    argument: commandArguments,
+    parse: parsePollWordingArgument,
+    apply: (state, chatId, value) => setPollWording(state, chatId, value.pollWording),
+    saved: (language, value) => replyPollWordingSaved(language, value.pollWording),
+    usage: (language) => replyPollWordingUsage(language, chatPollWording(context.chat))
+  })
+
+// CHANGE: switch the chat between weekly polls and a subscription roster from a chat command
+// WHY: many members vote "Yes" every single week
+// QUOTE(TZ): "We want an alternative chat mode where users subscribe once and stay in the pool"
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: /mode subscription -> mode = subscription
+// PURITY: SHELL
+// EFFECT: Effect<BotState, TelegramError | StateStoreError, never>
+// INVARIANT: usage reply shows the current mode
+// COMPLEXITY: O(1)/O(1)
+export const handleSetMode = (
+  context: ChatSettingContext
+): Effect.Effect<BotState, TelegramError | StateStoreError> =>
+  applyChatSetting(context, {
+    parse: (arg) => parseChatMode(arg?.toLowerCase() ?? null),
+    apply: setChatMode,
+    saved: replyModeSaved,
+    usage: (language) => replyModeUsage(language, context.chat.mode)
+  })
+
+export type ChatSettingCommand =
+  | "/triples"
+  | "/decay"
+  | "/schedule"
+  | "/frequency"
+  | "/time"
+  | "/timezone"
+  | "/reminder"
+  | "/language"
+  | "/pollwording"
+  | "/mode"
+
+type ChatSettingHandler = (context: ChatSettingContext) => Effect.Effect<BotState, TelegramError | StateStoreError>
+
+// Admin commands that only parse, store and confirm one chat setting.
+export const chatSettingHandlers: Readonly<Record<ChatSettingCommand, ChatSettingHandler>> = {
+  "/triples": handleSetTriples,
+  "/decay": handleSetDecay,
+  "/schedule": handleSetSchedule,
+  "/frequency": handleSetFrequency,
+  "/time": handleSetScheduleTimes,
+  "/timezone": handleSetTimeZone,
+  "/reminder": handleSetReminder,
+  "/language": handleSetLanguage,
+  "/pollwording": handleSetPollWording,
+  "/mode": handleSetMode
+}
+
+export const isChatSettingCommand = (command: string): command is ChatSettingCommand =>
+  Object.hasOwn(chatSettingHandlers, command)
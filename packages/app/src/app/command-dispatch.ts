@@ -1,9 +1,21 @@
 import { Effect, Match, pipe } from "effect"
 
 import type { ChatId } from "../core/brand.js"
-import type { BotState } from "../core/domain.js"
-import type { formatLocalDate, nextPollWindow, summaryDateForPoll } from "../core/schedule.js"
+import type { BotState, Participant, Weekday } from "../core/domain.js"
+import { groupLanguage } from "../core/language.js"
+import {
+  formatLocalDate,
+  type LocalDateParts,
+  nextPollWindow,
+  type PollWindow,
+  summaryDateForPoll,
+  type ZonedTime
+} from "../core/schedule.js"
 import { ensureChat, setThreadId } from "../core/state.js"
+import { computeChatStats } from "../core/stats.js"
+import { replyExclusionsCount } from "../core/text-settings.js"
+import { formatChatStats } from "../core/text-stats.js"
+import { replyPollsOff } from "../core/text-subscriptions.js"
 import {
   replyNextPollWindow,
   replyPollAlreadyActive,
@@ -14,27 +26,41 @@ import {
 } from "../core/text.js"
 import type { StateStoreError, StateStoreShape } from "../shell/state-store.js"
 import type { TelegramError, TelegramServiceShape } from "../shell/telegram.js"
+import { getChatZonedDate, type TimeError } from "../shell/time.js"
 import { createPoll, summarize } from "./actions.js"
+import {
+  type ChatSettingCommand,
+  type ChatSettingContext,
+  chatSettingHandlers,
+  isChatSettingCommand
+} from "./chat-settings.js"
 import type { Command, CommandEnvelope } from "./command-utils.js"
 import { handleSetLink } from "./set-link.js"
+import { handleSubscriptionCommand } from "./subscriptions.js"
 
 export type DispatchContext = {
-  readonly pollSummaryDate: ReturnType<typeof summaryDateForPoll>
-  readonly today: ReturnType<typeof formatLocalDate>
-  readonly pollWindow: ReturnType<typeof nextPollWindow>
+  readonly now: Date
+  readonly defaultTimeZone: string
   readonly telegram: TelegramServiceShape
   readonly stateStore: StateStoreShape
 }
 
 type DispatchContextWithChat = DispatchContext & {
+  readonly todayParts: LocalDateParts
+  readonly weekday: Weekday
+  readonly zoned: ZonedTime
+  readonly today: ReturnType<typeof formatLocalDate>
   readonly state: BotState
   readonly chatId: ChatId
   readonly chat: BotState["chats"][string]
+  readonly actor: Participant
   readonly messageThreadId?: number | undefined
   readonly commandText: string
 }
 
-type ChatCommand = Exclude<Command, "/leaderboard">
+type ChatCommand = Exclude<Command, "/leaderboard" | "/history">
+
+type OtherChatCommand = Exclude<ChatCommand, ChatSettingCommand>
 
 const setTopic = (
   state: BotState,
@@ -44,9 +70,10 @@ const setTopic = (
   stateStore: StateStoreShape
 ): Effect.Effect<BotState, TelegramError | StateStoreError> => {
   const nextState = setThreadId(state, chatId, threadId)
+  const language = groupLanguage(nextState.chats[chatId])
   const reply = threadId === null
-    ? replySetTopicMain()
-    : replySetTopicThread()
+    ? replySetTopicMain(language)
+    : replySetTopicThread(language)
   return pipe(
     stateStore.set(nextState),
     Effect.zipRight(telegram.sendMessage(chatId, reply, threadId ?? undefined)),
@@ -85,17 +112,18 @@ type PollContext = Parameters<typeof createPoll>[0]
 
 const handlePoll = (
   context: PollContext
-): Effect.Effect<BotState, TelegramError | StateStoreError> =>
-  context.chat.poll
-    ? pipe(
-      context.telegram.sendMessage(
-        context.chatId,
-        replyPollAlreadyActive(),
-        context.chat.threadId ?? undefined
-      ),
-      Effect.as(context.state)
-    )
-    : createPoll(context)
+): Effect.Effect<BotState, TelegramError | StateStoreError> => {
+  if (context.chat.mode === "poll" && !context.chat.poll) {
+    return createPoll(context)
+  }
+  // Subscription chats never poll; poll chats run one poll at a time.
+  const language = groupLanguage(context.chat)
+  const refusal = context.chat.mode === "subscription" ? replyPollsOff(language) : replyPollAlreadyActive(language)
+  return pipe(
+    context.telegram.sendMessage(context.chatId, refusal, context.chat.threadId ?? undefined),
+    Effect.as(context.state)
+  )
+}
 
 type SummaryContext = Parameters<typeof summarize>[0]
 
@@ -107,7 +135,7 @@ type NextPollContext = {
   readonly state: BotState
   readonly chatId: ChatId
   readonly chat: BotState["chats"][string]
-  readonly pollWindow: ReturnType<typeof nextPollWindow>
+  readonly pollWindow: PollWindow
   readonly telegram: TelegramServiceShape
   readonly replyThreadId?: number | undefined
 }
@@ -116,24 +144,20 @@ const handleNextPoll = (
   context: NextPollContext
 ): Effect.Effect<BotState, TelegramError> => {
   const poll = context.chat.poll
+  const language = groupLanguage(context.chat)
   let text = ""
-  if (poll) {
-    text = replyPollAlreadyActiveWithDate(poll.summaryDate)
+  if (context.chat.mode === "subscription") {
+    text = replyPollsOff(language)
+  } else if (poll) {
+    text = replyPollAlreadyActiveWithDate(language, poll.summaryDate)
   } else if (context.pollWindow.isOpen) {
-    text = replyPollWindowOpen()
+    text = replyPollWindowOpen(language)
   } else {
-    text = replyNextPollWindow(
-      context.pollWindow.daysUntilStart,
-      context.pollWindow.startDate
-    )
+    text = replyNextPollWindow(language, context.pollWindow.daysUntilStart, context.pollWindow.startDate)
   }
 
   return pipe(
-    context.telegram.sendMessage(
-      context.chatId,
-      text,
-      context.replyThreadId ?? context.chat.threadId ?? undefined
-    ),
+    context.telegram.sendMessage(context.chatId, text, context.replyThreadId ?? context.chat.threadId ?? undefined),
     Effect.as(context.state)
   )
 }
@@ -156,7 +180,7 @@ const handlePollCommand = (
     state: context.state,
     chatId: context.chatId,
     chat: context.chat,
-    summaryDate: context.pollSummaryDate,
+    summaryDate: summaryDateForPoll(context.todayParts, context.weekday, context.chat.schedule),
     telegram: context.telegram,
     stateStore: context.stateStore
   })
@@ -180,7 +204,7 @@ const handleNextPollCommand = (
     state: context.state,
     chatId: context.chatId,
     chat: context.chat,
-    pollWindow: context.pollWindow,
+    pollWindow: nextPollWindow(context.chat, context.zoned),
     telegram: context.telegram,
     replyThreadId: context.messageThreadId
   })
@@ -198,8 +222,62 @@ const handleSetLinkCommand = (
     replyThreadId: context.messageThreadId
   })
 
-const dispatchCommand = (
-  command: ChatCommand,
+// CHANGE: report how many exclusions are active in a chat
+// WHY: admins should know constraints exist without learning who set them
+// QUOTE(TZ): "admins can view the count of active exclusions"
+// REF: user-004-pair-exclusions
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: reply(c) mentions |exclusions(c)|
+// PURITY: SHELL
+// EFFECT: Effect<BotState, TelegramError, never>
+// INVARIANT: state is unchanged
+// COMPLEXITY: O(n)/O(1)
+const handleExclusionsCommand = (
+  context: DispatchContextWithChat
+): Effect.Effect<BotState, TelegramError> =>
+  pipe(
+    context.telegram.sendMessage(
+      context.chatId,
+      replyExclusionsCount(groupLanguage(context.chat), Object.keys(context.chat.exclusions).length),
+      context.messageThreadId ?? context.chat.threadId ?? undefined
+    ),
+    Effect.as(context.state)
+  )
+
+// CHANGE: report round and engagement statistics of a chat
+// WHY: admins want to see how the chat takes part without reading every summary
+// QUOTE(TZ): "Admins want a `/stats` command in the group."
+// REF: user-018-stats-command
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: reply(c) = formatChatStats(computeChatStats(c))
+// PURITY: SHELL
+// EFFECT: Effect<BotState, TelegramError, never>
+// INVARIANT: state is unchanged
+// COMPLEXITY: O(n)/O(n)
+const handleStatsCommand = (
+  context: DispatchContextWithChat
+): Effect.Effect<BotState, TelegramError> =>
+  pipe(
+    context.telegram.sendMessage(
+      context.chatId,
+      formatChatStats(groupLanguage(context.chat), computeChatStats(context.chat)),
+      context.messageThreadId ?? context.chat.threadId ?? undefined
+    ),
+    Effect.as(context.state)
+  )
+
+const toSettingContext = (context: DispatchContextWithChat): ChatSettingContext => ({
+  state: context.state,
+  chatId: context.chatId,
+  chat: context.chat,
+  commandText: context.commandText,
+  telegram: context.telegram,
+  stateStore: context.stateStore,
+  replyThreadId: context.messageThreadId
+})
+
+const dispatchOtherCommand = (
+  command: OtherChatCommand,
   context: DispatchContextWithChat
 ): Effect.Effect<BotState, TelegramError | StateStoreError> =>
   Match.value(command).pipe(
@@ -208,9 +286,20 @@ const dispatchCommand = (
     Match.when("/summary", () => handleSummaryCommand(context)),
     Match.when("/nextpoll", () => handleNextPollCommand(context)),
     Match.when("/setlink", () => handleSetLinkCommand(context)),
+    Match.when("/exclusions", () => handleExclusionsCommand(context)),
+    Match.when("/stats", () => handleStatsCommand(context)),
+    Match.whenOr("/subscribe", "/unsubscribe", "/skip", (command) => handleSubscriptionCommand(command, context)),
     Match.exhaustive
   )
 
+const dispatchCommand = (
+  command: ChatCommand,
+  context: DispatchContextWithChat
+): Effect.Effect<BotState, TelegramError | StateStoreError> =>
+  isChatSettingCommand(command)
+    ? chatSettingHandlers[command](toSettingContext(context))
+    : dispatchOtherCommand(command, context)
+
 type PreparedChatState = {
   readonly state: BotState
   readonly chat: BotState["chats"][string] | undefined
@@ -232,26 +321,41 @@ const prepareChatState = (
     }
   })
 
+// CHANGE: run an admin command against its chat in the chat time zone
+// WHY: "today" for /poll, /summary and /nextpoll depends on where the chat lives
+// QUOTE(TZ): "The scheduler should evaluate each chat's decision in its own zone."
+// REF: user-009-chat-time-zones
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: today(c) = localDate(now, zone(c) ?? default)
+// PURITY: SHELL
+// EFFECT: Effect<BotState, TelegramError | StateStoreError | TimeError, never>
+// INVARIANT: the chat exists in state before the command runs
+// COMPLEXITY: O(1)/O(1)
 export const dispatchChatCommand = (
   state: BotState,
   context: DispatchContext,
   envelope: CommandEnvelope,
   command: ChatCommand
-): Effect.Effect<BotState, TelegramError | StateStoreError> =>
+): Effect.Effect<BotState, TelegramError | StateStoreError | TimeError> =>
   Effect.gen(function*(_) {
     const prepared = yield* _(prepareChatState(state, envelope, context.stateStore))
     const chat = prepared.chat
     if (!chat) {
       return prepared.state
     }
+    const zoned = yield* _(getChatZonedDate(chat.timeZone, context.defaultTimeZone, context.now))
     return yield* _(
       dispatchCommand(command, {
         state: prepared.state,
         chatId: envelope.chatId,
         chat,
-        pollSummaryDate: context.pollSummaryDate,
-        today: context.today,
-        pollWindow: context.pollWindow,
+        actor: envelope.actor,
+        now: context.now,
+        defaultTimeZone: context.defaultTimeZone,
+        todayParts: zoned.parts,
+        weekday: zoned.weekday,
+        zoned,
+        today: formatLocalDate(zoned.parts),
         telegram: context.telegram,
         stateStore: context.stateStore,
         messageThreadId: envelope.messageThreadId,
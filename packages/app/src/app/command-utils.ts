@@ -1,13 +1,73 @@
 import { Effect, pipe } from "effect"
 
 import type { ChatId, UserId } from "../core/brand.js"
-import type { ChatType } from "../core/domain.js"
+import type { ChatType, Language, Participant } from "../core/domain.js"
 import { isGroupChat, normalizeCommand } from "../core/telegram-commands.js"
 import { replyAdminOnly } from "../core/text.js"
 import type { IncomingUpdate } from "../core/updates.js"
 import type { ChatMemberStatus, TelegramError, TelegramServiceShape } from "../shell/telegram.js"
 
-export type Command = "/settopic" | "/poll" | "/summary" | "/nextpoll" | "/leaderboard" | "/setlink"
+export type Command =
+  | "/settopic"
+  | "/poll"
+  | "/summary"
+  | "/nextpoll"
+  | "/leaderboard"
+  | "/setlink"
+  | "/triples"
+  | "/decay"
+  | "/schedule"
+  | "/frequency"
+  | "/time"
+  | "/timezone"
+  | "/reminder"
+  | "/language"
+  | "/pollwording"
+  | "/exclusions"
+  | "/stats"
+  | "/history"
+  | "/mode"
+  | "/subscribe"
+  | "/unsubscribe"
+  | "/skip"
+
+const commands: ReadonlyArray<Command> = [
+  "/settopic",
+  "/poll",
+  "/summary",
+  "/nextpoll",
+  "/leaderboard",
+  "/setlink",
+  "/triples",
+  "/decay",
+  "/schedule",
+  "/frequency",
+  "/time",
+  "/timezone",
+  "/reminder",
+  "/language",
+  "/pollwording",
+  "/exclusions",
+  "/stats",
+  "/history",
+  "/mode",
+  "/subscribe",
+  "/unsubscribe",
+  "/skip"
+]
+
+const commandSet: ReadonlySet<string> = new Set(commands)
+
+// Read-only commands: they skip the admin check in groups.
+const publicCommands: ReadonlySet<Command> = new Set(["/leaderboard", "/history"])
+
+// Commands members run about themselves in a group: they skip the admin check.
+const memberCommands: ReadonlySet<Command> = new Set(["/subscribe", "/unsubscribe", "/skip"])
+
+// Commands accepted in private chats, where they only concern the member who sent them.
+const privateCommands: ReadonlySet<Command> = new Set([...publicCommands, "/language"])
+
+const isCommand = (value: string): value is Command => commandSet.has(value)
 
 const normalizeUsername = (value: string): string => value.replace(/^@/, "").toLowerCase()
 
@@ -32,20 +92,13 @@ const parseCommand = (text: string, botUsername?: string): Command | null => {
   if (!matchesTarget(parsed.target, botUsername)) {
     return null
   }
-  const command = parsed.command
-  return command === "/settopic" ||
-      command === "/poll" ||
-      command === "/summary" ||
-      command === "/nextpoll" ||
-      command === "/leaderboard" ||
-      command === "/setlink"
-    ? command
-    : null
+  return isCommand(parsed.command) ? parsed.command : null
 }
 
 export type CommandEnvelope = {
   readonly chatId: ChatId
   readonly actorId: UserId
+  readonly actor: Participant
   readonly command: Command
   readonly chatType: ChatType
   readonly text: string
@@ -70,12 +123,13 @@ export const toCommandEnvelope = (
   if (!command) {
     return null
   }
-  if (!isGroupChat(message.chatType) && command !== "/leaderboard") {
+  if (isGroupChat(message.chatType) ? command === "/history" : !privateCommands.has(command)) {
     return null
   }
   return {
     chatId: message.chatId,
     actorId: actor.id,
+    actor,
     command,
     chatType: message.chatType,
     text: message.text,
@@ -91,6 +145,7 @@ const adminOnly = (
   telegram: TelegramServiceShape,
   chatId: ChatId,
   userId: UserId,
+  language: Language,
   threadId?: number
 ): Effect.Effect<boolean, TelegramError> =>
   pipe(
@@ -101,7 +156,7 @@ const adminOnly = (
         : pipe(
           telegram.sendMessage(
             chatId,
-            replyAdminOnly(),
+            replyAdminOnly(language),
             threadId
           ),
           Effect.as(false)
@@ -123,26 +178,25 @@ export const allowAdminOnly = (
   telegram: TelegramServiceShape,
   chatId: ChatId,
   userId: UserId,
+  language: Language,
   threadId?: number
-): Effect.Effect<boolean, TelegramError> => adminOnly(telegram, chatId, userId, threadId)
+): Effect.Effect<boolean, TelegramError> => adminOnly(telegram, chatId, userId, language, threadId)
 
 // CHANGE: allow leaderboard in all chats while keeping admin gating elsewhere
 // WHY: leaderboard is read-only and should be public
 // QUOTE(TZ): "Сделай  /leaderboard публичной"
-// REF: user-2026-01-18-leaderboard-public
+// REF: user-2026-01-18-leaderboard-public, user-025-subscription-mode
 // SOURCE: n/a
 // FORMAT THEOREM: forall c: allow(/leaderboard, c) = true
 // PURITY: SHELL
 // EFFECT: Effect<boolean, TelegramError, never>
-// INVARIANT: admin gating stays for non-leaderboard commands
+// INVARIANT: admin gating stays for group commands other than /leaderboard, /history and the member commands
 // COMPLEXITY: O(1)/O(1)
 export const allowCommand = (
   telegram: TelegramServiceShape,
-  chatId: ChatId,
-  userId: UserId,
-  command: Command,
-  threadId?: number
+  envelope: CommandEnvelope,
+  language: Language
 ): Effect.Effect<boolean, TelegramError> =>
-  command === "/leaderboard"
+  publicCommands.has(envelope.command) || memberCommands.has(envelope.command) || !isGroupChat(envelope.chatType)
     ? Effect.succeed(true)
-    : allowAdminOnly(telegram, chatId, userId, threadId)
+    : allowAdminOnly(telegram, envelope.chatId, envelope.actorId, language, envelope.replyThreadId)
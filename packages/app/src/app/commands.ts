@@ -1,13 +1,17 @@
-import { Effect, pipe } from "effect"
+import { Effect, Match } from "effect"
 
-import type { BotState } from "../core/domain.js"
-import { formatLocalDate, nextPollWindow, summaryDateForPoll } from "../core/schedule.js"
+import type { BotState, Language } from "../core/domain.js"
+import { noteEvent } from "../core/journal.js"
+import { groupLanguage, privateLanguage } from "../core/language.js"
+import { isGroupChat } from "../core/telegram-commands.js"
 import type { IncomingUpdate } from "../core/updates.js"
 import type { StateStoreError, StateStoreShape } from "../shell/state-store.js"
 import type { TelegramError, TelegramServiceShape } from "../shell/telegram.js"
-import { getZonedDate, type TimeError } from "../shell/time.js"
+import type { TimeError } from "../shell/time.js"
 import { dispatchChatCommand, type DispatchContext } from "./command-dispatch.js"
 import { allowCommand, type CommandEnvelope, toCommandEnvelope } from "./command-utils.js"
+import { sendHistoryPage } from "./history.js"
+import { handleUserLanguage } from "./language.js"
 import { handleLeaderboard } from "./leaderboard.js"
 
 type CommandContext = {
@@ -19,23 +23,19 @@ type CommandContext = {
   readonly botUsername?: string | undefined
 }
 
+type CommandError = TelegramError | StateStoreError | TimeError
+
 type CommandUpdateContext = DispatchContext & {
   readonly state: BotState
   readonly update: IncomingUpdate
   readonly botUsername?: string | undefined
 }
 
-const isCommandAllowed = (
-  telegram: TelegramServiceShape,
-  envelope: CommandEnvelope
-): Effect.Effect<boolean, TelegramError> =>
-  allowCommand(
-    telegram,
-    envelope.chatId,
-    envelope.actorId,
-    envelope.command,
-    envelope.replyThreadId
-  )
+// Replies in a group follow the chat language; replies in a private chat follow the member's choice.
+const replyLanguage = (state: BotState, envelope: CommandEnvelope): Language =>
+  isGroupChat(envelope.chatType)
+    ? groupLanguage(state.chats[envelope.chatId])
+    : privateLanguage(state.userLanguages, envelope.actorId, null)
 
 const handleLeaderboardCommand = (
   state: BotState,
@@ -46,59 +46,76 @@ const handleLeaderboardCommand = (
     state,
     chatId: envelope.chatId,
     telegram: context.telegram,
+    language: replyLanguage(state, envelope),
     replyThreadId: envelope.replyThreadId
   })
 
+const handleHistoryCommand = (
+  state: BotState,
+  context: DispatchContext,
+  envelope: CommandEnvelope
+): Effect.Effect<BotState, TelegramError> =>
+  sendHistoryPage({ state, chatId: envelope.chatId, userId: envelope.actorId, page: 0, telegram: context.telegram })
+
+const handleLanguageCommand = (
+  state: BotState,
+  context: DispatchContext,
+  envelope: CommandEnvelope
+): Effect.Effect<BotState, CommandError> =>
+  isGroupChat(envelope.chatType)
+    ? dispatchChatCommand(state, context, envelope, "/language")
+    : handleUserLanguage({
+      state,
+      chatId: envelope.chatId,
+      userId: envelope.actorId,
+      commandText: envelope.text,
+      telegram: context.telegram,
+      stateStore: context.stateStore
+    })
+
 const handleCommandUpdate = (
   context: CommandUpdateContext
-): Effect.Effect<BotState, TelegramError | StateStoreError> =>
+): Effect.Effect<BotState, CommandError> =>
   Effect.gen(function*(_) {
     const envelope = toCommandEnvelope(context.update, context.botUsername)
     if (!envelope) {
       return context.state
     }
-    const allowed = yield* _(isCommandAllowed(context.telegram, envelope))
+    const allowed = yield* _(allowCommand(context.telegram, envelope, replyLanguage(context.state, envelope)))
     if (!allowed) {
       return context.state
     }
-    return envelope.command === "/leaderboard"
-      ? yield* _(handleLeaderboardCommand(context.state, context, envelope))
-      : yield* _(dispatchChatCommand(context.state, context, envelope, envelope.command))
+    // The command is saved before it runs, so the log shows it ahead of the transitions it causes.
+    const state = noteEvent(context.state, {
+      kind: "commandReceived",
+      chatId: envelope.chatId,
+      userId: envelope.actorId,
+      text: envelope.text
+    })
+    yield* _(context.stateStore.set(state))
+    return yield* _(
+      Match.value(envelope.command).pipe(
+        Match.when("/leaderboard", () => handleLeaderboardCommand(state, context, envelope)),
+        Match.when("/history", () => handleHistoryCommand(state, context, envelope)),
+        Match.when("/language", () => handleLanguageCommand(state, context, envelope)),
+        Match.orElse((command) => dispatchChatCommand(state, context, envelope, command))
+      )
+    )
   })
 
-type PollContextValues = {
-  readonly pollSummaryDate: ReturnType<typeof summaryDateForPoll>
-  readonly today: ReturnType<typeof formatLocalDate>
-  readonly pollWindow: ReturnType<typeof nextPollWindow>
-}
-
-const buildPollContext = (
+const applyCommandUpdates = (
   context: CommandContext
-): Effect.Effect<PollContextValues, TimeError> =>
+): Effect.Effect<BotState, CommandError> =>
   Effect.gen(function*(_) {
     const now = new Date()
-    const zoned = yield* _(getZonedDate(context.timeZone, now))
-    return {
-      pollSummaryDate: summaryDateForPoll(zoned.parts, zoned.weekday),
-      today: formatLocalDate(zoned.parts),
-      pollWindow: nextPollWindow(zoned.parts, zoned.weekday)
-    }
-  })
-
-const applyCommandUpdates = (
-  context: CommandContext,
-  pollContext: PollContextValues
-): Effect.Effect<BotState, TelegramError | StateStoreError> =>
-  Effect.gen(function*(_) {
     let updated = context.state
     for (const update of context.updates) {
       updated = yield* _(
         handleCommandUpdate({
           state: updated,
           update,
-          pollSummaryDate: pollContext.pollSummaryDate,
-          today: pollContext.today,
-          pollWindow: pollContext.pollWindow,
+          now,
+          defaultTimeZone: context.timeZone,
           telegram: context.telegram,
           stateStore: context.stateStore,
           botUsername: context.botUsername
@@ -121,8 +138,4 @@ const applyCommandUpdates = (
 // COMPLEXITY: O(n)/O(n)
 export const handleCommands = (
   context: CommandContext
-): Effect.Effect<BotState, TelegramError | StateStoreError | TimeError> =>
-  pipe(
-    buildPollContext(context),
-    Effect.flatMap((pollContext) => applyCommandUpdates(context, pollContext))
-  )
+): Effect.Effect<BotState, CommandError> => applyCommandUpdates(context)
@@ -1,37 +1,24 @@
 import { Effect, pipe } from "effect"
 
 import type { BotState } from "../core/domain.js"
-import {
-  clearProfileEdit,
-  ensureChat,
-  isProfileEditActive,
-  markProfileEdit,
-  setThreadId,
-  setUserProfile
-} from "../core/state.js"
+import { groupLanguage } from "../core/language.js"
+import { defaultWeeklySchedule } from "../core/schedule.js"
+import { ensureChat, setThreadId } from "../core/state.js"
 import { isGroupChat } from "../core/telegram-commands.js"
 import {
-  formatOrganizerGuideReply,
-  formatPrivateStartReply,
-  formatProfileIntroReply,
-  formatProfileSavedReply,
-  formatProfileWidgetReply,
-  formatStartReply,
   formatUpdateLog,
   logStateSnapshot,
   logTelegramNoUpdates,
   logTelegramReceivedUpdates,
-  logTelegramUpdate,
-  profileRedoLabel,
-  privateStartButtons,
-  privateStartOrganizerLabel,
-  privateStartProfileAliasLabel,
-  privateStartProfileLabel
-} from "../core/text.js"
-import { normalizeProfileText } from "../core/profiles.js"
-import type { CallbackQuery, ChatMessage, IncomingUpdate } from "../core/updates.js"
-import type { InlineKeyboard, TelegramServiceShape } from "../shell/telegram.js"
+  logTelegramUpdate
+} from "../core/text-log.js"
+import { formatStartReply } from "../core/text.js"
+import type { ChatMessage, IncomingUpdate } from "../core/updates.js"
+import type { TelegramServiceShape } from "../shell/telegram.js"
 import { allowAdminOnly, matchesTarget, parseCommandTarget } from "./command-utils.js"
+import { logAndFallback, logAndIgnore } from "./error-logging.js"
+import { handleCallback } from "./private-callbacks.js"
+import { handlePrivateText, sendPrivateStartReply } from "./private-menu.js"
 
 export const logUpdates = (
   updates: ReadonlyArray<IncomingUpdate>
@@ -73,10 +60,12 @@ const updateThreadFromStart = (state: BotState, message: ChatMessage): BotState
 }
 
 const sendStartReply = (
+  state: BotState,
   message: ChatMessage,
   telegram: TelegramServiceShape
 ): Effect.Effect<void> => {
-  const text = formatStartReply()
+  const chat = state.chats[message.chatId]
+  const text = formatStartReply(groupLanguage(chat), chat?.schedule ?? defaultWeeklySchedule)
   return logAndIgnore(
     pipe(
       telegram.sendMessage(message.chatId, text, message.messageThreadId),
@@ -85,118 +74,6 @@ const sendStartReply = (
   )
 }
 
-const buildPrivateStartKeyboard = (): InlineKeyboard => ({
-  inline_keyboard: privateStartButtons().map((row) => row.map((text) => ({ text, callback_data: text })))
-})
-
-const sendPrivateStartReply = (
-  message: ChatMessage,
-  telegram: TelegramServiceShape
-): Effect.Effect<void> => {
-  const text = formatPrivateStartReply()
-  return logAndIgnore(
-    pipe(
-      telegram.sendMessageWithKeyboard(message.chatId, text, buildPrivateStartKeyboard()),
-      Effect.asVoid
-    )
-  )
-}
-
-const isOrganizerButton = (text: string): boolean => text.trim() === privateStartOrganizerLabel()
-
-const isProfileButton = (text: string): boolean => {
-  const trimmed = text.trim()
-  return trimmed === privateStartProfileLabel() ||
-    trimmed === privateStartProfileAliasLabel() ||
-    trimmed === profileRedoLabel()
-}
-
-const isCommandMessage = (text: string): boolean => text.trim().startsWith("/")
-
-const sendOrganizerGuideReply = (
-  message: ChatMessage,
-  telegram: TelegramServiceShape
-): Effect.Effect<void> => {
-  const text = formatOrganizerGuideReply()
-  return logAndIgnore(
-    pipe(
-      telegram.sendMessage(message.chatId, text),
-      Effect.asVoid
-    )
-  )
-}
-
-const sendProfileFlow = (
-  chatId: ChatMessage["chatId"],
-  threadId: ChatMessage["messageThreadId"],
-  telegram: TelegramServiceShape
-): Effect.Effect<void> =>
-  logAndIgnore(
-    Effect.gen(function*(_) {
-      yield* _(telegram.sendMessage(chatId, formatProfileIntroReply(), threadId))
-      yield* _(telegram.sendMessage(chatId, formatProfileWidgetReply(), threadId))
-    })
-  )
-
-const sendOrganizerGuideFromCallback = (
-  callback: CallbackQuery,
-  telegram: TelegramServiceShape
-): Effect.Effect<void> =>
-  logAndIgnore(
-    pipe(
-      telegram.sendMessage(callback.chatId, formatOrganizerGuideReply(), callback.messageThreadId),
-      Effect.asVoid
-    )
-  )
-
-const sendProfileSavedReply = (
-  message: ChatMessage,
-  telegram: TelegramServiceShape
-): Effect.Effect<void> => {
-  const text = formatProfileSavedReply()
-  const keyboard: InlineKeyboard = {
-    inline_keyboard: [
-      [{ text: profileRedoLabel(), callback_data: profileRedoLabel() }]
-    ]
-  }
-  return logAndIgnore(
-    pipe(
-      telegram.sendMessageWithKeyboard(message.chatId, text, keyboard, message.messageThreadId),
-      Effect.asVoid
-    )
-  )
-}
-
-const sendProfileFlowFromCallback = (
-  callback: CallbackQuery,
-  telegram: TelegramServiceShape
-): Effect.Effect<void> => sendProfileFlow(callback.chatId, callback.messageThreadId, telegram)
-
-const handleCallback = (
-  state: BotState,
-  update: IncomingUpdate,
-  telegram: TelegramServiceShape
-): Effect.Effect<BotState> =>
-  Effect.gen(function*(_) {
-    const callback = update.callbackQuery
-    if (!callback || callback.chatType !== "private") {
-      return state
-    }
-    if (callback.data === privateStartOrganizerLabel()) {
-      yield* _(sendOrganizerGuideFromCallback(callback, telegram))
-      return state
-    }
-    if (
-      callback.data === privateStartProfileLabel() ||
-      callback.data === privateStartProfileAliasLabel() ||
-      callback.data === profileRedoLabel()
-    ) {
-      const next = markProfileEdit(state, callback.chatId)
-      yield* _(sendProfileFlowFromCallback(callback, telegram))
-      return next
-    }
-    return state
-  })
 // CHANGE: guard /start and /help against non-admin users
 // WHY: prevent non-admin users from changing thread bindings via bot commands
 // QUOTE(TZ): n/a
@@ -208,6 +85,7 @@ const handleCallback = (
 // INVARIANT: non-admins receive the admin-only reply
 // COMPLEXITY: O(1)/O(1)
 const allowStartCommand = (
+  state: BotState,
   message: ChatMessage,
   telegram: TelegramServiceShape
 ): Effect.Effect<boolean> =>
@@ -217,12 +95,32 @@ const allowStartCommand = (
         telegram,
         message.chatId,
         message.from.id,
+        groupLanguage(state.chats[message.chatId]),
         message.messageThreadId
       ),
       false
     )
     : Effect.succeed(false)
 
+const handleGroupMessage = (
+  state: BotState,
+  message: ChatMessage,
+  telegram: TelegramServiceShape,
+  botUsername?: string
+): Effect.Effect<BotState> =>
+  Effect.gen(function*(_) {
+    if (!isStartCommand(message.text, botUsername)) {
+      return state
+    }
+    const allowed = yield* _(allowStartCommand(state, message, telegram))
+    if (!allowed) {
+      return state
+    }
+    const updated = updateThreadFromStart(state, message)
+    yield* _(sendStartReply(updated, message, telegram))
+    return updated
+  })
+
 const handleMessage = (
   state: BotState,
   update: IncomingUpdate,
@@ -235,47 +133,15 @@ const handleMessage = (
       return state
     }
     if (isGroupChat(message.chatType)) {
-      if (!isStartCommand(message.text, botUsername)) {
-        return state
-      }
-      const allowed = yield* _(allowStartCommand(message, telegram))
-      if (!allowed) {
-        return state
-      }
-      const updated = updateThreadFromStart(state, message)
-      yield* _(sendStartReply(message, telegram))
-      return updated
+      return yield* _(handleGroupMessage(state, message, telegram, botUsername))
     }
     if (message.chatType !== "private") {
       return state
     }
     if (!isStartCommand(message.text, botUsername)) {
-      if (isOrganizerButton(message.text)) {
-        yield* _(sendOrganizerGuideReply(message, telegram))
-        return state
-      }
-      if (isProfileButton(message.text)) {
-        const next = markProfileEdit(state, message.chatId)
-        yield* _(sendProfileFlow(message.chatId, message.messageThreadId, telegram))
-        return next
-      }
-      if (isCommandMessage(message.text)) {
-        return state
-      }
-      if (!isProfileEditActive(state, message.chatId)) {
-        return state
-      }
-      const author = message.from
-      const profileText = normalizeProfileText(message.text)
-      if (!author || !profileText) {
-        return state
-      }
-      const withProfile = setUserProfile(state, { userId: author.id, text: profileText })
-      const next = clearProfileEdit(withProfile, message.chatId)
-      yield* _(sendProfileSavedReply(message, telegram))
-      return next
+      return yield* _(handlePrivateText(state, message, telegram))
     }
-    yield* _(sendPrivateStartReply(message, telegram))
+    yield* _(sendPrivateStartReply(state, message, telegram))
     return state
   })
 
@@ -303,70 +169,3 @@ export const handleMessages = (
     }
     return updated
   })
-
-export type LoggableError =
-  | Error
-  | string
-  | {
-    readonly _tag?: string
-    readonly message?: string
-    readonly description?: string
-    readonly errorCode?: number
-    readonly method?: string
-  }
-
-type TaggedError = {
-  readonly _tag?: string
-  readonly message?: string
-  readonly description?: string
-  readonly errorCode?: number
-  readonly method?: string
-}
-
-const hasTag = (error: LoggableError): error is TaggedError => typeof error !== "string" && "_tag" in error
-
-const formatCode = (error: TaggedError): string => error.errorCode === undefined ? "" : ` code=${error.errorCode}`
-
-const formatMethod = (error: TaggedError): string => error.method ? ` method=${error.method}` : ""
-
-const formatTaggedError = (error: TaggedError): string => {
-  const tag = error._tag ?? "UnknownError"
-  const message = error.message ?? error.description ?? ""
-  const base = message ? `${tag}: ${message}` : tag
-  return `${base}${formatCode(error)}${formatMethod(error)}`
-}
-
-export const formatError = (error: LoggableError): string => {
-  if (typeof error === "string") {
-    return error
-  }
-  if (hasTag(error)) {
-    return formatTaggedError(error)
-  }
-  return `${error.name}: ${error.message}`
-}
-
-export const logAndIgnore = <E extends LoggableError, R>(
-  effect: Effect.Effect<void, E, R>
-): Effect.Effect<void, never, R> =>
-  effect.pipe(
-    Effect.matchEffect({
-      onFailure: (error) => Effect.logError(formatError(error)),
-      onSuccess: () => Effect.void
-    })
-  )
-
-export const logAndFallback = <A, E extends LoggableError, R>(
-  effect: Effect.Effect<A, E, R>,
-  fallback: A
-): Effect.Effect<A, never, R> =>
-  effect.pipe(
-    Effect.matchEffect({
-      onFailure: (error) =>
-        pipe(
-          Effect.logError(formatError(error)),
-          Effect.as(fallback)
-        ),
-      onSuccess: (value) => Effect.succeed(value)
-    })
-  )
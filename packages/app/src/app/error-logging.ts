@@ -0,0 +1,68 @@
+import { Effect, pipe } from "effect"
+
+export type LoggableError =
+  | Error
+  | string
+  | {
+    readonly _tag?: string
+    readonly message?: string
+    readonly description?: string
+    readonly errorCode?: number
+    readonly method?: string
+  }
+
+type TaggedError = {
+  readonly _tag?: string
+  readonly message?: string
+  readonly description?: string
+  readonly errorCode?: number
+  readonly method?: string
+}
+
+const hasTag = (error: LoggableError): error is TaggedError => typeof error !== "string" && "_tag" in error
+
+const formatCode = (error: TaggedError): string => error.errorCode === undefined ? "" : ` code=${error.errorCode}`
+
+const formatMethod = (error: TaggedError): string => error.method ? ` method=${error.method}` : ""
+
+const formatTaggedError = (error: TaggedError): string => {
+  const tag = error._tag ?? "UnknownError"
+  const message = error.message ?? error.description ?? ""
+  const base = message ? `${tag}: ${message}` : tag
+  return `${base}${formatCode(error)}${formatMethod(error)}`
+}
+
+export const formatError = (error: LoggableError): string => {
+  if (typeof error === "string") {
+    return error
+  }
+  if (hasTag(error)) {
+    return formatTaggedError(error)
+  }
+  return `${error.name}: ${error.message}`
+}
+
+export const logAndIgnore = <E extends LoggableError, R>(
+  effect: Effect.Effect<void, E, R>
+): Effect.Effect<void, never, R> =>
+  effect.pipe(
+    Effect.matchEffect({
+      onFailure: (error) => Effect.logError(formatError(error)),
+      onSuccess: () => Effect.void
+    })
+  )
+
+export const logAndFallback = <A, E extends LoggableError, R>(
+  effect: Effect.Effect<A, E, R>,
+  fallback: A
+): Effect.Effect<A, never, R> =>
+  effect.pipe(
+    Effect.matchEffect({
+      onFailure: (error) =>
+        pipe(
+          Effect.logError(formatError(error)),
+          Effect.as(fallback)
+        ),
+      onSuccess: (value) => Effect.succeed(value)
+    })
+  )
@@ -0,0 +1,139 @@
+import { Effect } from "effect"
+
+import { type ChatId, UserId } from "../core/brand.js"
+import type { BotState, Language, Participant } from "../core/domain.js"
+import {
+  encodeExclusionAction,
+  type ExclusionAction,
+  type ExclusionCandidate,
+  listExclusionCandidates,
+  listOwnExclusions
+} from "../core/exclusions.js"
+import { memberLanguage } from "../core/language.js"
+import { addChatExclusion, removeChatExclusion } from "../core/state.js"
+import {
+  exclusionButtonLabel,
+  formatExclusionAdded,
+  formatExclusionOutdated,
+  formatExclusionRemoved,
+  formatExclusionsMenu
+} from "../core/text-exclusions.js"
+import type { InlineKeyboard, TelegramError, TelegramServiceShape } from "../shell/telegram.js"
+
+export type PrivateRequest = {
+  readonly chatId: ChatId
+  readonly from?: Participant | undefined
+  readonly messageThreadId?: number | undefined
+}
+
+// CHANGE: pick the language of a reply in a private chat
+// WHY: menus and buttons in a DM span every chat of the member, so only their own choice applies
+// QUOTE(TZ): "a per-user language for DMs"
+// REF: user-021-localization
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,r: requestLanguage(s,r) = memberLanguage(s, r.chatId, none)
+// PURITY: CORE
+// INVARIANT: a private chat id is the member's user id, so requests without a sender still resolve
+// COMPLEXITY: O(1)/O(1)
+export const requestLanguage = (state: BotState, request: PrivateRequest): Language =>
+  memberLanguage(state, UserId(Number(request.chatId)))
+
+export type ExclusionOutcome = {
+  readonly state: BotState
+  readonly reply: string
+}
+
+const exclusionButton = (language: Language, kind: ExclusionAction["kind"], entry: ExclusionCandidate) => [{
+  text: exclusionButtonLabel(language, kind === "remove", entry.participant, entry.chatTitle),
+  callback_data: encodeExclusionAction({ kind, chatId: entry.chatId, userId: entry.participant.id })
+}]
+
+const buildExclusionsKeyboard = (
+  language: Language,
+  own: ReadonlyArray<ExclusionCandidate>,
+  candidates: ReadonlyArray<ExclusionCandidate>
+): InlineKeyboard => ({
+  inline_keyboard: [
+    ...own.map((entry) => exclusionButton(language, "remove", entry)),
+    ...candidates.map((entry) => exclusionButton(language, "add", entry))
+  ]
+})
+
+// CHANGE: show the participant's exclusions and people they can exclude
+// WHY: exclusions are managed privately, next to the profile buttons
+// QUOTE(TZ): "Users manage it privately through a DM flow next to the existing profile buttons in `diagnostics.ts`"
+// REF: user-004-pair-exclusions
+// SOURCE: n/a
+// FORMAT THEOREM: forall r: buttons(menu(r)) = own(r) ∪ candidates(r)
+// PURITY: SHELL
+// EFFECT: Effect<void, TelegramError, never>
+// INVARIANT: only the requester's own exclusions are listed
+// COMPLEXITY: O(n)/O(n)
+export const sendExclusionsMenu = (
+  state: BotState,
+  request: PrivateRequest,
+  telegram: TelegramServiceShape
+): Effect.Effect<void, TelegramError> => {
+  const requesterId = request.from?.id
+  const own = requesterId === undefined ? [] : listOwnExclusions(state, requesterId)
+  const candidates = requesterId === undefined ? [] : listExclusionCandidates(state, requesterId)
+  const language = requestLanguage(state, request)
+  const text = formatExclusionsMenu(language, own.length + candidates.length)
+  const send = own.length + candidates.length === 0
+    ? telegram.sendMessage(request.chatId, text, request.messageThreadId)
+    : telegram.sendMessageWithKeyboard(
+      request.chatId,
+      text,
+      buildExclusionsKeyboard(language, own, candidates),
+      request.messageThreadId
+    )
+  return Effect.asVoid(send)
+}
+
+const addExclusion = (state: BotState, action: ExclusionAction, requesterId: UserId): ExclusionOutcome => {
+  const chat = state.chats[action.chatId]
+  const participants = Object.values(chat?.participants ?? {})
+  const target = participants.find((participant) => participant.id === action.userId)
+  const isParticipant = participants.some((participant) => participant.id === requesterId)
+  const language = memberLanguage(state, requesterId, action.chatId)
+  if (!chat || !target || !isParticipant || target.id === requesterId) {
+    return { state, reply: formatExclusionOutdated(language) }
+  }
+  return {
+    state: addChatExclusion(state, action.chatId, { requesterId, excluded: target }),
+    reply: formatExclusionAdded(language, target, chat.title)
+  }
+}
+
+const liftExclusion = (state: BotState, action: ExclusionAction, requesterId: UserId): ExclusionOutcome => {
+  const chat = state.chats[action.chatId]
+  const existing = Object.values(chat?.exclusions ?? {}).find((exclusion) =>
+    exclusion.requesterId === requesterId && exclusion.excluded.id === action.userId
+  )
+  const language = memberLanguage(state, requesterId, action.chatId)
+  if (!chat || !existing) {
+    return { state, reply: formatExclusionOutdated(language) }
+  }
+  return {
+    state: removeChatExclusion(state, action.chatId, requesterId, action.userId),
+    reply: formatExclusionRemoved(language, existing.excluded, chat.title)
+  }
+}
+
+// CHANGE: apply an exclusion button press from a private chat
+// WHY: the requester adds or lifts an exclusion without telling anyone else
+// QUOTE(TZ): "We want a per-chat exclusion list that `pairParticipants` treats as a hard constraint"
+// REF: user-004-pair-exclusions
+// SOURCE: n/a
+// FORMAT THEOREM: forall a: a.kind = add ∧ valid(a) -> pairKey(requester, a.userId) in excluded(state')
+// PURITY: CORE
+// INVARIANT: outdated buttons produce a reply without changing state
+// COMPLEXITY: O(n)/O(n)
+export const applyExclusionAction = (
+  state: BotState,
+  requesterId: UserId,
+  action: ExclusionAction
+): ExclusionOutcome =>
+  action.kind === "add"
+    ? addExclusion(state, action, requesterId)
+    : liftExclusion(state, action, requesterId)
@@ -0,0 +1,188 @@
+import { Effect, pipe } from "effect"
+
+import { ChatId, type LocalDateString } from "../core/brand.js"
+import type { BotState, Language, RoundRecord, RoundTarget } from "../core/domain.js"
+import {
+  applyFeedbackChoice,
+  applyFeedbackComment,
+  dueFeedbackRound,
+  encodeFeedbackAction,
+  type FeedbackAction,
+  type FeedbackChoice,
+  type FeedbackRecipient,
+  feedbackRecipients,
+  type FeedbackReply,
+  markFeedbackRequested,
+  meetingRatings
+} from "../core/feedback.js"
+import { memberLanguage } from "../core/language.js"
+import { feedbackChoiceLabel, formatFeedbackReply, formatFeedbackRequest } from "../core/text-feedback.js"
+import { logDirectMessageFailed, logFeedbackRequested } from "../core/text-log.js"
+import type { CallbackQuery, ChatMessage } from "../core/updates.js"
+import type { StateStoreError, StateStoreShape } from "../shell/state-store.js"
+import type { InlineKeyboard, TelegramServiceShape } from "../shell/telegram.js"
+
+type FeedbackRequestContext = {
+  readonly state: BotState
+  readonly chatId: ChatId
+  readonly today: LocalDateString
+  readonly telegram: TelegramServiceShape
+  readonly stateStore: StateStoreShape
+}
+
+const buildFeedbackKeyboard = (
+  language: Language,
+  target: RoundTarget,
+  choices: ReadonlyArray<FeedbackChoice>
+): InlineKeyboard => ({
+  inline_keyboard: [
+    choices.map((choice) => ({
+      text: feedbackChoiceLabel(language, choice),
+      callback_data: encodeFeedbackAction({ ...target, choice })
+    }))
+  ]
+})
+
+const replyChoices: Readonly<Record<FeedbackReply, ReadonlyArray<FeedbackChoice>>> = {
+  askRating: meetingRatings,
+  askComment: ["skip"],
+  thanks: [],
+  outdated: []
+}
+
+const bestEffort = <A, E>(chatId: ChatId, effect: Effect.Effect<A, E>): Effect.Effect<void> =>
+  pipe(
+    effect,
+    Effect.tapError(() => Effect.logWarning(logDirectMessageFailed(chatId))),
+    Effect.catchAll(() => Effect.void),
+    Effect.asVoid
+  )
+
+const sendFeedbackReply = (
+  chatId: ChatId,
+  language: Language,
+  reply: FeedbackReply,
+  target: RoundTarget,
+  telegram: TelegramServiceShape
+): Effect.Effect<void> => {
+  const choices = replyChoices[reply]
+  const text = formatFeedbackReply(language, reply)
+  return bestEffort(
+    chatId,
+    choices.length === 0
+      ? telegram.sendMessage(chatId, text)
+      : telegram.sendMessageWithKeyboard(chatId, text, buildFeedbackKeyboard(language, target, choices))
+  )
+}
+
+const sendFeedbackRequest = (
+  recipient: FeedbackRecipient,
+  round: RoundRecord,
+  target: RoundTarget,
+  context: FeedbackRequestContext
+): Effect.Effect<void> => {
+  const chatId = ChatId(`${recipient.participant.id}`)
+  const language = memberLanguage(context.state, recipient.participant.id, target.chatId)
+  return bestEffort(
+    chatId,
+    context.telegram.sendMessageWithKeyboard(
+      chatId,
+      formatFeedbackRequest(
+        language,
+        context.state.chats[target.chatId]?.title ?? null,
+        round.summaryDate,
+        recipient.partners
+      ),
+      buildFeedbackKeyboard(language, target, ["met", "missed"])
+    )
+  )
+}
+
+// CHANGE: send the post-meeting survey once the latest round is old enough
+// WHY: we have no idea whether pairs actually met
+// QUOTE(TZ): "Some days after each summary, the bot should DM every assigned participant an inline-keyboard question"
+// REF: user-017-feedback-survey
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: due(c) -> requested(state') ∧ |DMs| = |recipients(round)|
+// PURITY: SHELL
+// EFFECT: Effect<BotState, StateStoreError, never>
+// INVARIANT: the round is marked as surveyed before any DM goes out, so a restart never repeats the survey
+// COMPLEXITY: O(n)/O(n)
+export const requestDueFeedback = (
+  context: FeedbackRequestContext
+): Effect.Effect<BotState, StateStoreError> => {
+  const chat = context.state.chats[context.chatId]
+  const roundIndex = chat ? dueFeedbackRound(chat, context.today) : null
+  const round = roundIndex === null ? undefined : chat?.rounds[roundIndex]
+  if (!chat || roundIndex === null || !round) {
+    return Effect.succeed(context.state)
+  }
+  const target = { chatId: context.chatId, roundIndex }
+  const recipients = feedbackRecipients(round)
+  const nextState = markFeedbackRequested(context.state, target)
+  return pipe(
+    context.stateStore.set(nextState),
+    Effect.zipRight(
+      Effect.forEach(
+        recipients,
+        (recipient) => sendFeedbackRequest(recipient, round, target, context),
+        { discard: true }
+      )
+    ),
+    Effect.tap(() => Effect.logInfo(logFeedbackRequested(context.chatId, round.summaryDate, recipients.length))),
+    Effect.as(nextState)
+  )
+}
+
+// CHANGE: apply a survey button and ask the next question privately
+// WHY: keep the stored answer even when the next question cannot be delivered
+// QUOTE(TZ): "This needs new callback handling in `handleCallback` in `diagnostics.ts`"
+// REF: user-017-feedback-survey
+// SOURCE: n/a
+// FORMAT THEOREM: forall c,a: state' = applyFeedbackChoice(state, c.chatId, from(c), a).state
+// PURITY: SHELL
+// EFFECT: Effect<BotState, never, never>
+// INVARIANT: callbacks without a sender leave state unchanged
+// COMPLEXITY: O(n)/O(n)
+export const handleFeedbackCallback = (
+  state: BotState,
+  callback: CallbackQuery,
+  action: FeedbackAction,
+  telegram: TelegramServiceShape
+): Effect.Effect<BotState> => {
+  if (!callback.from) {
+    return Effect.succeed(state)
+  }
+  const outcome = applyFeedbackChoice(state, callback.chatId, callback.from.id, action)
+  const language = memberLanguage(state, callback.from.id, action.chatId)
+  return pipe(sendFeedbackReply(callback.chatId, language, outcome.reply, action, telegram), Effect.as(outcome.state))
+}
+
+// CHANGE: store a private message as the survey comment when one was asked for
+// WHY: the free-text part of the survey is optional and follows the buttons
+// QUOTE(TZ): "did you meet, how was it, and optional free text"
+// REF: user-017-feedback-survey
+// SOURCE: n/a
+// FORMAT THEOREM: forall m: pending(m.chatId) -> state' = applyFeedbackComment(state, m.chatId, from(m), m.text).state
+// PURITY: SHELL
+// EFFECT: Effect<BotState, never, never>
+// INVARIANT: returns null for commands and when the chat is not waiting for a survey comment
+// COMPLEXITY: O(n)/O(n)
+export const handleFeedbackComment = (
+  state: BotState,
+  message: ChatMessage,
+  telegram: TelegramServiceShape
+): Effect.Effect<BotState> | null => {
+  const isCommand = message.text.trim().startsWith("/")
+  const outcome = message.from && !isCommand
+    ? applyFeedbackComment(state, message.chatId, message.from.id, message.text)
+    : null
+  const target = state.pendingFeedbackComments[message.chatId]
+  const language = message.from ? memberLanguage(state, message.from.id, target?.chatId) : null
+  return outcome && language
+    ? pipe(
+      bestEffort(message.chatId, telegram.sendMessage(message.chatId, formatFeedbackReply(language, outcome.reply))),
+      Effect.as(outcome.state)
+    )
+    : null
+}
@@ -0,0 +1,49 @@
+import { Effect } from "effect"
+
+import type { ChatId, UserId } from "../core/brand.js"
+import type { BotState, Language } from "../core/domain.js"
+import { encodeHistoryPage, type HistoryPage, historyPage, listUserHistory } from "../core/history.js"
+import { privateLanguage } from "../core/language.js"
+import { formatHistoryPage, historyPageButtonLabel } from "../core/text-history.js"
+import type { InlineKeyboard, TelegramError, TelegramServiceShape } from "../shell/telegram.js"
+
+const pageButton = (language: Language, direction: "older" | "newer", page: number) => ({
+  text: historyPageButtonLabel(language, direction),
+  callback_data: encodeHistoryPage(page)
+})
+
+const buildHistoryKeyboard = (language: Language, page: HistoryPage): InlineKeyboard => ({
+  inline_keyboard: [[
+    ...(page.page + 1 < page.pageCount ? [pageButton(language, "older", page.page + 1)] : []),
+    ...(page.page > 0 ? [pageButton(language, "newer", page.page - 1)] : [])
+  ]]
+})
+
+type HistoryContext = {
+  readonly state: BotState
+  readonly chatId: ChatId
+  readonly userId: UserId
+  readonly page: number
+  readonly telegram: TelegramServiceShape
+}
+
+// CHANGE: send one page of the requester's past matches
+// WHY: participants ask who they met before across every chat the bot serves
+// QUOTE(TZ): "It would reuse `formatContactLine` and the `sendMessageWithKeyboard` service method."
+// REF: user-016-history-command
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: message(c) = formatHistoryPage(historyPage(listUserHistory(c.state, c.userId), c.page))
+// PURITY: SHELL
+// EFFECT: Effect<BotState, TelegramError, never>
+// INVARIANT: no state mutation occurs; page buttons only appear when there is another page to show
+// COMPLEXITY: O(n log n)/O(n)
+export const sendHistoryPage = (context: HistoryContext): Effect.Effect<BotState, TelegramError> => {
+  const current = historyPage(listUserHistory(context.state, context.userId), context.page)
+  // History spans every chat of the member, so only their own language choice applies.
+  const language = privateLanguage(context.state.userLanguages, context.userId, null)
+  const text = formatHistoryPage(language, current)
+  const send = current.pageCount === 1
+    ? context.telegram.sendMessage(context.chatId, text)
+    : context.telegram.sendMessageWithKeyboard(context.chatId, text, buildHistoryKeyboard(language, current))
+  return Effect.as(send, context.state)
+}
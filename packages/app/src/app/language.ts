@@ -0,0 +1,48 @@
+import { Effect, pipe } from "effect"
+
+import type { ChatId, UserId } from "../core/brand.js"
+import type { BotState } from "../core/domain.js"
+import { privateLanguage, setUserLanguage } from "../core/language.js"
+import { commandArgument, parseLanguageArgument } from "../core/telegram-commands.js"
+import { replyUserLanguageSaved, replyUserLanguageUsage } from "../core/text-settings.js"
+import type { StateStoreError, StateStoreShape } from "../shell/state-store.js"
+import type { TelegramError, TelegramServiceShape } from "../shell/telegram.js"
+
+type UserLanguageContext = {
+  readonly state: BotState
+  readonly chatId: ChatId
+  readonly userId: UserId
+  readonly commandText: string
+  readonly telegram: TelegramServiceShape
+  readonly stateStore: StateStoreShape
+}
+
+// CHANGE: store the language of a member's private chat
+// WHY: members of several communities pick one language for every DM of the bot
+// QUOTE(TZ): "a per-user language for DMs"
+// REF: user-021-localization
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: /language en -> userLanguages[c.userId] = en
+// PURITY: SHELL
+// EFFECT: Effect<BotState, TelegramError | StateStoreError, never>
+// INVARIANT: invalid arguments reply with usage and do not mutate state; replies use the resulting language
+// COMPLEXITY: O(n)/O(n)
+export const handleUserLanguage = (
+  context: UserLanguageContext
+): Effect.Effect<BotState, TelegramError | StateStoreError> => {
+  const parsed = parseLanguageArgument(commandArgument(context.commandText))
+  if (parsed === null) {
+    const current = privateLanguage(context.state.userLanguages, context.userId, null)
+    return pipe(
+      context.telegram.sendMessage(context.chatId, replyUserLanguageUsage(current)),
+      Effect.as(context.state)
+    )
+  }
+  const nextState = setUserLanguage(context.state, context.userId, parsed.language)
+  const language = privateLanguage(nextState.userLanguages, context.userId, null)
+  return pipe(
+    context.stateStore.set(nextState),
+    Effect.zipRight(context.telegram.sendMessage(context.chatId, replyUserLanguageSaved(language, parsed.language))),
+    Effect.as(nextState)
+  )
+}
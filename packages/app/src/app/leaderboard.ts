@@ -1,7 +1,7 @@
 import { Effect, pipe } from "effect"
 
 import { ChatId } from "../core/brand.js"
-import type { BotState } from "../core/domain.js"
+import type { BotState, Language } from "../core/domain.js"
 import {
   formatLeaderboard,
   type LeaderboardEntry,
@@ -9,7 +9,7 @@ import {
   replyLeaderboardUnavailable
 } from "../core/text.js"
 import type { TelegramError, TelegramServiceShape } from "../shell/telegram.js"
-import { formatError } from "./diagnostics.js"
+import { formatError } from "./error-logging.js"
 
 type LeaderboardSnapshot = {
   readonly entries: ReadonlyArray<LeaderboardEntry>
@@ -84,6 +84,7 @@ type LeaderboardContext = {
   readonly state: BotState
   readonly chatId: ChatId
   readonly telegram: TelegramServiceShape
+  readonly language: Language
   readonly replyThreadId?: number | undefined
 }
 
@@ -105,10 +106,10 @@ export const handleLeaderboard = (
     let message = ""
     if (snapshot.entries.length === 0) {
       message = snapshot.skipped === 0
-        ? replyLeaderboardEmpty()
-        : replyLeaderboardUnavailable(snapshot.skipped)
+        ? replyLeaderboardEmpty(context.language)
+        : replyLeaderboardUnavailable(context.language, snapshot.skipped)
     } else {
-      message = formatLeaderboard(snapshot.entries, snapshot.skipped)
+      message = formatLeaderboard(context.language, snapshot.entries, snapshot.skipped)
     }
     yield* _(
       context.telegram.sendMessage(
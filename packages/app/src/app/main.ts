@@ -2,6 +2,7 @@ import { NodeContext, NodeRuntime } from "@effect/platform-node"
 import { Effect, pipe } from "effect"
 
 import { program } from "./program.js"
+import { replayProgram } from "./replay.js"
 
 // CHANGE: run the Telegram bot program through the Node runtime
 // WHY: keep the effect runtime centralized while the bot loop runs indefinitely
@@ -11,8 +12,11 @@ import { program } from "./program.js"
 // FORMAT THEOREM: forall t: runMain(program) -> program effects executed
 // PURITY: SHELL
 // EFFECT: Effect<void, ConfigError | StateStoreError, never>
-// INVARIANT: program executed with NodeContext.layer
+// INVARIANT: program executed with NodeContext.layer; the "replay" argument runs the event log check instead
 // COMPLEXITY: O(1)/O(1)
-const main = pipe(program, Effect.provide(NodeContext.layer))
+const main = pipe(
+  Effect.if(process.argv[2] === "replay", { onTrue: () => replayProgram, onFalse: () => program }),
+  Effect.provide(NodeContext.layer)
+)
 
 NodeRuntime.runMain(main)
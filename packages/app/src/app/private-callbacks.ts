@@ -0,0 +1,169 @@
+import { Effect, pipe } from "effect"
+
+import type { BotState } from "../core/domain.js"
+import { type ExclusionAction, parseExclusionAction } from "../core/exclusions.js"
+import { parseFeedbackAction } from "../core/feedback.js"
+import { parseHistoryPage } from "../core/history.js"
+import { parseProfileCallback } from "../core/profile-wizard.js"
+import { parseRematchAction } from "../core/rematch.js"
+import { parseArrangedAction } from "../core/reminders.js"
+import { parseSubscriptionAction, type SubscriptionAction } from "../core/subscriptions.js"
+import type { CallbackQuery, IncomingUpdate } from "../core/updates.js"
+import type { TelegramServiceShape } from "../shell/telegram.js"
+import { logAndFallback, logAndIgnore } from "./error-logging.js"
+import { applyExclusionAction } from "./exclusions.js"
+import { handleFeedbackCallback } from "./feedback.js"
+import { sendHistoryPage } from "./history.js"
+import {
+  handleMenuButton,
+  handleProfileAnswer,
+  isOrganizerButton,
+  isProfileButton,
+  runProfileOutcome,
+  sendOrganizerGuide
+} from "./private-menu.js"
+import { startProfileWizard } from "./profile-wizard.js"
+import { handleRematchCallback } from "./rematch.js"
+import { handleArrangedCallback } from "./reminders.js"
+import { applySubscriptionAction } from "./subscriptions.js"
+
+// CHANGE: apply an exclusion button and confirm it privately
+// WHY: keep the stored exclusion even when the confirmation cannot be delivered
+// QUOTE(TZ): "Users manage it privately through a DM flow next to the existing profile buttons"
+// REF: user-004-pair-exclusions
+// SOURCE: n/a
+// FORMAT THEOREM: forall c,a: state' = applyExclusionAction(state, from(c), a).state
+// PURITY: SHELL
+// EFFECT: Effect<BotState, never, never>
+// INVARIANT: callbacks without a sender leave state unchanged
+// COMPLEXITY: O(n)/O(n)
+const handleExclusionCallback = (
+  state: BotState,
+  callback: CallbackQuery,
+  action: ExclusionAction,
+  telegram: TelegramServiceShape
+): Effect.Effect<BotState> => {
+  if (!callback.from) {
+    return Effect.succeed(state)
+  }
+  const outcome = applyExclusionAction(state, callback.from.id, action)
+  return pipe(
+    logAndIgnore(
+      pipe(telegram.sendMessage(callback.chatId, outcome.reply, callback.messageThreadId), Effect.asVoid)
+    ),
+    Effect.as(outcome.state)
+  )
+}
+
+// CHANGE: apply a subscription button and confirm it privately
+// WHY: keep the roster change even when the confirmation cannot be delivered
+// QUOTE(TZ): "users subscribe once and stay in the pool, through a DM button or a group command"
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall c,a: state' = applySubscriptionAction(state, from(c), a).state
+// PURITY: SHELL
+// EFFECT: Effect<BotState, never, never>
+// INVARIANT: callbacks without a sender leave state unchanged
+// COMPLEXITY: O(n)/O(n)
+const handleSubscriptionCallback = (
+  state: BotState,
+  callback: CallbackQuery,
+  action: SubscriptionAction,
+  telegram: TelegramServiceShape
+): Effect.Effect<BotState> => {
+  if (!callback.from) {
+    return Effect.succeed(state)
+  }
+  const outcome = applySubscriptionAction(state, callback.from, action)
+  return pipe(
+    logAndIgnore(
+      pipe(telegram.sendMessage(callback.chatId, outcome.reply, callback.messageThreadId), Effect.asVoid)
+    ),
+    Effect.as(outcome.state)
+  )
+}
+
+const sendHistoryPageSafely = (
+  state: BotState,
+  callback: CallbackQuery,
+  page: number,
+  telegram: TelegramServiceShape
+): Effect.Effect<BotState> =>
+  callback.from
+    ? logAndFallback(
+      sendHistoryPage({ state, chatId: callback.chatId, userId: callback.from.id, page, telegram }),
+      state
+    )
+    : Effect.succeed(state)
+
+// Callbacks whose data carries a payload: exclusion and subscription toggles, history pages, survey, reminder and
+// re-match buttons and wizard answers.
+const handleCallbackData = (
+  state: BotState,
+  callback: CallbackQuery,
+  telegram: TelegramServiceShape
+): Effect.Effect<BotState> | null => {
+  const exclusionAction = parseExclusionAction(callback.data)
+  if (exclusionAction) {
+    return handleExclusionCallback(state, callback, exclusionAction, telegram)
+  }
+  const subscriptionAction = parseSubscriptionAction(callback.data)
+  if (subscriptionAction) {
+    return handleSubscriptionCallback(state, callback, subscriptionAction, telegram)
+  }
+  const historyPage = parseHistoryPage(callback.data)
+  if (historyPage !== null) {
+    return sendHistoryPageSafely(state, callback, historyPage, telegram)
+  }
+  const feedbackAction = parseFeedbackAction(callback.data)
+  if (feedbackAction) {
+    return handleFeedbackCallback(state, callback, feedbackAction, telegram)
+  }
+  const arrangedTarget = parseArrangedAction(callback.data)
+  if (arrangedTarget) {
+    return handleArrangedCallback(state, callback, arrangedTarget, telegram)
+  }
+  const rematchTarget = parseRematchAction(callback.data)
+  if (rematchTarget) {
+    return handleRematchCallback(state, callback, rematchTarget, telegram)
+  }
+  const profileAnswer = parseProfileCallback(callback.data)
+  return profileAnswer ? handleProfileAnswer(state, callback, profileAnswer, telegram) : null
+}
+
+// CHANGE: answer an inline button pressed in a private chat
+// WHY: menu, survey, reminder, re-match and wizard buttons all arrive as callback queries
+// QUOTE(TZ): "Users manage it privately through a DM flow next to the existing profile buttons"
+// REF: user-004-pair-exclusions
+// SOURCE: n/a
+// FORMAT THEOREM: forall u: u.callbackQuery = none ∨ chatType(u) != private -> state' = state
+// PURITY: SHELL
+// EFFECT: Effect<BotState, never, never>
+// INVARIANT: Telegram failures are logged and never escape to the update loop
+// COMPLEXITY: O(n)/O(n)
+export const handleCallback = (
+  state: BotState,
+  update: IncomingUpdate,
+  telegram: TelegramServiceShape
+): Effect.Effect<BotState> =>
+  Effect.gen(function*(_) {
+    const callback = update.callbackQuery
+    if (!callback || callback.chatType !== "private") {
+      return state
+    }
+    if (isOrganizerButton(callback.data)) {
+      yield* _(sendOrganizerGuide(state, callback, telegram))
+      return state
+    }
+    const menuReply = handleMenuButton(state, callback, callback.data, telegram)
+    if (menuReply) {
+      return yield* _(menuReply)
+    }
+    const dataReply = handleCallbackData(state, callback, telegram)
+    if (dataReply) {
+      return yield* _(dataReply)
+    }
+    return isProfileButton(callback.data)
+      ? yield* _(runProfileOutcome(callback, startProfileWizard(state, callback.chatId), telegram))
+      : state
+  })
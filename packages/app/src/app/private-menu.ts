@@ -0,0 +1,164 @@
+import { Effect, pipe } from "effect"
+
+import type { BotState, Language } from "../core/domain.js"
+import type { ProfileAnswer } from "../core/profile-wizard.js"
+import { profileRedoLabel } from "../core/text-profile.js"
+import {
+  formatOrganizerGuideReply,
+  formatPrivateStartReply,
+  isLabelInAnyLanguage,
+  privateStartButtons,
+  privateStartExclusionsLabel,
+  privateStartOrganizerLabel,
+  privateStartProfileAliasLabel,
+  privateStartProfileLabel,
+  privateStartSubscriptionsLabel
+} from "../core/text.js"
+import type { ChatMessage } from "../core/updates.js"
+import type { InlineKeyboard, TelegramServiceShape } from "../shell/telegram.js"
+import { logAndIgnore } from "./error-logging.js"
+import { type PrivateRequest, requestLanguage, sendExclusionsMenu } from "./exclusions.js"
+import { handleFeedbackComment } from "./feedback.js"
+import {
+  applyProfileInput,
+  profileAnswerFromText,
+  type ProfileOutcome,
+  sendProfilePrompt,
+  startProfileWizard
+} from "./profile-wizard.js"
+import { sendSubscriptionsMenu } from "./subscriptions.js"
+
+const buildPrivateStartKeyboard = (language: Language): InlineKeyboard => ({
+  inline_keyboard: privateStartButtons(language).map((row) => row.map((text) => ({ text, callback_data: text })))
+})
+
+export const sendPrivateStartReply = (
+  state: BotState,
+  message: ChatMessage,
+  telegram: TelegramServiceShape
+): Effect.Effect<void> => {
+  const language = requestLanguage(state, message)
+  const text = formatPrivateStartReply(language)
+  return logAndIgnore(
+    pipe(
+      telegram.sendMessageWithKeyboard(message.chatId, text, buildPrivateStartKeyboard(language)),
+      Effect.asVoid
+    )
+  )
+}
+
+// Buttons sent before a language switch keep working, so labels are matched in every language.
+export const isOrganizerButton = (text: string): boolean => isLabelInAnyLanguage(privateStartOrganizerLabel, text)
+
+export const isProfileButton = (text: string): boolean =>
+  isLabelInAnyLanguage(privateStartProfileLabel, text) ||
+  text.trim() === privateStartProfileAliasLabel() ||
+  isLabelInAnyLanguage(profileRedoLabel, text)
+
+const isExclusionsButton = (text: string): boolean => isLabelInAnyLanguage(privateStartExclusionsLabel, text)
+
+const isSubscriptionsButton = (text: string): boolean => isLabelInAnyLanguage(privateStartSubscriptionsLabel, text)
+
+const isCommandMessage = (text: string): boolean => text.trim().startsWith("/")
+
+export const sendOrganizerGuide = (
+  state: BotState,
+  request: PrivateRequest,
+  telegram: TelegramServiceShape
+): Effect.Effect<void> =>
+  logAndIgnore(
+    pipe(
+      telegram.sendMessage(
+        request.chatId,
+        formatOrganizerGuideReply(requestLanguage(state, request)),
+        request.messageThreadId
+      ),
+      Effect.asVoid
+    )
+  )
+
+export const runProfileOutcome = (
+  request: PrivateRequest,
+  outcome: ProfileOutcome,
+  telegram: TelegramServiceShape
+): Effect.Effect<BotState> =>
+  pipe(logAndIgnore(sendProfilePrompt(outcome.state, request, outcome.prompt, telegram)), Effect.as(outcome.state))
+
+// CHANGE: feed a private message or button into the profile wizard
+// WHY: keep the stored answer even when the next question cannot be delivered
+// QUOTE(TZ): "a step-by-step wizard in private chat that builds on the `pendingProfileEdits` mechanism"
+// REF: user-006-structured-profiles
+// SOURCE: n/a
+// FORMAT THEOREM: forall r,a: state' = applyProfileInput(state, r.chatId, r.from, a).state
+// PURITY: SHELL
+// EFFECT: Effect<BotState, never, never>
+// INVARIANT: input without an active wizard or sender leaves state unchanged
+// COMPLEXITY: O(1)/O(n)
+export const handleProfileAnswer = (
+  state: BotState,
+  request: PrivateRequest,
+  answer: ProfileAnswer,
+  telegram: TelegramServiceShape
+): Effect.Effect<BotState> => {
+  const outcome = request.from ? applyProfileInput(state, request.chatId, request.from.id, answer) : null
+  return outcome ? runProfileOutcome(request, outcome, telegram) : Effect.succeed(state)
+}
+
+const sendExclusionsMenuSafely = (
+  state: BotState,
+  request: PrivateRequest,
+  telegram: TelegramServiceShape
+): Effect.Effect<BotState> => pipe(logAndIgnore(sendExclusionsMenu(state, request, telegram)), Effect.as(state))
+
+const sendSubscriptionsMenuSafely = (
+  state: BotState,
+  request: PrivateRequest,
+  telegram: TelegramServiceShape
+): Effect.Effect<BotState> => pipe(logAndIgnore(sendSubscriptionsMenu(state, request, telegram)), Effect.as(state))
+
+// Buttons of the private /start menu that open a list with their own inline buttons.
+export const handleMenuButton = (
+  state: BotState,
+  request: PrivateRequest,
+  text: string,
+  telegram: TelegramServiceShape
+): Effect.Effect<BotState> | null => {
+  if (isExclusionsButton(text)) {
+    return sendExclusionsMenuSafely(state, request, telegram)
+  }
+  return isSubscriptionsButton(text) ? sendSubscriptionsMenuSafely(state, request, telegram) : null
+}
+
+const handlePrivateButton = (
+  state: BotState,
+  message: ChatMessage,
+  telegram: TelegramServiceShape
+): Effect.Effect<BotState> | null => {
+  if (isOrganizerButton(message.text)) {
+    return pipe(sendOrganizerGuide(state, message, telegram), Effect.as(state))
+  }
+  if (isProfileButton(message.text)) {
+    return runProfileOutcome(message, startProfileWizard(state, message.chatId), telegram)
+  }
+  return handleMenuButton(state, message, message.text, telegram) ?? handleFeedbackComment(state, message, telegram)
+}
+
+// CHANGE: answer a private message that is not /start
+// WHY: menu buttons, survey comments and wizard answers all arrive as plain private text
+// QUOTE(TZ): "a step-by-step wizard in private chat that builds on the `pendingProfileEdits` mechanism"
+// REF: user-006-structured-profiles
+// SOURCE: n/a
+// FORMAT THEOREM: forall m: isCommand(m.text) ∧ ¬button(m.text) -> state' = state
+// PURITY: SHELL
+// EFFECT: Effect<BotState, never, never>
+// INVARIANT: buttons win over wizard answers; other commands are left to the command loop
+// COMPLEXITY: O(1)/O(n)
+export const handlePrivateText = (
+  state: BotState,
+  message: ChatMessage,
+  telegram: TelegramServiceShape
+): Effect.Effect<BotState> =>
+  handlePrivateButton(state, message, telegram) ??
+    (isCommandMessage(message.text)
+      ? Effect.succeed(state)
+      : handleProfileAnswer(state, message, profileAnswerFromText(message.text), telegram))
@@ -0,0 +1,166 @@
+import { Effect } from "effect"
+
+import type { ChatId, UserId } from "../core/brand.js"
+import type { BotState, Language, ProfileField } from "../core/domain.js"
+import {
+  applyProfileAnswer,
+  encodeProfileAnswer,
+  meetingFormats,
+  type ProfileAnswer,
+  startProfileDraft,
+  toUserProfile
+} from "../core/profile-wizard.js"
+import { clearProfileEdit, findProfileEdit, markProfileEdit, setUserProfile } from "../core/state.js"
+import {
+  formatProfileIntroReply,
+  formatProfileSavedReply,
+  formatProfileStepPrompt,
+  formatProfileWidgetReply,
+  profileRedoLabel,
+  profileSkipLabel
+} from "../core/text-profile.js"
+import { isLabelInAnyLanguage, meetingFormatLabel } from "../core/text.js"
+import type { InlineKeyboard, TelegramError, TelegramServiceShape } from "../shell/telegram.js"
+import { type PrivateRequest, requestLanguage } from "./exclusions.js"
+
+export type ProfilePrompt =
+  | { readonly kind: "start" }
+  | { readonly kind: "step"; readonly step: ProfileField; readonly retry: boolean }
+  | { readonly kind: "saved" }
+
+export type ProfileOutcome = {
+  readonly state: BotState
+  readonly prompt: ProfilePrompt
+}
+
+const skipButton = (language: Language) => [{
+  text: profileSkipLabel(language),
+  callback_data: encodeProfileAnswer({ kind: "skip" })
+}]
+
+const buildStepKeyboard = (language: Language, step: ProfileField): InlineKeyboard => ({
+  inline_keyboard: step === "meetingFormat"
+    ? [
+      meetingFormats.map((format) => ({
+        text: meetingFormatLabel(language, format),
+        callback_data: encodeProfileAnswer({ kind: "format", format })
+      })),
+      skipButton(language)
+    ]
+    : [skipButton(language)]
+})
+
+const savedKeyboard = (language: Language): InlineKeyboard => ({
+  inline_keyboard: [
+    [{ text: profileRedoLabel(language), callback_data: profileRedoLabel(language) }]
+  ]
+})
+
+// CHANGE: interpret a private text message as a wizard answer
+// WHY: users may type a button label instead of pressing the button
+// QUOTE(TZ): "a step-by-step wizard in private chat that builds on the `pendingProfileEdits` mechanism"
+// REF: user-006-structured-profiles
+// SOURCE: n/a
+// FORMAT THEOREM: forall f: answer(label(f)) = format(f)
+// PURITY: CORE
+// INVARIANT: labels of every language are recognized; any other text is a free-text answer
+// COMPLEXITY: O(1)/O(1)
+export const profileAnswerFromText = (text: string): ProfileAnswer => {
+  if (isLabelInAnyLanguage(profileSkipLabel, text)) {
+    return { kind: "skip" }
+  }
+  const format = meetingFormats.find((candidate) =>
+    isLabelInAnyLanguage((language) => meetingFormatLabel(language, candidate), text)
+  )
+  return format ? { kind: "format", format } : { kind: "text", text }
+}
+
+// CHANGE: open the profile wizard for a private chat
+// WHY: every profile edit walks through all questions from the start
+// QUOTE(TZ): "These should be filled by a step-by-step wizard in private chat"
+// REF: user-006-structured-profiles
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,id: start(s,id).state.pending[id].step = profileSteps[0]
+// PURITY: CORE
+// INVARIANT: an unfinished draft is discarded
+// COMPLEXITY: O(1)/O(n)
+export const startProfileWizard = (state: BotState, chatId: ChatId): ProfileOutcome => ({
+  state: markProfileEdit(state, chatId, startProfileDraft()),
+  prompt: { kind: "start" }
+})
+
+// CHANGE: apply a wizard answer to the draft of a private chat
+// WHY: the profile is stored only once the last question is answered
+// QUOTE(TZ): "occupation, interests, conversation hooks, city, languages spoken and preferred meeting format"
+// REF: user-006-structured-profiles
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,a: done(apply(s,a)) -> profile(author) = fields(draft)
+// PURITY: CORE
+// INVARIANT: returns null when no wizard is active for the chat
+// COMPLEXITY: O(1)/O(n)
+export const applyProfileInput = (
+  state: BotState,
+  chatId: ChatId,
+  userId: UserId,
+  answer: ProfileAnswer
+): ProfileOutcome | null => {
+  const draft = findProfileEdit(state, chatId)
+  if (!draft) {
+    return null
+  }
+  const step = applyProfileAnswer(draft, answer)
+  if (step.kind === "invalid") {
+    return { state, prompt: { kind: "step", step: draft.step, retry: true } }
+  }
+  if (step.kind === "next") {
+    return {
+      state: markProfileEdit(state, chatId, step.draft),
+      prompt: { kind: "step", step: step.draft.step, retry: false }
+    }
+  }
+  return {
+    state: clearProfileEdit(setUserProfile(state, toUserProfile(userId, step.fields)), chatId),
+    prompt: { kind: "saved" }
+  }
+}
+
+// CHANGE: send the next wizard message
+// WHY: each question carries its own buttons, and the final reply offers a redo
+// QUOTE(TZ): "a step-by-step wizard in private chat"
+// REF: user-006-structured-profiles
+// SOURCE: n/a
+// FORMAT THEOREM: forall p ≠ start: sent(p) = 1 message
+// PURITY: SHELL
+// EFFECT: Effect<void, TelegramError, never>
+// INVARIANT: only the start prompt is preceded by the intro messages
+// COMPLEXITY: O(1)/O(1)
+export const sendProfilePrompt = (
+  state: BotState,
+  request: PrivateRequest,
+  prompt: ProfilePrompt,
+  telegram: TelegramServiceShape
+): Effect.Effect<void, TelegramError> =>
+  Effect.gen(function*(_) {
+    const { chatId, messageThreadId: threadId } = request
+    const language = requestLanguage(state, request)
+    if (prompt.kind === "saved") {
+      yield* _(
+        telegram.sendMessageWithKeyboard(chatId, formatProfileSavedReply(language), savedKeyboard(language), threadId)
+      )
+      return
+    }
+    if (prompt.kind === "start") {
+      yield* _(telegram.sendMessage(chatId, formatProfileIntroReply(language), threadId))
+      yield* _(telegram.sendMessage(chatId, formatProfileWidgetReply(language), threadId))
+    }
+    const step = prompt.kind === "start" ? startProfileDraft().step : prompt.step
+    const retry = prompt.kind === "step" && prompt.retry
+    yield* _(
+      telegram.sendMessageWithKeyboard(
+        chatId,
+        formatProfileStepPrompt(language, step, retry),
+        buildStepKeyboard(language, step),
+        threadId
+      )
+    )
+  })
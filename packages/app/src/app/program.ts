@@ -1,134 +1,163 @@
+import * as NodeHttpServer from "@effect/platform-node/NodeHttpServer"
+import type * as HttpServer from "@effect/platform/HttpServer"
+import type { ServeError } from "@effect/platform/HttpServerError"
 import { Effect, Match, pipe } from "effect"
+import type * as Scope from "effect/Scope"
+import { createServer } from "node:http"
 
-import { ChatId, RngSeed } from "../core/brand.js"
-import type { BotState, ChatState } from "../core/domain.js"
-import { decideSchedule } from "../core/schedule.js"
-import { logNoRegisteredGroupChats, logScheduleDecision } from "../core/text.js"
-import { applyUpdates } from "../core/updates.js"
-import { type Config, loadConfig } from "../shell/config.js"
+import { RngSeed } from "../core/brand.js"
+import { logNoRegisteredGroupChats, logWebhookListening } from "../core/text-log.js"
+import { applyUpdates, type IncomingUpdate } from "../core/updates.js"
+import { type Config, loadConfig, type WebhookConfig } from "../shell/config.js"
 import { DrizzleService, makeDrizzleService } from "../shell/drizzle.js"
-import { makeStateStore, StateStore, StateStoreError, type StateStoreShape } from "../shell/state-store.js"
+import { makeStateStore, StateStore, StateStoreError } from "../shell/state-store.js"
 import {
   makeTelegramService,
   type TelegramError,
   TelegramService,
   type TelegramServiceShape
 } from "../shell/telegram.js"
-import { getZonedDate } from "../shell/time.js"
-import { createPoll, summarize } from "./actions.js"
+import { serveWebhook } from "../shell/webhook.js"
 import { handleCommands } from "./commands.js"
-import { handleMessages, logAndFallback, logAndIgnore, logState, logUpdates } from "./diagnostics.js"
+import { handleMessages, logState, logUpdates } from "./diagnostics.js"
+import { formatError, logAndIgnore } from "./error-logging.js"
+import { runScheduler } from "./scheduler.js"
 
 const longPollSeconds = 25
 
-type DecisionContext = {
-  readonly state: BotState
-  readonly chatId: ChatId
-  readonly chat: ChatState
-  readonly telegram: TelegramServiceShape
-  readonly stateStore: StateStoreShape
+type LoopContext = {
+  readonly config: Config
+  readonly stateLock: Effect.Semaphore
+  readonly botUsername?: string | undefined
 }
 
-const handleDecisionEffect = (
-  decision: ReturnType<typeof decideSchedule>,
-  context: DecisionContext
-): Effect.Effect<BotState, TelegramError | StateStoreError> =>
-  Match.value(decision).pipe(
-    Match.when({ kind: "createPoll" }, (value) =>
-      createPoll({
-        ...context,
-        summaryDate: value.summaryDate
-      })),
-    Match.when({ kind: "summarize" }, (value) =>
-      summarize({
-        ...context,
-        summaryDate: value.summaryDate
-      })),
-    Match.when({ kind: "noop" }, () => Effect.succeed(context.state)),
-    Match.exhaustive
-  )
-
-const handleDecision = (
-  config: Config,
-  state: BotState
-): Effect.Effect<BotState, never, StateStore | TelegramService> =>
-  logAndFallback(
-    Effect.gen(function*(_) {
-      const now = new Date()
-      const zoned = yield* _(getZonedDate(config.timeZone, now))
-      const telegram = yield* _(TelegramService)
-      const stateStore = yield* _(StateStore)
-
-      let updated = state
-      for (const [chatId] of Object.entries(state.chats)) {
-        const current = updated.chats[chatId]
-        if (!current) {
-          continue
-        }
-        const decision = decideSchedule(current, zoned.parts, zoned.weekday)
-        yield* _(
-          Effect.logInfo(
-            logScheduleDecision(ChatId(chatId), decision)
-          )
-        )
-        updated = yield* _(
-          handleDecisionEffect(decision, {
-            state: updated,
-            chatId: ChatId(chatId),
-            chat: current,
-            telegram,
-            stateStore
-          })
-        )
-      }
-
-      return updated
-    }),
-    state
-  )
-
-const runOnce = (
-  config: Config,
-  botUsername?: string
-): Effect.Effect<void, never, StateStore | TelegramService> =>
-  logAndIgnore(
+// CHANGE: run a batch of updates through the message and command pipeline
+// WHY: long polling and webhooks must process updates in exactly the same way
+// QUOTE(TZ): "feeds them through the same `applyUpdates` → `handleMessages` → `handleCommands` pipeline"
+// REF: user-011-webhook-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall u: processed(poll(u)) = processed(webhook(u))
+// PURITY: SHELL
+// EFFECT: Effect<void, TelegramError | StateStoreError, StateStore | TelegramService>
+// INVARIANT: the state is read and written under the state lock shared with the scheduler
+// COMPLEXITY: O(n)/O(n)
+const processUpdates = (
+  context: LoopContext,
+  updates: ReadonlyArray<IncomingUpdate>
+): Effect.Effect<void, TelegramError | StateStoreError, StateStore | TelegramService> =>
+  context.stateLock.withPermits(1)(
     Effect.gen(function*(_) {
       const telegram = yield* _(TelegramService)
       const stateStore = yield* _(StateStore)
       const current = yield* _(stateStore.get)
-      const updates = yield* _(telegram.getUpdates(current.updateOffset, longPollSeconds))
       yield* _(logUpdates(updates))
       const updated = applyUpdates(current, updates)
       yield* _(logState(updated))
       const afterMessages = yield* _(
-        handleMessages(updated, updates, telegram, botUsername)
+        handleMessages(updated, updates, telegram, context.botUsername)
       )
       if (Object.keys(afterMessages.chats).length === 0) {
         yield* _(Effect.logWarning(logNoRegisteredGroupChats()))
       }
       yield* _(stateStore.set(afterMessages))
-      const afterCommands = yield* _(
-        logAndFallback(
+      yield* _(
+        logAndIgnore(
           handleCommands({
             state: afterMessages,
             updates,
             telegram,
             stateStore,
-            timeZone: config.timeZone,
-            botUsername
-          }),
-          afterMessages
+            timeZone: context.config.timeZone,
+            botUsername: context.botUsername
+          })
         )
       )
-      yield* _(handleDecision(config, afterCommands))
+    })
+  )
+
+const runOnce = (
+  context: LoopContext
+): Effect.Effect<void, never, StateStore | TelegramService> =>
+  logAndIgnore(
+    Effect.gen(function*(_) {
+      const telegram = yield* _(TelegramService)
+      const stateStore = yield* _(StateStore)
+      const current = yield* _(stateStore.get)
+      const updates = yield* _(telegram.getUpdates(current.updateOffset, longPollSeconds))
+      yield* _(processUpdates(context, updates))
     })
   )
 
 const loop = (
+  context: LoopContext
+): Effect.Effect<void, never, StateStore | TelegramService> =>
+  Effect.gen(function*(_) {
+    const telegram = yield* _(TelegramService)
+    yield* _(logAndIgnore(telegram.deleteWebhook))
+    yield* _(pipe(runOnce(context), Effect.forever))
+  })
+
+// CHANGE: receive updates through a Telegram webhook instead of long polling
+// WHY: webhooks avoid a permanently open long poll and suit hosted deployments
+// QUOTE(TZ): "We want a webhook mode: an HTTP server that receives Telegram updates"
+// REF: user-011-webhook-mode
+// SOURCE: https://core.telegram.org/bots/api#setwebhook
+// FORMAT THEOREM: forall u: acknowledged(u) -> processUpdates([u]) completed and its state was saved
+// PURITY: SHELL
+// EFFECT: Effect<void, never, StateStore | TelegramService | HttpServer | Scope>
+// INVARIANT: delivery is at-least-once: a failed update answers 500 and Telegram sends it again, so a crash
+// before the reply never loses it; each update runs under the state lock, one at a time
+// COMPLEXITY: O(n)/O(n)
+const webhookLoop = (
+  context: LoopContext,
+  webhook: WebhookConfig
+): Effect.Effect<void, never, StateStore | TelegramService | HttpServer.HttpServer | Scope.Scope> =>
+  Effect.gen(function*(_) {
+    const telegram = yield* _(TelegramService)
+    yield* _(
+      serveWebhook(webhook, (update) =>
+        pipe(
+          processUpdates(context, [update]),
+          Effect.tapError((error) => Effect.logError(formatError(error)))
+        ))
+    )
+    yield* _(Effect.logInfo(logWebhookListening(webhook.port, webhook.path)))
+    yield* _(logAndIgnore(telegram.setWebhook(webhook.url, webhook.secretToken)))
+    yield* _(Effect.never)
+  })
+
+const runUpdates = (
+  context: LoopContext
+): Effect.Effect<void, ServeError, StateStore | TelegramService | Scope.Scope> =>
+  Match.value(context.config.updateSource).pipe(
+    Match.when({ kind: "polling" }, () => loop(context)),
+    Match.when({ kind: "webhook" }, ({ webhook }) =>
+      pipe(
+        webhookLoop(context, webhook),
+        Effect.provide(NodeHttpServer.layer(() => createServer(), { port: webhook.port }))
+      )),
+    Match.exhaustive
+  )
+
+// CHANGE: run the scheduler fiber next to the update loop
+// WHY: schedule decisions must not wait for Telegram traffic
+// QUOTE(TZ): "We want a separate scheduler fiber"
+// REF: user-012-scheduler-fiber
+// SOURCE: n/a
+// FORMAT THEOREM: forall t: scheduler ∥ updates, both serialized by stateLock
+// PURITY: SHELL
+// EFFECT: Effect<void, ServeError, StateStore | TelegramService | Scope>
+// INVARIANT: the scheduler fiber is interrupted when the runtime scope closes
+// COMPLEXITY: O(1)/O(1)
+const runBot = (
   config: Config,
   botUsername?: string
-): Effect.Effect<void, never, StateStore | TelegramService> =>
-  pipe(runOnce(config, botUsername), Effect.forever, Effect.asVoid)
+): Effect.Effect<void, ServeError, StateStore | TelegramService | Scope.Scope> =>
+  Effect.gen(function*(_) {
+    const stateLock = yield* _(Effect.makeSemaphore(1))
+    yield* _(Effect.forkScoped(runScheduler(config, stateLock)))
+    yield* _(runUpdates({ config, stateLock, botUsername }))
+  })
 
 const resolveBotUsername = (
   telegram: TelegramServiceShape
@@ -161,7 +190,7 @@ const buildRuntime = (
       const telegramService = makeTelegramService(config.token)
       const botUsername = yield* _(resolveBotUsername(telegramService))
       yield* _(
-        loop(config, botUsername).pipe(
+        runBot(config, botUsername).pipe(
           Effect.provideService(StateStore, stateStore),
           Effect.provideService(TelegramService, telegramService)
         )
@@ -0,0 +1,90 @@
+import { Effect, pipe } from "effect"
+
+import { ChatId } from "../core/brand.js"
+import type { BotState, Participant, RoundTarget } from "../core/domain.js"
+import { memberLanguage } from "../core/language.js"
+import { applyRematchAction } from "../core/rematch.js"
+import { logDirectMessageFailed, logRoundRematched } from "../core/text-log.js"
+import { formatRematchDropped, formatRematchReply } from "../core/text-rematch.js"
+import type { CallbackQuery } from "../core/updates.js"
+import type { TelegramServiceShape } from "../shell/telegram.js"
+import { sendDirectPairingMessages } from "./actions.js"
+
+const sendDirectMessage = (
+  telegram: TelegramServiceShape,
+  chatId: ChatId,
+  text: string
+): Effect.Effect<void> =>
+  pipe(
+    telegram.sendMessage(chatId, text),
+    Effect.tapError(() => Effect.logWarning(logDirectMessageFailed(chatId))),
+    Effect.catchAll(() => Effect.void)
+  )
+
+const notifyDropped = (
+  state: BotState,
+  target: RoundTarget,
+  presser: Participant,
+  dropped: Participant | null,
+  telegram: TelegramServiceShape
+): Effect.Effect<void> =>
+  dropped
+    ? sendDirectMessage(
+      telegram,
+      ChatId(`${dropped.id}`),
+      formatRematchDropped(
+        memberLanguage(state, dropped.id, target.chatId),
+        presser,
+        state.chats[target.chatId]?.title ?? null
+      )
+    )
+    : Effect.void
+
+// CHANGE: re-pair the member whose partner cancelled, introduce the new groups and notify the dropped partner
+// WHY: keep the new pairing even when some of the DMs cannot be delivered
+// QUOTE(TZ): "Pressing it re-pairs the affected participants with other cancelled people or with the round's leftovers"
+// REF: user-020-rematch-cancelled
+// SOURCE: n/a
+// FORMAT THEOREM: forall c,t: state' = applyRematchAction(state, t, from(c)).state
+// PURITY: SHELL
+// EFFECT: Effect<BotState, never, never>
+// INVARIANT: callbacks without a sender leave state unchanged; every new group member gets a pairing DM and the
+// dropped partner learns that the meeting is cancelled
+// COMPLEXITY: O(n^3)/O(n^2)
+export const handleRematchCallback = (
+  state: BotState,
+  callback: CallbackQuery,
+  target: RoundTarget,
+  telegram: TelegramServiceShape
+): Effect.Effect<BotState> => {
+  if (!callback.from) {
+    return Effect.succeed(state)
+  }
+  const presser = callback.from
+  const userId = presser.id
+  const outcome = applyRematchAction(state, target, userId)
+  const chat = outcome.state.chats[target.chatId]
+  return pipe(
+    sendDirectMessage(
+      telegram,
+      callback.chatId,
+      formatRematchReply(memberLanguage(state, userId, target.chatId), outcome.reply)
+    ),
+    Effect.zipRight(notifyDropped(state, target, presser, outcome.dropped, telegram)),
+    Effect.zipRight(
+      sendDirectPairingMessages(outcome.assignments, {
+        telegram,
+        profiles: outcome.state.profiles,
+        userLanguages: outcome.state.userLanguages,
+        chatLanguage: chat?.language ?? null,
+        chatTitle: chat?.title ?? null,
+        chatInviteLink: chat?.inviteLink ?? null,
+        round: target,
+        summaryLink: null,
+        calledIn: null
+      })
+    ),
+    Effect.tap(() => Effect.logInfo(logRoundRematched(target.chatId, userId, outcome.reply))),
+    Effect.as(outcome.state)
+  )
+}
@@ -0,0 +1,114 @@
+import { Effect, pipe } from "effect"
+
+import { ChatId, type LocalDateString } from "../core/brand.js"
+import type { BotState, RoundRecord, RoundTarget, Weekday } from "../core/domain.js"
+import { memberLanguage } from "../core/language.js"
+import {
+  applyArrangedAction,
+  dueReminderRound,
+  encodeArrangedAction,
+  markReminderSent,
+  type OrganizerReminder,
+  organizerReminders
+} from "../core/reminders.js"
+import { logDirectMessageFailed, logRemindersSent } from "../core/text-log.js"
+import { arrangedButtonLabel, formatArrangedReply, formatMeetingReminder } from "../core/text-reminders.js"
+import type { CallbackQuery } from "../core/updates.js"
+import type { StateStoreError, StateStoreShape } from "../shell/state-store.js"
+import type { TelegramServiceShape } from "../shell/telegram.js"
+
+type ReminderContext = {
+  readonly state: BotState
+  readonly chatId: ChatId
+  readonly today: LocalDateString
+  readonly weekday: Weekday
+  readonly telegram: TelegramServiceShape
+  readonly stateStore: StateStoreShape
+}
+
+const sendReminderBestEffort = (
+  reminder: OrganizerReminder,
+  round: RoundRecord,
+  target: RoundTarget,
+  context: ReminderContext
+): Effect.Effect<void> => {
+  const chatId = ChatId(`${reminder.organizer.id}`)
+  const language = memberLanguage(context.state, reminder.organizer.id, target.chatId)
+  return pipe(
+    context.telegram.sendMessageWithKeyboard(
+      chatId,
+      formatMeetingReminder(
+        language,
+        context.state.chats[target.chatId]?.title ?? null,
+        round.summaryDate,
+        reminder.partners
+      ),
+      { inline_keyboard: [[{ text: arrangedButtonLabel(language), callback_data: encodeArrangedAction(target) }]] }
+    ),
+    Effect.tapError(() => Effect.logWarning(logDirectMessageFailed(chatId))),
+    Effect.catchAll(() => Effect.void)
+  )
+}
+
+// CHANGE: remind organizers of unconfirmed meetings on the chat's reminder day
+// WHY: after the summary DMs nothing else happens, and some meetings are never scheduled
+// QUOTE(TZ): "It should DM organizers who haven't marked the meeting as arranged"
+// REF: user-019-organizer-reminders
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: due(c) -> reminded(state') ∧ |DMs| = |{g in round : ¬g.arranged}|
+// PURITY: SHELL
+// EFFECT: Effect<BotState, StateStoreError, never>
+// INVARIANT: the round is marked as reminded before any DM goes out, so a restart never repeats the reminder
+// COMPLEXITY: O(n)/O(n)
+export const sendDueReminders = (context: ReminderContext): Effect.Effect<BotState, StateStoreError> => {
+  const chat = context.state.chats[context.chatId]
+  const roundIndex = chat ? dueReminderRound(chat, context.today, context.weekday) : null
+  const round = roundIndex === null ? undefined : chat?.rounds[roundIndex]
+  if (!chat || roundIndex === null || !round) {
+    return Effect.succeed(context.state)
+  }
+  const target = { chatId: context.chatId, roundIndex }
+  const reminders = organizerReminders(round)
+  const nextState = markReminderSent(context.state, target)
+  return pipe(
+    context.stateStore.set(nextState),
+    Effect.zipRight(
+      Effect.forEach(
+        reminders,
+        (reminder) => sendReminderBestEffort(reminder, round, target, context),
+        { discard: true }
+      )
+    ),
+    Effect.tap(() => Effect.logInfo(logRemindersSent(context.chatId, round.summaryDate, reminders.length))),
+    Effect.as(nextState)
+  )
+}
+
+// CHANGE: record the "we've scheduled it" button and acknowledge it privately
+// WHY: keep the confirmation even when the acknowledgement cannot be delivered
+// QUOTE(TZ): "with a one-tap \"we've scheduled it\" button"
+// REF: user-019-organizer-reminders
+// SOURCE: n/a
+// FORMAT THEOREM: forall c,t: state' = applyArrangedAction(state, t, from(c)).state
+// PURITY: SHELL
+// EFFECT: Effect<BotState, never, never>
+// INVARIANT: callbacks without a sender leave state unchanged
+// COMPLEXITY: O(n)/O(n)
+export const handleArrangedCallback = (
+  state: BotState,
+  callback: CallbackQuery,
+  target: RoundTarget,
+  telegram: TelegramServiceShape
+): Effect.Effect<BotState> => {
+  if (!callback.from) {
+    return Effect.succeed(state)
+  }
+  const outcome = applyArrangedAction(state, target, callback.from.id)
+  const language = memberLanguage(state, callback.from.id, target.chatId)
+  return pipe(
+    telegram.sendMessage(callback.chatId, formatArrangedReply(language, outcome.reply)),
+    Effect.tapError(() => Effect.logWarning(logDirectMessageFailed(callback.chatId))),
+    Effect.catchAll(() => Effect.void),
+    Effect.as(outcome.state)
+  )
+}
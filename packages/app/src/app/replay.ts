@@ -0,0 +1,50 @@
+import { Data, Effect, pipe } from "effect"
+
+import { logReplayNoBaseline, logReplayResult } from "../core/text-log.js"
+import { loadConfig } from "../shell/config.js"
+import { DrizzleService, makeDrizzleService } from "../shell/drizzle.js"
+import { type ReplayReport, replayStoredEvents, StateStoreError } from "../shell/state-store.js"
+
+export class ReplayMismatchError extends Data.TaggedError("ReplayMismatchError")<{
+  readonly message: string
+}> {}
+
+const reportReplay = (report: ReplayReport): Effect.Effect<void, ReplayMismatchError> => {
+  if (report.kind === "noBaseline") {
+    return Effect.logWarning(logReplayNoBaseline())
+  }
+  const message = logReplayResult(report.events, report.mismatches)
+  return report.mismatches.length === 0
+    ? Effect.logInfo(message)
+    : Effect.fail(new ReplayMismatchError({ message }))
+}
+
+// CHANGE: replay the event log against the stored snapshot and report the result
+// WHY: audit a wrong-looking pair without guessing which transitions produced it
+// QUOTE(TZ): "We also want a replay tool that rebuilds `BotState` from the events and checks it matches the stored snapshot."
+// REF: user-014-event-log
+// SOURCE: n/a
+// FORMAT THEOREM: forall db: exit(replay(db)) = 0 ⇔ replay(log) matches snapshot
+// PURITY: SHELL
+// EFFECT: Effect<void, ConfigError | StateStoreError | ReplayMismatchError, FileSystem | Path>
+// INVARIANT: the database is only read
+// COMPLEXITY: O(n)/O(n)
+export const replayProgram = pipe(
+  loadConfig,
+  Effect.flatMap((config) =>
+    Effect.scoped(
+      Effect.gen(function*(_) {
+        const drizzleService = yield* _(
+          pipe(
+            makeDrizzleService(config.databaseUrl),
+            Effect.mapError((error) => new StateStoreError({ message: error.message }))
+          )
+        )
+        const report = yield* _(
+          pipe(replayStoredEvents(), Effect.provideService(DrizzleService, drizzleService))
+        )
+        yield* _(reportReplay(report))
+      })
+    )
+  )
+)
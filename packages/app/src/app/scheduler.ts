@@ -0,0 +1,142 @@
+import { Clock, Duration, Effect, Match, pipe, Schedule } from "effect"
+
+import { ChatId } from "../core/brand.js"
+import type { BotState, ChatState } from "../core/domain.js"
+import { decideSchedule, formatLocalDate, type ZonedTime } from "../core/schedule.js"
+import { logScheduleDecision } from "../core/text-log.js"
+import type { Config } from "../shell/config.js"
+import { StateStore, type StateStoreError, type StateStoreShape } from "../shell/state-store.js"
+import { type TelegramError, TelegramService, type TelegramServiceShape } from "../shell/telegram.js"
+import { getChatZonedDate } from "../shell/time.js"
+import { createPoll, summarize } from "./actions.js"
+import { logAndFallback, logAndIgnore } from "./error-logging.js"
+import { requestDueFeedback } from "./feedback.js"
+import { sendDueReminders } from "./reminders.js"
+
+// Poll and summary times are configured in minutes, so a one-minute tick is precise enough.
+export const schedulerInterval = Duration.minutes(1)
+
+type DecisionContext = {
+  readonly state: BotState
+  readonly chatId: ChatId
+  readonly chat: ChatState
+  readonly telegram: TelegramServiceShape
+  readonly stateStore: StateStoreShape
+}
+
+const handleDecisionEffect = (
+  decision: ReturnType<typeof decideSchedule>,
+  context: DecisionContext
+): Effect.Effect<BotState, TelegramError | StateStoreError> =>
+  Match.value(decision).pipe(
+    Match.when({ kind: "createPoll" }, (value) =>
+      createPoll({
+        ...context,
+        summaryDate: value.summaryDate
+      })),
+    Match.when({ kind: "summarize" }, (value) =>
+      summarize({
+        ...context,
+        summaryDate: value.summaryDate
+      })),
+    Match.when({ kind: "noop" }, () => Effect.succeed(context.state)),
+    Match.exhaustive
+  )
+
+// Feedback surveys and organizer reminders follow the latest round on their own days.
+const runRoundFollowUps = (
+  context: DecisionContext,
+  zoned: ZonedTime
+): Effect.Effect<BotState, StateStoreError> => {
+  const today = formatLocalDate(zoned.parts)
+  return pipe(
+    requestDueFeedback({ ...context, today }),
+    Effect.flatMap((state) => sendDueReminders({ ...context, state, today, weekday: zoned.weekday }))
+  )
+}
+
+const handleDecision = (
+  config: Config,
+  state: BotState
+): Effect.Effect<BotState, never, StateStore | TelegramService> =>
+  logAndFallback(
+    Effect.gen(function*(_) {
+      const now = new Date(yield* _(Clock.currentTimeMillis))
+      const telegram = yield* _(TelegramService)
+      const stateStore = yield* _(StateStore)
+
+      let updated = state
+      for (const [chatId] of Object.entries(state.chats)) {
+        const current = updated.chats[chatId]
+        if (!current) {
+          continue
+        }
+        const zoned = yield* _(getChatZonedDate(current.timeZone, config.timeZone, now))
+        const decision = decideSchedule(current, zoned)
+        yield* _(
+          Effect.logInfo(
+            logScheduleDecision(ChatId(chatId), decision)
+          )
+        )
+        updated = yield* _(
+          handleDecisionEffect(decision, {
+            state: updated,
+            chatId: ChatId(chatId),
+            chat: current,
+            telegram,
+            stateStore
+          })
+        )
+        updated = yield* _(
+          runRoundFollowUps({ state: updated, chatId: ChatId(chatId), chat: current, telegram, stateStore }, zoned)
+        )
+      }
+
+      return updated
+    }),
+    state
+  )
+
+// CHANGE: evaluate the schedule of every chat once
+// WHY: the scheduler runs independently of incoming Telegram traffic
+// QUOTE(TZ): "a separate scheduler fiber ... that evaluates `decideSchedule` for all chats at a fixed interval"
+// REF: user-012-scheduler-fiber
+// SOURCE: n/a
+// FORMAT THEOREM: forall s: tick(s) = fold(decide, s, chats(s))
+// PURITY: SHELL
+// EFFECT: Effect<void, never, StateStore | TelegramService>
+// INVARIANT: the whole read-decide-write cycle holds the state lock
+// COMPLEXITY: O(n)/O(n)
+export const runScheduleTick = (
+  config: Config,
+  stateLock: Effect.Semaphore
+): Effect.Effect<void, never, StateStore | TelegramService> =>
+  stateLock.withPermits(1)(
+    logAndIgnore(
+      Effect.gen(function*(_) {
+        const stateStore = yield* _(StateStore)
+        const state = yield* _(stateStore.get)
+        yield* _(handleDecision(config, state))
+      })
+    )
+  )
+
+// CHANGE: run the schedule tick at a fixed interval
+// WHY: poll and summary timing must not depend on the long-poll timeout or on webhook traffic
+// QUOTE(TZ): "This makes the timing predictable and keeps it working in webhook mode."
+// REF: user-012-scheduler-fiber
+// SOURCE: https://effect.website/docs/scheduling/built-in-schedules/#spaced
+// FORMAT THEOREM: forall t: ticks(t) = 1 + floor(t / interval)
+// PURITY: SHELL
+// EFFECT: Effect<void, never, StateStore | TelegramService>
+// INVARIANT: a failing tick is logged and the next tick still runs
+// COMPLEXITY: O(n)/O(n) per tick
+export const runScheduler = (
+  config: Config,
+  stateLock: Effect.Semaphore
+): Effect.Effect<void, never, StateStore | TelegramService> =>
+  pipe(
+    runScheduleTick(config, stateLock),
+    Effect.repeat(Schedule.spaced(schedulerInterval)),
+    Effect.asVoid
+  )
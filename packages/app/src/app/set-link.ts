@@ -2,8 +2,10 @@ import { Effect, pipe } from "effect"
 
 import type { ChatId } from "../core/brand.js"
 import type { BotState } from "../core/domain.js"
+import { groupLanguage } from "../core/language.js"
 import { parseTelegramChatLink } from "../core/links.js"
 import { setChatInviteLink } from "../core/state.js"
+import { commandArgument } from "../core/telegram-commands.js"
 import { replySetLinkInvalid, replySetLinkSaved } from "../core/text.js"
 import type { StateStoreError, StateStoreShape } from "../shell/state-store.js"
 import type { TelegramError, TelegramServiceShape } from "../shell/telegram.js"
@@ -18,11 +20,6 @@ type SetLinkContext = {
   readonly replyThreadId?: number | undefined
 }
 
-const extractCommandArg = (text: string): string | null => {
-  const tokens = text.trim().split(/\s+/)
-  return tokens.length >= 2 ? tokens[1] ?? null : null
-}
-
 // CHANGE: store a manual invite link for the leaderboard
 // WHY: allow groups without usernames to appear with a join link
 // QUOTE(TZ): "должна быть ссылка на группу"
@@ -36,13 +33,13 @@ const extractCommandArg = (text: string): string | null => {
 export const handleSetLink = (
   context: SetLinkContext
 ): Effect.Effect<BotState, TelegramError | StateStoreError> => {
-  const arg = extractCommandArg(context.commandText)
+  const arg = commandArgument(context.commandText)
   const parsed = arg ? parseTelegramChatLink(arg) : null
   if (!parsed) {
     return pipe(
       context.telegram.sendMessage(
         context.chatId,
-        replySetLinkInvalid(),
+        replySetLinkInvalid(groupLanguage(context.chat)),
         context.replyThreadId ?? context.chat.threadId ?? undefined
       ),
       Effect.as(context.state)
@@ -54,7 +51,7 @@ export const handleSetLink = (
     Effect.zipRight(
       context.telegram.sendMessage(
         context.chatId,
-        replySetLinkSaved(),
+        replySetLinkSaved(groupLanguage(context.chat)),
         context.replyThreadId ?? context.chat.threadId ?? undefined
       )
     ),
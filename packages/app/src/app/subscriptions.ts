@@ -0,0 +1,207 @@
+import { Effect, Match, pipe } from "effect"
+
+import type { ChatId } from "../core/brand.js"
+import type { BotState, ChatState, Language, Participant, Weekday } from "../core/domain.js"
+import { groupLanguage, memberLanguage } from "../core/language.js"
+import { type LocalDateParts, nextRosterSummaryDate } from "../core/schedule.js"
+import {
+  encodeSubscriptionAction,
+  findSubscription,
+  listSubscriptionChats,
+  parseSkipDate,
+  skipRound,
+  subscribe,
+  type SubscriptionAction,
+  type SubscriptionChat,
+  unsubscribe
+} from "../core/subscriptions.js"
+import { commandArgument } from "../core/telegram-commands.js"
+import {
+  formatSubscriptionButtonReply,
+  formatSubscriptionReply,
+  formatSubscriptionsMenu,
+  replySkipSaved,
+  replySkipUsage,
+  subscriptionButtonLabel
+} from "../core/text-subscriptions.js"
+import type { StateStoreError, StateStoreShape } from "../shell/state-store.js"
+import type { InlineKeyboard, TelegramError, TelegramServiceShape } from "../shell/telegram.js"
+import { type PrivateRequest, requestLanguage } from "./exclusions.js"
+
+export type SubscriptionCommand = "/subscribe" | "/unsubscribe" | "/skip"
+
+export type SubscriptionCommandContext = {
+  readonly state: BotState
+  readonly chatId: ChatId
+  readonly chat: ChatState
+  readonly actor: Participant
+  readonly todayParts: LocalDateParts
+  readonly weekday: Weekday
+  readonly commandText: string
+  readonly telegram: TelegramServiceShape
+  readonly stateStore: StateStoreShape
+  readonly messageThreadId?: number | undefined
+}
+
+export type SubscriptionOutcome = {
+  readonly state: BotState
+  readonly reply: string
+}
+
+const notSubscribed = (context: SubscriptionCommandContext, language: Language): SubscriptionOutcome => ({
+  state: context.state,
+  reply: formatSubscriptionReply(language, "notSubscribed", context.actor)
+})
+
+const subscribeActor = (context: SubscriptionCommandContext, language: Language): SubscriptionOutcome => ({
+  state: subscribe(context.state, context.chatId, context.actor),
+  reply: formatSubscriptionReply(language, "subscribed", context.actor)
+})
+
+const unsubscribeActor = (context: SubscriptionCommandContext, language: Language): SubscriptionOutcome =>
+  findSubscription(context.chat, context.actor.id) === null
+    ? notSubscribed(context, language)
+    : {
+      state: unsubscribe(context.state, context.chatId, context.actor.id),
+      reply: formatSubscriptionReply(language, "unsubscribed", context.actor)
+    }
+
+const skipActorRound = (context: SubscriptionCommandContext, language: Language): SubscriptionOutcome => {
+  if (findSubscription(context.chat, context.actor.id) === null) {
+    return notSubscribed(context, language)
+  }
+  const nextSummaryDate = nextRosterSummaryDate(context.todayParts, context.weekday, context.chat)
+  const date = parseSkipDate(commandArgument(context.commandText), nextSummaryDate)
+  return date === null
+    ? { state: context.state, reply: replySkipUsage(language, nextSummaryDate) }
+    : {
+      state: skipRound(context.state, context.chatId, context.actor.id, date),
+      reply: replySkipSaved(language, context.actor, date)
+    }
+}
+
+// CHANGE: apply a member's subscription command from the group
+// WHY: members join, leave or sit out rounds of a subscription chat without an admin
+// QUOTE(TZ): "users subscribe once and stay in the pool, through a DM button or a group command"
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: c.chat.mode = poll -> outcome(c).state = c.state
+// PURITY: CORE
+// INVARIANT: commands only touch the roster entry of the member who sent them
+// COMPLEXITY: O(n)/O(n)
+export const applySubscriptionCommand = (
+  command: SubscriptionCommand,
+  context: SubscriptionCommandContext
+): SubscriptionOutcome => {
+  const language = groupLanguage(context.chat)
+  if (context.chat.mode === "poll") {
+    return { state: context.state, reply: formatSubscriptionReply(language, "pollMode", context.actor) }
+  }
+  return Match.value(command).pipe(
+    Match.when("/subscribe", () => subscribeActor(context, language)),
+    Match.when("/unsubscribe", () => unsubscribeActor(context, language)),
+    Match.when("/skip", () => skipActorRound(context, language)),
+    Match.exhaustive
+  )
+}
+
+// CHANGE: run a member's subscription command and answer in the group
+// WHY: the member sees right away whether they are on the roster
+// QUOTE(TZ): "They can skip specific weeks or unsubscribe."
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: state' = applySubscriptionCommand(c).state
+// PURITY: SHELL
+// EFFECT: Effect<BotState, TelegramError | StateStoreError, never>
+// INVARIANT: state is persisted only when the roster changed
+// COMPLEXITY: O(n)/O(n)
+export const handleSubscriptionCommand = (
+  command: SubscriptionCommand,
+  context: SubscriptionCommandContext
+): Effect.Effect<BotState, TelegramError | StateStoreError> => {
+  const outcome = applySubscriptionCommand(command, context)
+  const persist = outcome.state === context.state ? Effect.void : context.stateStore.set(outcome.state)
+  return pipe(
+    persist,
+    Effect.zipRight(
+      context.telegram.sendMessage(
+        context.chatId,
+        outcome.reply,
+        context.messageThreadId ?? context.chat.threadId ?? undefined
+      )
+    ),
+    Effect.as(outcome.state)
+  )
+}
+
+const subscriptionButton = (language: Language, entry: SubscriptionChat) => [{
+  text: subscriptionButtonLabel(language, entry),
+  callback_data: encodeSubscriptionAction({ kind: entry.subscribed ? "leave" : "join", chatId: entry.chatId })
+}]
+
+const buildSubscriptionsKeyboard = (
+  language: Language,
+  entries: ReadonlyArray<SubscriptionChat>
+): InlineKeyboard => ({
+  inline_keyboard: entries.map((entry) => subscriptionButton(language, entry))
+})
+
+// CHANGE: show the member's subscription chats with join and leave buttons
+// WHY: members manage their subscriptions privately, next to the profile buttons
+// QUOTE(TZ): "users subscribe once and stay in the pool, through a DM button or a group command"
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall r: buttons(menu(r)) = listSubscriptionChats(state, r.from)
+// PURITY: SHELL
+// EFFECT: Effect<void, TelegramError, never>
+// INVARIANT: only chats in subscription mode are listed
+// COMPLEXITY: O(n)/O(n)
+export const sendSubscriptionsMenu = (
+  state: BotState,
+  request: PrivateRequest,
+  telegram: TelegramServiceShape
+): Effect.Effect<void, TelegramError> => {
+  const entries = request.from === undefined ? [] : listSubscriptionChats(state, request.from.id)
+  const language = requestLanguage(state, request)
+  const text = formatSubscriptionsMenu(language, entries.length)
+  const send = entries.length === 0
+    ? telegram.sendMessage(request.chatId, text, request.messageThreadId)
+    : telegram.sendMessageWithKeyboard(
+      request.chatId,
+      text,
+      buildSubscriptionsKeyboard(language, entries),
+      request.messageThreadId
+    )
+  return Effect.asVoid(send)
+}
+
+// CHANGE: apply a subscription button press from a private chat
+// WHY: one tap joins or leaves the roster of a subscription chat
+// QUOTE(TZ): "users subscribe once and stay in the pool, through a DM button or a group command"
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall p,a: a.kind = join ∧ valid(a) -> p in roster(state'.chats[a.chatId])
+// PURITY: CORE
+// INVARIANT: buttons of poll chats or of an already applied action reply without changing state
+// COMPLEXITY: O(n)/O(n)
+export const applySubscriptionAction = (
+  state: BotState,
+  participant: Participant,
+  action: SubscriptionAction
+): SubscriptionOutcome => {
+  const chat = state.chats[action.chatId]
+  const language = memberLanguage(state, participant.id, action.chatId)
+  const subscribed = findSubscription(chat, participant.id) !== null
+  if (!chat || chat.mode !== "subscription" || subscribed === (action.kind === "join")) {
+    return { state, reply: formatSubscriptionButtonReply(language, "outdated", chat?.title ?? null) }
+  }
+  return action.kind === "join"
+    ? {
+      state: subscribe(state, action.chatId, participant),
+      reply: formatSubscriptionButtonReply(language, "joined", chat.title)
+    }
+    : {
+      state: unsubscribe(state, action.chatId, participant.id),
+      reply: formatSubscriptionButtonReply(language, "left", chat.title)
+    }
+}
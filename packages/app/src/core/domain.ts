@@ -1,24 +1,76 @@
 import type { ChatId, LocalDateString, MessageId, PairKey, PollId, RngSeed, UserId } from "./brand.js"
+import type { BotEvent } from "./events.js"
 
 export type ChatType = "private" | "group" | "supergroup"
 
+export type Weekday = "Mon" | "Tue" | "Wed" | "Thu" | "Fri" | "Sat" | "Sun"
+
+export type RoundFrequency = "weekly" | "biweekly" | "monthly"
+
+export type Language = "en" | "ru"
+
+export type WeeklySchedule = {
+  readonly pollDay: Weekday
+  readonly summaryDay: Weekday
+}
+
+// Times are minutes after local midnight in the chat time zone.
+export type ScheduleTimes = {
+  readonly pollTime: number
+  readonly summaryTime: number
+}
+
+export type MeetingFormat = "offline" | "online" | "any"
+
 export type Participant = {
   readonly id: UserId
   readonly firstName: string
   readonly lastName?: string | undefined
   readonly username?: string | undefined
+  // Format picked in the poll; members without one meet in either format.
+  readonly meetingFormat?: MeetingFormat | undefined
+  // Signed up only in case someone needs a partner.
+  readonly standby?: boolean | undefined
 }
 
 export type ParticipantsById = Readonly<Record<string, Participant>>
 
-export type UserProfile = {
+// Poll chats sign members up every round; subscription chats pair a standing roster.
+export type ChatMode = "poll" | "subscription"
+
+export type Subscription = {
+  readonly participant: Participant
+  // Summary dates of the rounds the member sits out.
+  readonly skippedDates: ReadonlyArray<LocalDateString>
+}
+
+// Subscribed members of a chat, keyed by user id.
+export type Subscriptions = Readonly<Record<string, Subscription>>
+
+export type ProfileFields = {
+  readonly occupation: string | null
+  readonly interests: string | null
+  readonly hooks: string | null
+  readonly city: string | null
+  readonly languages: string | null
+  readonly meetingFormat: MeetingFormat | null
+}
+
+export type ProfileField = keyof ProfileFields
+
+export type UserProfile = ProfileFields & {
   readonly userId: UserId
-  readonly text: string
+  readonly about: string | null
 }
 
 export type UserProfiles = Readonly<Record<string, UserProfile>>
 
-export type PendingProfileEdits = Readonly<Record<string, true>>
+export type ProfileDraft = {
+  readonly step: ProfileField
+  readonly fields: ProfileFields
+}
+
+export type PendingProfileEdits = Readonly<Record<string, ProfileDraft>>
 
 export type PollState = {
   readonly pollId: PollId
@@ -26,9 +78,29 @@ export type PollState = {
   readonly chatId: ChatId
   readonly summaryDate: LocalDateString
   readonly threadId: number | null
+  // Index of the option that signs a member up, fixed when the poll is sent.
+  readonly joinOption: number
+  // Formats of the sign-up options starting at joinOption; a plain yes/no poll offers only "any".
+  readonly formats: ReadonlyArray<MeetingFormat>
+  // Index of the standby option, or null when the poll has none.
+  readonly standbyOption: number | null
+}
+
+// Custom poll wording of a chat; joinOption is the index of the option that means participation.
+export type PollWording = {
+  readonly question: string
+  readonly options: ReadonlyArray<string>
+  readonly joinOption: number
+}
+
+export type Exclusion = {
+  readonly requesterId: UserId
+  readonly excluded: Participant
 }
 
-export type PairHistory = Readonly<Record<PairKey, number>>
+export type Exclusions = Readonly<Record<string, Exclusion>>
+
+export type PairHistory = Readonly<Record<PairKey, ReadonlyArray<LocalDateString>>>
 
 export type Pairing =
   | {
@@ -40,6 +112,42 @@ export type Pairing =
     readonly members: readonly [Participant, Participant, Participant]
   }
 
+export type MeetingRating = "great" | "ok" | "bad"
+
+// One member's answer to the post-meeting survey about their own group.
+export type FeedbackAnswer = {
+  readonly userId: UserId
+  readonly met: boolean
+  readonly rating: MeetingRating | null
+  readonly comment: string | null
+}
+
+export type RoundGroup = Pairing & {
+  readonly organizerId: UserId
+  readonly feedback: ReadonlyArray<FeedbackAnswer>
+  // Set once the organizer confirms the meeting has been scheduled.
+  readonly arranged: boolean
+}
+
+export type RoundRecord = {
+  readonly summaryDate: LocalDateString
+  readonly groups: ReadonlyArray<RoundGroup>
+  readonly leftovers: ReadonlyArray<Participant>
+  readonly feedbackRequested: boolean
+  readonly reminderSent: boolean
+}
+
+// A round is identified by its position in the chat's append-only round archive.
+export type RoundTarget = {
+  readonly chatId: ChatId
+  readonly roundIndex: number
+}
+
+export type PendingFeedbackComments = Readonly<Record<string, RoundTarget>>
+
+// Language of a member's private chat with the bot, keyed by user id.
+export type UserLanguages = Readonly<Record<string, Language>>
+
 export type ChatState = {
   readonly poll: PollState | null
   readonly participants: ParticipantsById
@@ -49,6 +157,23 @@ export type ChatState = {
   readonly title: string | null
   readonly inviteLink: string | null
   readonly lastSummaryAt: LocalDateString | null
+  readonly allowTriples: boolean
+  readonly historyHalfLifeWeeks: number | null
+  readonly exclusions: Exclusions
+  readonly schedule: WeeklySchedule
+  readonly scheduleTimes: ScheduleTimes
+  readonly roundFrequency: RoundFrequency
+  readonly timeZone: string | null
+  // Weekday of the organizer reminder; null turns reminders off.
+  readonly reminderDay: Weekday | null
+  // Language of group messages and the default for members' DMs; null keeps the bot defaults.
+  readonly language: Language | null
+  // Question and options of the chat's polls; null uses the catalog wording of the chat language.
+  readonly pollWording: PollWording | null
+  // How members join rounds: weekly poll votes or a standing subscription.
+  readonly mode: ChatMode
+  readonly subscriptions: Subscriptions
+  readonly rounds: ReadonlyArray<RoundRecord>
 }
 
 export type ChatStates = Readonly<Record<string, ChatState>>
@@ -62,6 +187,10 @@ export type BotState = {
   readonly seed: RngSeed
   readonly profiles: UserProfiles
   readonly pendingProfileEdits: PendingProfileEdits
+  readonly pendingFeedbackComments: PendingFeedbackComments
+  readonly userLanguages: UserLanguages
+  // Events of the transitions applied since the state was loaded; the store appends the unsaved ones to the log.
+  readonly journal: ReadonlyArray<BotEvent>
 }
 
 // CHANGE: provide a pure initializer for bot state
@@ -79,5 +208,8 @@ export const emptyState = (seed: RngSeed): BotState => ({
   updateOffset: 0,
   seed,
   profiles: {},
-  pendingProfileEdits: {}
+  pendingProfileEdits: {},
+  pendingFeedbackComments: {},
+  userLanguages: {},
+  journal: []
 })
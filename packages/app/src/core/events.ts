@@ -0,0 +1,179 @@
+import { Match } from "effect"
+
+import type { ChatId, RngSeed, UserId } from "./brand.js"
+import type {
+  BotState,
+  ChatMode,
+  Exclusion,
+  FeedbackAnswer,
+  Language,
+  Participant,
+  PollState,
+  PollWording,
+  RoundFrequency,
+  RoundRecord,
+  ScheduleTimes,
+  Subscription,
+  UserProfile,
+  Weekday,
+  WeeklySchedule
+} from "./domain.js"
+import { markFeedbackRequested, recordFeedback } from "./feedback.js"
+import { setChatLanguage, setUserLanguage } from "./language.js"
+import { setPollWording } from "./poll-wording.js"
+import { applyRematch } from "./rematch.js"
+import { markMeetingArranged, markReminderSent, setReminderDay } from "./reminders.js"
+import {
+  addChatExclusion,
+  addVote,
+  applySummary,
+  ensureChat,
+  finishPoll,
+  removeChatExclusion,
+  removeVote,
+  setAllowTriples,
+  setChatInviteLink,
+  setChatTimeZone,
+  setChatTitle,
+  setHistoryHalfLife,
+  setRoundFrequency,
+  setScheduleTimes,
+  setThreadId,
+  setUserProfile,
+  setWeeklySchedule,
+  startPoll
+} from "./state.js"
+import { setChatMode, setSubscription, unsubscribe } from "./subscriptions.js"
+
+type ChatEvent<Kind extends string, Fields> = { readonly kind: Kind; readonly chatId: ChatId } & Fields
+
+export type BotEvent =
+  | { readonly kind: "baseline"; readonly state: BotState }
+  | { readonly kind: "updateOffsetSet"; readonly updateOffset: number }
+  | { readonly kind: "profileSet"; readonly profile: UserProfile }
+  | { readonly kind: "userLanguageSet"; readonly userId: UserId; readonly language: Language | null }
+  | ChatEvent<"commandReceived", { readonly userId: UserId; readonly text: string }>
+  | ChatEvent<"chatAdded", { readonly seed: RngSeed }>
+  | ChatEvent<"chatTitleSet", { readonly title: string }>
+  | ChatEvent<"threadIdSet", { readonly threadId: number | null }>
+  | ChatEvent<"inviteLinkSet", { readonly inviteLink: string | null }>
+  | ChatEvent<"allowTriplesSet", { readonly allowTriples: boolean }>
+  | ChatEvent<"historyHalfLifeSet", { readonly historyHalfLifeWeeks: number | null }>
+  | ChatEvent<"weeklyScheduleSet", { readonly schedule: WeeklySchedule }>
+  | ChatEvent<"scheduleTimesSet", { readonly scheduleTimes: ScheduleTimes }>
+  | ChatEvent<"roundFrequencySet", { readonly roundFrequency: RoundFrequency }>
+  | ChatEvent<"timeZoneSet", { readonly timeZone: string | null }>
+  | ChatEvent<"reminderDaySet", { readonly reminderDay: Weekday | null }>
+  | ChatEvent<"chatLanguageSet", { readonly language: Language | null }>
+  | ChatEvent<"pollWordingSet", { readonly pollWording: PollWording | null }>
+  | ChatEvent<"chatModeSet", { readonly mode: ChatMode }>
+  | ChatEvent<"exclusionAdded", { readonly exclusion: Exclusion }>
+  | ChatEvent<"exclusionRemoved", { readonly requesterId: UserId; readonly excludedId: UserId }>
+  | ChatEvent<"subscriptionSet", { readonly subscription: Subscription }>
+  | ChatEvent<"subscriptionRemoved", { readonly userId: UserId }>
+  | ChatEvent<"pollStarted", { readonly poll: PollState }>
+  | ChatEvent<"voteAdded", { readonly participant: Participant }>
+  | ChatEvent<"voteRemoved", { readonly userId: UserId }>
+  | ChatEvent<
+    "summaryApplied",
+    { readonly round: RoundRecord; readonly seed: RngSeed; readonly pairingSeed: RngSeed }
+  >
+  | ChatEvent<"pollFinished", object>
+  | ChatEvent<"feedbackRequested", { readonly roundIndex: number }>
+  | ChatEvent<"feedbackRecorded", { readonly roundIndex: number; readonly answer: FeedbackAnswer }>
+  | ChatEvent<"reminderSent", { readonly roundIndex: number }>
+  | ChatEvent<"meetingArranged", { readonly roundIndex: number; readonly userId: UserId }>
+  | ChatEvent<
+    "roundRematched",
+    { readonly roundIndex: number; readonly round: RoundRecord; readonly seed: RngSeed; readonly pairingSeed: RngSeed }
+  >
+
+const applyChatSettingEvent = (state: BotState, event: BotEvent): BotState =>
+  Match.value(event).pipe(
+    Match.when({ kind: "chatTitleSet" }, (value) => setChatTitle(state, value.chatId, value.title)),
+    Match.when({ kind: "threadIdSet" }, (value) => setThreadId(state, value.chatId, value.threadId)),
+    Match.when({ kind: "inviteLinkSet" }, (value) => setChatInviteLink(state, value.chatId, value.inviteLink)),
+    Match.when({ kind: "allowTriplesSet" }, (value) => setAllowTriples(state, value.chatId, value.allowTriples)),
+    Match.when(
+      { kind: "historyHalfLifeSet" },
+      (value) => setHistoryHalfLife(state, value.chatId, value.historyHalfLifeWeeks)
+    ),
+    Match.when({ kind: "weeklyScheduleSet" }, (value) => setWeeklySchedule(state, value.chatId, value.schedule)),
+    Match.when({ kind: "scheduleTimesSet" }, (value) => setScheduleTimes(state, value.chatId, value.scheduleTimes)),
+    Match.when({ kind: "roundFrequencySet" }, (value) => setRoundFrequency(state, value.chatId, value.roundFrequency)),
+    Match.when({ kind: "timeZoneSet" }, (value) => setChatTimeZone(state, value.chatId, value.timeZone)),
+    Match.when({ kind: "reminderDaySet" }, (value) => setReminderDay(state, value.chatId, value.reminderDay)),
+    Match.when({ kind: "chatLanguageSet" }, (value) => setChatLanguage(state, value.chatId, value.language)),
+    Match.when({ kind: "pollWordingSet" }, (value) => setPollWording(state, value.chatId, value.pollWording)),
+    Match.when({ kind: "chatModeSet" }, (value) => setChatMode(state, value.chatId, value.mode)),
+    Match.orElse(() => state)
+  )
+
+const applyTransitionEvent = (state: BotState, event: BotEvent): BotState =>
+  Match.value(event).pipe(
+    Match.when({ kind: "baseline" }, (value) => value.state),
+    Match.when({ kind: "updateOffsetSet" }, (value) => ({ ...state, updateOffset: value.updateOffset })),
+    Match.when({ kind: "profileSet" }, (value) => setUserProfile(state, value.profile)),
+    Match.when({ kind: "userLanguageSet" }, (value) => setUserLanguage(state, value.userId, value.language)),
+    Match.when({ kind: "chatAdded" }, (value) => ensureChat(state, value.chatId)),
+    Match.when(
+      { kind: "exclusionAdded" },
+      (value) => addChatExclusion(state, value.chatId, value.exclusion)
+    ),
+    Match.when(
+      { kind: "exclusionRemoved" },
+      (value) => removeChatExclusion(state, value.chatId, value.requesterId, value.excludedId)
+    ),
+    Match.when({ kind: "subscriptionSet" }, (value) => setSubscription(state, value.chatId, value.subscription)),
+    Match.when({ kind: "subscriptionRemoved" }, (value) => unsubscribe(state, value.chatId, value.userId)),
+    Match.when({ kind: "pollStarted" }, (value) => startPoll(state, value.chatId, value.poll)),
+    Match.when({ kind: "voteAdded" }, (value) => addVote(state, value.chatId, value.participant)),
+    Match.when({ kind: "voteRemoved" }, (value) => removeVote(state, value.chatId, value.userId)),
+    Match.when(
+      { kind: "summaryApplied" },
+      (value) => applySummary(state, value.chatId, value.round, value.seed)
+    ),
+    Match.when({ kind: "pollFinished" }, (value) => finishPoll(state, value.chatId)),
+    Match.when({ kind: "feedbackRequested" }, (value) => markFeedbackRequested(state, value)),
+    Match.when({ kind: "feedbackRecorded" }, (value) => recordFeedback(state, value, value.answer)),
+    Match.when({ kind: "reminderSent" }, (value) => markReminderSent(state, value)),
+    Match.when({ kind: "meetingArranged" }, (value) => markMeetingArranged(state, value, value.userId)),
+    Match.when({ kind: "roundRematched" }, (value) => applyRematch(state, value, value.round, value.seed)),
+    Match.orElse((value) => applyChatSettingEvent(state, value))
+  )
+
+// CHANGE: apply one logged event to the bot state
+// WHY: every event is replayed through the same pure transition that produced it
+// QUOTE(TZ): "We want every pure transition to be appended as a typed event to an `events` table"
+// REF: user-014-event-log
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,e: apply(s, e) = transition(e)(s)
+// PURITY: CORE
+// INVARIANT: a baseline event replaces the whole state; replaying keeps the journal, so nothing is logged twice;
+// inputs such as commands leave the state unchanged
+// COMPLEXITY: O(n)/O(n)
+export const applyEvent = (state: BotState, event: BotEvent): BotState => ({
+  ...applyTransitionEvent(state, event),
+  journal: state.journal
+})
+
+// CHANGE: rebuild the bot state from the event log
+// WHY: audit which votes, commands and seeds produced a stored snapshot
+// QUOTE(TZ): "a replay tool that rebuilds `BotState` from the events"
+// REF: user-014-event-log
+// SOURCE: n/a
+// FORMAT THEOREM: forall es: replay(es) = fold(apply, lastBaseline(es), rest(es))
+// PURITY: CORE
+// INVARIANT: returns null when the log has no baseline to start from
+// COMPLEXITY: O(n)/O(n)
+export const replayEvents = (events: ReadonlyArray<BotEvent>): BotState | null => {
+  let state: BotState | null = null
+  for (const event of events) {
+    if (event.kind === "baseline") {
+      state = { ...event.state, journal: [] }
+    } else if (state !== null) {
+      state = applyEvent(state, event)
+    }
+  }
+  return state
+}
@@ -0,0 +1,143 @@
+import { ChatId, type PairKey, UserId } from "./brand.js"
+import type { BotState, Exclusion, Exclusions, Participant } from "./domain.js"
+import { pairKeyOf } from "./participants.js"
+
+const exclusionKey = (requesterId: UserId, excludedId: UserId): string => `${requesterId}:${excludedId}`
+
+export type ExclusionAction = {
+  readonly kind: "add" | "remove"
+  readonly chatId: ChatId
+  readonly userId: UserId
+}
+
+export type ExclusionCandidate = {
+  readonly chatId: ChatId
+  readonly chatTitle: string | null
+  readonly participant: Participant
+}
+
+const callbackPrefix = "excl"
+
+const callbackRegex = /^excl:(add|remove):(-?\d+):(\d+)$/
+
+// CHANGE: insert or replace an exclusion requested by a participant
+// WHY: a participant may refuse to be matched with a specific person
+// QUOTE(TZ): "a per-chat exclusion list that `pairParticipants` treats as a hard constraint"
+// REF: user-004-pair-exclusions
+// SOURCE: n/a
+// FORMAT THEOREM: forall e: upsert(es, e)[key(e)] = e
+// PURITY: CORE
+// INVARIANT: at most one exclusion per (requester, excluded) pair
+// COMPLEXITY: O(1)/O(n)
+export const upsertExclusion = (
+  exclusions: Exclusions,
+  exclusion: Exclusion
+): Exclusions => ({
+  ...exclusions,
+  [exclusionKey(exclusion.requesterId, exclusion.excluded.id)]: exclusion
+})
+
+// CHANGE: remove an exclusion requested by a participant
+// WHY: let participants lift an exclusion they created
+// QUOTE(TZ): "Users manage it privately through a DM flow"
+// REF: user-004-pair-exclusions
+// SOURCE: n/a
+// FORMAT THEOREM: forall r,x: key(r,x) not in remove(es, r, x)
+// PURITY: CORE
+// INVARIANT: exclusions created by other requesters are preserved
+// COMPLEXITY: O(n)/O(n)
+export const removeExclusion = (
+  exclusions: Exclusions,
+  requesterId: UserId,
+  excludedId: UserId
+): Exclusions => {
+  const key = exclusionKey(requesterId, excludedId)
+  return Object.fromEntries(Object.entries(exclusions).filter(([entryKey]) => entryKey !== key))
+}
+
+// CHANGE: collect the pair keys that must never be matched
+// WHY: pairing treats exclusions as a hard constraint regardless of who asked
+// QUOTE(TZ): "a per-chat exclusion list that `pairParticipants` treats as a hard constraint"
+// REF: user-004-pair-exclusions
+// SOURCE: n/a
+// FORMAT THEOREM: forall e in es: pairKey(e.requester, e.excluded) in keys(es)
+// PURITY: CORE
+// INVARIANT: exclusions are symmetric once converted to pair keys
+// COMPLEXITY: O(n)/O(n)
+export const excludedPairKeys = (exclusions: Exclusions): ReadonlySet<PairKey> =>
+  new Set(Object.values(exclusions).map((exclusion) => pairKeyOf(exclusion.requesterId, exclusion.excluded.id)))
+
+// CHANGE: list chats and exclusions created by one participant
+// WHY: the DM flow shows a participant only their own exclusions
+// QUOTE(TZ): "Users manage it privately through a DM flow"
+// REF: user-004-pair-exclusions
+// SOURCE: n/a
+// FORMAT THEOREM: forall x in result: x.exclusion.requesterId = requesterId
+// PURITY: CORE
+// INVARIANT: exclusions of other participants are never returned
+// COMPLEXITY: O(n)/O(n)
+export const listOwnExclusions = (
+  state: BotState,
+  requesterId: UserId
+): ReadonlyArray<ExclusionCandidate> =>
+  Object.entries(state.chats).flatMap(([chatId, chat]) =>
+    Object.values(chat.exclusions)
+      .filter((exclusion) => exclusion.requesterId === requesterId)
+      .map((exclusion) => ({ chatId: ChatId(chatId), chatTitle: chat.title, participant: exclusion.excluded }))
+  )
+
+// CHANGE: list people a participant can still exclude
+// WHY: only people from the same active poll are known by name to the bot
+// QUOTE(TZ): "There is no way for a participant to say they must not be matched with a specific person"
+// REF: user-004-pair-exclusions
+// SOURCE: n/a
+// FORMAT THEOREM: forall x in result: requester in participants(x.chatId) ∧ x.participant ≠ requester
+// PURITY: CORE
+// INVARIANT: already excluded people are not offered again
+// COMPLEXITY: O(n)/O(n)
+export const listExclusionCandidates = (
+  state: BotState,
+  requesterId: UserId
+): ReadonlyArray<ExclusionCandidate> =>
+  Object.entries(state.chats).flatMap(([chatId, chat]) => {
+    const participants = Object.values(chat.participants)
+    if (!participants.some((participant) => participant.id === requesterId)) {
+      return []
+    }
+    return participants
+      .filter((participant) =>
+        participant.id !== requesterId &&
+        chat.exclusions[exclusionKey(requesterId, participant.id)] === undefined
+      )
+      .map((participant) => ({ chatId: ChatId(chatId), chatTitle: chat.title, participant }))
+  })
+
+// CHANGE: encode an exclusion button action into callback data
+// WHY: Telegram callback data is a short string, so actions are packed into it
+// QUOTE(TZ): "Users manage it privately through a DM flow next to the existing profile buttons"
+// REF: user-004-pair-exclusions
+// SOURCE: https://core.telegram.org/bots/api#inlinekeyboardbutton
+// FORMAT THEOREM: forall a: parse(encode(a)) = a
+// PURITY: CORE
+// INVARIANT: encoded data stays within the 64-byte callback limit
+// COMPLEXITY: O(1)/O(1)
+export const encodeExclusionAction = (action: ExclusionAction): string =>
+  `${callbackPrefix}:${action.kind}:${action.chatId}:${action.userId}`
+
+// CHANGE: decode exclusion button callback data
+// WHY: route exclusion buttons without confusing them with other callbacks
+// QUOTE(TZ): "Users manage it privately through a DM flow next to the existing profile buttons"
+// REF: user-004-pair-exclusions
+// SOURCE: n/a
+// FORMAT THEOREM: forall s: parse(s) = null ∨ encode(parse(s)) = s
+// PURITY: CORE
+// INVARIANT: unknown data returns null
+// COMPLEXITY: O(n)/O(1)
+export const parseExclusionAction = (data: string): ExclusionAction | null => {
+  const match = callbackRegex.exec(data)
+  const [, kind, chatId, userId] = match ?? []
+  if ((kind !== "add" && kind !== "remove") || !chatId || !userId) {
+    return null
+  }
+  return { kind, chatId: ChatId(chatId), userId: UserId(Number(userId)) }
+}
@@ -0,0 +1,257 @@
+import { ChatId, type LocalDateString, type UserId } from "./brand.js"
+import type {
+  BotState,
+  ChatState,
+  FeedbackAnswer,
+  MeetingRating,
+  Participant,
+  PendingFeedbackComments,
+  RoundGroup,
+  RoundRecord,
+  RoundTarget
+} from "./domain.js"
+import { recordEvent } from "./journal.js"
+import { clearProfileEditPending } from "./profiles.js"
+import { updateRound } from "./rounds.js"
+import { daysBetween } from "./schedule.js"
+
+export type FeedbackChoice = "met" | "missed" | MeetingRating | "skip"
+
+export type FeedbackAction = RoundTarget & {
+  readonly choice: FeedbackChoice
+}
+
+export type FeedbackRecipient = {
+  readonly participant: Participant
+  readonly partners: ReadonlyArray<Participant>
+}
+
+export type FeedbackReply = "askRating" | "askComment" | "thanks" | "outdated"
+
+export type FeedbackOutcome = {
+  readonly state: BotState
+  readonly reply: FeedbackReply
+}
+
+export const feedbackDelayDays = 3
+
+export const meetingRatings: ReadonlyArray<MeetingRating> = ["great", "ok", "bad"]
+
+const callbackPrefix = "fb"
+
+const callbackRegex = /^fb:(-?\d+):(0|[1-9]\d*):(met|missed|great|ok|bad|skip)$/
+
+const feedbackChoices: ReadonlyArray<FeedbackChoice> = ["met", "missed", ...meetingRatings, "skip"]
+
+const ratingChoices: ReadonlySet<FeedbackChoice> = new Set(meetingRatings)
+
+const isMeetingRating = (choice: FeedbackChoice): choice is MeetingRating => ratingChoices.has(choice)
+
+const pendingKey = (chatId: ChatId): string => chatId
+
+const isMemberOf = (group: RoundGroup, userId: UserId): boolean => group.members.some((member) => member.id === userId)
+
+const findGroup = (state: BotState, target: RoundTarget, userId: UserId): RoundGroup | undefined =>
+  state.chats[target.chatId]?.rounds[target.roundIndex]?.groups.find((group) => isMemberOf(group, userId))
+
+// CHANGE: pick the round whose members should be asked how their meeting went
+// WHY: the survey goes out some days after a summary, once people had time to meet
+// QUOTE(TZ): "Some days after each summary, the bot should DM every assigned participant"
+// REF: user-017-feedback-survey
+// SOURCE: n/a
+// FORMAT THEOREM: forall c,d: due(c,d) = i -> i = |c.rounds| - 1 ∧ d - c.rounds[i].summaryDate ≥ feedbackDelayDays
+// PURITY: CORE
+// INVARIANT: only the latest round is surveyed, and only once
+// COMPLEXITY: O(1)/O(1)
+export const dueFeedbackRound = (chat: ChatState, today: LocalDateString): number | null => {
+  const roundIndex = chat.rounds.length - 1
+  const round = chat.rounds[roundIndex]
+  return round && !round.feedbackRequested && daysBetween(round.summaryDate, today) >= feedbackDelayDays
+    ? roundIndex
+    : null
+}
+
+// CHANGE: list everyone who was assigned to a group in a round
+// WHY: leftovers had no meeting to rate, so only group members are surveyed
+// QUOTE(TZ): "DM every assigned participant an inline-keyboard question"
+// REF: user-017-feedback-survey
+// SOURCE: n/a
+// FORMAT THEOREM: forall r: |recipients(r)| = sum(|g.members| for g in r.groups)
+// PURITY: CORE
+// INVARIANT: partners never include the recipient
+// COMPLEXITY: O(n)/O(n)
+export const feedbackRecipients = (round: RoundRecord): ReadonlyArray<FeedbackRecipient> =>
+  round.groups.flatMap((group) =>
+    group.members.map((participant) => ({
+      participant,
+      partners: group.members.filter((member) => member.id !== participant.id)
+    }))
+  )
+
+// CHANGE: remember that a round has been surveyed
+// WHY: the scheduler runs every minute and must not send the survey twice
+// QUOTE(TZ): "Some days after each summary, the bot should DM every assigned participant"
+// REF: user-017-feedback-survey
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,t: mark(s,t).chats[t.chatId].rounds[t.roundIndex].feedbackRequested = true
+// PURITY: CORE
+// INVARIANT: unknown chats and rounds are left untouched
+// COMPLEXITY: O(n)/O(n)
+export const markFeedbackRequested = (state: BotState, target: RoundTarget): BotState =>
+  recordEvent(
+    state,
+    updateRound(state, target, (round) => ({ ...round, feedbackRequested: true })),
+    { kind: "feedbackRequested", ...target }
+  )
+
+// CHANGE: store a member's survey answer on their group
+// WHY: answers are kept per round and per pair
+// QUOTE(TZ): "Answers are stored per round and per pair."
+// REF: user-017-feedback-survey
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,t,a: a ∈ group(record(s,t,a), t, a.userId).feedback
+// PURITY: CORE
+// INVARIANT: a member has at most one answer per round; answers of people outside the round are ignored
+// COMPLEXITY: O(n)/O(n)
+export const recordFeedback = (state: BotState, target: RoundTarget, answer: FeedbackAnswer): BotState =>
+  recordEvent(
+    state,
+    updateRound(state, target, (round) => ({
+      ...round,
+      groups: round.groups.map((group) =>
+        isMemberOf(group, answer.userId)
+          ? { ...group, feedback: [...group.feedback.filter((entry) => entry.userId !== answer.userId), answer] }
+          : group
+      )
+    })),
+    { kind: "feedbackRecorded", ...target, answer }
+  )
+
+// CHANGE: drop the pending feedback comment of a private chat
+// WHY: only one private flow may consume free text at a time
+// QUOTE(TZ): "did you meet, how was it, and optional free text"
+// REF: user-017-feedback-survey
+// SOURCE: n/a
+// FORMAT THEOREM: forall p,id: key(id) not in clear(p,id)
+// PURITY: CORE
+// INVARIANT: other chats keep their pending comments
+// COMPLEXITY: O(n)/O(n)
+export const clearFeedbackCommentPending = (
+  pending: PendingFeedbackComments,
+  chatId: ChatId
+): PendingFeedbackComments => {
+  const key = pendingKey(chatId)
+  return Object.fromEntries(Object.entries(pending).filter(([entryKey]) => entryKey !== key))
+}
+
+const startFeedbackComment = (state: BotState, chatId: ChatId, target: RoundTarget): BotState => ({
+  ...state,
+  pendingProfileEdits: clearProfileEditPending(state.pendingProfileEdits, chatId),
+  pendingFeedbackComments: { ...state.pendingFeedbackComments, [pendingKey(chatId)]: target }
+})
+
+const clearFeedbackComment = (state: BotState, chatId: ChatId): BotState => ({
+  ...state,
+  pendingFeedbackComments: clearFeedbackCommentPending(state.pendingFeedbackComments, chatId)
+})
+
+const answerFor = (group: RoundGroup, userId: UserId): FeedbackAnswer =>
+  group.feedback.find((entry) => entry.userId === userId) ?? { userId, met: true, rating: null, comment: null }
+
+const applyAnswer = (
+  state: BotState,
+  chatId: ChatId,
+  action: FeedbackAction,
+  answer: FeedbackAnswer
+): FeedbackOutcome => {
+  const recorded = recordFeedback(state, action, answer)
+  return answer.met && answer.rating === null
+    ? { state: recorded, reply: "askRating" }
+    : { state: startFeedbackComment(recorded, chatId, action), reply: "askComment" }
+}
+
+// CHANGE: apply a survey button press from a private chat
+// WHY: the survey asks whether the meeting happened, then how it went, then for an optional comment
+// QUOTE(TZ): "did you meet, how was it, and optional free text"
+// REF: user-017-feedback-survey
+// SOURCE: n/a
+// FORMAT THEOREM: forall a: a.choice ∈ ratings -> answer'.met ∧ answer'.rating = a.choice
+// PURITY: CORE
+// INVARIANT: buttons of people outside the surveyed group produce an outdated reply without changing state
+// COMPLEXITY: O(n)/O(n)
+export const applyFeedbackChoice = (
+  state: BotState,
+  chatId: ChatId,
+  userId: UserId,
+  action: FeedbackAction
+): FeedbackOutcome => {
+  const group = findGroup(state, action, userId)
+  if (!group) {
+    return { state, reply: "outdated" }
+  }
+  if (action.choice === "skip") {
+    return { state: clearFeedbackComment(state, chatId), reply: "thanks" }
+  }
+  const answer = answerFor(group, userId)
+  if (isMeetingRating(action.choice)) {
+    return applyAnswer(state, chatId, action, { ...answer, met: true, rating: action.choice })
+  }
+  return applyAnswer(state, chatId, action, { ...answer, met: action.choice === "met", rating: null })
+}
+
+// CHANGE: store free text sent after the survey buttons as the survey comment
+// WHY: the comment is optional, so it is only captured right after the survey asked for it
+// QUOTE(TZ): "did you meet, how was it, and optional free text"
+// REF: user-017-feedback-survey
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,c,t: pending(s,c) -> answer'.comment = t ∧ ¬pending(s',c)
+// PURITY: CORE
+// INVARIANT: returns null when the chat is not waiting for a comment
+// COMPLEXITY: O(n)/O(n)
+export const applyFeedbackComment = (
+  state: BotState,
+  chatId: ChatId,
+  userId: UserId,
+  text: string
+): FeedbackOutcome | null => {
+  const target = state.pendingFeedbackComments[pendingKey(chatId)]
+  if (!target) {
+    return null
+  }
+  const cleared = clearFeedbackComment(state, chatId)
+  const group = findGroup(state, target, userId)
+  const comment = text.trim()
+  return group && comment.length > 0
+    ? { state: recordFeedback(cleared, target, { ...answerFor(group, userId), comment }), reply: "thanks" }
+    : { state: cleared, reply: group ? "thanks" : "outdated" }
+}
+
+// CHANGE: encode a survey button into callback data
+// WHY: Telegram callback data is a short string, so the round and the answer are packed into it
+// QUOTE(TZ): "an inline-keyboard question"
+// REF: user-017-feedback-survey
+// SOURCE: https://core.telegram.org/bots/api#inlinekeyboardbutton
+// FORMAT THEOREM: forall a: parse(encode(a)) = a
+// PURITY: CORE
+// INVARIANT: encoded data stays within the 64-byte callback limit
+// COMPLEXITY: O(1)/O(1)
+export const encodeFeedbackAction = (action: FeedbackAction): string =>
+  `${callbackPrefix}:${action.chatId}:${action.roundIndex}:${action.choice}`
+
+// CHANGE: decode survey button callback data
+// WHY: route survey buttons without confusing them with other callbacks
+// QUOTE(TZ): "This needs new callback handling in `handleCallback` in `diagnostics.ts`"
+// REF: user-017-feedback-survey
+// SOURCE: n/a
+// FORMAT THEOREM: forall s: parse(s) = null ∨ encode(parse(s)) = s
+// PURITY: CORE
+// INVARIANT: unknown data returns null
+// COMPLEXITY: O(n)/O(1)
+export const parseFeedbackAction = (data: string): FeedbackAction | null => {
+  const [, chatId, roundIndex, choice] = callbackRegex.exec(data) ?? []
+  const parsed = feedbackChoices.find((entry) => entry === choice)
+  if (!chatId || !roundIndex || !parsed) {
+    return null
+  }
+  return { chatId: ChatId(chatId), roundIndex: Number(roundIndex), choice: parsed }
+}
@@ -0,0 +1,90 @@
+import { ChatId, type LocalDateString, type UserId } from "./brand.js"
+import type { BotState, Participant, RoundRecord } from "./domain.js"
+
+export type HistoryEntry = {
+  readonly chatId: ChatId
+  readonly chatTitle: string | null
+  readonly summaryDate: LocalDateString
+  readonly partners: ReadonlyArray<Participant>
+}
+
+export type HistoryPage = {
+  readonly entries: ReadonlyArray<HistoryEntry>
+  readonly page: number
+  readonly pageCount: number
+}
+
+export const historyPageSize = 5
+
+const callbackRegex = /^hist:(0|[1-9]\d*)$/
+
+const partnersIn = (round: RoundRecord, userId: UserId): ReadonlyArray<Participant> | null => {
+  const group = round.groups.find((entry) => entry.members.some((member) => member.id === userId))
+  return group ? group.members.filter((member) => member.id !== userId) : null
+}
+
+// CHANGE: list the rounds in which a participant was matched, newest first
+// WHY: participants ask who they met before across every chat the bot serves
+// QUOTE(TZ): "We want a private-chat command that lists the user's past rounds across all chats the bot serves."
+// REF: user-016-history-command
+// SOURCE: n/a
+// FORMAT THEOREM: forall e in history(s,u): u ∉ e.partners ∧ |e.partners| ≥ 1
+// PURITY: CORE
+// INVARIANT: rounds where the participant was left over are skipped; ties on the date keep chat order
+// COMPLEXITY: O(n log n)/O(n)
+export const listUserHistory = (state: BotState, userId: UserId): ReadonlyArray<HistoryEntry> => {
+  const entries = Object.entries(state.chats).flatMap(([chatId, chat]) =>
+    chat.rounds.flatMap((round): ReadonlyArray<HistoryEntry> => {
+      const partners = partnersIn(round, userId)
+      return partners === null
+        ? []
+        : [{ chatId: ChatId(chatId), chatTitle: chat.title, summaryDate: round.summaryDate, partners }]
+    })
+  )
+  entries.sort((left, right) => right.summaryDate.localeCompare(left.summaryDate))
+  return entries
+}
+
+// CHANGE: cut one page out of a participant's history
+// WHY: a long history does not fit into one Telegram message
+// QUOTE(TZ): "paginated with inline keyboard buttons"
+// REF: user-016-history-command
+// SOURCE: n/a
+// FORMAT THEOREM: forall es,p: |page(es,p).entries| ≤ historyPageSize ∧ 0 ≤ page < max(1, ⌈|es| / size⌉)
+// PURITY: CORE
+// INVARIANT: out of range pages are clamped to the nearest existing page
+// COMPLEXITY: O(n)/O(n)
+export const historyPage = (entries: ReadonlyArray<HistoryEntry>, page: number): HistoryPage => {
+  const pageCount = Math.max(1, Math.ceil(entries.length / historyPageSize))
+  const current = Math.min(Math.max(0, page), pageCount - 1)
+  return {
+    entries: entries.slice(current * historyPageSize, (current + 1) * historyPageSize),
+    page: current,
+    pageCount
+  }
+}
+
+// CHANGE: encode a history page button into callback data
+// WHY: Telegram callback data is a short string, so the page number is packed into it
+// QUOTE(TZ): "paginated with inline keyboard buttons"
+// REF: user-016-history-command
+// SOURCE: https://core.telegram.org/bots/api#inlinekeyboardbutton
+// FORMAT THEOREM: forall p ≥ 0: parse(encode(p)) = p
+// PURITY: CORE
+// INVARIANT: encoded data stays within the 64-byte callback limit
+// COMPLEXITY: O(1)/O(1)
+export const encodeHistoryPage = (page: number): string => `hist:${page}`
+
+// CHANGE: decode history page callback data
+// WHY: route page buttons without confusing them with other callbacks
+// QUOTE(TZ): "paginated with inline keyboard buttons"
+// REF: user-016-history-command
+// SOURCE: n/a
+// FORMAT THEOREM: forall s: parse(s) = null ∨ encode(parse(s)) = s
+// PURITY: CORE
+// INVARIANT: unknown data returns null
+// COMPLEXITY: O(n)/O(1)
+export const parseHistoryPage = (data: string): number | null => {
+  const page = callbackRegex.exec(data)?.[1]
+  return page === undefined ? null : Number(page)
+}
@@ -0,0 +1,45 @@
+import type { BotState } from "./domain.js"
+import type { BotEvent } from "./events.js"
+
+// CHANGE: append the event of a transition to the journal of the state it produced
+// WHY: every transition records itself, so the log keeps the order and the inputs of what happened
+// QUOTE(TZ): "We want every pure transition to be appended as a typed event to an `events` table"
+// REF: user-014-event-log
+// SOURCE: n/a
+// FORMAT THEOREM: forall b,a,e: a != b -> journal(record(b, a, e)) = journal(a) ++ [e]
+// PURITY: CORE
+// INVARIANT: a transition that returns its input unchanged records nothing
+// COMPLEXITY: O(n)/O(n)
+export const recordEvent = (before: BotState, after: BotState, event: BotEvent): BotState =>
+  after === before ? before : { ...after, journal: [...after.journal, event] }
+
+// CHANGE: record an input that does not change the state itself
+// WHY: commands explain the transitions that follow them even when they only reply
+// QUOTE(TZ): "we cannot reconstruct which votes, commands and seeds produced it"
+// REF: user-014-event-log
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,e: journal(note(s, e)) = journal(s) ++ [e]
+// PURITY: CORE
+// INVARIANT: only the journal changes
+// COMPLEXITY: O(n)/O(n)
+export const noteEvent = (state: BotState, event: BotEvent): BotState => ({
+  ...state,
+  journal: [...state.journal, event]
+})
+
+// CHANGE: pick the journal entries that were not saved yet
+// WHY: a handler may save several states of one batch, each extending the journal of the previous one
+// QUOTE(TZ): "We want every pure transition to be appended as a typed event to an `events` table"
+// REF: user-014-event-log
+// SOURCE: n/a
+// FORMAT THEOREM: forall j,s: j = p ++ rest where p is the longest prefix of j shared with s -> unsaved(j, s) = rest
+// PURITY: CORE
+// INVARIANT: events are compared by identity, so a journal that starts afresh is saved whole
+// COMPLEXITY: O(n)/O(1)
+export const unsavedEvents = (
+  journal: ReadonlyArray<BotEvent>,
+  saved: ReadonlyArray<BotEvent>
+): ReadonlyArray<BotEvent> => {
+  const shared = journal.findIndex((event, index) => event !== saved[index])
+  return shared === -1 ? [] : journal.slice(shared)
+}
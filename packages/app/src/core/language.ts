@@ -0,0 +1,99 @@
+import type { ChatId, UserId } from "./brand.js"
+import type { BotState, ChatState, Language, UserLanguages } from "./domain.js"
+import { recordEvent } from "./journal.js"
+
+export const languages: ReadonlyArray<Language> = ["en", "ru"]
+
+// Historical defaults: group messages were written in English and private chats in Russian.
+const defaultGroupLanguage: Language = "en"
+const defaultPrivateLanguage: Language = "ru"
+
+// CHANGE: parse a stored language code
+// WHY: database text must not leak unknown languages into state
+// QUOTE(TZ): "We want a message catalog with at least `en` and `ru`"
+// REF: user-021-localization
+// SOURCE: n/a
+// FORMAT THEOREM: forall l in languages: parse(l) = l
+// PURITY: CORE
+// INVARIANT: unknown values return null
+// COMPLEXITY: O(1)/O(1)
+export const parseLanguage = (value: string | null): Language | null =>
+  languages.find((language) => language === value) ?? null
+
+// CHANGE: pick the language of messages posted in a group
+// WHY: polls, summaries and admin replies follow the chat setting
+// QUOTE(TZ): "a per-chat language setting"
+// REF: user-021-localization
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: groupLanguage(c) = c.language ?? en
+// PURITY: CORE
+// INVARIANT: unknown chats use the bot default
+// COMPLEXITY: O(1)/O(1)
+export const groupLanguage = (chat?: ChatState): Language => chat?.language ?? defaultGroupLanguage
+
+// CHANGE: pick the language of a private message to a member
+// WHY: a member's own choice wins over the language of the chat the message is about
+// QUOTE(TZ): "a per-user language for DMs"
+// REF: user-021-localization
+// SOURCE: n/a
+// FORMAT THEOREM: forall ls,u,c: privateLanguage(ls,u,c) = ls[u] ?? c ?? ru
+// PURITY: CORE
+// INVARIANT: members without a choice keep the historical Russian DMs unless the chat has a language
+// COMPLEXITY: O(1)/O(1)
+export const privateLanguage = (
+  userLanguages: UserLanguages,
+  userId: UserId,
+  chatLanguage: Language | null
+): Language => userLanguages[`${userId}`] ?? chatLanguage ?? defaultPrivateLanguage
+
+// CHANGE: pick the language of a private message about a chat
+// WHY: surveys, reminders and buttons concern one chat, whose language applies unless the member chose their own
+// QUOTE(TZ): "a per-user language for DMs"
+// REF: user-021-localization
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,u,c: memberLanguage(s,u,c) = privateLanguage(s.userLanguages, u, s.chats[c].language)
+// PURITY: CORE
+// INVARIANT: unknown chats fall back to the member's choice or the bot default
+// COMPLEXITY: O(1)/O(1)
+export const memberLanguage = (state: BotState, userId: UserId, chatId?: ChatId): Language =>
+  privateLanguage(state.userLanguages, userId, chatId === undefined ? null : state.chats[chatId]?.language ?? null)
+
+// CHANGE: set the language of a chat
+// WHY: admins choose the language of their community
+// QUOTE(TZ): "a per-chat language setting"
+// REF: user-021-localization
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,id,l: setChatLanguage(s,id,l).chats[id].language = l
+// PURITY: CORE
+// INVARIANT: null restores the bot defaults; unknown chats are left untouched
+// COMPLEXITY: O(1)/O(1)
+export const setChatLanguage = (state: BotState, chatId: ChatId, language: Language | null): BotState => {
+  const chat = state.chats[chatId]
+  return chat && chat.language !== language
+    ? recordEvent(
+      state,
+      { ...state, chats: { ...state.chats, [chatId]: { ...chat, language } } },
+      { kind: "chatLanguageSet", chatId, language }
+    )
+    : state
+}
+
+// CHANGE: set the language of a member's private chat
+// WHY: members of several communities pick one language for all their DMs
+// QUOTE(TZ): "a per-user language for DMs"
+// REF: user-021-localization
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,u,l: setUserLanguage(s,u,l).userLanguages[u] = l
+// PURITY: CORE
+// INVARIANT: null removes the member's choice so chat languages apply again
+// COMPLEXITY: O(n)/O(n)
+export const setUserLanguage = (state: BotState, userId: UserId, language: Language | null): BotState => {
+  const key = `${userId}`
+  if ((state.userLanguages[key] ?? null) === language) {
+    return state
+  }
+  const userLanguages = language === null
+    ? Object.fromEntries(Object.entries(state.userLanguages).filter(([entry]) => entry !== key))
+    : { ...state.userLanguages, [key]: language }
+  return recordEvent(state, { ...state, userLanguages }, { kind: "userLanguageSet", userId, language })
+}
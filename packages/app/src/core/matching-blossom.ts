@@ -0,0 +1,330 @@
+import {
+  assignLabel,
+  at,
+  blossomLeaves,
+  BREADCRUMB,
+  childrenOf,
+  cyclicAt,
+  edgeAt,
+  endpointsOf,
+  type MatchingContext,
+  S_LABEL,
+  slack,
+  T_LABEL
+} from "./matching-context.js"
+
+const SCANNED_LABEL = S_LABEL | BREADCRUMB
+
+const reversed = (values: ReadonlyArray<number>): Array<number> =>
+  values.map((_, index) => at(values, values.length - 1 - index))
+
+const nextScanVertex = (context: MatchingContext, blossom: number): number => {
+  const labelEnd = at(context.labelEnd, blossom)
+  if (labelEnd === -1) {
+    return -1
+  }
+  const tBlossom = at(context.inBlossom, at(context.endpoint, labelEnd))
+  return at(context.endpoint, at(context.labelEnd, tBlossom))
+}
+
+// CHANGE: trace two alternating paths back to find a common blossom base
+// WHY: decide whether a tight S-S edge closes a blossom or an augmenting path
+// QUOTE(TZ): "minimum-weight perfect matching over the PairHistory counts"
+// REF: user-002-optimal-pairing
+// SOURCE: https://jorisvr.nl/article/maximum-matching
+// FORMAT THEOREM: scan(v,w) = base ≥ 0 <-> v and w share a tree root
+// PURITY: CORE
+// INVARIANT: breadcrumb labels are cleared before returning
+// COMPLEXITY: O(n)/O(n)
+export const scanBlossom = (context: MatchingContext, first: number, second: number): number => {
+  const path: Array<number> = []
+  let current = first
+  let other = second
+  let base = -1
+  while (current !== -1 || other !== -1) {
+    const blossom = at(context.inBlossom, current)
+    if ((at(context.label, blossom) & BREADCRUMB) !== 0) {
+      base = at(context.blossomBase, blossom)
+      break
+    }
+    path.push(blossom)
+    context.label[blossom] = SCANNED_LABEL
+    current = nextScanVertex(context, blossom)
+    if (other !== -1) {
+      const swapped = other
+      other = current
+      current = swapped
+    }
+  }
+  for (const blossom of path) {
+    context.label[blossom] = S_LABEL
+  }
+  return base
+}
+
+const traceToBase = (
+  context: MatchingContext,
+  blossom: number,
+  start: number,
+  baseBlossom: number,
+  flip: number
+): { readonly path: Array<number>; readonly endpoints: Array<number> } => {
+  const path: Array<number> = []
+  const endpoints: Array<number> = []
+  let current = start
+  while (current !== baseBlossom) {
+    context.blossomParent[current] = blossom
+    path.push(current)
+    const labelEnd = at(context.labelEnd, current)
+    endpoints.push(labelEnd ^ flip)
+    current = at(context.inBlossom, at(context.endpoint, labelEnd))
+  }
+  return { path, endpoints }
+}
+
+const considerBestEdge = (
+  context: MatchingContext,
+  blossom: number,
+  bestEdgeTo: Array<number>,
+  edge: number
+): void => {
+  const [i, j] = edgeAt(context, edge)
+  const outside = at(context.inBlossom, j) === blossom ? i : j
+  const outsideBlossom = at(context.inBlossom, outside)
+  const current = at(bestEdgeTo, outsideBlossom)
+  if (
+    outsideBlossom !== blossom && at(context.label, outsideBlossom) === S_LABEL &&
+    (current === -1 || slack(context, edge) < slack(context, current))
+  ) {
+    bestEdgeTo[outsideBlossom] = edge
+  }
+}
+
+const candidateEdgeLists = (context: MatchingContext, child: number): ReadonlyArray<ReadonlyArray<number>> => {
+  const stored = context.blossomBestEdges[child]
+  return stored ?
+    [stored] :
+    blossomLeaves(context, child).map((leaf) =>
+      (context.neighbourEnds[leaf] ?? []).map((endpoint) => Math.floor(endpoint / 2))
+    )
+}
+
+const updateBlossomBestEdges = (context: MatchingContext, blossom: number): void => {
+  const bestEdgeTo = Array.from({ length: 2 * context.vertexCount }, () => -1)
+  for (const child of childrenOf(context, blossom)) {
+    for (const edge of candidateEdgeLists(context, child).flat()) {
+      considerBestEdge(context, blossom, bestEdgeTo, edge)
+    }
+    context.blossomBestEdges[child] = null
+    context.bestEdge[child] = -1
+  }
+  const bestEdges = bestEdgeTo.filter((edge) => edge !== -1)
+  context.blossomBestEdges[blossom] = bestEdges
+  context.bestEdge[blossom] = -1
+  for (const edge of bestEdges) {
+    const current = at(context.bestEdge, blossom)
+    if (current === -1 || slack(context, edge) < slack(context, current)) {
+      context.bestEdge[blossom] = edge
+    }
+  }
+}
+
+// CHANGE: contract an odd cycle of the alternating tree into a new blossom
+// WHY: Edmonds' algorithm shrinks odd cycles so augmenting paths can be found
+// QUOTE(TZ): "minimum-weight perfect matching over the PairHistory counts"
+// REF: user-002-optimal-pairing
+// SOURCE: https://jorisvr.nl/article/maximum-matching
+// FORMAT THEOREM: forall v in cycle: inBlossom[v] = b
+// PURITY: CORE
+// INVARIANT: the new blossom is S-labelled with zero dual
+// COMPLEXITY: O(n + m)/O(n)
+export const addBlossom = (context: MatchingContext, base: number, edge: number): void => {
+  const [v, w] = edgeAt(context, edge)
+  const baseBlossom = at(context.inBlossom, base)
+  const blossom = context.unusedBlossoms.pop() ?? -1
+  context.blossomBase[blossom] = base
+  context.blossomParent[blossom] = -1
+  context.blossomParent[baseBlossom] = blossom
+  const left = traceToBase(context, blossom, at(context.inBlossom, v), baseBlossom, 0)
+  const right = traceToBase(context, blossom, at(context.inBlossom, w), baseBlossom, 1)
+  context.blossomChildren[blossom] = [baseBlossom, ...reversed(left.path), ...right.path]
+  context.blossomEndpoints[blossom] = [...reversed(left.endpoints), 2 * edge, ...right.endpoints]
+  context.label[blossom] = S_LABEL
+  context.labelEnd[blossom] = at(context.labelEnd, baseBlossom)
+  context.dualVar[blossom] = 0
+  for (const leaf of blossomLeaves(context, blossom)) {
+    if (at(context.label, at(context.inBlossom, leaf)) === T_LABEL) {
+      context.queue.push(leaf)
+    }
+    context.inBlossom[leaf] = blossom
+  }
+  updateBlossomBestEdges(context, blossom)
+}
+
+type Walk = {
+  readonly start: number
+  readonly step: number
+  readonly trick: number
+}
+
+const walkFrom = (index: number, length: number): Walk =>
+  (index & 1) === 0
+    ? { start: index, step: -1, trick: 1 }
+    : { start: index - length, step: 1, trick: 0 }
+
+const relabelChild = (context: MatchingContext, child: number): void => {
+  const leaf = blossomLeaves(context, child).find((candidate) => at(context.label, candidate) !== 0)
+  if (leaf === undefined) {
+    return
+  }
+  context.label[leaf] = 0
+  context.label[at(context.endpoint, at(context.mate, at(context.blossomBase, child)))] = 0
+  assignLabel(context, leaf, T_LABEL, at(context.labelEnd, leaf))
+}
+
+const relabelExpandedBlossom = (context: MatchingContext, blossom: number): void => {
+  const children = childrenOf(context, blossom)
+  const endpoints = endpointsOf(context, blossom)
+  const entryChild = at(context.inBlossom, at(context.endpoint, at(context.labelEnd, blossom) ^ 1))
+  const walk = walkFrom(children.indexOf(entryChild), children.length)
+  let index = walk.start
+  let endpoint = at(context.labelEnd, blossom)
+  while (index !== 0) {
+    context.label[at(context.endpoint, endpoint ^ 1)] = 0
+    context.label[at(context.endpoint, cyclicAt(endpoints, index - walk.trick) ^ walk.trick ^ 1)] = 0
+    assignLabel(context, at(context.endpoint, endpoint ^ 1), T_LABEL, endpoint)
+    context.allowEdge[Math.floor(cyclicAt(endpoints, index - walk.trick) / 2)] = true
+    index += walk.step
+    endpoint = cyclicAt(endpoints, index - walk.trick) ^ walk.trick
+    context.allowEdge[Math.floor(endpoint / 2)] = true
+    index += walk.step
+  }
+  const entry = cyclicAt(children, index)
+  const entryVertex = at(context.endpoint, endpoint ^ 1)
+  context.label[entryVertex] = T_LABEL
+  context.label[entry] = T_LABEL
+  context.labelEnd[entryVertex] = endpoint
+  context.labelEnd[entry] = endpoint
+  context.bestEdge[entry] = -1
+  for (index += walk.step; cyclicAt(children, index) !== entryChild; index += walk.step) {
+    const child = cyclicAt(children, index)
+    if (at(context.label, child) !== S_LABEL) {
+      relabelChild(context, child)
+    }
+  }
+}
+
+const releaseBlossom = (context: MatchingContext, blossom: number): void => {
+  context.label[blossom] = -1
+  context.labelEnd[blossom] = -1
+  context.blossomChildren[blossom] = null
+  context.blossomEndpoints[blossom] = null
+  context.blossomBase[blossom] = -1
+  context.blossomBestEdges[blossom] = null
+  context.bestEdge[blossom] = -1
+  context.unusedBlossoms.push(blossom)
+}
+
+// CHANGE: expand a blossom back into its sub-blossoms
+// WHY: T-blossoms with zero dual and zero-dual S-blossoms at stage end must be undone
+// QUOTE(TZ): "minimum-weight perfect matching over the PairHistory counts"
+// REF: user-002-optimal-pairing
+// SOURCE: https://jorisvr.nl/article/maximum-matching
+// FORMAT THEOREM: forall c in children(b): parent(c) = -1 after expand(b)
+// PURITY: CORE
+// INVARIANT: the blossom id is returned to the unused pool
+// COMPLEXITY: O(n)/O(n)
+export const expandBlossom = (context: MatchingContext, blossom: number, endStage: boolean): void => {
+  for (const child of childrenOf(context, blossom)) {
+    context.blossomParent[child] = -1
+    if (child < context.vertexCount) {
+      context.inBlossom[child] = child
+    } else if (endStage && at(context.dualVar, child) === 0) {
+      expandBlossom(context, child, endStage)
+    } else {
+      for (const leaf of blossomLeaves(context, child)) {
+        context.inBlossom[leaf] = child
+      }
+    }
+  }
+  if (!endStage && at(context.label, blossom) === T_LABEL) {
+    relabelExpandedBlossom(context, blossom)
+  }
+  releaseBlossom(context, blossom)
+}
+
+const topChildContaining = (context: MatchingContext, blossom: number, vertex: number): number => {
+  let current = vertex
+  while (at(context.blossomParent, current) !== blossom) {
+    current = at(context.blossomParent, current)
+  }
+  return current
+}
+
+const augmentChild = (context: MatchingContext, child: number, vertex: number): void => {
+  if (child >= context.vertexCount) {
+    augmentBlossom(context, child, vertex)
+  }
+}
+
+// CHANGE: flip matched edges inside a blossom along an augmenting path
+// WHY: keep the blossom's internal matching consistent with its new base
+// QUOTE(TZ): "minimum-weight perfect matching over the PairHistory counts"
+// REF: user-002-optimal-pairing
+// SOURCE: https://jorisvr.nl/article/maximum-matching
+// FORMAT THEOREM: augment(b,v) -> base(b) = v
+// PURITY: CORE
+// INVARIANT: child lists are rotated so the new base comes first
+// COMPLEXITY: O(n)/O(n)
+export const augmentBlossom = (context: MatchingContext, blossom: number, vertex: number): void => {
+  const top = topChildContaining(context, blossom, vertex)
+  augmentChild(context, top, vertex)
+  const children = childrenOf(context, blossom)
+  const endpoints = endpointsOf(context, blossom)
+  const first = children.indexOf(top)
+  const walk = walkFrom(first, children.length)
+  let index = walk.start
+  while (index !== 0) {
+    index += walk.step
+    const endpoint = cyclicAt(endpoints, index - walk.trick) ^ walk.trick
+    augmentChild(context, cyclicAt(children, index), at(context.endpoint, endpoint))
+    index += walk.step
+    augmentChild(context, cyclicAt(children, index), at(context.endpoint, endpoint ^ 1))
+    context.mate[at(context.endpoint, endpoint)] = endpoint ^ 1
+    context.mate[at(context.endpoint, endpoint ^ 1)] = endpoint
+  }
+  context.blossomChildren[blossom] = [...children.slice(first), ...children.slice(0, first)]
+  context.blossomEndpoints[blossom] = [...endpoints.slice(first), ...endpoints.slice(0, first)]
+  context.blossomBase[blossom] = at(context.blossomBase, top)
+}
+
+const augmentFrom = (context: MatchingContext, vertex: number, endpoint: number): void => {
+  const blossom = at(context.inBlossom, vertex)
+  augmentChild(context, blossom, vertex)
+  context.mate[vertex] = endpoint
+  const labelEnd = at(context.labelEnd, blossom)
+  if (labelEnd === -1) {
+    return
+  }
+  const tBlossom = at(context.inBlossom, at(context.endpoint, labelEnd))
+  const tLabelEnd = at(context.labelEnd, tBlossom)
+  const matched = at(context.endpoint, tLabelEnd ^ 1)
+  augmentChild(context, tBlossom, matched)
+  context.mate[matched] = tLabelEnd
+  augmentFrom(context, at(context.endpoint, tLabelEnd), tLabelEnd ^ 1)
+}
+
+// CHANGE: augment the matching along the path through a tight S-S edge
+// WHY: each augmentation grows the matching by one edge
+// QUOTE(TZ): "minimum-weight perfect matching over the PairHistory counts"
+// REF: user-002-optimal-pairing
+// SOURCE: https://jorisvr.nl/article/maximum-matching
+// FORMAT THEOREM: |matching'| = |matching| + 1
+// PURITY: CORE
+// INVARIANT: both tree roots become matched
+// COMPLEXITY: O(n)/O(n)
+export const augmentMatching = (context: MatchingContext, edge: number): void => {
+  const [v, w] = edgeAt(context, edge)
+  augmentFrom(context, v, 2 * edge + 1)
+  augmentFrom(context, w, 2 * edge)
+}
@@ -0,0 +1,127 @@
+export type MatchingEdge = readonly [number, number, number]
+
+export type MatchingContext = {
+  readonly edges: ReadonlyArray<MatchingEdge>
+  readonly vertexCount: number
+  readonly endpoint: ReadonlyArray<number>
+  readonly neighbourEnds: ReadonlyArray<ReadonlyArray<number>>
+  readonly mate: Array<number>
+  readonly label: Array<number>
+  readonly labelEnd: Array<number>
+  readonly inBlossom: Array<number>
+  readonly blossomParent: Array<number>
+  readonly blossomChildren: Array<Array<number> | null>
+  readonly blossomBase: Array<number>
+  readonly blossomEndpoints: Array<Array<number> | null>
+  readonly bestEdge: Array<number>
+  readonly blossomBestEdges: Array<Array<number> | null>
+  readonly unusedBlossoms: Array<number>
+  readonly dualVar: Array<number>
+  readonly allowEdge: Array<boolean>
+  readonly queue: Array<number>
+}
+
+export const S_LABEL = 1
+export const T_LABEL = 2
+export const BREADCRUMB = 4
+
+const range = (from: number, to: number): Array<number> => Array.from({ length: to - from }, (_, index) => from + index)
+
+const filled = <A>(length: number, value: A): Array<A> => Array.from({ length }, () => value)
+
+// CHANGE: allocate the blossom algorithm workspace
+// WHY: the workspace lives only inside one maxWeightMatching call, so the public API stays pure
+// QUOTE(TZ): "minimum-weight perfect matching over the PairHistory counts"
+// REF: user-002-optimal-pairing
+// SOURCE: https://jorisvr.nl/article/maximum-matching
+// FORMAT THEOREM: forall v < n: mate[v] = -1 ∧ inBlossom[v] = v
+// PURITY: CORE
+// INVARIANT: every vertex starts as its own trivial blossom
+// COMPLEXITY: O(n + m)/O(n + m)
+export const makeMatchingContext = (
+  vertexCount: number,
+  edges: ReadonlyArray<MatchingEdge>
+): MatchingContext => {
+  const maxWeight = Math.max(0, ...edges.map((edge) => edge[2]))
+  const neighbourEnds: Array<Array<number>> = range(0, vertexCount).map(() => [])
+  for (const [index, [i, j]] of edges.entries()) {
+    neighbourEnds[i]?.push(2 * index + 1)
+    neighbourEnds[j]?.push(2 * index)
+  }
+  return {
+    edges,
+    vertexCount,
+    endpoint: edges.flatMap(([i, j]) => [i, j]),
+    neighbourEnds,
+    mate: filled(vertexCount, -1),
+    label: filled(2 * vertexCount, 0),
+    labelEnd: filled(2 * vertexCount, -1),
+    inBlossom: range(0, vertexCount),
+    blossomParent: filled(2 * vertexCount, -1),
+    blossomChildren: filled<Array<number> | null>(2 * vertexCount, null),
+    blossomBase: [...range(0, vertexCount), ...filled(vertexCount, -1)],
+    blossomEndpoints: filled<Array<number> | null>(2 * vertexCount, null),
+    bestEdge: filled(2 * vertexCount, -1),
+    blossomBestEdges: filled<Array<number> | null>(2 * vertexCount, null),
+    unusedBlossoms: range(vertexCount, 2 * vertexCount),
+    dualVar: [...filled(vertexCount, maxWeight), ...filled(vertexCount, 0)],
+    allowEdge: filled(edges.length, false),
+    queue: []
+  }
+}
+
+export const at = (values: ReadonlyArray<number>, index: number): number => values[index] ?? -1
+
+export const childrenOf = (context: MatchingContext, blossom: number): Array<number> =>
+  context.blossomChildren[blossom] ?? []
+
+export const endpointsOf = (context: MatchingContext, blossom: number): Array<number> =>
+  context.blossomEndpoints[blossom] ?? []
+
+export const edgeAt = (context: MatchingContext, edge: number): MatchingEdge => context.edges[edge] ?? [0, 0, 0]
+
+export const slack = (context: MatchingContext, edge: number): number => {
+  const [i, j, weight] = edgeAt(context, edge)
+  return at(context.dualVar, i) + at(context.dualVar, j) - 2 * weight
+}
+
+// Python-style index for rotating child lists, where negative indexes count from the end.
+export const cyclicAt = (values: ReadonlyArray<number>, index: number): number =>
+  at(values, index < 0 ? values.length + index : index)
+
+export const blossomLeaves = (context: MatchingContext, blossom: number): Array<number> =>
+  blossom < context.vertexCount
+    ? [blossom]
+    : childrenOf(context, blossom).flatMap((child) => blossomLeaves(context, child))
+
+// CHANGE: label a vertex's top-level blossom as S or T
+// WHY: grow alternating trees from the unmatched vertices
+// QUOTE(TZ): "minimum-weight perfect matching over the PairHistory counts"
+// REF: user-002-optimal-pairing
+// SOURCE: https://jorisvr.nl/article/maximum-matching
+// FORMAT THEOREM: label(T-blossom) -> label(mate(base)) = S
+// PURITY: CORE
+// INVARIANT: S-labelled leaves are enqueued for scanning
+// COMPLEXITY: O(n)/O(n)
+export const assignLabel = (
+  context: MatchingContext,
+  vertex: number,
+  labelValue: number,
+  labelEndpoint: number
+): void => {
+  const blossom = at(context.inBlossom, vertex)
+  context.label[vertex] = labelValue
+  context.label[blossom] = labelValue
+  context.labelEnd[vertex] = labelEndpoint
+  context.labelEnd[blossom] = labelEndpoint
+  context.bestEdge[vertex] = -1
+  context.bestEdge[blossom] = -1
+  if (labelValue === S_LABEL) {
+    for (const leaf of blossomLeaves(context, blossom)) {
+      context.queue.push(leaf)
+    }
+    return
+  }
+  const baseMate = at(context.mate, at(context.blossomBase, blossom))
+  assignLabel(context, at(context.endpoint, baseMate), S_LABEL, baseMate ^ 1)
+}
@@ -0,0 +1,77 @@
+import type { MeetingFormat, Participant, PollState } from "./domain.js"
+import { parseMeetingFormat } from "./profile-wizard.js"
+
+// Sign-up options of the catalog poll, in the order they are shown before "not this time".
+export const pollMeetingFormats: ReadonlyArray<MeetingFormat> = ["online", "offline", "any"]
+
+// Custom yes/no wordings sign members up without a format preference.
+export const yesNoMeetingFormats: ReadonlyArray<MeetingFormat> = ["any"]
+
+// Polls are stored as one text column; format codes never contain commas.
+const storedFormatSeparator = ","
+
+const formatOf = (participant: Participant): MeetingFormat => participant.meetingFormat ?? "any"
+
+// CHANGE: read the format a poll answer signs a member up for
+// WHY: the poll offers one sign-up option per meeting format
+// QUOTE(TZ): "a participation poll with format choices: online only, in person only, or either"
+// REF: user-023-meeting-format-poll
+// SOURCE: n/a
+// FORMAT THEOREM: forall p,k < |p.formats|: voted(p, [p.joinOption + k]) = p.formats[k]
+// PURITY: CORE
+// INVARIANT: answers outside the sign-up options return null
+// COMPLEXITY: O(n)/O(1)
+export const votedMeetingFormat = (
+  poll: Pick<PollState, "joinOption" | "formats">,
+  optionIds: ReadonlyArray<number>
+): MeetingFormat | null => poll.formats.find((_, offset) => optionIds.includes(poll.joinOption + offset)) ?? null
+
+// CHANGE: tell whether two members can meet in a common format
+// WHY: an online-only member cannot be paired with an in-person-only one
+// QUOTE(TZ): "`pairParticipants` should only pair compatible people, with \"either\" acting as a wildcard"
+// REF: user-023-meeting-format-poll
+// SOURCE: n/a
+// FORMAT THEOREM: forall a,b: compatible(a,b) <-> format(a) = any ∨ format(b) = any ∨ format(a) = format(b)
+// PURITY: CORE
+// INVARIANT: the relation is symmetric; members without a format are compatible with everyone
+// COMPLEXITY: O(1)/O(1)
+export const isFormatCompatible = (left: Participant, right: Participant): boolean =>
+  formatOf(left) === "any" || formatOf(right) === "any" || formatOf(left) === formatOf(right)
+
+// CHANGE: pick the format every member of a group agreed on
+// WHY: the summary and the pairing DM tell the group how it meets
+// QUOTE(TZ): "The format both sides agreed on should appear in the summary and in `formatDirectPairingMessage`."
+// REF: user-023-meeting-format-poll
+// SOURCE: n/a
+// FORMAT THEOREM: forall ms pairwise compatible: agreed(ms) = any <-> forall m in ms: format(m) = any
+// PURITY: CORE
+// INVARIANT: assumes a compatible group, as produced by pairParticipants
+// COMPLEXITY: O(n)/O(n)
+export const agreedMeetingFormat = (members: ReadonlyArray<Participant>): MeetingFormat =>
+  members.map((member) => formatOf(member)).find((format) => format !== "any") ?? "any"
+
+// CHANGE: encode the formats of a poll for the polls table
+// WHY: keep poll rows flat so unchanged rows compare equal column by column
+// QUOTE(TZ): n/a
+// REF: user-023-meeting-format-poll
+// SOURCE: n/a
+// FORMAT THEOREM: forall fs: parseStored(stored(fs)) = fs
+// PURITY: CORE
+// INVARIANT: codes keep their option order
+// COMPLEXITY: O(n)/O(n)
+export const storedMeetingFormats = (formats: ReadonlyArray<MeetingFormat>): string =>
+  formats.join(storedFormatSeparator)
+
+// CHANGE: decode the stored formats of a poll
+// WHY: polls sent before format choices are plain yes/no polls
+// QUOTE(TZ): n/a
+// REF: user-023-meeting-format-poll
+// SOURCE: n/a
+// FORMAT THEOREM: forall fs: parseStored(stored(fs)) = fs
+// PURITY: CORE
+// INVARIANT: unknown codes fall back to a yes/no poll instead of shifting options
+// COMPLEXITY: O(n)/O(n)
+export const parseStoredMeetingFormats = (value: string): ReadonlyArray<MeetingFormat> => {
+  const formats = value.split(storedFormatSeparator).map((code) => parseMeetingFormat(code))
+  return formats.every((format): format is MeetingFormat => format !== null) ? formats : yesNoMeetingFormats
+}
@@ -0,0 +1,22 @@
+import type { RematchMessages } from "./messages.js"
+
+// CHANGE: define the English strings of the re-match button
+// WHY: the presser and the partner who is dropped from the cancelled pair both need a reply
+// QUOTE(TZ): "Pressing it re-pairs the affected participants with other cancelled people or with the round's leftovers"
+// REF: user-020-rematch-cancelled
+// SOURCE: n/a
+// FORMAT THEOREM: forall k in keys(RematchMessages): enRematch[k] is defined
+// PURITY: CORE
+// INVARIANT: the button label matches the one named in the pairing DM
+// COMPLEXITY: O(1)/O(1)
+export const enRematch: RematchMessages = {
+  rematchLabel: "🙅 My partner cancelled",
+  rematchReplies: {
+    rematched: "Sorry the meeting fell through. I found you a new partner — details in the next message.",
+    waiting:
+      "Sorry the meeting fell through. Nobody is free yet — if someone else is left without a partner this week, I will introduce you.",
+    outdated: "This button is no longer relevant: the meeting belongs to a past round or has already been re-matched."
+  },
+  rematchDropped: (name, chatTitle) =>
+    `${name} cancelled your meeting from «${chatTitle}», so you have no partner this round. If this is news to you, message them directly. See you in the next round!`
+}
@@ -0,0 +1,46 @@
+import type { SubscriptionMessages } from "./messages.js"
+
+// CHANGE: define the English strings of subscription mode
+// WHY: subscription mode adds group replies and a private menu of its own, kept apart from the main catalog
+// QUOTE(TZ): "users subscribe once and stay in the pool, through a DM button or a group command"
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall k in keys(SubscriptionMessages): enSubscriptions[k] is defined
+// PURITY: CORE
+// INVARIANT: button labels match the ones listed in the private menu texts
+// COMPLEXITY: O(1)/O(1)
+export const enSubscriptions: SubscriptionMessages = {
+  modeSaved: {
+    poll: "Poll mode saved: members sign up in a poll before every round.",
+    subscription:
+      "Subscription mode saved: no more polls. Members join once with /subscribe and stay in every round until they /unsubscribe."
+  },
+  modeUsage: (mode) => `Chat mode: ${mode}. Use: /mode poll or /mode subscription`,
+  pollsOff: "This chat pairs its subscribers without polls. Members join with /subscribe.",
+  subscriptionReplies: {
+    subscribed: (name) =>
+      `${name} is subscribed and joins every round. Use /skip to sit one out or /unsubscribe to leave.`,
+    unsubscribed: (name) => `${name} has left the roster. /subscribe brings you back.`,
+    notSubscribed: (name) => `${name}, you are not subscribed. Use /subscribe first.`,
+    pollMode: () => "This chat signs members up with a poll every round. Admins can switch with /mode subscription."
+  },
+  skipSaved: (name, summaryDate) => `${name} sits out the round of ${summaryDate}.`,
+  skipUsage: (summaryDate) =>
+    `Use: /skip to sit out the round of ${summaryDate}, or /skip YYYY-MM-DD for a later round on the same weekday.`,
+  subscriptionsLabel: "My subscriptions",
+  subscriptionsMenuEmpty: [
+    "Here you can join or leave the roster of groups that pair their subscribers without polls.",
+    "",
+    "There is nothing to show yet: send /subscribe in such a group and it will appear here."
+  ],
+  subscriptionsMenu: [
+    "Groups that pair their subscribers without polls.",
+    "",
+    "➕ — join the roster, ✅ — you are in, tap to leave."
+  ],
+  subscriptionButtonReplies: {
+    joined: (chatTitle) => `Done. You are in every round of «${chatTitle}» until you leave.`,
+    left: (chatTitle) => `Done. You have left the roster of «${chatTitle}».`,
+    outdated: () => "This button is outdated. Tap «My subscriptions» to open the current list."
+  }
+}
@@ -0,0 +1,311 @@
+import { enRematch } from "./messages-en-rematch.js"
+import { enSubscriptions } from "./messages-en-subscriptions.js"
+import type { Messages } from "./messages.js"
+
+const plural = (count: number, one: string, many: string): string => count === 1 ? `1 ${one}` : `${count} ${many}`
+
+// CHANGE: define the English message catalog
+// WHY: English-speaking communities should get the whole bot, including DMs, in English
+// QUOTE(TZ): "We want a message catalog with at least `en` and `ru`"
+// REF: user-021-localization
+// SOURCE: n/a
+// FORMAT THEOREM: forall k in keys(Messages): en[k] is defined
+// PURITY: CORE
+// INVARIANT: strings that existed in English before the catalog are kept verbatim
+// COMPLEXITY: O(1)/O(1)
+export const en: Messages = {
+  languageNames: { en: "English", ru: "Russian" },
+  weekdays: { Mon: "Mon", Tue: "Tue", Wed: "Wed", Thu: "Thu", Fri: "Fri", Sat: "Sat", Sun: "Sun" },
+  noHandle: "None",
+  untitledGroup: "(untitled)",
+  groupLinkText: "group",
+  groupTitle: (label) => `Group: ${label}`,
+  summaryLink: (href) => `Results of the week: <a href="${href}">link</a>`,
+  untitledChat: "untitled group",
+  days: (count) => plural(count, "day", "days"),
+
+  adminOnly: "This command is available to chat admins only.",
+  setTopicMain: "Ok. Polls will be posted in the main chat.",
+  setTopicThread: "Ok. Polls will be posted in this topic.",
+  setLinkSaved: "Invite link saved.",
+  setLinkInvalid: "Invalid link. Use: /setlink https://t.me/yourgroup",
+  triplesSaved: (enabled) =>
+    enabled
+      ? "Triples enabled. With an odd number of participants, one group of three will be formed."
+      : "Triples disabled. With an odd number of participants, one person will stay without a pair.",
+  triplesUsage: (enabled) => `Triples are ${enabled ? "on" : "off"}. Use: /triples on or /triples off`,
+  decaySaved: (halfLifeWeeks) =>
+    halfLifeWeeks === null
+      ? "Decay disabled. Every past meeting counts as a full repeat."
+      : `Decay saved. A past meeting counts half as much after ${halfLifeWeeks} week(s).`,
+  decayUsage: (halfLifeWeeks) => {
+    const current = halfLifeWeeks === null ? "off" : `${halfLifeWeeks} week(s)`
+    return `Decay half-life is ${current}. Use: /decay 12 or /decay off`
+  },
+  scheduleDays: (pollDay, summaryDay) => `polls open on ${pollDay} and results are posted on ${summaryDay}`,
+  scheduleSaved: (days) => `Schedule saved: ${days}.`,
+  scheduleUsage: (days) => `Currently ${days}. Use: /schedule wed thu`,
+  scheduleTimes: (pollTime, summaryTime) => `polls open at ${pollTime} and results are posted at ${summaryTime}`,
+  scheduleTimesSaved: (times) => `Times saved: ${times}.`,
+  scheduleTimesUsage: (times) => `Currently ${times}. Use: /time 10:00 18:00`,
+  roundFrequencies: { weekly: "every week", biweekly: "every two weeks", monthly: "every four weeks" },
+  frequencySaved: (frequency) => `Frequency saved. Rounds now run ${frequency}.`,
+  frequencyUsage: (frequency) =>
+    `Rounds run ${frequency}. Use: /frequency weekly, /frequency biweekly or /frequency monthly`,
+  timeZoneSaved: (timeZone) =>
+    timeZone === null
+      ? "Time zone reset to the bot default."
+      : `Time zone saved. Polls and summaries now follow ${timeZone}.`,
+  timeZoneUsage: (timeZone) =>
+    `Current time zone: ${timeZone ?? "bot default"}. Use: /timezone Europe/Berlin or /timezone default`,
+  reminderSaved: (reminderDay) =>
+    reminderDay === null
+      ? "Organizer reminders turned off."
+      : `Organizer reminders saved: unconfirmed meetings are reminded on ${reminderDay}.`,
+  reminderUsage: (reminderDay) => `Organizer reminders: ${reminderDay ?? "off"}. Use: /reminder wed or /reminder off`,
+  chatLanguageSaved: (language) =>
+    language === null
+      ? "Language reset: English in this chat, Russian in private messages."
+      : `Language saved. The bot now writes in ${language} here and in private messages of members who did not pick their own.`,
+  chatLanguageUsage: (language) =>
+    `Chat language: ${language ?? "default"}. Use: /language en, /language ru or /language default`,
+  userLanguageSaved: (language) =>
+    language === null
+      ? "Done. Private messages now follow the language of your groups."
+      : `Done. I will write to you in ${language}.`,
+  userLanguageUsage: (language) =>
+    `I write to you in ${language}. Use: /language en, /language ru or /language default`,
+  pollWordingSaved: (wording) =>
+    wording === null
+      ? "Poll wording reset to the default question."
+      : `Poll wording saved. The next poll will ask:\n${wording}`,
+  pollWordingUsage: (wording) => [
+    "Current poll:",
+    wording,
+    "",
+    "Use: /pollwording Up for a coffee chat next week? | *Count me in | Not this time",
+    "Separate the question and the options with |. The option marked with * signs members up, otherwise the first one.",
+    "/pollwording default restores the standard poll."
+  ],
+  pollWordingJoin: "(joins the round)",
+  pollWordingFormats:
+    "A custom poll has no online or in-person choice: everyone who signs up is paired as open to either format.",
+  exclusionsCount: (count) =>
+    `Active exclusions in this chat: ${count}. Participants manage them privately in a DM with the bot.`,
+
+  notAvailable: "n/a",
+  turnoutWithLeftovers: (date, participants, leftovers) => `${date}: ${participants} (${leftovers} without a pair)`,
+  statsEmpty: "No rounds yet. Stats appear after the first summary.",
+  statsHeading: (shown, total) => `Stats for the last ${shown} of ${total} rounds.`,
+  statsParticipants: "Participants per round:",
+  statsRepeatPairs: (rate) => `Repeat pairs: ${rate}`,
+  statsAverageMeetings: (average) => `Average meetings per pair: ${average}`,
+  statsUnmatched: (share) => `"Yes" voters left without a pair: ${share}`,
+
+  pollAlreadyActive: "A poll is already active. Use /summary to close it.",
+  pollAlreadyActiveWithDate: (summaryDate) => `A poll is already active. Results on ${summaryDate}.`,
+  pollWindowOpen: "Poll window is open now. You can start a poll with /poll.",
+  nextPollWindow: (days, startDate) => `Next poll window starts in ${days} (${startDate}).`,
+  leaderboardEmpty: "No registered group chats yet.",
+  leaderboardUnavailable: (skipped) =>
+    `Leaderboard is unavailable right now. Skipped ${skipped} chats due to missing access.`,
+  leaderboardHeading: "Group leaderboard (members):",
+  leaderboardSkipped: (skipped) => `Skipped ${skipped} chats due to missing access.`,
+  leaderboardJoin: "Join",
+  leaderboardNoLink: "link unavailable",
+  leaderboardChat: (chatId) => `Chat ${chatId}`,
+  members: (count) => plural(count, "member", "members"),
+
+  privateStart: [
+    "Hi!👋",
+    "I'm the Random Coffee bot for group chats 🤖",
+    "",
+    "Here I will send you every partner I pick for you in each group where you signed up for meetings",
+    "",
+    "You can also fill in and edit your profile here so I can match you better. If you want better matches, tap \"Fill in profile\" below 👇",
+    "",
+    "If you want to add the bot to your own group, tap \"I'm an organizer\". I'll show you how.",
+    "",
+    "Use /history to see who you have already met and /language to change the language."
+  ],
+  profileLabel: "Fill in profile",
+  organizerLabel: "I'm an organizer",
+  exclusionsLabel: "Don't pair me with",
+  exclusionsMenuEmpty: [
+    "Here you can ask me to never pair you with a specific person.",
+    "",
+    "There is nobody to choose yet: vote «Yes» in a group poll and I will show you the other participants."
+  ],
+  exclusionsMenu: [
+    "Choose who you should not be paired with. They will not know about it.",
+    "",
+    "🚫 — never pair us again, ✅ — lift the exclusion."
+  ],
+  exclusionAdded: (name, chatTitle) => `Done. ${name} will not be paired with you again in «${chatTitle}».`,
+  exclusionRemoved: (name, chatTitle) => `Done. ${name} can be paired with you again in «${chatTitle}».`,
+  exclusionOutdated: "This button is outdated. Tap «Don't pair me with» to open the current list.",
+  historyEmpty: "You have had no meetings yet. Vote «Yes» in a group poll and they will appear here after the results.",
+  historyHeading: "Your past meetings:",
+  historyPagedHeading: (page, pageCount) => `Your past meetings (${page} of ${pageCount}):`,
+  historyOlder: "◀️ Older",
+  historyNewer: "Newer ▶️",
+
+  feedbackRequest: (summaryDate, chatTitle, partners) => [
+    `Hi! On ${summaryDate} in «${chatTitle}» you were matched with ${partners}.`,
+    "",
+    "Did you manage to meet?"
+  ],
+  feedbackChoices: {
+    met: "✅ Yes, we met",
+    missed: "❌ It didn't work out",
+    great: "👍 Great",
+    ok: "🙂 Fine",
+    bad: "👎 Not great",
+    skip: "Skip"
+  },
+  feedbackReplies: {
+    askRating: "Great! How did it go?",
+    askComment: "Thanks! If you like, describe the meeting in one message or tap «Skip».",
+    thanks: "Thanks for the answer! It helps us understand which meetings work out.",
+    outdated: "This survey is no longer relevant: it belongs to a meeting you are not part of."
+  },
+  meetingReminder: (summaryDate, chatTitle, partners) => [
+    `Reminder: on ${summaryDate} in «${chatTitle}» you are organizing a meeting with ${partners}.`,
+    "",
+    "If you have already agreed on a time, tap the button below."
+  ],
+  arrangedLabel: "📅 We've scheduled it",
+  arrangedReplies: {
+    arranged: "Great, I noted that the meeting is scheduled. Enjoy your coffee! ☕",
+    outdated: "This button is no longer relevant: it belongs to a meeting you are not part of."
+  },
+
+  profileIntro: [
+    "Great! Here is what comes next:",
+    "",
+    "1️⃣ Filling in a short questionnaire about yourself",
+    "2️⃣ Optionally, picking people you'd like to meet",
+    "",
+    "When the poll in your group closes, the bot will find you a partner among all participants."
+  ],
+  profileWidget: [
+    "Thank you! ",
+    "Time to fill in your profile 🪄",
+    "",
+    "I will send it to your partners every week.",
+    "",
+    "To be honest, it is better to fill it in properly. Your profile is the first impression of you, and an empty or sloppy one can make meetings less likely ☝️",
+    "I will ask six short questions — answer right in this chat. Any question can be skipped.",
+    "",
+    "You can change your profile by tapping «Fill in profile» again."
+  ],
+  profileSaved: [
+    "Done! I saved your profile.",
+    "If you want to change it, tap the button below.",
+    "",
+    "If you are happy with your profile, you can join Random Coffee.",
+    "Send /leaderboard to find active chats to join."
+  ],
+  profileRedoLabel: "Fill in profile again",
+  profileSkipLabel: "Skip",
+  profileQuestions: {
+    occupation: "What do you do? Tell me about your work or studies.",
+    interests: "What are you into outside of work?",
+    hooks: "What is it interesting to talk to you about? A couple of conversation starters.",
+    city: "Which city do you live in?",
+    languages: "Which languages are you comfortable talking in?",
+    meetingFormat: "How would you prefer to meet?"
+  },
+  profileChoiceHint: "Pick an option with the buttons below.",
+  profileTextHint: "Answer in one message or tap «Skip».",
+  profileRetry: "I couldn't understand the answer — please try again.",
+  meetingFormats: { offline: "In person", online: "Online", any: "Either" },
+  profileFieldTitles: {
+    occupation: "Occupation",
+    interests: "Interests",
+    hooks: "Conversation starters",
+    city: "City",
+    languages: "Languages",
+    meetingFormat: "Meeting format"
+  },
+  profileAbout: "About",
+  organizerGuide: [
+    "How to add the bot to a group:",
+    "1) Open the group → Add member → find this bot and add it.",
+    "2) Make the bot an admin and allow it to send messages and polls.",
+    "3) Send /start in the group so the bot starts working.",
+    "",
+    "Admin commands in the group:",
+    "/settopic — choose the topic for polls (or the main chat).",
+    "/poll — start a poll right now.",
+    "/summary — close the poll and post the results.",
+    "/nextpoll — find out when the next poll starts.",
+    "/setlink link — add a link to the group for /leaderboard.",
+    "/triples on|off — form a group of three when the number of participants is odd.",
+    "/decay weeks|off — after how many weeks a past meeting counts half as much.",
+    "/schedule wed thu — which day the poll opens and which day results are posted.",
+    "/frequency weekly|biweekly|monthly — how often rounds run.",
+    "/time 10:00 18:00 — what time the poll opens and what time results are posted.",
+    "/timezone Europe/Moscow|default — the time zone for poll and result days.",
+    "/reminder wed|off — which day organizers are reminded to arrange the meeting.",
+    "/language en|ru|default — the language of the bot in the group.",
+    "/pollwording question | *yes | no — your own poll question and options.",
+    "/mode poll|subscription — a poll every round or a standing roster of subscribers.",
+    "/exclusions — how many participants asked not to be paired with each other.",
+    "/stats — round statistics: participants, repeat pairs and who was left without a pair.",
+    "/leaderboard — list groups by size.",
+    "",
+    "Member commands in subscription mode:",
+    "/subscribe, /unsubscribe, /skip [YYYY-MM-DD] — join or leave the roster, or sit out the next round or a later one.",
+    "",
+    "If something doesn't work — write here."
+  ],
+  startReply: (pollDay, summaryDay) => [
+    "Random Coffee bot is active ✅",
+    `Polls: ${pollDay}. Results: ${summaryDay}.`,
+    "Make sure the bot can send polls in this chat."
+  ],
+
+  pairingGreeting: "Meet your match! 🎩",
+  pairingStandby: "You signed up as a standby, and this week someone needed a partner. Thanks for stepping in! 🙌",
+  pairingAgreedFormat: (format) => `You agreed to meet: ${format}`,
+  pairingGroupHeading: "Your partner for this week:",
+  pairingTripleHeading: "This week you are meeting as a group of three! Your partners:",
+  pairingEmptyProfile: "No profile yet — a good reason to ask in person 🙂",
+  pairingLegacyProfileNudge: "📝 Profiles now consist of short questions: city, languages, meeting format and more.",
+  pairingEmptyProfileNudge: "📝 Your profile is still empty, so your partners have nothing to read about you.",
+  pairingProfileAction: "Fill it in: send me /start and tap «Fill in profile».",
+  pairingOrganizer: (partners, handles) => [
+    "‼️  You were randomly chosen to organize this meeting",
+    "That means you write first this week! 😉",
+    `Message ${
+      partners === 1 ? "your partner" : "your partners"
+    } on Telegram - ${handles} - right away so you don't forget.`,
+    ""
+  ],
+  pairingNoPartner: (groupLabel) => [
+    `You did not get a partner this week in the group ${groupLabel}.`,
+    "Someone may have missed the poll and will write later."
+  ],
+  pairingProfileHelp: "You can view and change your photo or profile details in /help",
+  pairingCheatSheet: "➪ Cheat sheet before the meeting",
+
+  pollQuestion: "Hi! Will you join Random Coffee next week? ☕️",
+  pollFormatOptions: { online: "Yes, online 💻", offline: "Yes, in person ☕️", any: "Yes, either works 🤗" },
+  pollStandbyOption: "Only if someone needs a partner 🙋",
+  pollDeclineOption: "Not this time 💁🏽‍♂️",
+  pollClosedNoResults: "The poll was already closed, so there are no results.",
+  summaryDefaultTitle: "Random Coffee",
+  summaryNotEnough: (title) => `Not enough participants for ${title} this week.`,
+  summaryNoPairs: (title) => `Not enough participants to make pairs for ${title} this week.`,
+  summarySignedUp: "Signed up:",
+  summaryMissedPoll: "If you missed the poll but still want a meeting this week, please DM them.",
+  summaryReady: (title) => `Pairs for ${title} are ready!`,
+  summaryFindMatch: "Find your match for this week below:",
+  summaryNoMatch: "No match this week:",
+  summaryClosing: "DM your partner to agree on a convenient time and format ☕️",
+  summaryTripleClosing:
+    "DM your partner (or both partners if you are in a group of three) to agree on a convenient time and format ☕️",
+  ...enSubscriptions,
+  ...enRematch
+}
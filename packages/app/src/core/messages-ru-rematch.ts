@@ -0,0 +1,22 @@
+import type { RematchMessages } from "./messages.js"
+
+// CHANGE: define the Russian strings of the re-match button
+// WHY: the presser and the partner who is dropped from the cancelled pair both need a reply
+// QUOTE(TZ): "Pressing it re-pairs the affected participants with other cancelled people or with the round's leftovers"
+// REF: user-020-rematch-cancelled
+// SOURCE: n/a
+// FORMAT THEOREM: forall k in keys(RematchMessages): ruRematch[k] is defined
+// PURITY: CORE
+// INVARIANT: the button label matches the one named in the pairing DM
+// COMPLEXITY: O(1)/O(1)
+export const ruRematch: RematchMessages = {
+  rematchLabel: "🙅 Партнёр отменил встречу",
+  rematchReplies: {
+    rematched: "Жаль, что встреча сорвалась. Я подобрал тебе новую пару — подробности в следующем сообщении.",
+    waiting:
+      "Жаль, что встреча сорвалась. Свободных участников пока нет — если на этой неделе кто-то ещё останется без пары, я вас познакомлю.",
+    outdated: "Эта кнопка уже неактуальна: встреча относится к прошлому раунду или уже пересобрана."
+  },
+  rematchDropped: (name, chatTitle) =>
+    `${name} отменяет встречу из «${chatTitle}», поэтому в этом раунде у тебя нет пары. Если это неожиданно, напиши участнику напрямую. До встречи в следующем раунде!`
+}
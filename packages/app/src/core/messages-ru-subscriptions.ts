@@ -0,0 +1,47 @@
+import type { SubscriptionMessages } from "./messages.js"
+
+// CHANGE: define the Russian strings of subscription mode
+// WHY: subscription mode adds group replies and a private menu of its own, kept apart from the main catalog
+// QUOTE(TZ): "users subscribe once and stay in the pool, through a DM button or a group command"
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall k in keys(SubscriptionMessages): ruSubscriptions[k] is defined
+// PURITY: CORE
+// INVARIANT: button labels match the ones listed in the private menu texts
+// COMPLEXITY: O(1)/O(1)
+export const ruSubscriptions: SubscriptionMessages = {
+  modeSaved: {
+    poll: "Режим опросов сохранён: участники записываются через опрос перед каждым раундом.",
+    subscription:
+      "Режим подписки сохранён: опросов больше не будет. Участники один раз пишут /subscribe и попадают в каждый раунд, пока не напишут /unsubscribe."
+  },
+  modeUsage: (mode) => `Режим чата: ${mode}. Пример: /mode poll или /mode subscription`,
+  pollsOff: "В этом чате пары составляются из подписчиков, без опросов. Чтобы участвовать, напиши /subscribe.",
+  subscriptionReplies: {
+    subscribed: (name) =>
+      `${name} в списке подписчиков и участвует в каждом раунде. /skip — пропустить раунд, /unsubscribe — отписаться.`,
+    unsubscribed: (name) => `${name} больше не в списке подписчиков. /subscribe вернёт тебя обратно.`,
+    notSubscribed: (name) => `${name}, тебя нет в списке подписчиков. Сначала напиши /subscribe.`,
+    pollMode: () =>
+      "В этом чате участники записываются через опрос. Админы могут включить подписку: /mode subscription."
+  },
+  skipSaved: (name, summaryDate) => `${name} пропускает раунд ${summaryDate}.`,
+  skipUsage: (summaryDate) =>
+    `Пример: /skip — пропустить раунд ${summaryDate}, /skip ГГГГ-ММ-ДД — пропустить более поздний раунд в тот же день недели.`,
+  subscriptionsLabel: "Мои подписки",
+  subscriptionsMenuEmpty: [
+    "Здесь можно подписаться на группы, которые составляют пары из подписчиков без опросов, или отписаться от них.",
+    "",
+    "Пока здесь пусто: напиши /subscribe в такой группе, и она появится в списке."
+  ],
+  subscriptionsMenu: [
+    "Группы, которые составляют пары из подписчиков без опросов.",
+    "",
+    "➕ — подписаться, ✅ — ты в списке, нажми, чтобы отписаться."
+  ],
+  subscriptionButtonReplies: {
+    joined: (chatTitle) => `Готово. Ты участвуешь в каждом раунде «${chatTitle}», пока не отпишешься.`,
+    left: (chatTitle) => `Готово. Тебя больше нет в списке подписчиков «${chatTitle}».`,
+    outdated: () => "Эта кнопка устарела. Нажми «Мои подписки», чтобы открыть актуальный список."
+  }
+}
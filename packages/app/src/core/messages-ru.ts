@@ -0,0 +1,316 @@
+import { ruRematch } from "./messages-ru-rematch.js"
+import { ruSubscriptions } from "./messages-ru-subscriptions.js"
+import type { Messages } from "./messages.js"
+
+const plural = (count: number, one: string, few: string, many: string): string => {
+  const tens = count % 100
+  const units = count % 10
+  if (units === 1 && tens !== 11) {
+    return `${count} ${one}`
+  }
+  return units >= 2 && units <= 4 && (tens < 12 || tens > 14) ? `${count} ${few}` : `${count} ${many}`
+}
+
+// CHANGE: define the Russian message catalog
+// WHY: Russian-speaking communities should get the whole bot, including polls and summaries, in Russian
+// QUOTE(TZ): "We want a message catalog with at least `en` and `ru`"
+// REF: user-021-localization
+// SOURCE: n/a
+// FORMAT THEOREM: forall k in keys(Messages): ru[k] is defined
+// PURITY: CORE
+// INVARIANT: strings that existed in Russian before the catalog are kept verbatim
+// COMPLEXITY: O(1)/O(1)
+export const ru: Messages = {
+  languageNames: { en: "английский", ru: "русский" },
+  weekdays: { Mon: "пн", Tue: "вт", Wed: "ср", Thu: "чт", Fri: "пт", Sat: "сб", Sun: "вс" },
+  noHandle: "None",
+  untitledGroup: "(без названия)",
+  groupLinkText: "группа",
+  groupTitle: (label) => `Группа: ${label}`,
+  summaryLink: (href) => `Итоги недели: <a href="${href}">ссылка</a>`,
+  untitledChat: "группа без названия",
+  days: (count) => plural(count, "день", "дня", "дней"),
+
+  adminOnly: "Эта команда доступна только администраторам чата.",
+  setTopicMain: "Готово. Опросы будут приходить в основной чат.",
+  setTopicThread: "Готово. Опросы будут приходить в этот топик.",
+  setLinkSaved: "Ссылка на группу сохранена.",
+  setLinkInvalid: "Неверная ссылка. Пример: /setlink https://t.me/yourgroup",
+  triplesSaved: (enabled) =>
+    enabled
+      ? "Тройки включены. При нечётном числе участников соберётся одна группа из трёх человек."
+      : "Тройки выключены. При нечётном числе участников один человек останется без пары.",
+  triplesUsage: (enabled) => `Тройки ${enabled ? "включены" : "выключены"}. Пример: /triples on или /triples off`,
+  decaySaved: (halfLifeWeeks) =>
+    halfLifeWeeks === null
+      ? "Затухание выключено. Каждая прошлая встреча считается полным повтором."
+      : `Затухание сохранено. Прошлая встреча весит вдвое меньше через ${halfLifeWeeks} нед.`,
+  decayUsage: (halfLifeWeeks) => {
+    const current = halfLifeWeeks === null ? "выключен" : `${halfLifeWeeks} нед.`
+    return `Период затухания: ${current}. Пример: /decay 12 или /decay off`
+  },
+  scheduleDays: (pollDay, summaryDay) => `опрос открывается в ${pollDay}, итоги подводятся в ${summaryDay}`,
+  scheduleSaved: (days) => `Расписание сохранено: ${days}.`,
+  scheduleUsage: (days) => `Сейчас ${days}. Пример: /schedule wed thu`,
+  scheduleTimes: (pollTime, summaryTime) => `опрос открывается в ${pollTime}, итоги подводятся в ${summaryTime}`,
+  scheduleTimesSaved: (times) => `Время сохранено: ${times}.`,
+  scheduleTimesUsage: (times) => `Сейчас ${times}. Пример: /time 10:00 18:00`,
+  roundFrequencies: { weekly: "каждую неделю", biweekly: "раз в две недели", monthly: "раз в четыре недели" },
+  frequencySaved: (frequency) => `Частота сохранена. Раунды теперь проходят ${frequency}.`,
+  frequencyUsage: (frequency) =>
+    `Раунды проходят ${frequency}. Пример: /frequency weekly, /frequency biweekly или /frequency monthly`,
+  timeZoneSaved: (timeZone) =>
+    timeZone === null
+      ? "Часовой пояс сброшен на пояс бота по умолчанию."
+      : `Часовой пояс сохранён. Опросы и итоги теперь идут по ${timeZone}.`,
+  timeZoneUsage: (timeZone) =>
+    `Часовой пояс: ${timeZone ?? "по умолчанию"}. Пример: /timezone Europe/Moscow или /timezone default`,
+  reminderSaved: (reminderDay) =>
+    reminderDay === null
+      ? "Напоминания организаторам выключены."
+      : `Напоминания сохранены: о неподтверждённых встречах напомню в ${reminderDay}.`,
+  reminderUsage: (reminderDay) =>
+    `Напоминания организаторам: ${reminderDay ?? "выключены"}. Пример: /reminder wed или /reminder off`,
+  chatLanguageSaved: (language) =>
+    language === null
+      ? "Язык сброшен: в этом чате английский, в личных сообщениях русский."
+      : `Язык сохранён: ${language}. Так бот будет писать здесь и в личке участникам, которые не выбрали свой язык.`,
+  chatLanguageUsage: (language) =>
+    `Язык чата: ${language ?? "по умолчанию"}. Пример: /language en, /language ru или /language default`,
+  userLanguageSaved: (language) =>
+    language === null
+      ? "Готово. Личные сообщения снова будут на языке твоих групп."
+      : `Готово. Теперь я пишу тебе на языке: ${language}.`,
+  userLanguageUsage: (language) =>
+    `Я пишу тебе на языке: ${language}. Пример: /language en, /language ru или /language default`,
+  pollWordingSaved: (wording) =>
+    wording === null
+      ? "Текст опроса сброшен на стандартный."
+      : `Текст опроса сохранён. Следующий опрос спросит:\n${wording}`,
+  pollWordingUsage: (wording) => [
+    "Сейчас опрос такой:",
+    wording,
+    "",
+    "Пример: /pollwording Идём на кофе на следующей неделе? | *Я в деле | В этот раз пас",
+    "Вопрос и варианты разделяются |. Вариант со * записывает на встречу, без отметки — первый.",
+    "/pollwording default вернёт стандартный опрос."
+  ],
+  pollWordingJoin: "(участвую)",
+  pollWordingFormats:
+    "В своём опросе нет выбора между онлайном и офлайном: всех записавшихся подбираем так, будто им подходит любой формат.",
+  exclusionsCount: (count) => `Активных исключений в этом чате: ${count}. Участники управляют ими в личке с ботом.`,
+
+  notAvailable: "н/д",
+  turnoutWithLeftovers: (date, participants, leftovers) => `${date}: ${participants} (${leftovers} без пары)`,
+  statsEmpty: "Раундов пока не было. Статистика появится после первых итогов.",
+  statsHeading: (shown, total) => `Статистика за последние ${shown} из ${total} раундов.`,
+  statsParticipants: "Участников в раунде:",
+  statsRepeatPairs: (rate) => `Повторные пары: ${rate}`,
+  statsAverageMeetings: (average) => `Встреч на пару в среднем: ${average}`,
+  statsUnmatched: (share) => `Проголосовавших «Да» без пары: ${share}`,
+
+  pollAlreadyActive: "Опрос уже идёт. Чтобы закрыть его, используй /summary.",
+  pollAlreadyActiveWithDate: (summaryDate) => `Опрос уже идёт. Итоги ${summaryDate}.`,
+  pollWindowOpen: "Окно опроса открыто. Запустить опрос можно командой /poll.",
+  nextPollWindow: (days, startDate) => `Следующее окно опроса через ${days} (${startDate}).`,
+  leaderboardEmpty: "Пока нет зарегистрированных групп.",
+  leaderboardUnavailable: (skipped) => `Рейтинг сейчас недоступен. Пропущено чатов без доступа: ${skipped}.`,
+  leaderboardHeading: "Рейтинг групп (участники):",
+  leaderboardSkipped: (skipped) => `Пропущено чатов без доступа: ${skipped}.`,
+  leaderboardJoin: "Вступить",
+  leaderboardNoLink: "ссылки нет",
+  leaderboardChat: (chatId) => `Чат ${chatId}`,
+  members: (count) => plural(count, "участник", "участника", "участников"),
+
+  privateStart: [
+    "Привет!👋",
+    "Я Random Coffee бот для групповых чатов 🤖",
+    "",
+    "Здесь я буду дублировать для тебя всех партнеров, подобранных в каждой группе, где ты подтвердил участие во встречах",
+    "",
+    "Также тут ты можешь заполнить и отредактировать свой профиль, чтобы я мог подключить умный алгоритм и лучше подбирать тебе пары. Если хочешь повысить точность подбора, жми кнопку \"Заполнить профиль\" ниже 👇",
+    "",
+    "А если хочешь добавить бот в свою группу, жми \"Я организатор\".  Подскажу, как это сделать.",
+    "",
+    "С кем ты уже встречался, покажу по команде /history, а язык сообщений можно сменить командой /language."
+  ],
+  profileLabel: "Заполнить профиль",
+  organizerLabel: "Я организатор",
+  exclusionsLabel: "Не ставить в пару",
+  exclusionsMenuEmpty: [
+    "Здесь можно попросить меня никогда не ставить тебя в пару с конкретным человеком.",
+    "",
+    "Сейчас выбрать некого: проголосуй «Yes» в опросе группы, и я покажу других участников."
+  ],
+  exclusionsMenu: [
+    "Выбери, с кем тебя не нужно ставить в пару. Человек об этом не узнает.",
+    "",
+    "🚫 — больше не ставить в пару, ✅ — снять запрет."
+  ],
+  exclusionAdded: (name, chatTitle) => `Готово. ${name} больше не попадёт к тебе в пару в «${chatTitle}».`,
+  exclusionRemoved: (name, chatTitle) => `Готово. ${name} снова может попасть к тебе в пару в «${chatTitle}».`,
+  exclusionOutdated: "Эта кнопка устарела. Нажми «Не ставить в пару», чтобы открыть актуальный список.",
+  historyEmpty:
+    "Пока у тебя не было встреч. Проголосуй «Yes» в опросе группы, и после подведения итогов они появятся здесь.",
+  historyHeading: "Твои прошлые встречи:",
+  historyPagedHeading: (page, pageCount) => `Твои прошлые встречи (${page} из ${pageCount}):`,
+  historyOlder: "◀️ Раньше",
+  historyNewer: "Позже ▶️",
+
+  feedbackRequest: (summaryDate, chatTitle, partners) => [
+    `Привет! ${summaryDate} в «${chatTitle}» тебе выпала встреча с ${partners}.`,
+    "",
+    "Получилось встретиться?"
+  ],
+  feedbackChoices: {
+    met: "✅ Да, встретились",
+    missed: "❌ Не получилось",
+    great: "👍 Отлично",
+    ok: "🙂 Нормально",
+    bad: "👎 Не очень",
+    skip: "Пропустить"
+  },
+  feedbackReplies: {
+    askRating: "Здорово! Как всё прошло?",
+    askComment: "Спасибо! Если хочешь, напиши пару слов о встрече одним сообщением или нажми «Пропустить».",
+    thanks: "Спасибо за ответ! Так мы понимаем, какие встречи получаются.",
+    outdated: "Этот опрос уже неактуален: он относится к встрече, в которой тебя нет."
+  },
+  meetingReminder: (summaryDate, chatTitle, partners) => [
+    `Напоминание: ${summaryDate} в «${chatTitle}» ты организуешь встречу с ${partners}.`,
+    "",
+    "Если вы уже договорились о времени, нажми кнопку ниже."
+  ],
+  arrangedLabel: "📅 Мы договорились",
+  arrangedReplies: {
+    arranged: "Отлично, отметил, что встреча назначена. Хорошего кофе! ☕",
+    outdated: "Эта кнопка уже неактуальна: она относится к встрече, в которой тебя нет."
+  },
+
+  profileIntro: [
+    "Отлично! Вот, какие дальнейшие шаги тебя ждут:",
+    "",
+    "1️⃣ Заполнение анкеты о себе",
+    "2️⃣ По желанию Предвыбор интересных собеседников",
+    "",
+    "А когда опрос в твоей группе закроется, бот подберет тебе пару среди всех участников."
+  ],
+  profileWidget: [
+    "Спасибо! ",
+    "Время заполнить анкету 🪄",
+    "",
+    "Я буду присылать её твоим собеседникам каждую неделю.",
+    "",
+    "Скажу честно: лучше заполнить её подробно. Анкета — это первое впечатление о тебе. И с пустой или плохо заполненной анкетой вероятность встреч может снизиться ☝️",
+    "Я задам шесть коротких вопросов — отвечай прямо в этом чате. Любой вопрос можно пропустить.",
+    "",
+    "Изменить анкету можно, снова нажав кнопку «Заполнить профиль»."
+  ],
+  profileSaved: [
+    "Готово! Я сохранил твою анкету.",
+    "Если захочешь изменить — нажми кнопку ниже.",
+    "",
+    "Если тебя устраивает твой профиль — можешь присоединяться к Random Coffee.",
+    "Напиши /leaderboard, чтобы узнать активные чаты для участия."
+  ],
+  profileRedoLabel: "Заполнить профиль заново",
+  profileSkipLabel: "Пропустить",
+  profileQuestions: {
+    occupation: "Чем ты занимаешься? Расскажи про работу или учёбу.",
+    interests: "Что тебя увлекает вне работы?",
+    hooks: "О чём с тобой интересно поговорить? Пара зацепок для начала разговора.",
+    city: "В каком городе ты живёшь?",
+    languages: "На каких языках тебе удобно общаться?",
+    meetingFormat: "Как тебе удобнее встречаться?"
+  },
+  profileChoiceHint: "Выбери вариант кнопкой ниже.",
+  profileTextHint: "Ответь одним сообщением или нажми «Пропустить».",
+  profileRetry: "Не получилось разобрать ответ — попробуй ещё раз.",
+  meetingFormats: { offline: "Вживую", online: "Онлайн", any: "Без разницы" },
+  profileFieldTitles: {
+    occupation: "Чем занимается",
+    interests: "Увлечения",
+    hooks: "Зацепки для начала разговора",
+    city: "Город",
+    languages: "Языки",
+    meetingFormat: "Формат встречи"
+  },
+  profileAbout: "О себе",
+  organizerGuide: [
+    "Как добавить бота в группу:",
+    "1) Открой группу → Добавить участника → найди этого бота и добавь его.",
+    "2) Сделай бота администратором и включи права отправки сообщений и опросов.",
+    "3) Напиши в группе /start, чтобы бот начал работу.",
+    "",
+    "Админские команды в группе:",
+    "/settopic — выбрать топик для опросов (или основной чат).",
+    "/poll — запустить опрос прямо сейчас.",
+    "/summary — завершить опрос и подвести итог.",
+    "/nextpoll — узнать, когда следующий опрос.",
+    "/setlink ссылка — добавить ссылку на группу для /leaderboard.",
+    "/triples on|off — собирать тройку, если участников нечётное число.",
+    "/decay недели|off — через сколько недель прошлая встреча весит вдвое меньше.",
+    "/schedule wed thu — в какой день открывать опрос и в какой подводить итог.",
+    "/frequency weekly|biweekly|monthly — как часто проводить раунды.",
+    "/time 10:00 18:00 — во сколько открывать опрос и во сколько подводить итог.",
+    "/timezone Europe/Moscow|default — часовой пояс, по которому считаются дни опроса и итогов.",
+    "/reminder wed|off — в какой день напомнить организаторам договориться о встрече.",
+    "/language en|ru|default — на каком языке бот пишет в группе.",
+    "/pollwording вопрос | *да | нет — свой текст вопроса и вариантов опроса.",
+    "/mode poll|subscription — опрос перед каждым раундом или постоянный список подписчиков.",
+    "/exclusions — сколько участников попросили не ставить их в пару друг с другом.",
+    "/stats — статистика раундов: участники, повторные пары и кто остался без пары.",
+    "/leaderboard — показать список групп по размеру.",
+    "",
+    "Команды участников в режиме подписки:",
+    "/subscribe, /unsubscribe, /skip [ГГГГ-ММ-ДД] — подписаться, отписаться или пропустить ближайший или более поздний раунд.",
+    "",
+    "Если что-то не выходит — напиши сюда."
+  ],
+  startReply: (pollDay, summaryDay) => [
+    "Random Coffee бот запущен ✅",
+    `Опрос: ${pollDay}. Итоги: ${summaryDay}.`,
+    "Убедитесь, что бот может отправлять опросы в этот чат."
+  ],
+
+  pairingGreeting: "Знакомься! 🎩",
+  pairingStandby: "Ты в списке запасных, и на этой неделе кому-то не хватило пары. Спасибо, что выручаешь! 🙌",
+  pairingAgreedFormat: (format) => `Договорились о формате: ${format}`,
+  pairingGroupHeading: "Твоя пара на эту неделю:",
+  pairingTripleHeading: "На этой неделе вы встречаетесь втроём! Твои собеседники:",
+  pairingEmptyProfile: "Анкета пока не заполнена — самое время расспросить при встрече 🙂",
+  pairingLegacyProfileNudge: "📝 Анкета теперь состоит из коротких вопросов: город, языки, формат встречи и другие.",
+  pairingEmptyProfileNudge: "📝 Твоя анкета пока пустая, и собеседникам нечего о тебе прочитать.",
+  pairingProfileAction: "Заполни её: напиши мне /start и нажми «Заполнить профиль».",
+  pairingOrganizer: (partners, handles) => [
+    "‼️  Ты рандомно выбран организатором этой встречи",
+    "Это значит, что на этой неделе ты пишешь первым! 😉",
+    `Напиши ${partners === 1 ? "собеседнику" : "собеседникам"} в Телеграм - ${handles} - сразу, чтобы не забыть.`,
+    ""
+  ],
+  pairingNoPartner: (groupLabel) => [
+    `На этой неделе тебе не досталась пара в группе ${groupLabel}.`,
+    "Возможно, кто-то не успел проголосовать и напишет позже."
+  ],
+  pairingProfileHelp: "Посмотреть и поменять фото или данные своего профиля ты можешь в /help",
+  pairingCheatSheet: "➪ Шпаргалка перед встречей",
+
+  pollQuestion: "Привет! Участвуешь в Random Coffee на следующей неделе? ☕️",
+  pollFormatOptions: { online: "Да, онлайн 💻", offline: "Да, вживую ☕️", any: "Да, любой формат 🤗" },
+  pollStandbyOption: "Только если кому-то не хватит пары 🙋",
+  pollDeclineOption: "В этот раз нет 💁🏽‍♂️",
+  pollClosedNoResults: "Опрос уже был закрыт, поэтому итогов нет.",
+  summaryDefaultTitle: "Random Coffee",
+  summaryNotEnough: (title) => `На этой неделе в ${title} недостаточно участников.`,
+  summaryNoPairs: (title) => `На этой неделе в ${title} недостаточно участников, чтобы составить пары.`,
+  summarySignedUp: "Записались:",
+  summaryMissedPoll: "Если ты пропустил опрос, но хочешь встретиться на этой неделе, напиши им в личку.",
+  summaryReady: (title) => `Пары для ${title} составлены!`,
+  summaryFindMatch: "Ищи свою пару на эту неделю ниже:",
+  summaryNoMatch: "Без пары на этой неделе:",
+  summaryClosing: "Напиши партнёру в личку, чтобы договориться об удобном времени и формате ☕️",
+  summaryTripleClosing:
+    "Напиши партнёру (или обоим партнёрам, если вас трое) в личку, чтобы договориться об удобном времени и формате ☕️",
+  ...ruSubscriptions,
+  ...ruRematch
+}
@@ -0,0 +1,164 @@
+import type { ChatMode, Language, MeetingFormat, ProfileField, RoundFrequency, Weekday } from "./domain.js"
+import type { FeedbackChoice, FeedbackReply } from "./feedback.js"
+import type { RematchReply } from "./rematch.js"
+import type { ArrangedReply } from "./reminders.js"
+import type { SubscriptionButtonReply, SubscriptionReply } from "./subscriptions.js"
+
+// Strings of subscription mode; each language keeps them in its own messages-<language>-subscriptions.ts file.
+export type SubscriptionMessages = {
+  readonly modeSaved: Readonly<Record<ChatMode, string>>
+  readonly modeUsage: (mode: ChatMode) => string
+  readonly pollsOff: string
+  readonly subscriptionReplies: Readonly<Record<SubscriptionReply, (name: string) => string>>
+  readonly skipSaved: (name: string, summaryDate: string) => string
+  readonly skipUsage: (summaryDate: string) => string
+  readonly subscriptionsLabel: string
+  readonly subscriptionsMenuEmpty: ReadonlyArray<string>
+  readonly subscriptionsMenu: ReadonlyArray<string>
+  readonly subscriptionButtonReplies: Readonly<Record<SubscriptionButtonReply, (chatTitle: string) => string>>
+}
+
+// Strings of the re-match button; each language keeps them in its own messages-<language>-rematch.ts file.
+export type RematchMessages = {
+  readonly rematchLabel: string
+  readonly rematchReplies: Readonly<Record<RematchReply, string>>
+  readonly rematchDropped: (name: string, chatTitle: string) => string
+}
+
+// Every user-facing string of the bot in one language. Values that embed user input receive it HTML-escaped;
+// multi-line messages are lists of lines joined by text.ts and the text-<area>.ts modules.
+export type Messages =
+  & {
+    readonly languageNames: Readonly<Record<Language, string>>
+    readonly weekdays: Readonly<Record<Weekday, string>>
+    readonly noHandle: string
+    readonly untitledGroup: string
+    readonly groupLinkText: string
+    readonly groupTitle: (label: string) => string
+    readonly summaryLink: (href: string) => string
+    readonly untitledChat: string
+    readonly days: (count: number) => string
+
+    readonly adminOnly: string
+    readonly setTopicMain: string
+    readonly setTopicThread: string
+    readonly setLinkSaved: string
+    readonly setLinkInvalid: string
+    readonly triplesSaved: (enabled: boolean) => string
+    readonly triplesUsage: (enabled: boolean) => string
+    readonly decaySaved: (halfLifeWeeks: number | null) => string
+    readonly decayUsage: (halfLifeWeeks: number | null) => string
+    readonly scheduleDays: (pollDay: string, summaryDay: string) => string
+    readonly scheduleSaved: (days: string) => string
+    readonly scheduleUsage: (days: string) => string
+    readonly scheduleTimes: (pollTime: string, summaryTime: string) => string
+    readonly scheduleTimesSaved: (times: string) => string
+    readonly scheduleTimesUsage: (times: string) => string
+    readonly roundFrequencies: Readonly<Record<RoundFrequency, string>>
+    readonly frequencySaved: (frequency: string) => string
+    readonly frequencyUsage: (frequency: string) => string
+    readonly timeZoneSaved: (timeZone: string | null) => string
+    readonly timeZoneUsage: (timeZone: string | null) => string
+    readonly reminderSaved: (reminderDay: string | null) => string
+    readonly reminderUsage: (reminderDay: string | null) => string
+    readonly chatLanguageSaved: (language: string | null) => string
+    readonly chatLanguageUsage: (language: string | null) => string
+    readonly userLanguageSaved: (language: string | null) => string
+    readonly userLanguageUsage: (language: string) => string
+    readonly pollWordingSaved: (wording: string | null) => string
+    readonly pollWordingUsage: (wording: string) => ReadonlyArray<string>
+    readonly pollWordingJoin: string
+    readonly pollWordingFormats: string
+    readonly exclusionsCount: (count: number) => string
+
+    readonly notAvailable: string
+    readonly turnoutWithLeftovers: (date: string, participants: number, leftovers: number) => string
+    readonly statsEmpty: string
+    readonly statsHeading: (shown: number, total: number) => string
+    readonly statsParticipants: string
+    readonly statsRepeatPairs: (rate: string) => string
+    readonly statsAverageMeetings: (average: string) => string
+    readonly statsUnmatched: (share: string) => string
+
+    readonly pollAlreadyActive: string
+    readonly pollAlreadyActiveWithDate: (summaryDate: string) => string
+    readonly pollWindowOpen: string
+    readonly nextPollWindow: (days: string, startDate: string) => string
+    readonly leaderboardEmpty: string
+    readonly leaderboardUnavailable: (skipped: number) => string
+    readonly leaderboardHeading: string
+    readonly leaderboardSkipped: (skipped: number) => string
+    readonly leaderboardJoin: string
+    readonly leaderboardNoLink: string
+    readonly leaderboardChat: (chatId: string) => string
+    readonly members: (count: number) => string
+
+    readonly privateStart: ReadonlyArray<string>
+    readonly profileLabel: string
+    readonly organizerLabel: string
+    readonly exclusionsLabel: string
+    readonly exclusionsMenuEmpty: ReadonlyArray<string>
+    readonly exclusionsMenu: ReadonlyArray<string>
+    readonly exclusionAdded: (name: string, chatTitle: string) => string
+    readonly exclusionRemoved: (name: string, chatTitle: string) => string
+    readonly exclusionOutdated: string
+    readonly historyEmpty: string
+    readonly historyHeading: string
+    readonly historyPagedHeading: (page: number, pageCount: number) => string
+    readonly historyOlder: string
+    readonly historyNewer: string
+
+    readonly feedbackRequest: (summaryDate: string, chatTitle: string, partners: string) => ReadonlyArray<string>
+    readonly feedbackChoices: Readonly<Record<FeedbackChoice, string>>
+    readonly feedbackReplies: Readonly<Record<FeedbackReply, string>>
+    readonly meetingReminder: (summaryDate: string, chatTitle: string, partners: string) => ReadonlyArray<string>
+    readonly arrangedLabel: string
+    readonly arrangedReplies: Readonly<Record<ArrangedReply, string>>
+
+    readonly profileIntro: ReadonlyArray<string>
+    readonly profileWidget: ReadonlyArray<string>
+    readonly profileSaved: ReadonlyArray<string>
+    readonly profileRedoLabel: string
+    readonly profileSkipLabel: string
+    readonly profileQuestions: Readonly<Record<ProfileField, string>>
+    readonly profileChoiceHint: string
+    readonly profileTextHint: string
+    readonly profileRetry: string
+    readonly meetingFormats: Readonly<Record<MeetingFormat, string>>
+    readonly profileFieldTitles: Readonly<Record<ProfileField, string>>
+    readonly profileAbout: string
+    readonly organizerGuide: ReadonlyArray<string>
+    readonly startReply: (pollDay: string, summaryDay: string) => ReadonlyArray<string>
+
+    readonly pairingGreeting: string
+    readonly pairingStandby: string
+    readonly pairingAgreedFormat: (format: string) => string
+    readonly pairingGroupHeading: string
+    readonly pairingTripleHeading: string
+    readonly pairingEmptyProfile: string
+    readonly pairingLegacyProfileNudge: string
+    readonly pairingEmptyProfileNudge: string
+    readonly pairingProfileAction: string
+    readonly pairingOrganizer: (partners: number, handles: string) => ReadonlyArray<string>
+    readonly pairingNoPartner: (groupLabel: string) => ReadonlyArray<string>
+    readonly pairingProfileHelp: string
+    readonly pairingCheatSheet: string
+
+    readonly pollQuestion: string
+    readonly pollFormatOptions: Readonly<Record<MeetingFormat, string>>
+    readonly pollStandbyOption: string
+    readonly pollDeclineOption: string
+    readonly pollClosedNoResults: string
+    readonly summaryDefaultTitle: string
+    readonly summaryNotEnough: (title: string) => string
+    readonly summaryNoPairs: (title: string) => string
+    readonly summarySignedUp: string
+    readonly summaryMissedPoll: string
+    readonly summaryReady: (title: string) => string
+    readonly summaryFindMatch: string
+    readonly summaryNoMatch: string
+    readonly summaryClosing: string
+    readonly summaryTripleClosing: string
+  }
+  & SubscriptionMessages
+  & RematchMessages
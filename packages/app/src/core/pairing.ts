@@ -1,119 +1,261 @@
 import { Match } from "effect"
 
-import type { RngSeed } from "./brand.js"
-import { PairKey } from "./brand.js"
-import type { PairHistory, Pairing, Participant } from "./domain.js"
+import type { LocalDateString, PairKey, RngSeed } from "./brand.js"
+import type { ChatState, PairHistory, Pairing, Participant } from "./domain.js"
+import { excludedPairKeys } from "./exclusions.js"
+import { type MatchingEdge, maxWeightMatching } from "./matching.js"
+import { isFormatCompatible } from "./meeting-format.js"
+import { pairKeyOf } from "./participants.js"
 import { randomInt, shuffle } from "./rng.js"
+import { daysBetween } from "./schedule.js"
 
-const keyFor = (a: Participant, b: Participant): PairKey => PairKey(a.id < b.id ? `${a.id}-${b.id}` : `${b.id}-${a.id}`)
+const keyFor = (a: Participant, b: Participant): PairKey => pairKeyOf(a.id, b.id)
 
-const historyCount = (
+const meetingsOf = (
   history: PairHistory,
   a: Participant,
   b: Participant
-): number => history[keyFor(a, b)] ?? 0
+): ReadonlyArray<LocalDateString> => history[keyFor(a, b)] ?? []
 
-const incrementHistory = (
+type PairOnly = Extract<Pairing, { readonly kind: "pair" }>
+
+type PairBuild = {
+  readonly pairs: ReadonlyArray<PairOnly>
+  readonly remaining: ReadonlyArray<Participant>
+  readonly seed: RngSeed
+}
+
+export type PairingAssignment = {
+  readonly participant: Participant
+  readonly counterparts: ReadonlyArray<Participant>
+  readonly isOrganizer: boolean
+}
+
+// Null marks a pair that must never be matched.
+type PairCostFn = (a: Participant, b: Participant) => number | null
+
+export type HistoryDecay = {
+  readonly today: LocalDateString
+  readonly halfLifeWeeks: number
+}
+
+// Matching runs on integers, so decayed meeting weights are scaled before rounding.
+const costScale = 1000
+
+const meetingWeight = (metOn: LocalDateString, decay: HistoryDecay | null): number =>
+  decay
+    ? 0.5 ** (Math.max(0, daysBetween(metOn, decay.today)) / (7 * decay.halfLifeWeeks))
+    : 1
+
+// CHANGE: weigh each past meeting by how long ago it happened
+// WHY: a repeat from last week should cost more than one from 40 weeks ago
+// QUOTE(TZ): "a configurable decay so recent repeats are penalized more than old ones"
+// REF: user-003-recency-history
+// SOURCE: n/a
+// FORMAT THEOREM: forall m: weight(m) = 0.5^(weeksAgo(m) / halfLife) ∈ (0, 1]
+// PURITY: CORE
+// INVARIANT: without decay the cost is proportional to the plain repeat count
+// COMPLEXITY: O(k)/O(1)
+const pairCost = (
   history: PairHistory,
   a: Participant,
-  b: Participant
-): PairHistory => {
-  const key = keyFor(a, b)
-  const current = history[key] ?? 0
-  return {
-    ...history,
-    [key]: current + 1
+  b: Participant,
+  decay: HistoryDecay | null
+): number => {
+  let total = 0
+  for (const metOn of meetingsOf(history, a, b)) {
+    total += meetingWeight(metOn, decay)
   }
+  return Math.round(total * costScale)
 }
 
-const choosePartner = (
-  current: Participant,
-  candidates: ReadonlyArray<Participant>,
+// CHANGE: add up the repeat cost of every meeting in a round
+// WHY: rounds built from different sign-ups are compared by the history they repeat
+// QUOTE(TZ): "One of them is pulled in only when the confirmed count is odd, chosen with the same history-aware logic."
+// REF: user-024-standby-signups
+// SOURCE: n/a
+// FORMAT THEOREM: forall ps: cost(ps) = sum over groups g, pairs a<b in g: pairCost(a, b)
+// PURITY: CORE
+// INVARIANT: uses the same decayed weights as pairParticipants
+// COMPLEXITY: O(n*k)/O(1)
+export const roundCost = (
+  pairs: ReadonlyArray<Pairing>,
   history: PairHistory,
-  seed: RngSeed
-): { readonly partner: Participant; readonly seed: RngSeed } => {
-  let minCount = Number.POSITIVE_INFINITY
-  let best: ReadonlyArray<Participant> = []
-  for (const candidate of candidates) {
-    const count = historyCount(history, current, candidate)
-    if (count < minCount) {
-      minCount = count
-      best = [candidate]
-    } else if (count === minCount) {
-      best = [...best, candidate]
+  decay: HistoryDecay | null
+): number => {
+  let total = 0
+  for (const pair of pairs) {
+    for (const [index, a] of pair.members.entries()) {
+      for (const b of pair.members.slice(index + 1)) {
+        total += pairCost(history, a, b, decay)
+      }
     }
   }
-  const picked = best.length > 1 ? randomInt(seed, best.length) : { value: 0, seed }
-  const fallback = candidates[0]
-  const partner = best[picked.value] ?? fallback ?? current
-  return { partner, seed: picked.seed }
+  return total
 }
 
-const removeById = (
-  candidates: ReadonlyArray<Participant>,
-  participant: Participant
-): ReadonlyArray<Participant> => candidates.filter((candidate) => candidate.id !== participant.id)
+// CHANGE: turn pair costs into matching weights over every allowed pair
+// WHY: a maximum-weight maximum-cardinality matching on (maxCost + 1 - cost) minimizes the total cost
+// QUOTE(TZ): "minimizes total repeat cost across the whole round"
+// REF: user-002-optimal-pairing
+// SOURCE: n/a
+// FORMAT THEOREM: forall i<j allowed: weight(i,j) = maxCost + 1 - cost(i,j) > 0
+// PURITY: CORE
+// INVARIANT: edges reference indexes of the given participant order; excluded pairs have no edge
+// COMPLEXITY: O(n^2)/O(n^2)
+const buildWeightedEdges = (
+  participants: ReadonlyArray<Participant>,
+  costOf: PairCostFn
+): ReadonlyArray<MatchingEdge> => {
+  const costs = participants.flatMap((a, i) =>
+    participants.slice(i + 1).flatMap((b, offset): ReadonlyArray<MatchingEdge> => {
+      const cost = costOf(a, b)
+      return cost === null ? [] : [[i, i + 1 + offset, cost]]
+    })
+  )
+  const maxCost = Math.max(0, ...costs.map((edge) => edge[2]))
+  return costs.map(([i, j, cost]): MatchingEdge => [i, j, maxCost + 1 - cost])
+}
 
-type PairBuild = {
+const buildPairs = (
+  participants: ReadonlyArray<Participant>,
+  costOf: PairCostFn,
+  seed: RngSeed
+): PairBuild => {
+  const mate = maxWeightMatching(participants.length, buildWeightedEdges(participants, costOf), true)
+  const pairs = participants.flatMap((participant, index): ReadonlyArray<PairOnly> => {
+    const partnerIndex = mate[index] ?? -1
+    const partner = participants[partnerIndex]
+    return partner && partnerIndex > index ? [{ kind: "pair", members: [participant, partner] }] : []
+  })
+  const remaining = participants.filter((_, index) => (mate[index] ?? -1) === -1)
+  return { pairs, remaining, seed }
+}
+
+export type PairingOptions = {
+  readonly allowTriples: boolean
+  readonly decay: HistoryDecay | null
+  readonly excluded: ReadonlySet<PairKey>
+}
+
+export type PairingResult = {
   readonly pairs: ReadonlyArray<Pairing>
-  readonly remaining: ReadonlyArray<Participant>
+  readonly leftovers: ReadonlyArray<Participant>
   readonly seed: RngSeed
 }
 
-export type PairingAssignment = {
-  readonly participant: Participant
-  readonly counterparts: ReadonlyArray<Participant>
-  readonly isOrganizer: boolean
+const defaultPairingOptions: PairingOptions = { allowTriples: false, decay: null, excluded: new Set() }
+
+// CHANGE: derive pairing options from a chat's settings
+// WHY: keep summary code unaware of individual pairing knobs
+// QUOTE(TZ): "a configurable decay so recent repeats are penalized more than old ones"
+// REF: user-003-recency-history
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: options(c).allowTriples = c.allowTriples
+// PURITY: CORE
+// INVARIANT: decay is null when the chat disabled it; every chat exclusion is forwarded
+// COMPLEXITY: O(n)/O(n)
+export const pairingOptionsForChat = (
+  chat: ChatState,
+  today: LocalDateString
+): PairingOptions => ({
+  allowTriples: chat.allowTriples,
+  decay: chat.historyHalfLifeWeeks === null ? null : { today, halfLifeWeeks: chat.historyHalfLifeWeeks },
+  excluded: excludedPairKeys(chat.exclusions)
+})
+
+const tripleScore = (
+  pair: PairOnly,
+  extra: Participant,
+  costOf: PairCostFn
+): number | null => {
+  const [first, second] = pair.members
+  const costs = [costOf(first, second), costOf(first, extra), costOf(second, extra)]
+  let total = 0
+  for (const cost of costs) {
+    if (cost === null) {
+      return null
+    }
+    total += cost
+  }
+  return total
 }
 
-const buildPairs = (
-  participants: ReadonlyArray<Participant>,
-  history: PairHistory,
+const lowestScoreIndexes = (scores: ReadonlyArray<number | null>): ReadonlyArray<number> => {
+  const allowed = scores.filter((score): score is number => score !== null)
+  const minScore = Math.min(...allowed)
+  return scores.flatMap((score, index) => score === minScore ? [index] : [])
+}
+
+// CHANGE: fold the odd participant into the pair with the lowest combined history
+// WHY: nobody who voted "Yes" should sit out when triples are enabled
+// QUOTE(TZ): "an odd participant is folded into the group with the lowest combined history score"
+// REF: user-001-triple-pairing
+// SOURCE: n/a
+// FORMAT THEOREM: forall p,x: fold(p,x) contains exactly one triple with x
+// PURITY: CORE
+// INVARIANT: ties between equally scored pairs are broken by the seed; null when no triple is allowed
+// COMPLEXITY: O(n)/O(n)
+const foldIntoTriple = (
+  pairs: ReadonlyArray<PairOnly>,
+  extra: Participant,
+  costOf: PairCostFn,
   seed: RngSeed
-): PairBuild => {
-  let remaining = participants
-  let nextSeed = seed
-  let pairs: ReadonlyArray<Pairing> = []
-
-  while (remaining.length >= 2) {
-    const current = remaining[0]
-    const candidates = remaining.slice(1)
-    const chosen = choosePartner(current, candidates, history, nextSeed)
-    nextSeed = chosen.seed
-    const pair: Pairing = { kind: "pair", members: [current, chosen.partner] }
-    pairs = [...pairs, pair]
-    remaining = removeById(candidates, chosen.partner)
+): { readonly pairs: ReadonlyArray<Pairing>; readonly seed: RngSeed } | null => {
+  const candidates = lowestScoreIndexes(pairs.map((pair) => tripleScore(pair, extra, costOf)))
+  if (candidates.length === 0) {
+    return null
   }
+  const picked = candidates.length > 1 ? randomInt(seed, candidates.length) : { value: 0, seed }
+  const targetIndex = candidates[picked.value] ?? 0
+  const folded = pairs.map((pair, index): Pairing =>
+    index === targetIndex
+      ? { kind: "triple", members: [pair.members[0], pair.members[1], extra] }
+      : pair
+  )
+  return { pairs: folded, seed: picked.seed }
+}
 
-  return { pairs, remaining, seed: nextSeed }
+const finalizePairs = (
+  built: PairBuild,
+  costOf: PairCostFn,
+  options: PairingOptions
+): PairingResult => {
+  const [extra] = built.remaining
+  if (!options.allowTriples || !extra || built.remaining.length !== 1 || built.pairs.length === 0) {
+    return { pairs: built.pairs, leftovers: built.remaining, seed: built.seed }
+  }
+  const folded = foldIntoTriple(built.pairs, extra, costOf, built.seed)
+  return folded
+    ? { pairs: folded.pairs, leftovers: [], seed: folded.seed }
+    : { pairs: built.pairs, leftovers: built.remaining, seed: built.seed }
 }
 
-// CHANGE: compute pairings with minimal repeat history
-// WHY: bias matchmaking toward new pairs while remaining deterministic
-// QUOTE(TZ): "желательно постоянно выбирать новую пару (Что бы меньше попадались те кто уже был)"
-// REF: user-2026-01-09-random-coffee
+// CHANGE: compute pairings with minimal total repeat history for the whole round
+// WHY: greedy matching forced the last few people into repeat pairs
+// QUOTE(TZ): "We want a pairing engine that minimizes total repeat cost across the whole round"
+// REF: user-002-optimal-pairing, user-023-meeting-format-poll
 // SOURCE: n/a
-// FORMAT THEOREM: forall p in pairs: members(p) subset participants
+// FORMAT THEOREM: forall M perfect matching: cost(pairs) <= cost(M)
 // PURITY: CORE
-// INVARIANT: each participant appears in at most one pair
-// COMPLEXITY: O(n^2)/O(n)
+// INVARIANT: each participant appears in at most one pair; excluded pairs and incompatible formats never meet
+// COMPLEXITY: O(n^3)/O(n^2)
 export const pairParticipants = (
   participants: ReadonlyArray<Participant>,
   history: PairHistory,
-  seed: RngSeed
-): {
-  readonly pairs: ReadonlyArray<Pairing>
-  readonly leftovers: ReadonlyArray<Participant>
-  readonly seed: RngSeed
-} => {
+  seed: RngSeed,
+  options: PairingOptions = defaultPairingOptions
+): PairingResult => {
   if (participants.length < 2) {
     return { pairs: [], leftovers: participants, seed }
   }
 
+  const costOf: PairCostFn = (a, b) =>
+    options.excluded.has(keyFor(a, b)) || !isFormatCompatible(a, b) ? null : pairCost(history, a, b, options.decay)
   const shuffled = shuffle(participants, seed)
-  const built = buildPairs(shuffled.items, history, shuffled.seed)
+  const built = buildPairs(shuffled.items, costOf, shuffled.seed)
 
-  return { pairs: built.pairs, leftovers: built.remaining, seed: built.seed }
+  return finalizePairs(built, costOf, options)
 }
 
 type OrganizerBuild = {
@@ -189,33 +331,84 @@ export const assignSoloParticipants = (
     isOrganizer: false
   }))
 
-const addPairHistory = (history: PairHistory, pair: Pairing): PairHistory =>
+// CHANGE: list the pair keys of every meeting inside a pairing
+// WHY: a triple is recorded as three meetings, one per pair of its members
+// QUOTE(TZ): "We want history entries to carry the summary date of each meeting"
+// REF: user-003-recency-history
+// SOURCE: n/a
+// FORMAT THEOREM: forall p: |keys(p)| = C(|members(p)|, 2)
+// PURITY: CORE
+// INVARIANT: keys are listed in member order
+// COMPLEXITY: O(1)/O(1)
+export const pairingKeys = (pair: Pairing): ReadonlyArray<PairKey> =>
   Match.value(pair).pipe(
-    Match.when({ kind: "pair" }, (value) => incrementHistory(history, value.members[0], value.members[1])),
-    Match.when({ kind: "triple" }, (value) => {
-      const withFirst = incrementHistory(history, value.members[0], value.members[1])
-      const withSecond = incrementHistory(withFirst, value.members[0], value.members[2])
-      return incrementHistory(withSecond, value.members[1], value.members[2])
-    }),
+    Match.when({ kind: "pair" }, (value) => [keyFor(value.members[0], value.members[1])]),
+    Match.when({ kind: "triple" }, (value) => [
+      keyFor(value.members[0], value.members[1]),
+      keyFor(value.members[0], value.members[2]),
+      keyFor(value.members[1], value.members[2])
+    ]),
     Match.exhaustive
   )
 
-// CHANGE: update the pair history after a round is computed
-// WHY: persist repeat counts to bias future pairings away from repeats
-// QUOTE(TZ): "Что бы меньше попадались те кто уже был"
-// REF: user-2026-01-09-random-coffee
+// CHANGE: append a meeting date to the history of each pair key
+// WHY: the event log replays summaries from pair keys without the participant details
+// QUOTE(TZ): "We also want a replay tool that rebuilds `BotState` from the events"
+// REF: user-014-event-log
 // SOURCE: n/a
-// FORMAT THEOREM: forall p in pairs: history' = history + 1 for each pair in p
+// FORMAT THEOREM: forall k in keys: history'[k] = history[k] ++ [metOn]
 // PURITY: CORE
-// INVARIANT: history counts only increase
+// INVARIANT: meeting lists only grow and keep insertion order
 // COMPLEXITY: O(n)/O(n)
-export const updateHistory = (
+export const recordMeetings = (
   history: PairHistory,
-  pairs: ReadonlyArray<Pairing>
+  keys: ReadonlyArray<PairKey>,
+  metOn: LocalDateString
 ): PairHistory => {
   let current = history
-  for (const pair of pairs) {
-    current = addPairHistory(current, pair)
+  for (const key of keys) {
+    current = { ...current, [key]: [...(current[key] ?? []), metOn] }
+  }
+  return current
+}
+
+// CHANGE: remove one meeting date from the history of each pair key
+// WHY: a pair re-matched after a cancellation never met, so its summary-day entry must not count as a repeat
+// QUOTE(TZ): "Both the round record and `PairHistory` must be updated consistently."
+// REF: user-020-rematch-cancelled
+// SOURCE: n/a
+// FORMAT THEOREM: forall k in keys: metOn in history[k] -> count(history'[k], metOn) = count(history[k], metOn) - 1
+// PURITY: CORE
+// INVARIANT: keys without meetings left are dropped, like keys that never met
+// COMPLEXITY: O(n)/O(n)
+export const forgetMeetings = (
+  history: PairHistory,
+  keys: ReadonlyArray<PairKey>,
+  metOn: LocalDateString
+): PairHistory => {
+  let current = history
+  for (const key of keys) {
+    const dates = current[key] ?? []
+    const index = dates.lastIndexOf(metOn)
+    const remaining = dates.filter((_, position) => position !== index)
+    current = remaining.length > 0
+      ? { ...current, [key]: remaining }
+      : Object.fromEntries(Object.entries(current).filter(([entryKey]) => entryKey !== key))
   }
   return current
 }
+
+// CHANGE: record the date of every meeting produced by a round
+// WHY: recency-weighted costs need to know when each pair met, not only how often
+// QUOTE(TZ): "We want history entries to carry the summary date of each meeting"
+// REF: user-003-recency-history
+// SOURCE: n/a
+// FORMAT THEOREM: forall p in pairs: history'[p] = history[p] ++ [metOn]
+// PURITY: CORE
+// INVARIANT: meeting lists only grow and keep insertion order
+// COMPLEXITY: O(n)/O(n)
+export const updateHistory = (
+  history: PairHistory,
+  pairs: ReadonlyArray<Pairing>,
+  metOn: LocalDateString
+): PairHistory => recordMeetings(history, pairs.flatMap((pair) => pairingKeys(pair)), metOn)
@@ -1,4 +1,4 @@
-import type { UserId } from "./brand.js"
+import { PairKey, type UserId } from "./brand.js"
 import type { Participant, ParticipantsById } from "./domain.js"
 
 const participantKey = (id: UserId): string => id.toString()
@@ -52,3 +52,14 @@ export const removeParticipant = (
 export const listParticipants = (
   participants: ParticipantsById
 ): ReadonlyArray<Participant> => Object.values(participants)
+
+// CHANGE: build the unordered pair key for two users
+// WHY: pair history and exclusions must agree on how a pair is addressed
+// QUOTE(TZ): "a per-chat exclusion list that `pairParticipants` treats as a hard constraint"
+// REF: user-004-pair-exclusions
+// SOURCE: n/a
+// FORMAT THEOREM: forall a,b: pairKeyOf(a,b) = pairKeyOf(b,a)
+// PURITY: CORE
+// INVARIANT: the smaller user id always comes first
+// COMPLEXITY: O(1)/O(1)
+export const pairKeyOf = (a: UserId, b: UserId): PairKey => PairKey(a < b ? `${a}-${b}` : `${b}-${a}`)
@@ -0,0 +1,178 @@
+import type { ChatId } from "./brand.js"
+import type { BotState, ChatState, Language, MeetingFormat, PollWording } from "./domain.js"
+import { recordEvent } from "./journal.js"
+import { groupLanguage } from "./language.js"
+import { pollMeetingFormats, yesNoMeetingFormats } from "./meeting-format.js"
+import { formatPollQuestion, messages, pollOptions } from "./text.js"
+
+// Telegram limits for sendPoll.
+const maxQuestionLength = 300
+const maxOptionLength = 100
+const minOptions = 2
+const maxOptions = 10
+
+// Admins write one option less than Telegram allows, so the standby option still fits.
+const maxCustomOptions = maxOptions - 1
+
+// Options are stored as one text column; command arguments never contain line breaks.
+const storedOptionSeparator = "\n"
+
+const isValidText = (text: string, maxLength: number): boolean => text.length > 0 && text.length <= maxLength
+
+const isValidOptions = (options: ReadonlyArray<string>, maxCount: number): boolean =>
+  options.length >= minOptions &&
+  options.length <= maxCount &&
+  options.every((option) => isValidText(option, maxOptionLength))
+
+const buildPollWording = (
+  question: string,
+  options: ReadonlyArray<string>,
+  joinOption: number,
+  maxCount: number
+): PollWording | null =>
+  isValidText(question, maxQuestionLength) && isValidOptions(options, maxCount) && options[joinOption] !== undefined
+    ? { question, options, joinOption }
+    : null
+
+// CHANGE: validate a custom poll wording
+// WHY: Telegram rejects polls with empty, overlong or too many options, and the standby option needs a slot
+// QUOTE(TZ): "We want admins to set the question and option labels per chat."
+// REF: user-022-custom-poll-wording, user-024-standby-signups
+// SOURCE: https://core.telegram.org/bots/api#sendpoll
+// FORMAT THEOREM: forall q,os,i: make(q,os,i) != null -> 2 <= |os| <= 9 ∧ 0 <= i < |os|
+// PURITY: CORE
+// INVARIANT: the join option always points at an existing option
+// COMPLEXITY: O(n)/O(n)
+export const makePollWording = (
+  question: string,
+  options: ReadonlyArray<string>,
+  joinOption: number
+): PollWording | null => buildPollWording(question, options, joinOption, maxCustomOptions)
+
+const standbySlot = (wording: PollWording): number | null =>
+  wording.options.length < maxOptions ? wording.options.length : null
+
+// CHANGE: append the standby option to a custom poll wording
+// WHY: chats with their own question keep the "only if someone needs a partner" sign-up
+// QUOTE(TZ): "We want a third poll option, \"only if someone needs a partner\"."
+// REF: user-024-standby-signups
+// SOURCE: n/a
+// FORMAT THEOREM: forall l,w: |w.options| < 10 -> withStandby(l,w).options = w.options ++ [standby(l)]
+// PURITY: CORE
+// INVARIANT: the admin's options keep their indexes; wordings saved with ten options are sent unchanged
+// COMPLEXITY: O(n)/O(n)
+export const withStandbyOption = (language: Language, wording: PollWording): PollWording =>
+  standbySlot(wording) === null
+    ? wording
+    : { ...wording, options: [...wording.options, messages(language).pollStandbyOption] }
+
+// CHANGE: pick the wording of the next poll of a chat
+// WHY: chats without a custom wording keep the catalog question in their language
+// QUOTE(TZ): "`formatPollQuestion` and `pollOptions` are global constants."
+// REF: user-022-custom-poll-wording
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: chatPollWording(c) = withStandby(c.pollWording) ?? catalog(language(c))
+// PURITY: CORE
+// INVARIANT: the catalog wording signs members up with its first option
+// COMPLEXITY: O(n)/O(n)
+export const chatPollWording = (chat: ChatState): PollWording =>
+  chat.pollWording === null
+    ? {
+      question: formatPollQuestion(groupLanguage(chat)),
+      options: pollOptions(groupLanguage(chat)),
+      joinOption: 0
+    }
+    : withStandbyOption(groupLanguage(chat), chat.pollWording)
+
+// CHANGE: pick the formats offered by the next poll of a chat
+// WHY: the catalog poll asks for a format while a custom wording stays a yes/no question;
+// /pollwording tells the admin that its members are paired as open to either format
+// QUOTE(TZ): "a participation poll with format choices: online only, in person only, or either"
+// REF: user-023-meeting-format-poll
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: |formats(c)| = |options(c)| - 1 when c.pollWording = null
+// PURITY: CORE
+// INVARIANT: the formats line up with the options that follow the join option
+// COMPLEXITY: O(1)/O(1)
+export const chatPollFormats = (chat: ChatState): ReadonlyArray<MeetingFormat> =>
+  chat.pollWording === null ? pollMeetingFormats : yesNoMeetingFormats
+
+// CHANGE: pick the standby option of the next poll of a chat
+// WHY: the catalog poll lets members sign up only in case someone needs a partner
+// QUOTE(TZ): "We want a third poll option, \"only if someone needs a partner\"."
+// REF: user-024-standby-signups
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: c.pollWording = null -> standby(c) = |formats(c)|
+// PURITY: CORE
+// INVARIANT: the standby option follows the format options, or the last option of a custom wording
+// COMPLEXITY: O(1)/O(1)
+export const chatPollStandbyOption = (chat: ChatState): number | null =>
+  chat.pollWording === null ? pollMeetingFormats.length : standbySlot(chat.pollWording)
+
+const sameOptions = (left: ReadonlyArray<string>, right: ReadonlyArray<string>): boolean =>
+  left.length === right.length && left.every((option, index) => option === right[index])
+
+// CHANGE: compare two poll wordings by value
+// WHY: wordings decoded from rows or events are fresh objects, so identity says nothing
+// QUOTE(TZ): n/a
+// REF: user-022-custom-poll-wording
+// SOURCE: n/a
+// FORMAT THEOREM: forall w: same(w, clone(w)) = true
+// PURITY: CORE
+// INVARIANT: null equals only null
+// COMPLEXITY: O(n)/O(1)
+export const samePollWording = (left: PollWording | null, right: PollWording | null): boolean =>
+  left === null || right === null
+    ? left === right
+    : left.question === right.question && left.joinOption === right.joinOption &&
+      sameOptions(left.options, right.options)
+
+// CHANGE: set the custom poll wording of a chat
+// WHY: communities phrase the weekly question in their own words
+// QUOTE(TZ): "Up for a coffee chat with a colleague next week?"
+// REF: user-022-custom-poll-wording
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,id,w: setPollWording(s,id,w).chats[id].pollWording = w
+// PURITY: CORE
+// INVARIANT: null restores the catalog wording; a running poll keeps the join option it was sent with
+// COMPLEXITY: O(n)/O(n)
+export const setPollWording = (state: BotState, chatId: ChatId, pollWording: PollWording | null): BotState => {
+  const chat = state.chats[chatId]
+  return chat && !samePollWording(chat.pollWording, pollWording)
+    ? recordEvent(
+      state,
+      { ...state, chats: { ...state.chats, [chatId]: { ...chat, pollWording } } },
+      { kind: "pollWordingSet", chatId, pollWording }
+    )
+    : state
+}
+
+// CHANGE: encode poll options for the chats table
+// WHY: keep chat rows flat so unchanged rows compare equal column by column
+// QUOTE(TZ): n/a
+// REF: user-022-custom-poll-wording
+// SOURCE: n/a
+// FORMAT THEOREM: forall w: parseStored(w.question, stored(w), w.joinOption) = w
+// PURITY: CORE
+// INVARIANT: null wording is stored as null
+// COMPLEXITY: O(n)/O(n)
+export const storedPollOptions = (pollWording: PollWording | null): string | null =>
+  pollWording === null ? null : pollWording.options.join(storedOptionSeparator)
+
+// CHANGE: decode a stored custom poll wording
+// WHY: invalid rows must fall back to the catalog wording instead of breaking sendPoll
+// QUOTE(TZ): n/a
+// REF: user-022-custom-poll-wording
+// SOURCE: n/a
+// FORMAT THEOREM: forall w: parseStored(w.question, stored(w), w.joinOption) = w
+// PURITY: CORE
+// INVARIANT: missing or invalid columns return null; rows saved before the standby slot keep up to ten options
+// COMPLEXITY: O(n)/O(n)
+export const parseStoredPollWording = (
+  question: string | null,
+  options: string | null,
+  joinOption: number | null
+): PollWording | null =>
+  question === null || options === null || joinOption === null
+    ? null
+    : buildPollWording(question, options.split(storedOptionSeparator), joinOption, maxOptions)
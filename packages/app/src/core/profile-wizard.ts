@@ -0,0 +1,151 @@
+import type { UserId } from "./brand.js"
+import type { MeetingFormat, ProfileDraft, ProfileField, ProfileFields, UserProfile } from "./domain.js"
+import { normalizeProfileText } from "./profiles.js"
+
+export type ProfileAnswer =
+  | { readonly kind: "text"; readonly text: string }
+  | { readonly kind: "format"; readonly format: MeetingFormat }
+  | { readonly kind: "skip" }
+
+export type ProfileWizardStep =
+  | { readonly kind: "next"; readonly draft: ProfileDraft }
+  | { readonly kind: "done"; readonly fields: ProfileFields }
+  | { readonly kind: "invalid"; readonly draft: ProfileDraft }
+
+export const profileSteps: ReadonlyArray<ProfileField> = [
+  "occupation",
+  "interests",
+  "hooks",
+  "city",
+  "languages",
+  "meetingFormat"
+]
+
+export const meetingFormats: ReadonlyArray<MeetingFormat> = ["offline", "online", "any"]
+
+const emptyProfileFields: ProfileFields = {
+  occupation: null,
+  interests: null,
+  hooks: null,
+  city: null,
+  languages: null,
+  meetingFormat: null
+}
+
+const callbackPrefix = "profile"
+
+const callbackRegex = /^profile:(skip|format:(offline|online|any))$/
+
+// CHANGE: start a profile wizard from the first question
+// WHY: every edit re-asks all fields so stale answers are never kept by accident
+// QUOTE(TZ): "filled by a step-by-step wizard in private chat that builds on the `pendingProfileEdits` mechanism"
+// REF: user-006-structured-profiles
+// SOURCE: n/a
+// FORMAT THEOREM: start().step = profileSteps[0]
+// PURITY: CORE
+// INVARIANT: all draft fields start empty
+// COMPLEXITY: O(1)/O(1)
+export const startProfileDraft = (): ProfileDraft => ({
+  step: "occupation",
+  fields: emptyProfileFields
+})
+
+const nextStep = (step: ProfileField): ProfileField | undefined => profileSteps[profileSteps.indexOf(step) + 1]
+
+const answerFields = (draft: ProfileDraft, answer: ProfileAnswer): ProfileFields | null => {
+  if (answer.kind === "skip") {
+    return { ...draft.fields, [draft.step]: null }
+  }
+  if (draft.step === "meetingFormat") {
+    return answer.kind === "format" ? { ...draft.fields, meetingFormat: answer.format } : null
+  }
+  const text = answer.kind === "text" ? normalizeProfileText(answer.text) : null
+  return text === null ? null : { ...draft.fields, [draft.step]: text }
+}
+
+// CHANGE: apply one answer to the profile wizard
+// WHY: profile fields are collected one question at a time in private chat
+// QUOTE(TZ): "occupation, interests, conversation hooks, city, languages spoken and preferred meeting format"
+// REF: user-006-structured-profiles
+// SOURCE: n/a
+// FORMAT THEOREM: forall d,a: valid(d,a) -> apply(d,a).kind ∈ {next, done}
+// PURITY: CORE
+// INVARIANT: invalid answers keep the draft unchanged; done only after the last step
+// COMPLEXITY: O(1)/O(1)
+export const applyProfileAnswer = (draft: ProfileDraft, answer: ProfileAnswer): ProfileWizardStep => {
+  const fields = answerFields(draft, answer)
+  if (!fields) {
+    return { kind: "invalid", draft }
+  }
+  const step = nextStep(draft.step)
+  return step ? { kind: "next", draft: { step, fields } } : { kind: "done", fields }
+}
+
+// CHANGE: build a stored profile from finished wizard fields
+// WHY: a completed wizard replaces any legacy free-text profile
+// QUOTE(TZ): "the existing single-text profiles need a migration path"
+// REF: user-006-structured-profiles
+// SOURCE: n/a
+// FORMAT THEOREM: forall u,f: toUserProfile(u,f).about = null
+// PURITY: CORE
+// INVARIANT: structured fields are copied as is
+// COMPLEXITY: O(1)/O(1)
+export const toUserProfile = (userId: UserId, fields: ProfileFields): UserProfile => ({
+  ...fields,
+  userId,
+  about: null
+})
+
+// CHANGE: check whether a profile has any structured answer
+// WHY: legacy profiles only carry the old free text and should be refreshed
+// QUOTE(TZ): "the existing single-text profiles need a migration path"
+// REF: user-006-structured-profiles
+// SOURCE: n/a
+// FORMAT THEOREM: forall p: structured(p) ⇔ ∃f ∈ profileSteps: p[f] ≠ null
+// PURITY: CORE
+// INVARIANT: the legacy about text is ignored
+// COMPLEXITY: O(1)/O(1)
+export const hasStructuredProfile = (profile: UserProfile): boolean =>
+  profileSteps.some((field) => profile[field] !== null)
+
+// CHANGE: parse a stored meeting format value
+// WHY: database text must not leak unknown formats into state
+// QUOTE(TZ): "preferred meeting format"
+// REF: user-006-structured-profiles
+// SOURCE: n/a
+// FORMAT THEOREM: forall f in formats: parse(f) = f
+// PURITY: CORE
+// INVARIANT: unknown values become null
+// COMPLEXITY: O(1)/O(1)
+export const parseMeetingFormat = (value: string | null): MeetingFormat | null =>
+  meetingFormats.find((format) => format === value) ?? null
+
+// CHANGE: encode a wizard button into callback data
+// WHY: skip and meeting format buttons answer the current question
+// QUOTE(TZ): "a step-by-step wizard in private chat"
+// REF: user-006-structured-profiles
+// SOURCE: https://core.telegram.org/bots/api#inlinekeyboardbutton
+// FORMAT THEOREM: forall a ≠ text: parse(encode(a)) = a
+// PURITY: CORE
+// INVARIANT: text answers are never encoded as buttons
+// COMPLEXITY: O(1)/O(1)
+export const encodeProfileAnswer = (answer: Exclude<ProfileAnswer, { readonly kind: "text" }>): string =>
+  answer.kind === "skip" ? `${callbackPrefix}:skip` : `${callbackPrefix}:format:${answer.format}`
+
+// CHANGE: decode wizard button callback data
+// WHY: route wizard buttons without confusing them with other callbacks
+// QUOTE(TZ): "a step-by-step wizard in private chat"
+// REF: user-006-structured-profiles
+// SOURCE: n/a
+// FORMAT THEOREM: forall s: parse(s) = null ∨ encode(parse(s)) = s
+// PURITY: CORE
+// INVARIANT: unknown data returns null
+// COMPLEXITY: O(n)/O(1)
+export const parseProfileCallback = (data: string): ProfileAnswer | null => {
+  const [, action, format] = callbackRegex.exec(data) ?? []
+  if (action === "skip") {
+    return { kind: "skip" }
+  }
+  const parsed = parseMeetingFormat(format ?? null)
+  return parsed ? { kind: "format", format: parsed } : null
+}
@@ -1,5 +1,5 @@
 import type { ChatId, UserId } from "./brand.js"
-import type { PendingProfileEdits, UserProfile, UserProfiles } from "./domain.js"
+import type { PendingProfileEdits, ProfileDraft, UserProfile, UserProfiles } from "./domain.js"
 
 const profileKey = (userId: UserId): string => userId.toString()
 const pendingKey = (chatId: ChatId): string => chatId.toString()
@@ -49,21 +49,22 @@ export const findProfile = (
   userId: UserId
 ): UserProfile | undefined => profiles[profileKey(userId)]
 
-// CHANGE: mark a chat as awaiting profile input
-// WHY: update profiles only after explicit user intent
+// CHANGE: store the profile wizard draft of a chat awaiting profile input
+// WHY: update profiles only after explicit user intent, one question at a time
 // QUOTE(TZ): "Заполнить профиль и изменить описание это по сути одно и тоже"
-// REF: user-2026-01-21-profile-edit-unify
+// REF: user-006-structured-profiles
 // SOURCE: n/a
-// FORMAT THEOREM: forall p,id: mark(p,id)[key(id)] = true
+// FORMAT THEOREM: forall p,id,d: mark(p,id,d)[key(id)] = d
 // PURITY: CORE
 // INVARIANT: keys are unique per chat
 // COMPLEXITY: O(1)/O(n)
 export const markProfileEditPending = (
   pending: PendingProfileEdits,
-  chatId: ChatId
+  chatId: ChatId,
+  draft: ProfileDraft
 ): PendingProfileEdits => ({
   ...pending,
-  [pendingKey(chatId)]: true
+  [pendingKey(chatId)]: draft
 })
 
 // CHANGE: clear the pending profile edit flag
@@ -84,16 +85,16 @@ export const clearProfileEditPending = (
   return Object.fromEntries(entries)
 }
 
-// CHANGE: check if profile input is expected for a chat
+// CHANGE: lookup the profile wizard draft of a chat
 // WHY: avoid overwriting profiles unless the user requested it
 // QUOTE(TZ): "Заполнить профиль и изменить описание это по сути одно и тоже"
-// REF: user-2026-01-21-profile-edit-unify
+// REF: user-006-structured-profiles
 // SOURCE: n/a
-// FORMAT THEOREM: forall p,id: isPending(p,id) -> key(id) in pending
+// FORMAT THEOREM: forall p,id: find(p,id) = p[key(id)] | undefined
 // PURITY: CORE
-// INVARIANT: returns false for missing keys
+// INVARIANT: returns undefined for missing keys
 // COMPLEXITY: O(1)/O(1)
-export const isProfileEditPending = (
+export const findProfileEditPending = (
   pending: PendingProfileEdits,
   chatId: ChatId
-): boolean => pending[pendingKey(chatId)] === true
+): ProfileDraft | undefined => pending[pendingKey(chatId)]
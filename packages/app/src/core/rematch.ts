@@ -0,0 +1,158 @@
+import { ChatId, type PairKey, type RngSeed, type UserId } from "./brand.js"
+import type { BotState, ChatState, Participant, RoundGroup, RoundRecord, RoundTarget } from "./domain.js"
+import { recordEvent } from "./journal.js"
+import {
+  assignOrganizers,
+  forgetMeetings,
+  type PairingAssignment,
+  pairingKeys,
+  pairingOptionsForChat,
+  pairParticipants,
+  recordMeetings
+} from "./pairing.js"
+import { buildRoundRecord } from "./rounds.js"
+
+export type RematchReply = "rematched" | "waiting" | "outdated"
+
+export type Rematch = {
+  readonly round: RoundRecord
+  readonly seed: RngSeed
+  readonly assignments: ReadonlyArray<PairingAssignment>
+  readonly dropped: Participant | null
+}
+
+export type RematchOutcome = {
+  readonly state: BotState
+  readonly reply: RematchReply
+  readonly assignments: ReadonlyArray<PairingAssignment>
+  readonly dropped: Participant | null
+}
+
+const callbackRegex = /^rm:(-?\d+):(0|[1-9]\d*)$/
+
+const roundPairKeys = (round: RoundRecord): ReadonlyArray<PairKey> =>
+  round.groups.flatMap((group) => pairingKeys(group))
+
+const isPairOf = (group: RoundGroup, userId: UserId): boolean =>
+  group.kind === "pair" && group.members.some((member) => member.id === userId)
+
+// CHANGE: re-pair a participant whose partner cancelled
+// WHY: the remaining member should not wait for next week when others in the round are free
+// QUOTE(TZ): "re-pairs the affected participants with other cancelled people or with the round's leftovers"
+// REF: user-020-rematch-cancelled
+// SOURCE: n/a
+// FORMAT THEOREM: forall c,r,u: rematch(c,r,u) = m -> members(m.round) = members(r) \ {partner(u)}
+// PURITY: CORE
+// INVARIANT: only the cancelled pair and the leftovers change; the partner who cancelled leaves the round and is
+// returned as dropped so they can be told
+// COMPLEXITY: O(n^3)/O(n^2)
+export const rematchRound = (chat: ChatState, round: RoundRecord, userId: UserId): Rematch | null => {
+  const cancelled = round.groups.find((group) => isPairOf(group, userId))
+  const stranded = cancelled?.members.find((member) => member.id === userId)
+  if (!cancelled || !stranded) {
+    return null
+  }
+  // Leftovers already hold everyone still waiting, including earlier cancellations nobody could take.
+  const pairing = pairParticipants(
+    [...round.leftovers, stranded],
+    chat.history,
+    chat.seed,
+    pairingOptionsForChat(chat, round.summaryDate)
+  )
+  const organizers = assignOrganizers(pairing.pairs, pairing.seed)
+  const rebuilt = buildRoundRecord(round.summaryDate, pairing.pairs, organizers.assignments, pairing.leftovers)
+  return {
+    round: {
+      ...round,
+      groups: [...round.groups.filter((group) => group !== cancelled), ...rebuilt.groups],
+      leftovers: rebuilt.leftovers
+    },
+    seed: organizers.seed,
+    assignments: organizers.assignments,
+    dropped: cancelled.members.find((member) => member.id !== userId) ?? null
+  }
+}
+
+// CHANGE: replace an archived round and move its meetings in the pair history
+// WHY: history must keep matching the round archive after a re-match
+// QUOTE(TZ): "Both the round record and `PairHistory` must be updated consistently."
+// REF: user-020-rematch-cancelled
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,t,r: history' = record(forget(history, keys(old) \ keys(r)), keys(r) \ keys(old))
+// PURITY: CORE
+// INVARIANT: unknown chats and rounds are left untouched; unchanged groups keep their history entries
+// COMPLEXITY: O(n)/O(n)
+export const applyRematch = (state: BotState, target: RoundTarget, round: RoundRecord, seed: RngSeed): BotState => {
+  const chat = state.chats[target.chatId]
+  const previous = chat?.rounds[target.roundIndex]
+  if (!chat || !previous) {
+    return state
+  }
+  const before = roundPairKeys(previous)
+  const after = roundPairKeys(round)
+  const beforeKeys = new Set(before)
+  const afterKeys = new Set(after)
+  const history = recordMeetings(
+    forgetMeetings(chat.history, before.filter((key) => !afterKeys.has(key)), previous.summaryDate),
+    after.filter((key) => !beforeKeys.has(key)),
+    round.summaryDate
+  )
+  const rounds = chat.rounds.map((entry, index) => index === target.roundIndex ? round : entry)
+  return recordEvent(
+    state,
+    { ...state, chats: { ...state.chats, [target.chatId]: { ...chat, history, seed, rounds } } },
+    { kind: "roundRematched", ...target, round, seed, pairingSeed: chat.seed }
+  )
+}
+
+// CHANGE: apply the "my partner cancelled" button from a private chat
+// WHY: the reply tells whether a new partner was found or the member waits for the next cancellation
+// QUOTE(TZ): "We want a \"my partner cancelled\" button in the pairing DM."
+// REF: user-020-rematch-cancelled
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,t,u: reply = rematched <-> exists a in assignments: a.participant = u
+// PURITY: CORE
+// INVARIANT: only the latest round of a chat can be re-matched; other buttons are outdated and keep state
+// COMPLEXITY: O(n^3)/O(n^2)
+export const applyRematchAction = (state: BotState, target: RoundTarget, userId: UserId): RematchOutcome => {
+  const chat = state.chats[target.chatId]
+  const round = chat?.rounds[target.roundIndex]
+  const rematch = chat && round && target.roundIndex === chat.rounds.length - 1
+    ? rematchRound(chat, round, userId)
+    : null
+  if (!rematch) {
+    return { state, reply: "outdated", assignments: [], dropped: null }
+  }
+  const paired = rematch.assignments.some((assignment) => assignment.participant.id === userId)
+  return {
+    state: applyRematch(state, target, rematch.round, rematch.seed),
+    reply: paired ? "rematched" : "waiting",
+    assignments: rematch.assignments,
+    dropped: rematch.dropped
+  }
+}
+
+// CHANGE: encode the re-match button into callback data
+// WHY: Telegram callback data is a short string, so the round is packed into it
+// QUOTE(TZ): "We want a \"my partner cancelled\" button in the pairing DM."
+// REF: user-020-rematch-cancelled
+// SOURCE: https://core.telegram.org/bots/api#inlinekeyboardbutton
+// FORMAT THEOREM: forall t: parse(encode(t)) = t
+// PURITY: CORE
+// INVARIANT: encoded data stays within the 64-byte callback limit
+// COMPLEXITY: O(1)/O(1)
+export const encodeRematchAction = (target: RoundTarget): string => `rm:${target.chatId}:${target.roundIndex}`
+
+// CHANGE: decode re-match button callback data
+// WHY: route re-match buttons without confusing them with other callbacks
+// QUOTE(TZ): "We want a \"my partner cancelled\" button in the pairing DM."
+// REF: user-020-rematch-cancelled
+// SOURCE: n/a
+// FORMAT THEOREM: forall s: parse(s) = null ∨ encode(parse(s)) = s
+// PURITY: CORE
+// INVARIANT: unknown data returns null
+// COMPLEXITY: O(n)/O(1)
+export const parseRematchAction = (data: string): RoundTarget | null => {
+  const [, chatId, roundIndex] = callbackRegex.exec(data) ?? []
+  return chatId && roundIndex ? { chatId: ChatId(chatId), roundIndex: Number(roundIndex) } : null
+}
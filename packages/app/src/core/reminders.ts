@@ -0,0 +1,158 @@
+import { ChatId, type LocalDateString, type UserId } from "./brand.js"
+import type { BotState, ChatState, Participant, RoundGroup, RoundRecord, RoundTarget, Weekday } from "./domain.js"
+import { recordEvent } from "./journal.js"
+import { updateRound } from "./rounds.js"
+import { daysBetween } from "./schedule.js"
+
+export type OrganizerReminder = {
+  readonly organizer: Participant
+  readonly partners: ReadonlyArray<Participant>
+}
+
+export type ArrangedReply = "arranged" | "outdated"
+
+export type ArrangedOutcome = {
+  readonly state: BotState
+  readonly reply: ArrangedReply
+}
+
+const callbackRegex = /^rem:(-?\d+):(0|[1-9]\d*)$/
+
+// Reminders belong to the week of their summary; later weekdays are the next round's business.
+const reminderWindowDays = 7
+
+const isMemberOf = (group: RoundGroup, userId: UserId): boolean => group.members.some((member) => member.id === userId)
+
+// CHANGE: configure the weekday of the organizer reminder
+// WHY: organizers forget to schedule the meeting after the summary
+// QUOTE(TZ): "We want a configurable reminder a few days later, for example on Wednesday."
+// REF: user-019-organizer-reminders
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,id,d: setReminderDay(s,id,d).chats[id].reminderDay = d
+// PURITY: CORE
+// INVARIANT: null turns reminders off; unknown chats are left untouched
+// COMPLEXITY: O(1)/O(1)
+export const setReminderDay = (state: BotState, chatId: ChatId, reminderDay: Weekday | null): BotState => {
+  const chat = state.chats[chatId]
+  return chat && chat.reminderDay !== reminderDay
+    ? recordEvent(
+      state,
+      { ...state, chats: { ...state.chats, [chatId]: { ...chat, reminderDay } } },
+      { kind: "reminderDaySet", chatId, reminderDay }
+    )
+    : state
+}
+
+// CHANGE: pick the round whose organizers should be reminded today
+// WHY: after the summary DMs nothing nudges organizers to actually schedule the meeting
+// QUOTE(TZ): "We want a configurable reminder a few days later, for example on Wednesday."
+// REF: user-019-organizer-reminders
+// SOURCE: n/a
+// FORMAT THEOREM: forall c,d,w: due(c,d,w) = i -> i = |c.rounds| - 1 ∧ w = c.reminderDay ∧ 0 < d - c.rounds[i].summaryDate < 7
+// PURITY: CORE
+// INVARIANT: only the latest round is reminded, and only once
+// COMPLEXITY: O(1)/O(1)
+export const dueReminderRound = (chat: ChatState, today: LocalDateString, weekday: Weekday): number | null => {
+  const roundIndex = chat.rounds.length - 1
+  const round = chat.rounds[roundIndex]
+  if (!round || round.reminderSent || chat.reminderDay !== weekday) {
+    return null
+  }
+  const age = daysBetween(round.summaryDate, today)
+  return age > 0 && age < reminderWindowDays ? roundIndex : null
+}
+
+// CHANGE: list the organizers of a round who have not confirmed their meeting
+// WHY: organizers who already scheduled the meeting should not be nagged
+// QUOTE(TZ): "It should DM organizers who haven't marked the meeting as arranged"
+// REF: user-019-organizer-reminders
+// SOURCE: n/a
+// FORMAT THEOREM: forall r: |reminders(r)| = |{g in r.groups : ¬g.arranged}|
+// PURITY: CORE
+// INVARIANT: partners never include the organizer
+// COMPLEXITY: O(n)/O(n)
+export const organizerReminders = (round: RoundRecord): ReadonlyArray<OrganizerReminder> =>
+  round.groups
+    .filter((group) => !group.arranged)
+    .flatMap((group) => {
+      const organizer = group.members.find((member) => member.id === group.organizerId)
+      return organizer
+        ? [{ organizer, partners: group.members.filter((member) => member.id !== organizer.id) }]
+        : []
+    })
+
+// CHANGE: remember that the organizers of a round have been reminded
+// WHY: the scheduler runs every minute and reminders must survive restarts without repeating
+// QUOTE(TZ): "Reminders must be idempotent across restarts, so they need persisted send state."
+// REF: user-019-organizer-reminders
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,t: mark(s,t).chats[t.chatId].rounds[t.roundIndex].reminderSent = true
+// PURITY: CORE
+// INVARIANT: unknown chats and rounds are left untouched
+// COMPLEXITY: O(n)/O(n)
+export const markReminderSent = (state: BotState, target: RoundTarget): BotState =>
+  recordEvent(
+    state,
+    updateRound(state, target, (round) => ({ ...round, reminderSent: true })),
+    { kind: "reminderSent", ...target }
+  )
+
+// CHANGE: mark the meeting of a member's group as scheduled
+// WHY: the one-tap button records that the organizer has arranged the meeting
+// QUOTE(TZ): "with a one-tap \"we've scheduled it\" button"
+// REF: user-019-organizer-reminders
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,t,u: group(mark(s,t,u), t, u).arranged = true
+// PURITY: CORE
+// INVARIANT: groups without the member keep their flag
+// COMPLEXITY: O(n)/O(n)
+export const markMeetingArranged = (state: BotState, target: RoundTarget, userId: UserId): BotState =>
+  recordEvent(
+    state,
+    updateRound(state, target, (round) => ({
+      ...round,
+      groups: round.groups.map((group) => isMemberOf(group, userId) ? { ...group, arranged: true } : group)
+    })),
+    { kind: "meetingArranged", ...target, userId }
+  )
+
+// CHANGE: apply the "we've scheduled it" button from a private chat
+// WHY: the reply should tell people outside the round that the button is stale
+// QUOTE(TZ): "with a one-tap \"we've scheduled it\" button"
+// REF: user-019-organizer-reminders
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,t,u: member(s,t,u) -> reply = arranged ∧ arranged(state')
+// PURITY: CORE
+// INVARIANT: buttons of people outside the round produce an outdated reply without changing state
+// COMPLEXITY: O(n)/O(n)
+export const applyArrangedAction = (state: BotState, target: RoundTarget, userId: UserId): ArrangedOutcome => {
+  const round = state.chats[target.chatId]?.rounds[target.roundIndex]
+  return round?.groups.some((group) => isMemberOf(group, userId))
+    ? { state: markMeetingArranged(state, target, userId), reply: "arranged" }
+    : { state, reply: "outdated" }
+}
+
+// CHANGE: encode the reminder button into callback data
+// WHY: Telegram callback data is a short string, so the round is packed into it
+// QUOTE(TZ): "with a one-tap \"we've scheduled it\" button"
+// REF: user-019-organizer-reminders
+// SOURCE: https://core.telegram.org/bots/api#inlinekeyboardbutton
+// FORMAT THEOREM: forall t: parse(encode(t)) = t
+// PURITY: CORE
+// INVARIANT: encoded data stays within the 64-byte callback limit
+// COMPLEXITY: O(1)/O(1)
+export const encodeArrangedAction = (target: RoundTarget): string => `rem:${target.chatId}:${target.roundIndex}`
+
+// CHANGE: decode reminder button callback data
+// WHY: route reminder buttons without confusing them with other callbacks
+// QUOTE(TZ): "with a one-tap \"we've scheduled it\" button"
+// REF: user-019-organizer-reminders
+// SOURCE: n/a
+// FORMAT THEOREM: forall s: parse(s) = null ∨ encode(parse(s)) = s
+// PURITY: CORE
+// INVARIANT: unknown data returns null
+// COMPLEXITY: O(n)/O(1)
+export const parseArrangedAction = (data: string): RoundTarget | null => {
+  const [, chatId, roundIndex] = callbackRegex.exec(data) ?? []
+  return chatId && roundIndex ? { chatId: ChatId(chatId), roundIndex: Number(roundIndex) } : null
+}
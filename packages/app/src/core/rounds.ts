@@ -0,0 +1,60 @@
+import type { LocalDateString, UserId } from "./brand.js"
+import type { BotState, Pairing, Participant, RoundGroup, RoundRecord, RoundTarget } from "./domain.js"
+import type { PairingAssignment } from "./pairing.js"
+
+const organizerOf = (pair: Pairing, assignments: ReadonlyArray<PairingAssignment>): UserId => {
+  const organizer = pair.members.find((member) =>
+    assignments.some((assignment) => assignment.isOrganizer && assignment.participant.id === member.id)
+  )
+  return (organizer ?? pair.members[0]).id
+}
+
+// CHANGE: archive the full outcome of a summary as a round record
+// WHY: pair counts alone lose who met whom, who organized and who was left over
+// QUOTE(TZ): "They should record the date, the participants, the pairs and triples, the organizer and the leftovers."
+// REF: user-015-round-archive
+// SOURCE: n/a
+// FORMAT THEOREM: forall p in pairs: exists g in round.groups: g.members = p.members ∧ g.organizerId ∈ p.members
+// PURITY: CORE
+// INVARIANT: groups keep the pairing order; a pairing without an organizer assignment falls back to its first member
+// COMPLEXITY: O(n^2)/O(n)
+export const buildRoundRecord = (
+  summaryDate: LocalDateString,
+  pairs: ReadonlyArray<Pairing>,
+  assignments: ReadonlyArray<PairingAssignment>,
+  leftovers: ReadonlyArray<Participant>
+): RoundRecord => ({
+  summaryDate,
+  groups: pairs.map((pair): RoundGroup => ({
+    ...pair,
+    organizerId: organizerOf(pair, assignments),
+    feedback: [],
+    arranged: false
+  })),
+  leftovers,
+  feedbackRequested: false,
+  reminderSent: false
+})
+
+// CHANGE: replace one archived round of a chat
+// WHY: surveys and reminders annotate rounds after the summary, always by archive position
+// QUOTE(TZ): "Reminders must be idempotent across restarts, so they need persisted send state."
+// REF: user-017-feedback-survey, user-019-organizer-reminders
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,t,f: update(s,t,f).chats[t.chatId].rounds[t.roundIndex] = f(s.chats[t.chatId].rounds[t.roundIndex])
+// PURITY: CORE
+// INVARIANT: unknown chats and rounds are left untouched; other rounds keep their identity
+// COMPLEXITY: O(n)/O(n)
+export const updateRound = (
+  state: BotState,
+  target: RoundTarget,
+  updater: (round: RoundRecord) => RoundRecord
+): BotState => {
+  const chat = state.chats[target.chatId]
+  const round = chat?.rounds[target.roundIndex]
+  if (!chat || !round) {
+    return state
+  }
+  const rounds = chat.rounds.map((entry, index) => index === target.roundIndex ? updater(entry) : entry)
+  return { ...state, chats: { ...state.chats, [target.chatId]: { ...chat, rounds } } }
+}
@@ -1,8 +1,6 @@
 import type { LocalDateString } from "./brand.js"
 import { LocalDateString as LocalDate } from "./brand.js"
-import type { ChatState } from "./domain.js"
-
-export type Weekday = "Mon" | "Tue" | "Wed" | "Thu" | "Fri" | "Sat" | "Sun"
+import type { ChatState, RoundFrequency, ScheduleTimes, Weekday, WeeklySchedule } from "./domain.js"
 
 export type LocalDateParts = {
   readonly year: number
@@ -10,6 +8,12 @@ export type LocalDateParts = {
   readonly day: number
 }
 
+export type ZonedTime = {
+  readonly parts: LocalDateParts
+  readonly weekday: Weekday
+  readonly minuteOfDay: number
+}
+
 export type ScheduleDecision =
   | { readonly kind: "createPoll"; readonly summaryDate: LocalDateString }
   | { readonly kind: "summarize"; readonly summaryDate: LocalDateString }
@@ -31,6 +35,36 @@ const weekdayIndex: Readonly<Record<Weekday, number>> = {
   Sun: 7
 }
 
+export const weekdays: ReadonlyArray<Weekday> = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"]
+
+export const defaultWeeklySchedule: WeeklySchedule = { pollDay: "Fri", summaryDay: "Mon" }
+
+export const defaultScheduleTimes: ScheduleTimes = { pollTime: 0, summaryTime: 0 }
+
+export const minutesPerDay = 24 * 60
+
+export const roundFrequencies: ReadonlyArray<RoundFrequency> = ["weekly", "biweekly", "monthly"]
+
+// Monthly rounds run every four weeks so summaries keep landing on the chat's summary weekday.
+const frequencyWeeks: Readonly<Record<RoundFrequency, number>> = {
+  weekly: 1,
+  biweekly: 2,
+  monthly: 4
+}
+
+const daysFrom = (from: Weekday, to: Weekday): number => (weekdayIndex[to] - weekdayIndex[from] + 7) % 7
+
+// CHANGE: parse a stored weekday value
+// WHY: database text must not leak unknown weekdays into the schedule
+// QUOTE(TZ): "a per-chat schedule configuration stored in `ChatState` and the `chats` table"
+// REF: user-007-weekly-schedule
+// SOURCE: n/a
+// FORMAT THEOREM: forall d in weekdays: parse(d) = d
+// PURITY: CORE
+// INVARIANT: unknown values return null
+// COMPLEXITY: O(1)/O(1)
+export const parseWeekday = (value: string | null): Weekday | null => weekdays.find((day) => day === value) ?? null
+
 // CHANGE: build a LocalDateString from parts
 // WHY: reuse date formatting across scheduling and manual commands
 // QUOTE(TZ): n/a
@@ -57,29 +91,124 @@ const addDays = (parts: LocalDateParts, days: number): LocalDateParts => {
   }
 }
 
-const nextMonday = (parts: LocalDateParts, weekday: Weekday): LocalDateString => {
-  const index = weekdayIndex[weekday]
-  const daysToMonday = (8 - index) % 7
-  return formatLocalDate(addDays(parts, daysToMonday))
+const toUtcDay = (date: LocalDateString): number => {
+  const [year = 1970, month = 1, day = 1] = date.split("-").map(Number)
+  return Date.UTC(year, month - 1, day) / (24 * 60 * 60 * 1000)
 }
 
-const isPollDay = (weekday: Weekday): boolean => weekday === "Fri" || weekday === "Sat" || weekday === "Sun"
+// CHANGE: count calendar days between two local dates
+// WHY: weigh pair history by how long ago each meeting happened
+// QUOTE(TZ): "Someone you met 40 weeks ago counts the same as someone you met last week"
+// REF: user-003-recency-history
+// SOURCE: n/a
+// FORMAT THEOREM: forall a,b: daysBetween(a,b) = -daysBetween(b,a)
+// PURITY: CORE
+// INVARIANT: result is an integer number of days
+// COMPLEXITY: O(1)/O(1)
+export const daysBetween = (from: LocalDateString, to: LocalDateString): number =>
+  Math.round(toUtcDay(to) - toUtcDay(from))
 
-const isSummaryDay = (
-  chat: ChatState,
-  today: LocalDateString,
-  weekday: Weekday
-): boolean => weekday === "Mon" && chat.poll?.summaryDate === today
+const nextSummaryDate = (
+  parts: LocalDateParts,
+  weekday: Weekday,
+  schedule: WeeklySchedule
+): LocalDateString => formatLocalDate(addDays(parts, daysFrom(weekday, schedule.summaryDay) || 7))
 
-const shouldSkipSchedule = (
-  chat: ChatState,
-  today: LocalDateString,
-  weekday: Weekday
-): boolean => {
+// CHANGE: check whether a weekday falls into the poll window of a schedule
+// WHY: the poll window runs from the poll day up to the day before the summary
+// QUOTE(TZ): "for example a poll on Wednesday and a summary on Thursday"
+// REF: user-007-weekly-schedule
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,d: isPollDay(s,d) ⇔ daysFrom(s.pollDay,d) < daysFrom(s.pollDay,s.summaryDay)
+// PURITY: CORE
+// INVARIANT: the summary day is never a poll day
+// COMPLEXITY: O(1)/O(1)
+export const isPollDay = (schedule: WeeklySchedule, weekday: Weekday): boolean =>
+  daysFrom(schedule.pollDay, weekday) < daysFrom(schedule.pollDay, schedule.summaryDay)
+
+// CHANGE: check whether a round summarized on a date respects the chat frequency
+// WHY: biweekly and monthly chats skip poll windows until enough weeks have passed
+// QUOTE(TZ): "a round-frequency setting per chat that `decideSchedule` consults, based on `lastSummaryAt`"
+// REF: user-008-round-frequency
+// SOURCE: n/a
+// FORMAT THEOREM: forall c,d: due(c,d) ⇔ c.lastSummaryAt = null ∨ round(days(c.lastSummaryAt, d) / 7) >= weeks(c.frequency)
+// PURITY: CORE
+// INVARIANT: weekly chats are always due; rounding tolerates manual summaries on other weekdays
+// COMPLEXITY: O(1)/O(1)
+export const isRoundDue = (chat: ChatState, summaryDate: LocalDateString): boolean =>
+  chat.lastSummaryAt === null ||
+  Math.round(daysBetween(chat.lastSummaryAt, summaryDate) / 7) >= frequencyWeeks[chat.roundFrequency]
+
+// CHANGE: parse a stored round frequency value
+// WHY: database text must not leak unknown frequencies into state
+// QUOTE(TZ): "Some of our communities want a round every two weeks or once a month"
+// REF: user-008-round-frequency
+// SOURCE: n/a
+// FORMAT THEOREM: forall f in frequencies: parse(f) = f
+// PURITY: CORE
+// INVARIANT: unknown values return null
+// COMPLEXITY: O(1)/O(1)
+export const parseRoundFrequency = (value: string | null): RoundFrequency | null =>
+  roundFrequencies.find((frequency) => frequency === value) ?? null
+
+const localDatePattern = /^\d{4}-\d{2}-\d{2}$/
+
+// CHANGE: parse a stored calendar date
+// WHY: summary dates are read back from several tables and must share one check
+// QUOTE(TZ): "They should record the date, the participants, the pairs and triples, the organizer and the leftovers."
+// REF: user-015-round-archive
+// SOURCE: n/a
+// FORMAT THEOREM: forall d matching YYYY-MM-DD: parse(d) = d
+// PURITY: CORE
+// INVARIANT: values that are not YYYY-MM-DD return null
+// COMPLEXITY: O(1)/O(1)
+export const parseLocalDate = (value: string): LocalDateString | null =>
+  localDatePattern.test(value) ? LocalDate(value) : null
+
+// CHANGE: format minutes after midnight as a wall clock time
+// WHY: show configured poll and summary times in replies
+// QUOTE(TZ): "We want a configurable local time per chat for poll creation and for the summary."
+// REF: user-010-time-of-day
+// SOURCE: n/a
+// FORMAT THEOREM: forall m in [0, 1440): format(m) matches HH:MM
+// PURITY: CORE
+// INVARIANT: hours and minutes are zero padded
+// COMPLEXITY: O(1)/O(1)
+export const formatTimeOfDay = (minuteOfDay: number): string => {
+  const hours = Math.floor(minuteOfDay / 60).toString().padStart(2, "0")
+  const minutes = (minuteOfDay % 60).toString().padStart(2, "0")
+  return `${hours}:${minutes}`
+}
+
+// CHANGE: parse a stored time of day
+// WHY: database values outside a day must not shift the schedule
+// QUOTE(TZ): "a configurable local time per chat for poll creation and for the summary"
+// REF: user-010-time-of-day
+// SOURCE: n/a
+// FORMAT THEOREM: forall m in [0, 1440): parse(m) = m
+// PURITY: CORE
+// INVARIANT: out of range values return null
+// COMPLEXITY: O(1)/O(1)
+export const parseTimeOfDay = (value: number | null): number | null =>
+  value !== null && Number.isInteger(value) && value >= 0 && value < minutesPerDay ? value : null
+
+// The open poll is summarized on its own date even after /schedule moved the summary weekday,
+// and right away when that date has already passed.
+const isSummaryDue = (chat: ChatState, today: LocalDateString): boolean =>
+  chat.poll !== null && daysBetween(chat.poll.summaryDate, today) >= 0
+
+const isSummaryTime = (chat: ChatState, now: ZonedTime, today: LocalDateString): boolean =>
+  chat.poll?.summaryDate !== today || now.minuteOfDay >= chat.scheduleTimes.summaryTime
+
+const isPollOpen = (chat: ChatState, now: ZonedTime): boolean =>
+  isPollDay(chat.schedule, now.weekday) &&
+  (now.weekday !== chat.schedule.pollDay || now.minuteOfDay >= chat.scheduleTimes.pollTime)
+
+const shouldSkipSchedule = (chat: ChatState, today: LocalDateString): boolean => {
   if (chat.lastSummaryAt === today) {
     return true
   }
-  if (chat.poll && !isSummaryDay(chat, today, weekday)) {
+  if (chat.poll && !isSummaryDue(chat, today)) {
     return true
   }
   return false
@@ -88,17 +217,32 @@ const shouldSkipSchedule = (
 // CHANGE: compute the next poll window relative to today
 // WHY: answer user queries about when the next poll can start
 // QUOTE(TZ): "команду которая скажет через сколько начало будет"
-// REF: user-2026-01-09-nextpoll
+// REF: user-2026-01-09-nextpoll, user-010-time-of-day
 // SOURCE: n/a
-// FORMAT THEOREM: forall d: daysUntilStart >= 0
+// FORMAT THEOREM: forall c,t: daysUntilStart >= 0 ∧ isRoundDue(c, summaryOf(window)) ∧ (isOpen -> isPollOpen(c,t))
 // PURITY: CORE
-// INVARIANT: startDate is a valid LocalDateString
+// INVARIANT: startDate is a valid LocalDateString and falls on schedule.pollDay when closed;
+// the window opens at scheduleTimes.pollTime on the poll day, like decideSchedule
 // COMPLEXITY: O(1)/O(1)
 export const nextPollWindow = (
-  todayParts: LocalDateParts,
-  weekday: Weekday
+  chat: ChatState,
+  now: ZonedTime
 ): PollWindow => {
-  if (isPollDay(weekday)) {
+  const { schedule } = chat
+  const { parts: todayParts, weekday } = now
+  const isOpen = isPollOpen(chat, now)
+  const startOffset = isOpen ? -daysFrom(schedule.pollDay, weekday) : daysFrom(weekday, schedule.pollDay)
+  const summaryGap = daysFrom(schedule.pollDay, schedule.summaryDay)
+  const maxWeeks = frequencyWeeks.monthly
+  let week = 0
+  while (
+    week < maxWeeks &&
+    !isRoundDue(chat, formatLocalDate(addDays(todayParts, startOffset + week * 7 + summaryGap)))
+  ) {
+    week += 1
+  }
+
+  if (isOpen && week === 0) {
     return {
       startDate: formatLocalDate(todayParts),
       daysUntilStart: 0,
@@ -106,9 +250,7 @@ export const nextPollWindow = (
     }
   }
 
-  const targetIndex = weekdayIndex.Fri
-  const currentIndex = weekdayIndex[weekday]
-  const daysUntil = (targetIndex - currentIndex + 7) % 7
+  const daysUntil = startOffset + week * 7
 
   return {
     startDate: formatLocalDate(addDays(todayParts, daysUntil)),
@@ -122,49 +264,90 @@ export const nextPollWindow = (
 // QUOTE(TZ): "Сделать моментальный опросник"
 // REF: user-2026-01-09-commands
 // SOURCE: n/a
-// FORMAT THEOREM: forall d: summaryDate(d) is a Monday
+// FORMAT THEOREM: forall d: summaryDate(d) falls on schedule.summaryDay
 // PURITY: CORE
-// INVARIANT: returned date is a valid LocalDateString
+// INVARIANT: returned date is strictly after today
 // COMPLEXITY: O(1)/O(1)
 export const summaryDateForPoll = (
   todayParts: LocalDateParts,
-  weekday: Weekday
-): LocalDateString => {
-  const index = weekdayIndex[weekday]
-  const daysToMonday = weekday === "Mon" ? 7 : (8 - index) % 7
-  return formatLocalDate(addDays(todayParts, daysToMonday))
-}
+  weekday: Weekday,
+  schedule: WeeklySchedule
+): LocalDateString => nextSummaryDate(todayParts, weekday, schedule)
 
-// CHANGE: decide whether to create a poll or summarize based on the calendar
-// WHY: enforce the weekly Friday/Saturday poll and Monday summary cycle deterministically
-// QUOTE(TZ): "Создаёт опросник в пятницу/субботу а подводит итог в понедельник"
-// REF: user-2026-01-09-random-coffee
+// CHANGE: compute the summary date of the next roster round of a subscription chat
+// WHY: members skip a round by its date, and "/skip" without a date means the coming one
+// QUOTE(TZ): "They can skip specific weeks or unsubscribe."
+// REF: user-025-subscription-mode
 // SOURCE: n/a
-// FORMAT THEOREM: forall s: decision(s, Mon) = summarize iff poll.summaryDate = today
+// FORMAT THEOREM: forall d: rosterSummaryDate(d) falls on schedule.summaryDay ∧ isRoundDue(chat, rosterSummaryDate(d))
 // PURITY: CORE
-// INVARIANT: decisions never schedule both create and summarize on the same tick
+// INVARIANT: today counts while today's round has not been summarized yet
 // COMPLEXITY: O(1)/O(1)
-export const decideSchedule = (
-  chat: ChatState,
+export const nextRosterSummaryDate = (
   todayParts: LocalDateParts,
-  weekday: Weekday
-): ScheduleDecision => {
-  const today = formatLocalDate(todayParts)
+  weekday: Weekday,
+  chat: ChatState
+): LocalDateString => {
+  const firstOffset = daysFrom(weekday, chat.schedule.summaryDay)
+  const startOffset = firstOffset === 0 && chat.lastSummaryAt === formatLocalDate(todayParts) ? 7 : firstOffset
+  let week = 0
+  while (
+    week < frequencyWeeks.monthly && !isRoundDue(chat, formatLocalDate(addDays(todayParts, startOffset + week * 7)))
+  ) {
+    week += 1
+  }
+  return formatLocalDate(addDays(todayParts, startOffset + week * 7))
+}
+
+// Members of the roster who do not sit out the round of the date.
+const hasRosterFor = (chat: ChatState, date: LocalDateString): boolean =>
+  Object.values(chat.subscriptions).some((subscription) => !subscription.skippedDates.includes(date))
 
-  if (shouldSkipSchedule(chat, today, weekday)) {
+// Subscription chats have no poll: the roster is paired on the summary day once the round is due.
+// An empty roster archives nothing, so the round would stay due; it is not summarized at all.
+const decideRosterSchedule = (chat: ChatState, now: ZonedTime, today: LocalDateString): ScheduleDecision =>
+  now.weekday === chat.schedule.summaryDay &&
+    now.minuteOfDay >= chat.scheduleTimes.summaryTime &&
+    isRoundDue(chat, today) &&
+    hasRosterFor(chat, today)
+    ? { kind: "summarize", summaryDate: today }
+    : { kind: "noop" }
+
+const decidePollSchedule = (chat: ChatState, now: ZonedTime, today: LocalDateString): ScheduleDecision => {
+  if (shouldSkipSchedule(chat, today)) {
     return { kind: "noop" }
   }
 
-  if (isSummaryDay(chat, today, weekday)) {
-    return { kind: "summarize", summaryDate: today }
+  if (isSummaryDue(chat, today)) {
+    return isSummaryTime(chat, now, today) ? { kind: "summarize", summaryDate: today } : { kind: "noop" }
   }
 
-  if (isPollDay(weekday)) {
-    const summaryDate = nextMonday(todayParts, weekday)
-    if (chat.poll?.summaryDate !== summaryDate) {
+  if (isPollOpen(chat, now)) {
+    const summaryDate = nextSummaryDate(now.parts, now.weekday, chat.schedule)
+    if (chat.poll?.summaryDate !== summaryDate && isRoundDue(chat, summaryDate)) {
       return { kind: "createPoll", summaryDate }
     }
   }
 
   return { kind: "noop" }
 }
+
+// CHANGE: decide whether to create a poll or summarize based on the calendar
+// WHY: enforce the chat's weekly poll and summary cycle deterministically
+// QUOTE(TZ): "Создаёт опросник в пятницу/субботу а подводит итог в понедельник"
+// REF: user-2026-01-09-random-coffee, user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall s: poll.summaryDate < today ∨ (poll.summaryDate = today ∧ time >= summaryTime) -> summarize
+// PURITY: CORE
+// INVARIANT: decisions never schedule both create and summarize on the same tick; nothing fires before the configured time;
+// subscription chats never get a poll
+// COMPLEXITY: O(1)/O(1)
+export const decideSchedule = (
+  chat: ChatState,
+  now: ZonedTime
+): ScheduleDecision => {
+  const today = formatLocalDate(now.parts)
+  return chat.mode === "subscription"
+    ? decideRosterSchedule(chat, now, today)
+    : decidePollSchedule(chat, now, today)
+}
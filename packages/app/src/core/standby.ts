@@ -0,0 +1,89 @@
+import type { RngSeed } from "./brand.js"
+import type { PairHistory, Participant, PollState } from "./domain.js"
+import { type PairingOptions, type PairingResult, pairParticipants, roundCost } from "./pairing.js"
+import { shuffle } from "./rng.js"
+
+export type StandbyPairing = PairingResult & {
+  // Standby member pulled into the round, already counted in pairs.
+  readonly calledIn: Participant | null
+}
+
+type StandbySplit = {
+  readonly confirmed: ReadonlyArray<Participant>
+  readonly standby: ReadonlyArray<Participant>
+}
+
+// CHANGE: tell whether a poll answer is a standby sign-up
+// WHY: standby voters are stored apart from members who confirmed
+// QUOTE(TZ): "We want a third poll option, \"only if someone needs a partner\"."
+// REF: user-024-standby-signups
+// SOURCE: n/a
+// FORMAT THEOREM: forall p,os: standbyVote(p, os) <-> p.standbyOption in os
+// PURITY: CORE
+// INVARIANT: polls without a standby option never produce standby votes
+// COMPLEXITY: O(n)/O(1)
+export const isStandbyVote = (poll: Pick<PollState, "standbyOption">, optionIds: ReadonlyArray<number>): boolean =>
+  poll.standbyOption !== null && optionIds.includes(poll.standbyOption)
+
+// CHANGE: split poll participants into confirmed and standby members
+// WHY: standby voters are not paired by default
+// QUOTE(TZ): "Standby voters are not paired by default."
+// REF: user-024-standby-signups
+// SOURCE: n/a
+// FORMAT THEOREM: forall ps: confirmed(ps) ∪ standby(ps) = ps
+// PURITY: CORE
+// INVARIANT: both lists keep the input order
+// COMPLEXITY: O(n)/O(n)
+export const splitStandby = (participants: ReadonlyArray<Participant>): StandbySplit => ({
+  confirmed: participants.filter((participant) => participant.standby !== true),
+  standby: participants.filter((participant) => participant.standby === true)
+})
+
+// Called-in members pair like anyone else, so rounds and re-matches never see the flag.
+const withoutStandby = (participant: Participant): Participant => ({ ...participant, standby: undefined })
+
+const isBetter = (
+  candidate: PairingResult,
+  best: PairingResult,
+  history: PairHistory,
+  options: PairingOptions
+): boolean =>
+  candidate.leftovers.length < best.leftovers.length ||
+  (candidate.leftovers.length === best.leftovers.length &&
+    roundCost(candidate.pairs, history, options.decay) < roundCost(best.pairs, history, options.decay))
+
+// CHANGE: pair confirmed members and call in one standby member when the count is odd
+// WHY: odd numbers leave someone alone every week
+// QUOTE(TZ): "One of them is pulled in only when the confirmed count is odd, chosen with the same history-aware logic."
+// REF: user-024-standby-signups
+// SOURCE: n/a
+// FORMAT THEOREM: forall c,s: calledIn != null -> |c| odd ∧ |leftovers| < |leftovers(pair(c))|
+// PURITY: CORE
+// INVARIANT: the standby member whose round leaves fewest members alone at the lowest repeat cost wins;
+// ties follow a seeded shuffle; a standby member who would not help anyone stays out
+// COMPLEXITY: O(k*n^3)/O(n^2)
+export const pairWithStandby = (
+  confirmed: ReadonlyArray<Participant>,
+  standby: ReadonlyArray<Participant>,
+  history: PairHistory,
+  seed: RngSeed,
+  options: PairingOptions
+): StandbyPairing => {
+  const base = pairParticipants(confirmed, history, seed, options)
+  let best: StandbyPairing = { ...base, calledIn: null }
+  if (confirmed.length % 2 === 0 || standby.length === 0) {
+    return best
+  }
+  const candidates = shuffle(standby.map((participant) => withoutStandby(participant)), seed)
+  for (const candidate of candidates.items) {
+    const result = pairParticipants([...confirmed, candidate], history, candidates.seed, options)
+    // Calling someone in must leave fewer members alone than the round without them.
+    if (
+      result.leftovers.length < base.leftovers.length &&
+      (best.calledIn === null || isBetter(result, best, history, options))
+    ) {
+      best = { ...result, calledIn: candidate }
+    }
+  }
+  return best
+}
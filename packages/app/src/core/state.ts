@@ -1,19 +1,26 @@
-import type { ChatId, LocalDateString, RngSeed } from "./brand.js"
+import type { ChatId, RngSeed, UserId } from "./brand.js"
 import type {
   BotState,
   ChatState,
-  Pairing,
+  Exclusion,
+  Participant,
   PollState,
-  UserProfile
+  ProfileDraft,
+  RoundFrequency,
+  RoundRecord,
+  ScheduleTimes,
+  UserProfile,
+  WeeklySchedule
 } from "./domain.js"
-import {
-  clearProfileEditPending,
-  isProfileEditPending,
-  markProfileEditPending,
-  upsertProfile
-} from "./profiles.js"
-import { updateHistory } from "./pairing.js"
+import type { BotEvent } from "./events.js"
+import { removeExclusion, upsertExclusion } from "./exclusions.js"
+import { clearFeedbackCommentPending } from "./feedback.js"
+import { recordEvent } from "./journal.js"
+import { pairingKeys, recordMeetings } from "./pairing.js"
+import { removeParticipant, upsertParticipant } from "./participants.js"
+import { clearProfileEditPending, findProfileEditPending, markProfileEditPending, upsertProfile } from "./profiles.js"
 import { nextSeed } from "./rng.js"
+import { defaultScheduleTimes, defaultWeeklySchedule } from "./schedule.js"
 
 // CHANGE: initialize a per-chat state container
 // WHY: track polls, history, and randomness independently per group chat
@@ -32,7 +39,20 @@ export const emptyChatState = (seed: RngSeed): ChatState => ({
   threadId: null,
   title: null,
   inviteLink: null,
-  lastSummaryAt: null
+  lastSummaryAt: null,
+  allowTriples: false,
+  historyHalfLifeWeeks: null,
+  exclusions: {},
+  schedule: defaultWeeklySchedule,
+  scheduleTimes: defaultScheduleTimes,
+  roundFrequency: "weekly",
+  timeZone: null,
+  reminderDay: null,
+  language: null,
+  pollWording: null,
+  mode: "poll",
+  subscriptions: {},
+  rounds: []
 })
 
 const updateChat = (
@@ -41,22 +61,21 @@ const updateChat = (
   updater: (chat: ChatState) => ChatState
 ): BotState => {
   const current = state.chats[chatId]
-  if (!current) {
+  const updated = current && updater(current)
+  if (!updated || updated === current) {
     return state
   }
   return {
     ...state,
     chats: {
       ...state.chats,
-      [chatId]: updater(current)
+      [chatId]: updated
     }
   }
 }
 
 const removePollIndex = (state: BotState, pollId: string): BotState => {
-  const entries = Object.entries(state.pollIndex).filter(
-    ([entryId]) => entryId !== pollId
-  )
+  const entries = Object.entries(state.pollIndex).filter(([entryId]) => entryId !== pollId)
   return {
     ...state,
     pollIndex: Object.fromEntries(entries)
@@ -77,6 +96,23 @@ const clearPoll = (
   return pollId ? removePollIndex(updated, pollId) : updated
 }
 
+const closePoll = (state: BotState, chatId: ChatId): BotState =>
+  clearPoll(state, chatId, (current) => ({
+    ...current,
+    poll: null,
+    participants: {}
+  }))
+
+// Settings are replaced whole; setting the current value again leaves the state and the journal alone.
+const setChatSetting = <Key extends keyof ChatState>(
+  state: BotState,
+  chatId: ChatId,
+  key: Key,
+  value: ChatState[Key],
+  event: BotEvent
+): BotState =>
+  recordEvent(state, updateChat(state, chatId, (chat) => chat[key] === value ? chat : { ...chat, [key]: value }), event)
+
 // CHANGE: ensure a chat state exists for the given chat id
 // WHY: allow the bot to self-configure when added to any group
 // QUOTE(TZ): "может работать в любом чате в который добавят бота"
@@ -92,14 +128,14 @@ export const ensureChat = (state: BotState, chatId: ChatId): BotState => {
   }
   const chatSeed = state.seed
   const next = nextSeed(state.seed)
-  return {
+  return recordEvent(state, {
     ...state,
     seed: next,
     chats: {
       ...state.chats,
       [chatId]: emptyChatState(chatSeed)
     }
-  }
+  }, { kind: "chatAdded", chatId, seed: chatSeed })
 }
 
 // CHANGE: persist a user profile into bot state
@@ -114,26 +150,29 @@ export const ensureChat = (state: BotState, chatId: ChatId): BotState => {
 export const setUserProfile = (
   state: BotState,
   profile: UserProfile
-): BotState => ({
-  ...state,
-  profiles: upsertProfile(state.profiles, profile)
-})
+): BotState =>
+  recordEvent(state, {
+    ...state,
+    profiles: upsertProfile(state.profiles, profile)
+  }, { kind: "profileSet", profile })
 
-// CHANGE: mark profile editing for a private chat
-// WHY: only capture profile text after explicit request
+// CHANGE: store the profile wizard draft for a private chat
+// WHY: only capture profile answers after explicit request
 // QUOTE(TZ): "Заполнить профиль и изменить описание это по сути одно и тоже"
-// REF: user-2026-01-21-profile-edit-unify
+// REF: user-006-structured-profiles
 // SOURCE: n/a
-// FORMAT THEOREM: forall s,id: mark(s,id).pending[id] = true
+// FORMAT THEOREM: forall s,id,d: mark(s,id,d).pending[id] = d
 // PURITY: CORE
-// INVARIANT: pending profile edits are tracked per chat
+// INVARIANT: pending profile edits are tracked per chat; a started wizard drops a pending feedback comment
 // COMPLEXITY: O(1)/O(n)
 export const markProfileEdit = (
   state: BotState,
-  chatId: ChatId
+  chatId: ChatId,
+  draft: ProfileDraft
 ): BotState => ({
   ...state,
-  pendingProfileEdits: markProfileEditPending(state.pendingProfileEdits, chatId)
+  pendingProfileEdits: markProfileEditPending(state.pendingProfileEdits, chatId, draft),
+  pendingFeedbackComments: clearFeedbackCommentPending(state.pendingFeedbackComments, chatId)
 })
 
 // CHANGE: clear profile editing flag for a private chat
@@ -153,17 +192,17 @@ export const clearProfileEdit = (
   pendingProfileEdits: clearProfileEditPending(state.pendingProfileEdits, chatId)
 })
 
-// CHANGE: check if profile editing is active for a private chat
+// CHANGE: lookup the active profile wizard draft for a private chat
 // WHY: ignore unrelated messages in private chats
 // QUOTE(TZ): "Заполнить профиль и изменить описание это по сути одно и тоже"
-// REF: user-2026-01-21-profile-edit-unify
+// REF: user-006-structured-profiles
 // SOURCE: n/a
-// FORMAT THEOREM: forall s,id: isPending(s,id) = pending[id]
+// FORMAT THEOREM: forall s,id: find(s,id) = pending[id]
 // PURITY: CORE
-// INVARIANT: returns false when pending flag is absent
+// INVARIANT: returns undefined when no wizard is active
 // COMPLEXITY: O(1)/O(1)
-export const isProfileEditActive = (state: BotState, chatId: ChatId): boolean =>
-  isProfileEditPending(state.pendingProfileEdits, chatId)
+export const findProfileEdit = (state: BotState, chatId: ChatId): ProfileDraft | undefined =>
+  findProfileEditPending(state.pendingProfileEdits, chatId)
 
 // CHANGE: update the target thread for a chat
 // WHY: allow admins to choose where polls and summaries are posted
@@ -178,11 +217,7 @@ export const setThreadId = (
   state: BotState,
   chatId: ChatId,
   threadId: number | null
-): BotState =>
-  updateChat(state, chatId, (chat) => ({
-    ...chat,
-    threadId
-  }))
+): BotState => setChatSetting(state, chatId, "threadId", threadId, { kind: "threadIdSet", chatId, threadId })
 
 // CHANGE: update the cached chat title
 // WHY: include the current chat name in the weekly summary
@@ -197,15 +232,7 @@ export const setChatTitle = (
   state: BotState,
   chatId: ChatId,
   title: string
-): BotState =>
-  updateChat(state, chatId, (chat) => (
-    chat.title === title
-      ? chat
-      : {
-        ...chat,
-        title
-      }
-  ))
+): BotState => setChatSetting(state, chatId, "title", title, { kind: "chatTitleSet", chatId, title })
 
 // CHANGE: update the cached chat invite link
 // WHY: allow manual configuration of group join links for the leaderboard
@@ -220,15 +247,152 @@ export const setChatInviteLink = (
   state: BotState,
   chatId: ChatId,
   inviteLink: string | null
+): BotState => setChatSetting(state, chatId, "inviteLink", inviteLink, { kind: "inviteLinkSet", chatId, inviteLink })
+
+// CHANGE: toggle triple pairings for odd participant counts
+// WHY: let admins opt in to folding the odd participant into a group of three
+// QUOTE(TZ): "We want an opt-in per-chat mode where an odd participant is folded into the group"
+// REF: user-001-triple-pairing
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,id,b: setTriples(s,id,b).chats[id].allowTriples = b
+// PURITY: CORE
+// INVARIANT: only the triples flag is updated
+// COMPLEXITY: O(1)/O(1)
+export const setAllowTriples = (
+  state: BotState,
+  chatId: ChatId,
+  allowTriples: boolean
+): BotState =>
+  setChatSetting(state, chatId, "allowTriples", allowTriples, { kind: "allowTriplesSet", chatId, allowTriples })
+
+// CHANGE: configure how fast past meetings stop counting as repeats
+// WHY: recent repeats should be penalized more than old ones
+// QUOTE(TZ): "a configurable decay so recent repeats are penalized more than old ones"
+// REF: user-003-recency-history
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,id,h: setDecay(s,id,h).chats[id].historyHalfLifeWeeks = h
+// PURITY: CORE
+// INVARIANT: null disables decay so every meeting counts fully
+// COMPLEXITY: O(1)/O(1)
+export const setHistoryHalfLife = (
+  state: BotState,
+  chatId: ChatId,
+  historyHalfLifeWeeks: number | null
+): BotState =>
+  setChatSetting(state, chatId, "historyHalfLifeWeeks", historyHalfLifeWeeks, {
+    kind: "historyHalfLifeSet",
+    chatId,
+    historyHalfLifeWeeks
+  })
+
+// CHANGE: configure the weekly poll and summary days of a chat
+// WHY: chats want different cadences than Friday polls and Monday summaries
+// QUOTE(TZ): "We want a per-chat schedule configuration stored in `ChatState`"
+// REF: user-007-weekly-schedule
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,id,w: setSchedule(s,id,w).chats[id].schedule = w
+// PURITY: CORE
+// INVARIANT: an active poll keeps its summary date; decideSchedule summarizes it on that date whatever the new days
+// COMPLEXITY: O(1)/O(1)
+export const setWeeklySchedule = (
+  state: BotState,
+  chatId: ChatId,
+  schedule: WeeklySchedule
+): BotState => setChatSetting(state, chatId, "schedule", schedule, { kind: "weeklyScheduleSet", chatId, schedule })
+
+// CHANGE: configure the poll and summary times of a chat
+// WHY: rounds should start and end at a sensible local hour instead of right after midnight
+// QUOTE(TZ): "We want a configurable local time per chat for poll creation and for the summary."
+// REF: user-010-time-of-day
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,id,t: setTimes(s,id,t).chats[id].scheduleTimes = t
+// PURITY: CORE
+// INVARIANT: only the times are updated
+// COMPLEXITY: O(1)/O(1)
+export const setScheduleTimes = (
+  state: BotState,
+  chatId: ChatId,
+  scheduleTimes: ScheduleTimes
 ): BotState =>
-  updateChat(state, chatId, (chat) => (
-    chat.inviteLink === inviteLink
-      ? chat
-      : {
-        ...chat,
-        inviteLink
-      }
-  ))
+  setChatSetting(state, chatId, "scheduleTimes", scheduleTimes, { kind: "scheduleTimesSet", chatId, scheduleTimes })
+
+// CHANGE: configure how often a chat runs a round
+// WHY: some communities want a round every two weeks or once a month
+// QUOTE(TZ): "We want a round-frequency setting per chat"
+// REF: user-008-round-frequency
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,id,f: setFrequency(s,id,f).chats[id].roundFrequency = f
+// PURITY: CORE
+// INVARIANT: only the frequency is updated
+// COMPLEXITY: O(1)/O(1)
+export const setRoundFrequency = (
+  state: BotState,
+  chatId: ChatId,
+  roundFrequency: RoundFrequency
+): BotState =>
+  setChatSetting(state, chatId, "roundFrequency", roundFrequency, { kind: "roundFrequencySet", chatId, roundFrequency })
+
+// CHANGE: configure the time zone of a chat
+// WHY: communities in different regions expect polls and summaries on their local calendar
+// QUOTE(TZ): "each `ChatState` to carry its own IANA time zone"
+// REF: user-009-chat-time-zones
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,id,z: setTimeZone(s,id,z).chats[id].timeZone = z
+// PURITY: CORE
+// INVARIANT: null falls back to the bot default zone
+// COMPLEXITY: O(1)/O(1)
+export const setChatTimeZone = (
+  state: BotState,
+  chatId: ChatId,
+  timeZone: string | null
+): BotState => setChatSetting(state, chatId, "timeZone", timeZone, { kind: "timeZoneSet", chatId, timeZone })
+
+// CHANGE: store an exclusion for a chat
+// WHY: participants can refuse to be matched with a specific person
+// QUOTE(TZ): "We want a per-chat exclusion list that `pairParticipants` treats as a hard constraint"
+// REF: user-004-pair-exclusions
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,id,e: e in addExclusion(s,id,e).chats[id].exclusions
+// PURITY: CORE
+// INVARIANT: unknown chats are left untouched
+// COMPLEXITY: O(n)/O(n)
+export const addChatExclusion = (
+  state: BotState,
+  chatId: ChatId,
+  exclusion: Exclusion
+): BotState =>
+  recordEvent(
+    state,
+    updateChat(state, chatId, (chat) => ({
+      ...chat,
+      exclusions: upsertExclusion(chat.exclusions, exclusion)
+    })),
+    { kind: "exclusionAdded", chatId, exclusion }
+  )
+
+// CHANGE: lift an exclusion for a chat
+// WHY: participants manage their own exclusions privately
+// QUOTE(TZ): "Users manage it privately through a DM flow"
+// REF: user-004-pair-exclusions
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,id,r,x: (r,x) not in removeExclusion(s,id,r,x).chats[id].exclusions
+// PURITY: CORE
+// INVARIANT: exclusions of other requesters are preserved
+// COMPLEXITY: O(n)/O(n)
+export const removeChatExclusion = (
+  state: BotState,
+  chatId: ChatId,
+  requesterId: UserId,
+  excludedId: UserId
+): BotState =>
+  recordEvent(
+    state,
+    updateChat(state, chatId, (chat) => ({
+      ...chat,
+      exclusions: removeExclusion(chat.exclusions, requesterId, excludedId)
+    })),
+    { kind: "exclusionRemoved", chatId, requesterId, excludedId }
+  )
 
 // CHANGE: start a new poll by resetting participants and storing poll metadata
 // WHY: ensure each weekly poll has a clean participant set
@@ -251,40 +415,91 @@ export const startPoll = (
     poll,
     participants: {}
   }))
-  return {
+  return recordEvent(state, {
     ...updated,
     pollIndex: {
       ...updated.pollIndex,
       [poll.pollId]: chatId
     }
-  }
+  }, { kind: "pollStarted", chatId, poll })
 }
 
 // CHANGE: apply summary results to the bot state
-// WHY: persist pairing history and advance the RNG seed deterministically
+// WHY: persist pairing history, archive the round and advance the RNG seed deterministically
 // QUOTE(TZ): "Что бы меньше попадались те кто уже был"
-// REF: user-2026-01-09-random-coffee
+// REF: user-2026-01-09-random-coffee, user-015-round-archive
 // SOURCE: n/a
-// FORMAT THEOREM: forall s,pairs: history' = update(history, pairs)
+// FORMAT THEOREM: forall s,r: members(r) != {} -> history' = recordMeetings(history, keys(r), r.date) ∧ rounds' = rounds ++ [r]
 // PURITY: CORE
-// INVARIANT: poll is cleared after summary and lastSummaryAt is updated
+// INVARIANT: poll is cleared after summary; a round without members is not archived, so feedback, reminders and
+// re-matches keep acting on the last real round, but a closed empty poll still moves lastSummaryAt for the cadence
 // COMPLEXITY: O(n)/O(n)
 export const applySummary = (
   state: BotState,
   chatId: ChatId,
-  pairs: ReadonlyArray<Pairing>,
-  seed: RngSeed,
-  summaryDate: LocalDateString
-): BotState => {
-  return clearPoll(state, chatId, (current) => ({
-    ...current,
-    history: updateHistory(current.history, pairs),
-    poll: null,
-    participants: {},
-    seed,
-    lastSummaryAt: summaryDate
-  }))
-}
+  round: RoundRecord,
+  seed: RngSeed
+): BotState =>
+  recordEvent(
+    state,
+    round.groups.length === 0 && round.leftovers.length === 0
+      ? clearPoll(state, chatId, (current) =>
+        current.poll === null
+          ? current
+          : { ...current, poll: null, participants: {}, lastSummaryAt: round.summaryDate })
+      : clearPoll(state, chatId, (current) => ({
+        ...current,
+        history: recordMeetings(
+          current.history,
+          round.groups.flatMap((group) => pairingKeys(group)),
+          round.summaryDate
+        ),
+        poll: null,
+        participants: {},
+        seed,
+        lastSummaryAt: round.summaryDate,
+        rounds: [...current.rounds, round]
+      })),
+    { kind: "summaryApplied", chatId, round, seed, pairingSeed: state.chats[chatId]?.seed ?? seed }
+  )
+
+// CHANGE: record a yes vote in the poll of a chat
+// WHY: votes are replayed from the event log as well as from Telegram updates
+// QUOTE(TZ): "vote added or removed"
+// REF: user-014-event-log
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,id,p: addVote(s,id,p).chats[id].participants[p.id] = p
+// PURITY: CORE
+// INVARIANT: unknown chats are left untouched
+// COMPLEXITY: O(1)/O(n)
+export const addVote = (state: BotState, chatId: ChatId, participant: Participant): BotState =>
+  recordEvent(
+    state,
+    updateChat(state, chatId, (chat) => ({
+      ...chat,
+      participants: upsertParticipant(chat.participants, participant)
+    })),
+    { kind: "voteAdded", chatId, participant }
+  )
+
+// CHANGE: drop a retracted vote from the poll of a chat
+// WHY: votes are replayed from the event log as well as from Telegram updates
+// QUOTE(TZ): "vote added or removed"
+// REF: user-014-event-log
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,id,u: u not in removeVote(s,id,u).chats[id].participants
+// PURITY: CORE
+// INVARIANT: unknown chats are left untouched
+// COMPLEXITY: O(n)/O(n)
+export const removeVote = (state: BotState, chatId: ChatId, userId: UserId): BotState =>
+  recordEvent(
+    state,
+    updateChat(state, chatId, (chat) => ({
+      ...chat,
+      participants: removeParticipant(chat.participants, userId)
+    })),
+    { kind: "voteRemoved", chatId, userId }
+  )
 
 // CHANGE: clear an active poll without updating history
 // WHY: allow explicit poll termination while preserving chat history
@@ -295,10 +510,5 @@ export const applySummary = (
 // PURITY: CORE
 // INVARIANT: history is preserved
 // COMPLEXITY: O(1)/O(1)
-export const finishPoll = (state: BotState, chatId: ChatId): BotState => {
-  return clearPoll(state, chatId, (current) => ({
-    ...current,
-    poll: null,
-    participants: {}
-  }))
-}
+export const finishPoll = (state: BotState, chatId: ChatId): BotState =>
+  recordEvent(state, closePoll(state, chatId), { kind: "pollFinished", chatId })
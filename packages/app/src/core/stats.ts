@@ -0,0 +1,81 @@
+import type { LocalDateString, PairKey } from "./brand.js"
+import type { ChatState, PairHistory, RoundRecord } from "./domain.js"
+import { pairingKeys } from "./pairing.js"
+
+export type RoundTurnout = {
+  readonly summaryDate: LocalDateString
+  readonly participants: number
+  readonly leftovers: number
+}
+
+export type ChatStats = {
+  readonly roundCount: number
+  readonly recentRounds: ReadonlyArray<RoundTurnout>
+  readonly repeatPairRate: number | null
+  readonly averageHistoryCount: number | null
+  readonly unmatchedShare: number | null
+}
+
+export const statsRoundLimit = 8
+
+const ratio = (part: number, total: number): number | null => total === 0 ? null : part / total
+
+const sum = (values: ReadonlyArray<number>): number => values.reduce((total, value) => total + value, 0)
+
+const turnoutOf = (round: RoundRecord): RoundTurnout => ({
+  summaryDate: round.summaryDate,
+  participants: sum(round.groups.map((group) => group.members.length)) + round.leftovers.length,
+  leftovers: round.leftovers.length
+})
+
+// CHANGE: share of matched pairs that already met in an earlier archived round
+// WHY: admins want to know whether the chat is too small to keep pairs fresh
+// QUOTE(TZ): "repeat-pair rate"
+// REF: user-018-stats-command
+// SOURCE: n/a
+// FORMAT THEOREM: forall rs: rate(rs) = |{k in keys(r_i) : k in keys(r_0..r_{i-1})}| / |keys(rs)|
+// PURITY: CORE
+// INVARIANT: null when no round has a group; otherwise 0 ≤ rate ≤ 1
+// COMPLEXITY: O(n)/O(n)
+const repeatPairRate = (rounds: ReadonlyArray<RoundRecord>): number | null => {
+  const seen = new Set<PairKey>()
+  let repeats = 0
+  let total = 0
+  for (const round of rounds) {
+    const keys = round.groups.flatMap((group) => pairingKeys(group))
+    repeats += keys.filter((key) => seen.has(key)).length
+    total += keys.length
+    for (const key of keys) {
+      seen.add(key)
+    }
+  }
+  return ratio(repeats, total)
+}
+
+const averageHistoryCount = (history: PairHistory): number | null => {
+  const counts = Object.values(history).map((dates) => dates.length)
+  return ratio(sum(counts), counts.length)
+}
+
+// CHANGE: summarize how a chat's rounds went over time
+// WHY: admins want engagement numbers without reading every summary
+// QUOTE(TZ): "participants per round over time, repeat-pair rate, average history count, and the share of \"Yes\" voters left without a pair"
+// REF: user-018-stats-command
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: unmatched(c) = sum(leftovers) / sum(participants) over c.rounds
+// PURITY: CORE
+// INVARIANT: recent rounds keep archive order and hold at most statsRoundLimit entries; every rate is null or in [0, 1]
+// COMPLEXITY: O(n)/O(n)
+export const computeChatStats = (chat: ChatState): ChatStats => {
+  const turnouts = chat.rounds.map((round) => turnoutOf(round))
+  return {
+    roundCount: turnouts.length,
+    recentRounds: turnouts.slice(-statsRoundLimit),
+    repeatPairRate: repeatPairRate(chat.rounds),
+    averageHistoryCount: averageHistoryCount(chat.history),
+    unmatchedShare: ratio(
+      sum(turnouts.map((turnout) => turnout.leftovers)),
+      sum(turnouts.map((turnout) => turnout.participants))
+    )
+  }
+}
@@ -0,0 +1,243 @@
+import { ChatId, type LocalDateString, type UserId } from "./brand.js"
+import type { BotState, ChatMode, ChatState, Participant, Subscription } from "./domain.js"
+import { recordEvent } from "./journal.js"
+import { listParticipants } from "./participants.js"
+import { daysBetween, parseLocalDate } from "./schedule.js"
+
+export type SubscriptionAction = {
+  readonly kind: "join" | "leave"
+  readonly chatId: ChatId
+}
+
+export type SubscriptionChat = {
+  readonly chatId: ChatId
+  readonly chatTitle: string | null
+  readonly subscribed: boolean
+}
+
+// Replies to /subscribe, /unsubscribe and /skip in the group.
+export type SubscriptionReply = "subscribed" | "unsubscribed" | "notSubscribed" | "pollMode"
+
+// Replies to the subscription buttons of the private menu.
+export type SubscriptionButtonReply = "joined" | "left" | "outdated"
+
+export const chatModes: ReadonlyArray<ChatMode> = ["poll", "subscription"]
+
+const callbackPrefix = "sub"
+
+const callbackRegex = /^sub:(join|leave):(-?\d+)$/
+
+const updateChat = (
+  state: BotState,
+  chatId: ChatId,
+  updater: (chat: ChatState) => ChatState
+): BotState => {
+  const chat = state.chats[chatId]
+  return chat ? { ...state, chats: { ...state.chats, [chatId]: updater(chat) } } : state
+}
+
+// CHANGE: parse a stored or typed chat mode
+// WHY: database text and command arguments must not leak unknown modes into state
+// QUOTE(TZ): "We want an alternative chat mode where users subscribe once and stay in the pool"
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall m in chatModes: parse(m) = m
+// PURITY: CORE
+// INVARIANT: unknown values return null
+// COMPLEXITY: O(1)/O(1)
+export const parseChatMode = (value: string | null): ChatMode | null => chatModes.find((mode) => mode === value) ?? null
+
+// CHANGE: switch a chat between weekly polls and a standing subscription roster
+// WHY: many members vote "Yes" every single week
+// QUOTE(TZ): "We want an alternative chat mode where users subscribe once and stay in the pool"
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,id,m: setChatMode(s,id,m).chats[id].mode = m
+// PURITY: CORE
+// INVARIANT: the roster is kept when a chat goes back to polls, so switching again restores it
+// COMPLEXITY: O(n)/O(n)
+export const setChatMode = (state: BotState, chatId: ChatId, mode: ChatMode): BotState =>
+  state.chats[chatId]?.mode === mode
+    ? state
+    : recordEvent(state, updateChat(state, chatId, (chat) => ({ ...chat, mode })), {
+      kind: "chatModeSet",
+      chatId,
+      mode
+    })
+
+// CHANGE: look up the subscription of a member in a chat
+// WHY: replies differ for members who are already on the roster
+// QUOTE(TZ): "They can skip specific weeks or unsubscribe."
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall c,u: find(c,u) != null <-> u in roster(c)
+// PURITY: CORE
+// INVARIANT: missing chats have no subscriptions
+// COMPLEXITY: O(1)/O(1)
+export const findSubscription = (chat: ChatState | undefined, userId: UserId): Subscription | null =>
+  chat?.subscriptions[userId.toString()] ?? null
+
+// CHANGE: insert or replace the subscription of a member in a chat
+// WHY: commands and replayed events store a roster entry the same way
+// QUOTE(TZ): "users subscribe once and stay in the pool"
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,id,x: setSubscription(s,id,x).chats[id].subscriptions[x.participant.id] = x
+// PURITY: CORE
+// INVARIANT: at most one subscription per member and chat
+// COMPLEXITY: O(n)/O(n)
+export const setSubscription = (state: BotState, chatId: ChatId, subscription: Subscription): BotState =>
+  recordEvent(
+    state,
+    updateChat(state, chatId, (chat) => ({
+      ...chat,
+      subscriptions: { ...chat.subscriptions, [subscription.participant.id.toString()]: subscription }
+    })),
+    { kind: "subscriptionSet", chatId, subscription }
+  )
+
+// CHANGE: put a member on the subscription roster of a chat
+// WHY: members subscribe once instead of voting every week
+// QUOTE(TZ): "users subscribe once and stay in the pool, through a DM button or a group command"
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,id,p: subscribe(s,id,p).chats[id].subscriptions[p.id].participant = p
+// PURITY: CORE
+// INVARIANT: subscribing again refreshes the member's name and brings them back into skipped rounds
+// COMPLEXITY: O(n)/O(n)
+export const subscribe = (state: BotState, chatId: ChatId, participant: Participant): BotState =>
+  setSubscription(state, chatId, { participant, skippedDates: [] })
+
+// CHANGE: take a member off the subscription roster of a chat
+// WHY: subscribed members must be able to leave the pool for good
+// QUOTE(TZ): "They can skip specific weeks or unsubscribe."
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,id,u: u not in roster(unsubscribe(s,id,u).chats[id])
+// PURITY: CORE
+// INVARIANT: other subscriptions are preserved
+// COMPLEXITY: O(n)/O(n)
+export const unsubscribe = (state: BotState, chatId: ChatId, userId: UserId): BotState =>
+  findSubscription(state.chats[chatId], userId) === null
+    ? state
+    : recordEvent(
+      state,
+      updateChat(state, chatId, (chat) => ({
+        ...chat,
+        subscriptions: Object.fromEntries(
+          Object.entries(chat.subscriptions).filter(([key]) => key !== userId.toString())
+        )
+      })),
+      { kind: "subscriptionRemoved", chatId, userId }
+    )
+
+const isUpcoming = (chat: ChatState, date: LocalDateString): boolean =>
+  chat.lastSummaryAt === null || daysBetween(chat.lastSummaryAt, date) > 0
+
+// CHANGE: let a subscribed member sit out the round summarized on a date
+// WHY: a standing subscription still has weeks when the member cannot meet
+// QUOTE(TZ): "They can skip specific weeks or unsubscribe."
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall s,id,u,d: subscribed(u) -> d in skipped(skip(s,id,u,d).chats[id], u)
+// PURITY: CORE
+// INVARIANT: members who are not subscribed are left untouched; dates of past rounds are dropped
+// COMPLEXITY: O(n)/O(n)
+export const skipRound = (state: BotState, chatId: ChatId, userId: UserId, date: LocalDateString): BotState => {
+  const chat = state.chats[chatId]
+  const subscription = findSubscription(chat, userId)
+  if (!chat || subscription === null) {
+    return state
+  }
+  return setSubscription(state, chatId, {
+    participant: subscription.participant,
+    skippedDates: [
+      ...subscription.skippedDates.filter((skipped) => skipped !== date && isUpcoming(chat, skipped)),
+      date
+    ]
+  })
+}
+
+// CHANGE: list the members a round is paired from
+// WHY: subscription chats have no poll votes, so the roster stands in for them
+// QUOTE(TZ): "`ChatState.participants` would come from the subscription roster instead of poll votes"
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall c,d: c.mode = subscription -> round(c,d) = { s.participant | s in roster(c), d not in s.skipped }
+// PURITY: CORE
+// INVARIANT: poll chats keep pairing their voters
+// COMPLEXITY: O(n)/O(n)
+export const roundParticipants = (chat: ChatState, summaryDate: LocalDateString): ReadonlyArray<Participant> =>
+  chat.mode === "poll"
+    ? listParticipants(chat.participants)
+    : Object.values(chat.subscriptions)
+      .filter((subscription) => !subscription.skippedDates.includes(summaryDate))
+      .map((subscription) => subscription.participant)
+
+const isKnownMember = (chat: ChatState, userId: UserId): boolean =>
+  findSubscription(chat, userId) !== null ||
+  chat.rounds.some((round) =>
+    [...round.groups.flatMap((group) => group.members), ...round.leftovers].some((member) => member.id === userId)
+  )
+
+// CHANGE: list the subscription chats a member can manage from a private chat
+// WHY: the bot only knows a member of a chat once they subscribed or met someone there
+// QUOTE(TZ): "users subscribe once and stay in the pool, through a DM button or a group command"
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall x in result: chats[x.chatId].mode = subscription
+// PURITY: CORE
+// INVARIANT: poll chats are never listed
+// COMPLEXITY: O(n)/O(n)
+export const listSubscriptionChats = (state: BotState, userId: UserId): ReadonlyArray<SubscriptionChat> =>
+  Object.entries(state.chats)
+    .filter(([, chat]) => chat.mode === "subscription" && isKnownMember(chat, userId))
+    .map(([chatId, chat]) => ({
+      chatId: ChatId(chatId),
+      chatTitle: chat.title,
+      subscribed: findSubscription(chat, userId) !== null
+    }))
+
+// CHANGE: parse the date argument of /skip
+// WHY: members name the round they sit out by its summary date
+// QUOTE(TZ): "They can skip specific weeks or unsubscribe."
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall a,n: parse(a,n) != null -> days(n, parse(a,n)) >= 0 ∧ days(n, parse(a,n)) mod 7 = 0
+// PURITY: CORE
+// INVARIANT: no argument means the next round; past dates and other weekdays return null
+// COMPLEXITY: O(1)/O(1)
+export const parseSkipDate = (argument: string | null, nextSummaryDate: LocalDateString): LocalDateString | null => {
+  const date = argument === null ? nextSummaryDate : parseLocalDate(argument)
+  const offset = date === null ? -1 : daysBetween(nextSummaryDate, date)
+  return date !== null && offset >= 0 && offset % 7 === 0 ? date : null
+}
+
+// CHANGE: encode a subscription button action into callback data
+// WHY: Telegram callback data is a short string, so actions are packed into it
+// QUOTE(TZ): "through a DM button or a group command"
+// REF: user-025-subscription-mode
+// SOURCE: https://core.telegram.org/bots/api#inlinekeyboardbutton
+// FORMAT THEOREM: forall a: parse(encode(a)) = a
+// PURITY: CORE
+// INVARIANT: encoded data stays within the 64-byte callback limit
+// COMPLEXITY: O(1)/O(1)
+export const encodeSubscriptionAction = (action: SubscriptionAction): string =>
+  `${callbackPrefix}:${action.kind}:${action.chatId}`
+
+// CHANGE: decode subscription button callback data
+// WHY: route subscription buttons without confusing them with other callbacks
+// QUOTE(TZ): "through a DM button or a group command"
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall s: parse(s) = null ∨ encode(parse(s)) = s
+// PURITY: CORE
+// INVARIANT: unknown data returns null
+// COMPLEXITY: O(n)/O(1)
+export const parseSubscriptionAction = (data: string): SubscriptionAction | null => {
+  const [, kind, chatId] = callbackRegex.exec(data) ?? []
+  if ((kind !== "join" && kind !== "leave") || !chatId) {
+    return null
+  }
+  return { kind, chatId: ChatId(chatId) }
+}
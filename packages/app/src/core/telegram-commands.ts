@@ -1,4 +1,7 @@
-import type { ChatType } from "./domain.js"
+import type { ChatType, Language, PollWording, ScheduleTimes, Weekday, WeeklySchedule } from "./domain.js"
+import { parseLanguage } from "./language.js"
+import { makePollWording } from "./poll-wording.js"
+import { weekdays } from "./schedule.js"
 
 // CHANGE: centralize chat-type and command parsing helpers
 // WHY: reuse consistent command normalization across app modules
@@ -24,3 +27,206 @@ export const normalizeCommand = (text: string): string => {
   const token = text.trim().split(/\s+/)[0] ?? ""
   return token.split("@")[0] ?? ""
 }
+
+// CHANGE: extract the first argument after a command token
+// WHY: share argument parsing between chat setting commands
+// QUOTE(TZ): n/a
+// REF: user-001-triple-pairing
+// SOURCE: n/a
+// FORMAT THEOREM: forall s: arg(s) = tokenize(s)[1] | null
+// PURITY: CORE
+// INVARIANT: returns null when the command has no arguments
+// COMPLEXITY: O(n)/O(n)
+export const commandArgument = (text: string): string | null => {
+  const tokens = text.trim().split(/\s+/)
+  return tokens.length >= 2 ? tokens[1] ?? null : null
+}
+
+// CHANGE: extract every argument after a command token
+// WHY: some chat settings take more than one value
+// QUOTE(TZ): n/a
+// REF: user-007-weekly-schedule
+// SOURCE: n/a
+// FORMAT THEOREM: forall s: args(s) = join(tail(tokenize(s)), " ") | null
+// PURITY: CORE
+// INVARIANT: arguments are separated by single spaces
+// COMPLEXITY: O(n)/O(n)
+export const commandArguments = (text: string): string | null => {
+  const tokens = text.trim().split(/\s+/).slice(1)
+  return tokens.length > 0 ? tokens.join(" ") : null
+}
+
+// CHANGE: parse an on/off switch argument
+// WHY: chat settings are toggled with /command on|off
+// QUOTE(TZ): "We want an opt-in per-chat mode"
+// REF: user-001-triple-pairing
+// SOURCE: n/a
+// FORMAT THEOREM: forall s: parse(s) in {true, false, null}
+// PURITY: CORE
+// INVARIANT: unknown values return null
+// COMPLEXITY: O(n)/O(n)
+export const parseSwitchArgument = (value: string | null): boolean | null => {
+  const normalized = value?.toLowerCase() ?? ""
+  if (normalized === "on") {
+    return true
+  }
+  return normalized === "off" ? false : null
+}
+
+export type HalfLifeArgument = {
+  readonly halfLifeWeeks: number | null
+}
+
+// Longer half-lives make decay indistinguishable from plain counts, so ten years is plenty.
+const maxHalfLifeWeeks = 520
+
+// CHANGE: parse a history half-life argument in weeks
+// WHY: admins tune how fast past meetings stop counting as repeats
+// QUOTE(TZ): "a configurable decay so recent repeats are penalized more than old ones"
+// REF: user-003-recency-history
+// SOURCE: n/a
+// FORMAT THEOREM: forall s: parse(s).halfLifeWeeks in {1..520} ∪ {null}
+// PURITY: CORE
+// INVARIANT: "off" disables decay; unknown values return null
+// COMPLEXITY: O(n)/O(n)
+export const parseHalfLifeArgument = (value: string | null): HalfLifeArgument | null => {
+  const normalized = value?.toLowerCase() ?? ""
+  if (normalized === "off") {
+    return { halfLifeWeeks: null }
+  }
+  const weeks = /^\d+$/.test(normalized) ? Number(normalized) : Number.NaN
+  return weeks >= 1 && weeks <= maxHalfLifeWeeks ? { halfLifeWeeks: weeks } : null
+}
+
+const weekdayNames: Readonly<Record<Weekday, string>> = {
+  Mon: "Monday",
+  Tue: "Tuesday",
+  Wed: "Wednesday",
+  Thu: "Thursday",
+  Fri: "Friday",
+  Sat: "Saturday",
+  Sun: "Sunday"
+}
+
+const parseWeekdayArgument = (value: string | undefined): Weekday | null =>
+  value !== undefined && value.length >= 3
+    ? weekdays.find((day) => weekdayNames[day].toLowerCase().startsWith(value.toLowerCase())) ?? null
+    : null
+
+// CHANGE: parse a weekly schedule argument
+// WHY: admins pick the poll day and the summary day of their chat
+// QUOTE(TZ): "for example a poll on Wednesday and a summary on Thursday"
+// REF: user-007-weekly-schedule
+// SOURCE: n/a
+// FORMAT THEOREM: forall s: parse(s) = null ∨ parse(s).pollDay ≠ parse(s).summaryDay
+// PURITY: CORE
+// INVARIANT: accepts English day names or their prefixes of three or more letters
+// COMPLEXITY: O(n)/O(n)
+export const parseScheduleArgument = (value: string | null): WeeklySchedule | null => {
+  const [pollToken, summaryToken, ...rest] = value?.split(" ") ?? []
+  const pollDay = parseWeekdayArgument(pollToken)
+  const summaryDay = parseWeekdayArgument(summaryToken)
+  if (!pollDay || !summaryDay || pollDay === summaryDay || rest.length > 0) {
+    return null
+  }
+  return { pollDay, summaryDay }
+}
+
+export type ReminderDayArgument = {
+  readonly reminderDay: Weekday | null
+}
+
+// CHANGE: parse a reminder day argument
+// WHY: admins pick the weekday on which organizers are reminded, or turn reminders off
+// QUOTE(TZ): "We want a configurable reminder a few days later, for example on Wednesday."
+// REF: user-019-organizer-reminders
+// SOURCE: n/a
+// FORMAT THEOREM: forall s: parse(s).reminderDay in weekdays ∪ {null}
+// PURITY: CORE
+// INVARIANT: "off" disables reminders; unknown values return null
+// COMPLEXITY: O(n)/O(n)
+export const parseReminderDayArgument = (value: string | null): ReminderDayArgument | null => {
+  if (value?.toLowerCase() === "off") {
+    return { reminderDay: null }
+  }
+  const reminderDay = parseWeekdayArgument(value ?? undefined)
+  return reminderDay === null ? null : { reminderDay }
+}
+
+export type LanguageArgument = {
+  readonly language: Language | null
+}
+
+// CHANGE: parse a language argument
+// WHY: admins and members pick a message language, or fall back to the defaults
+// QUOTE(TZ): "a per-chat language setting"
+// REF: user-021-localization
+// SOURCE: n/a
+// FORMAT THEOREM: forall s: parse(s).language in languages ∪ {null}
+// PURITY: CORE
+// INVARIANT: "default" resets the language; unknown values return null
+// COMPLEXITY: O(1)/O(1)
+export const parseLanguageArgument = (value: string | null): LanguageArgument | null => {
+  const normalized = value?.toLowerCase() ?? null
+  if (normalized === "default") {
+    return { language: null }
+  }
+  const language = parseLanguage(normalized)
+  return language === null ? null : { language }
+}
+
+export type PollWordingArgument = {
+  readonly pollWording: PollWording | null
+}
+
+const joinMarker = "*"
+
+const isJoinMarked = (label: string): boolean => label.startsWith(joinMarker)
+
+// CHANGE: parse a custom poll wording argument
+// WHY: admins write the question and options in one command and mark the option that means participation
+// QUOTE(TZ): "The chat must record which option index means participation"
+// REF: user-022-custom-poll-wording
+// SOURCE: n/a
+// FORMAT THEOREM: forall q,a,b: parse("q | a | *b") = { question: q, options: [a, b], joinOption: 1 }
+// PURITY: CORE
+// INVARIANT: "default" resets the wording; without a marker the first option means participation
+// COMPLEXITY: O(n)/O(n)
+export const parsePollWordingArgument = (value: string | null): PollWordingArgument | null => {
+  if (value?.toLowerCase() === "default") {
+    return { pollWording: null }
+  }
+  const [question = "", ...labels] = (value ?? "").split("|").map((part) => part.trim())
+  if (labels.filter((label) => isJoinMarked(label)).length > 1) {
+    return null
+  }
+  const options = labels.map((label) => isJoinMarked(label) ? label.slice(joinMarker.length).trim() : label)
+  const pollWording = makePollWording(question, options, Math.max(0, labels.findIndex((label) => isJoinMarked(label))))
+  return pollWording === null ? null : { pollWording }
+}
+
+const timeOfDayRegex = /^([01]?\d|2[0-3]):([0-5]\d)$/
+
+const parseTimeOfDayArgument = (value: string | undefined): number | null => {
+  const [, hours, minutes] = timeOfDayRegex.exec(value ?? "") ?? []
+  return hours === undefined || minutes === undefined ? null : Number(hours) * 60 + Number(minutes)
+}
+
+// CHANGE: parse a poll and summary time argument
+// WHY: admins pick the local hour when polls open and results are posted
+// QUOTE(TZ): "We want a configurable local time per chat for poll creation and for the summary."
+// REF: user-010-time-of-day
+// SOURCE: n/a
+// FORMAT THEOREM: forall s: parse(s) = null ∨ 0 <= parse(s).pollTime, parse(s).summaryTime < 1440
+// PURITY: CORE
+// INVARIANT: accepts exactly two 24-hour HH:MM values
+// COMPLEXITY: O(n)/O(n)
+export const parseScheduleTimesArgument = (value: string | null): ScheduleTimes | null => {
+  const [pollToken, summaryToken, ...rest] = value?.split(" ") ?? []
+  const pollTime = parseTimeOfDayArgument(pollToken)
+  const summaryTime = parseTimeOfDayArgument(summaryToken)
+  if (pollTime === null || summaryTime === null || rest.length > 0) {
+    return null
+  }
+  return { pollTime, summaryTime }
+}
@@ -0,0 +1,75 @@
+import type { Language, Participant } from "./domain.js"
+import { escapeHtml, formatChatTitle, formatContactName, messages } from "./text.js"
+
+// CHANGE: format the private exclusions menu message
+// WHY: explain how to manage exclusions before showing the buttons
+// QUOTE(TZ): "There is no way for a participant to say they must not be matched with a specific person"
+// REF: user-004-pair-exclusions
+// SOURCE: n/a
+// FORMAT THEOREM: forall n: message depends on n = 0
+// PURITY: CORE
+// INVARIANT: the empty menu explains how to get candidates
+// COMPLEXITY: O(1)/O(1)
+export const formatExclusionsMenu = (language: Language, buttons: number): string =>
+  (buttons === 0 ? messages(language).exclusionsMenuEmpty : messages(language).exclusionsMenu).join("\n")
+
+// CHANGE: label an exclusion button with the person and the chat
+// WHY: the same person may take part in several chats
+// QUOTE(TZ): "Users manage it privately through a DM flow"
+// REF: user-004-pair-exclusions
+// SOURCE: n/a
+// FORMAT THEOREM: forall p,t: label contains name(p)
+// PURITY: CORE
+// INVARIANT: active exclusions start with ✅, candidates with 🚫
+// COMPLEXITY: O(1)/O(1)
+export const exclusionButtonLabel = (
+  language: Language,
+  active: boolean,
+  participant: Participant,
+  chatTitle: string | null
+): string => `${active ? "✅" : "🚫"} ${formatContactName(participant)} · ${formatChatTitle(language, chatTitle)}`
+
+// CHANGE: confirm a new exclusion in private chat
+// WHY: reassure the participant that the constraint is stored
+// QUOTE(TZ): "treats as a hard constraint"
+// REF: user-004-pair-exclusions
+// SOURCE: n/a
+// FORMAT THEOREM: forall p,t: message contains name(p)
+// PURITY: CORE
+// INVARIANT: user-provided names are HTML-escaped
+// COMPLEXITY: O(1)/O(1)
+export const formatExclusionAdded = (language: Language, participant: Participant, chatTitle: string | null): string =>
+  messages(language).exclusionAdded(
+    escapeHtml(formatContactName(participant)),
+    escapeHtml(formatChatTitle(language, chatTitle))
+  )
+
+// CHANGE: confirm a lifted exclusion in private chat
+// WHY: make it clear the person can be matched again
+// QUOTE(TZ): "Users manage it privately through a DM flow"
+// REF: user-004-pair-exclusions
+// SOURCE: n/a
+// FORMAT THEOREM: forall p,t: message contains name(p)
+// PURITY: CORE
+// INVARIANT: user-provided names are HTML-escaped
+// COMPLEXITY: O(1)/O(1)
+export const formatExclusionRemoved = (
+  language: Language,
+  participant: Participant,
+  chatTitle: string | null
+): string =>
+  messages(language).exclusionRemoved(
+    escapeHtml(formatContactName(participant)),
+    escapeHtml(formatChatTitle(language, chatTitle))
+  )
+
+// CHANGE: explain that an exclusion button is outdated
+// WHY: candidates come from an active poll that may have closed since
+// QUOTE(TZ): "Users manage it privately through a DM flow"
+// REF: user-004-pair-exclusions
+// SOURCE: n/a
+// FORMAT THEOREM: forall _: message != ""
+// PURITY: CORE
+// INVARIANT: reply points to the menu button
+// COMPLEXITY: O(1)/O(1)
+export const formatExclusionOutdated = (language: Language): string => messages(language).exclusionOutdated
@@ -0,0 +1,49 @@
+import type { LocalDateString } from "./brand.js"
+import type { Language, Participant } from "./domain.js"
+import type { FeedbackChoice, FeedbackReply } from "./feedback.js"
+import { escapeHtml, formatChatTitle, formatContactName, messages } from "./text.js"
+
+// CHANGE: ask a participant whether their meeting took place
+// WHY: nobody knows whether pairs actually met
+// QUOTE(TZ): "the bot should DM every assigned participant an inline-keyboard question: did you meet"
+// REF: user-017-feedback-survey
+// SOURCE: n/a
+// FORMAT THEOREM: forall t,d,ps: message contains d ∧ forall p in ps: message contains name(p)
+// PURITY: CORE
+// INVARIANT: user-provided names and titles are HTML-escaped
+// COMPLEXITY: O(n)/O(n)
+export const formatFeedbackRequest = (
+  language: Language,
+  chatTitle: string | null,
+  summaryDate: LocalDateString,
+  partners: ReadonlyArray<Participant>
+): string =>
+  messages(language).feedbackRequest(
+    summaryDate,
+    escapeHtml(formatChatTitle(language, chatTitle)),
+    escapeHtml(partners.map((partner) => formatContactName(partner)).join(", "))
+  ).join("\n")
+
+// CHANGE: label the feedback survey buttons
+// WHY: keep button labels centralized for reuse
+// QUOTE(TZ): "did you meet, how was it, and optional free text"
+// REF: user-017-feedback-survey
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: label(c) != ""
+// PURITY: CORE
+// INVARIANT: every survey choice has exactly one label
+// COMPLEXITY: O(1)/O(1)
+export const feedbackChoiceLabel = (language: Language, choice: FeedbackChoice): string =>
+  messages(language).feedbackChoices[choice]
+
+// CHANGE: format the next step of the feedback survey
+// WHY: each answer is acknowledged with the next question or a thank-you
+// QUOTE(TZ): "did you meet, how was it, and optional free text"
+// REF: user-017-feedback-survey
+// SOURCE: n/a
+// FORMAT THEOREM: forall r: message(r) != ""
+// PURITY: CORE
+// INVARIANT: every reply kind has exactly one text
+// COMPLEXITY: O(1)/O(1)
+export const formatFeedbackReply = (language: Language, reply: FeedbackReply): string =>
+  messages(language).feedbackReplies[reply]
@@ -0,0 +1,39 @@
+import type { Language } from "./domain.js"
+import type { HistoryEntry, HistoryPage } from "./history.js"
+import { escapeHtml, formatChatTitle, formatContactLine, messages } from "./text.js"
+
+const formatHistoryEntry = (language: Language, entry: HistoryEntry): ReadonlyArray<string> => [
+  `📅 ${entry.summaryDate} · ${escapeHtml(formatChatTitle(language, entry.chatTitle))}`,
+  ...entry.partners.map((partner) => escapeHtml(formatContactLine(language, partner)))
+]
+
+// CHANGE: format one page of a participant's past matches
+// WHY: participants ask who they met before, in which chat and when
+// QUOTE(TZ): "Each entry should show the date, the chat title and the partner handles"
+// REF: user-016-history-command
+// SOURCE: n/a
+// FORMAT THEOREM: forall p: message contains every entry date of p
+// PURITY: CORE
+// INVARIANT: an empty history explains how to get the first match; user-provided text is HTML-escaped
+// COMPLEXITY: O(n)/O(n)
+export const formatHistoryPage = (language: Language, page: HistoryPage): string => {
+  const text = messages(language)
+  return page.entries.length === 0
+    ? text.historyEmpty
+    : [
+      page.pageCount > 1 ? text.historyPagedHeading(page.page + 1, page.pageCount) : text.historyHeading,
+      ...page.entries.flatMap((entry) => ["", ...formatHistoryEntry(language, entry)])
+    ].join("\n")
+}
+
+// CHANGE: label the history page buttons
+// WHY: keep button labels centralized for reuse
+// QUOTE(TZ): "paginated with inline keyboard buttons"
+// REF: user-016-history-command
+// SOURCE: n/a
+// FORMAT THEOREM: forall d: label(d) != ""
+// PURITY: CORE
+// INVARIANT: older meetings are to the left, newer ones to the right
+// COMPLEXITY: O(1)/O(1)
+export const historyPageButtonLabel = (language: Language, direction: "older" | "newer"): string =>
+  direction === "older" ? messages(language).historyOlder : messages(language).historyNewer
@@ -0,0 +1,287 @@
+import { Match } from "effect"
+
+import type { ChatId, LocalDateString, UserId } from "./brand.js"
+import type { Participant } from "./domain.js"
+import type { RematchReply } from "./rematch.js"
+import type { ScheduleDecision } from "./schedule.js"
+import type { IncomingUpdate } from "./updates.js"
+
+// CHANGE: format the "no updates" Telegram log line
+// WHY: centralize log text
+// QUOTE(TZ): "Telegram: no updates"
+// REF: user-2026-01-16-messages
+// SOURCE: n/a
+// FORMAT THEOREM: forall _: message != ""
+// PURITY: CORE
+// INVARIANT: message is stable
+// COMPLEXITY: O(1)/O(1)
+export const logTelegramNoUpdates = (): string => "Telegram: no updates"
+
+// CHANGE: format the Telegram updates count log line
+// WHY: centralize log text
+// QUOTE(TZ): "Telegram: received updates N"
+// REF: user-2026-01-16-messages
+// SOURCE: n/a
+// FORMAT THEOREM: forall n: message contains n
+// PURITY: CORE
+// INVARIANT: count is preserved
+// COMPLEXITY: O(1)/O(1)
+export const logTelegramReceivedUpdates = (count: number): string => `Telegram: received updates ${count}`
+
+// CHANGE: format a single Telegram update log line
+// WHY: centralize log text
+// QUOTE(TZ): "Telegram: <details>"
+// REF: user-2026-01-16-messages
+// SOURCE: n/a
+// FORMAT THEOREM: forall s: message contains s
+// PURITY: CORE
+// INVARIANT: detail is preserved
+// COMPLEXITY: O(1)/O(1)
+export const logTelegramUpdate = (detail: string): string => `Telegram: ${detail}`
+
+// CHANGE: format the state snapshot log line
+// WHY: centralize log text
+// QUOTE(TZ): "State: chats=X pollIndex=Y updateOffset=Z"
+// REF: user-2026-01-16-messages
+// SOURCE: n/a
+// FORMAT THEOREM: forall x,y,z: message contains x,y,z
+// PURITY: CORE
+// INVARIANT: counts are preserved
+// COMPLEXITY: O(1)/O(1)
+export const logStateSnapshot = (
+  chatsCount: number,
+  pollIndexCount: number,
+  updateOffset: number
+): string => `State: chats=${chatsCount} pollIndex=${pollIndexCount} updateOffset=${updateOffset}`
+
+// CHANGE: format the schedule decision log line
+// WHY: centralize log text
+// QUOTE(TZ): "Schedule: chat=... decision=..."
+// REF: user-2026-01-16-messages
+// SOURCE: n/a
+// FORMAT THEOREM: forall d: message contains d
+// PURITY: CORE
+// INVARIANT: decision text is preserved
+// COMPLEXITY: O(1)/O(1)
+export const logScheduleDecision = (
+  chatId: ChatId,
+  decision: ScheduleDecision
+): string => `Schedule: chat=${chatId} decision=${formatDecision(decision)}`
+
+const formatDecision = (decision: ScheduleDecision): string =>
+  Match.value(decision).pipe(
+    Match.when({ kind: "createPoll" }, (value) => `createPoll summary=${value.summaryDate}`),
+    Match.when({ kind: "summarize" }, (value) => `summarize summary=${value.summaryDate}`),
+    Match.when({ kind: "noop" }, () => "noop"),
+    Match.exhaustive
+  )
+
+// CHANGE: format the "no registered group chats" warning
+// WHY: centralize log text
+// QUOTE(TZ): "No registered group chats. Waiting for updates from groups."
+// REF: user-2026-01-16-messages
+// SOURCE: n/a
+// FORMAT THEOREM: forall _: message != ""
+// PURITY: CORE
+// INVARIANT: message is stable
+// COMPLEXITY: O(1)/O(1)
+export const logNoRegisteredGroupChats = (): string => "No registered group chats. Waiting for updates from groups."
+
+// CHANGE: format the webhook startup log line
+// WHY: centralize log text
+// QUOTE(TZ): "an HTTP server that receives Telegram updates"
+// REF: user-011-webhook-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall p,path: message contains p and path
+// PURITY: CORE
+// INVARIANT: port and path are preserved
+// COMPLEXITY: O(1)/O(1)
+export const logWebhookListening = (port: number, path: string): string =>
+  `Webhook server listening on port ${port} at ${path}`
+
+// CHANGE: format the replay result log line
+// WHY: centralize log text
+// QUOTE(TZ): "a replay tool that rebuilds `BotState` from the events and checks it matches the stored snapshot"
+// REF: user-014-event-log
+// SOURCE: n/a
+// FORMAT THEOREM: forall n,m: m = [] -> message reports a match
+// PURITY: CORE
+// INVARIANT: mismatching tables are listed in order
+// COMPLEXITY: O(n)/O(n)
+export const logReplayResult = (events: number, mismatches: ReadonlyArray<string>): string =>
+  mismatches.length === 0
+    ? `Replay: ${events} events match the stored snapshot`
+    : `Replay: ${events} events differ from the stored snapshot in ${mismatches.join(", ")}`
+
+// CHANGE: format the missing replay baseline log line
+// WHY: centralize log text
+// QUOTE(TZ): "a replay tool that rebuilds `BotState` from the events"
+// REF: user-014-event-log
+// SOURCE: n/a
+// FORMAT THEOREM: forall _: message != ""
+// PURITY: CORE
+// INVARIANT: message is stable
+// COMPLEXITY: O(1)/O(1)
+export const logReplayNoBaseline = (): string => "Replay: the event log has no baseline yet. Start the bot once first."
+
+// CHANGE: format the poll-created log line
+// WHY: centralize log text
+// QUOTE(TZ): "Poll created for chat X with summary date Y"
+// REF: user-2026-01-16-messages
+// SOURCE: n/a
+// FORMAT THEOREM: forall c,d: message contains c,d
+// PURITY: CORE
+// INVARIANT: chat id and date are preserved
+// COMPLEXITY: O(1)/O(1)
+export const logPollCreated = (
+  chatId: ChatId,
+  summaryDate: LocalDateString
+): string => `Poll created for chat ${chatId} with summary date ${summaryDate}`
+
+// CHANGE: format the poll pin failure log line
+// WHY: report when the bot cannot pin the poll message
+// QUOTE(TZ): "кидал в закреп свой опросник всегда"
+// REF: user-2026-01-20-pin-poll
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: message contains c
+// PURITY: CORE
+// INVARIANT: chat id is preserved
+// COMPLEXITY: O(1)/O(1)
+export const logPollPinFailed = (chatId: ChatId): string => `Poll pin failed for chat ${chatId}`
+
+// CHANGE: format the summary pin failure log line
+// WHY: report when the bot cannot pin the summary message
+// QUOTE(TZ): "итоги тоже есть смысл кинуть в закреп"
+// REF: user-2026-01-20-pin-summary
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: message contains c
+// PURITY: CORE
+// INVARIANT: chat id is preserved
+// COMPLEXITY: O(1)/O(1)
+export const logSummaryPinFailed = (chatId: ChatId): string => `Summary pin failed for chat ${chatId}`
+
+// CHANGE: format the direct message failure log line
+// WHY: record when the bot cannot DM a participant
+// QUOTE(TZ): "если у бота есть чат с человеком"
+// REF: user-2026-01-20-direct-dm
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: message contains c
+// PURITY: CORE
+// INVARIANT: chat id is preserved
+// COMPLEXITY: O(1)/O(1)
+export const logDirectMessageFailed = (chatId: ChatId): string => `Direct message failed for chat ${chatId}`
+
+// CHANGE: format the poll-closed log line
+// WHY: centralize log text
+// QUOTE(TZ): "Poll was already closed for chat X"
+// REF: user-2026-01-16-messages
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: message contains c
+// PURITY: CORE
+// INVARIANT: chat id is preserved
+// COMPLEXITY: O(1)/O(1)
+export const logPollAlreadyClosed = (chatId: ChatId): string => `Poll was already closed for chat ${chatId}`
+
+// CHANGE: format the summary sent log line
+// WHY: centralize log text
+// QUOTE(TZ): "Summary pairs sent for chat X"
+// REF: user-2026-01-16-messages
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: message contains c
+// PURITY: CORE
+// INVARIANT: chat id is preserved
+// COMPLEXITY: O(1)/O(1)
+export const logSummaryPairsSent = (chatId: ChatId): string => `Summary pairs sent for chat ${chatId}`
+
+// CHANGE: format the feedback survey sent log line
+// WHY: centralize log text
+// QUOTE(TZ): "Some days after each summary, the bot should DM every assigned participant"
+// REF: user-017-feedback-survey
+// SOURCE: n/a
+// FORMAT THEOREM: forall c,d,n: message contains c ∧ d ∧ n
+// PURITY: CORE
+// INVARIANT: chat id is preserved
+// COMPLEXITY: O(1)/O(1)
+export const logFeedbackRequested = (chatId: ChatId, summaryDate: LocalDateString, recipients: number): string =>
+  `Feedback survey for ${summaryDate} sent to ${recipients} participants of chat ${chatId}`
+
+// CHANGE: format the organizer reminder sent log line
+// WHY: centralize log text
+// QUOTE(TZ): "It should DM organizers who haven't marked the meeting as arranged"
+// REF: user-019-organizer-reminders
+// SOURCE: n/a
+// FORMAT THEOREM: forall c,d,n: message contains c ∧ d ∧ n
+// PURITY: CORE
+// INVARIANT: chat id is preserved
+// COMPLEXITY: O(1)/O(1)
+export const logRemindersSent = (chatId: ChatId, summaryDate: LocalDateString, organizers: number): string =>
+  `Reminders for ${summaryDate} sent to ${organizers} organizers of chat ${chatId}`
+
+// CHANGE: format the re-match log line
+// WHY: centralize log text
+// QUOTE(TZ): "Pressing it re-pairs the affected participants with other cancelled people or with the round's leftovers"
+// REF: user-020-rematch-cancelled
+// SOURCE: n/a
+// FORMAT THEOREM: forall c,u,r: message contains c ∧ u ∧ r
+// PURITY: CORE
+// INVARIANT: chat id is preserved
+// COMPLEXITY: O(1)/O(1)
+export const logRoundRematched = (chatId: ChatId, userId: UserId, reply: RematchReply): string =>
+  `Partner of ${userId} cancelled in chat ${chatId}: ${reply}`
+
+// CHANGE: format a participant log label
+// WHY: centralize log text
+// QUOTE(TZ): "participant id=... username=... name=..."
+// REF: user-2026-01-16-messages
+// SOURCE: n/a
+// FORMAT THEOREM: forall p: message contains p.id
+// PURITY: CORE
+// INVARIANT: participant info is preserved
+// COMPLEXITY: O(1)/O(1)
+export const formatParticipantLog = (participant: Participant | undefined): string => {
+  if (!participant) {
+    return "participant=none"
+  }
+  const username = participant.username ? `@${participant.username}` : "-"
+  const name = participant.lastName
+    ? `${participant.firstName} ${participant.lastName}`
+    : participant.firstName
+  return `participant id=${participant.id} username=${username} name="${name}"`
+}
+
+// CHANGE: format a Telegram update log detail
+// WHY: centralize log text
+// QUOTE(TZ): "updateId=... | chatSeen ... | pollVote ... | message ..."
+// REF: user-2026-01-16-messages
+// SOURCE: n/a
+// FORMAT THEOREM: forall u: message contains u.updateId
+// PURITY: CORE
+// INVARIANT: update details are preserved
+// COMPLEXITY: O(n)/O(n)
+export const formatUpdateLog = (update: IncomingUpdate): string => {
+  const parts: Array<string> = [`updateId=${update.updateId}`]
+  if (update.chatSeen) {
+    parts.push(
+      `chatSeen chatId=${update.chatSeen.chatId} type=${update.chatSeen.chatType}`
+    )
+  }
+  if (update.pollVote) {
+    const options = `[${update.pollVote.optionIds.join(",")}]`
+    parts.push(
+      `pollVote pollId=${update.pollVote.pollId} ${
+        formatParticipantLog(update.pollVote.participant)
+      } options=${options}`
+    )
+  }
+  if (update.message) {
+    parts.push(
+      `message chatId=${update.message.chatId} type=${update.message.chatType} text="${update.message.text}"`
+    )
+  }
+  if (update.callbackQuery) {
+    parts.push(
+      `callback chatId=${update.callbackQuery.chatId} type=${update.callbackQuery.chatType} data="${update.callbackQuery.data}"`
+    )
+  }
+  return parts.join(" | ")
+}
@@ -0,0 +1,76 @@
+import type { Language, ProfileField } from "./domain.js"
+import { profileSteps } from "./profile-wizard.js"
+import { messages } from "./text.js"
+
+// CHANGE: format the profile flow intro message
+// WHY: explain next steps before opening the profile widget
+// QUOTE(TZ): "Отлично! Вот, какие дальнейшие шаги тебя ждут"
+// REF: user-2026-01-19-profile-flow
+// SOURCE: n/a
+// FORMAT THEOREM: forall _: message != ""
+// PURITY: CORE
+// INVARIANT: steps are ordered
+// COMPLEXITY: O(1)/O(1)
+export const formatProfileIntroReply = (language: Language): string => messages(language).profileIntro.join("\n")
+
+// CHANGE: format the profile widget instruction message
+// WHY: guide users to fill and submit the profile
+// QUOTE(TZ): "Спасибо! \nВремя заполнить анкету"
+// REF: user-2026-01-19-profile-flow
+// SOURCE: n/a
+// FORMAT THEOREM: forall _: message != ""
+// PURITY: CORE
+// INVARIANT: contains next step instructions
+// COMPLEXITY: O(1)/O(1)
+export const formatProfileWidgetReply = (language: Language): string => messages(language).profileWidget.join("\n")
+
+// CHANGE: format the profile saved confirmation reply
+// WHY: confirm that the bot stored the profile text
+// QUOTE(TZ): "Почему он не сохранил информацию об профиле?"
+// REF: user-2026-01-21-profile-text
+// SOURCE: n/a
+// FORMAT THEOREM: forall _: message != ""
+// PURITY: CORE
+// INVARIANT: reply is a single confirmation block
+// COMPLEXITY: O(1)/O(1)
+export const formatProfileSavedReply = (language: Language): string => messages(language).profileSaved.join("\n")
+
+// CHANGE: label for the profile redo button after saving
+// WHY: surface a clear action to re-open profile editing
+// QUOTE(TZ): "Вот тут должна была появится кнопка \"Заполнить профиль заново\""
+// REF: user-2026-01-22-profile-redo-button
+// SOURCE: n/a
+// FORMAT THEOREM: forall _: label != ""
+// PURITY: CORE
+// INVARIANT: label is stable
+// COMPLEXITY: O(1)/O(1)
+export const profileRedoLabel = (language: Language): string => messages(language).profileRedoLabel
+
+// CHANGE: format one question of the profile wizard
+// WHY: the wizard asks for profile fields one at a time
+// QUOTE(TZ): "These should be filled by a step-by-step wizard in private chat"
+// REF: user-006-structured-profiles
+// SOURCE: n/a
+// FORMAT THEOREM: forall s: prompt(s) contains position(s)
+// PURITY: CORE
+// INVARIANT: retry prompts repeat the same question
+// COMPLEXITY: O(1)/O(1)
+export const formatProfileStepPrompt = (language: Language, step: ProfileField, retry: boolean): string => {
+  const text = messages(language)
+  return [
+    ...(retry ? [text.profileRetry, ""] : []),
+    `${profileSteps.indexOf(step) + 1}/${profileSteps.length} · ${text.profileQuestions[step]}`,
+    step === "meetingFormat" ? text.profileChoiceHint : text.profileTextHint
+  ].join("\n")
+}
+
+// CHANGE: label for the wizard skip button
+// WHY: every profile question is optional
+// QUOTE(TZ): "a step-by-step wizard in private chat"
+// REF: user-006-structured-profiles
+// SOURCE: n/a
+// FORMAT THEOREM: forall _: label != ""
+// PURITY: CORE
+// INVARIANT: label is stable
+// COMPLEXITY: O(1)/O(1)
+export const profileSkipLabel = (language: Language): string => messages(language).profileSkipLabel
@@ -0,0 +1,38 @@
+import type { Language, Participant } from "./domain.js"
+import type { RematchReply } from "./rematch.js"
+import { escapeHtml, formatChatTitle, mention, messages } from "./text.js"
+
+// CHANGE: label the re-match button of the pairing DM
+// WHY: keep button labels centralized for reuse
+// QUOTE(TZ): "We want a \"my partner cancelled\" button in the pairing DM."
+// REF: user-020-rematch-cancelled
+// SOURCE: n/a
+// FORMAT THEOREM: forall _: label != ""
+// PURITY: CORE
+// INVARIANT: label is stable
+// COMPLEXITY: O(1)/O(1)
+export const rematchButtonLabel = (language: Language): string => messages(language).rematchLabel
+
+// CHANGE: acknowledge the re-match button
+// WHY: the member should know whether a new partner was found or they wait for the next cancellation
+// QUOTE(TZ): "Pressing it re-pairs the affected participants with other cancelled people or with the round's leftovers"
+// REF: user-020-rematch-cancelled
+// SOURCE: n/a
+// FORMAT THEOREM: forall r: message(r) != ""
+// PURITY: CORE
+// INVARIANT: every reply kind has exactly one text
+// COMPLEXITY: O(1)/O(1)
+export const formatRematchReply = (language: Language, reply: RematchReply): string =>
+  messages(language).rematchReplies[reply]
+
+// CHANGE: tell the partner of a re-matched member that the meeting is cancelled
+// WHY: the dropped partner would otherwise still wait for a meeting that no longer exists
+// QUOTE(TZ): "Pressing it re-pairs the affected participants with other cancelled people or with the round's leftovers"
+// REF: user-020-rematch-cancelled
+// SOURCE: n/a
+// FORMAT THEOREM: forall p,t: message(p,t) mentions p
+// PURITY: CORE
+// INVARIANT: the chat title is HTML-escaped; untitled chats fall back to the generic group name
+// COMPLEXITY: O(1)/O(1)
+export const formatRematchDropped = (language: Language, partner: Participant, chatTitle: string | null): string =>
+  messages(language).rematchDropped(mention(partner), escapeHtml(formatChatTitle(language, chatTitle)))
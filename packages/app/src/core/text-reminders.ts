@@ -0,0 +1,48 @@
+import type { LocalDateString } from "./brand.js"
+import type { Language, Participant } from "./domain.js"
+import type { ArrangedReply } from "./reminders.js"
+import { escapeHtml, formatChatTitle, formatContactName, messages } from "./text.js"
+
+// CHANGE: remind an organizer to schedule their meeting
+// WHY: after the summary DMs nothing else nudges the pair to meet
+// QUOTE(TZ): "It should DM organizers who haven't marked the meeting as arranged"
+// REF: user-019-organizer-reminders
+// SOURCE: n/a
+// FORMAT THEOREM: forall t,d,ps: message contains d ∧ forall p in ps: message contains name(p)
+// PURITY: CORE
+// INVARIANT: user-provided names and titles are HTML-escaped
+// COMPLEXITY: O(n)/O(n)
+export const formatMeetingReminder = (
+  language: Language,
+  chatTitle: string | null,
+  summaryDate: LocalDateString,
+  partners: ReadonlyArray<Participant>
+): string =>
+  messages(language).meetingReminder(
+    summaryDate,
+    escapeHtml(formatChatTitle(language, chatTitle)),
+    escapeHtml(partners.map((partner) => formatContactName(partner)).join(", "))
+  ).join("\n")
+
+// CHANGE: label the reminder confirmation button
+// WHY: keep button labels centralized for reuse
+// QUOTE(TZ): "with a one-tap \"we've scheduled it\" button"
+// REF: user-019-organizer-reminders
+// SOURCE: n/a
+// FORMAT THEOREM: forall _: label != ""
+// PURITY: CORE
+// INVARIANT: label is stable
+// COMPLEXITY: O(1)/O(1)
+export const arrangedButtonLabel = (language: Language): string => messages(language).arrangedLabel
+
+// CHANGE: acknowledge the reminder confirmation button
+// WHY: organizers should see that the tap was recorded
+// QUOTE(TZ): "with a one-tap \"we've scheduled it\" button"
+// REF: user-019-organizer-reminders
+// SOURCE: n/a
+// FORMAT THEOREM: forall r: message(r) != ""
+// PURITY: CORE
+// INVARIANT: every reply kind has exactly one text
+// COMPLEXITY: O(1)/O(1)
+export const formatArrangedReply = (language: Language, reply: ArrangedReply): string =>
+  messages(language).arrangedReplies[reply]
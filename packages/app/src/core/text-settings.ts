@@ -0,0 +1,298 @@
+import type { Language, PollWording, RoundFrequency, ScheduleTimes, Weekday, WeeklySchedule } from "./domain.js"
+import { withStandbyOption } from "./poll-wording.js"
+import { formatTimeOfDay } from "./schedule.js"
+import { escapeHtml, messages } from "./text.js"
+
+// CHANGE: format the /triples success reply
+// WHY: confirm whether odd participants now join a group of three
+// QUOTE(TZ): "We want an opt-in per-chat mode where an odd participant is folded into the group"
+// REF: user-001-triple-pairing
+// SOURCE: n/a
+// FORMAT THEOREM: forall b: message depends on b
+// PURITY: CORE
+// INVARIANT: reply names the new mode
+// COMPLEXITY: O(1)/O(1)
+export const replyTriplesSaved = (language: Language, enabled: boolean): string =>
+  messages(language).triplesSaved(enabled)
+
+// CHANGE: format the /triples usage reply
+// WHY: show the current mode and the expected arguments
+// QUOTE(TZ): "We want an opt-in per-chat mode"
+// REF: user-001-triple-pairing
+// SOURCE: n/a
+// FORMAT THEOREM: forall b: message contains example
+// PURITY: CORE
+// INVARIANT: reply includes example usage
+// COMPLEXITY: O(1)/O(1)
+export const replyTriplesUsage = (language: Language, enabled: boolean): string =>
+  messages(language).triplesUsage(enabled)
+
+// CHANGE: format the /decay success reply
+// WHY: confirm how fast past meetings stop counting as repeats
+// QUOTE(TZ): "a configurable decay so recent repeats are penalized more than old ones"
+// REF: user-003-recency-history
+// SOURCE: n/a
+// FORMAT THEOREM: forall w: message depends on w
+// PURITY: CORE
+// INVARIANT: reply names the new half-life
+// COMPLEXITY: O(1)/O(1)
+export const replyDecaySaved = (language: Language, halfLifeWeeks: number | null): string =>
+  messages(language).decaySaved(halfLifeWeeks)
+
+// CHANGE: format the /decay usage reply
+// WHY: show the current half-life and the expected arguments
+// QUOTE(TZ): "a configurable decay so recent repeats are penalized more than old ones"
+// REF: user-003-recency-history
+// SOURCE: n/a
+// FORMAT THEOREM: forall w: message contains example
+// PURITY: CORE
+// INVARIANT: reply includes example usage
+// COMPLEXITY: O(1)/O(1)
+export const replyDecayUsage = (language: Language, halfLifeWeeks: number | null): string =>
+  messages(language).decayUsage(halfLifeWeeks)
+
+const formatScheduleDays = (language: Language, schedule: WeeklySchedule): string => {
+  const { scheduleDays, weekdays } = messages(language)
+  return scheduleDays(weekdays[schedule.pollDay], weekdays[schedule.summaryDay])
+}
+
+// CHANGE: format the /schedule success reply
+// WHY: confirm the new weekly cadence of the chat
+// QUOTE(TZ): "for example a poll on Wednesday and a summary on Thursday"
+// REF: user-007-weekly-schedule
+// SOURCE: n/a
+// FORMAT THEOREM: forall s: message contains s.pollDay and s.summaryDay
+// PURITY: CORE
+// INVARIANT: reply names both days
+// COMPLEXITY: O(1)/O(1)
+export const replyScheduleSaved = (language: Language, schedule: WeeklySchedule): string =>
+  messages(language).scheduleSaved(formatScheduleDays(language, schedule))
+
+// CHANGE: format the /schedule usage reply
+// WHY: show the current cadence and the expected arguments
+// QUOTE(TZ): "It should be set by a new admin command"
+// REF: user-007-weekly-schedule
+// SOURCE: n/a
+// FORMAT THEOREM: forall s: message contains example
+// PURITY: CORE
+// INVARIANT: reply includes example usage
+// COMPLEXITY: O(1)/O(1)
+export const replyScheduleUsage = (language: Language, schedule: WeeklySchedule): string =>
+  messages(language).scheduleUsage(formatScheduleDays(language, schedule))
+
+const formatScheduleTimes = (language: Language, times: ScheduleTimes): string =>
+  messages(language).scheduleTimes(formatTimeOfDay(times.pollTime), formatTimeOfDay(times.summaryTime))
+
+// CHANGE: format the /time success reply
+// WHY: confirm the local times when the chat rounds start and end
+// QUOTE(TZ): "We want a configurable local time per chat for poll creation and for the summary."
+// REF: user-010-time-of-day
+// SOURCE: n/a
+// FORMAT THEOREM: forall t: message contains both times of t
+// PURITY: CORE
+// INVARIANT: reply names both times
+// COMPLEXITY: O(1)/O(1)
+export const replyScheduleTimesSaved = (language: Language, times: ScheduleTimes): string =>
+  messages(language).scheduleTimesSaved(formatScheduleTimes(language, times))
+
+// CHANGE: format the /time usage reply
+// WHY: show the current times and the expected arguments
+// QUOTE(TZ): "a configurable local time per chat for poll creation and for the summary"
+// REF: user-010-time-of-day
+// SOURCE: n/a
+// FORMAT THEOREM: forall t: message contains example
+// PURITY: CORE
+// INVARIANT: reply includes example usage
+// COMPLEXITY: O(1)/O(1)
+export const replyScheduleTimesUsage = (language: Language, times: ScheduleTimes): string =>
+  messages(language).scheduleTimesUsage(formatScheduleTimes(language, times))
+
+// CHANGE: format the /frequency success reply
+// WHY: confirm how often the chat runs a round
+// QUOTE(TZ): "Some of our communities want a round every two weeks or once a month"
+// REF: user-008-round-frequency
+// SOURCE: n/a
+// FORMAT THEOREM: forall f: message depends on f
+// PURITY: CORE
+// INVARIANT: reply names the new frequency
+// COMPLEXITY: O(1)/O(1)
+export const replyFrequencySaved = (language: Language, frequency: RoundFrequency): string => {
+  const { frequencySaved, roundFrequencies } = messages(language)
+  return frequencySaved(roundFrequencies[frequency])
+}
+
+// CHANGE: format the /frequency usage reply
+// WHY: show the current frequency and the expected arguments
+// QUOTE(TZ): "We want a round-frequency setting per chat"
+// REF: user-008-round-frequency
+// SOURCE: n/a
+// FORMAT THEOREM: forall f: message contains example
+// PURITY: CORE
+// INVARIANT: reply includes example usage
+// COMPLEXITY: O(1)/O(1)
+export const replyFrequencyUsage = (language: Language, frequency: RoundFrequency): string => {
+  const { frequencyUsage, roundFrequencies } = messages(language)
+  return frequencyUsage(roundFrequencies[frequency])
+}
+
+// CHANGE: format the /timezone success reply
+// WHY: confirm which zone the chat calendar follows now
+// QUOTE(TZ): "each `ChatState` to carry its own IANA time zone, set via an admin command"
+// REF: user-009-chat-time-zones
+// SOURCE: n/a
+// FORMAT THEOREM: forall z: message depends on z
+// PURITY: CORE
+// INVARIANT: null is reported as the bot default
+// COMPLEXITY: O(1)/O(1)
+export const replyTimeZoneSaved = (language: Language, timeZone: string | null): string =>
+  messages(language).timeZoneSaved(timeZone)
+
+// CHANGE: format the /timezone usage reply
+// WHY: show the current zone and the expected arguments
+// QUOTE(TZ): "set via an admin command and validated"
+// REF: user-009-chat-time-zones
+// SOURCE: n/a
+// FORMAT THEOREM: forall z: message contains example
+// PURITY: CORE
+// INVARIANT: reply includes example usage
+// COMPLEXITY: O(1)/O(1)
+export const replyTimeZoneUsage = (language: Language, timeZone: string | null): string =>
+  messages(language).timeZoneUsage(timeZone)
+
+// CHANGE: format the /reminder success reply
+// WHY: confirm the reminder day to admins
+// QUOTE(TZ): "We want a configurable reminder a few days later, for example on Wednesday."
+// REF: user-019-organizer-reminders
+// SOURCE: n/a
+// FORMAT THEOREM: forall d: d ≠ null -> message contains d
+// PURITY: CORE
+// INVARIANT: null reports that reminders are off
+// COMPLEXITY: O(1)/O(1)
+export const replyReminderSaved = (language: Language, reminderDay: Weekday | null): string => {
+  const { reminderSaved, weekdays } = messages(language)
+  return reminderSaved(reminderDay === null ? null : weekdays[reminderDay])
+}
+
+// CHANGE: format the /reminder usage reply
+// WHY: show the current reminder day and the expected arguments
+// QUOTE(TZ): "We want a configurable reminder a few days later, for example on Wednesday."
+// REF: user-019-organizer-reminders
+// SOURCE: n/a
+// FORMAT THEOREM: forall d: message contains example
+// PURITY: CORE
+// INVARIANT: reply includes example usage
+// COMPLEXITY: O(1)/O(1)
+export const replyReminderUsage = (language: Language, reminderDay: Weekday | null): string => {
+  const { reminderUsage, weekdays } = messages(language)
+  return reminderUsage(reminderDay === null ? null : weekdays[reminderDay])
+}
+
+// CHANGE: format the /language success reply in a group
+// WHY: confirm the new language of the chat in that language
+// QUOTE(TZ): "a per-chat language setting"
+// REF: user-021-localization
+// SOURCE: n/a
+// FORMAT THEOREM: forall l,c: c ≠ null -> message contains name(c)
+// PURITY: CORE
+// INVARIANT: null reports the bot defaults
+// COMPLEXITY: O(1)/O(1)
+export const replyChatLanguageSaved = (language: Language, chatLanguage: Language | null): string => {
+  const { chatLanguageSaved, languageNames } = messages(language)
+  return chatLanguageSaved(chatLanguage === null ? null : languageNames[chatLanguage])
+}
+
+// CHANGE: format the /language usage reply in a group
+// WHY: show the current chat language and the expected arguments
+// QUOTE(TZ): "a per-chat language setting"
+// REF: user-021-localization
+// SOURCE: n/a
+// FORMAT THEOREM: forall l,c: message contains example
+// PURITY: CORE
+// INVARIANT: reply includes example usage
+// COMPLEXITY: O(1)/O(1)
+export const replyChatLanguageUsage = (language: Language, chatLanguage: Language | null): string => {
+  const { chatLanguageUsage, languageNames } = messages(language)
+  return chatLanguageUsage(chatLanguage === null ? null : languageNames[chatLanguage])
+}
+
+// CHANGE: format the /language success reply in a private chat
+// WHY: confirm the member's DM language in that language
+// QUOTE(TZ): "a per-user language for DMs"
+// REF: user-021-localization
+// SOURCE: n/a
+// FORMAT THEOREM: forall l,u: u ≠ null -> message contains name(u)
+// PURITY: CORE
+// INVARIANT: null reports that chat languages apply again
+// COMPLEXITY: O(1)/O(1)
+export const replyUserLanguageSaved = (language: Language, userLanguage: Language | null): string => {
+  const { languageNames, userLanguageSaved } = messages(language)
+  return userLanguageSaved(userLanguage === null ? null : languageNames[userLanguage])
+}
+
+// CHANGE: format the /language usage reply in a private chat
+// WHY: show the language the bot writes in and the expected arguments
+// QUOTE(TZ): "a per-user language for DMs"
+// REF: user-021-localization
+// SOURCE: n/a
+// FORMAT THEOREM: forall l: message contains name(l)
+// PURITY: CORE
+// INVARIANT: reply includes example usage
+// COMPLEXITY: O(1)/O(1)
+export const replyUserLanguageUsage = (language: Language): string => {
+  const { languageNames, userLanguageUsage } = messages(language)
+  return userLanguageUsage(languageNames[language])
+}
+
+const formatPollWording = (language: Language, wording: PollWording): string => {
+  const join = messages(language).pollWordingJoin
+  return [
+    escapeHtml(wording.question),
+    ...wording.options.map((option, index) => {
+      const suffix = index === wording.joinOption ? ` ${join}` : ""
+      return `• ${escapeHtml(option)}${suffix}`
+    })
+  ].join("\n")
+}
+
+// CHANGE: format the /pollwording success reply
+// WHY: show admins the poll exactly as members will see it, including the option that signs them up,
+// and that a custom poll drops the meeting format choice
+// QUOTE(TZ): "We want admins to set the question and option labels per chat."
+// REF: user-022-custom-poll-wording, user-024-standby-signups
+// SOURCE: n/a
+// FORMAT THEOREM: forall l,w: w ≠ null -> message contains w.question ∧ message contains formats(l)
+// PURITY: CORE
+// INVARIANT: admin-provided texts are HTML-escaped
+// COMPLEXITY: O(n)/O(n)
+export const replyPollWordingSaved = (language: Language, wording: PollWording | null): string => {
+  const { pollWordingFormats, pollWordingSaved } = messages(language)
+  return wording === null
+    ? pollWordingSaved(null)
+    : `${pollWordingSaved(formatPollWording(language, withStandbyOption(language, wording)))}\n\n${pollWordingFormats}`
+}
+
+// CHANGE: format the /pollwording usage reply
+// WHY: show the current poll and the expected arguments
+// QUOTE(TZ): "Up for a coffee chat with a colleague next week?"
+// REF: user-022-custom-poll-wording
+// SOURCE: n/a
+// FORMAT THEOREM: forall l,w: message contains w.question ∧ message contains formats(l)
+// PURITY: CORE
+// INVARIANT: reply includes example usage
+// COMPLEXITY: O(n)/O(n)
+export const replyPollWordingUsage = (language: Language, wording: PollWording): string => {
+  const { pollWordingFormats, pollWordingUsage } = messages(language)
+  return [...pollWordingUsage(formatPollWording(language, wording)), pollWordingFormats].join("\n")
+}
+
+// CHANGE: format the /exclusions reply for admins
+// WHY: admins see how many exclusions exist without seeing who set them
+// QUOTE(TZ): "admins can view the count of active exclusions"
+// REF: user-004-pair-exclusions
+// SOURCE: n/a
+// FORMAT THEOREM: forall n: message contains n
+// PURITY: CORE
+// INVARIANT: reply never names participants
+// COMPLEXITY: O(1)/O(1)
+export const replyExclusionsCount = (language: Language, count: number): string =>
+  messages(language).exclusionsCount(count)
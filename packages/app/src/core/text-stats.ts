@@ -0,0 +1,37 @@
+import type { Language } from "./domain.js"
+import type { ChatStats, RoundTurnout } from "./stats.js"
+import { messages } from "./text.js"
+
+const formatPercent = (language: Language, value: number | null): string =>
+  value === null ? messages(language).notAvailable : `${Math.round(value * 100)}%`
+
+const formatAverage = (language: Language, value: number | null): string =>
+  value === null ? messages(language).notAvailable : value.toFixed(1)
+
+const formatTurnoutLine = (language: Language, turnout: RoundTurnout): string =>
+  turnout.leftovers === 0
+    ? `${turnout.summaryDate}: ${turnout.participants}`
+    : messages(language).turnoutWithLeftovers(turnout.summaryDate, turnout.participants, turnout.leftovers)
+
+// CHANGE: format the /stats reply for admins
+// WHY: admins want engagement numbers for their chat in one message
+// QUOTE(TZ): "participants per round over time, repeat-pair rate, average history count, and the share of \"Yes\" voters left without a pair"
+// REF: user-018-stats-command
+// SOURCE: n/a
+// FORMAT THEOREM: forall s: lines(format(s)) = |s.recentRounds| + 5 when s.roundCount > 0
+// PURITY: CORE
+// INVARIANT: missing rates are shown as n/a instead of 0
+// COMPLEXITY: O(n)/O(n)
+export const formatChatStats = (language: Language, stats: ChatStats): string => {
+  const text = messages(language)
+  return stats.roundCount === 0
+    ? text.statsEmpty
+    : [
+      text.statsHeading(stats.recentRounds.length, stats.roundCount),
+      text.statsParticipants,
+      ...stats.recentRounds.map((turnout) => formatTurnoutLine(language, turnout)),
+      text.statsRepeatPairs(formatPercent(language, stats.repeatPairRate)),
+      text.statsAverageMeetings(formatAverage(language, stats.averageHistoryCount)),
+      text.statsUnmatched(formatPercent(language, stats.unmatchedShare))
+    ].join("\n")
+}
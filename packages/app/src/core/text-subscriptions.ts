@@ -0,0 +1,115 @@
+import type { LocalDateString } from "./brand.js"
+import type { ChatMode, Language, Participant } from "./domain.js"
+import type { SubscriptionButtonReply, SubscriptionChat, SubscriptionReply } from "./subscriptions.js"
+import { escapeHtml, formatChatTitle, formatContactName, messages } from "./text.js"
+
+// CHANGE: format the /mode success reply
+// WHY: tell admins how members join rounds from now on
+// QUOTE(TZ): "We want an alternative chat mode where users subscribe once and stay in the pool"
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall l,m: reply(l,m) = modeSaved(l)[m]
+// PURITY: CORE
+// INVARIANT: every mode has exactly one text
+// COMPLEXITY: O(1)/O(1)
+export const replyModeSaved = (language: Language, mode: ChatMode): string => messages(language).modeSaved[mode]
+
+// CHANGE: format the /mode usage reply
+// WHY: show the current mode and the expected arguments
+// QUOTE(TZ): "We want an alternative chat mode where users subscribe once and stay in the pool"
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall l,m: message contains m
+// PURITY: CORE
+// INVARIANT: reply includes example usage
+// COMPLEXITY: O(1)/O(1)
+export const replyModeUsage = (language: Language, mode: ChatMode): string => messages(language).modeUsage(mode)
+
+// CHANGE: explain that a subscription chat has no polls
+// WHY: /poll and /nextpoll make no sense once the roster replaces the poll
+// QUOTE(TZ): "`decideSchedule` would then produce a summary without a poll"
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall _: message != ""
+// PURITY: CORE
+// INVARIANT: reply points members to /subscribe
+// COMPLEXITY: O(1)/O(1)
+export const replyPollsOff = (language: Language): string => messages(language).pollsOff
+
+// CHANGE: format a reply to a subscription command in the group
+// WHY: several members may subscribe at once, so each reply names who it is about
+// QUOTE(TZ): "users subscribe once and stay in the pool, through a DM button or a group command"
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall l,r,p: reply(l,r,p) = subscriptionReplies(l)[r](name(p))
+// PURITY: CORE
+// INVARIANT: member names are HTML-escaped
+// COMPLEXITY: O(1)/O(1)
+export const formatSubscriptionReply = (
+  language: Language,
+  reply: SubscriptionReply,
+  participant: Participant
+): string => messages(language).subscriptionReplies[reply](escapeHtml(formatContactName(participant)))
+
+// CHANGE: confirm a skipped round in the group
+// WHY: the member sees which round they sit out
+// QUOTE(TZ): "They can skip specific weeks or unsubscribe."
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall l,p,d: message contains d
+// PURITY: CORE
+// INVARIANT: member names are HTML-escaped
+// COMPLEXITY: O(1)/O(1)
+export const replySkipSaved = (language: Language, participant: Participant, summaryDate: LocalDateString): string =>
+  messages(language).skipSaved(escapeHtml(formatContactName(participant)), summaryDate)
+
+// CHANGE: format the /skip usage reply
+// WHY: show the round a plain /skip would skip and the expected date format
+// QUOTE(TZ): "They can skip specific weeks or unsubscribe."
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall l,d: message contains d
+// PURITY: CORE
+// INVARIANT: reply includes example usage
+// COMPLEXITY: O(1)/O(1)
+export const replySkipUsage = (language: Language, nextSummaryDate: LocalDateString): string =>
+  messages(language).skipUsage(nextSummaryDate)
+
+// CHANGE: format the private subscriptions menu message
+// WHY: explain the buttons before showing them
+// QUOTE(TZ): "users subscribe once and stay in the pool, through a DM button or a group command"
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall n: message depends on n = 0
+// PURITY: CORE
+// INVARIANT: the empty menu explains how a group gets into the list
+// COMPLEXITY: O(1)/O(1)
+export const formatSubscriptionsMenu = (language: Language, buttons: number): string =>
+  (buttons === 0 ? messages(language).subscriptionsMenuEmpty : messages(language).subscriptionsMenu).join("\n")
+
+// CHANGE: label a subscription button with the chat and whether the member is in
+// WHY: one tap toggles the subscription, so the label shows the current state
+// QUOTE(TZ): "users subscribe once and stay in the pool, through a DM button or a group command"
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall c: label(c) contains title(c)
+// PURITY: CORE
+// INVARIANT: subscribed chats start with ✅, the others with ➕
+// COMPLEXITY: O(1)/O(1)
+export const subscriptionButtonLabel = (language: Language, entry: SubscriptionChat): string =>
+  `${entry.subscribed ? "✅" : "➕"} ${formatChatTitle(language, entry.chatTitle)}`
+
+// CHANGE: format a reply to a subscription button in private chat
+// WHY: confirm which chat the member joined or left
+// QUOTE(TZ): "They can skip specific weeks or unsubscribe."
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: forall l,r,t: reply(l,r,t) = subscriptionButtonReplies(l)[r](t)
+// PURITY: CORE
+// INVARIANT: chat titles are HTML-escaped
+// COMPLEXITY: O(1)/O(1)
+export const formatSubscriptionButtonReply = (
+  language: Language,
+  reply: SubscriptionButtonReply,
+  chatTitle: string | null
+): string => messages(language).subscriptionButtonReplies[reply](escapeHtml(formatChatTitle(language, chatTitle)))
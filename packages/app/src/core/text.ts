@@ -1,9 +1,23 @@
 import { Match } from "effect"
 
-import type { ChatId, LocalDateString } from "./brand.js"
-import type { Pairing, Participant } from "./domain.js"
-import type { ScheduleDecision } from "./schedule.js"
-import type { IncomingUpdate } from "./updates.js"
+import type { ChatId, LocalDateString, UserId } from "./brand.js"
+import type {
+  Language,
+  MeetingFormat,
+  Pairing,
+  Participant,
+  ProfileField,
+  UserProfile,
+  UserProfiles,
+  WeeklySchedule
+} from "./domain.js"
+import { languages } from "./language.js"
+import { agreedMeetingFormat, pollMeetingFormats } from "./meeting-format.js"
+import { en } from "./messages-en.js"
+import { ru } from "./messages-ru.js"
+import type { Messages } from "./messages.js"
+import { hasStructuredProfile, profileSteps } from "./profile-wizard.js"
+import { findProfile } from "./profiles.js"
 
 export type LeaderboardEntry = {
   readonly chatId: ChatId
@@ -14,25 +28,70 @@ export type LeaderboardEntry = {
 }
 
 export type DirectPairingMessage = {
+  readonly language: Language
+  readonly recipientId: UserId
+  readonly profiles: UserProfiles
   readonly counterparts: ReadonlyArray<Participant>
   readonly isOrganizer: boolean
   readonly chatTitle: string | null
   readonly chatInviteLink: string | null
   readonly summaryLink: string | null
+  // Format the whole group agreed on in the poll.
+  readonly meetingFormat: MeetingFormat
+  // The recipient signed up as a standby and was called in to fix an odd count.
+  readonly calledIn: boolean
 }
 
+const catalogs: Readonly<Record<Language, Messages>> = { en, ru }
+
+// CHANGE: resolve the message catalog of a language
+// WHY: every user-facing string goes through one catalog per language
+// QUOTE(TZ): "Every `format*`/`reply*` function should resolve through the catalog."
+// REF: user-021-localization
+// SOURCE: n/a
+// FORMAT THEOREM: forall l in languages: messages(l) is total over Messages keys
+// PURITY: CORE
+// INVARIANT: the catalog type forces every language to define every message
+// COMPLEXITY: O(1)/O(1)
+export const messages = (language: Language): Messages => catalogs[language]
+
 // CHANGE: define poll option labels
 // WHY: keep poll response text configurable in one place
 // QUOTE(TZ): "Yes! 🤗"
-// REF: user-2026-01-16-messages
+// REF: user-2026-01-16-messages, user-021-localization, user-023-meeting-format-poll, user-024-standby-signups
 // SOURCE: n/a
-// FORMAT THEOREM: forall o in options: o != ""
+// FORMAT THEOREM: forall l,o in options(l): o != ""
 // PURITY: CORE
-// INVARIANT: options length = 2
+// INVARIANT: one sign-up option per poll format, in pollMeetingFormats order, then standby, then decline
 // COMPLEXITY: O(1)/O(1)
-export const pollOptions: ReadonlyArray<string> = ["Yes! 🤗", "Not this time 💁🏽‍♂️"]
+export const pollOptions = (language: Language): ReadonlyArray<string> => [
+  ...pollMeetingFormats.map((format) => messages(language).pollFormatOptions[format]),
+  messages(language).pollStandbyOption,
+  messages(language).pollDeclineOption
+]
 
-const escapeHtml = (value: string): string =>
+// CHANGE: tell whether a text is a button label in any language
+// WHY: buttons sent before a language switch must keep working
+// QUOTE(TZ): "Callback labels such as `privateStartProfileLabel` must keep working in every language."
+// REF: user-021-localization
+// SOURCE: n/a
+// FORMAT THEOREM: forall t,l: isLabel(label, label(l)) = true
+// PURITY: CORE
+// INVARIANT: surrounding whitespace is ignored
+// COMPLEXITY: O(|languages|)/O(1)
+export const isLabelInAnyLanguage = (label: (language: Language) => string, text: string): boolean =>
+  languages.some((language) => label(language) === text.trim())
+
+// CHANGE: escape user input for Telegram HTML messages
+// WHY: the per-area text modules embed names and titles into HTML replies
+// QUOTE(TZ): "Every `format*`/`reply*` function should resolve through the catalog."
+// REF: user-021-localization
+// SOURCE: n/a
+// FORMAT THEOREM: forall v: escapeHtml(v) contains no raw <, >, &, quotes
+// PURITY: CORE
+// INVARIANT: every replaced character maps to its HTML entity
+// COMPLEXITY: O(n)/O(n)
+export const escapeHtml = (value: string): string =>
   value
     .replaceAll("&", "&amp;")
     .replaceAll("<", "&lt;")
@@ -43,7 +102,16 @@ const escapeHtml = (value: string): string =>
 const displayHandle = (participant: Participant): string =>
   participant.username ? `@${participant.username}` : `user-${participant.id}`
 
-const mention = (participant: Participant): string =>
+// CHANGE: link a participant by their handle
+// WHY: pair lines and notices must ping the member in Telegram
+// QUOTE(TZ): "Every `format*`/`reply*` function should resolve through the catalog."
+// REF: user-021-localization
+// SOURCE: n/a
+// FORMAT THEOREM: forall p: mention(p) links tg://user?id=p.id
+// PURITY: CORE
+// INVARIANT: the visible handle is HTML-escaped
+// COMPLEXITY: O(n)/O(n)
+export const mention = (participant: Participant): string =>
   `<a href="tg://user?id=${participant.id}">${escapeHtml(displayHandle(participant))}</a>`
 
 const formatPair = (pair: Pairing): string =>
@@ -56,60 +124,55 @@ const formatPair = (pair: Pairing): string =>
 
 const formatStandalone = (participant: Participant): string => `➪ ${mention(participant)}`
 
-const formatContactName = (participant: Participant): string =>
+// CHANGE: format the full name of a participant
+// WHY: menus and replies name members the way Telegram shows them
+// QUOTE(TZ): "Every `format*`/`reply*` function should resolve through the catalog."
+// REF: user-021-localization
+// SOURCE: n/a
+// FORMAT THEOREM: forall p: formatContactName(p) starts with p.firstName
+// PURITY: CORE
+// INVARIANT: the last name follows only when present
+// COMPLEXITY: O(1)/O(1)
+export const formatContactName = (participant: Participant): string =>
   participant.lastName
     ? `${participant.firstName} ${participant.lastName}`
     : participant.firstName
 
-const formatContactHandle = (participant: Participant): string =>
-  participant.username ? `@${participant.username}` : "None"
+const formatContactHandle = (language: Language, participant: Participant): string =>
+  participant.username ? `@${participant.username}` : messages(language).noHandle
 
-const formatContactLine = (participant: Participant): string =>
-  `${formatContactName(participant)} (${formatContactHandle(participant)})`
+// CHANGE: format a participant name with their handle
+// WHY: lists of partners must be reachable without a mention
+// QUOTE(TZ): "Every `format*`/`reply*` function should resolve through the catalog."
+// REF: user-021-localization
+// SOURCE: n/a
+// FORMAT THEOREM: forall l,p: line contains formatContactName(p)
+// PURITY: CORE
+// INVARIANT: members without a username get the catalog placeholder
+// COMPLEXITY: O(1)/O(1)
+export const formatContactLine = (language: Language, participant: Participant): string =>
+  `${formatContactName(participant)} (${formatContactHandle(language, participant)})`
 
-const formatOrganizerHandles = (counterparts: ReadonlyArray<Participant>): string => {
+const formatOrganizerHandles = (language: Language, counterparts: ReadonlyArray<Participant>): string => {
   if (counterparts.length === 0) {
-    return "None"
+    return messages(language).noHandle
   }
   return counterparts
-    .map((participant) =>
-      participant.username ? `@${participant.username}` : `user-${participant.id}`
-    )
+    .map((participant) => participant.username ? `@${participant.username}` : `user-${participant.id}`)
     .join(", ")
 }
 
-const formatOrganizerNoun = (counterparts: ReadonlyArray<Participant>): string =>
-  counterparts.length === 1 ? "собеседнику" : "собеседникам"
-
-const formatGroupLabel = (
-  title: string | null,
-  inviteLink: string | null,
-  summaryLink: string | null
-): string => {
-  const normalizedLink = normalizeInviteLink(inviteLink ?? undefined)
-  const label = title ? escapeHtml(title) : "без названия"
-  const link = summaryLink ?? normalizedLink
+const formatGroupLabel = (language: Language, title: string | null, inviteLink: string | null): string => {
+  const link = normalizeInviteLink(inviteLink ?? undefined)
   if (!link) {
-    return title ? `«${label}»` : "(без названия)"
+    return title ? `«${escapeHtml(title)}»` : messages(language).untitledGroup
   }
-  const anchorText = title ? escapeHtml(title) : "группа"
+  const anchorText = title ? escapeHtml(title) : messages(language).groupLinkText
   return `«<a href="${escapeHtml(link)}">${anchorText}</a>»`
 }
 
-const formatGroupTitle = (
-  title: string | null,
-  inviteLink: string | null,
-  summaryLink: string | null
-): string => `Группа: ${formatGroupLabel(title, inviteLink, summaryLink)}`
-
-const formatSummaryLinkLine = (summaryLink: string | null): string | null =>
-  summaryLink
-    ? `Итоги недели: <a href="${escapeHtml(summaryLink)}">ссылка</a>`
-    : null
-
-const formatDays = (days: number): string => (days === 1 ? "1 day" : `${days} days`)
-
-const formatMembersCount = (members: number): string => members === 1 ? "1 member" : `${members} members`
+const formatSummaryLinkLine = (language: Language, summaryLink: string | null): string | null =>
+  summaryLink ? messages(language).summaryLink(escapeHtml(summaryLink)) : null
 
 const normalizeUsername = (value: string | undefined): string | null => {
   const trimmed = value?.trim()
@@ -127,19 +190,22 @@ const normalizeInviteLink = (value: string | undefined): string | null => {
   return /^https?:\/\//.test(trimmed) ? trimmed : null
 }
 
-const formatLeaderboardLink = (entry: LeaderboardEntry): string | null => {
+const formatLeaderboardLink = (language: Language, entry: LeaderboardEntry): string | null => {
+  const join = messages(language).leaderboardJoin
   const username = normalizeUsername(entry.username)
   if (username) {
     const url = `https://t.me/${username}`
-    return `<a href="${url}">Join</a>`
+    return `<a href="${url}">${join}</a>`
   }
   const invite = normalizeInviteLink(entry.inviteLink)
-  return invite ? `<a href="${escapeHtml(invite)}">Join</a>` : null
+  return invite ? `<a href="${escapeHtml(invite)}">${join}</a>` : null
 }
 
-const leaderboardTitle = (entry: LeaderboardEntry): string => entry.title ?? `Chat ${entry.chatId}`
+const leaderboardTitle = (language: Language, entry: LeaderboardEntry): string =>
+  entry.title ?? messages(language).leaderboardChat(entry.chatId)
 
 const sortLeaderboardEntries = (
+  language: Language,
   entries: ReadonlyArray<LeaderboardEntry>
 ): ReadonlyArray<LeaderboardEntry> => {
   const sorted = [...entries]
@@ -148,19 +214,19 @@ const sortLeaderboardEntries = (
     if (byMembers !== 0) {
       return byMembers
     }
-    return leaderboardTitle(left).localeCompare(leaderboardTitle(right), "en")
+    return leaderboardTitle(language, left).localeCompare(leaderboardTitle(language, right), language)
   })
   return sorted
 }
 
 const formatLeaderboardLine = (
+  language: Language,
   entry: LeaderboardEntry,
   index: number
 ): string => {
-  const title = escapeHtml(leaderboardTitle(entry))
-  const link = formatLeaderboardLink(entry)
-  const suffix = link ? ` (${link})` : " (link unavailable)"
-  return `${index + 1}. ${title} — ${formatMembersCount(entry.members)}${suffix}`
+  const title = escapeHtml(leaderboardTitle(language, entry))
+  const link = formatLeaderboardLink(language, entry) ?? messages(language).leaderboardNoLink
+  return `${index + 1}. ${title} — ${messages(language).members(entry.members)} (${link})`
 }
 
 // CHANGE: format the admin-only command reply
@@ -172,7 +238,7 @@ const formatLeaderboardLine = (
 // PURITY: CORE
 // INVARIANT: message is stable
 // COMPLEXITY: O(1)/O(1)
-export const replyAdminOnly = (): string => "This command is available to chat admins only."
+export const replyAdminOnly = (language: Language): string => messages(language).adminOnly
 
 // CHANGE: format the /settopic reply for main chat
 // WHY: centralize user-facing command text in a single module
@@ -183,7 +249,7 @@ export const replyAdminOnly = (): string => "This command is available to chat a
 // PURITY: CORE
 // INVARIANT: message is stable
 // COMPLEXITY: O(1)/O(1)
-export const replySetTopicMain = (): string => "Ok. Polls will be posted in the main chat."
+export const replySetTopicMain = (language: Language): string => messages(language).setTopicMain
 
 // CHANGE: format the /settopic reply for the current topic
 // WHY: centralize user-facing command text in a single module
@@ -194,7 +260,7 @@ export const replySetTopicMain = (): string => "Ok. Polls will be posted in the
 // PURITY: CORE
 // INVARIANT: message is stable
 // COMPLEXITY: O(1)/O(1)
-export const replySetTopicThread = (): string => "Ok. Polls will be posted in this topic."
+export const replySetTopicThread = (language: Language): string => messages(language).setTopicThread
 
 // CHANGE: format the /setlink success reply
 // WHY: confirm that the invite link was stored
@@ -205,7 +271,7 @@ export const replySetTopicThread = (): string => "Ok. Polls will be posted in th
 // PURITY: CORE
 // INVARIANT: message is stable
 // COMPLEXITY: O(1)/O(1)
-export const replySetLinkSaved = (): string => "Invite link saved."
+export const replySetLinkSaved = (language: Language): string => messages(language).setLinkSaved
 
 // CHANGE: format the /setlink invalid input reply
 // WHY: guide users to provide a valid Telegram link
@@ -216,7 +282,7 @@ export const replySetLinkSaved = (): string => "Invite link saved."
 // PURITY: CORE
 // INVARIANT: reply includes example usage
 // COMPLEXITY: O(1)/O(1)
-export const replySetLinkInvalid = (): string => "Invalid link. Use: /setlink https://t.me/yourgroup"
+export const replySetLinkInvalid = (language: Language): string => messages(language).setLinkInvalid
 
 // CHANGE: format the reply when a poll is already active
 // WHY: keep user-facing command responses centralized
@@ -227,7 +293,7 @@ export const replySetLinkInvalid = (): string => "Invalid link. Use: /setlink ht
 // PURITY: CORE
 // INVARIANT: message is stable
 // COMPLEXITY: O(1)/O(1)
-export const replyPollAlreadyActive = (): string => "A poll is already active. Use /summary to close it."
+export const replyPollAlreadyActive = (language: Language): string => messages(language).pollAlreadyActive
 
 // CHANGE: format the reply when a poll is already active with a summary date
 // WHY: keep user-facing command responses centralized
@@ -239,8 +305,9 @@ export const replyPollAlreadyActive = (): string => "A poll is already active. U
 // INVARIANT: summary date is preserved
 // COMPLEXITY: O(1)/O(1)
 export const replyPollAlreadyActiveWithDate = (
+  language: Language,
   summaryDate: LocalDateString
-): string => `A poll is already active. Results on ${summaryDate}.`
+): string => messages(language).pollAlreadyActiveWithDate(summaryDate)
 
 // CHANGE: format the reply when the poll window is open
 // WHY: keep user-facing command responses centralized
@@ -251,7 +318,7 @@ export const replyPollAlreadyActiveWithDate = (
 // PURITY: CORE
 // INVARIANT: message is stable
 // COMPLEXITY: O(1)/O(1)
-export const replyPollWindowOpen = (): string => "Poll window is open now. You can start a poll with /poll."
+export const replyPollWindowOpen = (language: Language): string => messages(language).pollWindowOpen
 
 // CHANGE: format the reply with the next poll window date
 // WHY: keep user-facing command responses centralized
@@ -263,9 +330,10 @@ export const replyPollWindowOpen = (): string => "Poll window is open now. You c
 // INVARIANT: days and date are preserved
 // COMPLEXITY: O(1)/O(1)
 export const replyNextPollWindow = (
+  language: Language,
   daysUntilStart: number,
   startDate: LocalDateString
-): string => `Next poll window starts in ${formatDays(daysUntilStart)} (${startDate}).`
+): string => messages(language).nextPollWindow(messages(language).days(daysUntilStart), startDate)
 
 // CHANGE: format the reply when no chats are registered for a leaderboard
 // WHY: explain why the leaderboard cannot be computed yet
@@ -276,7 +344,7 @@ export const replyNextPollWindow = (
 // PURITY: CORE
 // INVARIANT: message is stable
 // COMPLEXITY: O(1)/O(1)
-export const replyLeaderboardEmpty = (): string => "No registered group chats yet."
+export const replyLeaderboardEmpty = (language: Language): string => messages(language).leaderboardEmpty
 
 // CHANGE: format the reply when leaderboard data cannot be fetched
 // WHY: disclose that some chats were skipped due to missing access
@@ -287,8 +355,8 @@ export const replyLeaderboardEmpty = (): string => "No registered group chats ye
 // PURITY: CORE
 // INVARIANT: skipped count is preserved
 // COMPLEXITY: O(1)/O(1)
-export const replyLeaderboardUnavailable = (skipped: number): string =>
-  `Leaderboard is unavailable right now. Skipped ${skipped} chats due to missing access.`
+export const replyLeaderboardUnavailable = (language: Language, skipped: number): string =>
+  messages(language).leaderboardUnavailable(skipped)
 
 // CHANGE: format a leaderboard message with group member counts
 // WHY: let users discover communities by size
@@ -300,14 +368,15 @@ export const replyLeaderboardUnavailable = (skipped: number): string =>
 // INVARIANT: entries are sorted by member count descending
 // COMPLEXITY: O(n log n)/O(n)
 export const formatLeaderboard = (
+  language: Language,
   entries: ReadonlyArray<LeaderboardEntry>,
   skipped: number
 ): string => {
-  const sorted = sortLeaderboardEntries(entries)
-  const header = "Group leaderboard (members):"
-  const lines = sorted.map((entry, index) => formatLeaderboardLine(entry, index))
+  const sorted = sortLeaderboardEntries(language, entries)
+  const header = messages(language).leaderboardHeading
+  const lines = sorted.map((entry, index) => formatLeaderboardLine(language, entry, index))
   const note = skipped > 0
-    ? `Skipped ${skipped} chats due to missing access.`
+    ? messages(language).leaderboardSkipped(skipped)
     : null
   return [
     header,
@@ -325,17 +394,7 @@ export const formatLeaderboard = (
 // PURITY: CORE
 // INVARIANT: reply contains onboarding steps
 // COMPLEXITY: O(1)/O(1)
-export const formatPrivateStartReply = (): string =>
-  [
-    "Привет!👋",
-    "Я Random Coffee бот для групповых чатов 🤖",
-    "",
-    "Здесь я буду дублировать для тебя всех партнеров, подобранных в каждой группе, где ты подтвердил участие во встречах",
-    "",
-    "Также тут ты можешь заполнить и отредактировать свой профиль, чтобы я мог подключить умный алгоритм и лучше подбирать тебе пары. Если хочешь повысить точность подбора, жми кнопку \"Заполнить профиль\" ниже 👇",
-    "",
-    "А если хочешь добавить бот в свою группу, жми \"Я организатор\".  Подскажу, как это сделать."
-  ].join("\n")
+export const formatPrivateStartReply = (language: Language): string => messages(language).privateStart.join("\n")
 
 // CHANGE: label for the private "fill profile" button
 // WHY: keep button labels centralized for reuse
@@ -346,7 +405,7 @@ export const formatPrivateStartReply = (): string =>
 // PURITY: CORE
 // INVARIANT: label is stable
 // COMPLEXITY: O(1)/O(1)
-export const privateStartProfileLabel = (): string => "Заполнить профиль"
+export const privateStartProfileLabel = (language: Language): string => messages(language).profileLabel
 
 // CHANGE: legacy label for the private profile button
 // WHY: accept older button text sent before rename
@@ -368,91 +427,69 @@ export const privateStartProfileAliasLabel = (): string => "Заполнить 
 // PURITY: CORE
 // INVARIANT: label is stable
 // COMPLEXITY: O(1)/O(1)
-export const privateStartOrganizerLabel = (): string => "Я организатор"
+export const privateStartOrganizerLabel = (language: Language): string => messages(language).organizerLabel
 
-// CHANGE: define button labels for private /start
-// WHY: keep button text centralized alongside other user-facing strings
-// QUOTE(TZ): "кнопки"
-// REF: user-2026-01-19-private-start
+// CHANGE: label for the private "exclusions" button
+// WHY: keep button labels centralized for reuse
+// QUOTE(TZ): "Users manage it privately through a DM flow next to the existing profile buttons"
+// REF: user-004-pair-exclusions
 // SOURCE: n/a
-// FORMAT THEOREM: forall _: rows = 2
+// FORMAT THEOREM: forall _: label != ""
 // PURITY: CORE
-// INVARIANT: each row contains exactly one label
+// INVARIANT: label is stable
 // COMPLEXITY: O(1)/O(1)
-export const privateStartButtons = (): ReadonlyArray<ReadonlyArray<string>> => [
-  [privateStartProfileLabel()],
-  [privateStartOrganizerLabel()]
-]
+export const privateStartExclusionsLabel = (language: Language): string => messages(language).exclusionsLabel
 
-// CHANGE: format the profile flow intro message
-// WHY: explain next steps before opening the profile widget
-// QUOTE(TZ): "Отлично! Вот, какие дальнейшие шаги тебя ждут"
-// REF: user-2026-01-19-profile-flow
+// CHANGE: label for the private "subscriptions" button
+// WHY: keep button labels centralized for reuse
+// QUOTE(TZ): "users subscribe once and stay in the pool, through a DM button or a group command"
+// REF: user-025-subscription-mode
 // SOURCE: n/a
-// FORMAT THEOREM: forall _: message != ""
+// FORMAT THEOREM: forall _: label != ""
 // PURITY: CORE
-// INVARIANT: steps are ordered
+// INVARIANT: label is stable
 // COMPLEXITY: O(1)/O(1)
-export const formatProfileIntroReply = (): string =>
-  [
-    "Отлично! Вот, какие дальнейшие шаги тебя ждут:",
-    "",
-    "1️⃣ Заполнение анкеты о себе",
-    "2️⃣ По желанию Предвыбор интересных собеседников",
-    "",
-    "А в ближайший понедельник бот подберет тебе пару среди всех участников."
-  ].join("\n")
+export const privateStartSubscriptionsLabel = (language: Language): string => messages(language).subscriptionsLabel
 
-// CHANGE: format the profile widget instruction message
-// WHY: guide users to fill and submit the profile
-// QUOTE(TZ): "Спасибо! \nВремя заполнить анкету"
-// REF: user-2026-01-19-profile-flow
+// CHANGE: define button labels for private /start
+// WHY: keep button text centralized alongside other user-facing strings
+// QUOTE(TZ): "кнопки"
+// REF: user-2026-01-19-private-start
 // SOURCE: n/a
-// FORMAT THEOREM: forall _: message != ""
+// FORMAT THEOREM: forall _: rows = 4
 // PURITY: CORE
-// INVARIANT: contains next step instructions
+// INVARIANT: each row contains exactly one label
 // COMPLEXITY: O(1)/O(1)
-export const formatProfileWidgetReply = (): string =>
-  [
-    "Спасибо! ",
-    "Время заполнить анкету 🪄",
-    "",
-    "Я буду присылать её твоим собеседникам каждую неделю.",
-    "",
-    "Скажу честно: лучше заполнить её подробно. Анкета — это первое впечатление о тебе. И с пустой или плохо заполненной анкетой вероятность встреч может снизиться ☝️",
-    "Заполни анкету в этом чате — просто напиши о себе текстом.",
-    "",
-    "Изменить анкету можно, снова нажав кнопку «Заполнить профиль»."
-  ].join("\n")
+export const privateStartButtons = (language: Language): ReadonlyArray<ReadonlyArray<string>> => [
+  [privateStartProfileLabel(language)],
+  [privateStartOrganizerLabel(language)],
+  [privateStartExclusionsLabel(language)],
+  [privateStartSubscriptionsLabel(language)]
+]
 
-// CHANGE: format the profile saved confirmation reply
-// WHY: confirm that the bot stored the profile text
-// QUOTE(TZ): "Почему он не сохранил информацию об профиле?"
-// REF: user-2026-01-21-profile-text
+// CHANGE: name a chat in private replies
+// WHY: chats without a title still need a readable name
+// QUOTE(TZ): "Every `format*`/`reply*` function should resolve through the catalog."
+// REF: user-021-localization
 // SOURCE: n/a
-// FORMAT THEOREM: forall _: message != ""
+// FORMAT THEOREM: forall l,t: t != null -> formatChatTitle(l,t) = t
 // PURITY: CORE
-// INVARIANT: reply is a single confirmation block
+// INVARIANT: untitled chats use the catalog placeholder
 // COMPLEXITY: O(1)/O(1)
-export const formatProfileSavedReply = (): string =>
-  [
-    "Готово! Я сохранил твою анкету.",
-    "Если захочешь изменить — нажми кнопку ниже.",
-    "",
-    "Если тебя устраивает твой профиль — можешь присоединяться к Random Coffee.",
-    "Напиши /leaderboard, чтобы узнать активные чаты для участия."
-  ].join("\n")
+export const formatChatTitle = (language: Language, chatTitle: string | null): string =>
+  chatTitle ?? messages(language).untitledGroup
 
-// CHANGE: label for the profile redo button after saving
-// WHY: surface a clear action to re-open profile editing
-// QUOTE(TZ): "Вот тут должна была появится кнопка \"Заполнить профиль заново\""
-// REF: user-2026-01-22-profile-redo-button
+// CHANGE: label a preferred meeting format
+// WHY: the same labels are used on wizard buttons and in pairing DMs
+// QUOTE(TZ): "preferred meeting format"
+// REF: user-006-structured-profiles
 // SOURCE: n/a
-// FORMAT THEOREM: forall _: label != ""
+// FORMAT THEOREM: forall f: label(f) != ""
 // PURITY: CORE
-// INVARIANT: label is stable
+// INVARIANT: labels are unique per format
 // COMPLEXITY: O(1)/O(1)
-export const profileRedoLabel = (): string => "Заполнить профиль заново"
+export const meetingFormatLabel = (language: Language, format: MeetingFormat): string =>
+  messages(language).meetingFormats[format]
 
 // CHANGE: format the organizer guide reply for private chats
 // WHY: explain how to add the bot to a group
@@ -463,23 +500,7 @@ export const profileRedoLabel = (): string => "Заполнить профиль
 // PURITY: CORE
 // INVARIANT: reply lists steps in order
 // COMPLEXITY: O(1)/O(1)
-export const formatOrganizerGuideReply = (): string =>
-  [
-    "Как добавить бота в группу:",
-    "1) Открой группу → Добавить участника → найди этого бота и добавь его.",
-    "2) Сделай бота администратором и включи права отправки сообщений и опросов.",
-    "3) Напиши в группе /start, чтобы бот начал работу.",
-    "",
-    "Админские команды в группе:",
-    "/settopic — выбрать топик для опросов (или основной чат).",
-    "/poll — запустить опрос прямо сейчас.",
-    "/summary — завершить опрос и подвести итог.",
-    "/nextpoll — узнать, когда следующий опрос.",
-    "/setlink ссылка — добавить ссылку на группу для /leaderboard.",
-    "/leaderboard — показать список групп по размеру.",
-    "",
-    "Если что-то не выходит — напиши сюда."
-  ].join("\n")
+export const formatOrganizerGuideReply = (language: Language): string => messages(language).organizerGuide.join("\n")
 
 // CHANGE: format the /start reply message
 // WHY: keep user-facing bot text centralized
@@ -488,276 +509,115 @@ export const formatOrganizerGuideReply = (): string =>
 // SOURCE: n/a
 // FORMAT THEOREM: forall _: message != ""
 // PURITY: CORE
-// INVARIANT: reply has three lines
+// INVARIANT: reply has three lines and follows the chat schedule
 // COMPLEXITY: O(1)/O(1)
-export const formatStartReply = (): string =>
-  [
-    "Random Coffee bot is active ✅",
-    "Polls: Friday/Saturday. Results: Monday.",
-    "Make sure the bot can send polls in this chat."
-  ].join("\n")
+export const formatStartReply = (language: Language, schedule: WeeklySchedule): string => {
+  const { startReply, weekdays } = messages(language)
+  return startReply(weekdays[schedule.pollDay], weekdays[schedule.summaryDay]).join("\n")
+}
+
+const formatCounterpartsHeading = (language: Language, counterparts: ReadonlyArray<Participant>): string =>
+  counterparts.length > 1 ? messages(language).pairingTripleHeading : messages(language).pairingGroupHeading
+
+const formatProfileValue = (language: Language, profile: UserProfile, field: ProfileField): string | null => {
+  if (field !== "meetingFormat") {
+    return profile[field]
+  }
+  return profile.meetingFormat ? meetingFormatLabel(language, profile.meetingFormat) : null
+}
+
+const formatProfileLines = (language: Language, profile: UserProfile): ReadonlyArray<string> => {
+  const text = messages(language)
+  return [
+    ...profileSteps.flatMap((field) => {
+      const value = formatProfileValue(language, profile, field)
+      return value === null ? [] : [`${text.profileFieldTitles[field]}: ${escapeHtml(value)}`]
+    }),
+    ...(profile.about ? [`${text.profileAbout}: ${escapeHtml(profile.about)}`] : [])
+  ]
+}
+
+const formatCounterpartBlock = (
+  language: Language,
+  participant: Participant,
+  profiles: UserProfiles
+): ReadonlyArray<string> => {
+  const profile = findProfile(profiles, participant.id)
+  const lines = profile ? formatProfileLines(language, profile) : []
+  return [
+    formatContactLine(language, participant),
+    ...(lines.length > 0 ? lines : [messages(language).pairingEmptyProfile])
+  ]
+}
+
+// Groups where everyone picked "either" have nothing to agree on.
+const formatAgreedFormat = (language: Language, format: MeetingFormat): ReadonlyArray<string> =>
+  format === "any" ? [] : [messages(language).pairingAgreedFormat(meetingFormatLabel(language, format)), ""]
+
+const formatOwnProfileNudge = (context: DirectPairingMessage): ReadonlyArray<string> => {
+  const profile = findProfile(context.profiles, context.recipientId)
+  if (profile && hasStructuredProfile(profile)) {
+    return []
+  }
+  const text = messages(context.language)
+  return [
+    profile ? text.pairingLegacyProfileNudge : text.pairingEmptyProfileNudge,
+    text.pairingProfileAction,
+    ""
+  ]
+}
 
 // CHANGE: format the direct pairing message for private chats
 // WHY: keep weekly pair notifications consistent across DMs
 // QUOTE(TZ): "Твоя пара на эту неделю"
-// REF: user-2026-01-20-direct-dm
+// REF: user-2026-01-20-direct-dm, user-023-meeting-format-poll, user-024-standby-signups
 // SOURCE: n/a
 // FORMAT THEOREM: forall c in counterparts: message contains c
 // PURITY: CORE
-// INVARIANT: organizer block appears only when isOrganizer = true
+// INVARIANT: organizer block appears only when isOrganizer = true; saved profiles replace placeholders;
+// the agreed format appears only when it is online or in person; called-in standby members are told why
 // COMPLEXITY: O(n)/O(n)
 export const formatDirectPairingMessage = (
   context: DirectPairingMessage
 ): string => {
-  const summaryLine = formatSummaryLinkLine(context.summaryLink)
+  const { language } = context
+  const text = messages(language)
+  const summaryLine = formatSummaryLinkLine(language, context.summaryLink)
+  const groupLabel = formatGroupLabel(language, context.chatTitle, context.chatInviteLink)
   if (context.counterparts.length === 0) {
     return [
-      `На этой неделе тебе не досталась пара в группе ${
-        formatGroupLabel(context.chatTitle, context.chatInviteLink, null)
-      }.`,
-      "Возможно, кто-то не успел проголосовать и напишет позже.",
+      ...text.pairingNoPartner(groupLabel),
       ...(summaryLine ? [summaryLine] : []),
       "",
-      "Посмотреть и поменять фото или данные своего профиля ты можешь в /help"
+      ...formatOwnProfileNudge(context),
+      text.pairingProfileHelp
     ].join("\n")
   }
 
-  const counterpartLines = context.counterparts.map((participant) => formatContactLine(participant))
+  const counterpartLines = context.counterparts.flatMap((participant) =>
+    formatCounterpartBlock(language, participant, context.profiles)
+  )
   const organizerBlock = context.isOrganizer
-    ? [
-      "‼️  Ты рандомно выбран организатором этой встречи",
-      "Это значит, что на этой неделе ты пишешь первым! 😉",
-      `Напиши ${formatOrganizerNoun(context.counterparts)} в Телеграм - ${formatOrganizerHandles(context.counterparts)} - сразу, чтобы не забыть.`,
-      ""
-    ]
+    ? text.pairingOrganizer(context.counterparts.length, formatOrganizerHandles(language, context.counterparts))
     : []
 
   return [
-    "Знакомься! 🎩",
-    formatGroupTitle(context.chatTitle, context.chatInviteLink, null),
+    text.pairingGreeting,
+    ...(context.calledIn ? [text.pairingStandby] : []),
+    text.groupTitle(groupLabel),
     ...(summaryLine ? [summaryLine] : []),
-    "Твоя пара на эту неделю:",
+    formatCounterpartsHeading(language, context.counterparts),
     ...counterpartLines,
     "",
-    "Чем занимается: None",
-    "Зацепки для начала разговора: None",
-    "",
+    ...formatAgreedFormat(language, context.meetingFormat),
     ...organizerBlock,
-    "Посмотреть и поменять фото или данные своего профиля ты можешь в /help",
+    ...formatOwnProfileNudge(context),
+    text.pairingProfileHelp,
     "",
-    "➪ Шпаргалка перед встречей"
+    text.pairingCheatSheet
   ].join("\n")
 }
 
-// CHANGE: format the "no updates" Telegram log line
-// WHY: centralize log text
-// QUOTE(TZ): "Telegram: no updates"
-// REF: user-2026-01-16-messages
-// SOURCE: n/a
-// FORMAT THEOREM: forall _: message != ""
-// PURITY: CORE
-// INVARIANT: message is stable
-// COMPLEXITY: O(1)/O(1)
-export const logTelegramNoUpdates = (): string => "Telegram: no updates"
-
-// CHANGE: format the Telegram updates count log line
-// WHY: centralize log text
-// QUOTE(TZ): "Telegram: received updates N"
-// REF: user-2026-01-16-messages
-// SOURCE: n/a
-// FORMAT THEOREM: forall n: message contains n
-// PURITY: CORE
-// INVARIANT: count is preserved
-// COMPLEXITY: O(1)/O(1)
-export const logTelegramReceivedUpdates = (count: number): string => `Telegram: received updates ${count}`
-
-// CHANGE: format a single Telegram update log line
-// WHY: centralize log text
-// QUOTE(TZ): "Telegram: <details>"
-// REF: user-2026-01-16-messages
-// SOURCE: n/a
-// FORMAT THEOREM: forall s: message contains s
-// PURITY: CORE
-// INVARIANT: detail is preserved
-// COMPLEXITY: O(1)/O(1)
-export const logTelegramUpdate = (detail: string): string => `Telegram: ${detail}`
-
-// CHANGE: format the state snapshot log line
-// WHY: centralize log text
-// QUOTE(TZ): "State: chats=X pollIndex=Y updateOffset=Z"
-// REF: user-2026-01-16-messages
-// SOURCE: n/a
-// FORMAT THEOREM: forall x,y,z: message contains x,y,z
-// PURITY: CORE
-// INVARIANT: counts are preserved
-// COMPLEXITY: O(1)/O(1)
-export const logStateSnapshot = (
-  chatsCount: number,
-  pollIndexCount: number,
-  updateOffset: number
-): string => `State: chats=${chatsCount} pollIndex=${pollIndexCount} updateOffset=${updateOffset}`
-
-// CHANGE: format the schedule decision log line
-// WHY: centralize log text
-// QUOTE(TZ): "Schedule: chat=... decision=..."
-// REF: user-2026-01-16-messages
-// SOURCE: n/a
-// FORMAT THEOREM: forall d: message contains d
-// PURITY: CORE
-// INVARIANT: decision text is preserved
-// COMPLEXITY: O(1)/O(1)
-export const logScheduleDecision = (
-  chatId: ChatId,
-  decision: ScheduleDecision
-): string => `Schedule: chat=${chatId} decision=${formatDecision(decision)}`
-
-const formatDecision = (decision: ScheduleDecision): string =>
-  Match.value(decision).pipe(
-    Match.when({ kind: "createPoll" }, (value) => `createPoll summary=${value.summaryDate}`),
-    Match.when({ kind: "summarize" }, (value) => `summarize summary=${value.summaryDate}`),
-    Match.when({ kind: "noop" }, () => "noop"),
-    Match.exhaustive
-  )
-
-// CHANGE: format the "no registered group chats" warning
-// WHY: centralize log text
-// QUOTE(TZ): "No registered group chats. Waiting for updates from groups."
-// REF: user-2026-01-16-messages
-// SOURCE: n/a
-// FORMAT THEOREM: forall _: message != ""
-// PURITY: CORE
-// INVARIANT: message is stable
-// COMPLEXITY: O(1)/O(1)
-export const logNoRegisteredGroupChats = (): string => "No registered group chats. Waiting for updates from groups."
-
-// CHANGE: format the poll-created log line
-// WHY: centralize log text
-// QUOTE(TZ): "Poll created for chat X with summary date Y"
-// REF: user-2026-01-16-messages
-// SOURCE: n/a
-// FORMAT THEOREM: forall c,d: message contains c,d
-// PURITY: CORE
-// INVARIANT: chat id and date are preserved
-// COMPLEXITY: O(1)/O(1)
-export const logPollCreated = (
-  chatId: ChatId,
-  summaryDate: LocalDateString
-): string => `Poll created for chat ${chatId} with summary date ${summaryDate}`
-
-// CHANGE: format the poll pin failure log line
-// WHY: report when the bot cannot pin the poll message
-// QUOTE(TZ): "кидал в закреп свой опросник всегда"
-// REF: user-2026-01-20-pin-poll
-// SOURCE: n/a
-// FORMAT THEOREM: forall c: message contains c
-// PURITY: CORE
-// INVARIANT: chat id is preserved
-// COMPLEXITY: O(1)/O(1)
-export const logPollPinFailed = (chatId: ChatId): string => `Poll pin failed for chat ${chatId}`
-
-// CHANGE: format the summary pin failure log line
-// WHY: report when the bot cannot pin the summary message
-// QUOTE(TZ): "итоги тоже есть смысл кинуть в закреп"
-// REF: user-2026-01-20-pin-summary
-// SOURCE: n/a
-// FORMAT THEOREM: forall c: message contains c
-// PURITY: CORE
-// INVARIANT: chat id is preserved
-// COMPLEXITY: O(1)/O(1)
-export const logSummaryPinFailed = (chatId: ChatId): string =>
-  `Summary pin failed for chat ${chatId}`
-
-// CHANGE: format the direct message failure log line
-// WHY: record when the bot cannot DM a participant
-// QUOTE(TZ): "если у бота есть чат с человеком"
-// REF: user-2026-01-20-direct-dm
-// SOURCE: n/a
-// FORMAT THEOREM: forall c: message contains c
-// PURITY: CORE
-// INVARIANT: chat id is preserved
-// COMPLEXITY: O(1)/O(1)
-export const logDirectMessageFailed = (chatId: ChatId): string =>
-  `Direct message failed for chat ${chatId}`
-
-// CHANGE: format the poll-closed log line
-// WHY: centralize log text
-// QUOTE(TZ): "Poll was already closed for chat X"
-// REF: user-2026-01-16-messages
-// SOURCE: n/a
-// FORMAT THEOREM: forall c: message contains c
-// PURITY: CORE
-// INVARIANT: chat id is preserved
-// COMPLEXITY: O(1)/O(1)
-export const logPollAlreadyClosed = (chatId: ChatId): string => `Poll was already closed for chat ${chatId}`
-
-// CHANGE: format the summary sent log line
-// WHY: centralize log text
-// QUOTE(TZ): "Summary pairs sent for chat X"
-// REF: user-2026-01-16-messages
-// SOURCE: n/a
-// FORMAT THEOREM: forall c: message contains c
-// PURITY: CORE
-// INVARIANT: chat id is preserved
-// COMPLEXITY: O(1)/O(1)
-export const logSummaryPairsSent = (chatId: ChatId): string => `Summary pairs sent for chat ${chatId}`
-
-// CHANGE: format a participant log label
-// WHY: centralize log text
-// QUOTE(TZ): "participant id=... username=... name=..."
-// REF: user-2026-01-16-messages
-// SOURCE: n/a
-// FORMAT THEOREM: forall p: message contains p.id
-// PURITY: CORE
-// INVARIANT: participant info is preserved
-// COMPLEXITY: O(1)/O(1)
-export const formatParticipantLog = (participant: Participant | undefined): string => {
-  if (!participant) {
-    return "participant=none"
-  }
-  const username = participant.username ? `@${participant.username}` : "-"
-  const name = participant.lastName
-    ? `${participant.firstName} ${participant.lastName}`
-    : participant.firstName
-  return `participant id=${participant.id} username=${username} name="${name}"`
-}
-
-// CHANGE: format a Telegram update log detail
-// WHY: centralize log text
-// QUOTE(TZ): "updateId=... | chatSeen ... | pollVote ... | message ..."
-// REF: user-2026-01-16-messages
-// SOURCE: n/a
-// FORMAT THEOREM: forall u: message contains u.updateId
-// PURITY: CORE
-// INVARIANT: update details are preserved
-// COMPLEXITY: O(n)/O(n)
-export const formatUpdateLog = (update: IncomingUpdate): string => {
-  const parts: Array<string> = [`updateId=${update.updateId}`]
-  if (update.chatSeen) {
-    parts.push(
-      `chatSeen chatId=${update.chatSeen.chatId} type=${update.chatSeen.chatType}`
-    )
-  }
-  if (update.pollVote) {
-    const options = `[${update.pollVote.optionIds.join(",")}]`
-    parts.push(
-      `pollVote pollId=${update.pollVote.pollId} ${
-        formatParticipantLog(update.pollVote.participant)
-      } options=${options}`
-    )
-  }
-  if (update.message) {
-    parts.push(
-      `message chatId=${update.message.chatId} type=${update.message.chatType} text="${update.message.text}"`
-    )
-  }
-  if (update.callbackQuery) {
-    parts.push(
-      `callback chatId=${update.callbackQuery.chatId} type=${update.callbackQuery.chatType} data="${update.callbackQuery.data}"`
-    )
-  }
-  return parts.join(" | ")
-}
-
 // CHANGE: format the weekly poll question in English
 // WHY: align bot UX with the requested Random Coffee wording
 // QUOTE(TZ): "Сделай все сообщения на английском языке"
@@ -767,7 +627,7 @@ export const formatUpdateLog = (update: IncomingUpdate): string => {
 // PURITY: CORE
 // INVARIANT: question is non-empty
 // COMPLEXITY: O(1)/O(1)
-export const formatPollQuestion = (): string => "Hi! Will you join Random Coffee next week? ☕️"
+export const formatPollQuestion = (language: Language): string => messages(language).pollQuestion
 
 // CHANGE: format a notice when a poll was already closed and no results exist
 // WHY: explain manual summary when the poll message is missing
@@ -778,7 +638,7 @@ export const formatPollQuestion = (): string => "Hi! Will you join Random Coffee
 // PURITY: CORE
 // INVARIANT: output is plain text safe for HTML parse mode
 // COMPLEXITY: O(1)/O(1)
-export const formatPollClosedNoResults = (): string => "The poll was already closed, so there are no results."
+export const formatPollClosedNoResults = (language: Language): string => messages(language).pollClosedNoResults
 
 // CHANGE: centralize Telegram stopPoll closed message fragments
 // WHY: keep external error message matching configurable in one place
@@ -794,62 +654,74 @@ export const stopPollClosedMessageFragments: ReadonlyArray<string> = [
   "poll to stop not found"
 ]
 
+const formatPairLine = (language: Language, pair: Pairing): string => {
+  const format = agreedMeetingFormat(pair.members)
+  return format === "any" ? formatPair(pair) : `${formatPair(pair)} · ${meetingFormatLabel(language, format)}`
+}
+
+const formatSummaryClosing = (language: Language, pairs: ReadonlyArray<Pairing>): string =>
+  pairs.some((pair) => pair.kind === "triple")
+    ? messages(language).summaryTripleClosing
+    : messages(language).summaryClosing
+
 // CHANGE: format the summary message with computed pairs
 // WHY: present a Random Coffee style summary in English
 // QUOTE(TZ): "Пары для Unicorn Embassy | Georgia 🦄 составлены!"
-// REF: user-2026-01-09-english-messages
+// REF: user-2026-01-09-english-messages, user-023-meeting-format-poll
 // SOURCE: n/a
 // FORMAT THEOREM: forall pairs: lines(summary(pairs)) = |pairs| + header
 // PURITY: CORE
-// INVARIANT: output is valid HTML when parse_mode=HTML
+// INVARIANT: output is valid HTML when parse_mode=HTML; pairs that agreed on a format show it
 // COMPLEXITY: O(n)/O(n)
 export const formatSummary = (
+  language: Language,
   chatTitle: string | null,
   pairs: ReadonlyArray<Pairing>,
   leftovers: ReadonlyArray<Participant>
 ): string => {
-  const safeTitle = chatTitle ? escapeHtml(chatTitle) : "Random Coffee"
-  const pairsBody = pairs.map((pair) => formatPair(pair)).join("\n")
+  const text = messages(language)
+  const safeTitle = chatTitle ? escapeHtml(chatTitle) : text.summaryDefaultTitle
+  const pairsBody = pairs.map((pair) => formatPairLine(language, pair)).join("\n")
   const leftoversBody = leftovers.map((participant) => formatStandalone(participant)).join("\n")
   const hasPairs = pairs.length > 0
   const hasLeftovers = leftovers.length > 0
 
   if (!hasPairs && !hasLeftovers) {
-    return `Not enough participants for ${safeTitle} this week.`
+    return text.summaryNotEnough(safeTitle)
   }
 
   if (!hasPairs && hasLeftovers) {
     return [
-      `Not enough participants to make pairs for ${safeTitle} this week.`,
+      text.summaryNoPairs(safeTitle),
       "",
-      "Signed up:",
+      text.summarySignedUp,
       leftoversBody,
       "",
-      "If you missed the poll but still want a meeting this week, please DM them."
+      text.summaryMissedPoll
     ].join("\n")
   }
 
   if (hasPairs && hasLeftovers) {
     return [
-      `Pairs for ${safeTitle} are ready!`,
+      text.summaryReady(safeTitle),
       "",
-      "Find your match for this week below:",
+      text.summaryFindMatch,
       pairsBody,
       "",
-      "No match this week:",
+      text.summaryNoMatch,
       leftoversBody,
-      "If you missed the poll but still want a meeting this week, please DM them.",
+      text.summaryMissedPoll,
       "",
-      "DM your partner to agree on a convenient time and format ☕️"
+      formatSummaryClosing(language, pairs)
     ].join("\n")
   }
 
   return [
-    `Pairs for ${safeTitle} are ready!`,
+    text.summaryReady(safeTitle),
     "",
-    "Find your match for this week below:",
+    text.summaryFindMatch,
     pairsBody,
     "",
-    "DM your partner to agree on a convenient time and format ☕️"
+    formatSummaryClosing(language, pairs)
   ].join("\n")
 }
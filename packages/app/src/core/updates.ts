@@ -1,7 +1,9 @@
 import type { ChatId, PollId } from "./brand.js"
 import type { BotState, ChatType, Participant } from "./domain.js"
-import { removeParticipant, upsertParticipant } from "./participants.js"
-import { ensureChat, setChatTitle } from "./state.js"
+import { recordEvent } from "./journal.js"
+import { votedMeetingFormat, yesNoMeetingFormats } from "./meeting-format.js"
+import { isStandbyVote } from "./standby.js"
+import { addVote, ensureChat, removeVote, setChatTitle } from "./state.js"
 import { isGroupChat } from "./telegram-commands.js"
 
 export type PollVote = {
@@ -29,6 +31,7 @@ export type CallbackQuery = {
   readonly chatId: ChatId
   readonly chatType: ChatType
   readonly data: string
+  readonly from?: Participant | undefined
   readonly messageThreadId?: number | undefined
 }
 
@@ -59,37 +62,26 @@ const applyChatSeen = (state: BotState, chatSeen: ChatSeen): BotState =>
 const applyMessage = (state: BotState, message: ChatMessage): BotState =>
   applyChatMetadata(state, message.chatId, message.chatType, message.chatTitle)
 
+// Votes for a chat whose poll is already gone are read like the original yes/no poll.
+const yesNoPoll = { joinOption: 0, formats: yesNoMeetingFormats, standbyOption: null }
+
 const applyPollVote = (state: BotState, pollVote: PollVote): BotState => {
   const chatId = state.pollIndex[pollVote.pollId]
-  if (!chatId) {
-    return state
-  }
-
-  const chat = state.chats[chatId]
-  if (!chat) {
-    return state
-  }
-
   const participant = pollVote.participant
-  if (participant === undefined) {
+  if (!chatId || participant === undefined) {
     return state
   }
-
-  const voted = pollVote.optionIds.includes(0)
-  const participants = voted
-    ? upsertParticipant(chat.participants, participant)
-    : removeParticipant(chat.participants, participant.id)
-
-  return {
-    ...state,
-    chats: {
-      ...state.chats,
-      [chatId]: {
-        ...chat,
-        participants
-      }
-    }
+  // Polls remember their own options, so changing the wording does not reinterpret a running poll.
+  const poll = state.chats[chatId]?.poll ?? yesNoPoll
+  if (isStandbyVote(poll, pollVote.optionIds)) {
+    return addVote(state, chatId, { ...participant, standby: true })
+  }
+  const meetingFormat = votedMeetingFormat(poll, pollVote.optionIds)
+  if (meetingFormat === null) {
+    return removeVote(state, chatId, participant.id)
   }
+  // Either is what a missing format means, so only a concrete format is recorded on the member.
+  return addVote(state, chatId, meetingFormat === "any" ? participant : { ...participant, meetingFormat })
 }
 
 // CHANGE: fold incoming Telegram updates into the bot state
@@ -128,8 +120,6 @@ export const applyUpdates = (
     return updated
   }
 
-  return {
-    ...updated,
-    updateOffset: maxUpdateId + 1
-  }
+  const updateOffset = maxUpdateId + 1
+  return recordEvent(updated, { ...updated, updateOffset }, { kind: "updateOffsetSet", updateOffset })
 }
@@ -12,16 +12,32 @@ const envSchema = S.Struct({
   BOT_TOKEN: S.NonEmptyString,
   BOT_TIMEZONE: S.optionalWith(S.NonEmptyString, { default: () => "UTC" }),
   BOT_DATABASE_URL: S.NonEmptyString,
-  BOT_MIGRATIONS_SCHEMA: S.optional(S.NonEmptyString)
+  BOT_MIGRATIONS_SCHEMA: S.optional(S.NonEmptyString),
+  BOT_UPDATE_MODE: S.optionalWith(S.Literal("polling", "webhook"), { default: () => "polling" as const }),
+  BOT_WEBHOOK_URL: S.optional(S.NonEmptyString),
+  BOT_WEBHOOK_SECRET: S.optional(S.String.pipe(S.pattern(/^[\w-]{1,256}$/))),
+  BOT_WEBHOOK_PORT: S.optionalWith(S.NumberFromString.pipe(S.int(), S.between(1, 65_535)), { default: () => 8080 })
 })
 
 type Env = S.Schema.Type<typeof envSchema>
 
+export type WebhookConfig = {
+  readonly url: string
+  readonly path: `/${string}`
+  readonly port: number
+  readonly secretToken: string
+}
+
+export type UpdateSource =
+  | { readonly kind: "polling" }
+  | { readonly kind: "webhook"; readonly webhook: WebhookConfig }
+
 export type Config = {
   readonly token: string
   readonly timeZone: string
   readonly databaseUrl: string
   readonly migrationsSchema?: string | undefined
+  readonly updateSource: UpdateSource
 }
 
 const toConfigError = (
@@ -78,15 +94,48 @@ const loadEnv = pipe(
   Effect.asVoid
 )
 
+// CHANGE: pick how the bot receives updates from the environment
+// WHY: long polling stays the default while production can switch to webhooks
+// QUOTE(TZ): "Config should pick the mode."
+// REF: user-011-webhook-mode
+// SOURCE: https://core.telegram.org/bots/api#setwebhook
+// FORMAT THEOREM: forall env: mode(env) = webhook -> url(env) ≠ null ∧ secret(env) ≠ null
+// PURITY: SHELL
+// EFFECT: Effect<UpdateSource, ConfigError, never>
+// INVARIANT: the webhook path is the path of the public webhook URL
+// COMPLEXITY: O(n)/O(n)
+const toUpdateSource = (env: Env): Effect.Effect<UpdateSource, ConfigError> => {
+  const url = env.BOT_WEBHOOK_URL
+  const secretToken = env.BOT_WEBHOOK_SECRET
+  if (env.BOT_UPDATE_MODE === "polling") {
+    return Effect.succeed({ kind: "polling" })
+  }
+  if (url === undefined || secretToken === undefined) {
+    return Effect.fail(
+      new ConfigError({ message: "BOT_WEBHOOK_URL and BOT_WEBHOOK_SECRET are required in webhook mode" })
+    )
+  }
+  return Effect.try({
+    try: (): UpdateSource => ({
+      kind: "webhook",
+      webhook: { url, path: `/${new URL(url).pathname.slice(1)}`, port: env.BOT_WEBHOOK_PORT, secretToken }
+    }),
+    catch: () => new ConfigError({ message: `Invalid BOT_WEBHOOK_URL: ${url}` })
+  })
+}
+
 export const loadConfig = pipe(
   loadEnv,
   Effect.flatMap(() => Effect.sync(() => process.env)),
   Effect.flatMap(S.decodeUnknown(envSchema)),
-  Effect.map((env: Env): Config => ({
-    token: env.BOT_TOKEN,
-    timeZone: env.BOT_TIMEZONE,
-    databaseUrl: env.BOT_DATABASE_URL,
-    migrationsSchema: env.BOT_MIGRATIONS_SCHEMA
-  })),
+  Effect.flatMap((env) =>
+    Effect.map(toUpdateSource(env), (updateSource): Config => ({
+      token: env.BOT_TOKEN,
+      timeZone: env.BOT_TIMEZONE,
+      databaseUrl: env.BOT_DATABASE_URL,
+      migrationsSchema: env.BOT_MIGRATIONS_SCHEMA,
+      updateSource
+    }))
+  ),
   Effect.mapError((error) => toConfigError(error instanceof Error ? error : String(error)))
 )
@@ -1,4 +1,16 @@
-import { bigint, integer, pgTable, primaryKey, text, timestamp, uniqueIndex } from "drizzle-orm/pg-core"
+import {
+  bigint,
+  bigserial,
+  boolean,
+  foreignKey,
+  integer,
+  jsonb,
+  pgTable,
+  primaryKey,
+  text,
+  timestamp,
+  uniqueIndex
+} from "drizzle-orm/pg-core"
 
 export const botMetaTable = pgTable("bot_meta", {
   id: integer("id").primaryKey(),
@@ -15,7 +27,22 @@ export const chatsTable = pgTable("chats", {
   threadId: integer("thread_id"),
   title: text("title"),
   inviteLink: text("invite_link"),
-  lastSummaryAt: text("last_summary_at")
+  lastSummaryAt: text("last_summary_at"),
+  allowTriples: boolean("allow_triples").notNull().default(false),
+  historyHalfLifeWeeks: integer("history_half_life_weeks"),
+  pollDay: text("poll_day").notNull().default("Fri"),
+  summaryDay: text("summary_day").notNull().default("Mon"),
+  pollTime: integer("poll_time").notNull().default(0),
+  summaryTime: integer("summary_time").notNull().default(0),
+  roundFrequency: text("round_frequency").notNull().default("weekly"),
+  timeZone: text("time_zone"),
+  reminderDay: text("reminder_day"),
+  language: text("language"),
+  pollQuestion: text("poll_question"),
+  // Newline-separated option labels of the custom poll wording.
+  pollOptions: text("poll_options"),
+  pollJoinOption: integer("poll_join_option"),
+  mode: text("mode").notNull().default("poll")
 })
 
 export const pollsTable = pgTable(
@@ -25,7 +52,12 @@ export const pollsTable = pgTable(
     chatId: text("chat_id").notNull().references(() => chatsTable.chatId),
     messageId: integer("message_id").notNull(),
     summaryDate: text("summary_date").notNull(),
-    threadId: integer("thread_id")
+    threadId: integer("thread_id"),
+    joinOption: integer("join_option").notNull().default(0),
+    // Comma-separated formats of the sign-up options, in option order.
+    meetingFormats: text("meeting_formats").notNull().default("any"),
+    // Index of the standby option; null when the poll has none.
+    standbyOption: integer("standby_option")
   },
   (table) => [
     uniqueIndex("polls_chat_id_unique").on(table.chatId)
@@ -39,7 +71,9 @@ export const participantsTable = pgTable(
     userId: bigint("user_id", { mode: "number" }).notNull(),
     firstName: text("first_name").notNull(),
     lastName: text("last_name"),
-    username: text("username")
+    username: text("username"),
+    meetingFormat: text("meeting_format"),
+    standby: boolean("standby").notNull().default(false)
   },
   (table) => [
     primaryKey({ columns: [table.chatId, table.userId] })
@@ -50,7 +84,21 @@ export const profilesTable = pgTable(
   "profiles",
   {
     userId: bigint("user_id", { mode: "number" }).notNull().primaryKey(),
-    text: text("text").notNull()
+    about: text("about"),
+    occupation: text("occupation"),
+    interests: text("interests"),
+    hooks: text("hooks"),
+    city: text("city"),
+    languages: text("languages"),
+    meetingFormat: text("meeting_format")
+  }
+)
+
+export const userLanguagesTable = pgTable(
+  "user_languages",
+  {
+    userId: bigint("user_id", { mode: "number" }).notNull().primaryKey(),
+    language: text("language").notNull()
   }
 )
 
@@ -59,16 +107,122 @@ export const pairHistoryTable = pgTable(
   {
     chatId: text("chat_id").notNull().references(() => chatsTable.chatId),
     pairKey: text("pair_key").notNull(),
+    metOn: text("met_on").notNull(),
     count: integer("count").notNull()
   },
   (table) => [
-    primaryKey({ columns: [table.chatId, table.pairKey] })
+    primaryKey({ columns: [table.chatId, table.pairKey, table.metOn] })
+  ]
+)
+
+export const pairExclusionsTable = pgTable(
+  "pair_exclusions",
+  {
+    chatId: text("chat_id").notNull().references(() => chatsTable.chatId),
+    requesterId: bigint("requester_id", { mode: "number" }).notNull(),
+    excludedId: bigint("excluded_id", { mode: "number" }).notNull(),
+    excludedFirstName: text("excluded_first_name").notNull(),
+    excludedLastName: text("excluded_last_name"),
+    excludedUsername: text("excluded_username")
+  },
+  (table) => [
+    primaryKey({ columns: [table.chatId, table.requesterId, table.excludedId] })
+  ]
+)
+
+export const subscriptionsTable = pgTable(
+  "subscriptions",
+  {
+    chatId: text("chat_id").notNull().references(() => chatsTable.chatId),
+    userId: bigint("user_id", { mode: "number" }).notNull(),
+    firstName: text("first_name").notNull(),
+    lastName: text("last_name"),
+    username: text("username"),
+    // Comma-separated summary dates of the rounds the member sits out.
+    skippedDates: text("skipped_dates").notNull().default("")
+  },
+  (table) => [
+    primaryKey({ columns: [table.chatId, table.userId] })
+  ]
+)
+
+export const roundsTable = pgTable(
+  "rounds",
+  {
+    chatId: text("chat_id").notNull().references(() => chatsTable.chatId),
+    roundIndex: integer("round_index").notNull(),
+    summaryDate: text("summary_date").notNull(),
+    feedbackRequested: boolean("feedback_requested").notNull().default(false),
+    reminderSent: boolean("reminder_sent").notNull().default(false)
+  },
+  (table) => [
+    primaryKey({ columns: [table.chatId, table.roundIndex] })
   ]
 )
 
+export const roundMembersTable = pgTable(
+  "round_members",
+  {
+    chatId: text("chat_id").notNull(),
+    roundIndex: integer("round_index").notNull(),
+    userId: bigint("user_id", { mode: "number" }).notNull(),
+    position: integer("position").notNull(),
+    groupIndex: integer("group_index"),
+    role: text("role").notNull(),
+    // Only the organizer row records whether the group's meeting has been arranged.
+    arranged: boolean("arranged").notNull().default(false),
+    firstName: text("first_name").notNull(),
+    lastName: text("last_name"),
+    username: text("username"),
+    meetingFormat: text("meeting_format")
+  },
+  (table) => [
+    primaryKey({ columns: [table.chatId, table.roundIndex, table.userId] }),
+    foreignKey({
+      columns: [table.chatId, table.roundIndex],
+      foreignColumns: [roundsTable.chatId, roundsTable.roundIndex]
+    })
+  ]
+)
+
+export const roundFeedbackTable = pgTable(
+  "round_feedback",
+  {
+    chatId: text("chat_id").notNull(),
+    roundIndex: integer("round_index").notNull(),
+    userId: bigint("user_id", { mode: "number" }).notNull(),
+    met: boolean("met").notNull(),
+    rating: text("rating"),
+    comment: text("comment")
+  },
+  (table) => [
+    primaryKey({ columns: [table.chatId, table.roundIndex, table.userId] }),
+    foreignKey({
+      columns: [table.chatId, table.roundIndex, table.userId],
+      foreignColumns: [roundMembersTable.chatId, roundMembersTable.roundIndex, roundMembersTable.userId]
+    })
+  ]
+)
+
+export const eventsTable = pgTable("events", {
+  id: bigserial("id", { mode: "number" }).primaryKey(),
+  recordedAt: timestamp("recorded_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+  kind: text("kind").notNull(),
+  payload: jsonb("payload").notNull()
+})
+
 export type BotMetaRow = typeof botMetaTable.$inferSelect
 export type ChatRow = typeof chatsTable.$inferSelect
 export type PollRow = typeof pollsTable.$inferSelect
 export type ParticipantRow = typeof participantsTable.$inferSelect
 export type ProfileRow = typeof profilesTable.$inferSelect
+export type UserLanguageRow = typeof userLanguagesTable.$inferSelect
 export type PairHistoryRow = typeof pairHistoryTable.$inferSelect
+export type PairExclusionRow = typeof pairExclusionsTable.$inferSelect
+export type SubscriptionRow = typeof subscriptionsTable.$inferSelect
+export type RoundRow = typeof roundsTable.$inferSelect
+export type RoundMemberRow = typeof roundMembersTable.$inferSelect
+export type RoundFeedbackRow = typeof roundFeedbackTable.$inferSelect
+export type EventRow = typeof eventsTable.$inferSelect
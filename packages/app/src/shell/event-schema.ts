@@ -0,0 +1,228 @@
+import { Schema } from "effect"
+
+import type { ChatId, LocalDateString, MessageId, PollId, RngSeed, UserId } from "../core/brand.js"
+
+// Stored payloads were written by the bot itself, so brands only check the primitive type.
+const ChatIdSchema = Schema.declare((input): input is ChatId => typeof input === "string")
+const PollIdSchema = Schema.declare((input): input is PollId => typeof input === "string")
+const LocalDateSchema = Schema.declare((input): input is LocalDateString => typeof input === "string")
+const UserIdSchema = Schema.declare((input): input is UserId => typeof input === "number")
+const MessageIdSchema = Schema.declare((input): input is MessageId => typeof input === "number")
+const RngSeedSchema = Schema.declare((input): input is RngSeed => typeof input === "number")
+
+const NullableString = Schema.NullOr(Schema.String)
+
+const Weekday = Schema.Literal("Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun")
+
+const MeetingFormat = Schema.Literal("offline", "online", "any")
+
+const Language = Schema.Literal("en", "ru")
+
+const Participant = Schema.Struct({
+  id: UserIdSchema,
+  firstName: Schema.String,
+  lastName: Schema.optional(Schema.String),
+  username: Schema.optional(Schema.String),
+  meetingFormat: Schema.optional(MeetingFormat),
+  standby: Schema.optional(Schema.Boolean)
+})
+
+const ProfileFields = Schema.Struct({
+  occupation: NullableString,
+  interests: NullableString,
+  hooks: NullableString,
+  city: NullableString,
+  languages: NullableString,
+  meetingFormat: Schema.NullOr(MeetingFormat)
+})
+
+const UserProfile = Schema.Struct({
+  ...ProfileFields.fields,
+  userId: UserIdSchema,
+  about: NullableString
+})
+
+const ProfileDraft = Schema.Struct({
+  step: Schema.Literal("occupation", "interests", "hooks", "city", "languages", "meetingFormat"),
+  fields: ProfileFields
+})
+
+const PollState = Schema.Struct({
+  pollId: PollIdSchema,
+  messageId: MessageIdSchema,
+  chatId: ChatIdSchema,
+  summaryDate: LocalDateSchema,
+  threadId: Schema.NullOr(Schema.Number),
+  // Polls logged before custom wordings always signed members up with the first option.
+  joinOption: Schema.optionalWith(Schema.Number, { default: () => 0 }),
+  // Polls logged before format choices were yes/no polls.
+  formats: Schema.optionalWith(Schema.Array(MeetingFormat), { default: () => ["any"] }),
+  // Polls logged before standby sign-ups had no standby option.
+  standbyOption: Schema.optionalWith(Schema.NullOr(Schema.Number), { default: () => null })
+})
+
+const PollWording = Schema.Struct({
+  question: Schema.String,
+  options: Schema.Array(Schema.String),
+  joinOption: Schema.Number
+})
+
+const Exclusion = Schema.Struct({
+  requesterId: UserIdSchema,
+  excluded: Participant
+})
+
+const Subscription = Schema.Struct({
+  participant: Participant,
+  skippedDates: Schema.Array(LocalDateSchema)
+})
+
+const ChatMode = Schema.Literal("poll", "subscription")
+
+const WeeklySchedule = Schema.Struct({ pollDay: Weekday, summaryDay: Weekday })
+
+const ScheduleTimes = Schema.Struct({ pollTime: Schema.Number, summaryTime: Schema.Number })
+
+const RoundFrequency = Schema.Literal("weekly", "biweekly", "monthly")
+
+const FeedbackAnswer = Schema.Struct({
+  userId: UserIdSchema,
+  met: Schema.Boolean,
+  rating: Schema.NullOr(Schema.Literal("great", "ok", "bad")),
+  comment: NullableString
+})
+
+const RoundTarget = Schema.Struct({ chatId: ChatIdSchema, roundIndex: Schema.Number })
+
+// Rounds archived before the feedback survey existed carry no answers.
+const RoundFeedback = Schema.optionalWith(Schema.Array(FeedbackAnswer), { default: () => [] })
+
+// Rounds archived before organizer reminders existed were never reminded or confirmed.
+const NotYet = Schema.optionalWith(Schema.Boolean, { default: () => false })
+
+const RoundGroup = Schema.Union(
+  Schema.Struct({
+    kind: Schema.Literal("pair"),
+    members: Schema.Tuple(Participant, Participant),
+    organizerId: UserIdSchema,
+    feedback: RoundFeedback,
+    arranged: NotYet
+  }),
+  Schema.Struct({
+    kind: Schema.Literal("triple"),
+    members: Schema.Tuple(Participant, Participant, Participant),
+    organizerId: UserIdSchema,
+    feedback: RoundFeedback,
+    arranged: NotYet
+  })
+)
+
+const RoundRecord = Schema.Struct({
+  summaryDate: LocalDateSchema,
+  groups: Schema.Array(RoundGroup),
+  leftovers: Schema.Array(Participant),
+  feedbackRequested: NotYet,
+  reminderSent: NotYet
+})
+
+const ChatState = Schema.Struct({
+  poll: Schema.NullOr(PollState),
+  participants: Schema.Record({ key: Schema.String, value: Participant }),
+  history: Schema.Record({ key: Schema.String, value: Schema.Array(LocalDateSchema) }),
+  seed: RngSeedSchema,
+  threadId: Schema.NullOr(Schema.Number),
+  title: NullableString,
+  inviteLink: NullableString,
+  lastSummaryAt: Schema.NullOr(LocalDateSchema),
+  allowTriples: Schema.Boolean,
+  historyHalfLifeWeeks: Schema.NullOr(Schema.Number),
+  exclusions: Schema.Record({ key: Schema.String, value: Exclusion }),
+  schedule: WeeklySchedule,
+  scheduleTimes: ScheduleTimes,
+  roundFrequency: RoundFrequency,
+  timeZone: NullableString,
+  reminderDay: Schema.optionalWith(Schema.NullOr(Weekday), { default: () => null }),
+  language: Schema.optionalWith(Schema.NullOr(Language), { default: () => null }),
+  pollWording: Schema.optionalWith(Schema.NullOr(PollWording), { default: () => null }),
+  // Chats logged before subscription mode always ran weekly polls.
+  mode: Schema.optionalWith(ChatMode, { default: () => "poll" }),
+  subscriptions: Schema.optionalWith(Schema.Record({ key: Schema.String, value: Subscription }), {
+    default: () => ({})
+  }),
+  // Baselines written before the round archive existed carry no rounds.
+  rounds: Schema.optionalWith(Schema.Array(RoundRecord), { default: () => [] })
+})
+
+const BotState = Schema.Struct({
+  chats: Schema.Record({ key: Schema.String, value: ChatState }),
+  pollIndex: Schema.Record({ key: Schema.String, value: ChatIdSchema }),
+  updateOffset: Schema.Number,
+  seed: RngSeedSchema,
+  profiles: Schema.Record({ key: Schema.String, value: UserProfile }),
+  pendingProfileEdits: Schema.Record({ key: Schema.String, value: ProfileDraft }),
+  pendingFeedbackComments: Schema.optionalWith(Schema.Record({ key: Schema.String, value: RoundTarget }), {
+    default: () => ({})
+  }),
+  userLanguages: Schema.optionalWith(Schema.Record({ key: Schema.String, value: Language }), {
+    default: () => ({})
+  }),
+  // Baselines are written from saved states, whose journal is always empty.
+  journal: Schema.optionalWith(Schema.Tuple(), { default: () => [] as const })
+})
+
+const chatEvent = <Kind extends string, Fields extends Schema.Struct.Fields>(kind: Kind, fields: Fields) =>
+  Schema.Struct({ kind: Schema.Literal(kind), chatId: ChatIdSchema, ...fields })
+
+// CHANGE: describe stored event payloads as a schema
+// WHY: the replay tool must reject rows that no longer match the event types
+// QUOTE(TZ): "appended as a typed event to an `events` table"
+// REF: user-014-event-log
+// SOURCE: n/a
+// FORMAT THEOREM: forall e: decode(json(e)) = e
+// PURITY: SHELL
+// INVARIANT: every BotEvent kind has exactly one member in the union
+// COMPLEXITY: O(n)/O(n)
+export const BotEventSchema = Schema.Union(
+  Schema.Struct({ kind: Schema.Literal("baseline"), state: BotState }),
+  Schema.Struct({ kind: Schema.Literal("updateOffsetSet"), updateOffset: Schema.Number }),
+  Schema.Struct({ kind: Schema.Literal("profileSet"), profile: UserProfile }),
+  Schema.Struct({
+    kind: Schema.Literal("userLanguageSet"),
+    userId: UserIdSchema,
+    language: Schema.NullOr(Language)
+  }),
+  chatEvent("commandReceived", { userId: UserIdSchema, text: Schema.String }),
+  chatEvent("chatAdded", { seed: RngSeedSchema }),
+  chatEvent("chatTitleSet", { title: Schema.String }),
+  chatEvent("threadIdSet", { threadId: Schema.NullOr(Schema.Number) }),
+  chatEvent("inviteLinkSet", { inviteLink: NullableString }),
+  chatEvent("allowTriplesSet", { allowTriples: Schema.Boolean }),
+  chatEvent("historyHalfLifeSet", { historyHalfLifeWeeks: Schema.NullOr(Schema.Number) }),
+  chatEvent("weeklyScheduleSet", { schedule: WeeklySchedule }),
+  chatEvent("scheduleTimesSet", { scheduleTimes: ScheduleTimes }),
+  chatEvent("roundFrequencySet", { roundFrequency: RoundFrequency }),
+  chatEvent("timeZoneSet", { timeZone: NullableString }),
+  chatEvent("reminderDaySet", { reminderDay: Schema.NullOr(Weekday) }),
+  chatEvent("chatLanguageSet", { language: Schema.NullOr(Language) }),
+  chatEvent("pollWordingSet", { pollWording: Schema.NullOr(PollWording) }),
+  chatEvent("chatModeSet", { mode: ChatMode }),
+  chatEvent("exclusionAdded", { exclusion: Exclusion }),
+  chatEvent("exclusionRemoved", { requesterId: UserIdSchema, excludedId: UserIdSchema }),
+  chatEvent("subscriptionSet", { subscription: Subscription }),
+  chatEvent("subscriptionRemoved", { userId: UserIdSchema }),
+  chatEvent("pollStarted", { poll: PollState }),
+  chatEvent("voteAdded", { participant: Participant }),
+  chatEvent("voteRemoved", { userId: UserIdSchema }),
+  chatEvent("summaryApplied", { round: RoundRecord, seed: RngSeedSchema, pairingSeed: RngSeedSchema }),
+  chatEvent("pollFinished", {}),
+  chatEvent("feedbackRequested", { roundIndex: Schema.Number }),
+  chatEvent("feedbackRecorded", { roundIndex: Schema.Number, answer: FeedbackAnswer }),
+  chatEvent("reminderSent", { roundIndex: Schema.Number }),
+  chatEvent("meetingArranged", { roundIndex: Schema.Number, userId: UserIdSchema }),
+  chatEvent("roundRematched", {
+    roundIndex: Schema.Number,
+    round: RoundRecord,
+    seed: RngSeedSchema,
+    pairingSeed: RngSeedSchema
+  })
+)
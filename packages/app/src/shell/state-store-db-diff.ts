@@ -0,0 +1,322 @@
+import type { BotState, PollState } from "../core/domain.js"
+import { storedMeetingFormats } from "../core/meeting-format.js"
+import { storedPollOptions } from "../core/poll-wording.js"
+import { buildRoundRows, type RoundPersistRows } from "./state-store-db-rounds.js"
+import { buildSubscriptionRows, type SubscriptionPersistRows } from "./state-store-db-subscriptions.js"
+
+export type PersistRows = RoundPersistRows & SubscriptionPersistRows & {
+  chatRows: Array<{
+    chatId: string
+    seed: number
+    threadId: number | null
+    title: string | null
+    inviteLink: string | null
+    lastSummaryAt: string | null
+    allowTriples: boolean
+    historyHalfLifeWeeks: number | null
+    pollDay: string
+    summaryDay: string
+    pollTime: number
+    summaryTime: number
+    roundFrequency: string
+    timeZone: string | null
+    reminderDay: string | null
+    language: string | null
+    pollQuestion: string | null
+    pollOptions: string | null
+    pollJoinOption: number | null
+    mode: string
+  }>
+  pollRows: Array<{
+    pollId: string
+    chatId: string
+    messageId: number
+    summaryDate: string
+    threadId: number | null
+    joinOption: number
+    meetingFormats: string
+    standbyOption: number | null
+  }>
+  participantRows: Array<{
+    chatId: string
+    userId: number
+    firstName: string
+    lastName: string | null
+    username: string | null
+    meetingFormat: string | null
+    standby: boolean
+  }>
+  profileRows: Array<{
+    userId: number
+    about: string | null
+    occupation: string | null
+    interests: string | null
+    hooks: string | null
+    city: string | null
+    languages: string | null
+    meetingFormat: string | null
+  }>
+  userLanguageRows: Array<{
+    userId: number
+    language: string
+  }>
+  historyRows: Array<{
+    chatId: string
+    pairKey: string
+    metOn: string
+    count: number
+  }>
+  exclusionRows: Array<{
+    chatId: string
+    requesterId: number
+    excludedId: number
+    excludedFirstName: string
+    excludedLastName: string | null
+    excludedUsername: string | null
+  }>
+  metaRow: {
+    id: number
+    updateOffset: number
+    seed: number
+    updatedAt: Date
+  }
+}
+
+const buildChatRows = (state: BotState): PersistRows["chatRows"] =>
+  Object.entries(state.chats).map(([chatId, chat]) => ({
+    chatId,
+    seed: chat.seed,
+    threadId: chat.threadId,
+    title: chat.title,
+    inviteLink: chat.inviteLink,
+    lastSummaryAt: chat.lastSummaryAt,
+    allowTriples: chat.allowTriples,
+    historyHalfLifeWeeks: chat.historyHalfLifeWeeks,
+    pollDay: chat.schedule.pollDay,
+    summaryDay: chat.schedule.summaryDay,
+    pollTime: chat.scheduleTimes.pollTime,
+    summaryTime: chat.scheduleTimes.summaryTime,
+    roundFrequency: chat.roundFrequency,
+    timeZone: chat.timeZone,
+    reminderDay: chat.reminderDay,
+    language: chat.language,
+    pollQuestion: chat.pollWording?.question ?? null,
+    pollOptions: storedPollOptions(chat.pollWording),
+    pollJoinOption: chat.pollWording?.joinOption ?? null,
+    mode: chat.mode
+  }))
+
+const buildPollRows = (state: BotState): PersistRows["pollRows"] =>
+  Object.values(state.chats)
+    .map((chat) => chat.poll)
+    .filter((poll): poll is PollState => poll !== null)
+    .map((poll) => ({
+      pollId: poll.pollId,
+      chatId: poll.chatId,
+      messageId: poll.messageId,
+      summaryDate: poll.summaryDate,
+      threadId: poll.threadId,
+      joinOption: poll.joinOption,
+      meetingFormats: storedMeetingFormats(poll.formats),
+      standbyOption: poll.standbyOption
+    }))
+
+const buildParticipantRows = (state: BotState): PersistRows["participantRows"] =>
+  Object.entries(state.chats).flatMap(([chatId, chat]) =>
+    Object.values(chat.participants).map((participant) => ({
+      chatId,
+      userId: participant.id,
+      firstName: participant.firstName,
+      lastName: participant.lastName ?? null,
+      username: participant.username ?? null,
+      meetingFormat: participant.meetingFormat ?? null,
+      standby: participant.standby ?? false
+    }))
+  )
+
+const countByDate = (dates: ReadonlyArray<string>): ReadonlyArray<readonly [string, number]> => {
+  const counts = new Map<string, number>()
+  for (const date of dates) {
+    counts.set(date, (counts.get(date) ?? 0) + 1)
+  }
+  return [...counts.entries()]
+}
+
+const buildHistoryRows = (state: BotState): PersistRows["historyRows"] =>
+  Object.entries(state.chats).flatMap(([chatId, chat]) =>
+    Object.entries(chat.history).flatMap(([pairKey, dates]) =>
+      countByDate(dates).map(([metOn, count]) => ({
+        chatId,
+        pairKey,
+        metOn,
+        count
+      }))
+    )
+  )
+
+const buildExclusionRows = (state: BotState): PersistRows["exclusionRows"] =>
+  Object.entries(state.chats).flatMap(([chatId, chat]) =>
+    Object.values(chat.exclusions).map((exclusion) => ({
+      chatId,
+      requesterId: exclusion.requesterId,
+      excludedId: exclusion.excluded.id,
+      excludedFirstName: exclusion.excluded.firstName,
+      excludedLastName: exclusion.excluded.lastName ?? null,
+      excludedUsername: exclusion.excluded.username ?? null
+    }))
+  )
+
+// CHANGE: flatten bot state into table rows
+// WHY: both the full rewrite and the incremental diff work on the same rows
+// QUOTE(TZ): "Да реализуй нормальные схемы. Всё типизируй"
+// REF: user-2026-01-16-normalized-db
+// SOURCE: n/a
+// FORMAT THEOREM: ∀s: load(rows(s)) = s
+// PURITY: CORE
+// INVARIANT: every row references an existing chat row
+// COMPLEXITY: O(n)/O(n)
+export const buildPersistRows = (
+  state: BotState,
+  metaRowId: number
+): PersistRows => {
+  const chatRows = buildChatRows(state)
+  const pollRows = buildPollRows(state)
+  const participantRows = buildParticipantRows(state)
+  const profileRows = Object.values(state.profiles).map((profile) => ({
+    userId: profile.userId,
+    about: profile.about,
+    occupation: profile.occupation,
+    interests: profile.interests,
+    hooks: profile.hooks,
+    city: profile.city,
+    languages: profile.languages,
+    meetingFormat: profile.meetingFormat
+  }))
+  const userLanguageRows = Object.entries(state.userLanguages).map(([userId, language]) => ({
+    userId: Number(userId),
+    language
+  }))
+  const historyRows = buildHistoryRows(state)
+  const exclusionRows = buildExclusionRows(state)
+  const metaRow = {
+    id: metaRowId,
+    updateOffset: state.updateOffset,
+    seed: state.seed,
+    updatedAt: new Date()
+  }
+
+  return {
+    chatRows,
+    pollRows,
+    participantRows,
+    profileRows,
+    userLanguageRows,
+    historyRows,
+    exclusionRows,
+    ...buildSubscriptionRows(state),
+    ...buildRoundRows(state),
+    metaRow
+  }
+}
+
+type RowValue = string | number | boolean | null
+
+type Row = Readonly<Record<string, RowValue>>
+
+type TableRows = Omit<PersistRows, "metaRow">
+
+export type TableDiff<R> = {
+  readonly upserts: Array<R>
+  readonly deletes: Array<R>
+}
+
+export type PersistDiff = { readonly [K in keyof TableRows]: TableDiff<TableRows[K][number]> }
+
+type RowKeys = { readonly [K in keyof TableRows]: (row: TableRows[K][number]) => string }
+
+// CHANGE: name the primary key of every persisted table
+// WHY: rows are matched by key to decide between update, insert and delete
+// QUOTE(TZ): "upserts or deletes only the changed chats, participants, profiles and history rows"
+// REF: user-013-incremental-persistence
+// SOURCE: n/a
+// FORMAT THEOREM: ∀a,b: key(a) = key(b) ⇔ pk(a) = pk(b)
+// PURITY: CORE
+// INVARIANT: keys mirror the primary keys in db/schema.ts
+// COMPLEXITY: O(1)/O(1)
+export const rowKeys: RowKeys = {
+  chatRows: (row) => row.chatId,
+  pollRows: (row) => row.pollId,
+  participantRows: (row) => JSON.stringify([row.chatId, row.userId]),
+  profileRows: (row) => `${row.userId}`,
+  userLanguageRows: (row) => `${row.userId}`,
+  historyRows: (row) => JSON.stringify([row.chatId, row.pairKey, row.metOn]),
+  exclusionRows: (row) => JSON.stringify([row.chatId, row.requesterId, row.excludedId]),
+  subscriptionRows: (row) => JSON.stringify([row.chatId, row.userId]),
+  roundRows: (row) => JSON.stringify([row.chatId, row.roundIndex]),
+  roundMemberRows: (row) => JSON.stringify([row.chatId, row.roundIndex, row.userId]),
+  roundFeedbackRows: (row) => JSON.stringify([row.chatId, row.roundIndex, row.userId])
+}
+
+const sameRow = (left: Row, right: Row): boolean =>
+  Object.keys(left).length === Object.keys(right).length &&
+  Object.entries(left).every(([column, value]) => right[column] === value)
+
+const diffTable = <R extends Row>(
+  previous: ReadonlyArray<R>,
+  next: ReadonlyArray<R>,
+  keyOf: (row: R) => string
+): TableDiff<R> => {
+  const previousByKey = new Map(previous.map((row) => [keyOf(row), row]))
+  const nextKeys = new Set(next.map((row) => keyOf(row)))
+  return {
+    upserts: next.filter((row) => {
+      const old = previousByKey.get(keyOf(row))
+      return old === undefined || !sameRow(old, row)
+    }),
+    deletes: previous.filter((row) => !nextKeys.has(keyOf(row)))
+  }
+}
+
+// CHANGE: compute the rows to write and remove between two persisted states
+// WHY: rewriting every table on each save does not scale with the number of chats
+// QUOTE(TZ): "We want diff-based persistence that upserts or deletes only the changed chats, participants, profiles and history rows"
+// REF: user-013-incremental-persistence
+// SOURCE: n/a
+// FORMAT THEOREM: ∀p,n: apply(p, diff(p,n)) = n
+// PURITY: CORE
+// INVARIANT: unchanged rows appear in neither list
+// COMPLEXITY: O(n)/O(n)
+export const diffPersistRows = (previous: TableRows, next: TableRows): PersistDiff => ({
+  chatRows: diffTable(previous.chatRows, next.chatRows, rowKeys.chatRows),
+  pollRows: diffTable(previous.pollRows, next.pollRows, rowKeys.pollRows),
+  participantRows: diffTable(previous.participantRows, next.participantRows, rowKeys.participantRows),
+  profileRows: diffTable(previous.profileRows, next.profileRows, rowKeys.profileRows),
+  userLanguageRows: diffTable(previous.userLanguageRows, next.userLanguageRows, rowKeys.userLanguageRows),
+  historyRows: diffTable(previous.historyRows, next.historyRows, rowKeys.historyRows),
+  exclusionRows: diffTable(previous.exclusionRows, next.exclusionRows, rowKeys.exclusionRows),
+  subscriptionRows: diffTable(previous.subscriptionRows, next.subscriptionRows, rowKeys.subscriptionRows),
+  roundRows: diffTable(previous.roundRows, next.roundRows, rowKeys.roundRows),
+  roundMemberRows: diffTable(previous.roundMemberRows, next.roundMemberRows, rowKeys.roundMemberRows),
+  roundFeedbackRows: diffTable(previous.roundFeedbackRows, next.roundFeedbackRows, rowKeys.roundFeedbackRows)
+})
+
+// CHANGE: name the tables whose rows differ between two states
+// WHY: the replay check compares exactly what the snapshot stores
+// QUOTE(TZ): "checks it matches the stored snapshot"
+// REF: user-014-event-log
+// SOURCE: n/a
+// FORMAT THEOREM: ∀a,b: differing(a,b) = [] ⇔ rows(a) = rows(b)
+// PURITY: CORE
+// INVARIANT: the meta row is compared without its write timestamp
+// COMPLEXITY: O(n)/O(n)
+export const differingTables = (left: BotState, right: BotState): ReadonlyArray<string> => {
+  const leftRows = buildPersistRows(left, 0)
+  const rightRows = buildPersistRows(right, 0)
+  const diff = diffPersistRows(leftRows, rightRows)
+  const tables = Object.entries(diff)
+    .filter(([, table]) => table.upserts.length > 0 || table.deletes.length > 0)
+    .map(([name]) => name)
+  const metaDiffers = leftRows.metaRow.seed !== rightRows.metaRow.seed ||
+    leftRows.metaRow.updateOffset !== rightRows.metaRow.updateOffset
+  return metaDiffers ? [...tables, "metaRow"] : tables
+}
@@ -0,0 +1,74 @@
+import { asc } from "drizzle-orm"
+import { Effect, pipe, Schema } from "effect"
+
+import type { BotEvent } from "../core/events.js"
+import { eventsTable } from "./db/schema.js"
+import type { DrizzleDatabase } from "./drizzle.js"
+import { BotEventSchema } from "./event-schema.js"
+import type { DbRunner, DrizzleTransaction } from "./state-store-db-runner.js"
+import { runQuery, runWhen } from "./state-store-db-runner.js"
+
+type ErrorHandler<E> = (error: Error | string) => E
+
+const decodeEvent = Schema.decodeUnknown(BotEventSchema)
+
+// CHANGE: append events to the audit log
+// WHY: events are written in the same transaction as the snapshot they lead to
+// QUOTE(TZ): "We want every pure transition to be appended as a typed event to an `events` table"
+// REF: user-014-event-log
+// SOURCE: n/a
+// FORMAT THEOREM: forall es: log' = log ++ es
+// PURITY: SHELL
+// EFFECT: Effect<void, E>
+// INVARIANT: an empty batch issues no query
+// COMPLEXITY: O(n)/O(n)
+export const appendEvents = <E>(
+  tx: DrizzleTransaction | DrizzleDatabase,
+  runDb: DbRunner<E>,
+  events: ReadonlyArray<BotEvent>
+): Effect.Effect<void, E> =>
+  runWhen(
+    events.length > 0,
+    () => runQuery(runDb, tx.insert(eventsTable).values(events.map((event) => ({ kind: event.kind, payload: event }))))
+  )
+
+// CHANGE: check whether the audit log has any entry
+// WHY: a log that starts after an existing snapshot needs a baseline event first
+// QUOTE(TZ): "a replay tool that rebuilds `BotState` from the events"
+// REF: user-014-event-log
+// SOURCE: n/a
+// FORMAT THEOREM: forall db: hasEvents(db) ⇔ |log| > 0
+// PURITY: SHELL
+// EFFECT: Effect<boolean, E>
+// INVARIANT: reads at most one row
+// COMPLEXITY: O(1)/O(1)
+export const hasEvents = <E>(db: DrizzleDatabase, runDb: DbRunner<E>): Effect.Effect<boolean, E> =>
+  pipe(
+    runDb(() => db.select({ id: eventsTable.id }).from(eventsTable).limit(1)),
+    Effect.map((rows) => rows.length > 0)
+  )
+
+// CHANGE: read the whole audit log in append order
+// WHY: replay folds events in the order they were committed
+// QUOTE(TZ): "a replay tool that rebuilds `BotState` from the events"
+// REF: user-014-event-log
+// SOURCE: n/a
+// FORMAT THEOREM: forall db: load(db) = log in id order
+// PURITY: SHELL
+// EFFECT: Effect<ReadonlyArray<BotEvent>, E>
+// INVARIANT: a payload that does not decode fails the whole load
+// COMPLEXITY: O(n)/O(n)
+export const loadEvents = <E>(
+  db: DrizzleDatabase,
+  runDb: DbRunner<E>,
+  onError: ErrorHandler<E>
+): Effect.Effect<ReadonlyArray<BotEvent>, E> =>
+  pipe(
+    runDb(() => db.select().from(eventsTable).orderBy(asc(eventsTable.id))),
+    Effect.flatMap(Effect.forEach((row) =>
+      pipe(
+        decodeEvent(row.payload),
+        Effect.mapError((error) => onError(`Invalid event ${row.id}: ${error.message}`))
+      )
+    ))
+  )
@@ -1,123 +1,36 @@
 import { Effect, pipe } from "effect"
 
-import type { BotState, PollState } from "../core/domain.js"
+import type { BotState } from "../core/domain.js"
+import type { BotEvent } from "../core/events.js"
 import {
   botMetaTable,
   chatsTable,
+  pairExclusionsTable,
   pairHistoryTable,
   participantsTable,
   pollsTable,
-  profilesTable
+  profilesTable,
+  roundFeedbackTable,
+  roundMembersTable,
+  roundsTable,
+  subscriptionsTable,
+  userLanguagesTable
 } from "./db/schema.js"
 import type { DrizzleDatabase } from "./drizzle.js"
+import { buildPersistRows, diffPersistRows, type PersistRows } from "./state-store-db-diff.js"
+import { appendEvents } from "./state-store-db-events.js"
 import type { DbRunner, DrizzleTransaction } from "./state-store-db-runner.js"
-import { makeDbRunner, runInTransaction } from "./state-store-db-runner.js"
+import { makeDbRunner, runInTransaction, runQuery, runWhen } from "./state-store-db-runner.js"
+import { syncChangedRows } from "./state-store-db-sync.js"
 
 type ErrorHandler<E> = (error: Error | string) => E
 
-type PersistRows = {
-  chatRows: Array<{
-    chatId: string
-    seed: number
-    threadId: number | null
-    title: string | null
-    inviteLink: string | null
-    lastSummaryAt: string | null
-  }>
-  pollRows: Array<{
-    pollId: string
-    chatId: string
-    messageId: number
-    summaryDate: string
-    threadId: number | null
-  }>
-  participantRows: Array<{
-    chatId: string
-    userId: number
-    firstName: string
-    lastName: string | null
-    username: string | null
-  }>
-  profileRows: Array<{
-    userId: number
-    text: string
-  }>
-  historyRows: Array<{
-    chatId: string
-    pairKey: string
-    count: number
-  }>
-  metaRow: {
-    id: number
-    updateOffset: number
-    seed: number
-    updatedAt: Date
-  }
-}
-
 type PersistOperationArgs<E> = {
   readonly tx: DrizzleTransaction
   readonly runDb: DbRunner<E>
   readonly rows: PersistRows
 }
 
-const buildPersistRows = (
-  state: BotState,
-  metaRowId: number
-): PersistRows => {
-  const chatRows = Object.entries(state.chats).map(([chatId, chat]) => ({
-    chatId,
-    seed: chat.seed,
-    threadId: chat.threadId,
-    title: chat.title,
-    inviteLink: chat.inviteLink,
-    lastSummaryAt: chat.lastSummaryAt
-  }))
-  const pollRows = Object.values(state.chats)
-    .map((chat) => chat.poll)
-    .filter((poll): poll is PollState => poll !== null)
-    .map((poll) => ({
-      pollId: poll.pollId,
-      chatId: poll.chatId,
-      messageId: poll.messageId,
-      summaryDate: poll.summaryDate,
-      threadId: poll.threadId
-    }))
-  const participantRows = Object.entries(state.chats).flatMap(([chatId, chat]) =>
-    Object.values(chat.participants).map((participant) => ({
-      chatId,
-      userId: participant.id,
-      firstName: participant.firstName,
-      lastName: participant.lastName ?? null,
-      username: participant.username ?? null
-    }))
-  )
-  const profileRows = Object.values(state.profiles).map((profile) => ({
-    userId: profile.userId,
-    text: profile.text
-  }))
-  const historyRows = Object.entries(state.chats).flatMap(([chatId, chat]) =>
-    Object.entries(chat.history).map(([pairKey, count]) => ({
-      chatId,
-      pairKey,
-      count
-    }))
-  )
-  const metaRow = {
-    id: metaRowId,
-    updateOffset: state.updateOffset,
-    seed: state.seed,
-    updatedAt: new Date()
-  }
-
-  return { chatRows, pollRows, participantRows, profileRows, historyRows, metaRow }
-}
-
-const runQuery = <E, A>(
-  runDb: DbRunner<E>,
-  query: PromiseLike<A>
-): Effect.Effect<A, E> => runDb(() => query)
-
 const deleteAllRows = <E>(args: {
   readonly tx: DrizzleTransaction
   readonly runDb: DbRunner<E>
@@ -125,33 +38,74 @@ const deleteAllRows = <E>(args: {
   pipe(
     runQuery(args.runDb, args.tx.delete(participantsTable)),
     Effect.zipRight(runQuery(args.runDb, args.tx.delete(profilesTable))),
+    Effect.zipRight(runQuery(args.runDb, args.tx.delete(userLanguagesTable))),
     Effect.zipRight(runQuery(args.runDb, args.tx.delete(pairHistoryTable))),
+    Effect.zipRight(runQuery(args.runDb, args.tx.delete(pairExclusionsTable))),
+    Effect.zipRight(runQuery(args.runDb, args.tx.delete(subscriptionsTable))),
+    Effect.zipRight(runQuery(args.runDb, args.tx.delete(roundFeedbackTable))),
+    Effect.zipRight(runQuery(args.runDb, args.tx.delete(roundMembersTable))),
+    Effect.zipRight(runQuery(args.runDb, args.tx.delete(roundsTable))),
     Effect.zipRight(runQuery(args.runDb, args.tx.delete(pollsTable))),
     Effect.zipRight(runQuery(args.runDb, args.tx.delete(chatsTable))),
     Effect.asVoid
   )
 
-const insertWhen = <E, A>(
-  condition: boolean,
-  effect: () => Effect.Effect<A, E>
-): Effect.Effect<void, E> => condition ? pipe(effect(), Effect.asVoid) : Effect.void
+const insertPairRows = <E>(
+  args: PersistOperationArgs<E>
+): Effect.Effect<void, E> =>
+  pipe(
+    runWhen(
+      args.rows.historyRows.length > 0,
+      () => runQuery(args.runDb, args.tx.insert(pairHistoryTable).values(args.rows.historyRows))
+    ),
+    Effect.zipRight(
+      runWhen(
+        args.rows.exclusionRows.length > 0,
+        () => runQuery(args.runDb, args.tx.insert(pairExclusionsTable).values(args.rows.exclusionRows))
+      )
+    ),
+    Effect.zipRight(
+      runWhen(
+        args.rows.subscriptionRows.length > 0,
+        () => runQuery(args.runDb, args.tx.insert(subscriptionsTable).values(args.rows.subscriptionRows))
+      )
+    ),
+    Effect.zipRight(
+      runWhen(
+        args.rows.roundRows.length > 0,
+        () => runQuery(args.runDb, args.tx.insert(roundsTable).values(args.rows.roundRows))
+      )
+    ),
+    Effect.zipRight(
+      runWhen(
+        args.rows.roundMemberRows.length > 0,
+        () => runQuery(args.runDb, args.tx.insert(roundMembersTable).values(args.rows.roundMemberRows))
+      )
+    ),
+    Effect.zipRight(
+      runWhen(
+        args.rows.roundFeedbackRows.length > 0,
+        () => runQuery(args.runDb, args.tx.insert(roundFeedbackTable).values(args.rows.roundFeedbackRows))
+      )
+    )
+  )
 
 const insertDataRows = <E>(
   args: PersistOperationArgs<E>
 ): Effect.Effect<void, E> =>
   pipe(
-    insertWhen(
+    runWhen(
       args.rows.chatRows.length > 0,
       () => runQuery(args.runDb, args.tx.insert(chatsTable).values(args.rows.chatRows))
     ),
     Effect.zipRight(
-      insertWhen(
+      runWhen(
         args.rows.pollRows.length > 0,
         () => runQuery(args.runDb, args.tx.insert(pollsTable).values(args.rows.pollRows))
       )
     ),
     Effect.zipRight(
-      insertWhen(
+      runWhen(
         args.rows.participantRows.length > 0,
         () =>
           runQuery(
@@ -161,7 +115,7 @@ const insertDataRows = <E>(
       )
     ),
     Effect.zipRight(
-      insertWhen(
+      runWhen(
         args.rows.profileRows.length > 0,
         () =>
           runQuery(
@@ -171,15 +125,12 @@ const insertDataRows = <E>(
       )
     ),
     Effect.zipRight(
-      insertWhen(
-        args.rows.historyRows.length > 0,
-        () =>
-          runQuery(
-            args.runDb,
-            args.tx.insert(pairHistoryTable).values(args.rows.historyRows)
-          )
+      runWhen(
+        args.rows.userLanguageRows.length > 0,
+        () => runQuery(args.runDb, args.tx.insert(userLanguagesTable).values(args.rows.userLanguageRows))
       )
     ),
+    Effect.zipRight(insertPairRows(args)),
     Effect.asVoid
   )
 
@@ -206,36 +157,43 @@ const upsertMetaRow = <E>(args: {
     Effect.asVoid
   )
 
-const persistRows = <E>(
+const rewriteRows = <E>(
   args: PersistOperationArgs<E>
 ): Effect.Effect<void, E> =>
   pipe(
     deleteAllRows({ tx: args.tx, runDb: args.runDb }),
-    Effect.zipRight(
-      insertDataRows({ tx: args.tx, runDb: args.runDb, rows: args.rows })
-    ),
-    Effect.zipRight(
-      upsertMetaRow({ tx: args.tx, runDb: args.runDb, metaRow: args.rows.metaRow })
-    ),
-    Effect.asVoid
+    Effect.zipRight(insertDataRows(args))
   )
 
 // CHANGE: persist normalized bot state into SQL tables
 // WHY: replace JSON blob storage with typed relational persistence
 // QUOTE(TZ): "Да реализуй нормальные схемы. Всё типизируй"
-// REF: user-2026-01-16-normalized-db
+// REF: user-2026-01-16-normalized-db, user-013-incremental-persistence, user-014-event-log
 // SOURCE: n/a
-// FORMAT THEOREM: ∀s: persist(s) ⇒ db = s
+// FORMAT THEOREM: ∀p,s,es: persist(p, s, es) ⇒ db = s ∧ log' = log ++ es
 // PURITY: SHELL
 // EFFECT: Effect<void, E>
-// INVARIANT: writes are atomic and consistent with FK constraints
+// INVARIANT: only rows that differ from the previous state are written; without it every table is rewritten;
+// events are appended in the order their transitions ran, in the same transaction as the rows
 // COMPLEXITY: O(n)/O(n)
 export const makePersistState = <E>(args: {
   readonly metaRowId: number
   readonly onError: ErrorHandler<E>
 }) =>
-(db: DrizzleDatabase, state: BotState): Effect.Effect<void, E> => {
+(
+  db: DrizzleDatabase,
+  state: BotState,
+  previous: BotState | null,
+  events: ReadonlyArray<BotEvent>
+): Effect.Effect<void, E> => {
   const runDb = makeDbRunner(args.onError)
   const rows = buildPersistRows(state, args.metaRowId)
-  return runInTransaction(db, args.onError, (tx) => persistRows({ tx, runDb, rows }))
+  return runInTransaction(db, args.onError, (tx) =>
+    pipe(
+      previous === null
+        ? rewriteRows({ tx, runDb, rows })
+        : syncChangedRows({ tx, runDb, diff: diffPersistRows(buildPersistRows(previous, args.metaRowId), rows) }),
+      Effect.zipRight(upsertMetaRow({ tx, runDb, metaRow: rows.metaRow })),
+      Effect.zipRight(appendEvents(tx, runDb, events))
+    ))
 }
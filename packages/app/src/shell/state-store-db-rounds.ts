@@ -0,0 +1,254 @@
+import { Effect, pipe } from "effect"
+
+import { UserId } from "../core/brand.js"
+import type { BotState, FeedbackAnswer, MeetingRating, Participant, RoundGroup, RoundRecord } from "../core/domain.js"
+import { meetingRatings } from "../core/feedback.js"
+import { parseMeetingFormat } from "../core/profile-wizard.js"
+import { parseLocalDate } from "../core/schedule.js"
+import type { RoundFeedbackRow, RoundMemberRow, RoundRow } from "./db/schema.js"
+
+type ErrorHandler<E> = (error: Error | string) => E
+
+type RoundMemberRole = "organizer" | "member" | "leftover"
+
+export type RoundPersistRows = {
+  roundRows: Array<{
+    chatId: string
+    roundIndex: number
+    summaryDate: string
+    feedbackRequested: boolean
+    reminderSent: boolean
+  }>
+  roundMemberRows: Array<{
+    chatId: string
+    roundIndex: number
+    userId: number
+    position: number
+    groupIndex: number | null
+    role: RoundMemberRole
+    arranged: boolean
+    firstName: string
+    lastName: string | null
+    username: string | null
+    meetingFormat: string | null
+  }>
+  roundFeedbackRows: Array<{
+    chatId: string
+    roundIndex: number
+    userId: number
+    met: boolean
+    rating: MeetingRating | null
+    comment: string | null
+  }>
+}
+
+type RoundMemberInput = {
+  readonly participant: Participant
+  readonly groupIndex: number | null
+  readonly role: RoundMemberRole
+  readonly arranged: boolean
+}
+
+const roundMembers = (round: RoundRecord): ReadonlyArray<RoundMemberInput> => [
+  ...round.groups.flatMap((group, groupIndex) =>
+    group.members.map((participant): RoundMemberInput => {
+      const isOrganizer = participant.id === group.organizerId
+      return {
+        participant,
+        groupIndex,
+        role: isOrganizer ? "organizer" : "member",
+        arranged: isOrganizer && group.arranged
+      }
+    })
+  ),
+  ...round.leftovers.map((participant): RoundMemberInput => ({
+    participant,
+    groupIndex: null,
+    role: "leftover",
+    arranged: false
+  }))
+]
+
+// CHANGE: flatten archived rounds into round and round member rows
+// WHY: the round archive is stored relationally next to the pair history it explains
+// QUOTE(TZ): "We want a `rounds` table plus round-members rows written during `summarize`."
+// REF: user-015-round-archive
+// SOURCE: n/a
+// FORMAT THEOREM: ∀s: loadRounds(roundRows(s)) = rounds(s)
+// PURITY: CORE
+// INVARIANT: a round is keyed by its position in the chat archive; members keep their order through position
+// COMPLEXITY: O(n)/O(n)
+export const buildRoundRows = (state: BotState): RoundPersistRows => {
+  const rounds = Object.entries(state.chats).flatMap(([chatId, chat]) =>
+    chat.rounds.map((round, roundIndex) => ({ chatId, roundIndex, round }))
+  )
+  return {
+    roundRows: rounds.map(({ chatId, round, roundIndex }) => ({
+      chatId,
+      roundIndex,
+      summaryDate: round.summaryDate,
+      feedbackRequested: round.feedbackRequested,
+      reminderSent: round.reminderSent
+    })),
+    roundMemberRows: rounds.flatMap(({ chatId, round, roundIndex }) =>
+      roundMembers(round).map((member, position) => ({
+        chatId,
+        roundIndex,
+        userId: member.participant.id,
+        position,
+        groupIndex: member.groupIndex,
+        role: member.role,
+        arranged: member.arranged,
+        firstName: member.participant.firstName,
+        lastName: member.participant.lastName ?? null,
+        username: member.participant.username ?? null,
+        meetingFormat: member.participant.meetingFormat ?? null
+      }))
+    ),
+    roundFeedbackRows: rounds.flatMap(({ chatId, round, roundIndex }) =>
+      round.groups.flatMap((group) =>
+        group.feedback.map((answer) => ({
+          chatId,
+          roundIndex,
+          userId: answer.userId,
+          met: answer.met,
+          rating: answer.rating,
+          comment: answer.comment
+        }))
+      )
+    )
+  }
+}
+
+const roundKey = (chatId: string, roundIndex: number): string => JSON.stringify([chatId, roundIndex])
+
+const groupByRound = <Row extends { readonly chatId: string; readonly roundIndex: number }>(
+  rows: ReadonlyArray<Row>
+): ReadonlyMap<string, ReadonlyArray<Row>> => {
+  const byRound = new Map<string, ReadonlyArray<Row>>()
+  for (const row of rows) {
+    const key = roundKey(row.chatId, row.roundIndex)
+    byRound.set(key, [...(byRound.get(key) ?? []), row])
+  }
+  return byRound
+}
+
+const toRoundParticipant = (row: RoundMemberRow): Participant => ({
+  id: UserId(row.userId),
+  firstName: row.firstName,
+  lastName: row.lastName ?? undefined,
+  username: row.username ?? undefined,
+  meetingFormat: parseMeetingFormat(row.meetingFormat) ?? undefined
+})
+
+const toFeedbackAnswer = <E>(row: RoundFeedbackRow, onError: ErrorHandler<E>): Effect.Effect<FeedbackAnswer, E> => {
+  const rating = meetingRatings.find((entry) => entry === row.rating) ?? null
+  return rating === null && row.rating !== null
+    ? Effect.fail(onError(`Invalid meeting rating: ${row.rating}`))
+    : Effect.succeed({ userId: UserId(row.userId), met: row.met, rating, comment: row.comment })
+}
+
+const toRoundGroup = <E>(
+  rows: ReadonlyArray<RoundMemberRow>,
+  answers: ReadonlyArray<RoundFeedbackRow>,
+  onError: ErrorHandler<E>
+): Effect.Effect<RoundGroup, E> => {
+  const organizer = rows.find((row) => row.role === "organizer")
+  const [first, second, third] = rows.map((row) => toRoundParticipant(row))
+  if (organizer === undefined || first === undefined || second === undefined || rows.length > 3) {
+    return Effect.fail(onError(`Invalid round group of ${rows.length} members`))
+  }
+  const organizerId = UserId(organizer.userId)
+  const arranged = organizer.arranged
+  return pipe(
+    answers.filter((answer) => rows.some((row) => row.userId === answer.userId)),
+    Effect.forEach((answer) => toFeedbackAnswer(answer, onError)),
+    Effect.map((feedback): RoundGroup =>
+      third === undefined
+        ? { kind: "pair", members: [first, second], organizerId, feedback, arranged }
+        : { kind: "triple", members: [first, second, third], organizerId, feedback, arranged }
+    )
+  )
+}
+
+const groupMemberRows = (rows: ReadonlyArray<RoundMemberRow>): ReadonlyArray<ReadonlyArray<RoundMemberRow>> => {
+  const groups = new Map<number, Array<RoundMemberRow>>()
+  for (const row of rows) {
+    if (row.groupIndex !== null) {
+      groups.set(row.groupIndex, [...(groups.get(row.groupIndex) ?? []), row])
+    }
+  }
+  const entries = [...groups.entries()]
+  entries.sort(([left], [right]) => left - right)
+  return entries.map(([, members]) => members)
+}
+
+type StoredRound = {
+  readonly members: ReadonlyArray<RoundMemberRow>
+  readonly feedback: ReadonlyArray<RoundFeedbackRow>
+}
+
+const toRoundRecord = <E>(
+  row: RoundRow,
+  stored: StoredRound,
+  onError: ErrorHandler<E>
+): Effect.Effect<RoundRecord, E> =>
+  Effect.gen(function*(_) {
+    const summaryDate = parseLocalDate(row.summaryDate)
+    if (summaryDate === null) {
+      return yield* _(Effect.fail(onError(`Invalid round date: ${row.summaryDate}`)))
+    }
+    const ordered = [...stored.members]
+    ordered.sort((left, right) => left.position - right.position)
+    const groups = yield* _(
+      pipe(groupMemberRows(ordered), Effect.forEach((group) => toRoundGroup(group, stored.feedback, onError)))
+    )
+    return {
+      summaryDate,
+      groups,
+      leftovers: ordered.filter((member) => member.role === "leftover").map((member) => toRoundParticipant(member)),
+      feedbackRequested: row.feedbackRequested,
+      reminderSent: row.reminderSent
+    }
+  })
+
+// CHANGE: restore the round archive of every chat from its rows
+// WHY: history and statistics read past rounds from state after a restart
+// QUOTE(TZ): "This is the basis for history commands and analytics."
+// REF: user-015-round-archive
+// SOURCE: n/a
+// FORMAT THEOREM: ∀s,rows: valid(rows) → attach(s, rows).chats[c].rounds = rounds of c ordered by round index
+// PURITY: SHELL
+// EFFECT: Effect<BotState, E>
+// INVARIANT: every round references an existing chat and every group has two or three members with one organizer;
+// survey answers are attached to the group of the member who gave them
+// COMPLEXITY: O(n log n)/O(n)
+export const attachStoredRounds = <E>(state: BotState, args: {
+  readonly rounds: ReadonlyArray<RoundRow>
+  readonly members: ReadonlyArray<RoundMemberRow>
+  readonly feedback: ReadonlyArray<RoundFeedbackRow>
+  readonly onError: ErrorHandler<E>
+}): Effect.Effect<BotState, E> =>
+  Effect.gen(function*(_) {
+    const membersByRound = groupByRound(args.members)
+    const feedbackByRound = groupByRound(args.feedback)
+    let chats = state.chats
+    const rounds = [...args.rounds]
+    rounds.sort((left, right) => left.roundIndex - right.roundIndex)
+    for (const row of rounds) {
+      const chat = chats[row.chatId]
+      if (chat === undefined) {
+        return yield* _(Effect.fail(args.onError(`Round without chat: ${row.chatId}`)))
+      }
+      const key = roundKey(row.chatId, row.roundIndex)
+      const round = yield* _(
+        toRoundRecord(
+          row,
+          { members: membersByRound.get(key) ?? [], feedback: feedbackByRound.get(key) ?? [] },
+          args.onError
+        )
+      )
+      chats = { ...chats, [row.chatId]: { ...chat, rounds: [...chat.rounds, round] } }
+    }
+    return { ...state, chats }
+  })
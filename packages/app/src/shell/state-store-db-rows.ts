@@ -1,38 +1,62 @@
 import { Effect, pipe as effectPipe } from "effect"
 
-import { ChatId, LocalDateString, MessageId, PairKey, PollId, RngSeed, UserId } from "../core/brand.js"
+import { ChatId, type LocalDateString, MessageId, PairKey, PollId, RngSeed, UserId } from "../core/brand.js"
 import type {
   BotState,
   ChatState,
+  Exclusions,
   PairHistory,
   Participant,
   ParticipantsById,
   PollIndex,
   PollState,
+  ScheduleTimes,
+  UserLanguages,
   UserProfile,
-  UserProfiles
+  UserProfiles,
+  WeeklySchedule
 } from "../core/domain.js"
+import { emptyState } from "../core/domain.js"
+import { upsertExclusion } from "../core/exclusions.js"
+import { parseLanguage } from "../core/language.js"
+import { parseStoredMeetingFormats } from "../core/meeting-format.js"
 import { upsertParticipant } from "../core/participants.js"
+import { parseStoredPollWording } from "../core/poll-wording.js"
+import { parseMeetingFormat } from "../core/profile-wizard.js"
 import { upsertProfile } from "../core/profiles.js"
-import type { ChatRow, PairHistoryRow, ParticipantRow, PollRow, ProfileRow } from "./db/schema.js"
+import {
+  defaultScheduleTimes,
+  defaultWeeklySchedule,
+  parseLocalDate as parseStoredDate,
+  parseRoundFrequency,
+  parseTimeOfDay,
+  parseWeekday
+} from "../core/schedule.js"
+import type {
+  ChatRow,
+  PairExclusionRow,
+  PairHistoryRow,
+  ParticipantRow,
+  PollRow,
+  ProfileRow,
+  UserLanguageRow
+} from "./db/schema.js"
+import { toChatMode } from "./state-store-db-subscriptions.js"
 
 type ErrorHandler<E> = (error: Error | string) => E
 
-const localDateRegex = /^\d{4}-\d{2}-\d{2}$/
-
-const parseLocalDate = <E>(
-  value: string,
-  onError: ErrorHandler<E>
-): Effect.Effect<LocalDateString, E> =>
-  localDateRegex.test(value)
-    ? Effect.succeed(LocalDateString(value))
-    : Effect.fail(onError(`Invalid LocalDateString: ${value}`))
+const parseLocalDate = <E>(value: string, onError: ErrorHandler<E>): Effect.Effect<LocalDateString, E> => {
+  const parsed = parseStoredDate(value)
+  return parsed === null ? Effect.fail(onError(`Invalid LocalDateString: ${value}`)) : Effect.succeed(parsed)
+}
 
 const toParticipant = (row: ParticipantRow): Participant => ({
   id: UserId(row.userId),
   firstName: row.firstName,
   lastName: row.lastName ?? undefined,
-  username: row.username ?? undefined
+  username: row.username ?? undefined,
+  meetingFormat: parseMeetingFormat(row.meetingFormat) ?? undefined,
+  standby: row.standby ? true : undefined
 })
 
 const toPollState = <E>(args: {
@@ -46,13 +70,32 @@ const toPollState = <E>(args: {
       messageId: MessageId(args.row.messageId),
       chatId: ChatId(args.row.chatId),
       summaryDate,
-      threadId: args.row.threadId ?? null
+      threadId: args.row.threadId ?? null,
+      joinOption: args.row.joinOption,
+      formats: parseStoredMeetingFormats(args.row.meetingFormats),
+      standbyOption: args.row.standbyOption ?? null
     }))
   )
 
 const toProfile = (row: ProfileRow): UserProfile => ({
   userId: UserId(row.userId),
-  text: row.text
+  about: row.about,
+  occupation: row.occupation,
+  interests: row.interests,
+  hooks: row.hooks,
+  city: row.city,
+  languages: row.languages,
+  meetingFormat: parseMeetingFormat(row.meetingFormat)
+})
+
+const toWeeklySchedule = (row: ChatRow): WeeklySchedule => ({
+  pollDay: parseWeekday(row.pollDay) ?? defaultWeeklySchedule.pollDay,
+  summaryDay: parseWeekday(row.summaryDay) ?? defaultWeeklySchedule.summaryDay
+})
+
+const toScheduleTimes = (row: ChatRow): ScheduleTimes => ({
+  pollTime: parseTimeOfDay(row.pollTime) ?? defaultScheduleTimes.pollTime,
+  summaryTime: parseTimeOfDay(row.summaryTime) ?? defaultScheduleTimes.summaryTime
 })
 
 const toChatState = <E>(args: {
@@ -60,6 +103,7 @@ const toChatState = <E>(args: {
   readonly poll: PollState | null
   readonly participants: ParticipantsById
   readonly history: PairHistory
+  readonly exclusions: Exclusions
   readonly onError: ErrorHandler<E>
 }): Effect.Effect<ChatState, E> =>
   Effect.gen(function*(_) {
@@ -74,7 +118,21 @@ const toChatState = <E>(args: {
       threadId: args.row.threadId ?? null,
       title: args.row.title ?? null,
       inviteLink: args.row.inviteLink ?? null,
-      lastSummaryAt
+      lastSummaryAt,
+      allowTriples: args.row.allowTriples,
+      historyHalfLifeWeeks: args.row.historyHalfLifeWeeks ?? null,
+      exclusions: args.exclusions,
+      schedule: toWeeklySchedule(args.row),
+      scheduleTimes: toScheduleTimes(args.row),
+      roundFrequency: parseRoundFrequency(args.row.roundFrequency) ?? "weekly",
+      timeZone: args.row.timeZone ?? null,
+      reminderDay: parseWeekday(args.row.reminderDay),
+      language: parseLanguage(args.row.language),
+      pollWording: parseStoredPollWording(args.row.pollQuestion, args.row.pollOptions, args.row.pollJoinOption),
+      mode: toChatMode(args.row),
+      // Filled in from their own tables by attachStoredSubscriptions and attachStoredRounds.
+      subscriptions: {},
+      rounds: []
     }
   })
 
@@ -90,10 +148,7 @@ const buildParticipantsByChat = <E>(args: {
         yield* _(Effect.fail(args.onError(`Participant without chat: ${row.chatId}`)))
       }
       const current = participantsByChat[row.chatId] ?? {}
-      participantsByChat = {
-        ...participantsByChat,
-        [row.chatId]: upsertParticipant(current, toParticipant(row))
-      }
+      participantsByChat = { ...participantsByChat, [row.chatId]: upsertParticipant(current, toParticipant(row)) }
     }
     return participantsByChat
   })
@@ -109,24 +164,64 @@ const buildHistoryByChat = <E>(args: {
       if (!args.chatIds.has(row.chatId)) {
         yield* _(Effect.fail(args.onError(`Pair history without chat: ${row.chatId}`)))
       }
+      const metOn = yield* _(parseLocalDate(row.metOn, args.onError))
       const current = historyByChat[row.chatId] ?? {}
+      const pairKey = PairKey(row.pairKey)
+      const dates = [...(current[pairKey] ?? []), ...Array.from({ length: row.count }, () => metOn)]
+      dates.sort((left, right) => left.localeCompare(right))
       historyByChat = {
         ...historyByChat,
         [row.chatId]: {
           ...current,
-          [PairKey(row.pairKey)]: row.count
+          [pairKey]: dates
         }
       }
     }
     return historyByChat
   })
 
+const toExclusionParticipant = (row: PairExclusionRow): Participant => ({
+  id: UserId(row.excludedId),
+  firstName: row.excludedFirstName,
+  lastName: row.excludedLastName ?? undefined,
+  username: row.excludedUsername ?? undefined
+})
+
+const buildExclusionsByChat = <E>(args: {
+  readonly rows: ReadonlyArray<PairExclusionRow>
+  readonly chatIds: ReadonlySet<string>
+  readonly onError: ErrorHandler<E>
+}): Effect.Effect<Record<string, Exclusions>, E> =>
+  Effect.gen(function*(_) {
+    let exclusionsByChat: Record<string, Exclusions> = {}
+    for (const row of args.rows) {
+      if (!args.chatIds.has(row.chatId)) {
+        yield* _(Effect.fail(args.onError(`Pair exclusion without chat: ${row.chatId}`)))
+      }
+      const current = exclusionsByChat[row.chatId] ?? {}
+      exclusionsByChat = {
+        ...exclusionsByChat,
+        [row.chatId]: upsertExclusion(current, {
+          requesterId: UserId(row.requesterId),
+          excluded: toExclusionParticipant(row)
+        })
+      }
+    }
+    return exclusionsByChat
+  })
+
 const buildProfiles = (rows: ReadonlyArray<ProfileRow>): UserProfiles =>
   rows.reduce<UserProfiles>(
     (profiles, row) => upsertProfile(profiles, toProfile(row)),
     {}
   )
 
+const buildUserLanguages = (rows: ReadonlyArray<UserLanguageRow>): UserLanguages =>
+  Object.fromEntries(rows.flatMap((row) => {
+    const language = parseLanguage(row.language)
+    return language === null ? [] : [[`${row.userId}`, language]]
+  }))
+
 const buildPolls = <E>(args: {
   readonly rows: ReadonlyArray<PollRow>
   readonly chatIds: ReadonlySet<string>
@@ -154,6 +249,7 @@ const buildChatStates = <E>(args: {
   readonly pollsByChat: Record<string, PollState>
   readonly participantsByChat: Record<string, ParticipantsById>
   readonly historyByChat: Record<string, PairHistory>
+  readonly exclusionsByChat: Record<string, Exclusions>
   readonly onError: ErrorHandler<E>
 }): Effect.Effect<Record<string, ChatState>, E> =>
   Effect.gen(function*(_) {
@@ -165,13 +261,11 @@ const buildChatStates = <E>(args: {
           poll: args.pollsByChat[row.chatId] ?? null,
           participants: args.participantsByChat[row.chatId] ?? {},
           history: args.historyByChat[row.chatId] ?? {},
+          exclusions: args.exclusionsByChat[row.chatId] ?? {},
           onError: args.onError
         })
       )
-      chatStates = {
-        ...chatStates,
-        [ChatId(row.chatId)]: chatState
-      }
+      chatStates = { ...chatStates, [ChatId(row.chatId)]: chatState }
     }
     return chatStates
   })
@@ -182,7 +276,9 @@ export type StateRowsInput<E> = {
   readonly polls: ReadonlyArray<PollRow>
   readonly participants: ReadonlyArray<ParticipantRow>
   readonly profiles: ReadonlyArray<ProfileRow>
+  readonly userLanguages: ReadonlyArray<UserLanguageRow>
   readonly histories: ReadonlyArray<PairHistoryRow>
+  readonly exclusions: ReadonlyArray<PairExclusionRow>
   readonly onError: ErrorHandler<E>
 }
 
@@ -201,23 +297,16 @@ export const buildStateFromRows = <E>(
 ): Effect.Effect<BotState, E> =>
   Effect.gen(function*(_) {
     const chatIds = new Set(input.chats.map((row) => row.chatId))
-    const { pollIndex, pollsByChat } = yield* _(
-      buildPolls({ rows: input.polls, chatIds, onError: input.onError })
-    )
+    const { pollIndex, pollsByChat } = yield* _(buildPolls({ rows: input.polls, chatIds, onError: input.onError }))
     const participantsByChat = yield* _(
-      buildParticipantsByChat({
-        rows: input.participants,
-        chatIds,
-        onError: input.onError
-      })
+      buildParticipantsByChat({ rows: input.participants, chatIds, onError: input.onError })
     )
     const profiles = buildProfiles(input.profiles)
     const historyByChat = yield* _(
-      buildHistoryByChat({
-        rows: input.histories,
-        chatIds,
-        onError: input.onError
-      })
+      buildHistoryByChat({ rows: input.histories, chatIds, onError: input.onError })
+    )
+    const exclusionsByChat = yield* _(
+      buildExclusionsByChat({ rows: input.exclusions, chatIds, onError: input.onError })
     )
     const chatStates = yield* _(
       buildChatStates({
@@ -225,16 +314,18 @@ export const buildStateFromRows = <E>(
         pollsByChat,
         participantsByChat,
         historyByChat,
+        exclusionsByChat,
         onError: input.onError
       })
     )
 
+    // Drafts and the journal live only in memory, so a loaded state starts without them.
     return {
+      ...emptyState(RngSeed(input.meta.seed)),
       chats: chatStates,
       pollIndex,
       updateOffset: Math.max(0, input.meta.updateOffset),
-      seed: RngSeed(input.meta.seed),
       profiles,
-      pendingProfileEdits: {}
+      userLanguages: buildUserLanguages(input.userLanguages)
     }
   })
@@ -1,4 +1,4 @@
-import { Effect } from "effect"
+import { Effect, pipe } from "effect"
 
 import type { DrizzleDatabase } from "./drizzle.js"
 
@@ -47,3 +47,13 @@ export const runInTransaction = <E, A>(
     try: () => db.transaction((tx) => Effect.runPromise(effect(tx))),
     catch: (error) => onError(error instanceof Error ? error : String(error))
   })
+
+export const runQuery = <E, A>(
+  runDb: DbRunner<E>,
+  query: PromiseLike<A>
+): Effect.Effect<A, E> => runDb(() => query)
+
+export const runWhen = <E, A>(
+  condition: boolean,
+  effect: () => Effect.Effect<A, E>
+): Effect.Effect<void, E> => condition ? pipe(effect(), Effect.asVoid) : Effect.void
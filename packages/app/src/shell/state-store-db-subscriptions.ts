@@ -0,0 +1,102 @@
+import { Effect, pipe } from "effect"
+
+import { type LocalDateString, UserId } from "../core/brand.js"
+import type { BotState, ChatMode, Subscription } from "../core/domain.js"
+import { parseLocalDate } from "../core/schedule.js"
+import { parseChatMode } from "../core/subscriptions.js"
+import type { ChatRow, SubscriptionRow } from "./db/schema.js"
+
+type ErrorHandler<E> = (error: Error | string) => E
+
+export type SubscriptionPersistRows = {
+  subscriptionRows: Array<{
+    chatId: string
+    userId: number
+    firstName: string
+    lastName: string | null
+    username: string | null
+    skippedDates: string
+  }>
+}
+
+// Skipped dates are stored as one text column; dates never contain commas.
+const storedDateSeparator = ","
+
+// Chats stored before subscription mode, or with an unknown mode, run weekly polls.
+export const toChatMode = (row: ChatRow): ChatMode => parseChatMode(row.mode) ?? "poll"
+
+// CHANGE: flatten subscription rosters into subscription rows
+// WHY: keep subscription rows flat so unchanged rows compare equal column by column
+// QUOTE(TZ): "users subscribe once and stay in the pool"
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: ∀s: attach(subscriptionRows(s)) = subscriptions(s)
+// PURITY: CORE
+// INVARIANT: one row per subscribed member of a chat
+// COMPLEXITY: O(n)/O(n)
+export const buildSubscriptionRows = (state: BotState): SubscriptionPersistRows => ({
+  subscriptionRows: Object.entries(state.chats).flatMap(([chatId, chat]) =>
+    Object.values(chat.subscriptions).map((subscription) => ({
+      chatId,
+      userId: subscription.participant.id,
+      firstName: subscription.participant.firstName,
+      lastName: subscription.participant.lastName ?? null,
+      username: subscription.participant.username ?? null,
+      skippedDates: subscription.skippedDates.join(storedDateSeparator)
+    }))
+  )
+})
+
+const parseSkippedDates = <E>(
+  value: string,
+  onError: ErrorHandler<E>
+): Effect.Effect<ReadonlyArray<LocalDateString>, E> =>
+  pipe(
+    value === "" ? [] : value.split(storedDateSeparator),
+    Effect.forEach((date) => {
+      const parsed = parseLocalDate(date)
+      return parsed === null ? Effect.fail(onError(`Invalid skipped date: ${date}`)) : Effect.succeed(parsed)
+    })
+  )
+
+const toSubscription = <E>(row: SubscriptionRow, onError: ErrorHandler<E>): Effect.Effect<Subscription, E> =>
+  Effect.map(parseSkippedDates(row.skippedDates, onError), (skippedDates) => ({
+    participant: {
+      id: UserId(row.userId),
+      firstName: row.firstName,
+      lastName: row.lastName ?? undefined,
+      username: row.username ?? undefined
+    },
+    skippedDates
+  }))
+
+// CHANGE: restore the subscription roster of every chat from its rows
+// WHY: subscription chats pair their roster after a restart without anyone signing up again
+// QUOTE(TZ): "`ChatState.participants` would come from the subscription roster instead of poll votes"
+// REF: user-025-subscription-mode
+// SOURCE: n/a
+// FORMAT THEOREM: ∀s,rows: valid(rows) → attach(s, rows).chats[c].subscriptions = rows of c keyed by user id
+// PURITY: SHELL
+// EFFECT: Effect<BotState, E>
+// INVARIANT: every subscription references an existing chat
+// COMPLEXITY: O(n)/O(n)
+export const attachStoredSubscriptions = <E>(
+  state: BotState,
+  rows: ReadonlyArray<SubscriptionRow>,
+  onError: ErrorHandler<E>
+): Effect.Effect<BotState, E> =>
+  Effect.gen(function*(_) {
+    let chats = state.chats
+    for (const row of rows) {
+      const chat = chats[row.chatId]
+      if (chat === undefined) {
+        return yield* _(Effect.fail(onError(`Subscription without chat: ${row.chatId}`)))
+      }
+      const subscription = yield* _(toSubscription(row, onError))
+      chats = {
+        ...chats,
+        [row.chatId]: { ...chat, subscriptions: { ...chat.subscriptions, [row.userId.toString()]: subscription } }
+      }
+    }
+    return { ...state, chats }
+  })
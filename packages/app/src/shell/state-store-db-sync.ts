@@ -0,0 +1,273 @@
+import { and, eq, getTableColumns, inArray, or, type SQL, sql } from "drizzle-orm"
+import type { PgColumn } from "drizzle-orm/pg-core"
+import { Effect, pipe } from "effect"
+
+import {
+  chatsTable,
+  pairExclusionsTable,
+  pairHistoryTable,
+  participantsTable,
+  pollsTable,
+  profilesTable,
+  roundFeedbackTable,
+  roundMembersTable,
+  roundsTable,
+  subscriptionsTable,
+  userLanguagesTable
+} from "./db/schema.js"
+import type { PersistDiff } from "./state-store-db-diff.js"
+import type { DbRunner, DrizzleTransaction } from "./state-store-db-runner.js"
+import { runQuery, runWhen } from "./state-store-db-runner.js"
+
+type SyncOperationArgs<E> = {
+  readonly tx: DrizzleTransaction
+  readonly runDb: DbRunner<E>
+  readonly diff: PersistDiff
+}
+
+// CHANGE: overwrite every column of a conflicting row with the proposed values
+// WHY: a multi-row upsert must take each row's own values, not a shared literal
+// QUOTE(TZ): "upserts or deletes only the changed chats, participants, profiles and history rows"
+// REF: user-013-incremental-persistence
+// SOURCE: https://www.postgresql.org/docs/current/sql-insert.html#SQL-ON-CONFLICT
+// FORMAT THEOREM: ∀c ∈ columns: set[c] = excluded.c
+// PURITY: CORE
+// INVARIANT: keys are the table's TypeScript column names
+// COMPLEXITY: O(c)/O(c)
+const excludedSet = (columns: Record<string, PgColumn>): Record<string, SQL> =>
+  Object.fromEntries(
+    Object.entries(columns).map(([key, column]) => [key, sql.raw(`excluded."${column.name}"`)])
+  )
+
+const deletePairRows = <E>({ diff, runDb, tx }: SyncOperationArgs<E>): Effect.Effect<void, E> =>
+  pipe(
+    runWhen(diff.historyRows.deletes.length > 0, () =>
+      runQuery(
+        runDb,
+        tx.delete(pairHistoryTable).where(or(...diff.historyRows.deletes.map((row) =>
+          and(
+            eq(pairHistoryTable.chatId, row.chatId),
+            eq(pairHistoryTable.pairKey, row.pairKey),
+            eq(pairHistoryTable.metOn, row.metOn)
+          )
+        )))
+      )),
+    Effect.zipRight(runWhen(diff.exclusionRows.deletes.length > 0, () =>
+      runQuery(
+        runDb,
+        tx.delete(pairExclusionsTable).where(or(...diff.exclusionRows.deletes.map((row) =>
+          and(
+            eq(pairExclusionsTable.chatId, row.chatId),
+            eq(pairExclusionsTable.requesterId, row.requesterId),
+            eq(pairExclusionsTable.excludedId, row.excludedId)
+          )
+        )))
+      )))
+  )
+
+const deleteSubscriptionRows = <E>({ diff, runDb, tx }: SyncOperationArgs<E>): Effect.Effect<void, E> =>
+  runWhen(diff.subscriptionRows.deletes.length > 0, () =>
+    runQuery(
+      runDb,
+      tx.delete(subscriptionsTable).where(or(...diff.subscriptionRows.deletes.map((row) =>
+        and(eq(subscriptionsTable.chatId, row.chatId), eq(subscriptionsTable.userId, row.userId))
+      )))
+    ))
+
+const deleteRoundRows = <E>({ diff, runDb, tx }: SyncOperationArgs<E>): Effect.Effect<void, E> =>
+  pipe(
+    runWhen(diff.roundFeedbackRows.deletes.length > 0, () =>
+      runQuery(
+        runDb,
+        tx.delete(roundFeedbackTable).where(or(...diff.roundFeedbackRows.deletes.map((row) =>
+          and(
+            eq(roundFeedbackTable.chatId, row.chatId),
+            eq(roundFeedbackTable.roundIndex, row.roundIndex),
+            eq(roundFeedbackTable.userId, row.userId)
+          )
+        )))
+      )),
+    Effect.zipRight(runWhen(diff.roundMemberRows.deletes.length > 0, () =>
+      runQuery(
+        runDb,
+        tx.delete(roundMembersTable).where(or(...diff.roundMemberRows.deletes.map((row) =>
+          and(
+            eq(roundMembersTable.chatId, row.chatId),
+            eq(roundMembersTable.roundIndex, row.roundIndex),
+            eq(roundMembersTable.userId, row.userId)
+          )
+        )))
+      ))),
+    Effect.zipRight(runWhen(diff.roundRows.deletes.length > 0, () =>
+      runQuery(
+        runDb,
+        tx.delete(roundsTable).where(
+          or(
+            ...diff.roundRows.deletes.map((row) =>
+              and(eq(roundsTable.chatId, row.chatId), eq(roundsTable.roundIndex, row.roundIndex))
+            )
+          )
+        )
+      )))
+  )
+
+const deleteStaleRows = <E>(args: SyncOperationArgs<E>): Effect.Effect<void, E> => {
+  const { diff, runDb, tx } = args
+  return pipe(
+    runWhen(diff.participantRows.deletes.length > 0, () =>
+      runQuery(
+        runDb,
+        tx.delete(participantsTable).where(or(...diff.participantRows.deletes.map((row) =>
+          and(eq(participantsTable.chatId, row.chatId), eq(participantsTable.userId, row.userId))
+        )))
+      )),
+    Effect.zipRight(runWhen(diff.profileRows.deletes.length > 0, () =>
+      runQuery(
+        runDb,
+        tx.delete(profilesTable).where(inArray(profilesTable.userId, diff.profileRows.deletes.map((row) => row.userId)))
+      ))),
+    Effect.zipRight(runWhen(diff.userLanguageRows.deletes.length > 0, () =>
+      runQuery(
+        runDb,
+        tx.delete(userLanguagesTable).where(
+          inArray(userLanguagesTable.userId, diff.userLanguageRows.deletes.map((row) => row.userId))
+        )
+      ))),
+    Effect.zipRight(deletePairRows(args)),
+    Effect.zipRight(deleteSubscriptionRows(args)),
+    Effect.zipRight(deleteRoundRows(args)),
+    Effect.zipRight(runWhen(diff.pollRows.deletes.length > 0, () =>
+      runQuery(
+        runDb,
+        tx.delete(pollsTable).where(inArray(pollsTable.pollId, diff.pollRows.deletes.map((row) => row.pollId)))
+      ))),
+    Effect.zipRight(runWhen(diff.chatRows.deletes.length > 0, () =>
+      runQuery(
+        runDb,
+        tx.delete(chatsTable).where(inArray(chatsTable.chatId, diff.chatRows.deletes.map((row) => row.chatId)))
+      )))
+  )
+}
+
+const upsertPairRows = <E>({ diff, runDb, tx }: SyncOperationArgs<E>): Effect.Effect<void, E> =>
+  pipe(
+    runWhen(diff.historyRows.upserts.length > 0, () =>
+      runQuery(
+        runDb,
+        tx.insert(pairHistoryTable).values(diff.historyRows.upserts).onConflictDoUpdate({
+          target: [pairHistoryTable.chatId, pairHistoryTable.pairKey, pairHistoryTable.metOn],
+          set: excludedSet(getTableColumns(pairHistoryTable))
+        })
+      )),
+    Effect.zipRight(runWhen(diff.exclusionRows.upserts.length > 0, () =>
+      runQuery(
+        runDb,
+        tx.insert(pairExclusionsTable).values(diff.exclusionRows.upserts).onConflictDoUpdate({
+          target: [pairExclusionsTable.chatId, pairExclusionsTable.requesterId, pairExclusionsTable.excludedId],
+          set: excludedSet(getTableColumns(pairExclusionsTable))
+        })
+      )))
+  )
+
+const upsertSubscriptionRows = <E>({ diff, runDb, tx }: SyncOperationArgs<E>): Effect.Effect<void, E> =>
+  runWhen(diff.subscriptionRows.upserts.length > 0, () =>
+    runQuery(
+      runDb,
+      tx.insert(subscriptionsTable).values(diff.subscriptionRows.upserts).onConflictDoUpdate({
+        target: [subscriptionsTable.chatId, subscriptionsTable.userId],
+        set: excludedSet(getTableColumns(subscriptionsTable))
+      })
+    ))
+
+const upsertRoundRows = <E>({ diff, runDb, tx }: SyncOperationArgs<E>): Effect.Effect<void, E> =>
+  pipe(
+    runWhen(diff.roundRows.upserts.length > 0, () =>
+      runQuery(
+        runDb,
+        tx.insert(roundsTable).values(diff.roundRows.upserts).onConflictDoUpdate({
+          target: [roundsTable.chatId, roundsTable.roundIndex],
+          set: excludedSet(getTableColumns(roundsTable))
+        })
+      )),
+    Effect.zipRight(runWhen(diff.roundMemberRows.upserts.length > 0, () =>
+      runQuery(
+        runDb,
+        tx.insert(roundMembersTable).values(diff.roundMemberRows.upserts).onConflictDoUpdate({
+          target: [roundMembersTable.chatId, roundMembersTable.roundIndex, roundMembersTable.userId],
+          set: excludedSet(getTableColumns(roundMembersTable))
+        })
+      ))),
+    Effect.zipRight(runWhen(diff.roundFeedbackRows.upserts.length > 0, () =>
+      runQuery(
+        runDb,
+        tx.insert(roundFeedbackTable).values(diff.roundFeedbackRows.upserts).onConflictDoUpdate({
+          target: [roundFeedbackTable.chatId, roundFeedbackTable.roundIndex, roundFeedbackTable.userId],
+          set: excludedSet(getTableColumns(roundFeedbackTable))
+        })
+      )))
+  )
+
+const upsertChangedRows = <E>(args: SyncOperationArgs<E>): Effect.Effect<void, E> => {
+  const { diff, runDb, tx } = args
+  return pipe(
+    runWhen(diff.chatRows.upserts.length > 0, () =>
+      runQuery(
+        runDb,
+        tx.insert(chatsTable).values(diff.chatRows.upserts).onConflictDoUpdate({
+          target: chatsTable.chatId,
+          set: excludedSet(getTableColumns(chatsTable))
+        })
+      )),
+    Effect.zipRight(runWhen(diff.pollRows.upserts.length > 0, () =>
+      runQuery(
+        runDb,
+        tx.insert(pollsTable).values(diff.pollRows.upserts).onConflictDoUpdate({
+          target: pollsTable.pollId,
+          set: excludedSet(getTableColumns(pollsTable))
+        })
+      ))),
+    Effect.zipRight(runWhen(diff.participantRows.upserts.length > 0, () =>
+      runQuery(
+        runDb,
+        tx.insert(participantsTable).values(diff.participantRows.upserts).onConflictDoUpdate({
+          target: [participantsTable.chatId, participantsTable.userId],
+          set: excludedSet(getTableColumns(participantsTable))
+        })
+      ))),
+    Effect.zipRight(runWhen(diff.profileRows.upserts.length > 0, () =>
+      runQuery(
+        runDb,
+        tx.insert(profilesTable).values(diff.profileRows.upserts).onConflictDoUpdate({
+          target: profilesTable.userId,
+          set: excludedSet(getTableColumns(profilesTable))
+        })
+      ))),
+    Effect.zipRight(runWhen(diff.userLanguageRows.upserts.length > 0, () =>
+      runQuery(
+        runDb,
+        tx.insert(userLanguagesTable).values(diff.userLanguageRows.upserts).onConflictDoUpdate({
+          target: userLanguagesTable.userId,
+          set: excludedSet(getTableColumns(userLanguagesTable))
+        })
+      ))),
+    Effect.zipRight(upsertPairRows(args)),
+    Effect.zipRight(upsertSubscriptionRows(args)),
+    Effect.zipRight(upsertRoundRows(args))
+  )
+}
+
+// CHANGE: write only the rows that changed since the last persisted state
+// WHY: deleting and reinserting every table on each save grows with the whole history
+// QUOTE(TZ): "We want diff-based persistence that upserts or deletes only the changed chats, participants, profiles and history rows"
+// REF: user-013-incremental-persistence
+// SOURCE: n/a
+// FORMAT THEOREM: ∀p,n: sync(diff(p,n)) on db = p ⇒ db = n
+// PURITY: SHELL
+// EFFECT: Effect<void, E>
+// INVARIANT: children are deleted before their chat and parents are upserted before their children
+// COMPLEXITY: O(d)/O(d) where d = |changed rows|
+export const syncChangedRows = <E>(args: SyncOperationArgs<E>): Effect.Effect<void, E> =>
+  pipe(
+    deleteStaleRows(args),
+    Effect.zipRight(upsertChangedRows(args))
+  )
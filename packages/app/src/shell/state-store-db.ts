@@ -5,25 +5,42 @@ import { migrate } from "drizzle-orm/node-postgres/migrator"
 import { Effect, pipe } from "effect"
 
 import type { BotState } from "../core/domain.js"
+import type { BotEvent } from "../core/events.js"
 import {
   botMetaTable,
   chatsTable,
+  pairExclusionsTable,
   pairHistoryTable,
   participantsTable,
   pollsTable,
-  profilesTable
+  profilesTable,
+  roundFeedbackTable,
+  roundMembersTable,
+  roundsTable,
+  subscriptionsTable,
+  userLanguagesTable
 } from "./db/schema.js"
 import type { DrizzleDatabase } from "./drizzle.js"
+import { appendEvents, hasEvents, loadEvents } from "./state-store-db-events.js"
 import { makePersistState } from "./state-store-db-persist.js"
+import { attachStoredRounds } from "./state-store-db-rounds.js"
 import { buildStateFromRows } from "./state-store-db-rows.js"
 import type { DbRunner } from "./state-store-db-runner.js"
+import { attachStoredSubscriptions } from "./state-store-db-subscriptions.js"
 
 export type StateDb<E> = {
   readonly runMigrations: (
     db: DrizzleDatabase
   ) => Effect.Effect<void, E, FileSystem.FileSystem | Path.Path>
   readonly loadState: (db: DrizzleDatabase) => Effect.Effect<BotState | null, E>
-  readonly persistState: (db: DrizzleDatabase, state: BotState) => Effect.Effect<void, E>
+  readonly persistState: (
+    db: DrizzleDatabase,
+    state: BotState,
+    previous: BotState | null,
+    events: ReadonlyArray<BotEvent>
+  ) => Effect.Effect<void, E>
+  readonly ensureEventBaseline: (db: DrizzleDatabase, state: BotState) => Effect.Effect<void, E>
+  readonly loadEvents: (db: DrizzleDatabase) => Effect.Effect<ReadonlyArray<BotEvent>, E>
 }
 
 const metaRowId = 1
@@ -126,18 +143,30 @@ const loadNormalizedState = <E>(
     const polls = yield* _(runDb(() => db.select().from(pollsTable)))
     const participants = yield* _(runDb(() => db.select().from(participantsTable)))
     const profiles = yield* _(runDb(() => db.select().from(profilesTable)))
+    const userLanguages = yield* _(runDb(() => db.select().from(userLanguagesTable)))
     const histories = yield* _(runDb(() => db.select().from(pairHistoryTable)))
-    return yield* _(
+    const exclusions = yield* _(runDb(() => db.select().from(pairExclusionsTable)))
+    const subscriptions = yield* _(runDb(() => db.select().from(subscriptionsTable)))
+    const rounds = yield* _(runDb(() => db.select().from(roundsTable)))
+    const roundMembers = yield* _(runDb(() => db.select().from(roundMembersTable)))
+    const roundFeedback = yield* _(runDb(() => db.select().from(roundFeedbackTable)))
+    const state = yield* _(
       buildStateFromRows({
         meta,
         chats,
         polls,
         participants,
         profiles,
+        userLanguages,
         histories,
+        exclusions,
         onError
       })
     )
+    const withSubscriptions = yield* _(attachStoredSubscriptions(state, subscriptions, onError))
+    return yield* _(
+      attachStoredRounds(withSubscriptions, { rounds, members: roundMembers, feedback: roundFeedback, onError })
+    )
   })
 
 // CHANGE: load state exclusively from normalized tables (no JSON payload fallback)
@@ -147,7 +176,7 @@ const loadNormalizedState = <E>(
 // SOURCE: n/a
 // FORMAT THEOREM: ∀db: loadState(db) = normalized(db) ∨ null
 // PURITY: SHELL
-// EFFECT: Effect<{runMigrations, loadState, persistState}, E>
+// EFFECT: Effect<{runMigrations, loadState, persistState, ensureEventBaseline, loadEvents}, E>
 // INVARIANT: legacy payloads are never decoded
 // COMPLEXITY: O(n)/O(n)
 export const makeStateDb = <E>(
@@ -169,7 +198,13 @@ export const makeStateDb = <E>(
         }
         return null
       }),
-    persistState: persist
+    persistState: persist,
+    ensureEventBaseline: (db, state) =>
+      pipe(
+        hasEvents(db, runDb),
+        Effect.flatMap((present) => present ? Effect.void : appendEvents(db, runDb, [{ kind: "baseline", state }]))
+      ),
+    loadEvents: (db) => loadEvents(db, runDb, onError)
   }
 }
 
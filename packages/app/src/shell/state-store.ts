@@ -5,7 +5,10 @@ import { Context, Data, Effect, pipe, Ref } from "effect"
 import type { RngSeed } from "../core/brand.js"
 import type { BotState } from "../core/domain.js"
 import { emptyState } from "../core/domain.js"
+import { type BotEvent, replayEvents } from "../core/events.js"
+import { unsavedEvents } from "../core/journal.js"
 import { DrizzleService, type DrizzleServiceShape } from "./drizzle.js"
+import { differingTables } from "./state-store-db-diff.js"
 import { makeDbRunner, makeStateDb, type StateDb } from "./state-store-db.js"
 
 export class StateStoreError extends Data.TaggedError("StateStoreError")<{
@@ -81,7 +84,7 @@ const loadOrInitState = (
         ? Effect.succeed(state)
         : pipe(
           Effect.succeed(emptyState(initialSeed)),
-          Effect.tap((next) => persistState(db, next))
+          Effect.tap((next) => persistState(db, next, null, []))
         )
     )
   )
@@ -94,7 +97,8 @@ const loadOrInitState = (
 // FORMAT THEOREM: forall s: save(load(s)) = s
 // PURITY: SHELL
 // EFFECT: Effect<StateStoreShape, StateStoreError, DrizzleService | FileSystem | Path>
-// INVARIANT: state is schema-validated before use
+// INVARIANT: state is schema-validated before use; saves write only the rows changed since the last committed save
+// and the journal events not saved yet; the state handed out starts with an empty journal
 // COMPLEXITY: O(n)/O(n)
 export const makeStateStore = (
   initialSeed: RngSeed,
@@ -107,16 +111,52 @@ export const makeStateStore = (
   Effect.gen(function*(_) {
     const dbService = yield* _(DrizzleService)
     const db = dbService.db
-    const { loadState, persistState, runMigrations } = makeStateDbWithSchema(migrationsSchema)
+    const { ensureEventBaseline, loadState, persistState, runMigrations } = makeStateDbWithSchema(migrationsSchema)
     yield* _(runMigrations(db))
     const state = yield* _(loadOrInitState(db, initialSeed, loadState, persistState))
+    yield* _(ensureEventBaseline(db, state))
     const ref = yield* _(Ref.make(state))
+    const committed = yield* _(Ref.make(state))
+    const saved = yield* _(Ref.make<ReadonlyArray<BotEvent>>([]))
     return {
       get: Ref.get(ref),
-      set: (next: BotState) =>
-        pipe(
-          Ref.set(ref, next),
-          Effect.zipRight(persistState(db, next))
+      set: (next: BotState) => {
+        const settled = { ...next, journal: [] }
+        return pipe(
+          Ref.set(ref, settled),
+          Effect.zipRight(Effect.all([Ref.get(committed), Ref.get(saved)])),
+          Effect.flatMap(([previous, events]) => persistState(db, next, previous, unsavedEvents(next.journal, events))),
+          Effect.zipRight(Ref.set(committed, settled)),
+          Effect.zipRight(Ref.set(saved, next.journal))
         )
+      }
     }
   })
+
+export type ReplayReport =
+  | { readonly kind: "noBaseline" }
+  | { readonly kind: "checked"; readonly events: number; readonly mismatches: ReadonlyArray<string> }
+
+// CHANGE: rebuild the state from the event log and compare it with the stored snapshot
+// WHY: explain which votes, commands and seeds produced a stored pairing
+// QUOTE(TZ): "a replay tool that rebuilds `BotState` from the events and checks it matches the stored snapshot"
+// REF: user-014-event-log
+// SOURCE: n/a
+// FORMAT THEOREM: forall db: checked(db).mismatches = [] ⇔ rows(replay(log)) = rows(snapshot)
+// PURITY: SHELL
+// EFFECT: Effect<ReplayReport, StateStoreError, DrizzleService>
+// INVARIANT: the database is only read
+// COMPLEXITY: O(n)/O(n)
+export const replayStoredEvents = (): Effect.Effect<ReplayReport, StateStoreError, DrizzleService> =>
+  Effect.gen(function*(_) {
+    const { db } = yield* _(DrizzleService)
+    const { loadEvents, loadState } = makeStateDbWithSchema()
+    const events = yield* _(loadEvents(db))
+    const replayed = replayEvents(events)
+    if (replayed === null) {
+      return { kind: "noBaseline" }
+    }
+    const snapshot = yield* _(loadState(db))
+    const mismatches = snapshot === null ? ["snapshot"] : differingTables(replayed, snapshot)
+    return { kind: "checked", events: events.length, mismatches }
+  })
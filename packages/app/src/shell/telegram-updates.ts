@@ -0,0 +1,95 @@
+import type { Update, User } from "grammy/types"
+
+import { ChatId, PollId, UserId } from "../core/brand.js"
+import type { ChatType, Participant } from "../core/domain.js"
+import type { IncomingUpdate } from "../core/updates.js"
+
+export const allowedUpdates = ["message", "poll_answer", "my_chat_member", "callback_query"] as const
+
+const toChatType = (value: string): ChatType =>
+  value === "group" || value === "supergroup" || value === "private"
+    ? value
+    : "private"
+
+const toParticipant = (user: User): Participant => ({
+  id: UserId(user.id),
+  firstName: user.first_name,
+  lastName: user.last_name,
+  username: user.username
+})
+
+const extractChatSeen = (update: Update): IncomingUpdate["chatSeen"] => {
+  const fromMessage = update.message?.chat
+  const fromMember = update.my_chat_member?.chat
+  const chat = fromMessage ?? fromMember
+  if (!chat) {
+    return undefined
+  }
+  return {
+    chatId: ChatId(chat.id.toString()),
+    chatType: toChatType(chat.type),
+    chatTitle: chat.title
+  }
+}
+
+const extractPollVote = (update: Update): IncomingUpdate["pollVote"] => {
+  const pollAnswer = update.poll_answer
+  if (!pollAnswer) {
+    return undefined
+  }
+  return {
+    pollId: PollId(pollAnswer.poll_id),
+    participant: pollAnswer.user ? toParticipant(pollAnswer.user) : undefined,
+    optionIds: pollAnswer.option_ids
+  }
+}
+
+const extractMessage = (update: Update): IncomingUpdate["message"] => {
+  const message = update.message
+  const text = message?.text
+  if (!message || !text) {
+    return undefined
+  }
+  const from = toParticipant(message.from)
+  return {
+    chatId: ChatId(message.chat.id.toString()),
+    chatType: toChatType(message.chat.type),
+    text,
+    from,
+    messageThreadId: message.message_thread_id,
+    chatTitle: message.chat.title
+  }
+}
+
+const extractCallbackQuery = (update: Update): IncomingUpdate["callbackQuery"] => {
+  const callback = update.callback_query
+  const data = callback?.data
+  const message = callback?.message
+  if (!callback || !data || !message) {
+    return undefined
+  }
+  return {
+    chatId: ChatId(message.chat.id.toString()),
+    chatType: toChatType(message.chat.type),
+    data,
+    from: toParticipant(callback.from),
+    messageThreadId: message.message_thread_id
+  }
+}
+
+// CHANGE: convert a raw Telegram update into the domain update
+// WHY: long polling and webhooks must feed the same pipeline with the same shape
+// QUOTE(TZ): "feeds them through the same `applyUpdates` → `handleMessages` → `handleCommands` pipeline"
+// REF: user-011-webhook-mode
+// SOURCE: https://core.telegram.org/bots/api#update
+// FORMAT THEOREM: forall u: toIncomingUpdate(u).updateId = u.update_id
+// PURITY: SHELL
+// INVARIANT: unsupported update kinds keep only their id
+// COMPLEXITY: O(1)/O(1)
+export const toIncomingUpdate = (update: Update): IncomingUpdate => ({
+  updateId: update.update_id,
+  chatSeen: extractChatSeen(update),
+  pollVote: extractPollVote(update),
+  message: extractMessage(update),
+  callbackQuery: extractCallbackQuery(update)
+})
@@ -1,10 +1,10 @@
 import { Context, Data, Effect, pipe } from "effect"
 import { Bot, GrammyError, HttpError } from "grammy"
-import type { InlineKeyboardMarkup, ReplyKeyboardMarkup, Update, User } from "grammy/types"
+import type { InlineKeyboardMarkup, ReplyKeyboardMarkup } from "grammy/types"
 
 import { ChatId, MessageId, PollId, UserId } from "../core/brand.js"
-import type { ChatType, Participant } from "../core/domain.js"
 import type { IncomingUpdate } from "../core/updates.js"
+import { allowedUpdates, toIncomingUpdate } from "./telegram-updates.js"
 
 export class TelegramApiError extends Data.TaggedError("TelegramApiError")<{
   readonly description?: string | undefined
@@ -19,84 +19,6 @@ export class TelegramNetworkError extends Data.TaggedError("TelegramNetworkError
 
 export type TelegramError = TelegramApiError | TelegramNetworkError
 
-const toChatType = (value: string): ChatType =>
-  value === "group" || value === "supergroup" || value === "private"
-    ? value
-    : "private"
-
-const toParticipant = (user: User): Participant => ({
-  id: UserId(user.id),
-  firstName: user.first_name,
-  lastName: user.last_name,
-  username: user.username
-})
-
-const extractChatSeen = (update: Update): IncomingUpdate["chatSeen"] => {
-  const fromMessage = update.message?.chat
-  const fromMember = update.my_chat_member?.chat
-  const chat = fromMessage ?? fromMember
-  if (!chat) {
-    return undefined
-  }
-  return {
-    chatId: ChatId(chat.id.toString()),
-    chatType: toChatType(chat.type),
-    chatTitle: chat.title
-  }
-}
-
-const extractPollVote = (update: Update): IncomingUpdate["pollVote"] => {
-  const pollAnswer = update.poll_answer
-  if (!pollAnswer) {
-    return undefined
-  }
-  return {
-    pollId: PollId(pollAnswer.poll_id),
-    participant: pollAnswer.user ? toParticipant(pollAnswer.user) : undefined,
-    optionIds: pollAnswer.option_ids
-  }
-}
-
-const extractMessage = (update: Update): IncomingUpdate["message"] => {
-  const message = update.message
-  const text = message?.text
-  if (!message || !text) {
-    return undefined
-  }
-  const from = toParticipant(message.from)
-  return {
-    chatId: ChatId(message.chat.id.toString()),
-    chatType: toChatType(message.chat.type),
-    text,
-    from,
-    messageThreadId: message.message_thread_id,
-    chatTitle: message.chat.title
-  }
-}
-
-const extractCallbackQuery = (update: Update): IncomingUpdate["callbackQuery"] => {
-  const callback = update.callback_query
-  const data = callback?.data
-  const message = callback?.message
-  if (!callback || !data || !message) {
-    return undefined
-  }
-  return {
-    chatId: ChatId(message.chat.id.toString()),
-    chatType: toChatType(message.chat.type),
-    data,
-    messageThreadId: message.message_thread_id
-  }
-}
-
-const toIncomingUpdate = (update: Update): IncomingUpdate => ({
-  updateId: update.update_id,
-  chatSeen: extractChatSeen(update),
-  pollVote: extractPollVote(update),
-  message: extractMessage(update),
-  callbackQuery: extractCallbackQuery(update)
-})
-
 export type SendPollResult = {
   readonly pollId: PollId
   readonly messageId: MessageId
@@ -169,6 +91,11 @@ export type TelegramServiceShape = {
     chatId: ChatId
   ) => Effect.Effect<ChatInfo, TelegramError>
   readonly getMe: Effect.Effect<BotProfile, TelegramError>
+  readonly setWebhook: (
+    url: string,
+    secretToken: string
+  ) => Effect.Effect<void, TelegramError>
+  readonly deleteWebhook: Effect.Effect<void, TelegramError>
 }
 
 export class TelegramService extends Context.Tag("TelegramService")<
@@ -203,7 +130,7 @@ const makeGetUpdates = (
         bot.api.getUpdates({
           offset,
           timeout: timeoutSeconds,
-          allowed_updates: ["message", "poll_answer", "my_chat_member", "callback_query"]
+          allowed_updates: [...allowedUpdates]
         }),
       catch: (error) => mapError(error instanceof Error ? error : String(error))
     }),
@@ -360,6 +287,29 @@ const makePinChatMessage = (
     Effect.asVoid
   )
 
+const makeSetWebhook = (
+  bot: Bot
+): TelegramServiceShape["setWebhook"] =>
+(url, secretToken) =>
+  pipe(
+    Effect.tryPromise({
+      try: () => bot.api.setWebhook(url, { secret_token: secretToken, allowed_updates: [...allowedUpdates] }),
+      catch: (error) => mapError(error instanceof Error ? error : String(error))
+    }),
+    Effect.asVoid
+  )
+
+const makeDeleteWebhook = (
+  bot: Bot
+): TelegramServiceShape["deleteWebhook"] =>
+  pipe(
+    Effect.tryPromise({
+      try: () => bot.api.deleteWebhook(),
+      catch: (error) => mapError(error instanceof Error ? error : String(error))
+    }),
+    Effect.asVoid
+  )
+
 // CHANGE: construct a Telegram service backed by grammY
 // WHY: reuse a typed Telegram Bot API client instead of custom HTTP calls
 // QUOTE(TZ): "Используй значит grammy"
@@ -383,6 +333,8 @@ export const makeTelegramService = (token: string): TelegramServiceShape => {
     getChatMember: makeGetChatMember(bot),
     getChatMemberCount: makeGetChatMemberCount(bot),
     getChat: makeGetChat(bot),
-    getMe: makeGetMe(bot)
+    getMe: makeGetMe(bot),
+    setWebhook: makeSetWebhook(bot),
+    deleteWebhook: makeDeleteWebhook(bot)
   }
 }
@@ -1,6 +1,7 @@
-import { Data, Effect } from "effect"
+import { Data, Effect, Either } from "effect"
 
-import type { LocalDateParts, Weekday } from "../core/schedule.js"
+import type { Weekday } from "../core/domain.js"
+import type { LocalDateParts, ZonedTime } from "../core/schedule.js"
 
 export class TimeError extends Data.TaggedError("TimeError")<{
   readonly message: string
@@ -23,45 +24,85 @@ const parseLocalDateParts = (parts: Array<Intl.DateTimeFormatPart>): LocalDatePa
   return { year, month, day }
 }
 
+const parseMinuteOfDay = (parts: Array<Intl.DateTimeFormatPart>): number => {
+  const hour = Number(parts.find((part) => part.type === "hour")?.value ?? "0")
+  const minute = Number(parts.find((part) => part.type === "minute")?.value ?? "0")
+  return hour * 60 + minute
+}
+
 const parseWeekday = (value: string): Weekday => weekdayMap[value] ?? "Mon"
 
-// CHANGE: compute the local date and weekday for a timezone
+// CHANGE: compute the local date, weekday and time of day for a timezone
 // WHY: drive scheduling decisions without relying on mutable global time
 // QUOTE(TZ): "Создаёт опросник в пятницу/субботу а подводит итог в понедельник"
 // REF: user-2026-01-09-random-coffee
 // SOURCE: n/a
-// FORMAT THEOREM: forall now: result.weekday in Weekday
+// FORMAT THEOREM: forall now: result.weekday in Weekday ∧ 0 <= result.minuteOfDay < 1440
 // PURITY: SHELL
-// EFFECT: Effect<{parts, weekday}, TimeError, never>
+// EFFECT: Effect<ZonedTime, TimeError, never>
 // INVARIANT: local date parts are consistent with the given timezone
 // COMPLEXITY: O(1)/O(1)
 export const getZonedDate = (
   timeZone: string,
   now: Date
-): Effect.Effect<
-  { readonly parts: LocalDateParts; readonly weekday: Weekday },
-  TimeError
-> =>
+): Effect.Effect<ZonedTime, TimeError> =>
   Effect.try({
     try: () => {
       const dateFormatter = new Intl.DateTimeFormat("en-CA", {
         timeZone,
         year: "numeric",
         month: "2-digit",
-        day: "2-digit"
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        hourCycle: "h23"
       })
       const weekdayFormatter = new Intl.DateTimeFormat("en-US", {
         timeZone,
         weekday: "short"
       })
 
-      const parts = parseLocalDateParts(dateFormatter.formatToParts(now))
+      const dateParts = dateFormatter.formatToParts(now)
+      const parts = parseLocalDateParts(dateParts)
       const weekday = parseWeekday(weekdayFormatter.format(now))
 
-      return { parts, weekday }
+      return { parts, weekday, minuteOfDay: parseMinuteOfDay(dateParts) }
     },
     catch: (error) =>
       new TimeError({
         message: error instanceof Error ? error.message : String(error)
       })
   })
+
+// CHANGE: compute the local date of a chat with a fallback zone
+// WHY: each chat is scheduled in its own zone, while chats without one use the bot default
+// QUOTE(TZ): "The scheduler should evaluate each chat's decision in its own zone."
+// REF: user-009-chat-time-zones
+// SOURCE: n/a
+// FORMAT THEOREM: forall z,f,now: zoned(z,f,now) = getZonedDate(z ?? f, now) when z is valid
+// PURITY: SHELL
+// EFFECT: Effect<ZonedTime, TimeError, never>
+// INVARIANT: an unusable chat zone falls back to the default zone
+// COMPLEXITY: O(1)/O(1)
+export const getChatZonedDate = (
+  timeZone: string | null,
+  fallbackTimeZone: string,
+  now: Date
+): Effect.Effect<ZonedTime, TimeError> =>
+  timeZone === null
+    ? getZonedDate(fallbackTimeZone, now)
+    : Effect.orElse(getZonedDate(timeZone, now), () => getZonedDate(fallbackTimeZone, now))
+
+// CHANGE: validate and canonicalize an IANA time zone name
+// WHY: admins type zone names by hand, so typos must be rejected before they reach the scheduler
+// QUOTE(TZ): "set via an admin command and validated with `shell/time.ts`"
+// REF: user-009-chat-time-zones
+// SOURCE: https://developer.mozilla.org/docs/Web/JavaScript/Reference/Global_Objects/Intl/DateTimeFormat/resolvedOptions
+// FORMAT THEOREM: forall z: resolve(z) = null ∨ resolve(resolve(z)) = resolve(z)
+// PURITY: SHELL
+// INVARIANT: returns the runtime's canonical spelling, or null for unknown zones
+// COMPLEXITY: O(1)/O(1)
+export const resolveTimeZone = (value: string): string | null =>
+  Either.getOrNull(
+    Either.try(() => new Intl.DateTimeFormat("en-US", { timeZone: value }).resolvedOptions().timeZone)
+  )
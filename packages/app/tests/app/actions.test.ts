@@ -12,7 +12,8 @@ import {
   makeStateStoreStub,
   makeStateWithChat,
   makeStateWithPoll,
-  makeTelegramStub
+  makeTelegramStub,
+  yesNoPollOptions
 } from "./test-utils.js"
 
 const makeParticipant = (id: number, name: string, username: string) => ({ id: UserId(id), firstName: name, username })
@@ -24,18 +25,14 @@ const botProfile = {
 }
 const makeAdminTelegramBase = (): Pick<
   TelegramServiceShape,
-  "getChatMember" | "getChatMemberCount" | "getChat" | "getMe"
+  "getChatMember" | "getChatMemberCount" | "getChat" | "getMe" | "setWebhook" | "deleteWebhook"
 > => ({
   getChatMember: () => Effect.succeed("administrator"),
   getChatMemberCount: () => Effect.succeed(0),
-  getChat: () =>
-    Effect.succeed({
-      id: ChatId("0"),
-      title: undefined,
-      username: undefined,
-      inviteLink: undefined
-    }),
-  getMe: Effect.succeed(botProfile)
+  getChat: () => Effect.succeed({ id: ChatId("0"), title: undefined, username: undefined, inviteLink: undefined }),
+  getMe: Effect.succeed(botProfile),
+  setWebhook: () => Effect.void,
+  deleteWebhook: Effect.void
 })
 const makeSingleParticipantChat = (params: {
   readonly chatId: ChatId
@@ -56,7 +53,8 @@ const makeSingleParticipantChat = (params: {
       messageId: params.messageId,
       chatId: params.chatId,
       summaryDate: params.summaryDate,
-      threadId: null
+      threadId: null,
+      ...yesNoPollOptions
     },
     participants,
     title: "Closed Poll Chat"
@@ -64,6 +62,8 @@ const makeSingleParticipantChat = (params: {
   const state = makeStateWithPoll(params.chatId, chat, params.pollId, params.seed)
   return { chat, state }
 }
+const archivedGroupSizes = (state: BotState, chatId: ChatId) =>
+  (state.chats[chatId]?.rounds ?? []).map((round) => round.groups.map((group) => group.members.length))
 const runSummarize = (params: {
   readonly state: BotState
   readonly chatId: ChatId
@@ -73,7 +73,7 @@ const runSummarize = (params: {
   readonly messageId: MessageId
 }) =>
   Effect.gen(function*(_) {
-    const { messageCalls, pinCalls, stopPollCalls, telegram } = makeTelegramStub({
+    const { messageCalls, messageWithKeyboardCalls, pinCalls, stopPollCalls, telegram } = makeTelegramStub({
       pollResult: { pollId: params.pollId, messageId: params.messageId }
     })
     const { stateStore } = makeStateStoreStub(params.state)
@@ -87,7 +87,7 @@ const runSummarize = (params: {
         stateStore
       })
     )
-    return { next, messageCalls, pinCalls, stopPollCalls }
+    return { next, messageCalls, messageWithKeyboardCalls, pinCalls, stopPollCalls }
   })
 const makeAsyncTelegram = (
   pollDeferred: Deferred.Deferred<{ readonly pollId: PollId; readonly messageId: MessageId }>
@@ -165,7 +165,7 @@ describe("actions", () => {
       expect(pollCalls.length).toBe(1)
       expect(pinCalls.length).toBe(1)
       expect(pinCalls[0]?.messageId).toBe(MessageId(100))
-      expect(pollCalls[0]?.options.length).toBe(2)
+      expect(pollCalls[0]?.options.length).toBe(5)
       expect(pollCalls[0]?.question.startsWith("Hi! Will you join Random Coffee")).toBe(true)
       expect(next.chats[chatId]?.poll?.summaryDate).toBe(summaryDate)
       expect(Object.keys(next.pollIndex).length).toBe(1)
@@ -181,18 +181,12 @@ describe("actions", () => {
       const participants = upsertParticipant(upsertParticipant({}, alice), bob)
       const chat = {
         ...emptyChatState(RngSeed(10)),
-        poll: {
-          pollId,
-          messageId: MessageId(10),
-          chatId,
-          summaryDate,
-          threadId: 99
-        },
+        poll: { pollId, messageId: MessageId(10), chatId, summaryDate, threadId: 99, ...yesNoPollOptions },
         participants,
         title: "Unicorn Embassy | Georgia"
       }
       const state = makeStateWithPoll(chatId, chat, pollId, RngSeed(2))
-      const { messageCalls, next, pinCalls, stopPollCalls } = yield* _(
+      const { messageCalls, messageWithKeyboardCalls, next, pinCalls, stopPollCalls } = yield* _(
         runSummarize({
           state,
           chatId,
@@ -202,11 +196,12 @@ describe("actions", () => {
           messageId: MessageId(10)
         })
       )
-      const { summaryCall } = expectSummaryCalls(messageCalls, chatId, 2)
+      const { summaryCall } = expectSummaryCalls(messageCalls, chatId, 2, messageWithKeyboardCalls)
       expect(summaryCall.text.includes("Pairs for Unicorn Embassy | Georgia")).toBe(true)
       expect([pinCalls.length, stopPollCalls.length]).toEqual([1, 1])
       expect([next.chats[chatId]?.poll, Object.keys(next.chats[chatId]?.participants ?? {}).length]).toEqual([null, 0])
       expect(next.chats[chatId]?.lastSummaryAt).toBe(summaryDate)
+      expect(archivedGroupSizes(next, chatId)).toEqual([[2]])
     }))
   it.effect("summarize ignores already closed poll errors", () =>
     Effect.gen(function*(_) {
@@ -241,7 +236,7 @@ describe("actions", () => {
       expect(Object.keys(next.pollIndex).length).toBe(0)
       expect(stopPollCalls.length).toBe(1)
       expect(messageCalls.length).toBe(1)
-      expect(messageCalls[0]?.text).toBe(formatPollClosedNoResults())
+      expect(messageCalls[0]?.text).toBe(formatPollClosedNoResults("en"))
       expect(setCalls.length).toBe(1)
     }))
   it.effect("summarize mentions leftover participants when no pairs", () =>
@@ -270,6 +265,7 @@ describe("actions", () => {
       expect(summaryCall.text.includes("Not enough participants to make pairs")).toBe(true)
       expect(summaryCall.text.includes("@alice")).toBe(true)
       expect(next.chats[chatId]?.poll).toBeNull()
+      expect(next.chats[chatId]?.rounds[0]?.leftovers).toEqual([makeParticipant(1, "Alice", "alice")])
     }))
   it.effect("createPoll waits for async sendPoll before updating state", () =>
     Effect.gen(function*(_) {
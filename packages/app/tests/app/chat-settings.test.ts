@@ -0,0 +1,317 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect } from "effect"
+
+import { createPoll, summarize } from "../../src/app/actions.js"
+import { handleCommands } from "../../src/app/commands.js"
+import { ChatId, LocalDateString, MessageId, PollId, RngSeed } from "../../src/core/brand.js"
+import type { BotState } from "../../src/core/domain.js"
+import { emptyState } from "../../src/core/domain.js"
+import { yesNoMeetingFormats } from "../../src/core/meeting-format.js"
+import { upsertParticipant } from "../../src/core/participants.js"
+import { chatPollFormats, chatPollWording, setPollWording } from "../../src/core/poll-wording.js"
+import { emptyChatState, ensureChat, setChatTimeZone } from "../../src/core/state.js"
+import { replyChatLanguageSaved, replyPollWordingSaved, replyPollWordingUsage } from "../../src/core/text-settings.js"
+import { messages } from "../../src/core/text.js"
+import {
+  expectSummaryCalls,
+  makeMessageUpdate,
+  makeParticipant,
+  makeStateStoreStub,
+  makeStateWithChat,
+  makeStateWithPoll,
+  makeTelegramStub
+} from "./test-utils.js"
+
+const runChatCommand = (state: BotState, chatId: ChatId, text: string) =>
+  Effect.gen(function*(_) {
+    const { messageCalls, telegram } = makeTelegramStub()
+    const { stateStore } = makeStateStoreStub(state)
+    const next = yield* _(
+      handleCommands({
+        state,
+        updates: [makeMessageUpdate({ updateId: 1, chatId, text, from: makeParticipant(1, "Admin") })],
+        telegram,
+        stateStore,
+        timeZone: "UTC"
+      })
+    )
+    return { messageCalls, next }
+  })
+
+describe("triples", () => {
+  it.effect("/triples on enables triple pairings for admins", () =>
+    Effect.gen(function*(_) {
+      const chatId = ChatId("-801")
+      const { messageCalls, next } = yield* _(runChatCommand(emptyState(RngSeed(7)), chatId, "/triples on"))
+      expect(next.chats[chatId]?.allowTriples).toBe(true)
+      expect(messageCalls[0]?.text.startsWith("Triples enabled.")).toBe(true)
+    }))
+
+  it.effect("/triples without a valid argument shows usage and keeps the mode", () =>
+    Effect.gen(function*(_) {
+      const chatId = ChatId("-802")
+      const { messageCalls, next } = yield* _(runChatCommand(emptyState(RngSeed(8)), chatId, "/triples maybe"))
+      expect(next.chats[chatId]?.allowTriples).toBe(false)
+      expect(messageCalls[0]?.text).toBe("Triples are off. Use: /triples on or /triples off")
+    }))
+
+  it.effect("summarize folds the odd participant into a triple when triples are enabled", () =>
+    Effect.gen(function*(_) {
+      const chatId = ChatId("-803")
+      const pollId = PollId("poll-triple")
+      const summaryDate = LocalDateString("2026-01-12")
+      const members = [makeParticipant(1, "Alice"), makeParticipant(2, "Bob"), makeParticipant(3, "Carol")]
+      let participants = {}
+      for (const member of members) {
+        participants = upsertParticipant(participants, member)
+      }
+      const chat = {
+        ...emptyChatState(RngSeed(13)),
+        poll: {
+          pollId,
+          messageId: MessageId(13),
+          chatId,
+          summaryDate,
+          threadId: null,
+          joinOption: 0,
+          formats: yesNoMeetingFormats,
+          standbyOption: null
+        },
+        participants,
+        allowTriples: true
+      }
+      const state = makeStateWithPoll(chatId, chat, pollId, RngSeed(3))
+      const { messageCalls, telegram } = makeTelegramStub()
+      const { stateStore } = makeStateStoreStub(state)
+      const next = yield* _(summarize({ state, chatId, chat, summaryDate, telegram, stateStore }))
+      const { summaryCall } = expectSummaryCalls(messageCalls, chatId, 3)
+      const directCalls = messageCalls.filter((call) => call.chatId !== chatId)
+      expect(summaryCall.text.includes("No match this week")).toBe(false)
+      expect(summaryCall.text.includes("group of three")).toBe(true)
+      expect(directCalls.every((call) => call.text.includes("втроём"))).toBe(true)
+      expect(Object.keys(next.chats[chatId]?.history ?? {}).length).toBe(3)
+    }))
+})
+
+describe("decay", () => {
+  it.effect("/decay sets the history half-life in weeks", () =>
+    Effect.gen(function*(_) {
+      const chatId = ChatId("-811")
+      const { messageCalls, next } = yield* _(runChatCommand(emptyState(RngSeed(9)), chatId, "/decay 4"))
+      expect(next.chats[chatId]?.historyHalfLifeWeeks).toBe(4)
+      expect(messageCalls[0]?.text).toBe("Decay saved. A past meeting counts half as much after 4 week(s).")
+    }))
+
+  it.effect("/decay off disables decay", () =>
+    Effect.gen(function*(_) {
+      const chatId = ChatId("-812")
+      const state = makeStateWithChat(chatId, { ...emptyChatState(RngSeed(10)), historyHalfLifeWeeks: 4 }, RngSeed(10))
+      const { next } = yield* _(runChatCommand(state, chatId, "/decay off"))
+      expect(next.chats[chatId]?.historyHalfLifeWeeks).toBeNull()
+    }))
+
+  it.effect("/decay rejects non-positive values and shows the current half-life", () =>
+    Effect.gen(function*(_) {
+      const chatId = ChatId("-813")
+      const { messageCalls, next } = yield* _(runChatCommand(emptyState(RngSeed(11)), chatId, "/decay 0"))
+      expect(next.chats[chatId]?.historyHalfLifeWeeks).toBeNull()
+      expect(messageCalls[0]?.text).toBe("Decay half-life is off. Use: /decay 12 or /decay off")
+    }))
+})
+
+describe("schedule", () => {
+  it.effect("/schedule sets the poll and summary days", () =>
+    Effect.gen(function*(_) {
+      const chatId = ChatId("-814")
+      const { messageCalls, next } = yield* _(runChatCommand(emptyState(RngSeed(12)), chatId, "/schedule wed thu"))
+      expect(next.chats[chatId]?.schedule).toEqual({ pollDay: "Wed", summaryDay: "Thu" })
+      expect(messageCalls[0]?.text).toBe("Schedule saved: polls open on Wed and results are posted on Thu.")
+    }))
+
+  it.effect("/schedule with one day shows the current schedule", () =>
+    Effect.gen(function*(_) {
+      const chatId = ChatId("-815")
+      const { messageCalls, next } = yield* _(runChatCommand(emptyState(RngSeed(13)), chatId, "/schedule wed"))
+      expect(next.chats[chatId]?.schedule).toEqual({ pollDay: "Fri", summaryDay: "Mon" })
+      expect(messageCalls[0]?.text).toBe(
+        "Currently polls open on Fri and results are posted on Mon. Use: /schedule wed thu"
+      )
+    }))
+})
+
+describe("frequency", () => {
+  it.effect("/frequency sets how often rounds run", () =>
+    Effect.gen(function*(_) {
+      const chatId = ChatId("-816")
+      const { messageCalls, next } = yield* _(runChatCommand(emptyState(RngSeed(14)), chatId, "/frequency Biweekly"))
+      expect(next.chats[chatId]?.roundFrequency).toBe("biweekly")
+      expect(messageCalls[0]?.text).toBe("Frequency saved. Rounds now run every two weeks.")
+    }))
+
+  it.effect("/frequency rejects unknown values", () =>
+    Effect.gen(function*(_) {
+      const chatId = ChatId("-817")
+      const { messageCalls, next } = yield* _(runChatCommand(emptyState(RngSeed(15)), chatId, "/frequency daily"))
+      expect(next.chats[chatId]?.roundFrequency).toBe("weekly")
+      expect(messageCalls[0]?.text.startsWith("Rounds run every week.")).toBe(true)
+    }))
+})
+
+describe("timezone", () => {
+  it.effect("/timezone stores the canonical zone name", () =>
+    Effect.gen(function*(_) {
+      const chatId = ChatId("-818")
+      const { messageCalls, next } = yield* _(
+        runChatCommand(emptyState(RngSeed(16)), chatId, "/timezone europe/berlin")
+      )
+      expect(next.chats[chatId]?.timeZone).toBe("Europe/Berlin")
+      expect(messageCalls[0]?.text).toBe("Time zone saved. Polls and summaries now follow Europe/Berlin.")
+    }))
+
+  it.effect("/timezone rejects unknown zones", () =>
+    Effect.gen(function*(_) {
+      const chatId = ChatId("-819")
+      const { messageCalls, next } = yield* _(runChatCommand(emptyState(RngSeed(17)), chatId, "/timezone Mars/Base"))
+      expect(next.chats[chatId]?.timeZone).toBeNull()
+      expect(messageCalls[0]?.text).toBe(
+        "Current time zone: bot default. Use: /timezone Europe/Berlin or /timezone default"
+      )
+    }))
+
+  it.effect("/timezone default falls back to the bot zone", () =>
+    Effect.gen(function*(_) {
+      const chatId = ChatId("-820")
+      const state = setChatTimeZone(ensureChat(emptyState(RngSeed(18)), chatId), chatId, "Asia/Tokyo")
+      const { messageCalls, next } = yield* _(runChatCommand(state, chatId, "/timezone default"))
+      expect(next.chats[chatId]?.timeZone).toBeNull()
+      expect(messageCalls[0]?.text).toBe("Time zone reset to the bot default.")
+    }))
+})
+
+describe("time", () => {
+  it.effect("/time sets the poll and summary times", () =>
+    Effect.gen(function*(_) {
+      const chatId = ChatId("-821")
+      const { messageCalls, next } = yield* _(runChatCommand(emptyState(RngSeed(19)), chatId, "/time 9:30 18:00"))
+      expect(next.chats[chatId]?.scheduleTimes).toEqual({ pollTime: 570, summaryTime: 1080 })
+      expect(messageCalls[0]?.text).toBe("Times saved: polls open at 09:30 and results are posted at 18:00.")
+    }))
+
+  it.effect("/time rejects malformed times", () =>
+    Effect.gen(function*(_) {
+      const chatId = ChatId("-822")
+      const { messageCalls, next } = yield* _(runChatCommand(emptyState(RngSeed(20)), chatId, "/time 25:00 18:00"))
+      expect(next.chats[chatId]?.scheduleTimes).toEqual({ pollTime: 0, summaryTime: 0 })
+      expect(messageCalls[0]?.text).toBe(
+        "Currently polls open at 00:00 and results are posted at 00:00. Use: /time 10:00 18:00"
+      )
+    }))
+})
+
+describe("language", () => {
+  it.effect("/language ru switches the chat and replies in Russian", () =>
+    Effect.gen(function*(_) {
+      const chatId = ChatId("-823")
+      const { messageCalls, next } = yield* _(runChatCommand(emptyState(RngSeed(21)), chatId, "/language ru"))
+      expect(next.chats[chatId]?.language).toBe("ru")
+      expect(messageCalls[0]?.text).toBe(replyChatLanguageSaved("ru", "ru"))
+    }))
+
+  it.effect("/language rejects unknown languages", () =>
+    Effect.gen(function*(_) {
+      const chatId = ChatId("-824")
+      const { messageCalls, next } = yield* _(runChatCommand(emptyState(RngSeed(22)), chatId, "/language de"))
+      expect(next.chats[chatId]?.language).toBeNull()
+      expect(messageCalls[0]?.text).toBe("Chat language: default. Use: /language en, /language ru or /language default")
+    }))
+
+  it.effect("/language in a private chat sets the member's own language", () =>
+    Effect.gen(function*(_) {
+      const member = makeParticipant(5, "Eve")
+      const state = emptyState(RngSeed(23))
+      const { messageCalls, telegram } = makeTelegramStub()
+      const { stateStore } = makeStateStoreStub(state)
+      const next = yield* _(
+        handleCommands({
+          state,
+          updates: [
+            makeMessageUpdate({
+              updateId: 1,
+              chatId: ChatId("5"),
+              text: "/language en",
+              from: member,
+              chatType: "private"
+            })
+          ],
+          telegram,
+          stateStore,
+          timeZone: "UTC"
+        })
+      )
+      expect(next.userLanguages).toEqual({ "5": "en" })
+      expect(messageCalls[0]?.text).toBe("Done. I will write to you in English.")
+    }))
+})
+
+describe("poll wording", () => {
+  it.effect("/pollwording stores the question, options and join option", () =>
+    Effect.gen(function*(_) {
+      const chatId = ChatId("-825")
+      const { messageCalls, next } = yield* _(
+        runChatCommand(emptyState(RngSeed(24)), chatId, "/pollwording Coffee next week? | Not this time | *Count me in")
+      )
+      const pollWording = { question: "Coffee next week?", options: ["Not this time", "Count me in"], joinOption: 1 }
+      expect(next.chats[chatId]?.pollWording).toEqual(pollWording)
+      expect(messageCalls[0]?.text).toBe(replyPollWordingSaved("en", pollWording))
+    }))
+
+  it.effect("/pollwording tells the admin that a custom poll has no format choice", () =>
+    Effect.gen(function*(_) {
+      const chatId = ChatId("-829")
+      const { messageCalls, next } = yield* _(
+        runChatCommand(emptyState(RngSeed(27)), chatId, "/pollwording Coffee next week? | *Count me in | Not this time")
+      )
+      const chat = next.chats[chatId]
+      expect(messageCalls[0]?.text).toContain(messages("en").pollWordingFormats)
+      expect(chat === undefined ? null : chatPollFormats(chat)).toEqual(yesNoMeetingFormats)
+    }))
+
+  it.effect("/pollwording default restores the built-in wording", () =>
+    Effect.gen(function*(_) {
+      const chatId = ChatId("-826")
+      const state = setPollWording(ensureChat(emptyState(RngSeed(25)), chatId), chatId, {
+        question: "Coffee?",
+        options: ["Yes", "No"],
+        joinOption: 0
+      })
+      const { messageCalls, next } = yield* _(runChatCommand(state, chatId, "/pollwording default"))
+      expect(next.chats[chatId]?.pollWording).toBeNull()
+      expect(messageCalls[0]?.text).toBe(replyPollWordingSaved("en", null))
+    }))
+
+  it.effect("/pollwording rejects a single option and keeps state", () =>
+    Effect.gen(function*(_) {
+      const chatId = ChatId("-827")
+      const state = ensureChat(emptyState(RngSeed(26)), chatId)
+      const { messageCalls, next } = yield* _(runChatCommand(state, chatId, "/pollwording Coffee? | Yes"))
+      expect(next.chats[chatId]?.pollWording).toBeNull()
+      expect(messageCalls[0]?.text).toBe(replyPollWordingUsage("en", chatPollWording(emptyChatState(RngSeed(26)))))
+    }))
+
+  it.effect("createPoll sends the chat's custom wording and remembers its join option", () =>
+    Effect.gen(function*(_) {
+      const chatId = ChatId("-828")
+      const pollWording = { question: "Coffee?", options: ["Skip", "Yes", "Maybe"], joinOption: 1 }
+      const chat = { ...emptyChatState(RngSeed(1)), pollWording }
+      const state = makeStateWithChat(chatId, chat, RngSeed(1))
+      const { pollCalls, telegram } = makeTelegramStub()
+      const { stateStore } = makeStateStoreStub(state)
+      const next = yield* _(
+        createPoll({ state, chatId, chat, summaryDate: LocalDateString("2026-01-12"), telegram, stateStore })
+      )
+      expect(pollCalls[0]?.question).toBe("Coffee?")
+      expect(pollCalls[0]?.options).toEqual(["Skip", "Yes", "Maybe", messages("en").pollStandbyOption])
+      expect(next.chats[chatId]?.poll?.joinOption).toBe(1)
+      expect(next.chats[chatId]?.poll?.standbyOption).toBe(3)
+    }))
+})
@@ -15,7 +15,8 @@ import {
   makeParticipant,
   makeStateStoreStub,
   makeStateWithPoll,
-  makeTelegramStub
+  makeTelegramStub,
+  yesNoPollOptions
 } from "./test-utils.js"
 
 const runCommands = (params: {
@@ -45,7 +46,7 @@ const runWithStubs = (params: {
     const options = params.pollResult
       ? { pollResult: params.pollResult }
       : undefined
-    const { messageCalls, pollCalls, setMemberStatus, telegram } = makeTelegramStub({
+    const { messageCalls, messageWithKeyboardCalls, pollCalls, setMemberStatus, telegram } = makeTelegramStub({
       ...options,
       botUsername: params.botUsername
     })
@@ -62,7 +63,7 @@ const runWithStubs = (params: {
         botUsername: params.botUsername
       })
     )
-    return { next, messageCalls, pollCalls }
+    return { next, messageCalls, messageWithKeyboardCalls, pollCalls }
   })
 
 describe("commands", () => {
@@ -173,7 +174,8 @@ describe("commands", () => {
           messageId: MessageId(1),
           chatId,
           summaryDate,
-          threadId: null
+          threadId: null,
+          ...yesNoPollOptions
         }
       }
       const base = makeStateWithPoll(chatId, chat, pollId, RngSeed(3))
@@ -210,13 +212,14 @@ describe("commands", () => {
           messageId: MessageId(2),
           chatId,
           summaryDate,
-          threadId: null
+          threadId: null,
+          ...yesNoPollOptions
         },
         participants,
         title: "Test Group"
       }
       const base = makeStateWithPoll(chatId, chat, pollId, RngSeed(4))
-      const { messageCalls, next } = yield* _(
+      const { messageCalls, messageWithKeyboardCalls, next } = yield* _(
         runWithStubs({
           state: base,
           update,
@@ -224,7 +227,7 @@ describe("commands", () => {
         })
       )
 
-      const { summaryCall } = expectSummaryCalls(messageCalls, chatId, 2)
+      const { summaryCall } = expectSummaryCalls(messageCalls, chatId, 2, messageWithKeyboardCalls)
       expect(summaryCall.text.includes("Pairs for Test Group")).toBe(true)
       expect(next.chats[chatId]?.poll).toBeNull()
       expect(next.chats[chatId]?.lastSummaryAt).not.toBeNull()
@@ -249,7 +252,8 @@ describe("commands", () => {
           messageId: MessageId(5),
           chatId,
           summaryDate,
-          threadId: null
+          threadId: null,
+          ...yesNoPollOptions
         }
       }
       const base = makeStateWithPoll(chatId, chat, pollId, RngSeed(5))
@@ -282,7 +286,8 @@ describe("commands", () => {
           messageId: MessageId(6),
           chatId,
           summaryDate,
-          threadId: null
+          threadId: null,
+          ...yesNoPollOptions
         }
       }
       const base = makeStateWithPoll(chatId, chat, pollId, RngSeed(6))
@@ -204,7 +204,7 @@ describe("diagnostics", () => {
       }
     }))
 
-  it.effect("private profile text is stored only after profile flow", () =>
+  it.effect("private profile is stored only after the last wizard step", () =>
     Effect.gen(function*(_) {
       const chatId = ChatId("2006")
       const user = makeParticipant(99, "Profile")
@@ -221,20 +221,36 @@ describe("diagnostics", () => {
         })
       )
 
+      let state = afterFlow
+      for (const [index, text] of ["Дизайнер", "Пропустить", "Кофе", "Берлин", "EN, RU"].entries()) {
+        const { next } = yield* _(
+          runStart({
+            state,
+            update: makeMessageUpdate({ updateId: 10 + index, chatId, text, from: user, chatType: "private" })
+          })
+        )
+        expect(next.profiles[user.id.toString()]).toBeUndefined()
+        state = next
+      }
+
       const { messageCalls, messageWithKeyboardCalls, next } = yield* _(
         runStart({
-          state: afterFlow,
-          update: makeMessageUpdate({
-            updateId: 9,
-            chatId,
-            text: "Привет",
-            from: user,
-            chatType: "private"
-          })
+          state,
+          update: makeCallbackUpdate({ updateId: 20, chatId, data: "profile:format:online", from: user })
         })
       )
 
-      expect(next.profiles[user.id.toString()]?.text).toBe("Привет")
+      expect(next.profiles[user.id.toString()]).toEqual({
+        userId: user.id,
+        about: null,
+        occupation: "Дизайнер",
+        interests: null,
+        hooks: "Кофе",
+        city: "Берлин",
+        languages: "EN, RU",
+        meetingFormat: "online"
+      })
+      expect(next.pendingProfileEdits).toEqual({})
       expect(messageCalls.length).toBe(0)
       const savedCall = messageWithKeyboardCalls[0]
       expect(savedCall?.text.startsWith("Готово!")).toBe(true)
@@ -255,7 +271,7 @@ describe("diagnostics", () => {
 
       expectProfileIntro(messageCalls)
       expectProfileWidget(messageCalls)
-      expect(messageWithKeyboardCalls.length).toBe(0)
+      expect(messageWithKeyboardCalls[0]?.text.startsWith("1/6 · ")).toBe(true)
     }))
 
   it.effect("legacy profile label callback is accepted", () =>
@@ -271,6 +287,6 @@ describe("diagnostics", () => {
 
       expectProfileIntro(messageCalls)
       expectProfileWidget(messageCalls)
-      expect(messageWithKeyboardCalls.length).toBe(0)
+      expect(messageWithKeyboardCalls[0]?.text.startsWith("1/6 · ")).toBe(true)
     }))
 })
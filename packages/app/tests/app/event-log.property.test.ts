@@ -0,0 +1,316 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect, Match, Schema } from "effect"
+import fc from "fast-check"
+
+import { ChatId, LocalDateString, MessageId, PollId, RngSeed, UserId } from "../../src/core/brand.js"
+import type { BotState, ChatMode, Language, Pairing, Participant, PollWording, Weekday } from "../../src/core/domain.js"
+import { emptyState } from "../../src/core/domain.js"
+import { type BotEvent, replayEvents } from "../../src/core/events.js"
+import {
+  applyFeedbackChoice,
+  applyFeedbackComment,
+  type FeedbackChoice,
+  markFeedbackRequested
+} from "../../src/core/feedback.js"
+import { setChatLanguage, setUserLanguage } from "../../src/core/language.js"
+import { yesNoMeetingFormats } from "../../src/core/meeting-format.js"
+import { listParticipants } from "../../src/core/participants.js"
+import { chatPollFormats, chatPollStandbyOption, chatPollWording, setPollWording } from "../../src/core/poll-wording.js"
+import { startProfileDraft } from "../../src/core/profile-wizard.js"
+import { applyRematchAction } from "../../src/core/rematch.js"
+import { markMeetingArranged, markReminderSent, setReminderDay } from "../../src/core/reminders.js"
+import { nextSeed } from "../../src/core/rng.js"
+import { buildRoundRecord } from "../../src/core/rounds.js"
+import {
+  addChatExclusion,
+  addVote,
+  applySummary,
+  ensureChat,
+  finishPoll,
+  markProfileEdit,
+  removeChatExclusion,
+  removeVote,
+  setAllowTriples,
+  setChatInviteLink,
+  setChatTimeZone,
+  setChatTitle,
+  setThreadId,
+  setUserProfile,
+  startPoll
+} from "../../src/core/state.js"
+import { setChatMode, skipRound, subscribe, unsubscribe } from "../../src/core/subscriptions.js"
+import { applyUpdates } from "../../src/core/updates.js"
+import { BotEventSchema } from "../../src/shell/event-schema.js"
+
+type Op =
+  | { readonly kind: "addChat"; readonly chat: number }
+  | { readonly kind: "title"; readonly chat: number; readonly title: string }
+  | { readonly kind: "thread"; readonly chat: number; readonly threadId: number | null }
+  | { readonly kind: "link"; readonly chat: number; readonly link: string | null }
+  | { readonly kind: "triples"; readonly chat: number; readonly value: boolean }
+  | { readonly kind: "timeZone"; readonly chat: number; readonly value: string | null }
+  | { readonly kind: "exclude"; readonly chat: number; readonly user: number; readonly other: number }
+  | { readonly kind: "unexclude"; readonly chat: number; readonly user: number; readonly other: number }
+  | { readonly kind: "startPoll"; readonly chat: number }
+  | { readonly kind: "vote"; readonly chat: number; readonly user: number; readonly yes: boolean }
+  | { readonly kind: "summary"; readonly chat: number; readonly day: number }
+  | { readonly kind: "finish"; readonly chat: number }
+  | { readonly kind: "profile"; readonly user: number; readonly city: string | null }
+  | { readonly kind: "draft"; readonly user: number }
+  | { readonly kind: "survey"; readonly chat: number }
+  | { readonly kind: "answer"; readonly chat: number; readonly user: number; readonly choice: FeedbackChoice }
+  | { readonly kind: "comment"; readonly user: number; readonly text: string }
+  | { readonly kind: "reminderDay"; readonly chat: number; readonly value: Weekday | null }
+  | { readonly kind: "remind"; readonly chat: number }
+  | { readonly kind: "arrange"; readonly chat: number; readonly user: number }
+  | { readonly kind: "rematch"; readonly chat: number; readonly user: number }
+  | { readonly kind: "chatLanguage"; readonly chat: number; readonly value: Language | null }
+  | { readonly kind: "userLanguage"; readonly user: number; readonly value: Language | null }
+  | { readonly kind: "pollWording"; readonly chat: number; readonly value: PollWording | null }
+  | { readonly kind: "mode"; readonly chat: number; readonly value: ChatMode }
+  | { readonly kind: "subscribe"; readonly chat: number; readonly user: number; readonly subscribed: boolean }
+  | { readonly kind: "skip"; readonly chat: number; readonly user: number; readonly day: number }
+  | { readonly kind: "offset"; readonly value: number }
+
+const chatArb = fc.integer({ min: 1, max: 3 })
+const userArb = fc.integer({ min: 1, max: 5 })
+
+const opArb: fc.Arbitrary<Op> = fc.oneof(
+  fc.record({ kind: fc.constant("addChat" as const), chat: chatArb }),
+  fc.record({ kind: fc.constant("title" as const), chat: chatArb, title: fc.constantFrom("Team", "Crew") }),
+  fc.record({ kind: fc.constant("thread" as const), chat: chatArb, threadId: fc.constantFrom(null, 7) }),
+  fc.record({ kind: fc.constant("link" as const), chat: chatArb, link: fc.constantFrom(null, "https://t.me/x") }),
+  fc.record({ kind: fc.constant("triples" as const), chat: chatArb, value: fc.boolean() }),
+  fc.record({ kind: fc.constant("timeZone" as const), chat: chatArb, value: fc.constantFrom(null, "Europe/Berlin") }),
+  fc.record({ kind: fc.constant("exclude" as const), chat: chatArb, user: userArb, other: userArb }),
+  fc.record({ kind: fc.constant("unexclude" as const), chat: chatArb, user: userArb, other: userArb }),
+  fc.record({ kind: fc.constant("startPoll" as const), chat: chatArb }),
+  fc.record({ kind: fc.constant("vote" as const), chat: chatArb, user: userArb, yes: fc.boolean() }),
+  fc.record({ kind: fc.constant("summary" as const), chat: chatArb, day: fc.integer({ min: 10, max: 28 }) }),
+  fc.record({ kind: fc.constant("finish" as const), chat: chatArb }),
+  fc.record({ kind: fc.constant("profile" as const), user: userArb, city: fc.constantFrom(null, "Berlin", "Riga") }),
+  fc.record({ kind: fc.constant("draft" as const), user: userArb }),
+  fc.record({ kind: fc.constant("survey" as const), chat: chatArb }),
+  fc.record({
+    kind: fc.constant("answer" as const),
+    chat: chatArb,
+    user: userArb,
+    choice: fc.constantFrom<FeedbackChoice>("met", "missed", "great", "bad", "skip")
+  }),
+  fc.record({ kind: fc.constant("comment" as const), user: userArb, text: fc.constantFrom("Nice", "") }),
+  fc.record({
+    kind: fc.constant("reminderDay" as const),
+    chat: chatArb,
+    value: fc.constantFrom<Weekday | null>(null, "Wed")
+  }),
+  fc.record({ kind: fc.constant("remind" as const), chat: chatArb }),
+  fc.record({ kind: fc.constant("arrange" as const), chat: chatArb, user: userArb }),
+  fc.record({ kind: fc.constant("rematch" as const), chat: chatArb, user: userArb }),
+  fc.record({
+    kind: fc.constant("chatLanguage" as const),
+    chat: chatArb,
+    value: fc.constantFrom<Language | null>(null, "en", "ru")
+  }),
+  fc.record({
+    kind: fc.constant("userLanguage" as const),
+    user: userArb,
+    value: fc.constantFrom<Language | null>(null, "en", "ru")
+  }),
+  fc.record({
+    kind: fc.constant("pollWording" as const),
+    chat: chatArb,
+    value: fc.constantFrom<PollWording | null>(
+      null,
+      { question: "Coffee?", options: ["Yes", "No"], joinOption: 0 },
+      { question: "Skip a week?", options: ["Skip", "Count me in"], joinOption: 1 }
+    )
+  }),
+  fc.record({
+    kind: fc.constant("mode" as const),
+    chat: chatArb,
+    value: fc.constantFrom<ChatMode>("poll", "subscription")
+  }),
+  fc.record({ kind: fc.constant("subscribe" as const), chat: chatArb, user: userArb, subscribed: fc.boolean() }),
+  fc.record({
+    kind: fc.constant("skip" as const),
+    chat: chatArb,
+    user: userArb,
+    day: fc.integer({ min: 10, max: 28 })
+  }),
+  fc.record({ kind: fc.constant("offset" as const), value: fc.integer({ min: 0, max: 50 }) })
+)
+
+const chatIdOf = (chat: number) => ChatId(`-${chat}`)
+
+const member = (user: number): Participant => ({ id: UserId(user), firstName: `User ${user}` })
+
+const pairUp = (participants: ReadonlyArray<Participant>): ReadonlyArray<Pairing> => {
+  const pairs: Array<Pairing> = []
+  for (let index = 0; index + 1 < participants.length; index += 2) {
+    const first = participants[index]
+    const second = participants[index + 1]
+    if (first && second) {
+      pairs.push({ kind: "pair", members: [first, second] })
+    }
+  }
+  return pairs
+}
+
+const summarizeChat = (state: BotState, chat: number, day: number): BotState => {
+  const chatId = chatIdOf(chat)
+  const current = state.chats[chatId]
+  if (!current?.poll) {
+    return state
+  }
+  const participants = listParticipants(current.participants)
+  const pairs = pairUp(participants)
+  const leftovers = participants.length % 2 === 1 ? participants.slice(-1) : []
+  const round = buildRoundRecord(LocalDateString(`2026-02-${day}`), pairs, [], leftovers)
+  return applySummary(state, chatId, round, nextSeed(current.seed))
+}
+
+const startChatPoll = (state: BotState, chat: number, step: number): BotState => {
+  const chatId = chatIdOf(chat)
+  const current = state.chats[chatId]
+  const poll = {
+    pollId: PollId(`poll-${step}`),
+    messageId: MessageId(step),
+    chatId,
+    summaryDate: LocalDateString("2026-02-09"),
+    threadId: null,
+    joinOption: current ? chatPollWording(current).joinOption : 0,
+    formats: current ? chatPollFormats(current) : yesNoMeetingFormats,
+    standbyOption: current ? chatPollStandbyOption(current) : null
+  }
+  return current ? startPoll(state, chatId, poll) : state
+}
+
+const voteInChat = (state: BotState, chat: number, user: number, yes: boolean): BotState => {
+  const chatId = chatIdOf(chat)
+  if (!state.chats[chatId]?.poll) {
+    return state
+  }
+  return yes ? addVote(state, chatId, member(user)) : removeVote(state, chatId, UserId(user))
+}
+
+const profileWithCity = (user: number, city: string | null) => ({
+  userId: UserId(user),
+  about: null,
+  occupation: null,
+  interests: null,
+  hooks: null,
+  city,
+  languages: null,
+  meetingFormat: null
+})
+
+const lastRound = (state: BotState, chat: number) => ({
+  chatId: chatIdOf(chat),
+  roundIndex: (state.chats[chatIdOf(chat)]?.rounds.length ?? 0) - 1
+})
+
+const answerSurvey = (state: BotState, chat: number, user: number, choice: FeedbackChoice): BotState =>
+  applyFeedbackChoice(state, ChatId(`${user}`), UserId(user), { ...lastRound(state, chat), choice }).state
+
+const commentSurvey = (state: BotState, user: number, text: string): BotState =>
+  applyFeedbackComment(state, ChatId(`${user}`), UserId(user), text)?.state ?? state
+
+const applyOp = (state: BotState, op: Op, step: number): BotState =>
+  Match.value(op).pipe(
+    Match.discriminatorsExhaustive("kind")({
+      addChat: (value) => ensureChat(state, chatIdOf(value.chat)),
+      title: (value) => setChatTitle(state, chatIdOf(value.chat), value.title),
+      thread: (value) => setThreadId(state, chatIdOf(value.chat), value.threadId),
+      link: (value) => setChatInviteLink(state, chatIdOf(value.chat), value.link),
+      triples: (value) => setAllowTriples(state, chatIdOf(value.chat), value.value),
+      timeZone: (value) => setChatTimeZone(state, chatIdOf(value.chat), value.value),
+      exclude: (value) =>
+        addChatExclusion(state, chatIdOf(value.chat), {
+          requesterId: UserId(value.user),
+          excluded: member(value.other)
+        }),
+      unexclude: (value) => removeChatExclusion(state, chatIdOf(value.chat), UserId(value.user), UserId(value.other)),
+      startPoll: (value) => startChatPoll(state, value.chat, step),
+      vote: (value) => voteInChat(state, value.chat, value.user, value.yes),
+      summary: (value) => summarizeChat(state, value.chat, value.day),
+      finish: (value) => finishPoll(state, chatIdOf(value.chat)),
+      profile: (value) => setUserProfile(state, profileWithCity(value.user, value.city)),
+      draft: (value) => markProfileEdit(state, ChatId(`${value.user}`), startProfileDraft()),
+      survey: (value) => markFeedbackRequested(state, lastRound(state, value.chat)),
+      answer: (value) => answerSurvey(state, value.chat, value.user, value.choice),
+      comment: (value) => commentSurvey(state, value.user, value.text),
+      reminderDay: (value) => setReminderDay(state, chatIdOf(value.chat), value.value),
+      remind: (value) => markReminderSent(state, lastRound(state, value.chat)),
+      arrange: (value) => markMeetingArranged(state, lastRound(state, value.chat), UserId(value.user)),
+      rematch: (value) => applyRematchAction(state, lastRound(state, value.chat), UserId(value.user)).state,
+      chatLanguage: (value) => setChatLanguage(state, chatIdOf(value.chat), value.value),
+      userLanguage: (value) => setUserLanguage(state, UserId(value.user), value.value),
+      pollWording: (value) => setPollWording(state, chatIdOf(value.chat), value.value),
+      mode: (value) => setChatMode(state, chatIdOf(value.chat), value.value),
+      subscribe: (value) =>
+        value.subscribed
+          ? subscribe(state, chatIdOf(value.chat), member(value.user))
+          : unsubscribe(state, chatIdOf(value.chat), UserId(value.user)),
+      skip: (value) =>
+        skipRound(state, chatIdOf(value.chat), UserId(value.user), LocalDateString(`2026-02-${value.day}`)),
+      offset: (value) => applyUpdates(state, [{ updateId: value.value }])
+    })
+  )
+
+// Runs the batches like the store does: each save appends the journal and hands out a state with an empty one.
+const recordBatches = (batches: ReadonlyArray<ReadonlyArray<Op>>) => {
+  let state = emptyState(RngSeed(42))
+  let step = 0
+  let events: ReadonlyArray<BotEvent> = [{ kind: "baseline", state }]
+  for (const batch of batches) {
+    let next = state
+    for (const op of batch) {
+      step += 1
+      next = applyOp(next, op, step)
+    }
+    events = [...events, ...next.journal]
+    state = { ...next, journal: [] }
+  }
+  return { events, state }
+}
+
+const withoutDrafts = (state: BotState | null): BotState | null =>
+  state === null ? null : { ...state, pendingProfileEdits: {}, pendingFeedbackComments: {} }
+
+const batchesArb = fc.array(fc.array(opArb, { maxLength: 6 }), { maxLength: 12 })
+
+describe("event log", () => {
+  it("replaying the journals rebuilds every committed state", () => {
+    fc.assert(
+      fc.property(batchesArb, (batches) => {
+        const { events, state } = recordBatches(batches)
+        expect(withoutDrafts(replayEvents(events))).toEqual(withoutDrafts(state))
+      })
+    )
+  })
+
+  it("transitions that change nothing record nothing", () => {
+    fc.assert(
+      fc.property(batchesArb, (batches) => {
+        const { state } = recordBatches(batches)
+        for (const [key, chat] of Object.entries(state.chats)) {
+          const chatId = ChatId(key)
+          expect(ensureChat(state, chatId).journal).toEqual([])
+          expect(setChatTitle(state, chatId, chat.title ?? "Team").journal.length).toBe(chat.title === null ? 1 : 0)
+          expect(setChatMode(state, chatId, chat.mode).journal).toEqual([])
+        }
+      })
+    )
+  })
+
+  it.effect("stored payloads decode back into the same events", () =>
+    Effect.gen(function*(_) {
+      const samples = fc.sample(batchesArb, { numRuns: 20, seed: 7 })
+      for (const batches of samples) {
+        const { events } = recordBatches(batches)
+        const stored = yield* _(Schema.decodeUnknown(Schema.parseJson())(JSON.stringify(events)))
+        const decoded = yield* _(Schema.decodeUnknown(Schema.Array(BotEventSchema))(stored))
+        expect(replayEvents(decoded)).toEqual(replayEvents(events))
+      }
+    }))
+})
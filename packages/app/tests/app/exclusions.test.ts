@@ -0,0 +1,115 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect } from "effect"
+
+import { summarize } from "../../src/app/actions.js"
+import { handleCommands } from "../../src/app/commands.js"
+import { handleMessages } from "../../src/app/diagnostics.js"
+import { ChatId, LocalDateString, MessageId, PollId, RngSeed } from "../../src/core/brand.js"
+import type { BotState, Participant } from "../../src/core/domain.js"
+import { encodeExclusionAction } from "../../src/core/exclusions.js"
+import { yesNoMeetingFormats } from "../../src/core/meeting-format.js"
+import { upsertParticipant } from "../../src/core/participants.js"
+import { addChatExclusion, emptyChatState } from "../../src/core/state.js"
+import {
+  expectSummaryCalls,
+  makeCallbackUpdate,
+  makeMessageUpdate,
+  makeParticipant,
+  makeStateStoreStub,
+  makeStateWithPoll,
+  makeTelegramStub
+} from "./test-utils.js"
+
+const chatId = ChatId("-900")
+const pollId = PollId("poll-exclusions")
+const alice = makeParticipant(1, "Alice")
+const bob = makeParticipant(2, "Bob")
+const carol = makeParticipant(3, "Carol")
+
+const makeState = (members: ReadonlyArray<Participant>): BotState => {
+  let participants = {}
+  for (const member of members) {
+    participants = upsertParticipant(participants, member)
+  }
+  const chat = {
+    ...emptyChatState(RngSeed(21)),
+    title: "Team",
+    poll: {
+      pollId,
+      messageId: MessageId(21),
+      chatId,
+      summaryDate: LocalDateString("2026-01-12"),
+      threadId: null,
+      joinOption: 0,
+      formats: yesNoMeetingFormats,
+      standbyOption: null
+    },
+    participants
+  }
+  return makeStateWithPoll(chatId, chat, pollId, RngSeed(4))
+}
+
+const pressButton = (state: BotState, from: Participant, data: string) =>
+  Effect.gen(function*(_) {
+    const { messageCalls, messageWithKeyboardCalls, telegram } = makeTelegramStub()
+    const update = makeCallbackUpdate({ updateId: 1, chatId: ChatId(from.id.toString()), data, from })
+    const next = yield* _(handleMessages(state, [update], telegram, "random_coffee_bot"))
+    return { messageCalls, messageWithKeyboardCalls, next }
+  })
+
+describe("exclusions", () => {
+  it.effect("menu offers other participants of the active poll", () =>
+    Effect.gen(function*(_) {
+      const { messageWithKeyboardCalls } = yield* _(pressButton(makeState([alice, bob]), alice, "Не ставить в пару"))
+      const keyboard = messageWithKeyboardCalls[0]?.keyboard
+      const buttons = keyboard && "inline_keyboard" in keyboard ? keyboard.inline_keyboard.flat() : []
+      expect(buttons.map((button) => button.text)).toEqual(["🚫 Bob · Team"])
+    }))
+
+  it.effect("adding an exclusion stores it for the chat", () =>
+    Effect.gen(function*(_) {
+      const data = encodeExclusionAction({ kind: "add", chatId, userId: bob.id })
+      const { messageCalls, next } = yield* _(pressButton(makeState([alice, bob]), alice, data))
+      expect(Object.values(next.chats[chatId]?.exclusions ?? {})).toEqual([{ requesterId: alice.id, excluded: bob }])
+      expect(messageCalls[0]?.text).toBe("Готово. Bob больше не попадёт к тебе в пару в «Team».")
+    }))
+
+  it.effect("non-participants cannot add exclusions", () =>
+    Effect.gen(function*(_) {
+      const data = encodeExclusionAction({ kind: "add", chatId, userId: bob.id })
+      const { next } = yield* _(pressButton(makeState([alice, bob]), carol, data))
+      expect(next.chats[chatId]?.exclusions).toEqual({})
+    }))
+
+  it.effect("/exclusions reports only the count to admins", () =>
+    Effect.gen(function*(_) {
+      const state = addChatExclusion(makeState([alice, bob]), chatId, { requesterId: alice.id, excluded: bob })
+      const { messageCalls, telegram } = makeTelegramStub()
+      const { stateStore } = makeStateStoreStub(state)
+      yield* _(
+        handleCommands({
+          state,
+          updates: [makeMessageUpdate({ updateId: 2, chatId, text: "/exclusions", from: carol })],
+          telegram,
+          stateStore,
+          timeZone: "UTC"
+        })
+      )
+      expect(messageCalls[0]?.text.startsWith("Active exclusions in this chat: 1.")).toBe(true)
+    }))
+
+  it.effect("summarize never pairs excluded participants", () =>
+    Effect.gen(function*(_) {
+      const state = addChatExclusion(makeState([alice, bob]), chatId, { requesterId: bob.id, excluded: alice })
+      const chat = state.chats[chatId]
+      if (!chat) {
+        return
+      }
+      const { messageCalls, telegram } = makeTelegramStub()
+      const { stateStore } = makeStateStoreStub(state)
+      const summaryDate = LocalDateString("2026-01-12")
+      const next = yield* _(summarize({ state, chatId, chat, summaryDate, telegram, stateStore }))
+      expectSummaryCalls(messageCalls, chatId, 2)
+      expect(next.chats[chatId]?.history).toEqual({})
+    }))
+})
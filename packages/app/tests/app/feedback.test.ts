@@ -0,0 +1,97 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect } from "effect"
+
+import { handleMessages } from "../../src/app/diagnostics.js"
+import { requestDueFeedback } from "../../src/app/feedback.js"
+import { ChatId, LocalDateString, RngSeed } from "../../src/core/brand.js"
+import type { BotState } from "../../src/core/domain.js"
+import { encodeFeedbackAction, type FeedbackChoice } from "../../src/core/feedback.js"
+import { buildRoundRecord } from "../../src/core/rounds.js"
+import { emptyChatState } from "../../src/core/state.js"
+import {
+  makeCallbackUpdate,
+  makeMessageUpdate,
+  makeParticipant,
+  makeStateStoreStub,
+  makeStateWithChat,
+  makeTelegramStub,
+  type MessageWithKeyboardCall
+} from "./test-utils.js"
+
+const chatId = ChatId("-800")
+const alice = makeParticipant(1, "Alice")
+const bob = makeParticipant(2, "Bob")
+const carol = makeParticipant(3, "Carol")
+const privateChatId = ChatId(alice.id.toString())
+
+const makeState = (): BotState => {
+  const round = buildRoundRecord(LocalDateString("2026-03-16"), [{ kind: "pair", members: [alice, bob] }], [], [carol])
+  return makeStateWithChat(chatId, { ...emptyChatState(RngSeed(5)), title: "Team", rounds: [round] }, RngSeed(6))
+}
+
+const keyboardData = (call: MessageWithKeyboardCall | undefined): ReadonlyArray<string> => {
+  const buttons = call && "inline_keyboard" in call.keyboard ? call.keyboard.inline_keyboard.flat() : []
+  return buttons.flatMap((button) => "callback_data" in button ? [button.callback_data] : [])
+}
+
+const press = (choice: FeedbackChoice) =>
+  makeCallbackUpdate({
+    updateId: 1,
+    chatId: privateChatId,
+    data: encodeFeedbackAction({ chatId, roundIndex: 0, choice }),
+    from: alice
+  })
+
+describe("feedback", () => {
+  it.effect("due rounds are marked and every member gets a survey DM", () =>
+    Effect.gen(function*(_) {
+      const { messageWithKeyboardCalls, telegram } = makeTelegramStub()
+      const { getCurrent, stateStore } = makeStateStoreStub(makeState())
+      const context = { chatId, today: LocalDateString("2026-03-19"), telegram, stateStore }
+      const next = yield* _(requestDueFeedback({ ...context, state: getCurrent() }))
+      expect(getCurrent()).toEqual(next)
+      expect(next.chats[chatId]?.rounds[0]?.feedbackRequested).toBe(true)
+      expect(messageWithKeyboardCalls.map((call) => call.chatId)).toEqual([ChatId("1"), ChatId("2")])
+      expect(messageWithKeyboardCalls[0]?.text).toContain("«Team»")
+      expect(messageWithKeyboardCalls[0]?.text).toContain("Bob")
+      expect(keyboardData(messageWithKeyboardCalls[0])).toEqual([
+        encodeFeedbackAction({ chatId, roundIndex: 0, choice: "met" }),
+        encodeFeedbackAction({ chatId, roundIndex: 0, choice: "missed" })
+      ])
+      yield* _(requestDueFeedback({ ...context, state: next }))
+      expect(messageWithKeyboardCalls).toHaveLength(2)
+    }))
+
+  it.effect("rounds younger than the delay are not surveyed", () =>
+    Effect.gen(function*(_) {
+      const { messageWithKeyboardCalls, telegram } = makeTelegramStub()
+      const { setCalls, stateStore } = makeStateStoreStub(makeState())
+      const today = LocalDateString("2026-03-18")
+      yield* _(requestDueFeedback({ state: makeState(), chatId, today, telegram, stateStore }))
+      expect(setCalls).toEqual([])
+      expect(messageWithKeyboardCalls).toEqual([])
+    }))
+
+  it.effect("buttons and a comment are stored on the pair", () =>
+    Effect.gen(function*(_) {
+      const { messageCalls, messageWithKeyboardCalls, telegram } = makeTelegramStub()
+      const comment = makeMessageUpdate({
+        updateId: 2,
+        chatId: privateChatId,
+        text: "Nice chat",
+        from: alice,
+        chatType: "private"
+      })
+      const updates = [press("met"), press("ok"), comment]
+      const next = yield* _(handleMessages(makeState(), updates, telegram, "random_coffee_bot"))
+      expect(keyboardData(messageWithKeyboardCalls[0])).toHaveLength(3)
+      expect(keyboardData(messageWithKeyboardCalls[1])).toEqual([
+        encodeFeedbackAction({ chatId, roundIndex: 0, choice: "skip" })
+      ])
+      expect(messageCalls.map((call) => call.chatId)).toEqual([privateChatId])
+      expect(next.chats[chatId]?.rounds[0]?.groups[0]?.feedback).toEqual([
+        { userId: alice.id, met: true, rating: "ok", comment: "Nice chat" }
+      ])
+      expect(next.pendingFeedbackComments).toEqual({})
+    }))
+})
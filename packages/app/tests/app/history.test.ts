@@ -0,0 +1,113 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect } from "effect"
+
+import { handleCommands } from "../../src/app/commands.js"
+import { handleMessages } from "../../src/app/diagnostics.js"
+import { ChatId, LocalDateString, RngSeed } from "../../src/core/brand.js"
+import type { BotState } from "../../src/core/domain.js"
+import { encodeHistoryPage } from "../../src/core/history.js"
+import { buildRoundRecord } from "../../src/core/rounds.js"
+import { emptyChatState } from "../../src/core/state.js"
+import {
+  makeCallbackUpdate,
+  makeMessageUpdate,
+  makeParticipant,
+  makeStateStoreStub,
+  makeStateWithChat,
+  makeTelegramStub,
+  type MessageWithKeyboardCall
+} from "./test-utils.js"
+
+const chatId = ChatId("-700")
+const alice = makeParticipant(1, "Alice")
+const bob = { ...makeParticipant(2, "Bob"), username: "bob" }
+const privateChatId = ChatId(alice.id.toString())
+
+const makeState = (rounds: number): BotState => {
+  const archive = Array.from(
+    { length: rounds },
+    (_, index) =>
+      buildRoundRecord(
+        LocalDateString(`2026-03-${String(index + 10)}`),
+        [{ kind: "pair", members: [alice, bob] }],
+        [],
+        []
+      )
+  )
+  return makeStateWithChat(chatId, { ...emptyChatState(RngSeed(5)), title: "Team", rounds: archive }, RngSeed(6))
+}
+
+const sendHistoryCommand = (state: BotState, chatType: "private" | "supergroup") =>
+  Effect.gen(function*(_) {
+    const stub = makeTelegramStub()
+    const { stateStore } = makeStateStoreStub(state)
+    const commandChatId = chatType === "private" ? privateChatId : chatId
+    yield* _(
+      handleCommands({
+        state,
+        updates: [makeMessageUpdate({ updateId: 1, chatId: commandChatId, text: "/history", from: alice, chatType })],
+        telegram: stub.telegram,
+        stateStore,
+        timeZone: "UTC"
+      })
+    )
+    return stub
+  })
+
+const keyboardData = (call: MessageWithKeyboardCall | undefined): ReadonlyArray<string> => {
+  const buttons = call && "inline_keyboard" in call.keyboard ? call.keyboard.inline_keyboard.flat() : []
+  return buttons.flatMap((button) => "callback_data" in button ? [button.callback_data] : [])
+}
+
+describe("history", () => {
+  it.effect("/history lists past partners with the chat title", () =>
+    Effect.gen(function*(_) {
+      const { memberCalls, messageCalls } = yield* _(sendHistoryCommand(makeState(1), "private"))
+      expect(memberCalls).toEqual([])
+      expect(messageCalls[0]?.chatId).toBe(privateChatId)
+      expect(messageCalls[0]?.text).toContain("📅 2026-03-10 · Team")
+      expect(messageCalls[0]?.text).toContain("@bob")
+    }))
+
+  it.effect("long histories get an older page button", () =>
+    Effect.gen(function*(_) {
+      const { messageWithKeyboardCalls } = yield* _(sendHistoryCommand(makeState(7), "private"))
+      expect(messageWithKeyboardCalls[0]?.text).toContain("(1 из 2)")
+      expect(messageWithKeyboardCalls[0]?.text).toContain("2026-03-16")
+      expect(keyboardData(messageWithKeyboardCalls[0])).toEqual([encodeHistoryPage(1)])
+    }))
+
+  it.effect("page buttons show the requested page", () =>
+    Effect.gen(function*(_) {
+      const { messageWithKeyboardCalls, telegram } = makeTelegramStub()
+      const update = makeCallbackUpdate({ updateId: 2, chatId: privateChatId, data: encodeHistoryPage(1), from: alice })
+      yield* _(handleMessages(makeState(7), [update], telegram, "random_coffee_bot"))
+      expect(messageWithKeyboardCalls[0]?.text).toContain("(2 из 2)")
+      expect(messageWithKeyboardCalls[0]?.text).not.toContain("2026-03-16")
+      expect(keyboardData(messageWithKeyboardCalls[0])).toEqual([encodeHistoryPage(0)])
+    }))
+
+  it.effect("/summary without a poll keeps the archived rounds", () =>
+    Effect.gen(function*(_) {
+      const state = makeState(1)
+      const { telegram } = makeTelegramStub()
+      const { stateStore } = makeStateStoreStub(state)
+      const next = yield* _(
+        handleCommands({
+          state,
+          updates: [makeMessageUpdate({ updateId: 3, chatId, text: "/summary", from: alice })],
+          telegram,
+          stateStore,
+          timeZone: "UTC"
+        })
+      )
+      expect(next.chats[chatId]?.rounds).toEqual(state.chats[chatId]?.rounds)
+      expect(next.chats[chatId]?.lastSummaryAt).toBeNull()
+    }))
+
+  it.effect("/history is ignored in group chats", () =>
+    Effect.gen(function*(_) {
+      const { messageCalls, messageWithKeyboardCalls } = yield* _(sendHistoryCommand(makeState(1), "supergroup"))
+      expect([...messageCalls, ...messageWithKeyboardCalls]).toEqual([])
+    }))
+})
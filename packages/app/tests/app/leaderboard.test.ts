@@ -3,7 +3,7 @@ import { Effect } from "effect"
 
 import { handleCommands } from "../../src/app/commands.js"
 import { ChatId, RngSeed } from "../../src/core/brand.js"
-import { emptyState } from "../../src/core/domain.js"
+import { emptyState, type Language } from "../../src/core/domain.js"
 import { replyLeaderboardEmpty, replySetLinkInvalid, replySetLinkSaved } from "../../src/core/text.js"
 import { makeMessageUpdate, makeParticipant, makeStateStoreStub, makeTelegramStub } from "./test-utils.js"
 
@@ -44,9 +44,12 @@ const runCommand = (params: {
     return { messageCalls, setCalls }
   })
 
-const expectEmptyLeaderboardReply = (messageCalls: ReturnType<typeof makeTelegramStub>["messageCalls"]): void => {
+const expectEmptyLeaderboardReply = (
+  messageCalls: ReturnType<typeof makeTelegramStub>["messageCalls"],
+  language: Language
+): void => {
   expect(messageCalls.length).toBe(1)
-  expect(messageCalls[0]?.text).toBe(replyLeaderboardEmpty())
+  expect(messageCalls[0]?.text).toBe(replyLeaderboardEmpty(language))
 }
 
 describe("leaderboard command", () => {
@@ -63,7 +66,7 @@ describe("leaderboard command", () => {
           seed: 9
         })
       )
-      expectEmptyLeaderboardReply(messageCalls)
+      expectEmptyLeaderboardReply(messageCalls, "ru")
     }))
 
   it.effect("responds in group chats without admin rights", () =>
@@ -80,7 +83,7 @@ describe("leaderboard command", () => {
           seed: 10
         })
       )
-      expectEmptyLeaderboardReply(messageCalls)
+      expectEmptyLeaderboardReply(messageCalls, "en")
     }))
 
   it.effect("stores a valid invite link", () =>
@@ -96,9 +99,9 @@ describe("leaderboard command", () => {
           seed: 11
         })
       )
-      expect(setCalls.length).toBe(1)
-      expect(setCalls[0]?.chats[ChatId("-2000")]?.inviteLink).toBe("https://t.me/test_group")
-      expect(messageCalls[0]?.text).toBe(replySetLinkSaved())
+      expect(setCalls.length).toBe(2)
+      expect(setCalls[1]?.chats[ChatId("-2000")]?.inviteLink).toBe("https://t.me/test_group")
+      expect(messageCalls[0]?.text).toBe(replySetLinkSaved("en"))
     }))
 
   it.effect("rejects invalid links", () =>
@@ -114,7 +117,8 @@ describe("leaderboard command", () => {
           seed: 12
         })
       )
-      expect(setCalls.length).toBe(0)
-      expect(messageCalls[0]?.text).toBe(replySetLinkInvalid())
+      expect(setCalls.length).toBe(1)
+      expect(setCalls[0]?.journal.at(-1)?.kind).toBe("commandReceived")
+      expect(messageCalls[0]?.text).toBe(replySetLinkInvalid("en"))
     }))
 })
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect } from "effect"
+
+import { summarize } from "../../src/app/actions.js"
+import { handleMessages } from "../../src/app/diagnostics.js"
+import { ChatId, LocalDateString, RngSeed } from "../../src/core/brand.js"
+import type { BotState, Participant, RoundGroup } from "../../src/core/domain.js"
+import { upsertParticipant } from "../../src/core/participants.js"
+import { encodeRematchAction } from "../../src/core/rematch.js"
+import { buildRoundRecord } from "../../src/core/rounds.js"
+import { emptyChatState } from "../../src/core/state.js"
+import { formatRematchDropped, formatRematchReply } from "../../src/core/text-rematch.js"
+import {
+  makeCallbackUpdate,
+  makeParticipant,
+  makeStateStoreStub,
+  makeStateWithChat,
+  makeTelegramStub,
+  type MessageWithKeyboardCall
+} from "./test-utils.js"
+
+const chatId = ChatId("-860")
+const alice = makeParticipant(1, "Alice")
+const bob = makeParticipant(2, "Bob")
+const carol = makeParticipant(3, "Carol")
+const target = { chatId, roundIndex: 0 }
+
+const makeState = (leftovers: ReadonlyArray<Participant>): BotState => {
+  const round = buildRoundRecord(
+    LocalDateString("2026-03-16"),
+    [{ kind: "pair", members: [alice, bob] }],
+    [],
+    leftovers
+  )
+  const chat = { ...emptyChatState(RngSeed(5)), title: "Team", rounds: [round] }
+  return makeStateWithChat(chatId, chat, RngSeed(6))
+}
+
+const keyboardData = (call: MessageWithKeyboardCall | undefined): ReadonlyArray<string> => {
+  const buttons = call && "inline_keyboard" in call.keyboard ? call.keyboard.inline_keyboard.flat() : []
+  return buttons.flatMap((button) => "callback_data" in button ? [button.callback_data] : [])
+}
+
+const sortedIds = (members: ReadonlyArray<{ readonly id: number }>): ReadonlyArray<number> => {
+  const ids = members.map((member) => member.id)
+  ids.sort((left, right) => left - right)
+  return ids
+}
+
+const groupIds = (groups: ReadonlyArray<RoundGroup> | undefined): ReadonlyArray<ReadonlyArray<number>> =>
+  (groups ?? []).map((group) => sortedIds(group.members))
+
+const press = makeCallbackUpdate({ updateId: 1, chatId: ChatId("1"), data: encodeRematchAction(target), from: alice })
+
+describe("rematch", () => {
+  it.effect("pair DMs of a summary carry the re-match button", () =>
+    Effect.gen(function*(_) {
+      const { messageCalls, messageWithKeyboardCalls, telegram } = makeTelegramStub()
+      const chat = { ...emptyChatState(RngSeed(5)), participants: upsertParticipant(upsertParticipant({}, alice), bob) }
+      const state = makeStateWithChat(chatId, chat, RngSeed(6))
+      const { stateStore } = makeStateStoreStub(state)
+      const summaryDate = LocalDateString("2026-03-16")
+      yield* _(summarize({ state, chatId, chat, summaryDate, telegram, stateStore }))
+      expect(messageCalls.map((call) => call.chatId)).toEqual([chatId])
+      expect(messageWithKeyboardCalls.map((call) => keyboardData(call))).toEqual([
+        [encodeRematchAction(target)],
+        [encodeRematchAction(target)]
+      ])
+    }))
+
+  it.effect("the button pairs the member with a leftover and drops the partner", () =>
+    Effect.gen(function*(_) {
+      const { messageCalls, messageWithKeyboardCalls, telegram } = makeTelegramStub()
+      const next = yield* _(handleMessages(makeState([carol]), [press], telegram, "random_coffee_bot"))
+      const round = next.chats[chatId]?.rounds[0]
+      expect(groupIds(round?.groups)).toEqual([[alice.id, carol.id]])
+      expect(round?.leftovers).toEqual([])
+      expect(Object.keys(next.chats[chatId]?.history ?? {})).toHaveLength(1)
+      expect(messageCalls.map((call) => call.text)).toEqual([
+        formatRematchReply("ru", "rematched"),
+        formatRematchDropped("ru", alice, "Team")
+      ])
+      expect(sortedIds(messageWithKeyboardCalls.map((call) => ({ id: Number(call.chatId) })))).toEqual([1, 3])
+    }))
+
+  it.effect("without free members the presser waits among the leftovers", () =>
+    Effect.gen(function*(_) {
+      const { messageCalls, messageWithKeyboardCalls, telegram } = makeTelegramStub()
+      const next = yield* _(handleMessages(makeState([]), [press], telegram, "random_coffee_bot"))
+      expect(next.chats[chatId]?.rounds[0]?.groups).toEqual([])
+      expect(next.chats[chatId]?.rounds[0]?.leftovers).toEqual([alice])
+      expect(messageCalls.map((call) => call.text)).toEqual([
+        formatRematchReply("ru", "waiting"),
+        formatRematchDropped("ru", alice, "Team")
+      ])
+      expect(messageWithKeyboardCalls).toEqual([])
+    }))
+
+  it.effect("the dropped partner is told who cancelled and leaves the round", () =>
+    Effect.gen(function*(_) {
+      const { messageCalls, telegram } = makeTelegramStub()
+      const state = { ...makeState([carol]), userLanguages: { [bob.id]: "en" as const } }
+      const next = yield* _(handleMessages(state, [press], telegram, "random_coffee_bot"))
+      const toBob = messageCalls.filter((call) => call.chatId === ChatId("2"))
+      expect(toBob.map((call) => call.text)).toEqual([formatRematchDropped("en", alice, "Team")])
+      expect(toBob[0]?.text).toContain("tg://user?id=1")
+      const round = next.chats[chatId]?.rounds[0]
+      const members = [...(round?.groups ?? []).flatMap((group) => group.members), ...(round?.leftovers ?? [])]
+      expect(members.map((member) => member.id)).not.toContain(bob.id)
+    }))
+})
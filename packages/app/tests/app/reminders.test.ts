@@ -0,0 +1,86 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect } from "effect"
+
+import { handleCommands } from "../../src/app/commands.js"
+import { handleMessages } from "../../src/app/diagnostics.js"
+import { sendDueReminders } from "../../src/app/reminders.js"
+import { ChatId, LocalDateString, RngSeed } from "../../src/core/brand.js"
+import type { BotState, Weekday } from "../../src/core/domain.js"
+import { encodeArrangedAction } from "../../src/core/reminders.js"
+import { buildRoundRecord } from "../../src/core/rounds.js"
+import { emptyChatState } from "../../src/core/state.js"
+import {
+  makeCallbackUpdate,
+  makeMessageUpdate,
+  makeParticipant,
+  makeStateStoreStub,
+  makeStateWithChat,
+  makeTelegramStub,
+  type MessageWithKeyboardCall
+} from "./test-utils.js"
+
+const chatId = ChatId("-850")
+const alice = makeParticipant(1, "Alice")
+const bob = makeParticipant(2, "Bob")
+const target = { chatId, roundIndex: 0 }
+
+const makeState = (reminderDay: Weekday | null): BotState => {
+  const round = buildRoundRecord(LocalDateString("2026-03-16"), [{ kind: "pair", members: [alice, bob] }], [], [])
+  const chat = { ...emptyChatState(RngSeed(5)), title: "Team", reminderDay, rounds: [round] }
+  return makeStateWithChat(chatId, chat, RngSeed(6))
+}
+
+const keyboardData = (call: MessageWithKeyboardCall | undefined): ReadonlyArray<string> => {
+  const buttons = call && "inline_keyboard" in call.keyboard ? call.keyboard.inline_keyboard.flat() : []
+  return buttons.flatMap((button) => "callback_data" in button ? [button.callback_data] : [])
+}
+
+describe("reminders", () => {
+  it.effect("organizers get one reminder with a confirmation button", () =>
+    Effect.gen(function*(_) {
+      const { messageWithKeyboardCalls, telegram } = makeTelegramStub()
+      const { getCurrent, stateStore } = makeStateStoreStub(makeState("Wed"))
+      const context = { chatId, today: LocalDateString("2026-03-18"), weekday: "Wed" as const, telegram, stateStore }
+      const next = yield* _(sendDueReminders({ ...context, state: getCurrent() }))
+      expect(getCurrent()).toEqual(next)
+      expect(next.chats[chatId]?.rounds[0]?.reminderSent).toBe(true)
+      expect(messageWithKeyboardCalls.map((call) => call.chatId)).toEqual([ChatId("1")])
+      expect(messageWithKeyboardCalls[0]?.text).toContain("«Team»")
+      expect(messageWithKeyboardCalls[0]?.text).toContain("Bob")
+      expect(keyboardData(messageWithKeyboardCalls[0])).toEqual([encodeArrangedAction(target)])
+      yield* _(sendDueReminders({ ...context, state: next }))
+      expect(messageWithKeyboardCalls).toHaveLength(1)
+    }))
+
+  it.effect("the button marks the meeting as arranged", () =>
+    Effect.gen(function*(_) {
+      const { messageCalls, telegram } = makeTelegramStub()
+      const update = makeCallbackUpdate({
+        updateId: 1,
+        chatId: ChatId("1"),
+        data: encodeArrangedAction(target),
+        from: alice
+      })
+      const next = yield* _(handleMessages(makeState("Wed"), [update], telegram, "random_coffee_bot"))
+      expect(next.chats[chatId]?.rounds[0]?.groups[0]?.arranged).toBe(true)
+      expect(messageCalls.map((call) => call.chatId)).toEqual([ChatId("1")])
+    }))
+
+  it.effect("/reminder sets the reminder day and off turns it off", () =>
+    Effect.gen(function*(_) {
+      const { messageCalls, telegram } = makeTelegramStub()
+      const { stateStore } = makeStateStoreStub(makeState(null))
+      const updates = [
+        makeMessageUpdate({ updateId: 1, chatId, text: "/reminder wed", from: bob }),
+        makeMessageUpdate({ updateId: 2, chatId, text: "/reminder", from: bob }),
+        makeMessageUpdate({ updateId: 3, chatId, text: "/reminder off", from: bob })
+      ]
+      const next = yield* _(handleCommands({ state: makeState(null), updates, telegram, stateStore, timeZone: "UTC" }))
+      expect(messageCalls.map((call) => call.text)).toEqual([
+        "Organizer reminders saved: unconfirmed meetings are reminded on Wed.",
+        "Organizer reminders: Wed. Use: /reminder wed or /reminder off",
+        "Organizer reminders turned off."
+      ])
+      expect(next.chats[chatId]?.reminderDay).toBeNull()
+    }))
+})
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect, Fiber, pipe, TestClock } from "effect"
+
+import { runScheduler, runScheduleTick, schedulerInterval } from "../../src/app/scheduler.js"
+import { ChatId, RngSeed } from "../../src/core/brand.js"
+import { emptyChatState } from "../../src/core/state.js"
+import type { Config } from "../../src/shell/config.js"
+import { StateStore } from "../../src/shell/state-store.js"
+import { TelegramService } from "../../src/shell/telegram.js"
+import { makeStateStoreStub, makeStateWithChat, makeTelegramStub } from "./test-utils.js"
+
+const config: Config = {
+  token: "test-token",
+  timeZone: "UTC",
+  databaseUrl: "postgres://localhost/test",
+  updateSource: { kind: "polling" }
+}
+
+const chatId = ChatId("-950")
+
+// Friday 2026-01-09 10:00 UTC
+const fridayMorning = Date.UTC(2026, 0, 9, 10, 0)
+
+const makeScheduledState = (pollTime: number) =>
+  makeStateWithChat(chatId, { ...emptyChatState(RngSeed(3)), scheduleTimes: { pollTime, summaryTime: 0 } }, RngSeed(9))
+
+const withStubs = (pollTime: number) => {
+  const { pollCalls, telegram } = makeTelegramStub()
+  const { getCurrent, stateStore } = makeStateStoreStub(makeScheduledState(pollTime))
+  const provide = <A, E>(effect: Effect.Effect<A, E, StateStore | TelegramService>) =>
+    pipe(effect, Effect.provideService(StateStore, stateStore), Effect.provideService(TelegramService, telegram))
+  return { getCurrent, pollCalls, provide }
+}
+
+describe("scheduler", () => {
+  it.effect("a tick creates polls without any incoming update", () =>
+    Effect.gen(function*(_) {
+      yield* _(TestClock.setTime(fridayMorning))
+      const { getCurrent, pollCalls, provide } = withStubs(600)
+      const stateLock = yield* _(Effect.makeSemaphore(1))
+      yield* _(provide(runScheduleTick(config, stateLock)))
+      expect(pollCalls).toHaveLength(1)
+      expect(getCurrent().chats[chatId]?.poll?.summaryDate).toBe("2026-01-12")
+    }))
+
+  it.effect("the scheduler fiber ticks again after each interval", () =>
+    Effect.gen(function*(_) {
+      yield* _(TestClock.setTime(fridayMorning))
+      const { pollCalls, provide } = withStubs(601)
+      const stateLock = yield* _(Effect.makeSemaphore(1))
+      const fiber = yield* _(Effect.fork(provide(runScheduler(config, stateLock))))
+      yield* _(Effect.yieldNow())
+      expect(pollCalls).toHaveLength(0)
+      yield* _(TestClock.adjust(schedulerInterval))
+      expect(pollCalls).toHaveLength(1)
+      yield* _(Fiber.interrupt(fiber))
+    }))
+
+  it.effect("a tick waits while the state lock is held", () =>
+    Effect.gen(function*(_) {
+      yield* _(TestClock.setTime(fridayMorning))
+      const { pollCalls, provide } = withStubs(600)
+      const stateLock = yield* _(Effect.makeSemaphore(1))
+      yield* _(stateLock.take(1))
+      const fiber = yield* _(Effect.fork(provide(runScheduleTick(config, stateLock))))
+      yield* _(Effect.yieldNow())
+      expect(pollCalls).toHaveLength(0)
+      yield* _(stateLock.release(1))
+      yield* _(Fiber.join(fiber))
+      expect(pollCalls).toHaveLength(1)
+    }))
+})
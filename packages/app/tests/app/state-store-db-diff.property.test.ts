@@ -0,0 +1,250 @@
+import { describe, expect, it } from "@effect/vitest"
+import fc from "fast-check"
+
+import { ChatId, RngSeed, UserId } from "../../src/core/brand.js"
+import { emptyState } from "../../src/core/domain.js"
+import { ensureChat, setUserProfile } from "../../src/core/state.js"
+import {
+  buildPersistRows,
+  diffPersistRows,
+  type PersistRows,
+  rowKeys,
+  type TableDiff
+} from "../../src/shell/state-store-db-diff.js"
+
+type TableRows = Omit<PersistRows, "metaRow">
+
+type TableName = keyof TableRows
+
+const tableNames: ReadonlyArray<TableName> = [
+  "chatRows",
+  "pollRows",
+  "participantRows",
+  "profileRows",
+  "historyRows",
+  "exclusionRows",
+  "subscriptionRows",
+  "roundRows",
+  "roundMemberRows",
+  "roundFeedbackRows",
+  "userLanguageRows"
+]
+
+const chatIdArb = fc.constantFrom("-1", "-2", "-3")
+const userIdArb = fc.integer({ min: 1, max: 4 })
+const nullableTextArb = fc.option(fc.constantFrom("a", "b"), { nil: null })
+
+const chatRowArb = fc.record({
+  chatId: chatIdArb,
+  seed: fc.integer({ min: 1, max: 3 }),
+  threadId: fc.option(fc.integer({ min: 1, max: 2 }), { nil: null }),
+  title: nullableTextArb,
+  inviteLink: nullableTextArb,
+  lastSummaryAt: nullableTextArb,
+  allowTriples: fc.boolean(),
+  historyHalfLifeWeeks: fc.option(fc.integer({ min: 1, max: 2 }), { nil: null }),
+  pollDay: fc.constantFrom("Fri", "Sat"),
+  summaryDay: fc.constantFrom("Mon", "Tue"),
+  pollTime: fc.constantFrom(0, 600),
+  summaryTime: fc.constantFrom(0, 1080),
+  roundFrequency: fc.constantFrom("weekly", "monthly"),
+  timeZone: fc.option(fc.constantFrom("UTC", "Europe/Berlin"), { nil: null }),
+  reminderDay: fc.option(fc.constantFrom("Wed", "Thu"), { nil: null }),
+  language: fc.option(fc.constantFrom("en", "ru"), { nil: null }),
+  pollQuestion: nullableTextArb,
+  pollOptions: nullableTextArb,
+  pollJoinOption: fc.option(fc.integer({ min: 0, max: 1 }), { nil: null }),
+  mode: fc.constantFrom("poll", "subscription")
+})
+
+const pollRowArb = fc.record({
+  pollId: fc.constantFrom("p1", "p2", "p3"),
+  chatId: chatIdArb,
+  messageId: fc.integer({ min: 1, max: 3 }),
+  summaryDate: fc.constantFrom("2026-01-12", "2026-01-19"),
+  threadId: fc.option(fc.integer({ min: 1, max: 2 }), { nil: null }),
+  joinOption: fc.integer({ min: 0, max: 1 }),
+  meetingFormats: fc.constantFrom("any", "online,offline,any"),
+  standbyOption: fc.option(fc.constant(3), { nil: null })
+})
+
+const participantRowArb = fc.record({
+  chatId: chatIdArb,
+  userId: userIdArb,
+  firstName: fc.constantFrom("Alice", "Bob"),
+  lastName: nullableTextArb,
+  username: nullableTextArb,
+  meetingFormat: fc.option(fc.constantFrom("offline", "online", "any"), { nil: null }),
+  standby: fc.boolean()
+})
+
+const profileRowArb = fc.record({
+  userId: userIdArb,
+  about: nullableTextArb,
+  occupation: nullableTextArb,
+  interests: nullableTextArb,
+  hooks: nullableTextArb,
+  city: nullableTextArb,
+  languages: nullableTextArb,
+  meetingFormat: fc.option(fc.constantFrom("offline", "online"), { nil: null })
+})
+
+const historyRowArb = fc.record({
+  chatId: chatIdArb,
+  pairKey: fc.constantFrom("1:2", "1:3", "2:3"),
+  metOn: fc.constantFrom("2026-01-12", "2026-01-19"),
+  count: fc.integer({ min: 1, max: 2 })
+})
+
+const exclusionRowArb = fc.record({
+  chatId: chatIdArb,
+  requesterId: userIdArb,
+  excludedId: userIdArb,
+  excludedFirstName: fc.constantFrom("Alice", "Bob"),
+  excludedLastName: nullableTextArb,
+  excludedUsername: nullableTextArb
+})
+
+const subscriptionRowArb = fc.record({
+  chatId: chatIdArb,
+  userId: userIdArb,
+  firstName: fc.constantFrom("Alice", "Bob"),
+  lastName: nullableTextArb,
+  username: nullableTextArb,
+  skippedDates: fc.constantFrom("", "2026-01-19", "2026-01-19,2026-01-26")
+})
+
+const roundRowArb = fc.record({
+  chatId: chatIdArb,
+  roundIndex: fc.integer({ min: 0, max: 2 }),
+  summaryDate: fc.constantFrom("2026-01-12", "2026-01-19"),
+  feedbackRequested: fc.boolean(),
+  reminderSent: fc.boolean()
+})
+
+const roundMemberRowArb = fc.record({
+  chatId: chatIdArb,
+  roundIndex: fc.integer({ min: 0, max: 2 }),
+  userId: userIdArb,
+  position: fc.integer({ min: 0, max: 3 }),
+  groupIndex: fc.option(fc.integer({ min: 0, max: 1 }), { nil: null }),
+  role: fc.constantFrom("organizer" as const, "member" as const, "leftover" as const),
+  arranged: fc.boolean(),
+  firstName: fc.constantFrom("Alice", "Bob"),
+  lastName: nullableTextArb,
+  username: nullableTextArb,
+  meetingFormat: fc.option(fc.constantFrom("offline", "online", "any"), { nil: null })
+})
+
+const roundFeedbackRowArb = fc.record({
+  chatId: chatIdArb,
+  roundIndex: fc.integer({ min: 0, max: 2 }),
+  userId: userIdArb,
+  met: fc.boolean(),
+  rating: fc.option(fc.constantFrom("great" as const, "bad" as const), { nil: null }),
+  comment: nullableTextArb
+})
+
+const userLanguageRowArb = fc.record({
+  userId: userIdArb,
+  language: fc.constantFrom("en", "ru")
+})
+
+const tableRowsArb: fc.Arbitrary<TableRows> = fc.record({
+  chatRows: fc.uniqueArray(chatRowArb, { selector: rowKeys.chatRows }),
+  pollRows: fc.uniqueArray(pollRowArb, { selector: rowKeys.pollRows }),
+  participantRows: fc.uniqueArray(participantRowArb, { selector: rowKeys.participantRows }),
+  profileRows: fc.uniqueArray(profileRowArb, { selector: rowKeys.profileRows }),
+  historyRows: fc.uniqueArray(historyRowArb, { selector: rowKeys.historyRows }),
+  exclusionRows: fc.uniqueArray(exclusionRowArb, { selector: rowKeys.exclusionRows }),
+  subscriptionRows: fc.uniqueArray(subscriptionRowArb, { selector: rowKeys.subscriptionRows }),
+  roundRows: fc.uniqueArray(roundRowArb, { selector: rowKeys.roundRows }),
+  roundMemberRows: fc.uniqueArray(roundMemberRowArb, { selector: rowKeys.roundMemberRows }),
+  roundFeedbackRows: fc.uniqueArray(roundFeedbackRowArb, { selector: rowKeys.roundFeedbackRows }),
+  userLanguageRows: fc.uniqueArray(userLanguageRowArb, { selector: rowKeys.userLanguageRows })
+})
+
+// Models a table as its rows keyed by primary key, the way Postgres sees it.
+const toTable = <R>(rows: ReadonlyArray<R>, keyOf: (row: R) => string): ReadonlyMap<string, R> =>
+  new Map(rows.map((row) => [keyOf(row), row]))
+
+const applyTableDiff = <R>(
+  rows: ReadonlyArray<R>,
+  diff: TableDiff<R>,
+  keyOf: (row: R) => string
+): ReadonlyMap<string, R> => {
+  const table = new Map(toTable(rows, keyOf))
+  for (const row of diff.deletes) {
+    table.delete(keyOf(row))
+  }
+  for (const row of diff.upserts) {
+    table.set(keyOf(row), row)
+  }
+  return table
+}
+
+const expectSynced = <R>(
+  previous: ReadonlyArray<R>,
+  next: ReadonlyArray<R>,
+  diff: TableDiff<R>,
+  keyOf: (row: R) => string
+) => {
+  expect(applyTableDiff(previous, diff, keyOf)).toEqual(toTable(next, keyOf))
+}
+
+describe("state-store-db-diff", () => {
+  it("applying the diff to the previous rows equals a full rewrite", () => {
+    fc.assert(
+      fc.property(tableRowsArb, tableRowsArb, (previous, next) => {
+        const diff = diffPersistRows(previous, next)
+        expectSynced(previous.chatRows, next.chatRows, diff.chatRows, rowKeys.chatRows)
+        expectSynced(previous.pollRows, next.pollRows, diff.pollRows, rowKeys.pollRows)
+        expectSynced(previous.participantRows, next.participantRows, diff.participantRows, rowKeys.participantRows)
+        expectSynced(previous.profileRows, next.profileRows, diff.profileRows, rowKeys.profileRows)
+        expectSynced(previous.historyRows, next.historyRows, diff.historyRows, rowKeys.historyRows)
+        expectSynced(previous.exclusionRows, next.exclusionRows, diff.exclusionRows, rowKeys.exclusionRows)
+        expectSynced(previous.subscriptionRows, next.subscriptionRows, diff.subscriptionRows, rowKeys.subscriptionRows)
+        expectSynced(previous.roundRows, next.roundRows, diff.roundRows, rowKeys.roundRows)
+        expectSynced(previous.roundMemberRows, next.roundMemberRows, diff.roundMemberRows, rowKeys.roundMemberRows)
+        expectSynced(
+          previous.roundFeedbackRows,
+          next.roundFeedbackRows,
+          diff.roundFeedbackRows,
+          rowKeys.roundFeedbackRows
+        )
+        expectSynced(previous.userLanguageRows, next.userLanguageRows, diff.userLanguageRows, rowKeys.userLanguageRows)
+      })
+    )
+  })
+
+  it("unchanged rows are never written", () => {
+    fc.assert(
+      fc.property(tableRowsArb, (rows) => {
+        const diff = diffPersistRows(rows, structuredClone(rows))
+        for (const name of tableNames) {
+          expect(diff[name]).toEqual({ upserts: [], deletes: [] })
+        }
+      })
+    )
+  })
+
+  it("a profile edit touches only its profile row", () => {
+    const chatId = ChatId("-100")
+    const previous = ensureChat(emptyState(RngSeed(1)), chatId)
+    const profile = {
+      userId: UserId(7),
+      about: null,
+      occupation: "Designer",
+      interests: null,
+      hooks: null,
+      city: "Berlin",
+      languages: null,
+      meetingFormat: "online" as const
+    }
+    const next = setUserProfile(previous, profile)
+    const diff = diffPersistRows(buildPersistRows(previous, 1), buildPersistRows(next, 1))
+    expect(diff.profileRows.upserts).toEqual([profile])
+    expect(diff.chatRows).toEqual({ upserts: [], deletes: [] })
+    expect(diff.participantRows).toEqual({ upserts: [], deletes: [] })
+  })
+})
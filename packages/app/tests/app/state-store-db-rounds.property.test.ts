@@ -0,0 +1,136 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect, Either } from "effect"
+import fc from "fast-check"
+
+import { ChatId, LocalDateString, RngSeed, UserId } from "../../src/core/brand.js"
+import type {
+  BotState,
+  MeetingFormat,
+  MeetingRating,
+  Pairing,
+  Participant,
+  RoundRecord
+} from "../../src/core/domain.js"
+import { emptyState } from "../../src/core/domain.js"
+import { buildRoundRecord } from "../../src/core/rounds.js"
+import { ensureChat } from "../../src/core/state.js"
+import { attachStoredRounds, buildRoundRows } from "../../src/shell/state-store-db-rounds.js"
+
+const participantArb: fc.Arbitrary<Participant> = fc.record(
+  {
+    id: fc.integer({ min: 1, max: 40 }).map((id) => UserId(id)),
+    firstName: fc.constantFrom("Alice", "Bob", "Carol"),
+    lastName: fc.constantFrom("Smith", "Jones"),
+    username: fc.constantFrom("alice", "bob"),
+    meetingFormat: fc.constantFrom<MeetingFormat>("offline", "online", "any")
+  },
+  { requiredKeys: ["id", "firstName"] }
+)
+
+// Splits distinct participants into pairs and triples with the remainder as leftovers.
+const toGroups = (participants: ReadonlyArray<Participant>, triples: boolean) => {
+  const size = triples ? 3 : 2
+  const pairs: Array<Pairing> = []
+  let index = 0
+  for (; index + size <= participants.length; index += size) {
+    const [first, second, third] = participants.slice(index, index + size)
+    if (first && second) {
+      pairs.push(
+        third ? { kind: "triple", members: [first, second, third] } : { kind: "pair", members: [first, second] }
+      )
+    }
+  }
+  return { pairs, leftovers: participants.slice(index) }
+}
+
+const roundArb: fc.Arbitrary<RoundRecord> = fc
+  .record({
+    participants: fc.uniqueArray(participantArb, { selector: (participant) => participant.id, maxLength: 8 }),
+    triples: fc.boolean(),
+    day: fc.integer({ min: 10, max: 28 }),
+    rating: fc.option(fc.constantFrom<MeetingRating>("great", "ok", "bad"), { nil: null }),
+    answered: fc.boolean(),
+    reminded: fc.boolean()
+  })
+  .map(({ answered, day, participants, rating, reminded, triples }) => {
+    const { leftovers, pairs } = toGroups(participants, triples)
+    const round = buildRoundRecord(LocalDateString(`2026-03-${day}`), pairs, [], leftovers)
+    return {
+      ...round,
+      feedbackRequested: answered,
+      reminderSent: reminded,
+      groups: round.groups.map((group, index) => ({
+        ...group,
+        feedback: answered ? [{ userId: group.members[1].id, met: rating !== null, rating, comment: rating }] : [],
+        arranged: reminded && index % 2 === 0
+      }))
+    }
+  })
+
+const chatIds = [ChatId("-1"), ChatId("-2")]
+
+const stateWithRounds = (rounds: ReadonlyArray<ReadonlyArray<RoundRecord>>): BotState => {
+  let state = emptyState(RngSeed(1))
+  for (const [index, chatId] of chatIds.entries()) {
+    state = ensureChat(state, chatId)
+    const chat = state.chats[chatId]
+    if (chat) {
+      state = { ...state, chats: { ...state.chats, [chatId]: { ...chat, rounds: rounds[index] ?? [] } } }
+    }
+  }
+  return state
+}
+
+const withoutRounds = (state: BotState): BotState => ({
+  ...state,
+  chats: Object.fromEntries(Object.entries(state.chats).map(([chatId, chat]) => [chatId, { ...chat, rounds: [] }]))
+})
+
+describe("state-store-db-rounds", () => {
+  it.effect("round rows load back into the same archive", () =>
+    Effect.gen(function*(_) {
+      const samples = fc.sample(fc.array(fc.array(roundArb, { maxLength: 3 }), { minLength: 2, maxLength: 2 }), {
+        numRuns: 50,
+        seed: 15
+      })
+      for (const archives of samples) {
+        const state = stateWithRounds(archives)
+        const rows = buildRoundRows(state)
+        // Postgres returns rows in no particular order.
+        const rounds = [...rows.roundRows]
+        rounds.reverse()
+        const members = [...rows.roundMemberRows]
+        members.reverse()
+        const loaded = yield* _(
+          attachStoredRounds(withoutRounds(state), {
+            rounds,
+            members,
+            feedback: rows.roundFeedbackRows,
+            onError: (error) => error
+          })
+        )
+        expect(loaded).toEqual(state)
+      }
+    }))
+
+  it.effect("a group without an organizer is rejected", () =>
+    Effect.gen(function*(_) {
+      const alice = { id: UserId(1), firstName: "Alice" }
+      const bob = { id: UserId(2), firstName: "Bob" }
+      const state = stateWithRounds([[
+        buildRoundRecord(LocalDateString("2026-03-16"), [{ kind: "pair", members: [alice, bob] }], [], [])
+      ]])
+      const rows = buildRoundRows(state)
+      const result = yield* _(
+        Effect.either(
+          attachStoredRounds(withoutRounds(state), {
+            rounds: rows.roundRows,
+            members: rows.roundMemberRows.map((row) => ({ ...row, role: "member" })),
+            feedback: [],
+            onError: (error) => error
+          })
+        )
+      )
+      expect(Either.isLeft(result)).toBe(true)
+    }))
+})
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect } from "effect"
+
+import { handleCommands } from "../../src/app/commands.js"
+import { ChatId, LocalDateString, RngSeed } from "../../src/core/brand.js"
+import type { BotState } from "../../src/core/domain.js"
+import { buildRoundRecord } from "../../src/core/rounds.js"
+import { emptyChatState } from "../../src/core/state.js"
+import type { ChatMemberStatus } from "../../src/shell/telegram.js"
+import {
+  makeMessageUpdate,
+  makeParticipant,
+  makeStateStoreStub,
+  makeStateWithChat,
+  makeTelegramStub
+} from "./test-utils.js"
+
+const chatId = ChatId("-750")
+const alice = makeParticipant(1, "Alice")
+const bob = makeParticipant(2, "Bob")
+const carol = makeParticipant(3, "Carol")
+
+const makeState = (): BotState => {
+  const rounds = [
+    buildRoundRecord(LocalDateString("2026-03-09"), [{ kind: "pair", members: [alice, bob] }], [], [carol]),
+    buildRoundRecord(LocalDateString("2026-03-16"), [{ kind: "pair", members: [bob, alice] }], [], [])
+  ]
+  return makeStateWithChat(chatId, { ...emptyChatState(RngSeed(5)), rounds }, RngSeed(6))
+}
+
+const sendStats = (status: ChatMemberStatus) =>
+  Effect.gen(function*(_) {
+    const { messageCalls, setMemberStatus, telegram } = makeTelegramStub()
+    setMemberStatus(status)
+    const { stateStore } = makeStateStoreStub(makeState())
+    yield* _(
+      handleCommands({
+        state: makeState(),
+        updates: [makeMessageUpdate({ updateId: 1, chatId, text: "/stats", from: carol })],
+        telegram,
+        stateStore,
+        timeZone: "UTC"
+      })
+    )
+    return messageCalls.map((call) => call.text)
+  })
+
+describe("stats", () => {
+  it.effect("/stats shows turnout and rates to admins", () =>
+    Effect.gen(function*(_) {
+      const [reply] = yield* _(sendStats("administrator"))
+      expect(reply).toContain("2026-03-09: 3 (1 without a pair)")
+      expect(reply).toContain("2026-03-16: 2")
+      expect(reply).toContain("Repeat pairs: 50%")
+      expect(reply).toContain("\"Yes\" voters left without a pair: 20%")
+    }))
+
+  it.effect("/stats is admin-only", () =>
+    Effect.gen(function*(_) {
+      const replies = yield* _(sendStats("member"))
+      expect(replies).toHaveLength(1)
+      expect(replies[0]).not.toContain("Repeat pairs")
+    }))
+})
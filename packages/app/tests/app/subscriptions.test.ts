@@ -0,0 +1,112 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect } from "effect"
+
+import { summarize } from "../../src/app/actions.js"
+import { handleCommands } from "../../src/app/commands.js"
+import { handleMessages } from "../../src/app/diagnostics.js"
+import { ChatId, LocalDateString, RngSeed } from "../../src/core/brand.js"
+import type { BotState, Participant } from "../../src/core/domain.js"
+import { emptyChatState } from "../../src/core/state.js"
+import { encodeSubscriptionAction, skipRound, subscribe } from "../../src/core/subscriptions.js"
+import {
+  expectSummaryCalls,
+  makeCallbackUpdate,
+  makeMessageUpdate,
+  makeParticipant,
+  makeStateStoreStub,
+  makeStateWithChat,
+  makeTelegramStub
+} from "./test-utils.js"
+
+const chatId = ChatId("-950")
+const alice = makeParticipant(1, "Alice")
+const bob = makeParticipant(2, "Bob")
+const carol = makeParticipant(3, "Carol")
+
+const makeState = (mode: "poll" | "subscription"): BotState =>
+  makeStateWithChat(chatId, { ...emptyChatState(RngSeed(25)), title: "Team", mode }, RngSeed(5))
+
+const subscribeAll = (state: BotState, members: ReadonlyArray<Participant>): BotState => {
+  let next = state
+  for (const member of members) {
+    next = subscribe(next, chatId, member)
+  }
+  return next
+}
+
+const runCommand = (state: BotState, text: string, from: Participant) =>
+  Effect.gen(function*(_) {
+    const { messageCalls, telegram } = makeTelegramStub()
+    const { stateStore } = makeStateStoreStub(state)
+    const next = yield* _(
+      handleCommands({
+        state,
+        updates: [makeMessageUpdate({ updateId: 1, chatId, text, from })],
+        telegram,
+        stateStore,
+        timeZone: "UTC"
+      })
+    )
+    return { messageCalls, next }
+  })
+
+describe("subscriptions", () => {
+  it.effect("/subscribe puts any member on the roster of a subscription chat", () =>
+    Effect.gen(function*(_) {
+      const { next } = yield* _(runCommand(makeState("subscription"), "/subscribe", alice))
+      expect(next.chats[chatId]?.subscriptions).toEqual({ "1": { participant: alice, skippedDates: [] } })
+    }))
+
+  it.effect("/subscribe leaves poll chats untouched", () =>
+    Effect.gen(function*(_) {
+      const state = makeState("poll")
+      const { messageCalls, next } = yield* _(runCommand(state, "/subscribe", alice))
+      expect(next.chats).toBe(state.chats)
+      expect(messageCalls[0]?.text).toContain("/mode subscription")
+    }))
+
+  it.effect("/skip marks the next round for the member", () =>
+    Effect.gen(function*(_) {
+      const state = subscribeAll(makeState("subscription"), [alice])
+      const { next } = yield* _(runCommand(state, "/skip", alice))
+      expect(next.chats[chatId]?.subscriptions["1"]?.skippedDates.length).toBe(1)
+    }))
+
+  it.effect("/unsubscribe takes the member off the roster", () =>
+    Effect.gen(function*(_) {
+      const state = subscribeAll(makeState("subscription"), [alice, bob])
+      const { next } = yield* _(runCommand(state, "/unsubscribe", alice))
+      expect(Object.keys(next.chats[chatId]?.subscriptions ?? {})).toEqual(["2"])
+    }))
+
+  it.effect("the private join button subscribes the member", () =>
+    Effect.gen(function*(_) {
+      const { telegram } = makeTelegramStub()
+      const data = encodeSubscriptionAction({ kind: "join", chatId })
+      const update = makeCallbackUpdate({ updateId: 1, chatId: ChatId("3"), data, from: carol })
+      const next = yield* _(handleMessages(makeState("subscription"), [update], telegram, "random_coffee_bot"))
+      expect(next.chats[chatId]?.subscriptions["3"]?.participant).toEqual(carol)
+    }))
+
+  it.effect("summarize pairs the roster without a poll and leaves out members who skip", () =>
+    Effect.gen(function*(_) {
+      const summaryDate = LocalDateString("2026-01-12")
+      const state = skipRound(
+        subscribeAll(makeState("subscription"), [alice, bob, carol]),
+        chatId,
+        carol.id,
+        summaryDate
+      )
+      const chat = state.chats[chatId]
+      if (!chat) {
+        return
+      }
+      const { messageCalls, messageWithKeyboardCalls, telegram } = makeTelegramStub()
+      const { stateStore } = makeStateStoreStub(state)
+      const next = yield* _(summarize({ state, chatId, chat, summaryDate, telegram, stateStore }))
+      expectSummaryCalls(messageCalls, chatId, 2, messageWithKeyboardCalls)
+      const members = next.chats[chatId]?.rounds[0]?.groups[0]?.members ?? []
+      expect(new Set(members.map((member) => member.id))).toEqual(new Set([alice.id, bob.id]))
+      expect(next.chats[chatId]?.subscriptions["3"]).toBeDefined()
+    }))
+})
@@ -5,6 +5,7 @@ import { MessageId, PollId, UserId } from "../../src/core/brand.js"
 import type { ChatId, PollId as PollIdType, RngSeed } from "../../src/core/brand.js"
 import type { BotState, ChatState, ChatType, Participant } from "../../src/core/domain.js"
 import { emptyState } from "../../src/core/domain.js"
+import { yesNoMeetingFormats } from "../../src/core/meeting-format.js"
 import type { IncomingUpdate } from "../../src/core/updates.js"
 import type { StateStoreShape } from "../../src/shell/state-store.js"
 import type { ChatInfo, ChatMemberStatus, MessageKeyboard, TelegramServiceShape } from "../../src/shell/telegram.js"
@@ -172,7 +173,9 @@ export const makeTelegramStub = (options?: TelegramStubOverrides) => {
       username: botUsername,
       firstName: "Random",
       lastName: "Coffee"
-    }))
+    })),
+    setWebhook: () => Effect.void,
+    deleteWebhook: Effect.void
   }
 
   const setMemberStatus = (status: ChatMemberStatus): void => {
@@ -229,6 +232,9 @@ export const makeStateWithChat = (
   }
 })
 
+// Poll fields of a plain yes/no poll that signs members up with its first option.
+export const yesNoPollOptions = { joinOption: 0, formats: yesNoMeetingFormats, standbyOption: null }
+
 export const makeStateWithPoll = (
   chatId: ChatId,
   chat: ChatState,
@@ -270,6 +276,7 @@ export const makeCallbackUpdate = (params: {
   readonly updateId: number
   readonly chatId: ChatId
   readonly data: string
+  readonly from?: Participant | undefined
   readonly chatType?: ChatType | undefined
   readonly threadId?: number | undefined
 }): IncomingUpdate => ({
@@ -278,17 +285,20 @@ export const makeCallbackUpdate = (params: {
     chatId: params.chatId,
     chatType: params.chatType ?? "private",
     data: params.data,
+    from: params.from,
     messageThreadId: params.threadId
   }
 })
 
+// Pair DMs carry the re-match button, so they arrive as keyboard messages.
 export const expectSummaryCalls = (
   messageCalls: ReadonlyArray<MessageCall>,
   chatId: ChatId,
-  expectedDirect: number
+  expectedDirect: number,
+  keyboardCalls: ReadonlyArray<MessageWithKeyboardCall> = []
 ): { readonly summaryCall: MessageCall } => {
   const summaryCall = messageCalls.find((call) => call.chatId === chatId)
-  const directCalls = messageCalls.filter((call) => call.chatId !== chatId)
+  const directCalls = [...messageCalls, ...keyboardCalls].filter((call) => call.chatId !== chatId)
   expect(summaryCall).not.toBeUndefined()
   expect(directCalls.length).toBe(expectedDirect)
   return { summaryCall: summaryCall as MessageCall }
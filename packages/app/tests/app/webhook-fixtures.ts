@@ -0,0 +1,21 @@
+import type { Update } from "grammy/types"
+
+export const groupMessageUpdate: Update = {
+  update_id: 501,
+  message: {
+    message_id: 11,
+    date: 1_767_225_600,
+    chat: { id: -700, type: "supergroup", title: "Coffee" },
+    from: { id: 7, is_bot: false, first_name: "Alice", username: "alice" },
+    text: "/nextpoll"
+  }
+}
+
+export const pollAnswerUpdate: Update = {
+  update_id: 502,
+  poll_answer: {
+    poll_id: "poll-webhook",
+    user: { id: 8, is_bot: false, first_name: "Bob" },
+    option_ids: [0]
+  }
+}
@@ -0,0 +1,73 @@
+import * as NodeHttpServer from "@effect/platform-node/NodeHttpServer"
+import * as HttpClient from "@effect/platform/HttpClient"
+import * as HttpClientRequest from "@effect/platform/HttpClientRequest"
+import { describe, expect, it } from "@effect/vitest"
+import { Effect, pipe } from "effect"
+
+import { ChatId, PollId, UserId } from "../../src/core/brand.js"
+import type { IncomingUpdate } from "../../src/core/updates.js"
+import { secretTokenHeader, serveWebhook } from "../../src/shell/webhook.js"
+import { groupMessageUpdate, pollAnswerUpdate } from "./webhook-fixtures.js"
+
+const secretToken = "test-secret"
+
+const postUpdate = (body: object, token: string | null, fails = false) =>
+  Effect.gen(function*(_) {
+    const received: Array<IncomingUpdate> = []
+    yield* _(
+      serveWebhook({ path: "/telegram", secretToken }, (update) =>
+        pipe(
+          Effect.sync(() => {
+            received.push(update)
+          }),
+          Effect.zipRight(fails ? Effect.fail("state store unavailable") : Effect.void)
+        ))
+    )
+    const client = yield* _(HttpClient.HttpClient)
+    const request = pipe(
+      HttpClientRequest.post("/telegram"),
+      HttpClientRequest.bodyUnsafeJson(body),
+      token === null ? (value) => value : HttpClientRequest.setHeader(secretTokenHeader, token)
+    )
+    const response = yield* _(client.execute(request))
+    return { status: response.status, received }
+  }).pipe(Effect.provide(NodeHttpServer.layerTest))
+
+describe("webhook", () => {
+  it.scoped("feeds a valid message update to the handler", () =>
+    Effect.gen(function*(_) {
+      const { received, status } = yield* _(postUpdate(groupMessageUpdate, secretToken))
+      expect(status).toBe(200)
+      expect(received.map((update) => update.updateId)).toEqual([501])
+      expect(received[0]?.message).toMatchObject({ chatId: ChatId("-700"), text: "/nextpoll" })
+    }))
+
+  it.scoped("answers 500 when the update could not be processed so Telegram sends it again", () =>
+    Effect.gen(function*(_) {
+      const { received, status } = yield* _(postUpdate(groupMessageUpdate, secretToken, true))
+      expect(status).toBe(500)
+      expect(received.map((update) => update.updateId)).toEqual([501])
+    }))
+
+  it.scoped("decodes poll answers", () =>
+    Effect.gen(function*(_) {
+      const { received } = yield* _(postUpdate(pollAnswerUpdate, secretToken))
+      expect(received[0]?.pollVote).toMatchObject({ pollId: PollId("poll-webhook"), optionIds: [0] })
+      expect(received[0]?.pollVote?.participant?.id).toBe(UserId(8))
+    }))
+
+  it.scoped("rejects requests with a wrong or missing secret token", () =>
+    Effect.gen(function*(_) {
+      const wrong = yield* _(postUpdate(groupMessageUpdate, "other-secret"))
+      const missing = yield* _(postUpdate(groupMessageUpdate, null))
+      expect([wrong.status, missing.status]).toEqual([401, 401])
+      expect([...wrong.received, ...missing.received]).toEqual([])
+    }))
+
+  it.scoped("rejects bodies that are not Telegram updates", () =>
+    Effect.gen(function*(_) {
+      const { received, status } = yield* _(postUpdate({ message: "hello" }, secretToken))
+      expect(status).toBe(400)
+      expect(received).toEqual([])
+    }))
+})
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "@effect/vitest"
+import fc from "fast-check"
+
+import { ChatId, LocalDateString, RngSeed, UserId } from "../../src/core/brand.js"
+import { type BotState, emptyState } from "../../src/core/domain.js"
+import {
+  applyFeedbackChoice,
+  applyFeedbackComment,
+  dueFeedbackRound,
+  encodeFeedbackAction,
+  type FeedbackChoice,
+  feedbackRecipients,
+  markFeedbackRequested,
+  parseFeedbackAction
+} from "../../src/core/feedback.js"
+import { buildRoundRecord } from "../../src/core/rounds.js"
+import { emptyChatState } from "../../src/core/state.js"
+
+const chatId = ChatId("-1")
+const alice = { id: UserId(1), firstName: "Alice" }
+const bob = { id: UserId(2), firstName: "Bob" }
+const carol = { id: UserId(3), firstName: "Carol" }
+const target = { chatId, roundIndex: 0 }
+
+const makeState = (): BotState => {
+  const round = buildRoundRecord(LocalDateString("2026-03-16"), [{ kind: "pair", members: [alice, bob] }], [], [carol])
+  const chat = { ...emptyChatState(RngSeed(2)), rounds: [round] }
+  return { ...emptyState(RngSeed(1)), chats: { [chatId]: chat } }
+}
+
+const answersOf = (state: BotState) => state.chats[chatId]?.rounds[0]?.groups[0]?.feedback
+
+const choose = (state: BotState, userId: UserId, choice: FeedbackChoice) =>
+  applyFeedbackChoice(state, ChatId(`${userId}`), userId, { ...target, choice })
+
+describe("feedback", () => {
+  it("the latest round becomes due once after the delay", () => {
+    const state = makeState()
+    const chat = state.chats[chatId]
+    expect(chat && dueFeedbackRound(chat, LocalDateString("2026-03-18"))).toBeNull()
+    expect(chat && dueFeedbackRound(chat, LocalDateString("2026-03-19"))).toBe(0)
+    const marked = markFeedbackRequested(state, target).chats[chatId]
+    expect(marked && dueFeedbackRound(marked, LocalDateString("2026-03-30"))).toBeNull()
+  })
+
+  it("only group members are surveyed", () => {
+    const round = makeState().chats[chatId]?.rounds[0]
+    expect(round && feedbackRecipients(round)).toEqual([
+      { participant: alice, partners: [bob] },
+      { participant: bob, partners: [alice] }
+    ])
+  })
+
+  it("met, rating and comment end up in one answer", () => {
+    const met = choose(makeState(), alice.id, "met")
+    expect(met.reply).toBe("askRating")
+    const rated = choose(met.state, alice.id, "great")
+    expect(rated.reply).toBe("askComment")
+    const commented = applyFeedbackComment(rated.state, ChatId("1"), alice.id, "  Coffee was great  ")
+    expect(commented?.reply).toBe("thanks")
+    expect(commented && answersOf(commented.state)).toEqual([
+      { userId: alice.id, met: true, rating: "great", comment: "Coffee was great" }
+    ])
+    expect(commented?.state.pendingFeedbackComments).toEqual({})
+    expect(commented && applyFeedbackComment(commented.state, ChatId("1"), alice.id, "again")).toBeNull()
+  })
+
+  it("missed meetings skip the rating and skip drops the comment", () => {
+    const missed = choose(makeState(), bob.id, "missed")
+    expect(missed.reply).toBe("askComment")
+    const skipped = choose(missed.state, bob.id, "skip")
+    expect(skipped.reply).toBe("thanks")
+    expect(skipped.state.pendingFeedbackComments).toEqual({})
+    expect(answersOf(skipped.state)).toEqual([{ userId: bob.id, met: false, rating: null, comment: null }])
+  })
+
+  it("people outside the round get an outdated reply", () => {
+    const state = makeState()
+    expect(choose(state, carol.id, "met")).toEqual({ state, reply: "outdated" })
+  })
+
+  it("survey callbacks round-trip and foreign data is rejected", () => {
+    const choiceArb = fc.constantFrom<FeedbackChoice>("met", "missed", "great", "ok", "bad", "skip")
+    fc.assert(
+      fc.property(fc.integer({ min: -1_000_000, max: 1_000_000 }), fc.nat(500), choiceArb, (chat, round, choice) => {
+        const action = { chatId: ChatId(`${chat}`), roundIndex: round, choice }
+        expect(parseFeedbackAction(encodeFeedbackAction(action))).toEqual(action)
+      })
+    )
+    expect(parseFeedbackAction("fb:-1:01:met")).toBeNull()
+    expect(parseFeedbackAction("hist:1")).toBeNull()
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "@effect/vitest"
+import fc from "fast-check"
+
+import { ChatId, LocalDateString, RngSeed, UserId } from "../../src/core/brand.js"
+import { emptyState } from "../../src/core/domain.js"
+import {
+  encodeHistoryPage,
+  type HistoryEntry,
+  historyPage,
+  historyPageSize,
+  listUserHistory,
+  parseHistoryPage
+} from "../../src/core/history.js"
+import { buildRoundRecord } from "../../src/core/rounds.js"
+import { emptyChatState } from "../../src/core/state.js"
+
+const alice = { id: UserId(1), firstName: "Alice" }
+const bob = { id: UserId(2), firstName: "Bob", username: "bob" }
+const carol = { id: UserId(3), firstName: "Carol" }
+
+const entryArb: fc.Arbitrary<HistoryEntry> = fc.record({
+  chatId: fc.constant(ChatId("-1")),
+  chatTitle: fc.constant("Team"),
+  summaryDate: fc.integer({ min: 10, max: 28 }).map((day) => LocalDateString(`2026-03-${day}`)),
+  partners: fc.constant([bob])
+})
+
+describe("history", () => {
+  it("lists matched rounds across chats newest first and skips leftover rounds", () => {
+    const state = emptyState(RngSeed(1))
+    const first = buildRoundRecord(LocalDateString("2026-03-02"), [{ kind: "pair", members: [alice, bob] }], [], [])
+    const leftover = buildRoundRecord(LocalDateString("2026-03-09"), [{ kind: "pair", members: [bob, carol] }], [], [
+      alice
+    ])
+    const latest = buildRoundRecord(LocalDateString("2026-03-16"), [{ kind: "pair", members: [carol, alice] }], [], [])
+    const chats = {
+      "-1": { ...emptyChatState(RngSeed(2)), title: "Team", rounds: [first, leftover] },
+      "-2": { ...emptyChatState(RngSeed(3)), title: "Guild", rounds: [latest] }
+    }
+    const entries = listUserHistory({ ...state, chats }, alice.id)
+    expect(entries.map((entry) => [entry.summaryDate, entry.chatTitle, entry.partners])).toEqual([
+      ["2026-03-16", "Guild", [carol]],
+      ["2026-03-02", "Team", [bob]]
+    ])
+  })
+
+  it("pages are bounded and clamped into range", () => {
+    fc.assert(
+      fc.property(fc.array(entryArb, { maxLength: 23 }), fc.integer({ min: -3, max: 8 }), (entries, requested) => {
+        const page = historyPage(entries, requested)
+        expect(page.entries.length).toBeLessThanOrEqual(historyPageSize)
+        expect(page.page).toBeGreaterThanOrEqual(0)
+        expect(page.page).toBeLessThan(page.pageCount)
+        expect(page.entries).toEqual(entries.slice(page.page * historyPageSize, (page.page + 1) * historyPageSize))
+      })
+    )
+  })
+
+  it("page callbacks round-trip and foreign data is rejected", () => {
+    fc.assert(
+      fc.property(fc.nat(), (page) => {
+        expect(parseHistoryPage(encodeHistoryPage(page))).toBe(page)
+      })
+    )
+    expect(parseHistoryPage("hist:01")).toBeNull()
+    expect(parseHistoryPage("excl:add:-1:2")).toBeNull()
+  })
+})
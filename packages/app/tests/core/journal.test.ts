@@ -0,0 +1,75 @@
+import { describe, expect, it } from "@effect/vitest"
+
+import { ChatId, LocalDateString, MessageId, PollId, RngSeed, UserId } from "../../src/core/brand.js"
+import type { BotState } from "../../src/core/domain.js"
+import { emptyState } from "../../src/core/domain.js"
+import type { BotEvent } from "../../src/core/events.js"
+import { unsavedEvents } from "../../src/core/journal.js"
+import { yesNoMeetingFormats } from "../../src/core/meeting-format.js"
+import { buildRoundRecord } from "../../src/core/rounds.js"
+import { addVote, applySummary, ensureChat, removeVote, setChatTitle, startPoll } from "../../src/core/state.js"
+import { participant } from "./property-helpers.js"
+
+const chatId = ChatId("-14")
+const alice = participant(1, "Alice")
+const bob = participant(2, "Bob")
+
+const withPoll = startPoll(ensureChat(emptyState(RngSeed(3)), chatId), chatId, {
+  pollId: PollId("poll-14"),
+  messageId: MessageId(14),
+  chatId,
+  summaryDate: LocalDateString("2026-02-16"),
+  threadId: null,
+  joinOption: 0,
+  formats: yesNoMeetingFormats,
+  standbyOption: null
+})
+
+const logged = (before: BotState, after: BotState): ReadonlyArray<BotEvent> =>
+  after.journal.slice(before.journal.length)
+
+describe("journal", () => {
+  it("logs a vote as a single voteAdded event", () => {
+    expect(logged(withPoll, addVote(withPoll, chatId, alice))).toEqual([
+      { kind: "voteAdded", chatId, participant: alice }
+    ])
+  })
+
+  it("keeps the transitions of one batch in the order they ran", () => {
+    const revoted = addVote(removeVote(addVote(withPoll, chatId, alice), chatId, alice.id), chatId, alice)
+    expect(logged(withPoll, revoted).map((event) => event.kind)).toEqual(["voteAdded", "voteRemoved", "voteAdded"])
+  })
+
+  it("records nothing for transitions that change nothing", () => {
+    const titled = setChatTitle(withPoll, chatId, "Team")
+    expect(setChatTitle(titled, chatId, "Team")).toBe(titled)
+    expect(ensureChat(titled, chatId)).toBe(titled)
+  })
+
+  it("records the seed a summary paired with", () => {
+    const voted = addVote(addVote(withPoll, chatId, alice), chatId, bob)
+    const round = buildRoundRecord(LocalDateString("2026-02-16"), [{ kind: "pair", members: [alice, bob] }], [], [])
+    const [event] = logged(voted, applySummary(voted, chatId, round, RngSeed(99)))
+    expect(event).toEqual({
+      kind: "summaryApplied",
+      chatId,
+      round,
+      seed: RngSeed(99),
+      pairingSeed: voted.chats[chatId]?.seed
+    })
+  })
+})
+
+describe("unsavedEvents", () => {
+  const first: BotEvent = { kind: "voteRemoved", chatId, userId: UserId(1) }
+  const second: BotEvent = { kind: "voteRemoved", chatId, userId: UserId(2) }
+
+  it("skips the events a previous save already appended", () => {
+    expect(unsavedEvents([first, second], [first])).toEqual([second])
+    expect(unsavedEvents([first], [first])).toEqual([])
+  })
+
+  it("saves a journal that starts afresh in full", () => {
+    expect(unsavedEvents([second], [first])).toEqual([second])
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "@effect/vitest"
+import fc from "fast-check"
+
+import { ChatId, RngSeed, UserId } from "../../src/core/brand.js"
+import { emptyState, type Language } from "../../src/core/domain.js"
+import {
+  groupLanguage,
+  languages,
+  memberLanguage,
+  parseLanguage,
+  privateLanguage,
+  setChatLanguage,
+  setUserLanguage
+} from "../../src/core/language.js"
+import { ensureChat } from "../../src/core/state.js"
+import { parseLanguageArgument } from "../../src/core/telegram-commands.js"
+import {
+  formatPollQuestion,
+  isLabelInAnyLanguage,
+  privateStartProfileLabel,
+  replyAdminOnly
+} from "../../src/core/text.js"
+
+const chatId = ChatId("-1")
+const languageArb = fc.constantFrom<Language>(...languages)
+const optionalLanguageArb = fc.option(languageArb, { nil: null })
+
+describe("language", () => {
+  it("stored codes round-trip and unknown codes are dropped", () => {
+    for (const language of languages) {
+      expect(parseLanguage(language)).toBe(language)
+    }
+    expect(parseLanguage("de")).toBeNull()
+    expect(parseLanguage(null)).toBeNull()
+  })
+
+  it("/language arguments are case-insensitive and default clears the setting", () => {
+    expect(parseLanguageArgument("RU")).toEqual({ language: "ru" })
+    expect(parseLanguageArgument("en")).toEqual({ language: "en" })
+    expect(parseLanguageArgument("default")).toEqual({ language: null })
+    expect(parseLanguageArgument("de")).toBeNull()
+    expect(parseLanguageArgument(null)).toBeNull()
+  })
+
+  it("groups default to English and members to Russian", () => {
+    const state = ensureChat(emptyState(RngSeed(1)), chatId)
+    expect(groupLanguage(state.chats[chatId])).toBe("en")
+    expect(groupLanguage()).toBe("en")
+    expect(memberLanguage(state, UserId(1), chatId)).toBe("ru")
+    expect(memberLanguage(state, UserId(1))).toBe("ru")
+  })
+
+  it("a member's choice wins over the chat language", () => {
+    fc.assert(
+      fc.property(optionalLanguageArb, optionalLanguageArb, (chatLanguage, userLanguage) => {
+        const base = ensureChat(emptyState(RngSeed(1)), chatId)
+        const state = setUserLanguage(setChatLanguage(base, chatId, chatLanguage), UserId(1), userLanguage)
+        expect(groupLanguage(state.chats[chatId])).toBe(chatLanguage ?? "en")
+        expect(memberLanguage(state, UserId(1), chatId)).toBe(userLanguage ?? chatLanguage ?? "ru")
+        expect(privateLanguage(state.userLanguages, UserId(1), null)).toBe(userLanguage ?? "ru")
+        expect(memberLanguage(state, UserId(2), chatId)).toBe(chatLanguage ?? "ru")
+      })
+    )
+  })
+
+  it("resetting a member's language removes the entry", () => {
+    const state = setUserLanguage(setUserLanguage(emptyState(RngSeed(1)), UserId(1), "en"), UserId(1), null)
+    expect(state.userLanguages).toEqual({})
+  })
+
+  it("setting a language of an unknown chat keeps state", () => {
+    const state = emptyState(RngSeed(1))
+    expect(setChatLanguage(state, chatId, "ru")).toBe(state)
+  })
+
+  it("every language has its own non-empty texts", () => {
+    expect(formatPollQuestion("en")).not.toBe(formatPollQuestion("ru"))
+    for (const language of languages) {
+      expect(replyAdminOnly(language).length).toBeGreaterThan(0)
+    }
+  })
+
+  it("labels are recognized in every language", () => {
+    fc.assert(
+      fc.property(languageArb, (language) => {
+        expect(isLabelInAnyLanguage(privateStartProfileLabel, ` ${privateStartProfileLabel(language)} `)).toBe(true)
+      })
+    )
+    expect(isLabelInAnyLanguage(privateStartProfileLabel, "unknown")).toBe(false)
+  })
+})
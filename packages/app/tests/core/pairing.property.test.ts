@@ -0,0 +1,164 @@
+import { describe, expect, it } from "@effect/vitest"
+import fc from "fast-check"
+
+import { LocalDateString, PairKey, RngSeed, UserId } from "../../src/core/brand.js"
+import type { MeetingFormat, PairHistory, Pairing, Participant } from "../../src/core/domain.js"
+import { type MatchingEdge, maxWeightMatching } from "../../src/core/matching.js"
+import { pairParticipants } from "../../src/core/pairing.js"
+import { participantArb } from "./property-helpers.js"
+
+const metOn = LocalDateString("2026-01-05")
+
+const pairKey = (a: Participant, b: Participant): PairKey => PairKey(`${Math.min(a.id, b.id)}-${Math.max(a.id, b.id)}`)
+
+const historyArb = fc.uniqueArray(participantArb, {
+  selector: (participant) => participant.id,
+  minLength: 0,
+  maxLength: 9
+}).chain((participants) =>
+  fc.array(fc.nat({ max: 4 }), { minLength: 36, maxLength: 36 }).map((counts) => {
+    const history: Record<PairKey, ReadonlyArray<LocalDateString>> = {}
+    let next = 0
+    for (const [i, a] of participants.entries()) {
+      for (const b of participants.slice(i + 1)) {
+        history[pairKey(a, b)] = Array.from({ length: counts[next] ?? 0 }, () => metOn)
+        next += 1
+      }
+    }
+    return { participants, history }
+  })
+)
+
+const cost = (history: PairHistory, a: Participant, b: Participant): number => history[pairKey(a, b)]?.length ?? 0
+
+const roundCost = (history: PairHistory, pairs: ReadonlyArray<Pairing>): number => {
+  let total = 0
+  for (const pair of pairs) {
+    total += cost(history, pair.members[0], pair.members[1])
+  }
+  return total
+}
+
+// Exhaustive optimum over matchings that leave at most one participant unpaired.
+const bruteForceCost = (history: PairHistory, participants: ReadonlyArray<Participant>): number => {
+  const [first, ...rest] = participants
+  if (!first || rest.length === 0) {
+    return 0
+  }
+  let best = participants.length % 2 === 1 ? bruteForceCost(history, rest) : Number.POSITIVE_INFINITY
+  for (const [index, partner] of rest.entries()) {
+    const others = rest.filter((_, otherIndex) => otherIndex !== index)
+    best = Math.min(best, cost(history, first, partner) + bruteForceCost(history, others))
+  }
+  return best
+}
+
+const isSymmetric = (mate: ReadonlyArray<number>): boolean =>
+  mate.every((partner, vertex) => partner === -1 || mate[partner] === vertex)
+
+const hasEdge = (edges: ReadonlyArray<MatchingEdge>, a: number, b: number): boolean =>
+  edges.some(([i, j]) => (i === a && j === b) || (i === b && j === a))
+
+describe("pairParticipants optimality", () => {
+  it("finds a round with the minimal total repeat cost", () => {
+    fc.assert(
+      fc.property(historyArb, fc.integer(), ({ history, participants }, seed) => {
+        const result = pairParticipants(participants, history, RngSeed(seed))
+        expect(result.leftovers.length).toBe(participants.length % 2)
+        expect(roundCost(history, result.pairs)).toBe(bruteForceCost(history, participants))
+      })
+    )
+  })
+
+  it("is deterministic for a given seed", () => {
+    fc.assert(
+      fc.property(historyArb, fc.integer(), ({ history, participants }, seed) => {
+        const first = pairParticipants(participants, history, RngSeed(seed))
+        const second = pairParticipants(participants, history, RngSeed(seed))
+        expect(second).toEqual(first)
+      })
+    )
+  })
+})
+
+const groupKeys = (members: ReadonlyArray<Participant>): ReadonlyArray<PairKey> =>
+  members.flatMap((a, i) => members.slice(i + 1).map((b) => pairKey(a, b)))
+
+describe("pairParticipants exclusions", () => {
+  it("never matches an excluded pair, even inside a triple", () => {
+    fc.assert(
+      fc.property(historyArb, fc.integer(), fc.array(fc.nat({ max: 35 }), { maxLength: 6 }), (input, seed, picks) => {
+        const keys = groupKeys(input.participants)
+        const excluded = new Set(picks.flatMap((pick) => keys[pick] ?? []))
+        const options = { allowTriples: true, decay: null, excluded }
+        const result = pairParticipants(input.participants, input.history, RngSeed(seed), options)
+        const matchedKeys = result.pairs.flatMap((pair) => groupKeys(pair.members))
+        expect(matchedKeys.filter((key) => excluded.has(key))).toEqual([])
+        expect(result.pairs.flatMap((pair) => pair.members).length + result.leftovers.length)
+          .toBe(input.participants.length)
+      })
+    )
+  })
+})
+
+const formatArb = fc.constantFrom<MeetingFormat>("offline", "online", "any")
+
+const formatCounts = (participants: ReadonlyArray<Participant>): ReadonlyArray<number> =>
+  (["online", "offline", "any"] as const).map((format) =>
+    participants.filter((participant) => participant.meetingFormat === format).length
+  )
+
+describe("pairParticipants meeting formats", () => {
+  it("groups only members with compatible formats and keeps the maximum size", () => {
+    fc.assert(
+      fc.property(
+        historyArb,
+        fc.integer(),
+        fc.array(formatArb, { minLength: 9, maxLength: 9 }),
+        (input, seed, picks) => {
+          const participants = input.participants.map((participant, index) => ({
+            ...participant,
+            meetingFormat: picks[index] ?? "any"
+          }))
+          const options = { allowTriples: true, decay: null, excluded: new Set<PairKey>() }
+          const result = pairParticipants(participants, input.history, RngSeed(seed), options)
+          for (const pair of result.pairs) {
+            const formats = new Set(
+              pair.members.flatMap((member) => member.meetingFormat === "any" ? [] : [member.meetingFormat])
+            )
+            expect(formats.size).toBeLessThanOrEqual(1)
+          }
+          const [online = 0, offline = 0, either = 0] = formatCounts(participants)
+          // Same-format members always meet each other, so only an odd online and an odd in-person member can both sit out.
+          const stranded = online % 2 === 1 && offline % 2 === 1 && either === 0
+          expect(result.leftovers.length).toBeLessThanOrEqual(stranded ? 2 : 1)
+        }
+      )
+    )
+  })
+
+  it("treats either as a wildcard", () => {
+    const member = (id: number, meetingFormat: MeetingFormat): Participant => ({
+      id: UserId(id),
+      firstName: `User ${id}`,
+      meetingFormat
+    })
+    const result = pairParticipants([member(1, "online"), member(2, "offline"), member(3, "any")], {}, RngSeed(1))
+    expect(result.pairs).toHaveLength(1)
+    expect(result.pairs[0]?.members.map((member) => member.id)).toContain(UserId(3))
+  })
+})
+
+describe("maxWeightMatching", () => {
+  it("returns a symmetric matching that uses only given edges", () => {
+    const edgeArb = fc.tuple(fc.nat({ max: 7 }), fc.nat({ max: 7 }), fc.integer({ min: 1, max: 20 }))
+      .filter(([i, j]) => i !== j)
+    fc.assert(
+      fc.property(fc.array(edgeArb, { maxLength: 20 }), fc.boolean(), (edges, maxCardinality) => {
+        const mate = maxWeightMatching(8, edges, maxCardinality)
+        expect(isSymmetric(mate)).toBe(true)
+        expect(mate.every((partner, vertex) => partner === -1 || hasEdge(edges, vertex, partner))).toBe(true)
+      })
+    )
+  })
+})
@@ -2,11 +2,13 @@ import { describe, expect, it } from "@effect/vitest"
 import { Match } from "effect"
 import fc from "fast-check"
 
-import { PairKey, RngSeed } from "../../src/core/brand.js"
-import type { Pairing, Participant } from "../../src/core/domain.js"
+import { LocalDateString, PairKey, RngSeed } from "../../src/core/brand.js"
+import type { PairHistory, Pairing, Participant } from "../../src/core/domain.js"
 import { pairParticipants, updateHistory } from "../../src/core/pairing.js"
 import { participantArb } from "./property-helpers.js"
 
+const metOn = LocalDateString("2026-01-05")
+
 const uniqueParticipants = fc.uniqueArray(participantArb, {
   selector: (participant) => participant.id,
   minLength: 0,
@@ -28,6 +30,26 @@ const pairKey = (a: Participant, b: Participant): PairKey => {
   return PairKey(`${first}-${second}`)
 }
 
+const groupScore = (history: PairHistory, members: ReadonlyArray<Participant>): number => {
+  let total = 0
+  for (const [i, a] of members.entries()) {
+    for (const b of members.slice(i + 1)) {
+      total += history[pairKey(a, b)]?.length ?? 0
+    }
+  }
+  return total
+}
+
+const isCheapestFold = (
+  history: PairHistory,
+  triple: ReadonlyArray<Participant>,
+  others: ReadonlyArray<Pairing>,
+  extra: Participant
+): boolean => {
+  const tripleScore = groupScore(history, triple)
+  return others.every((pair) => tripleScore <= groupScore(history, [...pair.members, extra]))
+}
+
 describe("pairParticipants", () => {
   it("keeps each participant at most once across pairs and leftovers", () => {
     fc.assert(
@@ -64,7 +86,55 @@ describe("pairParticipants", () => {
     )
   })
 
-  it("increments history counts for pairs", () => {
+  it("folds the odd participant into a triple when triples are allowed", () => {
+    fc.assert(
+      fc.property(uniqueParticipants, fc.integer(), (participants, seed) => {
+        const result = pairParticipants(participants, {}, RngSeed(seed), {
+          allowTriples: true,
+          decay: null,
+          excluded: new Set()
+        })
+        const triples = result.pairs.filter((pair) => pair.kind === "triple")
+        const expectedTriples = participants.length >= 3 && participants.length % 2 === 1 ? 1 : 0
+        expect(triples.length).toBe(expectedTriples)
+        expect(result.leftovers.length).toBe(participants.length < 2 ? participants.length : 0)
+        expect(flattenMembers(result.pairs).length + result.leftovers.length).toBe(participants.length)
+      })
+    )
+  })
+
+  it("folds the odd participant into the pair with the lowest combined history", () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(participantArb, { selector: (p) => p.id, minLength: 3, maxLength: 9 }),
+        fc.array(fc.nat({ max: 3 }), { minLength: 36, maxLength: 36 }),
+        fc.integer(),
+        (participants, counts, seed) => {
+          const history: Record<PairKey, ReadonlyArray<LocalDateString>> = {}
+          for (const [i, a] of participants.entries()) {
+            for (const [j, b] of participants.slice(i + 1).entries()) {
+              history[pairKey(a, b)] = Array.from({ length: counts[i * 9 + j] ?? 0 }, () => metOn)
+            }
+          }
+          const result = pairParticipants(participants, history, RngSeed(seed), {
+            allowTriples: true,
+            decay: null,
+            excluded: new Set()
+          })
+          const triple = result.pairs.find((pair) => pair.kind === "triple")
+          if (!triple) {
+            expect(participants.length % 2).toBe(0)
+            return
+          }
+          const others = result.pairs.filter((pair) => pair !== triple)
+          const foldable = triple.members.some((extra) => isCheapestFold(history, triple.members, others, extra))
+          expect(foldable).toBe(true)
+        }
+      )
+    )
+  })
+
+  it("records the meeting date for pairs", () => {
     fc.assert(
       fc.property(
         fc.uniqueArray(participantArb, { selector: (p) => p.id, minLength: 2, maxLength: 2 }),
@@ -75,14 +145,14 @@ describe("pairParticipants", () => {
           }
           const history = updateHistory({}, [
             { kind: "pair", members: [a, b] }
-          ])
-          expect(history[pairKey(a, b)]).toBe(1)
+          ], metOn)
+          expect(history[pairKey(a, b)]).toEqual([metOn])
         }
       )
     )
   })
 
-  it("increments history counts for triples", () => {
+  it("records the meeting date for triples", () => {
     fc.assert(
       fc.property(
         fc.uniqueArray(participantArb, { selector: (p) => p.id, minLength: 3, maxLength: 3 }),
@@ -93,10 +163,41 @@ describe("pairParticipants", () => {
           }
           const history = updateHistory({}, [
             { kind: "triple", members: [a, b, c] }
-          ])
-          expect(history[pairKey(a, b)]).toBe(1)
-          expect(history[pairKey(a, c)]).toBe(1)
-          expect(history[pairKey(b, c)]).toBe(1)
+          ], metOn)
+          expect(history[pairKey(a, b)]).toEqual([metOn])
+          expect(history[pairKey(a, c)]).toEqual([metOn])
+          expect(history[pairKey(b, c)]).toEqual([metOn])
+        }
+      )
+    )
+  })
+
+  it("prefers repeating an old meeting over a recent one when decay is enabled", () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(participantArb, { selector: (p) => p.id, minLength: 4, maxLength: 4 }),
+        fc.integer(),
+        (participants, seed) => {
+          const [a, b, c, d] = participants
+          if (!a || !b || !c || !d) {
+            return
+          }
+          const history: PairHistory = {
+            [pairKey(a, b)]: [LocalDateString("2025-01-06")],
+            [pairKey(c, d)]: [LocalDateString("2025-01-06")],
+            [pairKey(a, c)]: [LocalDateString("2026-01-05")],
+            [pairKey(b, d)]: [LocalDateString("2026-01-05")],
+            [pairKey(a, d)]: [LocalDateString("2026-01-05")],
+            [pairKey(b, c)]: [LocalDateString("2026-01-05")]
+          }
+          const decay = { today: LocalDateString("2026-01-12"), halfLifeWeeks: 4 }
+          const result = pairParticipants(participants, history, RngSeed(seed), {
+            allowTriples: false,
+            decay,
+            excluded: new Set()
+          })
+          const keys = result.pairs.map((pair) => pairKey(pair.members[0], pair.members[1]))
+          expect(new Set(keys)).toEqual(new Set([pairKey(a, b), pairKey(c, d)]))
         }
       )
     )
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "@effect/vitest"
+
+import { UserId } from "../../src/core/brand.js"
+import type { ProfileDraft } from "../../src/core/domain.js"
+import {
+  applyProfileAnswer,
+  encodeProfileAnswer,
+  hasStructuredProfile,
+  parseProfileCallback,
+  type ProfileAnswer,
+  profileSteps,
+  startProfileDraft,
+  toUserProfile
+} from "../../src/core/profile-wizard.js"
+
+const answerAll = (answers: ReadonlyArray<ProfileAnswer>) => {
+  let draft: ProfileDraft = startProfileDraft()
+  for (const answer of answers) {
+    const step = applyProfileAnswer(draft, answer)
+    if (step.kind !== "next") {
+      return step
+    }
+    draft = step.draft
+  }
+  return { kind: "next" as const, draft }
+}
+
+describe("profile wizard", () => {
+  it("walks through every step before finishing", () => {
+    const texts: ReadonlyArray<ProfileAnswer> = ["Dev", "Chess", "Travel", "Berlin", "EN"].map((text) => ({
+      kind: "text",
+      text
+    }))
+    const done = answerAll([...texts, { kind: "format", format: "offline" }])
+    expect(profileSteps.length).toBe(6)
+    expect(done).toEqual({
+      kind: "done",
+      fields: {
+        occupation: "Dev",
+        interests: "Chess",
+        hooks: "Travel",
+        city: "Berlin",
+        languages: "EN",
+        meetingFormat: "offline"
+      }
+    })
+  })
+
+  it("skipped answers stay empty", () => {
+    const skips: ReadonlyArray<ProfileAnswer> = profileSteps.map(() => ({ kind: "skip" }))
+    const done = answerAll(skips)
+    expect(done.kind).toBe("done")
+    if (done.kind === "done") {
+      expect(hasStructuredProfile(toUserProfile(UserId(1), done.fields))).toBe(false)
+    }
+  })
+
+  it("rejects answers that do not fit the current step", () => {
+    const draft = startProfileDraft()
+    expect(applyProfileAnswer(draft, { kind: "text", text: "   " })).toEqual({ kind: "invalid", draft })
+    expect(applyProfileAnswer(draft, { kind: "format", format: "online" })).toEqual({ kind: "invalid", draft })
+    const formatStep: ProfileDraft = { ...draft, step: "meetingFormat" }
+    expect(applyProfileAnswer(formatStep, { kind: "text", text: "Онлайн" }).kind).toBe("invalid")
+  })
+
+  it("callback data round-trips and ignores unknown values", () => {
+    expect(parseProfileCallback(encodeProfileAnswer({ kind: "skip" }))).toEqual({ kind: "skip" })
+    expect(parseProfileCallback(encodeProfileAnswer({ kind: "format", format: "any" }))).toEqual({
+      kind: "format",
+      format: "any"
+    })
+    expect(parseProfileCallback("profile:format:mars")).toBeNull()
+    expect(parseProfileCallback("Заполнить профиль")).toBeNull()
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "@effect/vitest"
+import fc from "fast-check"
+
+import { ChatId, LocalDateString, RngSeed, UserId } from "../../src/core/brand.js"
+import { type BotState, emptyState, type Pairing, type Participant, type RoundRecord } from "../../src/core/domain.js"
+import { pairingKeys, recordMeetings } from "../../src/core/pairing.js"
+import { applyRematchAction, encodeRematchAction, parseRematchAction } from "../../src/core/rematch.js"
+import { buildRoundRecord } from "../../src/core/rounds.js"
+import { emptyChatState } from "../../src/core/state.js"
+
+const chatId = ChatId("-1")
+
+const participantArb: fc.Arbitrary<Participant> = fc.record({
+  id: fc.integer({ min: 1, max: 12 }).map((id) => UserId(id)),
+  firstName: fc.constant("Member")
+})
+
+// Pairs up distinct participants in order; the rest become leftovers.
+const roundArb: fc.Arbitrary<RoundRecord> = fc
+  .record({
+    participants: fc.uniqueArray(participantArb, { selector: (participant) => participant.id, maxLength: 9 }),
+    pairCount: fc.nat(4),
+    day: fc.integer({ min: 10, max: 28 })
+  })
+  .map(({ day, pairCount, participants }) => {
+    const pairs: Array<Pairing> = []
+    for (let index = 0; index + 1 < participants.length && pairs.length < pairCount; index += 2) {
+      const [first, second] = participants.slice(index, index + 2)
+      if (first && second) {
+        pairs.push({ kind: "pair", members: [first, second] })
+      }
+    }
+    return buildRoundRecord(LocalDateString(`2026-03-${day}`), pairs, [], participants.slice(pairs.length * 2))
+  })
+
+// Builds a chat whose pair history matches its round archive, like summaries do.
+const stateWithRounds = (rounds: ReadonlyArray<RoundRecord>): BotState => {
+  const chat = emptyChatState(RngSeed(3))
+  let history = chat.history
+  for (const round of rounds) {
+    history = recordMeetings(history, round.groups.flatMap((group) => pairingKeys(group)), round.summaryDate)
+  }
+  return { ...emptyState(RngSeed(1)), chats: { [chatId]: { ...chat, rounds, history } } }
+}
+
+const memberIds = (round: RoundRecord | undefined): ReadonlyArray<UserId> => {
+  const ids = [
+    ...(round?.groups ?? []).flatMap((group) => group.members.map((member) => member.id)),
+    ...(round?.leftovers ?? []).map((member) => member.id)
+  ]
+  ids.sort((left, right) => left - right)
+  return ids
+}
+
+const partnerIds = (round: RoundRecord | undefined, userId: UserId): ReadonlySet<UserId> => {
+  const group = round?.groups.find((entry) => entry.members.some((member) => member.id === userId))
+  return new Set((group?.members ?? []).filter((member) => member.id !== userId).map((member) => member.id))
+}
+
+const userArb = fc.integer({ min: 1, max: 12 }).map((id) => UserId(id))
+
+describe("rematch", () => {
+  it("history keeps matching the round archive after a re-match", () => {
+    fc.assert(
+      fc.property(fc.array(roundArb, { minLength: 1, maxLength: 4 }), userArb, (rounds, userId) => {
+        const target = { chatId, roundIndex: rounds.length - 1 }
+        const outcome = applyRematchAction(stateWithRounds(rounds), target, userId)
+        const chat = outcome.state.chats[chatId]
+        expect(chat?.history).toEqual(stateWithRounds(chat?.rounds ?? []).chats[chatId]?.history)
+      })
+    )
+  })
+
+  it("only the partner who cancelled leaves the round", () => {
+    fc.assert(
+      fc.property(roundArb, userArb, (round, userId) => {
+        const partners = partnerIds(round, userId)
+        fc.pre(partners.size > 0)
+        const outcome = applyRematchAction(stateWithRounds([round]), { chatId, roundIndex: 0 }, userId)
+        const next = outcome.state.chats[chatId]?.rounds[0]
+        expect(memberIds(next)).toEqual(memberIds(round).filter((id) => !partners.has(id)))
+        expect(outcome.reply).toBe(partnerIds(next, userId).size > 0 ? "rematched" : "waiting")
+        expect(round.leftovers.length > 0 || outcome.reply === "waiting").toBe(true)
+      })
+    )
+  })
+
+  it("buttons of older rounds and people outside a pair are outdated", () => {
+    const alice = { id: UserId(1), firstName: "Alice" }
+    const bob = { id: UserId(2), firstName: "Bob" }
+    const carol = { id: UserId(3), firstName: "Carol" }
+    const round = buildRoundRecord(LocalDateString("2026-03-16"), [{ kind: "pair", members: [alice, bob] }], [], [
+      carol
+    ])
+    const state = stateWithRounds([round, round])
+    const outdated = { state, reply: "outdated", assignments: [], dropped: null }
+    expect(applyRematchAction(state, { chatId, roundIndex: 0 }, alice.id)).toEqual(outdated)
+    expect(applyRematchAction(state, { chatId, roundIndex: 1 }, carol.id)).toEqual(outdated)
+    const triple = buildRoundRecord(
+      LocalDateString("2026-03-23"),
+      [{ kind: "triple", members: [alice, bob, carol] }],
+      [],
+      []
+    )
+    const withTriple = stateWithRounds([triple])
+    expect(applyRematchAction(withTriple, { chatId, roundIndex: 0 }, alice.id).reply).toBe("outdated")
+  })
+
+  it("re-match callbacks round-trip and foreign data is rejected", () => {
+    fc.assert(
+      fc.property(fc.integer({ min: -1_000_000, max: 1_000_000 }), fc.nat(500), (chat, roundIndex) => {
+        const action = { chatId: ChatId(`${chat}`), roundIndex }
+        expect(parseRematchAction(encodeRematchAction(action))).toEqual(action)
+      })
+    )
+    expect(parseRematchAction("rm:-1:01")).toBeNull()
+    expect(parseRematchAction("rem:-1:0")).toBeNull()
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "@effect/vitest"
+import fc from "fast-check"
+
+import { ChatId, LocalDateString, RngSeed, UserId } from "../../src/core/brand.js"
+import { type BotState, emptyState, type Weekday } from "../../src/core/domain.js"
+import {
+  applyArrangedAction,
+  dueReminderRound,
+  encodeArrangedAction,
+  markReminderSent,
+  organizerReminders,
+  parseArrangedAction
+} from "../../src/core/reminders.js"
+import { buildRoundRecord } from "../../src/core/rounds.js"
+import { emptyChatState } from "../../src/core/state.js"
+
+const chatId = ChatId("-1")
+const alice = { id: UserId(1), firstName: "Alice" }
+const bob = { id: UserId(2), firstName: "Bob" }
+const carol = { id: UserId(3), firstName: "Carol" }
+const dave = { id: UserId(4), firstName: "Dave" }
+const target = { chatId, roundIndex: 0 }
+
+// Monday summary with Bob and Carol as organizers.
+const makeState = (reminderDay: Weekday | null): BotState => {
+  const round = buildRoundRecord(
+    LocalDateString("2026-03-16"),
+    [{ kind: "pair", members: [alice, bob] }, { kind: "pair", members: [carol, dave] }],
+    [
+      { participant: bob, counterparts: [alice], isOrganizer: true },
+      { participant: carol, counterparts: [dave], isOrganizer: true }
+    ],
+    []
+  )
+  const chat = { ...emptyChatState(RngSeed(2)), reminderDay, rounds: [round] }
+  return { ...emptyState(RngSeed(1)), chats: { [chatId]: chat } }
+}
+
+describe("reminders", () => {
+  it("the latest round is due on the reminder day of its week only", () => {
+    const chat = makeState("Wed").chats[chatId]
+    expect(chat && dueReminderRound(chat, LocalDateString("2026-03-18"), "Wed")).toBe(0)
+    expect(chat && dueReminderRound(chat, LocalDateString("2026-03-17"), "Tue")).toBeNull()
+    expect(chat && dueReminderRound(chat, LocalDateString("2026-03-25"), "Wed")).toBeNull()
+    const off = makeState(null).chats[chatId]
+    expect(off && dueReminderRound(off, LocalDateString("2026-03-18"), "Wed")).toBeNull()
+    const sent = markReminderSent(makeState("Wed"), target).chats[chatId]
+    expect(sent && dueReminderRound(sent, LocalDateString("2026-03-18"), "Wed")).toBeNull()
+  })
+
+  it("a summary on the reminder day waits for the next week", () => {
+    const chat = makeState("Mon").chats[chatId]
+    expect(chat && dueReminderRound(chat, LocalDateString("2026-03-16"), "Mon")).toBeNull()
+    expect(chat && dueReminderRound(chat, LocalDateString("2026-03-23"), "Mon")).toBeNull()
+  })
+
+  it("only organizers of unarranged meetings are reminded", () => {
+    const state = makeState("Wed")
+    const round = state.chats[chatId]?.rounds[0]
+    expect(round && organizerReminders(round)).toEqual([
+      { organizer: bob, partners: [alice] },
+      { organizer: carol, partners: [dave] }
+    ])
+    const arranged = applyArrangedAction(state, target, alice.id)
+    expect(arranged.reply).toBe("arranged")
+    const updated = arranged.state.chats[chatId]?.rounds[0]
+    expect(updated && organizerReminders(updated)).toEqual([{ organizer: carol, partners: [dave] }])
+  })
+
+  it("buttons from people outside the round are outdated", () => {
+    const state = makeState("Wed")
+    expect(applyArrangedAction(state, target, UserId(9))).toEqual({ state, reply: "outdated" })
+    expect(applyArrangedAction(state, { chatId, roundIndex: 3 }, alice.id)).toEqual({ state, reply: "outdated" })
+  })
+
+  it("reminder callbacks round-trip and foreign data is rejected", () => {
+    fc.assert(
+      fc.property(fc.integer({ min: -1_000_000, max: 1_000_000 }), fc.nat(500), (chat, roundIndex) => {
+        const action = { chatId: ChatId(`${chat}`), roundIndex }
+        expect(parseArrangedAction(encodeArrangedAction(action))).toEqual(action)
+      })
+    )
+    expect(parseArrangedAction("rem:-1:01")).toBeNull()
+    expect(parseArrangedAction("fb:-1:0:met")).toBeNull()
+  })
+})
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "@effect/vitest"
+
+import { LocalDateString, RngSeed, UserId } from "../../src/core/brand.js"
+import type { Pairing } from "../../src/core/domain.js"
+import { assignOrganizers } from "../../src/core/pairing.js"
+import { buildRoundRecord } from "../../src/core/rounds.js"
+
+const alice = { id: UserId(1), firstName: "Alice" }
+const bob = { id: UserId(2), firstName: "Bob" }
+const carol = { id: UserId(3), firstName: "Carol" }
+const dave = { id: UserId(4), firstName: "Dave" }
+
+describe("rounds", () => {
+  it("records the organizer chosen for each pairing and the leftovers", () => {
+    const pairs: ReadonlyArray<Pairing> = [
+      { kind: "pair", members: [alice, bob] },
+      { kind: "triple", members: [carol, dave, { id: UserId(5), firstName: "Eve" }] }
+    ]
+    const { assignments } = assignOrganizers(pairs, RngSeed(7))
+    const organizers = assignments.filter((assignment) => assignment.isOrganizer).map((entry) => entry.participant.id)
+    const round = buildRoundRecord(LocalDateString("2026-03-16"), pairs, assignments, [{
+      id: UserId(6),
+      firstName: "F"
+    }])
+    expect(round.summaryDate).toBe("2026-03-16")
+    expect(round.groups.map((group) => group.organizerId)).toEqual(organizers)
+    expect(round.groups.map((group) => group.members)).toEqual(pairs.map((pair) => pair.members))
+    expect(round.leftovers).toEqual([{ id: UserId(6), firstName: "F" }])
+  })
+
+  it("falls back to the first member when a pairing has no organizer assignment", () => {
+    const round = buildRoundRecord(LocalDateString("2026-03-16"), [{ kind: "pair", members: [bob, alice] }], [], [])
+    expect(round.groups[0]?.organizerId).toBe(bob.id)
+  })
+})
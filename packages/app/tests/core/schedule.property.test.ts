@@ -2,8 +2,24 @@ import { describe, expect, it } from "@effect/vitest"
 import fc from "fast-check"
 
 import { ChatId, LocalDateString, MessageId, PollId, RngSeed } from "../../src/core/brand.js"
-import type { ChatState } from "../../src/core/domain.js"
-import { decideSchedule, formatLocalDate, nextPollWindow, summaryDateForPoll } from "../../src/core/schedule.js"
+import type { ChatState, RoundFrequency, Weekday, WeeklySchedule } from "../../src/core/domain.js"
+import { yesNoMeetingFormats } from "../../src/core/meeting-format.js"
+import {
+  daysBetween,
+  decideSchedule,
+  defaultScheduleTimes,
+  defaultWeeklySchedule,
+  formatLocalDate,
+  formatTimeOfDay,
+  type LocalDateParts,
+  minutesPerDay,
+  nextPollWindow,
+  roundFrequencies,
+  summaryDateForPoll,
+  weekdays,
+  type ZonedTime
+} from "../../src/core/schedule.js"
+import { parseScheduleTimesArgument } from "../../src/core/telegram-commands.js"
 
 const datePartsArb = fc.record({
   year: fc.integer({ min: 2000, max: 2100 }),
@@ -11,15 +27,39 @@ const datePartsArb = fc.record({
   day: fc.integer({ min: 1, max: 28 })
 })
 
+const weekdayArb = fc.constantFrom(...weekdays)
+
+const scheduleArb: fc.Arbitrary<WeeklySchedule> = fc
+  .tuple(weekdayArb, weekdayArb)
+  .filter(([pollDay, summaryDay]) => pollDay !== summaryDay)
+  .map(([pollDay, summaryDay]) => ({ pollDay, summaryDay }))
+
+const at = (parts: LocalDateParts, weekday: Weekday): ZonedTime => ({ parts, weekday, minuteOfDay: 0 })
+
+const frequencyWeeks: Readonly<Record<RoundFrequency, number>> = { weekly: 1, biweekly: 2, monthly: 4 }
+
 const baseChatState = (): ChatState => ({
   poll: null,
   participants: {},
   history: {},
   seed: RngSeed(1),
   threadId: null,
+  language: null,
   title: null,
   inviteLink: null,
-  lastSummaryAt: null
+  lastSummaryAt: null,
+  allowTriples: false,
+  historyHalfLifeWeeks: null,
+  exclusions: {},
+  schedule: defaultWeeklySchedule,
+  scheduleTimes: defaultScheduleTimes,
+  roundFrequency: "weekly",
+  timeZone: null,
+  reminderDay: null,
+  pollWording: null,
+  mode: "poll",
+  subscriptions: {},
+  rounds: []
 })
 
 const buildChatWithPoll = (summaryDate: LocalDateString, suffix: string): ChatState => ({
@@ -29,7 +69,10 @@ const buildChatWithPoll = (summaryDate: LocalDateString, suffix: string): ChatSt
     messageId: MessageId(1),
     chatId: ChatId(`chat-${suffix}`),
     summaryDate,
-    threadId: null
+    threadId: null,
+    joinOption: 0,
+    formats: yesNoMeetingFormats,
+    standbyOption: null
   }
 })
 
@@ -57,7 +100,7 @@ describe("schedule", () => {
   it("nextPollWindow opens on Fri/Sat/Sun", () => {
     fc.assert(
       fc.property(datePartsArb, fc.constantFrom("Fri", "Sat", "Sun"), (parts, weekday) => {
-        const window = nextPollWindow(parts, weekday)
+        const window = nextPollWindow(baseChatState(), at(parts, weekday))
         expect(window.isOpen).toBe(true)
         expect(window.daysUntilStart).toBe(0)
         expect(window.startDate).toBe(formatLocalDate(parts))
@@ -68,7 +111,7 @@ describe("schedule", () => {
   it("nextPollWindow is closed on Mon-Thu", () => {
     fc.assert(
       fc.property(datePartsArb, fc.constantFrom("Mon", "Tue", "Wed", "Thu"), (parts, weekday) => {
-        const window = nextPollWindow(parts, weekday)
+        const window = nextPollWindow(baseChatState(), at(parts, weekday))
         expect(window.isOpen).toBe(false)
         expect(window.daysUntilStart).toBeGreaterThan(0)
       })
@@ -78,7 +121,7 @@ describe("schedule", () => {
   it("summaryDateForPoll advances to next Monday", () => {
     fc.assert(
       fc.property(datePartsArb, fc.constantFrom("Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"), (parts, weekday) => {
-        const summaryDate = summaryDateForPoll(parts, weekday)
+        const summaryDate = summaryDateForPoll(parts, weekday, defaultWeeklySchedule)
         if (weekday === "Mon") {
           const expected = addDays(parts.year, parts.month, parts.day, 7)
           expect(summaryDate).toBe(expected)
@@ -94,7 +137,7 @@ describe("schedule", () => {
       fc.property(datePartsArb, fc.constantFrom("Mon", "Fri"), (parts, weekday) => {
         const today = formatLocalDate(parts)
         const chat: ChatState = { ...baseChatState(), lastSummaryAt: today }
-        expect(decideSchedule(chat, parts, weekday)).toEqual({ kind: "noop" })
+        expect(decideSchedule(chat, at(parts, weekday))).toEqual({ kind: "noop" })
       })
     )
   })
@@ -104,17 +147,16 @@ describe("schedule", () => {
       fc.property(datePartsArb, (parts) => {
         const today = formatLocalDate(parts)
         const chat = buildChatWithPoll(today, "due")
-        expect(decideSchedule(chat, parts, "Mon")).toEqual({ kind: "summarize", summaryDate: today })
+        expect(decideSchedule(chat, at(parts, "Mon"))).toEqual({ kind: "summarize", summaryDate: today })
       })
     )
   })
 
-  it("decideSchedule skips when poll exists on a non-summary day", () => {
+  it("decideSchedule skips while the open poll's summary date is ahead", () => {
     fc.assert(
       fc.property(datePartsArb, (parts) => {
-        const today = formatLocalDate(parts)
-        const chat = buildChatWithPoll(today, "skip")
-        const decision = decideSchedule(chat, parts, "Tue")
+        const chat = buildChatWithPoll(addDays(parts.year, parts.month, parts.day, 1), "skip")
+        const decision = decideSchedule(chat, at(parts, "Tue"))
         expect(decision).toEqual({ kind: "noop" })
       })
     )
@@ -124,7 +166,7 @@ describe("schedule", () => {
     fc.assert(
       fc.property(datePartsArb, (parts) => {
         const chat = baseChatState()
-        const decision = decideSchedule(chat, parts, "Fri")
+        const decision = decideSchedule(chat, at(parts, "Fri"))
         expect(decision.kind).toBe("createPoll")
       })
     )
@@ -141,12 +183,65 @@ describe("schedule", () => {
             messageId: MessageId(2),
             chatId: ChatId("chat-2"),
             summaryDate,
-            threadId: null
+            threadId: null,
+            joinOption: 0,
+            formats: yesNoMeetingFormats,
+            standbyOption: null
           }
         }
-        const decision = decideSchedule(chat, parts, "Fri")
+        const decision = decideSchedule(chat, at(parts, "Fri"))
         expect(decision.kind).toBe("noop")
       })
     )
   })
+
+  it("summaryDateForPoll lands on the next summary day of any schedule", () => {
+    fc.assert(
+      fc.property(datePartsArb, weekdayArb, scheduleArb, (parts, weekday, schedule) => {
+        const days = daysBetween(formatLocalDate(parts), summaryDateForPoll(parts, weekday, schedule))
+        const offset = (weekdays.indexOf(schedule.summaryDay) - weekdays.indexOf(weekday) + 7) % 7
+        expect(days).toBe(offset === 0 ? 7 : offset)
+      })
+    )
+  })
+
+  it("nextPollWindow opens on the poll day and closes on the summary day", () => {
+    fc.assert(
+      fc.property(datePartsArb, scheduleArb, (parts, schedule) => {
+        const chat: ChatState = { ...baseChatState(), schedule }
+        expect(nextPollWindow(chat, at(parts, schedule.pollDay)).isOpen).toBe(true)
+        const closed = nextPollWindow(chat, at(parts, schedule.summaryDay))
+        expect(closed.isOpen).toBe(false)
+        expect(daysBetween(formatLocalDate(parts), closed.startDate)).toBe(closed.daysUntilStart)
+        expect(decideSchedule(chat, at(parts, schedule.summaryDay)).kind).not.toBe("createPoll")
+      })
+    )
+  })
+
+  it("nextPollWindow waits for the chat frequency after a summary", () => {
+    fc.assert(
+      fc.property(
+        datePartsArb,
+        fc.constantFrom(...roundFrequencies),
+        (parts, roundFrequency) => {
+          const chat: ChatState = { ...baseChatState(), roundFrequency, lastSummaryAt: formatLocalDate(parts) }
+          const window = nextPollWindow(chat, at(parts, "Mon"))
+          expect(window.daysUntilStart + 3).toBe(frequencyWeeks[roundFrequency] * 7)
+        }
+      )
+    )
+  })
+
+  it("formatted times parse back to the same schedule times", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: minutesPerDay - 1 }),
+        fc.integer({ min: 0, max: minutesPerDay - 1 }),
+        (pollTime, summaryTime) => {
+          const argument = `${formatTimeOfDay(pollTime)} ${formatTimeOfDay(summaryTime)}`
+          expect(parseScheduleTimesArgument(argument)).toEqual({ pollTime, summaryTime })
+        }
+      )
+    )
+  })
 })
@@ -1,13 +1,17 @@
 import { describe, expect, it } from "@effect/vitest"
 
-import { ChatId, LocalDateString, MessageId, PollId, RngSeed } from "../../src/core/brand.js"
-import { decideSchedule, type LocalDateParts } from "../../src/core/schedule.js"
+import { ChatId, LocalDateString, MessageId, PollId, RngSeed, UserId } from "../../src/core/brand.js"
+import type { Weekday } from "../../src/core/domain.js"
+import { yesNoMeetingFormats } from "../../src/core/meeting-format.js"
+import { decideSchedule, type LocalDateParts, nextPollWindow, type ZonedTime } from "../../src/core/schedule.js"
 import { emptyChatState } from "../../src/core/state.js"
 
 const friday: LocalDateParts = { year: 2026, month: 1, day: 9 }
 const monday: LocalDateParts = { year: 2026, month: 1, day: 12 }
 const sunday: LocalDateParts = { year: 2026, month: 1, day: 11 }
 
+const at = (parts: LocalDateParts, weekday: Weekday, minuteOfDay = 0): ZonedTime => ({ parts, weekday, minuteOfDay })
+
 describe("decideSchedule", () => {
   const pollCases: ReadonlyArray<
     { readonly label: string; readonly parts: LocalDateParts; readonly weekday: "Fri" | "Sun" }
@@ -19,7 +23,7 @@ describe("decideSchedule", () => {
   for (const { label, parts, weekday } of pollCases) {
     it(`creates poll on ${label} with next Monday summary`, () => {
       const chat = emptyChatState(RngSeed(1))
-      const decision = decideSchedule(chat, parts, weekday)
+      const decision = decideSchedule(chat, at(parts, weekday))
       expect(decision.kind).toBe("createPoll")
       if (decision.kind === "createPoll") {
         expect(decision.summaryDate).toBe(LocalDateString("2026-01-12"))
@@ -35,10 +39,13 @@ describe("decideSchedule", () => {
         messageId: MessageId(1),
         chatId: ChatId("-100"),
         summaryDate: LocalDateString("2026-01-12"),
-        threadId: null
+        threadId: null,
+        joinOption: 0,
+        formats: yesNoMeetingFormats,
+        standbyOption: null
       }
     }
-    const decision = decideSchedule(chat, monday, "Mon")
+    const decision = decideSchedule(chat, at(monday, "Mon"))
     expect(decision.kind).toBe("summarize")
   })
 
@@ -47,7 +54,7 @@ describe("decideSchedule", () => {
       ...emptyChatState(RngSeed(1)),
       lastSummaryAt: LocalDateString("2026-01-09")
     }
-    const decision = decideSchedule(chat, friday, "Fri")
+    const decision = decideSchedule(chat, at(friday, "Fri"))
     expect(decision.kind).toBe("noop")
   })
 
@@ -59,10 +66,154 @@ describe("decideSchedule", () => {
         messageId: MessageId(2),
         chatId: ChatId("-200"),
         summaryDate: LocalDateString("2026-01-12"),
-        threadId: null
+        threadId: null,
+        joinOption: 0,
+        formats: yesNoMeetingFormats,
+        standbyOption: null
       }
     }
-    const decision = decideSchedule(chat, friday, "Fri")
+    const decision = decideSchedule(chat, at(friday, "Fri"))
     expect(decision.kind).toBe("noop")
   })
+
+  it("follows a custom Wednesday poll and Thursday summary schedule", () => {
+    const chat = { ...emptyChatState(RngSeed(3)), schedule: { pollDay: "Wed", summaryDay: "Thu" } } as const
+    const wednesday: LocalDateParts = { year: 2026, month: 1, day: 7 }
+    expect(decideSchedule(chat, at(wednesday, "Wed"))).toEqual({
+      kind: "createPoll",
+      summaryDate: LocalDateString("2026-01-08")
+    })
+    expect(decideSchedule(chat, at(friday, "Fri")).kind).toBe("noop")
+  })
+
+  it("waits for the configured poll time on the poll day", () => {
+    const chat = { ...emptyChatState(RngSeed(6)), scheduleTimes: { pollTime: 600, summaryTime: 1080 } }
+    expect(decideSchedule(chat, at(friday, "Fri", 599)).kind).toBe("noop")
+    expect(decideSchedule(chat, at(friday, "Fri", 600))).toEqual({
+      kind: "createPoll",
+      summaryDate: LocalDateString("2026-01-12")
+    })
+    expect(decideSchedule(chat, at(sunday, "Sun", 0)).kind).toBe("createPoll")
+  })
+
+  it("waits for the configured summary time on the summary day", () => {
+    const chat = {
+      ...emptyChatState(RngSeed(7)),
+      scheduleTimes: { pollTime: 600, summaryTime: 1080 },
+      poll: {
+        pollId: PollId("poll-time"),
+        messageId: MessageId(7),
+        chatId: ChatId("-300"),
+        summaryDate: LocalDateString("2026-01-12"),
+        threadId: null,
+        joinOption: 0,
+        formats: yesNoMeetingFormats,
+        standbyOption: null
+      }
+    }
+    expect(decideSchedule(chat, at(monday, "Mon", 1079)).kind).toBe("noop")
+    expect(decideSchedule(chat, at(monday, "Mon", 1080))).toEqual({
+      kind: "summarize",
+      summaryDate: LocalDateString("2026-01-12")
+    })
+  })
+
+  it("summarizes an open poll on its date after /schedule moved the summary day", () => {
+    const chat = {
+      ...emptyChatState(RngSeed(8)),
+      schedule: { pollDay: "Tue", summaryDay: "Thu" },
+      scheduleTimes: { pollTime: 600, summaryTime: 1080 },
+      poll: {
+        pollId: PollId("poll-moved"),
+        messageId: MessageId(8),
+        chatId: ChatId("-400"),
+        summaryDate: LocalDateString("2026-01-12"),
+        threadId: null,
+        joinOption: 0,
+        formats: yesNoMeetingFormats,
+        standbyOption: null
+      }
+    } as const
+    expect(decideSchedule(chat, at(monday, "Mon", 1079)).kind).toBe("noop")
+    expect(decideSchedule(chat, at(monday, "Mon", 1080))).toEqual({
+      kind: "summarize",
+      summaryDate: LocalDateString("2026-01-12")
+    })
+    expect(decideSchedule(chat, at({ year: 2026, month: 1, day: 13 }, "Tue", 0))).toEqual({
+      kind: "summarize",
+      summaryDate: LocalDateString("2026-01-13")
+    })
+  })
+
+  it("biweekly chats skip the poll window right after a summary", () => {
+    const chat = {
+      ...emptyChatState(RngSeed(4)),
+      roundFrequency: "biweekly",
+      lastSummaryAt: LocalDateString("2026-01-12")
+    } as const
+    expect(decideSchedule(chat, at({ year: 2026, month: 1, day: 16 }, "Fri")).kind).toBe("noop")
+    expect(decideSchedule(chat, at({ year: 2026, month: 1, day: 23 }, "Fri"))).toEqual({
+      kind: "createPoll",
+      summaryDate: LocalDateString("2026-01-26")
+    })
+    expect(nextPollWindow(chat, at({ year: 2026, month: 1, day: 13 }, "Tue"))).toEqual({
+      startDate: LocalDateString("2026-01-23"),
+      daysUntilStart: 10,
+      isOpen: false
+    })
+  })
+
+  it("subscription chats never create a poll", () => {
+    const chat = { ...emptyChatState(RngSeed(1)), mode: "subscription" } as const
+    expect(decideSchedule(chat, at(friday, "Fri", 720)).kind).toBe("noop")
+  })
+
+  it("subscription chats summarize on the summary day once the summary time has passed", () => {
+    const chat = {
+      ...emptyChatState(RngSeed(1)),
+      mode: "subscription",
+      subscriptions: { "1": { participant: { id: UserId(1), firstName: "Alice" }, skippedDates: [] } }
+    } as const
+    expect(decideSchedule(chat, at(monday, "Mon", chat.scheduleTimes.summaryTime))).toEqual({
+      kind: "summarize",
+      summaryDate: LocalDateString("2026-01-12")
+    })
+    expect(decideSchedule({ ...chat, lastSummaryAt: LocalDateString("2026-01-12") }, at(monday, "Mon", 1439)).kind)
+      .toBe("noop")
+  })
+
+  it("subscription chats without anyone on the roster are never summarized", () => {
+    const chat = { ...emptyChatState(RngSeed(1)), mode: "subscription" } as const
+    expect(decideSchedule(chat, at(monday, "Mon", 1439)).kind).toBe("noop")
+  })
+
+  it("monthly chats report the window four weeks after the last summary", () => {
+    const chat = {
+      ...emptyChatState(RngSeed(5)),
+      roundFrequency: "monthly",
+      lastSummaryAt: LocalDateString("2026-01-12")
+    } as const
+    expect(nextPollWindow(chat, at({ year: 2026, month: 1, day: 16 }, "Fri"))).toEqual({
+      startDate: LocalDateString("2026-02-06"),
+      daysUntilStart: 21,
+      isOpen: false
+    })
+  })
+
+  it("reports the poll day window as opening at the chat's poll time", () => {
+    const chat = { ...emptyChatState(RngSeed(6)), scheduleTimes: { pollTime: 600, summaryTime: 1080 } }
+    expect(nextPollWindow(chat, at(friday, "Fri", 599))).toEqual({
+      startDate: LocalDateString("2026-01-09"),
+      daysUntilStart: 0,
+      isOpen: false
+    })
+    expect(decideSchedule(chat, at(friday, "Fri", 599)).kind).toBe("noop")
+    expect(nextPollWindow(chat, at(friday, "Fri", 600))).toEqual({
+      startDate: LocalDateString("2026-01-09"),
+      daysUntilStart: 0,
+      isOpen: true
+    })
+    expect(decideSchedule(chat, at(friday, "Fri", 600)).kind).toBe("createPoll")
+    expect(nextPollWindow(chat, at(sunday, "Sun", 0)).isOpen).toBe(true)
+  })
 })
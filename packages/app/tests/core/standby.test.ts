@@ -0,0 +1,100 @@
+import { describe, expect, it } from "@effect/vitest"
+import fc from "fast-check"
+
+import { LocalDateString, RngSeed } from "../../src/core/brand.js"
+import type { PairHistory, Pairing } from "../../src/core/domain.js"
+import { type PairingOptions, updateHistory } from "../../src/core/pairing.js"
+import { chatPollStandbyOption, chatPollWording } from "../../src/core/poll-wording.js"
+import { pairWithStandby, splitStandby } from "../../src/core/standby.js"
+import { emptyChatState } from "../../src/core/state.js"
+import { messages } from "../../src/core/text.js"
+import { participant } from "./property-helpers.js"
+
+const options: PairingOptions = { allowTriples: false, decay: null, excluded: new Set() }
+
+const alice = participant(1, "Alice")
+const bob = participant(2, "Bob")
+const carol = participant(3, "Carol")
+const dave = participant(4, "Dave")
+const stan = { ...participant(10, "Stan"), standby: true }
+const sasha = { ...participant(11, "Sasha"), standby: true }
+
+const memberIds = (pairs: ReadonlyArray<Pairing>): ReadonlyArray<number> =>
+  pairs.flatMap((pair) => pair.members.map((member) => member.id))
+
+const stanMeetings: ReadonlyArray<Pairing> = [
+  { kind: "pair", members: [stan, alice] },
+  { kind: "pair", members: [stan, bob] },
+  { kind: "pair", members: [stan, carol] }
+]
+
+// Stan has already met every confirmed member twice.
+const history: PairHistory = updateHistory(
+  updateHistory({}, stanMeetings, LocalDateString("2026-01-05")),
+  stanMeetings,
+  LocalDateString("2026-01-12")
+)
+
+describe("splitStandby", () => {
+  it("separates standby sign-ups from confirmed members", () => {
+    expect(splitStandby([alice, stan, bob, sasha])).toEqual({ confirmed: [alice, bob], standby: [stan, sasha] })
+  })
+})
+
+describe("pairWithStandby", () => {
+  it("calls in the standby member with the fewest repeats when the confirmed count is odd", () => {
+    fc.assert(
+      fc.property(fc.integer(), (seed) => {
+        const result = pairWithStandby([alice, bob, carol], [stan, sasha], history, RngSeed(seed), options)
+        expect(result.calledIn?.id).toBe(sasha.id)
+        expect(result.calledIn?.standby).toBeUndefined()
+        expect(result.leftovers).toEqual([])
+        expect(new Set(memberIds(result.pairs))).toEqual(new Set([1, 2, 3, 11]))
+      })
+    )
+  })
+
+  it("leaves standby members out when the confirmed count is even", () => {
+    fc.assert(
+      fc.property(fc.integer(), (seed) => {
+        const result = pairWithStandby([alice, bob, carol, dave], [stan, sasha], {}, RngSeed(seed), options)
+        expect(result.calledIn).toBeNull()
+        expect(memberIds(result.pairs)).not.toContain(stan.id)
+        expect(memberIds(result.pairs)).not.toContain(sasha.id)
+      })
+    )
+  })
+
+  it("does not call anyone in when a triple already absorbs the odd member", () => {
+    const result = pairWithStandby([alice, bob, carol], [stan], {}, RngSeed(7), { ...options, allowTriples: true })
+    expect(result.calledIn).toBeNull()
+    expect(result.leftovers).toEqual([])
+  })
+
+  it("leaves the odd member alone when nobody signed up as standby", () => {
+    const result = pairWithStandby([alice, bob, carol], [], {}, RngSeed(7), options)
+    expect(result.calledIn).toBeNull()
+    expect(result.leftovers.length).toBe(1)
+  })
+})
+
+describe("chatPollStandbyOption", () => {
+  it("appends the standby option after the options of a custom wording", () => {
+    const chat = {
+      ...emptyChatState(RngSeed(1)),
+      pollWording: { question: "Coffee?", options: ["Skip", "Count me in"], joinOption: 1 }
+    }
+    expect(chatPollWording(chat).options).toEqual(["Skip", "Count me in", messages("en").pollStandbyOption])
+    expect(chatPollStandbyOption(chat)).toBe(2)
+  })
+
+  it("leaves a ten-option wording saved before the standby slot without standby", () => {
+    const wordingOptions = Array.from({ length: 10 }, (_, index) => `Option ${index + 1}`)
+    const chat = {
+      ...emptyChatState(RngSeed(1)),
+      pollWording: { question: "Coffee?", options: wordingOptions, joinOption: 0 }
+    }
+    expect(chatPollWording(chat).options).toEqual(wordingOptions)
+    expect(chatPollStandbyOption(chat)).toBeNull()
+  })
+})
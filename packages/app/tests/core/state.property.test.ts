@@ -1,16 +1,19 @@
 import { describe, expect, it } from "@effect/vitest"
 import fc from "fast-check"
 
-import { ChatId, MessageId, PairKey, PollId, RngSeed } from "../../src/core/brand.js"
-import type { PairHistory, Pairing } from "../../src/core/domain.js"
+import { ChatId, LocalDateString, MessageId, PairKey, PollId, RngSeed } from "../../src/core/brand.js"
+import type { PairHistory, RoundRecord } from "../../src/core/domain.js"
 import { emptyState } from "../../src/core/domain.js"
+import { yesNoMeetingFormats } from "../../src/core/meeting-format.js"
 import { nextSeed } from "../../src/core/rng.js"
+import { decideSchedule } from "../../src/core/schedule.js"
 import {
   applySummary,
   emptyChatState,
   ensureChat,
   finishPoll,
   setChatTitle,
+  setRoundFrequency,
   setThreadId,
   startPoll
 } from "../../src/core/state.js"
@@ -21,6 +24,9 @@ const buildEmptyState = (seed: number, chatRaw: string) => ({
   state: emptyState(RngSeed(seed))
 })
 
+const januaryFriday = (day: number) =>
+  ({ parts: { year: 2026, month: 1, day }, weekday: "Fri", minuteOfDay: 720 }) as const
+
 describe("state", () => {
   it("handles operations on missing chats", () => {
     fc.assert(
@@ -77,14 +83,20 @@ describe("state", () => {
           messageId: MessageId(1),
           chatId,
           summaryDate: firstDate,
-          threadId: null
+          threadId: null,
+          joinOption: 0,
+          formats: yesNoMeetingFormats,
+          standbyOption: null
         })
         const second = startPoll(first, chatId, {
           pollId: PollId("poll-2"),
           messageId: MessageId(2),
           chatId,
           summaryDate: secondDate,
-          threadId: null
+          threadId: null,
+          joinOption: 0,
+          formats: yesNoMeetingFormats,
+          standbyOption: null
         })
         expect(second.pollIndex[PollId("poll-1")]).toBeUndefined()
         expect(second.pollIndex[PollId("poll-2")]).toBe(chatId)
@@ -92,7 +104,7 @@ describe("state", () => {
     )
   })
 
-  it("applySummary clears poll and participants, updates lastSummaryAt", () => {
+  it("applySummary clears poll and participants, updates lastSummaryAt and archives the round", () => {
     fc.assert(
       fc.property(
         fc.uniqueArray(participantArb, { selector: (p) => p.id, minLength: 2, maxLength: 2 }),
@@ -109,18 +121,59 @@ describe("state", () => {
             messageId: MessageId(3),
             chatId,
             summaryDate,
-            threadId: null
+            threadId: null,
+            joinOption: 0,
+            formats: yesNoMeetingFormats,
+            standbyOption: null
           })
-          const pairs: ReadonlyArray<Pairing> = [{ kind: "pair", members: [a, b] }]
-          const next = applySummary(withPoll, chatId, pairs, RngSeed(11), summaryDate)
+          const round: RoundRecord = {
+            summaryDate,
+            groups: [{ kind: "pair", members: [a, b], organizerId: b.id, feedback: [], arranged: false }],
+            leftovers: [],
+            feedbackRequested: false,
+            reminderSent: false
+          }
+          const next = applySummary(withPoll, chatId, round, RngSeed(11))
           expect(next.chats[chatId]?.poll).toBeNull()
           expect(Object.keys(next.chats[chatId]?.participants ?? {})).toHaveLength(0)
           expect(next.chats[chatId]?.lastSummaryAt).toBe(summaryDate)
+          expect(next.chats[chatId]?.rounds).toEqual([round])
         }
       )
     )
   })
 
+  it("an empty round still counts toward the cadence of a biweekly chat", () => {
+    const chatId = ChatId("chat-5")
+    const summaryDate = LocalDateString("2026-01-12")
+    const base = setRoundFrequency(ensureChat(emptyState(RngSeed(12)), chatId), chatId, "biweekly")
+    const withPoll = startPoll(base, chatId, {
+      pollId: PollId("poll-5"),
+      messageId: MessageId(5),
+      chatId,
+      summaryDate,
+      threadId: null,
+      joinOption: 0,
+      formats: yesNoMeetingFormats,
+      standbyOption: null
+    })
+    const round: RoundRecord = {
+      summaryDate,
+      groups: [],
+      leftovers: [],
+      feedbackRequested: false,
+      reminderSent: false
+    }
+    const chat = applySummary(withPoll, chatId, round, RngSeed(13)).chats[chatId]
+    expect(chat?.rounds).toEqual([])
+    expect(chat?.lastSummaryAt).toBe(summaryDate)
+    expect(chat && decideSchedule(chat, januaryFriday(16)).kind).toBe("noop")
+    expect(chat && decideSchedule(chat, januaryFriday(23))).toEqual({
+      kind: "createPoll",
+      summaryDate: LocalDateString("2026-01-26")
+    })
+  })
+
   it("finishPoll clears poll but keeps history", () => {
     fc.assert(
       fc.property(localDateArb, (summaryDate) => {
@@ -131,13 +184,16 @@ describe("state", () => {
           messageId: MessageId(4),
           chatId,
           summaryDate,
-          threadId: null
+          threadId: null,
+          joinOption: 0,
+          formats: yesNoMeetingFormats,
+          standbyOption: null
         })
         const chat = withPoll.chats[chatId]
         if (!chat) {
           return
         }
-        const history: PairHistory = { [PairKey("1-2")]: 2 }
+        const history: PairHistory = { [PairKey("1-2")]: [summaryDate, summaryDate] }
         const withHistory = {
           ...withPoll,
           chats: {
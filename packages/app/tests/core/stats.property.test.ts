@@ -0,0 +1,89 @@
+import { describe, expect, it } from "@effect/vitest"
+import fc from "fast-check"
+
+import { LocalDateString, RngSeed, UserId } from "../../src/core/brand.js"
+import type { ChatState, Pairing, Participant, RoundRecord } from "../../src/core/domain.js"
+import { pairingKeys, recordMeetings } from "../../src/core/pairing.js"
+import { buildRoundRecord } from "../../src/core/rounds.js"
+import { emptyChatState } from "../../src/core/state.js"
+import { computeChatStats, statsRoundLimit } from "../../src/core/stats.js"
+
+const participantArb: fc.Arbitrary<Participant> = fc.record({
+  id: fc.integer({ min: 1, max: 12 }).map((id) => UserId(id)),
+  firstName: fc.constant("Member")
+})
+
+// Pairs up distinct participants in order; an odd one out becomes a leftover.
+const roundArb: fc.Arbitrary<RoundRecord> = fc
+  .record({
+    participants: fc.uniqueArray(participantArb, { selector: (participant) => participant.id, maxLength: 9 }),
+    day: fc.integer({ min: 10, max: 28 })
+  })
+  .map(({ day, participants }) => {
+    const pairs: Array<Pairing> = []
+    for (let index = 0; index + 1 < participants.length; index += 2) {
+      const [first, second] = participants.slice(index, index + 2)
+      if (first && second) {
+        pairs.push({ kind: "pair", members: [first, second] })
+      }
+    }
+    return buildRoundRecord(LocalDateString(`2026-03-${day}`), pairs, [], participants.slice(pairs.length * 2))
+  })
+
+// Builds a chat whose pair history matches its round archive, like summaries do.
+const chatWithRounds = (rounds: ReadonlyArray<RoundRecord>): ChatState => {
+  const chat = emptyChatState(RngSeed(1))
+  let history = chat.history
+  for (const round of rounds) {
+    history = recordMeetings(history, round.groups.flatMap((group) => pairingKeys(group)), round.summaryDate)
+  }
+  return { ...chat, rounds, history }
+}
+
+const inUnitRange = (value: number | null): boolean => value === null || (value >= 0 && value <= 1)
+
+describe("stats", () => {
+  it("counts every voter of the latest rounds and keeps rates in range", () => {
+    fc.assert(
+      fc.property(fc.array(roundArb, { maxLength: 12 }), (rounds) => {
+        const stats = computeChatStats(chatWithRounds(rounds))
+        const recent = rounds.slice(-statsRoundLimit)
+        expect(stats.roundCount).toBe(rounds.length)
+        expect(stats.recentRounds.map((turnout) => turnout.participants)).toEqual(
+          recent.map((round) => round.groups.length * 2 + round.leftovers.length)
+        )
+        expect(inUnitRange(stats.repeatPairRate)).toBe(true)
+        expect(inUnitRange(stats.unmatchedShare)).toBe(true)
+        expect(stats.averageHistoryCount === null || stats.averageHistoryCount >= 1).toBe(true)
+      })
+    )
+  })
+
+  it("a round repeated k times has a repeat rate of (k - 1) / k", () => {
+    fc.assert(
+      fc.property(roundArb, fc.integer({ min: 1, max: 5 }), (round, times) => {
+        fc.pre(round.groups.length > 0)
+        const stats = computeChatStats(chatWithRounds(Array.from({ length: times }, () => round)))
+        expect(stats.repeatPairRate).toBeCloseTo((times - 1) / times)
+        expect(stats.averageHistoryCount).toBe(times)
+      })
+    )
+  })
+
+  it("rounds without leftovers have no unmatched voters", () => {
+    const alice = { id: UserId(1), firstName: "Alice" }
+    const bob = { id: UserId(2), firstName: "Bob" }
+    const carol = { id: UserId(3), firstName: "Carol" }
+    const round = buildRoundRecord(LocalDateString("2026-03-16"), [{ kind: "pair", members: [alice, bob] }], [], [])
+    expect(computeChatStats(chatWithRounds([round])).unmatchedShare).toBe(0)
+    const withLeftover = { ...round, leftovers: [carol] }
+    expect(computeChatStats(chatWithRounds([withLeftover])).unmatchedShare).toBeCloseTo(1 / 3)
+    expect(computeChatStats(chatWithRounds([]))).toEqual({
+      roundCount: 0,
+      recentRounds: [],
+      repeatPairRate: null,
+      averageHistoryCount: null,
+      unmatchedShare: null
+    })
+  })
+})
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "@effect/vitest"
+import fc from "fast-check"
+
+import { ChatId, LocalDateString, RngSeed } from "../../src/core/brand.js"
+import { emptyState } from "../../src/core/domain.js"
+import { ensureChat } from "../../src/core/state.js"
+import {
+  encodeSubscriptionAction,
+  parseSkipDate,
+  parseSubscriptionAction,
+  roundParticipants,
+  setChatMode,
+  skipRound,
+  subscribe,
+  unsubscribe
+} from "../../src/core/subscriptions.js"
+import { participant } from "./property-helpers.js"
+
+const chatId = ChatId("-25")
+const alice = participant(1, "Alice")
+const bob = participant(2, "Bob")
+const nextMonday = LocalDateString("2026-01-12")
+
+const rosterState = setChatMode(
+  subscribe(subscribe(ensureChat(emptyState(RngSeed(1)), chatId), chatId, alice), chatId, bob),
+  chatId,
+  "subscription"
+)
+
+describe("roundParticipants", () => {
+  it("pairs the roster minus members who skip the date", () => {
+    const state = skipRound(rosterState, chatId, bob.id, nextMonday)
+    const chat = state.chats[chatId]
+    expect(chat && roundParticipants(chat, nextMonday)).toEqual([alice])
+    expect(chat && roundParticipants(chat, LocalDateString("2026-01-19"))).toEqual([alice, bob])
+  })
+
+  it("ignores the roster while the chat runs polls", () => {
+    const chat = setChatMode(rosterState, chatId, "poll").chats[chatId]
+    expect(chat && roundParticipants(chat, nextMonday)).toEqual([])
+  })
+
+  it("drops unsubscribed members", () => {
+    const chat = unsubscribe(rosterState, chatId, alice.id).chats[chatId]
+    expect(chat && roundParticipants(chat, nextMonday)).toEqual([bob])
+  })
+})
+
+describe("skipRound", () => {
+  it("forgets dates of rounds that were already summarized", () => {
+    const skipped = skipRound(rosterState, chatId, bob.id, nextMonday)
+    const chat = skipped.chats[chatId]
+    if (!chat) {
+      return
+    }
+    const summarized = { ...skipped, chats: { [chatId]: { ...chat, lastSummaryAt: nextMonday } } }
+    const next = skipRound(summarized, chatId, bob.id, LocalDateString("2026-01-26"))
+    expect(next.chats[chatId]?.subscriptions["2"]?.skippedDates).toEqual([LocalDateString("2026-01-26")])
+  })
+
+  it("leaves members who are not subscribed alone", () => {
+    expect(skipRound(rosterState, chatId, participant(3, "Carol").id, nextMonday)).toBe(rosterState)
+  })
+})
+
+describe("parseSkipDate", () => {
+  it("defaults to the next round and accepts later rounds only", () => {
+    expect(parseSkipDate(null, nextMonday)).toBe(nextMonday)
+    expect(parseSkipDate("2026-01-26", nextMonday)).toBe(LocalDateString("2026-01-26"))
+    expect(parseSkipDate("2026-01-05", nextMonday)).toBeNull()
+    expect(parseSkipDate("2026-01-13", nextMonday)).toBeNull()
+    expect(parseSkipDate("soon", nextMonday)).toBeNull()
+  })
+})
+
+describe("subscription actions", () => {
+  it("callback data round-trips", () => {
+    fc.assert(
+      fc.property(fc.constantFrom("join" as const, "leave" as const), fc.integer(), (kind, id) => {
+        const action = { kind, chatId: ChatId(id.toString()) }
+        expect(parseSubscriptionAction(encodeSubscriptionAction(action))).toEqual(action)
+      })
+    )
+  })
+
+  it("rejects callbacks of other buttons", () => {
+    expect(parseSubscriptionAction("excl:add:-1:2")).toBeNull()
+  })
+})
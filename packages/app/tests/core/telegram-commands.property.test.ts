@@ -2,7 +2,13 @@ import { describe, expect, it } from "@effect/vitest"
 import fc from "fast-check"
 
 import type { ChatType } from "../../src/core/domain.js"
-import { isGroupChat, normalizeCommand } from "../../src/core/telegram-commands.js"
+import {
+  isGroupChat,
+  normalizeCommand,
+  parsePollWordingArgument,
+  parseReminderDayArgument,
+  parseScheduleArgument
+} from "../../src/core/telegram-commands.js"
 import { alphaString } from "./property-helpers.js"
 
 describe("telegram-commands", () => {
@@ -32,4 +38,37 @@ describe("telegram-commands", () => {
       })
     )
   })
+
+  it("parseScheduleArgument accepts day names and rejects equal days", () => {
+    expect(parseScheduleArgument("wed thu")).toEqual({ pollDay: "Wed", summaryDay: "Thu" })
+    expect(parseScheduleArgument("Friday MONDAY")).toEqual({ pollDay: "Fri", summaryDay: "Mon" })
+    expect(parseScheduleArgument("mon mon")).toBeNull()
+    expect(parseScheduleArgument("we th")).toBeNull()
+    expect(parseScheduleArgument("wed")).toBeNull()
+    expect(parseScheduleArgument("wed thu fri")).toBeNull()
+    expect(parseScheduleArgument(null)).toBeNull()
+  })
+
+  it("parseReminderDayArgument accepts a day name or off", () => {
+    expect(parseReminderDayArgument("Wednesday")).toEqual({ reminderDay: "Wed" })
+    expect(parseReminderDayArgument("OFF")).toEqual({ reminderDay: null })
+    expect(parseReminderDayArgument("we")).toBeNull()
+    expect(parseReminderDayArgument(null)).toBeNull()
+  })
+
+  it("parsePollWordingArgument splits the question and marks the join option", () => {
+    expect(parsePollWordingArgument("Coffee? | No | *Yes")).toEqual({
+      pollWording: { question: "Coffee?", options: ["No", "Yes"], joinOption: 1 }
+    })
+    expect(parsePollWordingArgument("Coffee?|Yes|No")).toEqual({
+      pollWording: { question: "Coffee?", options: ["Yes", "No"], joinOption: 0 }
+    })
+    expect(parsePollWordingArgument("DEFAULT")).toEqual({ pollWording: null })
+    expect(parsePollWordingArgument("Coffee? | *Yes | *No")).toBeNull()
+    expect(parsePollWordingArgument("Coffee? | Yes")).toBeNull()
+    expect(parsePollWordingArgument(["Coffee?", ...Array.from({ length: 10 }, (_, index) => `${index}`)].join("|")))
+      .toBeNull()
+    expect(parsePollWordingArgument("Coffee? | Yes | ")).toBeNull()
+    expect(parsePollWordingArgument(null)).toBeNull()
+  })
 })
@@ -1,14 +1,14 @@
 import { describe, expect, it } from "@effect/vitest"
 import fc from "fast-check"
 
-import { ChatId, LocalDateString, PollId } from "../../src/core/brand.js"
-import type { Pairing, Participant } from "../../src/core/domain.js"
+import { ChatId, LocalDateString, PollId, UserId } from "../../src/core/brand.js"
+import type { Pairing, Participant, UserProfile } from "../../src/core/domain.js"
+import { languages } from "../../src/core/language.js"
+import { pollMeetingFormats } from "../../src/core/meeting-format.js"
+import { upsertProfile } from "../../src/core/profiles.js"
+import { defaultWeeklySchedule } from "../../src/core/schedule.js"
 import {
   formatParticipantLog,
-  formatPollClosedNoResults,
-  formatPollQuestion,
-  formatStartReply,
-  formatSummary,
   formatUpdateLog,
   logNoRegisteredGroupChats,
   logPollAlreadyClosed,
@@ -18,7 +18,14 @@ import {
   logSummaryPairsSent,
   logTelegramNoUpdates,
   logTelegramReceivedUpdates,
-  logTelegramUpdate,
+  logTelegramUpdate
+} from "../../src/core/text-log.js"
+import {
+  formatDirectPairingMessage,
+  formatPollClosedNoResults,
+  formatPollQuestion,
+  formatStartReply,
+  formatSummary,
   pollOptions,
   replyAdminOnly,
   replyNextPollWindow,
@@ -32,22 +39,35 @@ import {
 import type { IncomingUpdate } from "../../src/core/updates.js"
 import { alphaString, localDateArb, participant } from "./property-helpers.js"
 
+const emptyProfile = (userId: UserId): UserProfile => ({
+  userId,
+  about: null,
+  occupation: null,
+  interests: null,
+  hooks: null,
+  city: null,
+  languages: null,
+  meetingFormat: null
+})
+
 describe("text", () => {
   it("poll options are stable and non-empty", () => {
-    expect(pollOptions.length).toBe(2)
-    expect(pollOptions[0]?.length).toBeGreaterThan(0)
-    expect(pollOptions[1]?.length).toBeGreaterThan(0)
+    for (const language of languages) {
+      const options = pollOptions(language)
+      expect(options.length).toBe(pollMeetingFormats.length + 2)
+      expect(options.every((option) => option.length > 0)).toBe(true)
+    }
   })
 
   it("reply messages are non-empty", () => {
-    expect(replyAdminOnly().length).toBeGreaterThan(0)
-    expect(replySetTopicMain().length).toBeGreaterThan(0)
-    expect(replySetTopicThread().length).toBeGreaterThan(0)
-    expect(replyPollAlreadyActive().length).toBeGreaterThan(0)
-    expect(replyPollWindowOpen().length).toBeGreaterThan(0)
-    expect(formatStartReply().length).toBeGreaterThan(0)
-    expect(formatPollQuestion().length).toBeGreaterThan(0)
-    expect(formatPollClosedNoResults().length).toBeGreaterThan(0)
+    expect(replyAdminOnly("en").length).toBeGreaterThan(0)
+    expect(replySetTopicMain("en").length).toBeGreaterThan(0)
+    expect(replySetTopicThread("en").length).toBeGreaterThan(0)
+    expect(replyPollAlreadyActive("en").length).toBeGreaterThan(0)
+    expect(replyPollWindowOpen("en").length).toBeGreaterThan(0)
+    expect(formatStartReply("en", defaultWeeklySchedule).length).toBeGreaterThan(0)
+    expect(formatPollQuestion("en").length).toBeGreaterThan(0)
+    expect(formatPollClosedNoResults("en").length).toBeGreaterThan(0)
     expect(logTelegramNoUpdates().length).toBeGreaterThan(0)
     expect(logNoRegisteredGroupChats().length).toBeGreaterThan(0)
   })
@@ -55,7 +75,7 @@ describe("text", () => {
   it("replyPollAlreadyActiveWithDate includes the date", () => {
     fc.assert(
       fc.property(localDateArb, (summaryDate) => {
-        const reply = replyPollAlreadyActiveWithDate(summaryDate)
+        const reply = replyPollAlreadyActiveWithDate("en", summaryDate)
         expect(reply.includes(summaryDate)).toBe(true)
       })
     )
@@ -64,7 +84,7 @@ describe("text", () => {
   it("replyNextPollWindow uses singular and plural day forms", () => {
     fc.assert(
       fc.property(fc.constantFrom(1, 2), localDateArb, (days, date) => {
-        const reply = replyNextPollWindow(days, date)
+        const reply = replyNextPollWindow("en", days, date)
         expect(reply.includes(date)).toBe(true)
         if (days === 1) {
           expect(reply.includes("1 day")).toBe(true)
@@ -177,7 +197,7 @@ describe("text", () => {
     const triple: Pairing = { kind: "triple", members: [alice, bob, carol] }
     const safeTitle = "Fish & Chips <\"Test\">'"
 
-    const none = formatSummary(safeTitle, [], [])
+    const none = formatSummary("en", safeTitle, [], [])
     expect(none).toContain("Not enough participants")
     expect(none).toContain("&amp;")
     expect(none).toContain("&lt;")
@@ -185,17 +205,71 @@ describe("text", () => {
     expect(none).toContain("&quot;")
     expect(none).toContain("&#39;")
 
-    const leftoversOnly = formatSummary("Team", [], [alice])
+    const leftoversOnly = formatSummary("en", "Team", [], [alice])
     expect(leftoversOnly).toContain("Signed up:")
     expect(leftoversOnly).toContain("tg://user?id=")
 
-    const pairsAndLeftovers = formatSummary("Team", [pair, triple], [bob])
+    const pairsAndLeftovers = formatSummary("en", "Team", [pair, triple], [bob])
     expect(pairsAndLeftovers).toContain("Pairs for Team are ready!")
     expect(pairsAndLeftovers).toContain("No match this week:")
     expect(pairsAndLeftovers).toContain("tg://user?id=")
 
-    const pairsOnly = formatSummary("Team", [pair], [])
+    const pairsOnly = formatSummary("en", "Team", [pair], [])
     expect(pairsOnly).toContain("Pairs for Team are ready!")
     expect(pairsOnly).toContain("Find your match for this week below:")
+    expect(pairsOnly).not.toContain(" · ")
+
+    const online: Pairing = { kind: "pair", members: [{ ...alice, meetingFormat: "online" }, bob] }
+    expect(formatSummary("en", "Team", [online], [])).toContain("</a> · Online")
+  })
+
+  it("formatDirectPairingMessage shows saved profiles and nudges empty ones", () => {
+    const alice = participant(10, "Alice")
+    const bob = participant(11, "Bob")
+    const profiles = upsertProfile({}, {
+      ...emptyProfile(UserId(11)),
+      occupation: "Design & <coffee>",
+      city: "Berlin",
+      meetingFormat: "online"
+    })
+    const base = {
+      language: "ru" as const,
+      counterparts: [bob],
+      isOrganizer: false,
+      chatTitle: "Team",
+      chatInviteLink: null,
+      summaryLink: null,
+      meetingFormat: "any" as const,
+      calledIn: false
+    }
+
+    const withoutOwn = formatDirectPairingMessage({ ...base, recipientId: alice.id, profiles })
+    expect(withoutOwn).toContain("Чем занимается: Design &amp; &lt;coffee&gt;")
+    expect(withoutOwn).toContain("Город: Berlin")
+    expect(withoutOwn).toContain("Формат встречи: Онлайн")
+    expect(withoutOwn).not.toContain("Языки:")
+    expect(withoutOwn).toContain("Твоя анкета пока пустая")
+
+    const reversed = formatDirectPairingMessage({ ...base, counterparts: [alice], recipientId: bob.id, profiles })
+    expect(reversed).toContain("Анкета пока не заполнена")
+    expect(reversed).not.toContain("Твоя анкета пока пустая")
+
+    const legacy = upsertProfile({}, { ...emptyProfile(alice.id), about: "Люблю кофе" })
+    const legacyMessage = formatDirectPairingMessage({
+      ...base,
+      counterparts: [alice],
+      recipientId: alice.id,
+      profiles: legacy
+    })
+    expect(legacyMessage).toContain("О себе: Люблю кофе")
+    expect(legacyMessage).toContain("Анкета теперь состоит из коротких вопросов")
+    expect(legacyMessage).not.toContain("Договорились о формате")
+
+    const offline = formatDirectPairingMessage({ ...base, recipientId: alice.id, profiles, meetingFormat: "offline" })
+    expect(offline).toContain("Договорились о формате: Вживую")
+    expect(offline).not.toContain("списке запасных")
+
+    const calledIn = formatDirectPairingMessage({ ...base, recipientId: alice.id, profiles, calledIn: true })
+    expect(calledIn).toContain("Ты в списке запасных")
   })
 })
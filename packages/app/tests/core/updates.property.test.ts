@@ -5,6 +5,7 @@ import fc from "fast-check"
 import { ChatId, LocalDateString, MessageId, PollId, RngSeed } from "../../src/core/brand.js"
 import type { BotState } from "../../src/core/domain.js"
 import { emptyState } from "../../src/core/domain.js"
+import { yesNoMeetingFormats } from "../../src/core/meeting-format.js"
 import { ensureChat, startPoll } from "../../src/core/state.js"
 import type { IncomingUpdate } from "../../src/core/updates.js"
 import { applyUpdates } from "../../src/core/updates.js"
@@ -35,7 +36,10 @@ const buildStateWithPoll = (chatId: ChatId, pollId: PollId): BotState => {
     messageId: MessageId(1),
     chatId,
     summaryDate: localDate,
-    threadId: null
+    threadId: null,
+    joinOption: 0,
+    formats: yesNoMeetingFormats,
+    standbyOption: null
   })
 }
 
@@ -3,6 +3,8 @@ import { describe, expect, it } from "@effect/vitest"
 import { ChatId, LocalDateString, MessageId, PollId, RngSeed, UserId } from "../../src/core/brand.js"
 import type { Participant } from "../../src/core/domain.js"
 import { emptyState } from "../../src/core/domain.js"
+import { pollMeetingFormats, yesNoMeetingFormats } from "../../src/core/meeting-format.js"
+import { setPollWording } from "../../src/core/poll-wording.js"
 import { emptyChatState, startPoll } from "../../src/core/state.js"
 import type { IncomingUpdate } from "../../src/core/updates.js"
 import { applyUpdates } from "../../src/core/updates.js"
@@ -38,7 +40,10 @@ describe("applyUpdates", () => {
       messageId: MessageId(3),
       chatId,
       summaryDate: LocalDateString("2026-01-12"),
-      threadId: null
+      threadId: null,
+      joinOption: 0,
+      formats: yesNoMeetingFormats,
+      standbyOption: null
     }
     const base = {
       ...emptyState(RngSeed(2)),
@@ -72,4 +77,67 @@ describe("applyUpdates", () => {
     const afterNo = applyUpdates(afterYes, [voteNo])
     expect(Object.keys(afterNo.chats[chatId]?.participants ?? {}).length).toBe(0)
   })
+
+  it("counts votes for the join option the poll was sent with", () => {
+    const chatId = ChatId("-801")
+    const pollId = PollId("poll-4")
+    const poll = {
+      pollId,
+      messageId: MessageId(4),
+      chatId,
+      summaryDate: LocalDateString("2026-01-12"),
+      threadId: null,
+      joinOption: 1,
+      formats: yesNoMeetingFormats,
+      standbyOption: null
+    }
+    const base = { ...emptyState(RngSeed(3)), chats: { [chatId]: emptyChatState(RngSeed(3)) } }
+    const withPoll = setPollWording(startPoll(base, chatId, poll), chatId, {
+      question: "Coffee?",
+      options: ["Yes", "No"],
+      joinOption: 0
+    })
+    const vote = (updateId: number, optionId: number): IncomingUpdate => ({
+      updateId,
+      pollVote: { pollId, participant: makeParticipant(2, "Alice"), optionIds: [optionId] }
+    })
+
+    const afterFirst = applyUpdates(withPoll, [vote(1, 0)])
+    expect(Object.keys(afterFirst.chats[chatId]?.participants ?? {}).length).toBe(0)
+
+    const afterSecond = applyUpdates(afterFirst, [vote(2, 1)])
+    expect(Object.keys(afterSecond.chats[chatId]?.participants ?? {}).length).toBe(1)
+  })
+
+  it("stores the format picked in a format poll, flags standby members and drops members who decline", () => {
+    const chatId = ChatId("-802")
+    const pollId = PollId("poll-5")
+    const poll = {
+      pollId,
+      messageId: MessageId(5),
+      chatId,
+      summaryDate: LocalDateString("2026-01-12"),
+      threadId: null,
+      joinOption: 0,
+      formats: pollMeetingFormats,
+      standbyOption: pollMeetingFormats.length
+    }
+    const base = { ...emptyState(RngSeed(4)), chats: { [chatId]: emptyChatState(RngSeed(4)) } }
+    const withPoll = startPoll(base, chatId, poll)
+    const vote = (updateId: number, optionId: number): IncomingUpdate => ({
+      updateId,
+      pollVote: { pollId, participant: makeParticipant(2, "Alice"), optionIds: [optionId] }
+    })
+
+    for (const [optionId, format] of pollMeetingFormats.entries()) {
+      const next = applyUpdates(withPoll, [vote(1, optionId)])
+      expect(next.chats[chatId]?.participants["2"]?.meetingFormat).toBe(format === "any" ? undefined : format)
+    }
+
+    const standby = applyUpdates(withPoll, [vote(1, pollMeetingFormats.length)])
+    expect(standby.chats[chatId]?.participants["2"]?.standby).toBe(true)
+
+    const declined = applyUpdates(withPoll, [vote(1, 0), vote(2, pollMeetingFormats.length + 1)])
+    expect(declined.chats[chatId]?.participants).toEqual({})
+  })
 })